@@ -0,0 +1,694 @@
+-- CreateEnum
+CREATE TYPE "DocumentType" AS ENUM ('Contract', 'Policy', 'Certificate', 'ID', 'Resume', 'Training', 'Report', 'Other');
+
+-- CreateEnum
+CREATE TYPE "ExpenseStatus" AS ENUM ('Pending', 'Approved', 'Rejected', 'Reimbursed');
+
+-- CreateEnum
+CREATE TYPE "ExpenseCategory" AS ENUM ('Travel', 'Meals', 'Accommodation', 'Equipment', 'Software', 'Training', 'Office', 'Mileage', 'Other');
+
+-- CreateEnum
+CREATE TYPE "IntegrationType" AS ENUM ('QuickBooks', 'Salesforce', 'Slack', 'GoogleCalendar', 'ADP', 'BambooHR', 'Gusto', 'Zapier');
+
+-- CreateEnum
+CREATE TYPE "IntegrationStatus" AS ENUM ('Pending', 'Active', 'Failed', 'Inactive');
+
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('ShiftAssigned', 'ShiftUpdated', 'ShiftCancelled', 'ShiftReminder', 'ShiftSwapRequest', 'TimeOffApproved', 'TimeOffRejected', 'TimeOffReminder', 'TimesheetDue', 'TimesheetApproved', 'TimesheetRejected', 'OvertimeAlert', 'AnomalyDetected', 'Announcement', 'ChatMessage', 'PresenceUpdate', 'ExpenseApproved', 'ExpenseRejected', 'TrainingAssigned', 'CertificationExpiring', 'System');
+
+-- CreateEnum
+CREATE TYPE "NotificationChannel" AS ENUM ('Push', 'Email', 'Sms', 'InApp');
+
+-- CreateEnum
+CREATE TYPE "ShiftStatus" AS ENUM ('Scheduled', 'InProgress', 'Completed', 'Cancelled', 'OnHold');
+
+-- CreateEnum
+CREATE TYPE "ShiftSwapStatus" AS ENUM ('Pending', 'Accepted', 'Rejected', 'Cancelled');
+
+-- CreateEnum
+CREATE TYPE "TrainingStatus" AS ENUM ('Assigned', 'InProgress', 'Completed', 'Expired', 'NotStarted');
+
+-- CreateEnum
+CREATE TYPE "CertificationStatus" AS ENUM ('Active', 'Expired', 'Revoked', 'Pending');
+
+-- AlterTable
+ALTER TABLE "chat_messages" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "employee_profiles" ADD COLUMN     "hourlyRate" DECIMAL(10,2),
+ADD COLUMN     "maxWeeklyHours" INTEGER,
+ADD COLUMN     "preferredWeeklyHours" INTEGER,
+ADD COLUMN     "seniorityLevel" TEXT;
+
+-- AlterTable
+ALTER TABLE "presence_sessions" ADD COLUMN     "lastLatitude" DECIMAL(10,8),
+ADD COLUMN     "lastLongitude" DECIMAL(11,8),
+ADD COLUMN     "statusMessage" TEXT,
+ADD COLUMN     "statusUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "refresh_tokens" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refresh_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "password_reset_tokens" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "password_reset_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "activity_logs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "taskId" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "activity_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "message_statuses" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deliveredAt" TIMESTAMP(3),
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_statuses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "departments" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "departments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shifts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "status" "ShiftStatus" NOT NULL DEFAULT 'Scheduled',
+    "locationId" TEXT,
+    "departmentId" TEXT,
+    "notes" TEXT,
+    "breakDuration" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shift_templates" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "breakDuration" INTEGER NOT NULL DEFAULT 0,
+    "departmentId" TEXT,
+    "locationId" TEXT,
+    "daysOfWeek" INTEGER[],
+    "createdBy" TEXT,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shift_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shift_swap_requests" (
+    "id" TEXT NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "requestedToId" TEXT NOT NULL,
+    "status" "ShiftSwapStatus" NOT NULL DEFAULT 'Pending',
+    "reason" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "respondReason" TEXT,
+    "approvedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shift_swap_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_availability" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "isPreferred" BOOLEAN NOT NULL DEFAULT false,
+    "isAvailable" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "user_availability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "data" JSONB,
+    "priority" TEXT NOT NULL DEFAULT 'normal',
+    "actionUrl" TEXT,
+    "imageUrl" TEXT,
+    "isRead" BOOLEAN NOT NULL DEFAULT false,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "push_tokens" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "push_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "channel" "NotificationChannel" NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "document_categories" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "documents" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "DocumentType" NOT NULL,
+    "categoryId" TEXT,
+    "userId" TEXT NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "fileType" TEXT NOT NULL,
+    "uploadedBy" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "isConfidential" BOOLEAN NOT NULL DEFAULT false,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "expenses" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "category" "ExpenseCategory" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "date" DATE NOT NULL,
+    "description" TEXT NOT NULL,
+    "receiptUrl" TEXT,
+    "projectId" TEXT,
+    "mileage" DECIMAL(10,2),
+    "status" "ExpenseStatus" NOT NULL DEFAULT 'Pending',
+    "approvedBy" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "approvalNotes" TEXT,
+    "rejectionReason" TEXT,
+    "reimbursedAt" TIMESTAMP(3),
+    "reimbursementMethod" TEXT,
+    "reimbursementReference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "expenses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "expense_policies" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "category" "ExpenseCategory" NOT NULL,
+    "maxAmount" DECIMAL(10,2) NOT NULL,
+    "requiresReceipt" BOOLEAN NOT NULL DEFAULT true,
+    "receiptThreshold" DECIMAL(10,2),
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "expense_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "integrations" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "type" "IntegrationType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "config" JSONB NOT NULL DEFAULT '{}',
+    "status" "IntegrationStatus" NOT NULL DEFAULT 'Pending',
+    "errorMessage" TEXT,
+    "lastSyncAt" TIMESTAMP(3),
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "integrations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhooks" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "events" TEXT[],
+    "secret" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhooks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhook_deliveries" (
+    "id" TEXT NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "eventId" TEXT,
+    "eventType" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "statusCode" INTEGER,
+    "success" BOOLEAN NOT NULL,
+    "responseBody" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "training_categories" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "training_categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "trainings" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "categoryId" TEXT,
+    "duration" INTEGER,
+    "requiredForRoles" TEXT[],
+    "recurrenceMonths" INTEGER,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trainings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "training_assignments" (
+    "id" TEXT NOT NULL,
+    "trainingId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "TrainingStatus" NOT NULL DEFAULT 'Assigned',
+    "assignedBy" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "completedAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "training_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "certifications" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "issuingBody" TEXT,
+    "validityMonths" INTEGER,
+    "requiredTrainingId" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "certifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_certifications" (
+    "id" TEXT NOT NULL,
+    "certificationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "issuedDate" TIMESTAMP(3) NOT NULL,
+    "expiryDate" TIMESTAMP(3),
+    "certificateUrl" TEXT,
+    "status" "CertificationStatus" NOT NULL DEFAULT 'Active',
+    "awardedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_certifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refresh_tokens_tokenHash_key" ON "refresh_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_userId_idx" ON "refresh_tokens"("userId");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_expiresAt_idx" ON "refresh_tokens"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "password_reset_tokens_tokenHash_key" ON "password_reset_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "password_reset_tokens_userId_idx" ON "password_reset_tokens"("userId");
+
+-- CreateIndex
+CREATE INDEX "password_reset_tokens_expiresAt_idx" ON "password_reset_tokens"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "activity_logs_userId_startedAt_idx" ON "activity_logs"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "message_statuses_userId_idx" ON "message_statuses"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_statuses_messageId_userId_key" ON "message_statuses"("messageId", "userId");
+
+-- CreateIndex
+CREATE INDEX "departments_companyId_idx" ON "departments"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "departments_companyId_name_key" ON "departments"("companyId", "name");
+
+-- CreateIndex
+CREATE INDEX "shifts_userId_idx" ON "shifts"("userId");
+
+-- CreateIndex
+CREATE INDEX "shifts_companyId_idx" ON "shifts"("companyId");
+
+-- CreateIndex
+CREATE INDEX "shifts_startTime_endTime_idx" ON "shifts"("startTime", "endTime");
+
+-- CreateIndex
+CREATE INDEX "shift_templates_companyId_idx" ON "shift_templates"("companyId");
+
+-- CreateIndex
+CREATE INDEX "shift_swap_requests_shiftId_idx" ON "shift_swap_requests"("shiftId");
+
+-- CreateIndex
+CREATE INDEX "shift_swap_requests_requestedById_idx" ON "shift_swap_requests"("requestedById");
+
+-- CreateIndex
+CREATE INDEX "shift_swap_requests_requestedToId_idx" ON "shift_swap_requests"("requestedToId");
+
+-- CreateIndex
+CREATE INDEX "user_availability_userId_idx" ON "user_availability"("userId");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_idx" ON "notifications"("userId");
+
+-- CreateIndex
+CREATE INDEX "notifications_isRead_idx" ON "notifications"("isRead");
+
+-- CreateIndex
+CREATE INDEX "notifications_createdAt_idx" ON "notifications"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "push_tokens_userId_idx" ON "push_tokens"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "push_tokens_userId_token_key" ON "push_tokens"("userId", "token");
+
+-- CreateIndex
+CREATE INDEX "notification_preferences_userId_idx" ON "notification_preferences"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_preferences_userId_channel_key" ON "notification_preferences"("userId", "channel");
+
+-- CreateIndex
+CREATE INDEX "document_categories_companyId_idx" ON "document_categories"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_categories_companyId_name_key" ON "document_categories"("companyId", "name");
+
+-- CreateIndex
+CREATE INDEX "documents_companyId_idx" ON "documents"("companyId");
+
+-- CreateIndex
+CREATE INDEX "documents_userId_idx" ON "documents"("userId");
+
+-- CreateIndex
+CREATE INDEX "documents_type_idx" ON "documents"("type");
+
+-- CreateIndex
+CREATE INDEX "expenses_userId_idx" ON "expenses"("userId");
+
+-- CreateIndex
+CREATE INDEX "expenses_companyId_idx" ON "expenses"("companyId");
+
+-- CreateIndex
+CREATE INDEX "expenses_status_idx" ON "expenses"("status");
+
+-- CreateIndex
+CREATE INDEX "expense_policies_companyId_idx" ON "expense_policies"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expense_policies_companyId_category_key" ON "expense_policies"("companyId", "category");
+
+-- CreateIndex
+CREATE INDEX "integrations_companyId_idx" ON "integrations"("companyId");
+
+-- CreateIndex
+CREATE INDEX "webhooks_companyId_idx" ON "webhooks"("companyId");
+
+-- CreateIndex
+CREATE INDEX "webhook_deliveries_webhookId_idx" ON "webhook_deliveries"("webhookId");
+
+-- CreateIndex
+CREATE INDEX "training_categories_companyId_idx" ON "training_categories"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "training_categories_companyId_name_key" ON "training_categories"("companyId", "name");
+
+-- CreateIndex
+CREATE INDEX "trainings_companyId_idx" ON "trainings"("companyId");
+
+-- CreateIndex
+CREATE INDEX "training_assignments_trainingId_idx" ON "training_assignments"("trainingId");
+
+-- CreateIndex
+CREATE INDEX "training_assignments_userId_idx" ON "training_assignments"("userId");
+
+-- CreateIndex
+CREATE INDEX "training_assignments_status_idx" ON "training_assignments"("status");
+
+-- CreateIndex
+CREATE INDEX "certifications_companyId_idx" ON "certifications"("companyId");
+
+-- CreateIndex
+CREATE INDEX "user_certifications_certificationId_idx" ON "user_certifications"("certificationId");
+
+-- CreateIndex
+CREATE INDEX "user_certifications_userId_idx" ON "user_certifications"("userId");
+
+-- AddForeignKey
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "activity_logs" ADD CONSTRAINT "activity_logs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "activity_logs" ADD CONSTRAINT "activity_logs_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "activity_logs" ADD CONSTRAINT "activity_logs_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_statuses" ADD CONSTRAINT "message_statuses_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "chat_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_statuses" ADD CONSTRAINT "message_statuses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "departments" ADD CONSTRAINT "departments_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "office_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "departments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_templates" ADD CONSTRAINT "shift_templates_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "departments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_templates" ADD CONSTRAINT "shift_templates_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "office_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "shifts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_requestedToId_fkey" FOREIGN KEY ("requestedToId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_availability" ADD CONSTRAINT "user_availability_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "push_tokens" ADD CONSTRAINT "push_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "document_categories" ADD CONSTRAINT "document_categories_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "documents" ADD CONSTRAINT "documents_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "document_categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "documents" ADD CONSTRAINT "documents_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "documents" ADD CONSTRAINT "documents_uploadedBy_fkey" FOREIGN KEY ("uploadedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_approvedBy_fkey" FOREIGN KEY ("approvedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_policies" ADD CONSTRAINT "expense_policies_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "integrations" ADD CONSTRAINT "integrations_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "webhooks" ADD CONSTRAINT "webhooks_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_webhookId_fkey" FOREIGN KEY ("webhookId") REFERENCES "webhooks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "training_categories" ADD CONSTRAINT "training_categories_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trainings" ADD CONSTRAINT "trainings_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trainings" ADD CONSTRAINT "trainings_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "training_categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "training_assignments" ADD CONSTRAINT "training_assignments_trainingId_fkey" FOREIGN KEY ("trainingId") REFERENCES "trainings"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "training_assignments" ADD CONSTRAINT "training_assignments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "training_assignments" ADD CONSTRAINT "training_assignments_assignedBy_fkey" FOREIGN KEY ("assignedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "certifications" ADD CONSTRAINT "certifications_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "certifications" ADD CONSTRAINT "certifications_requiredTrainingId_fkey" FOREIGN KEY ("requiredTrainingId") REFERENCES "trainings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_certifications" ADD CONSTRAINT "user_certifications_certificationId_fkey" FOREIGN KEY ("certificationId") REFERENCES "certifications"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_certifications" ADD CONSTRAINT "user_certifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_certifications" ADD CONSTRAINT "user_certifications_awardedBy_fkey" FOREIGN KEY ("awardedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "attendance_events" ADD COLUMN     "officeLocationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "office_locations" ADD COLUMN     "qrCheckInEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "geofence_policies" ADD COLUMN     "qrRotationSeconds" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN     "requireQrForOffice" BOOLEAN NOT NULL DEFAULT false;
+
+-- AddForeignKey
+ALTER TABLE "attendance_events" ADD CONSTRAINT "attendance_events_officeLocationId_fkey" FOREIGN KEY ("officeLocationId") REFERENCES "office_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "RegularizationStatus" AS ENUM ('Pending', 'Approved', 'Rejected', 'Cancelled');
+
+-- CreateTable
+CREATE TABLE "attendance_regularizations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "proposedCheckIn" TIMESTAMP(3),
+    "proposedCheckOut" TIMESTAMP(3),
+    "workMode" "WorkMode",
+    "reason" TEXT NOT NULL,
+    "status" "RegularizationStatus" NOT NULL DEFAULT 'Pending',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_regularizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_regularizations_userId_date_idx" ON "attendance_regularizations"("userId", "date");
+
+-- CreateIndex
+CREATE INDEX "attendance_regularizations_companyId_status_idx" ON "attendance_regularizations"("companyId", "status");
+
+-- AddForeignKey
+ALTER TABLE "attendance_regularizations" ADD CONSTRAINT "attendance_regularizations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_regularizations" ADD CONSTRAINT "attendance_regularizations_reviewedBy_fkey" FOREIGN KEY ("reviewedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
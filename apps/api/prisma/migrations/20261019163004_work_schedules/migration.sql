@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "WorkScheduleScope" AS ENUM ('Employee', 'Department', 'OfficeLocation');
+
+-- AlterTable
+ALTER TABLE "employee_profiles" ADD COLUMN     "officeLocationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "work_schedules" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "graceMinutesLate" INTEGER NOT NULL DEFAULT 15,
+    "graceMinutesEarly" INTEGER NOT NULL DEFAULT 15,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "work_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "work_schedule_days" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "isWorkingDay" BOOLEAN NOT NULL DEFAULT true,
+    "startTime" TEXT NOT NULL DEFAULT '09:00',
+    "endTime" TEXT NOT NULL DEFAULT '18:00',
+
+    CONSTRAINT "work_schedule_days_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "work_schedule_assignments" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "scope" "WorkScheduleScope" NOT NULL,
+    "userId" TEXT,
+    "departmentId" TEXT,
+    "officeLocationId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "work_schedule_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "work_schedules_companyId_idx" ON "work_schedules"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "work_schedules_companyId_name_key" ON "work_schedules"("companyId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "work_schedule_days_scheduleId_weekday_key" ON "work_schedule_days"("scheduleId", "weekday");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "work_schedule_assignments_userId_key" ON "work_schedule_assignments"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "work_schedule_assignments_departmentId_key" ON "work_schedule_assignments"("departmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "work_schedule_assignments_officeLocationId_key" ON "work_schedule_assignments"("officeLocationId");
+
+-- CreateIndex
+CREATE INDEX "work_schedule_assignments_companyId_idx" ON "work_schedule_assignments"("companyId");
+
+-- CreateIndex
+CREATE INDEX "work_schedule_assignments_scheduleId_idx" ON "work_schedule_assignments"("scheduleId");
+
+-- AddForeignKey
+ALTER TABLE "employee_profiles" ADD CONSTRAINT "employee_profiles_officeLocationId_fkey" FOREIGN KEY ("officeLocationId") REFERENCES "office_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_schedules" ADD CONSTRAINT "work_schedules_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_schedule_days" ADD CONSTRAINT "work_schedule_days_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "work_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_schedule_assignments" ADD CONSTRAINT "work_schedule_assignments_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "work_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_schedule_assignments" ADD CONSTRAINT "work_schedule_assignments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_schedule_assignments" ADD CONSTRAINT "work_schedule_assignments_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "departments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_schedule_assignments" ADD CONSTRAINT "work_schedule_assignments_officeLocationId_fkey" FOREIGN KEY ("officeLocationId") REFERENCES "office_locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
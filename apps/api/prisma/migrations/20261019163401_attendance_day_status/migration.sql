@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "DayStatus" AS ENUM ('Present', 'OnLeave', 'Holiday', 'Weekend', 'Absent');
+
+-- CreateTable
+CREATE TABLE "daily_attendance_statuses" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "status" "DayStatus" NOT NULL,
+    "leaveRequestId" TEXT,
+    "holidayId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "daily_attendance_statuses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "daily_attendance_statuses_companyId_date_status_idx" ON "daily_attendance_statuses"("companyId", "date", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_attendance_statuses_userId_date_key" ON "daily_attendance_statuses"("userId", "date");
+
+-- AddForeignKey
+ALTER TABLE "daily_attendance_statuses" ADD CONSTRAINT "daily_attendance_statuses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
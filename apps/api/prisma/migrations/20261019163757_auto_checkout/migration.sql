@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "attendance_events" ADD COLUMN     "isAutoClosed" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "break_segments" ADD COLUMN     "isAutoClosed" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "work_policies" ADD COLUMN     "autoCheckoutEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "autoCheckoutTime" TEXT NOT NULL DEFAULT '23:00',
+ADD COLUMN     "autoEndBreakMinutes" INTEGER;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "VerificationStatus" ADD VALUE 'BiometricDevice';
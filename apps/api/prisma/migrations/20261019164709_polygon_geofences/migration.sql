@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "GeofenceZoneShape" AS ENUM ('Circle', 'Polygon');
+
+-- CreateTable
+CREATE TABLE "geofence_zones" (
+    "id" TEXT NOT NULL,
+    "officeLocationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "shape" "GeofenceZoneShape" NOT NULL,
+    "latitude" DECIMAL(10,8),
+    "longitude" DECIMAL(11,8),
+    "radiusMeters" INTEGER,
+    "polygon" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "geofence_zones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "geofence_zones_officeLocationId_idx" ON "geofence_zones"("officeLocationId");
+
+-- AddForeignKey
+ALTER TABLE "geofence_zones" ADD CONSTRAINT "geofence_zones_officeLocationId_fkey" FOREIGN KEY ("officeLocationId") REFERENCES "office_locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
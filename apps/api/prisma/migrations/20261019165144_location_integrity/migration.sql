@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "LocationIntegrityVerdict" AS ENUM ('Trusted', 'Suspicious', 'Spoofed');
+
+-- AlterTable
+ALTER TABLE "attendance_events" ADD COLUMN     "locationIntegrity" "LocationIntegrityVerdict",
+ADD COLUMN     "locationIntegrityScore" INTEGER,
+ADD COLUMN     "locationSignals" JSONB;
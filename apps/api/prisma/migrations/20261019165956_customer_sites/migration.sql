@@ -0,0 +1,76 @@
+-- CreateTable
+CREATE TABLE "customer_sites" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "name" TEXT NOT NULL,
+    "customerName" TEXT,
+    "address" TEXT NOT NULL,
+    "latitude" DECIMAL(10,8) NOT NULL,
+    "longitude" DECIMAL(11,8) NOT NULL,
+    "radiusMeters" INTEGER NOT NULL DEFAULT 200,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customer_sites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "site_visits" (
+    "id" TEXT NOT NULL,
+    "customerSiteId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "checkInEventId" TEXT NOT NULL,
+    "checkOutEventId" TEXT,
+    "arrivedAt" TIMESTAMP(3) NOT NULL,
+    "departedAt" TIMESTAMP(3),
+    "durationMinutes" INTEGER,
+    "distanceMeters" INTEGER,
+    "photoObjectKey" TEXT,
+    "photoFileName" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "site_visits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "customer_sites_companyId_idx" ON "customer_sites"("companyId");
+
+-- CreateIndex
+CREATE INDEX "customer_sites_projectId_idx" ON "customer_sites"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "site_visits_checkInEventId_key" ON "site_visits"("checkInEventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "site_visits_checkOutEventId_key" ON "site_visits"("checkOutEventId");
+
+-- CreateIndex
+CREATE INDEX "site_visits_customerSiteId_idx" ON "site_visits"("customerSiteId");
+
+-- CreateIndex
+CREATE INDEX "site_visits_userId_idx" ON "site_visits"("userId");
+
+-- CreateIndex
+CREATE INDEX "site_visits_arrivedAt_idx" ON "site_visits"("arrivedAt");
+
+-- AddForeignKey
+ALTER TABLE "customer_sites" ADD CONSTRAINT "customer_sites_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_sites" ADD CONSTRAINT "customer_sites_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "site_visits" ADD CONSTRAINT "site_visits_customerSiteId_fkey" FOREIGN KEY ("customerSiteId") REFERENCES "customer_sites"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "site_visits" ADD CONSTRAINT "site_visits_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "site_visits" ADD CONSTRAINT "site_visits_checkInEventId_fkey" FOREIGN KEY ("checkInEventId") REFERENCES "attendance_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "site_visits" ADD CONSTRAINT "site_visits_checkOutEventId_fkey" FOREIGN KEY ("checkOutEventId") REFERENCES "attendance_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
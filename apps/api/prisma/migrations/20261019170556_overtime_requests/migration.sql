@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "OvertimeRequestStatus" AS ENUM ('Pending', 'Approved', 'Rejected', 'Cancelled');
+
+-- AlterTable
+ALTER TABLE "attendance_days" ADD COLUMN     "approvedOvertimeMinutes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "overtime_requests" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "approvedMinutes" INTEGER,
+    "reason" TEXT NOT NULL,
+    "isPreApproval" BOOLEAN NOT NULL DEFAULT true,
+    "requestedBy" TEXT NOT NULL,
+    "status" "OvertimeRequestStatus" NOT NULL DEFAULT 'Pending',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "overtime_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "overtime_requests_userId_date_idx" ON "overtime_requests"("userId", "date");
+
+-- CreateIndex
+CREATE INDEX "overtime_requests_companyId_status_idx" ON "overtime_requests"("companyId", "status");
+
+-- AddForeignKey
+ALTER TABLE "overtime_requests" ADD CONSTRAINT "overtime_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "overtime_requests" ADD CONSTRAINT "overtime_requests_requestedBy_fkey" FOREIGN KEY ("requestedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "overtime_requests" ADD CONSTRAINT "overtime_requests_reviewedBy_fkey" FOREIGN KEY ("reviewedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "CompOffSource" AS ENUM ('Holiday', 'NonWorkingDay');
+
+-- CreateEnum
+CREATE TYPE "CompOffCreditStatus" AS ENUM ('Pending', 'Approved', 'Rejected', 'Expired');
+
+-- AlterTable
+ALTER TABLE "work_policies" ADD COLUMN     "compOffEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "compOffExpiryDays" INTEGER NOT NULL DEFAULT 90,
+ADD COLUMN     "compOffFullDayMinutes" INTEGER NOT NULL DEFAULT 480,
+ADD COLUMN     "compOffHalfDayMinutes" INTEGER NOT NULL DEFAULT 240;
+
+-- CreateTable
+CREATE TABLE "comp_off_credits" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "attendanceDayId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "source" "CompOffSource" NOT NULL,
+    "holidayId" TEXT,
+    "workedMinutes" INTEGER NOT NULL,
+    "days" DECIMAL(2,1) NOT NULL,
+    "status" "CompOffCreditStatus" NOT NULL DEFAULT 'Pending',
+    "expiresAt" DATE NOT NULL,
+    "leaveBalanceId" TEXT,
+    "expiredDays" DECIMAL(2,1),
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "comp_off_credits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "comp_off_credits_attendanceDayId_key" ON "comp_off_credits"("attendanceDayId");
+
+-- CreateIndex
+CREATE INDEX "comp_off_credits_userId_idx" ON "comp_off_credits"("userId");
+
+-- CreateIndex
+CREATE INDEX "comp_off_credits_companyId_status_idx" ON "comp_off_credits"("companyId", "status");
+
+-- AddForeignKey
+ALTER TABLE "comp_off_credits" ADD CONSTRAINT "comp_off_credits_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comp_off_credits" ADD CONSTRAINT "comp_off_credits_reviewedBy_fkey" FOREIGN KEY ("reviewedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comp_off_credits" ADD CONSTRAINT "comp_off_credits_attendanceDayId_fkey" FOREIGN KEY ("attendanceDayId") REFERENCES "attendance_days"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comp_off_credits" ADD CONSTRAINT "comp_off_credits_holidayId_fkey" FOREIGN KEY ("holidayId") REFERENCES "holidays"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comp_off_credits" ADD CONSTRAINT "comp_off_credits_leaveBalanceId_fkey" FOREIGN KEY ("leaveBalanceId") REFERENCES "leave_balances"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "VerificationStatus" ADD VALUE 'KioskVerified';
+
+-- AlterTable
+ALTER TABLE "employee_profiles" ADD COLUMN     "kioskPinFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "kioskPinHash" TEXT,
+ADD COLUMN     "kioskPinLockedUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "attendance_events" ADD COLUMN     "kioskDeviceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "kiosk_devices" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "officeLocationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "secretHash" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastSeenAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "kiosk_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "kiosk_devices_companyId_idx" ON "kiosk_devices"("companyId");
+
+-- AddForeignKey
+ALTER TABLE "attendance_events" ADD CONSTRAINT "attendance_events_kioskDeviceId_fkey" FOREIGN KEY ("kioskDeviceId") REFERENCES "kiosk_devices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kiosk_devices" ADD CONSTRAINT "kiosk_devices_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kiosk_devices" ADD CONSTRAINT "kiosk_devices_officeLocationId_fkey" FOREIGN KEY ("officeLocationId") REFERENCES "office_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kiosk_devices" ADD CONSTRAINT "kiosk_devices_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "PeriodLockStatus" AS ENUM ('Closed', 'Reopened');
+
+-- CreateEnum
+CREATE TYPE "PeriodAdjustmentType" AS ENUM ('Attendance', 'Timesheet', 'Leave');
+
+-- CreateTable
+CREATE TABLE "period_locks" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "label" TEXT,
+    "status" "PeriodLockStatus" NOT NULL DEFAULT 'Closed',
+    "closedBy" TEXT NOT NULL,
+    "closedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reopenedBy" TEXT,
+    "reopenedAt" TIMESTAMP(3),
+    "reopenReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "period_locks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "period_adjustments" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "periodLockId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "type" "PeriodAdjustmentType" NOT NULL,
+    "minutes" INTEGER,
+    "days" DECIMAL(4,1),
+    "reason" TEXT NOT NULL,
+    "appliedDate" DATE NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "period_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "period_locks_companyId_status_startDate_idx" ON "period_locks"("companyId", "status", "startDate");
+
+-- CreateIndex
+CREATE INDEX "period_adjustments_companyId_appliedDate_idx" ON "period_adjustments"("companyId", "appliedDate");
+
+-- CreateIndex
+CREATE INDEX "period_adjustments_userId_appliedDate_idx" ON "period_adjustments"("userId", "appliedDate");
+
+-- AddForeignKey
+ALTER TABLE "period_locks" ADD CONSTRAINT "period_locks_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_locks" ADD CONSTRAINT "period_locks_closedBy_fkey" FOREIGN KEY ("closedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_locks" ADD CONSTRAINT "period_locks_reopenedBy_fkey" FOREIGN KEY ("reopenedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_adjustments" ADD CONSTRAINT "period_adjustments_periodLockId_fkey" FOREIGN KEY ("periodLockId") REFERENCES "period_locks"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_adjustments" ADD CONSTRAINT "period_adjustments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_adjustments" ADD CONSTRAINT "period_adjustments_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TimesheetSubmitted';
+
+-- AlterTable
+ALTER TABLE "timesheet_entries" ADD COLUMN     "reviewComment" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedBy" TEXT,
+ADD COLUMN     "submissionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "timesheet_submissions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "weekStart" DATE NOT NULL,
+    "status" "TimesheetStatus" NOT NULL DEFAULT 'Submitted',
+    "submittedAt" TIMESTAMP(3) NOT NULL,
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "timesheet_submissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "timesheet_submissions_status_idx" ON "timesheet_submissions"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timesheet_submissions_userId_weekStart_key" ON "timesheet_submissions"("userId", "weekStart");
+
+-- CreateIndex
+CREATE INDEX "timesheet_entries_submissionId_idx" ON "timesheet_entries"("submissionId");
+
+-- AddForeignKey
+ALTER TABLE "timesheet_entries" ADD CONSTRAINT "timesheet_entries_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "timesheet_submissions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_entries" ADD CONSTRAINT "timesheet_entries_reviewedBy_fkey" FOREIGN KEY ("reviewedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_submissions" ADD CONSTRAINT "timesheet_submissions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_submissions" ADD CONSTRAINT "timesheet_submissions_reviewedBy_fkey" FOREIGN KEY ("reviewedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
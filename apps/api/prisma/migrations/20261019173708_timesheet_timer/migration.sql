@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "TimerRoundingMode" AS ENUM ('Nearest', 'Up', 'Down');
+
+-- AlterTable
+ALTER TABLE "work_policies" ADD COLUMN     "timerRoundingMinutes" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "timerRoundingMode" "TimerRoundingMode" NOT NULL DEFAULT 'Nearest';
+
+-- CreateTable
+CREATE TABLE "timesheet_timers" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "notes" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "timesheet_timers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timesheet_timers_userId_key" ON "timesheet_timers"("userId");
+
+-- AddForeignKey
+ALTER TABLE "timesheet_timers" ADD CONSTRAINT "timesheet_timers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_timers" ADD CONSTRAINT "timesheet_timers_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_timers" ADD CONSTRAINT "timesheet_timers_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
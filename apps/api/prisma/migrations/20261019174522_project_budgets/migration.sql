@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "BudgetMetric" AS ENUM ('Hours', 'Cost');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'BudgetThreshold';
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "budgetAlertThresholds" INTEGER[] DEFAULT ARRAY[75, 90, 100]::INTEGER[],
+ADD COLUMN     "budgetCost" DECIMAL(12,2),
+ADD COLUMN     "budgetMinutes" INTEGER,
+ADD COLUMN     "deadline" DATE,
+ADD COLUMN     "startDate" DATE;
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "budgetCost" DECIMAL(12,2),
+ADD COLUMN     "budgetMinutes" INTEGER,
+ADD COLUMN     "deadline" DATE;
+
+-- CreateTable
+CREATE TABLE "project_budget_alerts" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "metric" "BudgetMetric" NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_budget_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_budget_alerts_projectId_idx" ON "project_budget_alerts"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "project_budget_alerts" ADD CONSTRAINT "project_budget_alerts_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_budget_alerts" ADD CONSTRAINT "project_budget_alerts_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,112 @@
+-- CreateEnum
+CREATE TYPE "InvoiceStatus" AS ENUM ('Draft', 'Issued', 'Void');
+
+-- CreateEnum
+CREATE TYPE "InvoiceLineType" AS ENUM ('Time', 'Expense');
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "clientAddress" TEXT,
+ADD COLUMN     "clientEmail" TEXT,
+ADD COLUMN     "clientName" TEXT,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "defaultBillable" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "timesheet_entries" ADD COLUMN     "invoiceId" TEXT,
+ADD COLUMN     "isBillable" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "invoiceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "project_rates" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT,
+    "role" "UserRole",
+    "hourlyRate" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "project_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "status" "InvoiceStatus" NOT NULL DEFAULT 'Draft',
+    "currency" TEXT NOT NULL,
+    "periodStart" DATE NOT NULL,
+    "periodEnd" DATE NOT NULL,
+    "clientName" TEXT,
+    "clientEmail" TEXT,
+    "clientAddress" TEXT,
+    "subtotal" DECIMAL(12,2) NOT NULL,
+    "notes" TEXT,
+    "issuedAt" TIMESTAMP(3),
+    "dueDate" DATE,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_lines" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "type" "InvoiceLineType" NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(10,2) NOT NULL,
+    "unitPrice" DECIMAL(10,2) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "invoice_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_rates_projectId_idx" ON "project_rates"("projectId");
+
+-- CreateIndex
+CREATE INDEX "invoices_companyId_status_idx" ON "invoices"("companyId", "status");
+
+-- CreateIndex
+CREATE INDEX "invoices_projectId_idx" ON "invoices"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_companyId_number_key" ON "invoices"("companyId", "number");
+
+-- CreateIndex
+CREATE INDEX "invoice_lines_invoiceId_idx" ON "invoice_lines"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "timesheet_entries_invoiceId_idx" ON "timesheet_entries"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "project_rates" ADD CONSTRAINT "project_rates_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_rates" ADD CONSTRAINT "project_rates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_entries" ADD CONSTRAINT "timesheet_entries_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "timesheet_templates" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isRecurring" BOOLEAN NOT NULL DEFAULT false,
+    "lastAppliedWeek" DATE,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "timesheet_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "timesheet_template_lines" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "notes" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "timesheet_template_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "timesheet_templates_isRecurring_idx" ON "timesheet_templates"("isRecurring");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timesheet_templates_userId_name_key" ON "timesheet_templates"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "timesheet_template_lines_templateId_idx" ON "timesheet_template_lines"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "timesheet_templates" ADD CONSTRAINT "timesheet_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_template_lines" ADD CONSTRAINT "timesheet_template_lines_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "timesheet_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_template_lines" ADD CONSTRAINT "timesheet_template_lines_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_template_lines" ADD CONSTRAINT "timesheet_template_lines_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "TimesheetReminderKind" AS ENUM ('Reminder', 'Overdue', 'Escalation', 'Digest');
+
+-- AlterTable
+ALTER TABLE "work_policies" ADD COLUMN     "timesheetDueDay" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "timesheetDueTime" TEXT NOT NULL DEFAULT '12:00',
+ADD COLUMN     "timesheetEscalationHours" INTEGER DEFAULT 24,
+ADD COLUMN     "timesheetReminderDay" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "timesheetReminderTime" TEXT NOT NULL DEFAULT '16:00',
+ADD COLUMN     "timesheetRemindersEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "timesheet_reminders" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "weekStart" DATE NOT NULL,
+    "kind" "TimesheetReminderKind" NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "timesheet_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timesheet_reminders_userId_weekStart_kind_key" ON "timesheet_reminders"("userId", "weekStart", "kind");
+
+-- AddForeignKey
+ALTER TABLE "timesheet_reminders" ADD CONSTRAINT "timesheet_reminders_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "LocationIntegrityVerdict" ADD VALUE 'Unverified';
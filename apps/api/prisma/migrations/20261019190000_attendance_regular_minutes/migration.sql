@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "attendance_days" ADD COLUMN     "regularMinutes" INTEGER NOT NULL DEFAULT 0;
+
+-- Approximate for existing days; recalculating attendance applies the threshold
+UPDATE "attendance_days" SET "regularMinutes" = GREATEST("totalWorkMinutes" - "overtimeMinutes", 0);
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "comp_off_credits" ADD COLUMN     "usedDays" DECIMAL(2,1) NOT NULL DEFAULT 0;
+
+-- Expired credits already gave back their unused part; the rest counts as used
+UPDATE "comp_off_credits"
+SET "usedDays" = "days" - COALESCE("expiredDays", 0)
+WHERE "status" = 'Expired' AND "leaveBalanceId" IS NOT NULL;
@@ -0,0 +1,136 @@
+/**
+ * Attendance Day Re-bucketing Script
+ *
+ * One-off data migration for attendance days that were bucketed in the
+ * server's local time. Each day is moved to the calendar date of its first
+ * event in the employee's own timezone (profile, then company). When two
+ * rows land on the same date their events and breaks are merged.
+ *
+ * Usage:
+ *   npm run db:rebucket-attendance -- --dry-run
+ *   npm run db:rebucket-attendance
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { formatDay, resolveTimezone, toLocalDay } from '../src/common/timezone/timezone.utils';
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes('--dry-run');
+
+/** Placeholder dates used while swapping rows, to respect the (userId, date) unique key */
+const PARKING_START = Date.UTC(1900, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function main() {
+  console.log(`🕒 Re-bucketing attendance days${dryRun ? ' (dry run)' : ''}...`);
+
+  const users = await prisma.user.findMany({
+    select: {
+      id: true,
+      email: true,
+      profile: { select: { timezone: true } },
+      company: { select: { timezone: true } },
+    },
+  });
+
+  let moved = 0;
+  let merged = 0;
+
+  for (const user of users) {
+    const timeZone = resolveTimezone(user.profile?.timezone, user.company?.timezone);
+
+    const days = await prisma.attendanceDay.findMany({
+      where: { userId: user.id },
+      include: {
+        events: { orderBy: { timestamp: 'asc' } },
+        breaks: { orderBy: { startTime: 'asc' } },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    // Group days by the local date of their first recorded activity
+    const groups = new Map<string, typeof days>();
+    for (const day of days) {
+      const firstActivity = day.events[0]?.timestamp ?? day.breaks[0]?.startTime;
+      const target = firstActivity ? formatDay(toLocalDay(firstActivity, timeZone)) : formatDay(day.date);
+      groups.set(target, [...(groups.get(target) ?? []), day]);
+    }
+
+    const renames: Array<{ id: string; to: string }> = [];
+
+    for (const [target, members] of groups) {
+      // Keep the row already on the target date when there is one
+      const keeper = members.find((d) => formatDay(d.date) === target) ?? members[0];
+      const others = members.filter((d) => d.id !== keeper.id);
+
+      for (const other of others) {
+        console.log(`   ${user.email}: merge ${formatDay(other.date)} into ${target}`);
+        merged++;
+      }
+
+      if (formatDay(keeper.date) !== target) {
+        console.log(`   ${user.email}: move ${formatDay(keeper.date)} -> ${target} (${timeZone})`);
+        renames.push({ id: keeper.id, to: target });
+        moved++;
+      }
+
+      if (dryRun || others.length === 0) continue;
+
+      await prisma.$transaction([
+        prisma.attendanceEvent.updateMany({
+          where: { attendanceDayId: { in: others.map((d) => d.id) } },
+          data: { attendanceDayId: keeper.id },
+        }),
+        prisma.breakSegment.updateMany({
+          where: { attendanceDayId: { in: others.map((d) => d.id) } },
+          data: { attendanceDayId: keeper.id },
+        }),
+        prisma.attendanceDay.update({
+          where: { id: keeper.id },
+          data: {
+            totalWorkMinutes: members.reduce((sum, d) => sum + d.totalWorkMinutes, 0),
+            totalBreakMinutes: members.reduce((sum, d) => sum + d.totalBreakMinutes, 0),
+            totalLunchMinutes: members.reduce((sum, d) => sum + d.totalLunchMinutes, 0),
+            overtimeMinutes: members.reduce((sum, d) => sum + d.overtimeMinutes, 0),
+            isComplete: members.every((d) => d.isComplete),
+          },
+        }),
+        prisma.attendanceDay.deleteMany({
+          where: { id: { in: others.map((d) => d.id) } },
+        }),
+      ]);
+    }
+
+    if (dryRun || renames.length === 0) continue;
+
+    // Park moved rows first so shifting a run of days never collides with itself
+    await prisma.$transaction([
+      ...renames.map((r, i) =>
+        prisma.attendanceDay.update({
+          where: { id: r.id },
+          data: { date: new Date(PARKING_START + i * DAY_MS) },
+        }),
+      ),
+      ...renames.map((r) =>
+        prisma.attendanceDay.update({
+          where: { id: r.id },
+          data: { date: new Date(`${r.to}T00:00:00.000Z`) },
+        }),
+      ),
+    ]);
+  }
+
+  console.log(`\n✨ ${moved} day(s) moved, ${merged} day(s) merged${dryRun ? ' (nothing written)' : ''}`);
+  if (merged > 0) {
+    console.log('   Merged days keep the sum of their totals; overtime is not re-evaluated against policy.');
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -40,6 +40,8 @@ async function main() {
   await prisma.attendanceDay.deleteMany();
   await prisma.task.deleteMany();
   await prisma.project.deleteMany();
+  await prisma.workScheduleAssignment.deleteMany();
+  await prisma.workSchedule.deleteMany();
   await prisma.officeLocation.deleteMany();
   await prisma.geofencePolicy.deleteMany();
   await prisma.retentionPolicy.deleteMany();
@@ -74,6 +76,26 @@ async function main() {
     },
   });
 
+  // Create default work schedule (Mon-Fri, 9 AM - 6 PM)
+  await prisma.workSchedule.create({
+    data: {
+      companyId: company.id,
+      name: 'General Shift',
+      description: 'Standard office hours',
+      graceMinutesLate: 15,
+      graceMinutesEarly: 15,
+      isDefault: true,
+      days: {
+        create: [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({
+          weekday,
+          isWorkingDay: weekday >= 1 && weekday <= 5,
+          startTime: '09:00',
+          endTime: '18:00',
+        })),
+      },
+    },
+  });
+
   // Create geofence policy
   await prisma.geofencePolicy.create({
     data: {
@@ -1,18 +1,60 @@
 /**
  * Admin Service - Policies, settings, and audit log management
  */
-import { Injectable } from '@nestjs/common';
+import { Injectable, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { toLocalDay } from '../common/timezone/timezone.utils';
 
 @Injectable()
 export class AdminService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private timezoneService: TimezoneService,
+  ) {}
 
   async getWorkPolicy(companyId: string) {
     return this.prisma.workPolicy.findUnique({ where: { companyId } });
   }
 
   async updateWorkPolicy(companyId: string, data: any, actorId: string) {
+    if (data.autoCheckoutTime !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(data.autoCheckoutTime)) {
+      throw new BadRequestException('autoCheckoutTime must be HH:mm');
+    }
+    if (data.autoEndBreakMinutes != null && !(Number.isInteger(data.autoEndBreakMinutes) && data.autoEndBreakMinutes > 0)) {
+      throw new BadRequestException('autoEndBreakMinutes must be a positive number of minutes');
+    }
+    if (data.compOffHalfDayMinutes !== undefined || data.compOffFullDayMinutes !== undefined) {
+      const current = await this.getWorkPolicy(companyId);
+      const halfDay = data.compOffHalfDayMinutes ?? current?.compOffHalfDayMinutes ?? 240;
+      const fullDay = data.compOffFullDayMinutes ?? current?.compOffFullDayMinutes ?? 480;
+      if (!(Number.isInteger(halfDay) && halfDay > 0 && Number.isInteger(fullDay) && fullDay >= halfDay)) {
+        throw new BadRequestException('Comp-off thresholds must be positive, with the full-day threshold at least the half-day one');
+      }
+    }
+    if (data.compOffExpiryDays !== undefined && !(Number.isInteger(data.compOffExpiryDays) && data.compOffExpiryDays > 0)) {
+      throw new BadRequestException('compOffExpiryDays must be a positive number of days');
+    }
+    if (data.timerRoundingMinutes !== undefined && !(Number.isInteger(data.timerRoundingMinutes) && data.timerRoundingMinutes >= 1 && data.timerRoundingMinutes <= 60)) {
+      throw new BadRequestException('timerRoundingMinutes must be between 1 and 60 minutes');
+    }
+    if (data.timerRoundingMode !== undefined && !['Nearest', 'Up', 'Down'].includes(data.timerRoundingMode)) {
+      throw new BadRequestException('timerRoundingMode must be Nearest, Up or Down');
+    }
+    for (const field of ['timesheetReminderDay', 'timesheetDueDay']) {
+      if (data[field] !== undefined && !(Number.isInteger(data[field]) && data[field] >= 0 && data[field] <= 6)) {
+        throw new BadRequestException(`${field} must be a weekday from 0 (Sunday) to 6`);
+      }
+    }
+    for (const field of ['timesheetReminderTime', 'timesheetDueTime']) {
+      if (data[field] !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(data[field])) {
+        throw new BadRequestException(`${field} must be HH:mm`);
+      }
+    }
+    if (data.timesheetEscalationHours != null && !(Number.isInteger(data.timesheetEscalationHours) && data.timesheetEscalationHours >= 0 && data.timesheetEscalationHours <= 168)) {
+      throw new BadRequestException('timesheetEscalationHours must be between 0 and 168 hours');
+    }
+
     const before = await this.getWorkPolicy(companyId);
     const policy = await this.prisma.workPolicy.upsert({
       where: { companyId },
@@ -46,7 +88,10 @@ export class AdminService {
   }
 
   async getOfficeLocations(companyId: string) {
-    return this.prisma.officeLocation.findMany({ where: { companyId, isActive: true } });
+    return this.prisma.officeLocation.findMany({
+      where: { companyId, isActive: true },
+      include: { zones: true },
+    });
   }
 
   async createOfficeLocation(companyId: string, data: any, actorId: string) {
@@ -114,8 +159,7 @@ export class AdminService {
   }
 
   async getDashboardSummary(companyId: string) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = toLocalDay(new Date(), await this.timezoneService.getCompanyTimezone(companyId));
 
     const [
       onlineCount,
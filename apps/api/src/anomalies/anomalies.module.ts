@@ -6,9 +6,10 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { AnomaliesService } from './anomalies.service';
 import { AnomaliesController } from './anomalies.controller';
 import { AnomalyDetectionService } from './anomaly-detection.service';
+import { WorkSchedulesModule } from '../work-schedules/work-schedules.module';
 
 @Module({
-  imports: [ScheduleModule.forRoot()],
+  imports: [ScheduleModule.forRoot(), WorkSchedulesModule],
   controllers: [AnomaliesController],
   providers: [AnomaliesService, AnomalyDetectionService],
   exports: [AnomaliesService],
@@ -1,41 +1,74 @@
 /**
  * Anomaly Detection Service - Rules engine for detecting attendance anomalies
  */
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { AnomalyType, AnomalySeverity, AnomalyStatus, AttendanceEventType } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { getFirstCheckIn } from '../attendance/attendance-sessions';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { WorkSchedulesService } from '../work-schedules/work-schedules.service';
+import { getScheduledDay, isLateForDay } from '../work-schedules/work-schedule.utils';
+import {
+  addDays,
+  formatDayLabel,
+  getLocalDayBounds,
+  getLocalMinutesOfDay,
+  resolveTimezone,
+  toLocalDay,
+  uniqueDays,
+} from '../common/timezone/timezone.utils';
+
+const HOUR_MS = 60 * 60 * 1000;
 
 @Injectable()
 export class AnomalyDetectionService {
-  constructor(private prisma: PrismaService) {}
+  private readonly logger = new Logger(AnomalyDetectionService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private timezoneService: TimezoneService,
+    private workSchedulesService: WorkSchedulesService,
+  ) {}
 
   /**
-   * Daily batch detection job - runs at 11:30 PM
+   * Hourly detection job - checks each employee's previous local day once it has ended
+   * Running hourly lets every timezone be checked shortly after its midnight.
    */
-  @Cron('30 23 * * *')
-  async runDailyDetection() {
-    console.log('Running daily anomaly detection...');
-    const companies = await this.prisma.company.findMany();
+  @Cron(CronExpression.EVERY_HOUR)
+  async runDetection() {
+    const now = new Date();
+    const companies = await this.prisma.company.findMany({ select: { id: true } });
 
     for (const company of companies) {
-      const rules = await this.prisma.anomalyRule.findMany({
-        where: { companyId: company.id, isEnabled: true },
-      });
-
-      for (const rule of rules) {
-        await this.evaluateRule(company.id, rule);
+      try {
+        await this.detectForCompany(company.id, now);
+      } catch (error) {
+        this.logger.error(`Failed to run anomaly detection for company ${company.id}`, error);
       }
     }
   }
 
   /**
-   * Check for missing check-outs at end of day
+   * Evaluate every enabled rule for employees whose local day ended in the last hour
    */
-  async checkMissingCheckouts(companyId: string) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  async detectForCompany(companyId: string, now = new Date()) {
+    const closedDays = await this.getClosedDays(companyId, now);
+    if (closedDays.size === 0) return;
+
+    const rules = await this.prisma.anomalyRule.findMany({
+      where: { companyId, isEnabled: true },
+    });
+
+    for (const rule of rules) {
+      await this.evaluateRule(companyId, rule, closedDays);
+    }
+  }
 
+  /**
+   * Check for missing check-outs on each employee's day that just ended
+   */
+  async checkMissingCheckouts(companyId: string, closedDays: Map<string, Date>) {
     const rule = await this.prisma.anomalyRule.findFirst({
       where: { companyId, type: AnomalyType.MissingCheckOut, isEnabled: true },
     });
@@ -44,22 +77,31 @@ export class AnomalyDetectionService {
 
     const incompletedays = await this.prisma.attendanceDay.findMany({
       where: {
-        user: { companyId },
-        date: today,
-        isComplete: false,
+        userId: { in: Array.from(closedDays.keys()) },
+        date: { in: uniqueDays(closedDays.values()) },
         events: { some: { type: AttendanceEventType.CheckIn } },
+        // Still open, or closed by auto-checkout rather than the employee
+        OR: [{ isComplete: false }, { events: { some: { isAutoClosed: true } } }],
       },
-      include: { user: true },
+      include: { user: true, events: { where: { isAutoClosed: true }, select: { id: true } } },
     });
 
-    for (const day of incompletedays) {
+    // Only the day that just ended in each employee's own timezone
+    const closedIncompleteDays = incompletedays.filter(
+      (day) => day.date.getTime() === closedDays.get(day.userId)?.getTime(),
+    );
+
+    for (const day of closedIncompleteDays) {
       await this.createAnomaly({
         userId: day.userId,
         ruleId: rule.id,
         type: AnomalyType.MissingCheckOut,
         severity: rule.severity,
         title: 'Missing Check-Out',
-        description: `No checkout recorded for ${day.date.toDateString()}`,
+        description:
+          day.events.length > 0
+            ? `No checkout recorded for ${formatDayLabel(day.date)}; checked out automatically at the policy cutoff`
+            : `No checkout recorded for ${formatDayLabel(day.date)}`,
         data: { date: day.date },
       });
     }
@@ -68,30 +110,35 @@ export class AnomalyDetectionService {
   /**
    * Evaluate a specific rule
    */
-  private async evaluateRule(companyId: string, rule: any) {
+  private async evaluateRule(companyId: string, rule: any, closedDays: Map<string, Date>) {
     switch (rule.type) {
       case AnomalyType.RepeatedLateCheckIn:
-        await this.checkLateCheckIns(companyId, rule);
+        await this.checkLateCheckIns(rule, closedDays);
         break;
       case AnomalyType.MissingCheckOut:
-        await this.checkMissingCheckouts(companyId);
+        await this.checkMissingCheckouts(companyId, closedDays);
         break;
       case AnomalyType.ExcessiveBreak:
-        await this.checkExcessiveBreaks(companyId, rule);
+        await this.checkExcessiveBreaks(companyId, rule, closedDays);
         break;
       case AnomalyType.TimesheetMismatch:
-        await this.checkTimesheetMismatch(companyId, rule);
+        await this.checkTimesheetMismatch(rule, closedDays);
         break;
     }
   }
 
-  private async checkLateCheckIns(companyId: string, rule: any) {
-    const windowStart = new Date();
-    windowStart.setDate(windowStart.getDate() - rule.windowDays);
+  private async checkLateCheckIns(rule: any, closedDays: Map<string, Date>) {
+    // The window ends with each employee's day that just ended
+    const windowStart = addDays(
+      new Date(Math.min(...Array.from(closedDays.values(), (d) => d.getTime()))),
+      1 - rule.windowDays,
+    );
 
     const users = await this.prisma.user.findMany({
-      where: { companyId },
+      where: { id: { in: Array.from(closedDays.keys()) } },
       include: {
+        profile: { select: { timezone: true } },
+        company: { select: { timezone: true } },
         attendanceDays: {
           where: { date: { gte: windowStart } },
           include: { events: true },
@@ -99,25 +146,27 @@ export class AnomalyDetectionService {
       },
     });
 
-    const workPolicy = await this.prisma.workPolicy.findUnique({
-      where: { companyId },
-    });
-
-    const graceMinutes = workPolicy?.graceMinutesLate || 15;
-    const workStartHour = 9; // 9 AM
+    // Start times and grace periods come from each employee's work schedule
+    const schedules = await this.workSchedulesService.resolveForUsers(users.map((u) => u.id));
 
     for (const user of users) {
+      const timeZone = resolveTimezone(user.profile?.timezone, user.company?.timezone);
+      const schedule = schedules.get(user.id);
+      const closedDay = closedDays.get(user.id);
+      if (!schedule || !closedDay) continue;
+
+      const userWindowStart = addDays(closedDay, 1 - rule.windowDays);
       let lateCount = 0;
 
       for (const day of user.attendanceDays) {
-        const checkIn = day.events.find(e => e.type === AttendanceEventType.CheckIn);
-        if (checkIn) {
-          const checkInTime = checkIn.timestamp.getHours() * 60 + checkIn.timestamp.getMinutes();
-          const expectedTime = workStartHour * 60;
-
-          if (checkInTime > expectedTime + graceMinutes) {
-            lateCount++;
-          }
+        if (day.date < userWindowStart || day.date > closedDay) continue;
+
+        const checkIn = getFirstCheckIn(day.events);
+        if (
+          checkIn &&
+          isLateForDay(getScheduledDay(schedule, day.date), getLocalMinutesOfDay(checkIn.timestamp, timeZone))
+        ) {
+          lateCount++;
         }
       }
 
@@ -135,10 +184,7 @@ export class AnomalyDetectionService {
     }
   }
 
-  private async checkExcessiveBreaks(companyId: string, rule: any) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
+  private async checkExcessiveBreaks(companyId: string, rule: any, closedDays: Map<string, Date>) {
     const workPolicy = await this.prisma.workPolicy.findUnique({
       where: { companyId },
     });
@@ -148,13 +194,20 @@ export class AnomalyDetectionService {
 
     const breaks = await this.prisma.breakSegment.findMany({
       where: {
-        attendanceDay: { user: { companyId }, date: today },
+        attendanceDay: {
+          userId: { in: Array.from(closedDays.keys()) },
+          date: { in: uniqueDays(closedDays.values()) },
+        },
         durationMinutes: { gt: threshold },
       },
       include: { attendanceDay: { include: { user: true } } },
     });
 
-    for (const b of breaks) {
+    const closedDayBreaks = breaks.filter(
+      (b) => b.attendanceDay.date.getTime() === closedDays.get(b.attendanceDay.userId)?.getTime(),
+    );
+
+    for (const b of closedDayBreaks) {
       await this.createAnomaly({
         userId: b.attendanceDay.userId,
         ruleId: rule.id,
@@ -167,23 +220,30 @@ export class AnomalyDetectionService {
     }
   }
 
-  private async checkTimesheetMismatch(companyId: string, rule: any) {
-    // Compare attendance hours with timesheet hours
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    yesterday.setHours(0, 0, 0, 0);
+  private async checkTimesheetMismatch(rule: any, closedDays: Map<string, Date>) {
+    // Compare the day before the one that just ended, leaving a day to log time
+    const reviewDays = new Map(
+      Array.from(closedDays, ([userId, day]) => [userId, addDays(day, -1)]),
+    );
+    const days = uniqueDays(reviewDays.values());
 
     const users = await this.prisma.user.findMany({
-      where: { companyId },
+      where: { id: { in: Array.from(reviewDays.keys()) } },
       include: {
-        attendanceDays: { where: { date: yesterday } },
-        timesheetEntries: { where: { date: yesterday } },
+        attendanceDays: { where: { date: { in: days } } },
+        timesheetEntries: { where: { date: { in: days } } },
       },
     });
 
     for (const user of users) {
-      const attendanceMinutes = user.attendanceDays[0]?.totalWorkMinutes || 0;
-      const timesheetMinutes = user.timesheetEntries.reduce((sum, e) => sum + e.minutes, 0);
+      const reviewDay = reviewDays.get(user.id)?.getTime();
+      if (reviewDay === undefined) continue;
+
+      const attendanceMinutes =
+        user.attendanceDays.find((d) => d.date.getTime() === reviewDay)?.totalWorkMinutes || 0;
+      const timesheetMinutes = user.timesheetEntries
+        .filter((e) => e.date.getTime() === reviewDay)
+        .reduce((sum, e) => sum + e.minutes, 0);
 
       if (attendanceMinutes > 0) {
         const variance = Math.abs(attendanceMinutes - timesheetMinutes) / attendanceMinutes;
@@ -202,6 +262,28 @@ export class AnomalyDetectionService {
     }
   }
 
+  /**
+   * Get each company user's previous local day if it ended within the last hour
+   * With the hourly schedule every employee day is picked up exactly once.
+   */
+  private async getClosedDays(companyId: string, now: Date): Promise<Map<string, Date>> {
+    const users = await this.prisma.user.findMany({
+      where: { companyId, isActive: true },
+      select: { id: true },
+    });
+    const timezones = await this.timezoneService.getUserTimezones(users.map((u) => u.id));
+    const hourAgo = now.getTime() - HOUR_MS;
+
+    const closedDays = new Map<string, Date>();
+    for (const [userId, timeZone] of timezones) {
+      const today = toLocalDay(now, timeZone);
+      if (getLocalDayBounds(today, timeZone).start.getTime() > hourAgo) {
+        closedDays.set(userId, addDays(today, -1));
+      }
+    }
+    return closedDays;
+  }
+
   private async createAnomaly(data: {
     userId: string;
     ruleId: string;
@@ -11,6 +11,7 @@ import { ScheduleModule } from '@nestjs/schedule';
 
 import { PrismaModule } from './prisma/prisma.module';
 import { EmailModule } from './common/email/email.module';
+import { TimezoneModule } from './common/timezone/timezone.module';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 import { AttendanceModule } from './attendance/attendance.module';
@@ -31,6 +32,14 @@ import { DocumentsModule } from './documents/documents.module';
 import { TrainingModule } from './training/training.module';
 import { ExpensesModule } from './expenses/expenses.module';
 import { IntegrationsModule } from './integrations/integrations.module';
+import { RegularizationsModule } from './regularizations/regularizations.module';
+import { WorkSchedulesModule } from './work-schedules/work-schedules.module';
+import { CustomerSitesModule } from './customer-sites/customer-sites.module';
+import { OvertimeModule } from './overtime/overtime.module';
+import { CompOffModule } from './comp-off/comp-off.module';
+import { KioskModule } from './kiosk/kiosk.module';
+import { PeriodLocksModule } from './period-locks/period-locks.module';
+import { BillingModule } from './billing/billing.module';
 
 @Module({
   imports: [
@@ -67,6 +76,7 @@ import { IntegrationsModule } from './integrations/integrations.module';
 
     // Global services
     EmailModule,
+    TimezoneModule,
 
     // Feature modules
     AuthModule,
@@ -89,6 +99,14 @@ import { IntegrationsModule } from './integrations/integrations.module';
     TrainingModule,
     ExpensesModule,
     IntegrationsModule,
+    RegularizationsModule,
+    WorkSchedulesModule,
+    CustomerSitesModule,
+    OvertimeModule,
+    CompOffModule,
+    KioskModule,
+    PeriodLocksModule,
+    BillingModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,267 @@
+/**
+ * Attendance Recalculation Service
+ *
+ * Attendance day totals are stored when the employee checks out, so later
+ * work policy or schedule changes leave them stale. This service recomputes
+ * the totals of single days (after check-out and overrides) and of a date
+ * range for one employee, a manager's team or the whole company. Range runs
+ * are a dry run by default and return a per-day diff; applying writes the
+ * changed days outside closed payroll periods and is audited.
+ */
+
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { OvertimeRequestStatus, WorkPolicy } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { OvertimeService } from '../overtime/overtime.service';
+import { WorkSchedulesService } from '../work-schedules/work-schedules.service';
+import { PeriodLocksService, findClosedPeriod } from '../period-locks/period-locks.service';
+import {
+  ResolvedWorkSchedule,
+  getOvertimeThresholdMinutes,
+  getScheduledDay,
+} from '../work-schedules/work-schedule.utils';
+import { addDays, formatDay, parseDay } from '../common/timezone/timezone.utils';
+import { DayTotals, DayTotalsDiff, computeDayTotals, diffDayTotals } from './attendance-totals';
+import { RecalculateAttendanceDto } from './dto/recalculate-attendance.dto';
+
+/** Longest range a single recalculation may cover */
+const MAX_RANGE_DAYS = 92;
+
+export interface RecalculatedDay {
+  attendanceDayId: string;
+  userId: string;
+  employeeCode?: string;
+  employeeName?: string;
+  date: string;
+  /** Day is in a closed payroll period; its totals are reported but not changed */
+  locked: boolean;
+  changes: DayTotalsDiff;
+}
+
+/**
+ * Overtime threshold for a day from the employee's resolved schedule
+ * Single and range recalculation must agree, so both go through here.
+ */
+function getDayThresholdMinutes(
+  schedule: ResolvedWorkSchedule,
+  day: Date,
+  policy: WorkPolicy | null,
+): number {
+  return getOvertimeThresholdMinutes(getScheduledDay(schedule, day), policy?.lunchDurationMinutes ?? 60);
+}
+
+function pickTotals(day: DayTotals): DayTotals {
+  return {
+    totalWorkMinutes: day.totalWorkMinutes,
+    totalBreakMinutes: day.totalBreakMinutes,
+    totalLunchMinutes: day.totalLunchMinutes,
+    regularMinutes: day.regularMinutes,
+    overtimeMinutes: day.overtimeMinutes,
+    approvedOvertimeMinutes: day.approvedOvertimeMinutes,
+    isComplete: day.isComplete,
+  };
+}
+
+@Injectable()
+export class AttendanceRecalculationService {
+  constructor(
+    private prisma: PrismaService,
+    private overtimeService: OvertimeService,
+    private workSchedulesService: WorkSchedulesService,
+    private periodLocksService: PeriodLocksService,
+  ) {}
+
+  /**
+   * Recompute and save one day's totals
+   * Returns the stored and recomputed totals, or null when the day has no
+   * closed session yet.
+   */
+  async recalculateDay(attendanceDayId: string) {
+    const day = await this.prisma.attendanceDay.findUnique({
+      where: { id: attendanceDayId },
+      include: {
+        events: { orderBy: { timestamp: 'asc' } },
+        breaks: true,
+        user: { include: { company: { include: { workPolicy: true } } } },
+      },
+    });
+
+    if (!day) return null;
+
+    const policy = day.user.company.workPolicy;
+    const workSchedule = await this.workSchedulesService.resolveForUser(day.userId);
+    const after = computeDayTotals(day, {
+      thresholdMinutes: getDayThresholdMinutes(workSchedule, day.date, policy),
+      maxOvertimeMinutes: policy?.maxOvertimeMinutes || 240,
+      approvedMinutes: await this.overtimeService.getApprovedMinutes(day.userId, day.date),
+    });
+
+    if (!after) return null;
+
+    const before = pickTotals(day);
+    const changes = diffDayTotals(before, after);
+
+    if (Object.keys(changes).length > 0) {
+      await this.prisma.attendanceDay.update({
+        where: { id: attendanceDayId },
+        data: after,
+      });
+    }
+
+    return { userId: day.userId, date: day.date, before, after, changes };
+  }
+
+  /**
+   * Recompute totals for a date range and report the days that change
+   * Nothing is written on a dry run.
+   */
+  async recalculateRange(
+    companyId: string,
+    actorId: string,
+    dto: RecalculateAttendanceDto,
+    dryRun: boolean,
+  ) {
+    const startDate = parseDay(dto.startDate);
+    const endDate = parseDay(dto.endDate);
+
+    if (endDate < startDate) {
+      throw new BadRequestException('End date must be on or after start date');
+    }
+    if (addDays(startDate, MAX_RANGE_DAYS) <= endDate) {
+      throw new BadRequestException(`Recalculate at most ${MAX_RANGE_DAYS} days at a time`);
+    }
+
+    const users = await this.getUsersInScope(companyId, dto);
+    const userIds = users.map((u) => u.id);
+    const profiles = new Map(users.map((u) => [u.id, u.profile]));
+
+    const [days, policy, schedules, approvedRequests, closedPeriods] = await Promise.all([
+      this.prisma.attendanceDay.findMany({
+        where: { userId: { in: userIds }, date: { gte: startDate, lte: endDate } },
+        include: { events: { orderBy: { timestamp: 'asc' } }, breaks: true },
+        orderBy: [{ date: 'asc' }, { userId: 'asc' }],
+      }),
+      this.prisma.workPolicy.findUnique({ where: { companyId } }),
+      this.workSchedulesService.resolveForUsers(userIds),
+      this.prisma.overtimeRequest.groupBy({
+        by: ['userId', 'date'],
+        where: {
+          userId: { in: userIds },
+          date: { gte: startDate, lte: endDate },
+          status: OvertimeRequestStatus.Approved,
+        },
+        _sum: { approvedMinutes: true },
+      }),
+      this.periodLocksService.getClosedPeriods(companyId, startDate, endDate),
+    ]);
+
+    const approvedMinutes = new Map(
+      approvedRequests.map((r) => [`${r.userId}:${formatDay(r.date)}`, r._sum.approvedMinutes ?? 0]),
+    );
+
+    let daysChecked = 0;
+    const changed: Array<RecalculatedDay & { totals: DayTotals }> = [];
+
+    for (const day of days) {
+      const date = formatDay(day.date);
+      const totals = computeDayTotals(day, {
+        thresholdMinutes: getDayThresholdMinutes(schedules.get(day.userId)!, day.date, policy),
+        maxOvertimeMinutes: policy?.maxOvertimeMinutes || 240,
+        approvedMinutes: approvedMinutes.get(`${day.userId}:${date}`) ?? 0,
+      });
+
+      if (!totals) continue;
+      daysChecked++;
+
+      const changes = diffDayTotals(pickTotals(day), totals);
+      if (Object.keys(changes).length === 0) continue;
+
+      const profile = profiles.get(day.userId);
+      changed.push({
+        attendanceDayId: day.id,
+        userId: day.userId,
+        employeeCode: profile?.employeeCode,
+        employeeName: profile ? `${profile.firstName} ${profile.lastName}` : undefined,
+        date,
+        locked: !!findClosedPeriod(closedPeriods, day.date),
+        changes,
+        totals,
+      });
+    }
+
+    const summary = {
+      employees: userIds.length,
+      daysChecked,
+      daysChanged: changed.length,
+      lockedDays: changed.filter((d) => d.locked).length,
+    };
+
+    const toApply = changed.filter((d) => !d.locked);
+
+    if (!dryRun && toApply.length > 0) {
+      for (const day of toApply) {
+        await this.prisma.attendanceDay.update({
+          where: { id: day.attendanceDayId },
+          data: day.totals,
+        });
+      }
+
+      // Create audit log
+      await this.prisma.auditLog.create({
+        data: {
+          actorId,
+          action: 'AttendanceRecalculated',
+          entityType: 'AttendanceRecalculation',
+          entityId: companyId,
+          after: {
+            startDate: dto.startDate,
+            endDate: dto.endDate,
+            userId: dto.userId,
+            managerId: dto.managerId,
+            ...summary,
+            days: toApply.map(({ attendanceDayId, userId, date, changes }) => ({
+              attendanceDayId,
+              userId,
+              date,
+              changes,
+            })),
+          },
+          reason: dto.reason,
+        },
+      });
+    }
+
+    return {
+      dryRun,
+      startDate: dto.startDate,
+      endDate: dto.endDate,
+      summary,
+      days: changed.map(({ totals, ...day }) => day),
+    };
+  }
+
+  /**
+   * Employees covered by a recalculation: one employee, a manager's direct
+   * reports, or everyone in the company
+   */
+  private async getUsersInScope(companyId: string, dto: RecalculateAttendanceDto) {
+    const where: any = { companyId };
+    if (dto.userId) where.id = dto.userId;
+    if (dto.managerId) where.profile = { managerId: dto.managerId };
+
+    const users = await this.prisma.user.findMany({
+      where,
+      select: {
+        id: true,
+        profile: { select: { firstName: true, lastName: true, employeeCode: true } },
+      },
+    });
+
+    if (dto.userId && users.length === 0) {
+      throw new NotFoundException('Employee not found');
+    }
+
+    return users;
+  }
+}
@@ -0,0 +1,77 @@
+import { AttendanceEventType, WorkMode } from '@prisma/client';
+
+import {
+  buildSessions,
+  getFirstCheckIn,
+  getOpenSession,
+  sumClosedSessionMinutes,
+} from './attendance-sessions';
+
+function event(type: AttendanceEventType, time: string, workMode: WorkMode = WorkMode.Office) {
+  return { type, timestamp: new Date(`2026-10-19T${time}:00Z`), workMode };
+}
+
+const checkIn = (time: string, workMode?: WorkMode) => event(AttendanceEventType.CheckIn, time, workMode);
+const checkOut = (time: string) => event(AttendanceEventType.CheckOut, time);
+
+describe('buildSessions', () => {
+  it('pairs check-ins with check-outs in time order', () => {
+    const sessions = buildSessions([
+      checkOut('17:00'),
+      checkIn('13:00', WorkMode.CustomerSite),
+      checkOut('12:00'),
+      checkIn('09:00'),
+    ]);
+
+    expect(sessions.map((s) => [s.workMode, s.durationMinutes])).toEqual([
+      [WorkMode.Office, 180],
+      [WorkMode.CustomerSite, 240],
+    ]);
+  });
+
+  it('ignores a check-out without an open check-in', () => {
+    const sessions = buildSessions([checkIn('09:00'), checkOut('12:00'), checkOut('12:30')]);
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].checkOut?.timestamp.toISOString()).toBe('2026-10-19T12:00:00.000Z');
+  });
+
+  it('counts the running time of an open session only when given now', () => {
+    const events = [checkIn('09:00')];
+
+    expect(buildSessions(events)[0].durationMinutes).toBe(0);
+    expect(buildSessions(events, new Date('2026-10-19T10:30:00Z'))[0].durationMinutes).toBe(90);
+  });
+});
+
+describe('getOpenSession', () => {
+  it('returns the last session while it has no check-out', () => {
+    const sessions = buildSessions([checkIn('09:00'), checkOut('12:00'), checkIn('13:00')]);
+
+    expect(getOpenSession(sessions)?.checkIn.timestamp.toISOString()).toBe('2026-10-19T13:00:00.000Z');
+  });
+
+  it('returns nothing once every session is closed', () => {
+    expect(getOpenSession(buildSessions([checkIn('09:00'), checkOut('12:00')]))).toBeUndefined();
+    expect(getOpenSession([])).toBeUndefined();
+  });
+});
+
+describe('getFirstCheckIn', () => {
+  it('returns the earliest check-in regardless of event order', () => {
+    const first = getFirstCheckIn([checkIn('13:00'), checkOut('12:00'), checkIn('08:45')]);
+
+    expect(first?.timestamp.toISOString()).toBe('2026-10-19T08:45:00.000Z');
+  });
+});
+
+describe('sumClosedSessionMinutes', () => {
+  it('leaves out the open session', () => {
+    const sessions = buildSessions(
+      [checkIn('09:00'), checkOut('12:00'), checkIn('13:00')],
+      new Date('2026-10-19T15:00:00Z'),
+    );
+
+    expect(sumClosedSessionMinutes(sessions)).toBe(180);
+  });
+});
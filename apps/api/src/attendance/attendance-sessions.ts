@@ -0,0 +1,87 @@
+/**
+ * Attendance Sessions
+ *
+ * Pairs check-in and check-out events into work sessions so an attendance
+ * day can hold several sessions (e.g. office, customer site, office again),
+ * each with its own work mode.
+ */
+
+import { AttendanceEventType, WorkMode } from '@prisma/client';
+
+interface SessionEvent {
+  type: AttendanceEventType;
+  timestamp: Date;
+  workMode: WorkMode;
+}
+
+export interface AttendanceSession<T extends SessionEvent = SessionEvent> {
+  checkIn: T;
+  checkOut?: T;
+  workMode: WorkMode;
+  /** Minutes between check-in and check-out (or `now` for an open session) */
+  durationMinutes: number;
+}
+
+/**
+ * Build ordered sessions from a day's events
+ * A check-out closes the most recent open check-in; unmatched check-outs are ignored.
+ * Pass `now` to include the running time of an open session.
+ */
+export function buildSessions<T extends SessionEvent>(
+  events: T[],
+  now?: Date,
+): AttendanceSession<T>[] {
+  const sorted = [...events].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  );
+
+  const sessions: AttendanceSession<T>[] = [];
+  let open: AttendanceSession<T> | null = null;
+
+  for (const event of sorted) {
+    if (event.type === AttendanceEventType.CheckIn) {
+      open = { checkIn: event, workMode: event.workMode, durationMinutes: 0 };
+      sessions.push(open);
+    } else if (event.type === AttendanceEventType.CheckOut && open) {
+      open.checkOut = event;
+      open.durationMinutes = minutesBetween(open.checkIn.timestamp, event.timestamp);
+      open = null;
+    }
+  }
+
+  if (open && now) {
+    open.durationMinutes = minutesBetween(open.checkIn.timestamp, now);
+  }
+
+  return sessions;
+}
+
+/**
+ * Get the session still awaiting check-out, if any
+ */
+export function getOpenSession<T extends SessionEvent>(
+  sessions: AttendanceSession<T>[],
+): AttendanceSession<T> | undefined {
+  const last = sessions[sessions.length - 1];
+  return last && !last.checkOut ? last : undefined;
+}
+
+/**
+ * Get the first check-in of the day (the one that counts for lateness)
+ */
+export function getFirstCheckIn<T extends SessionEvent>(events: T[]): T | undefined {
+  return buildSessions(events)[0]?.checkIn;
+}
+
+/**
+ * Sum the minutes of all closed sessions
+ */
+export function sumClosedSessionMinutes(sessions: AttendanceSession[]): number {
+  return sessions
+    .filter((s) => s.checkOut)
+    .reduce((sum, s) => sum + s.durationMinutes, 0);
+}
+
+function minutesBetween(start: Date, end: Date): number {
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+}
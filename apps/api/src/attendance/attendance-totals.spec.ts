@@ -0,0 +1,113 @@
+import { AttendanceEventType, BreakType, WorkMode } from '@prisma/client';
+
+import { DayTotals, computeDayTotals, diffDayTotals } from './attendance-totals';
+
+function event(type: AttendanceEventType, time: string) {
+  return { type, timestamp: new Date(`2026-10-19T${time}:00Z`), workMode: WorkMode.Office };
+}
+
+const checkIn = (time: string) => event(AttendanceEventType.CheckIn, time);
+const checkOut = (time: string) => event(AttendanceEventType.CheckOut, time);
+
+const RULES = { thresholdMinutes: 480, maxOvertimeMinutes: 240, approvedMinutes: 0 };
+
+describe('computeDayTotals', () => {
+  it('has no totals before the first check-out', () => {
+    expect(computeDayTotals({ events: [checkIn('09:00')], breaks: [] }, RULES)).toBeNull();
+  });
+
+  it('takes breaks and lunch off the worked time', () => {
+    const totals = computeDayTotals(
+      {
+        events: [checkIn('09:00'), checkOut('18:00')],
+        breaks: [
+          { type: BreakType.Lunch, durationMinutes: 45 },
+          { type: BreakType.Break, durationMinutes: 10 },
+          { type: BreakType.Break, durationMinutes: 5 },
+          // Still running, so not counted yet
+          { type: BreakType.Break, durationMinutes: null },
+        ],
+      },
+      RULES,
+    );
+
+    expect(totals).toEqual({
+      totalWorkMinutes: 480,
+      totalBreakMinutes: 15,
+      totalLunchMinutes: 45,
+      regularMinutes: 480,
+      overtimeMinutes: 0,
+      approvedOvertimeMinutes: 0,
+      isComplete: true,
+    });
+  });
+
+  it('sums every closed session and stays incomplete while one is open', () => {
+    const totals = computeDayTotals(
+      {
+        events: [checkIn('09:00'), checkOut('12:00'), checkIn('13:00'), checkOut('15:00'), checkIn('16:00')],
+        breaks: [],
+      },
+      RULES,
+    );
+
+    expect(totals?.totalWorkMinutes).toBe(300);
+    expect(totals?.isComplete).toBe(false);
+  });
+
+  it('counts work past the threshold as overtime and keeps regular time at the threshold', () => {
+    const totals = computeDayTotals({ events: [checkIn('08:00'), checkOut('18:30')], breaks: [] }, RULES);
+
+    expect(totals?.regularMinutes).toBe(480);
+    expect(totals?.overtimeMinutes).toBe(150);
+  });
+
+  it('caps overtime without moving the excess into regular time', () => {
+    const totals = computeDayTotals({ events: [checkIn('06:00'), checkOut('21:00')], breaks: [] }, RULES);
+
+    expect(totals?.totalWorkMinutes).toBe(900);
+    expect(totals?.overtimeMinutes).toBe(240);
+    // 180 minutes past the cap are neither regular nor recorded overtime
+    expect(totals?.regularMinutes).toBe(480);
+  });
+
+  it('counts all work on a non-working day as overtime', () => {
+    const totals = computeDayTotals(
+      { events: [checkIn('10:00'), checkOut('13:00')], breaks: [] },
+      { ...RULES, thresholdMinutes: 0 },
+    );
+
+    expect(totals?.regularMinutes).toBe(0);
+    expect(totals?.overtimeMinutes).toBe(180);
+  });
+
+  it('approves overtime only up to what was worked', () => {
+    const day = { events: [checkIn('08:00'), checkOut('18:00')], breaks: [] };
+
+    expect(computeDayTotals(day, { ...RULES, approvedMinutes: 60 })?.approvedOvertimeMinutes).toBe(60);
+    expect(computeDayTotals(day, { ...RULES, approvedMinutes: 300 })?.approvedOvertimeMinutes).toBe(120);
+  });
+});
+
+describe('diffDayTotals', () => {
+  const before: DayTotals = {
+    totalWorkMinutes: 540,
+    totalBreakMinutes: 0,
+    totalLunchMinutes: 60,
+    regularMinutes: 480,
+    overtimeMinutes: 60,
+    approvedOvertimeMinutes: 0,
+    isComplete: true,
+  };
+
+  it('lists only the fields that change', () => {
+    expect(diffDayTotals(before, { ...before, regularMinutes: 420, overtimeMinutes: 120 })).toEqual({
+      regularMinutes: { before: 480, after: 420 },
+      overtimeMinutes: { before: 60, after: 120 },
+    });
+  });
+
+  it('is empty when nothing changes', () => {
+    expect(diffDayTotals(before, { ...before })).toEqual({});
+  });
+});
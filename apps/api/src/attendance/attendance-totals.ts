@@ -0,0 +1,88 @@
+/**
+ * Attendance Totals
+ *
+ * Derives an attendance day's work, break and overtime totals from its
+ * events and breaks. Used at check-out and when totals are recalculated
+ * after policy changes or overrides.
+ */
+
+import { AttendanceEventType, BreakType, WorkMode } from '@prisma/client';
+import { buildSessions, getOpenSession, sumClosedSessionMinutes } from './attendance-sessions';
+
+export interface DayTotals {
+  totalWorkMinutes: number;
+  totalBreakMinutes: number;
+  totalLunchMinutes: number;
+  /** Work up to the overtime threshold; anything past it is overtime, capped or not */
+  regularMinutes: number;
+  overtimeMinutes: number;
+  approvedOvertimeMinutes: number;
+  isComplete: boolean;
+}
+
+export type DayTotalsDiff = Partial<{
+  [K in keyof DayTotals]: { before: DayTotals[K]; after: DayTotals[K] };
+}>;
+
+interface TotalsInput {
+  events: Array<{ type: AttendanceEventType; timestamp: Date; workMode: WorkMode }>;
+  breaks: Array<{ type: BreakType; durationMinutes: number | null }>;
+}
+
+interface OvertimeRules {
+  /** Minutes of work before overtime starts on this day */
+  thresholdMinutes: number;
+  maxOvertimeMinutes: number;
+  /** Minutes covered by approved overtime requests */
+  approvedMinutes: number;
+}
+
+/**
+ * Compute a day's totals
+ * Returns null until the day has a closed session, as totals are only
+ * recorded from the first check-out.
+ */
+export function computeDayTotals(day: TotalsInput, overtime: OvertimeRules): DayTotals | null {
+  const sessions = buildSessions(day.events);
+  if (!sessions.some((s) => s.checkOut)) return null;
+
+  const sumBreaks = (type: BreakType) =>
+    day.breaks
+      .filter((b) => b.type === type)
+      .reduce((sum, b) => sum + (b.durationMinutes || 0), 0);
+
+  const totalBreakMinutes = sumBreaks(BreakType.Break);
+  const totalLunchMinutes = sumBreaks(BreakType.Lunch);
+  const totalWorkMinutes = sumClosedSessionMinutes(sessions) - totalBreakMinutes - totalLunchMinutes;
+
+  const overtimeMinutes =
+    totalWorkMinutes > overtime.thresholdMinutes
+      ? Math.min(totalWorkMinutes - overtime.thresholdMinutes, overtime.maxOvertimeMinutes)
+      : 0;
+
+  return {
+    totalWorkMinutes,
+    totalBreakMinutes,
+    totalLunchMinutes,
+    regularMinutes: Math.min(totalWorkMinutes, overtime.thresholdMinutes),
+    overtimeMinutes,
+    // Only overtime covered by approved requests is paid
+    approvedOvertimeMinutes: Math.min(overtimeMinutes, overtime.approvedMinutes),
+    isComplete: !getOpenSession(sessions),
+  };
+}
+
+/**
+ * Fields whose stored value differs from the recomputed one
+ */
+export function diffDayTotals(before: DayTotals, after: DayTotals): DayTotalsDiff {
+  const diff: DayTotalsDiff = {};
+
+  for (const key of Object.keys(after) as Array<keyof DayTotals>) {
+    if (before[key] !== after[key]) {
+      (diff as Record<string, unknown>)[key] = { before: before[key], after: after[key] };
+    }
+  }
+
+  return diff;
+}
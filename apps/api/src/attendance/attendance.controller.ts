@@ -13,21 +13,31 @@ import {
   Param,
   Query,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
   ApiBearerAuth,
   ApiQuery,
   ApiOkResponse,
+  ApiConsumes,
 } from '@nestjs/swagger';
 import { UserRole } from '@prisma/client';
 
 import { AttendanceService } from './attendance.service';
+import { QrCheckInService } from './qr-check-in.service';
+import { DayStatusService } from './day-status.service';
+import { BiometricImportService } from './biometric-import.service';
+import { AttendanceRecalculationService } from './attendance-recalculation.service';
 import { CheckInDto } from './dto/check-in.dto';
 import { CheckOutDto } from './dto/check-out.dto';
 import { StartBreakDto } from './dto/start-break.dto';
 import { OverrideAttendanceDto } from './dto/override-attendance.dto';
+import { RecalculateAttendanceDto } from './dto/recalculate-attendance.dto';
 import {
   AttendanceDayResponseDto,
   CheckInResponseDto,
@@ -43,7 +53,13 @@ import { CurrentUser } from '../auth/decorators/current-user.decorator';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('attendance')
 export class AttendanceController {
-  constructor(private readonly attendanceService: AttendanceService) {}
+  constructor(
+    private readonly attendanceService: AttendanceService,
+    private readonly qrCheckInService: QrCheckInService,
+    private readonly dayStatusService: DayStatusService,
+    private readonly biometricImportService: BiometricImportService,
+    private readonly recalculationService: AttendanceRecalculationService,
+  ) {}
 
   /**
    * Check in for the day
@@ -175,6 +191,22 @@ export class AttendanceController {
     return { success: true, data: result };
   }
 
+  /**
+   * Get month calendar of day statuses (present, leave, holiday, weekend, absent)
+   */
+  @Get('calendar')
+  @ApiOperation({ summary: 'Get month attendance calendar' })
+  @ApiQuery({ name: 'month', required: false, description: 'YYYY-MM (defaults to current month)' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Direct report (Manager) or any employee (HR/Admin)' })
+  async getCalendar(
+    @CurrentUser() user: any,
+    @Query('month') month?: string,
+    @Query('userId') userId?: string,
+  ) {
+    const result = await this.dayStatusService.getMonthCalendar(user, userId || user.id, month);
+    return { success: true, data: result };
+  }
+
   /**
    * Override attendance event (HR/Admin)
    */
@@ -194,6 +226,58 @@ export class AttendanceController {
     return { success: true, data: result };
   }
 
+  /**
+   * Import a biometric time clock export (HR/Admin)
+   * Runs as a dry run unless dryRun=false, so the report can be reviewed first.
+   */
+  @Post('imports/biometric')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Import punches from a biometric time clock export' })
+  @ApiConsumes('multipart/form-data')
+  @ApiQuery({ name: 'format', required: false, description: 'csv, zkteco or essl (detected when omitted)' })
+  @ApiQuery({ name: 'dryRun', required: false, description: 'Set to false to write the punches (default true)' })
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 5 * 1024 * 1024 } }))
+  async importBiometric(
+    @CurrentUser() user: any,
+    @UploadedFile() file: Express.Multer.File,
+    @Query('format') format?: string,
+    @Query('dryRun') dryRun?: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Upload the time clock export as "file"');
+    }
+
+    const result = await this.biometricImportService.importLog(
+      user.companyId,
+      user.id,
+      file.buffer.toString('utf8'),
+      { format, dryRun: dryRun !== 'false', fileName: file.originalname },
+    );
+    return { success: true, data: result };
+  }
+
+  /**
+   * Recalculate stored day totals after policy or schedule changes (HR/Admin)
+   * Runs as a dry run unless dryRun=false, so the diff can be reviewed first.
+   */
+  @Post('recalculate')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Recalculate attendance totals for a date range' })
+  @ApiQuery({ name: 'dryRun', required: false, description: 'Set to false to save the new totals (default true)' })
+  async recalculate(
+    @CurrentUser() user: any,
+    @Body() dto: RecalculateAttendanceDto,
+    @Query('dryRun') dryRun?: string,
+  ) {
+    const result = await this.recalculationService.recalculateRange(
+      user.companyId,
+      user.id,
+      dto,
+      dryRun !== 'false',
+    );
+    return { success: true, data: result };
+  }
+
   /**
    * Get check-in locations for map visualization (Super Admin only)
    */
@@ -216,4 +300,18 @@ export class AttendanceController {
     );
     return { success: true, data: locations };
   }
+
+  /**
+   * Get the current rotating QR code for an office lobby display (HR/Admin)
+   */
+  @Get('qr-code/:locationId')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Get current check-in QR code for an office location' })
+  async getQrCode(
+    @CurrentUser() user: any,
+    @Param('locationId') locationId: string,
+  ) {
+    const result = await this.qrCheckInService.issueToken(user.companyId, locationId);
+    return { success: true, data: result };
+  }
 }
@@ -2,19 +2,47 @@
  * Attendance Module
  *
  * Handles attendance tracking including check-in/out,
- * breaks, overtime calculation, and geofence validation.
+ * breaks, overtime calculation and approval tracking, geofence and QR code validation,
+ * the nightly present/leave/holiday/weekend/absent accounting,
+ * auto-checkout of forgotten sessions and breaks, biometric
+ * time clock imports, and recalculation of stored day totals.
  */
 
 import { Module, forwardRef } from '@nestjs/common';
 import { AttendanceService } from './attendance.service';
 import { AttendanceController } from './attendance.controller';
 import { GeofenceService } from './geofence.service';
+import { QrCheckInService } from './qr-check-in.service';
+import { LocationIntegrityService } from './location-integrity.service';
+import { DayStatusService } from './day-status.service';
+import { AutoCheckoutService } from './auto-checkout.service';
+import { BiometricImportService } from './biometric-import.service';
+import { AttendanceRecalculationService } from './attendance-recalculation.service';
 import { AnomaliesModule } from '../anomalies/anomalies.module';
+import { WorkSchedulesModule } from '../work-schedules/work-schedules.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { CustomerSitesModule } from '../customer-sites/customer-sites.module';
+import { OvertimeModule } from '../overtime/overtime.module';
 
 @Module({
-  imports: [forwardRef(() => AnomaliesModule)],
+  imports: [
+    forwardRef(() => AnomaliesModule),
+    WorkSchedulesModule,
+    NotificationsModule,
+    CustomerSitesModule,
+    OvertimeModule,
+  ],
   controllers: [AttendanceController],
-  providers: [AttendanceService, GeofenceService],
-  exports: [AttendanceService],
+  providers: [
+    AttendanceService,
+    GeofenceService,
+    QrCheckInService,
+    LocationIntegrityService,
+    DayStatusService,
+    AutoCheckoutService,
+    BiometricImportService,
+    AttendanceRecalculationService,
+  ],
+  exports: [AttendanceService, DayStatusService],
 })
 export class AttendanceModule {}
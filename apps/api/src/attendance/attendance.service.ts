@@ -14,7 +14,22 @@ import { AttendanceEventType, BreakType, VerificationStatus, WorkMode, AnomalyTy
 
 import { PrismaService } from '../prisma/prisma.service';
 import { GeofenceService } from './geofence.service';
+import { buildSessions, getOpenSession, sumClosedSessionMinutes } from './attendance-sessions';
+import { QrCheckInService } from './qr-check-in.service';
+import { LocationIntegrityService } from './location-integrity.service';
+import { SiteVisitsService } from '../customer-sites/site-visits.service';
+import { OvertimeService } from '../overtime/overtime.service';
 import { AnomaliesService } from '../anomalies/anomalies.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { getLocalDayBounds, getLocalMinutesOfDay } from '../common/timezone/timezone.utils';
+import { WorkSchedulesService } from '../work-schedules/work-schedules.service';
+import { PeriodLocksService } from '../period-locks/period-locks.service';
+import { AttendanceRecalculationService } from './attendance-recalculation.service';
+import {
+  formatTimeOfDay,
+  getOvertimeThresholdMinutes,
+  getScheduledDay,
+} from '../work-schedules/work-schedule.utils';
 import { CheckInDto } from './dto/check-in.dto';
 import { CheckOutDto } from './dto/check-out.dto';
 import { StartBreakDto } from './dto/start-break.dto';
@@ -24,22 +39,37 @@ import {
   WorkPolicyDto,
   AttendanceEventDto,
   BreakSegmentDto,
+  AttendanceSessionDto,
+  ScheduledDayDto,
 } from './dto/attendance-day.dto';
 
+/** Shared kiosk an event is recorded on; replaces GPS and QR verification */
+export interface KioskStamp {
+  kioskDeviceId: string;
+  officeLocationId: string;
+}
+
 @Injectable()
 export class AttendanceService {
   constructor(
     private prisma: PrismaService,
     private geofenceService: GeofenceService,
+    private qrCheckInService: QrCheckInService,
+    private locationIntegrityService: LocationIntegrityService,
+    private siteVisitsService: SiteVisitsService,
+    private overtimeService: OvertimeService,
     private anomaliesService: AnomaliesService,
+    private timezoneService: TimezoneService,
+    private workSchedulesService: WorkSchedulesService,
+    private periodLocksService: PeriodLocksService,
+    private recalculationService: AttendanceRecalculationService,
   ) {}
 
   /**
    * Check in for the day
    */
-  async checkIn(userId: string, companyId: string, checkInDto: CheckInDto) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  async checkIn(userId: string, companyId: string, checkInDto: CheckInDto, kiosk?: KioskStamp) {
+    const today = await this.timezoneService.getUserToday(userId);
 
     // Check for existing check-in today
     const existingDay = await this.prisma.attendanceDay.findUnique({
@@ -52,28 +82,58 @@ export class AttendanceService {
       include: { events: true },
     });
 
-    if (existingDay) {
-      // Only block if currently checked in (not checked out)
-      const hasActiveCheckIn = existingDay.events.some(
-        (e) => e.type === AttendanceEventType.CheckIn && !e.isOverride,
-      );
-      if (hasActiveCheckIn && !existingDay.isComplete) {
-        throw new BadRequestException('Already checked in today');
-      }
-      // If day was complete (checked out), allow re-checking in
+    // Only block if a session is still open; a new session may start after check-out
+    if (existingDay && getOpenSession(buildSessions(existingDay.events))) {
+      throw new BadRequestException('Already checked in');
     }
 
-    // Validate geofence if required for office mode
+    // Validate QR code or geofence for office mode
     let verificationStatus: VerificationStatus = VerificationStatus.None;
-    if (checkInDto.workMode === WorkMode.Office) {
+    let officeLocationId: string | undefined;
+    if (kiosk) {
+      // The kiosk is locked to its location; the employee proved identity with a PIN
+      verificationStatus = VerificationStatus.KioskVerified;
+      officeLocationId = kiosk.officeLocationId;
+    } else if (checkInDto.workMode === WorkMode.Office) {
       verificationStatus = await this.geofenceService.validateAndCreateAnomaly(
         userId,
         companyId,
         checkInDto.latitude,
         checkInDto.longitude,
       );
+
+      // The QR code is an extra factor on top of GPS, never a replacement for it
+      if (checkInDto.qrToken || (await this.qrCheckInService.isQrRequired(companyId))) {
+        const qrResult = await this.qrCheckInService.verifyAndCreateAnomaly(
+          userId,
+          companyId,
+          checkInDto.qrToken,
+          checkInDto.latitude,
+          checkInDto.longitude,
+        );
+        officeLocationId = qrResult.officeLocationId;
+        if (verificationStatus !== VerificationStatus.GeofenceFailed) {
+          verificationStatus = qrResult.verificationStatus;
+        }
+      }
     }
 
+    // Resolve the customer site being visited
+    const customerSite = checkInDto.customerSiteId
+      ? await this.siteVisitsService.getSiteForCheckIn(companyId, checkInDto.workMode, checkInDto.customerSiteId)
+      : null;
+
+    // Check every position; without device signals it is at best unverified
+    const hasCoordinates = checkInDto.latitude != null && checkInDto.longitude != null;
+    const integrity = hasCoordinates
+      ? await this.locationIntegrityService.assess(
+          userId,
+          checkInDto.latitude!,
+          checkInDto.longitude!,
+          checkInDto.locationIntegrity,
+        )
+      : null;
+
     // Create or update attendance day - reset isComplete if re-checking in
     const attendanceDay = await this.prisma.attendanceDay.upsert({
       where: {
@@ -101,11 +161,39 @@ export class AttendanceService {
         latitude: checkInDto.latitude,
         longitude: checkInDto.longitude,
         verificationStatus,
+        officeLocationId,
+        kioskDeviceId: kiosk?.kioskDeviceId,
         deviceFingerprint: checkInDto.deviceFingerprint,
         notes: checkInDto.notes,
+        locationIntegrity: integrity?.verdict,
+        locationIntegrityScore: integrity?.score,
+        locationSignals: integrity
+          ? {
+              ...checkInDto.locationIntegrity,
+              previousFix: checkInDto.locationIntegrity?.previousFix && {
+                ...checkInDto.locationIntegrity.previousFix,
+              },
+              reasons: integrity.reasons,
+            }
+          : undefined,
       },
     });
 
+    const siteVisit = customerSite
+      ? await this.siteVisitsService.startVisit(userId, customerSite, event)
+      : null;
+
+    if (integrity) {
+      await this.locationIntegrityService.createAnomalyIfSuspicious(
+        userId,
+        companyId,
+        event.id,
+        checkInDto.latitude!,
+        checkInDto.longitude!,
+        integrity,
+      );
+    }
+
     // Create audit log
     await this.prisma.auditLog.create({
       data: {
@@ -116,12 +204,17 @@ export class AttendanceService {
         after: {
           workMode: checkInDto.workMode,
           verificationStatus,
+          officeLocationId,
+          kioskDeviceId: kiosk?.kioskDeviceId,
+          locationIntegrity: integrity?.verdict,
+          customerSiteId: customerSite?.id,
         },
       },
     });
 
     return {
       event,
+      siteVisit,
       attendanceDay: await this.getAttendanceDayWithPolicy(attendanceDay.id, companyId, userId),
     };
   }
@@ -129,9 +222,8 @@ export class AttendanceService {
   /**
    * Check out for the day
    */
-  async checkOut(userId: string, companyId: string, checkOutDto: CheckOutDto) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  async checkOut(userId: string, companyId: string, checkOutDto: CheckOutDto, kiosk?: KioskStamp) {
+    const today = await this.timezoneService.getUserToday(userId);
 
     // Find today's attendance
     const attendanceDay = await this.prisma.attendanceDay.findUnique({
@@ -148,24 +240,12 @@ export class AttendanceService {
       throw new BadRequestException('Not checked in today');
     }
 
-    // Find the most recent check-in event (to support multiple check-ins per day)
-    const checkInEvents = attendanceDay.events
-      .filter((e) => e.type === AttendanceEventType.CheckIn)
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-
-    const checkInEvent = checkInEvents[0];
-    if (!checkInEvent) {
-      throw new BadRequestException('No check-in found for today');
-    }
-
-    // Check if there's a checkout AFTER the most recent check-in
-    const hasCheckOutAfterCheckIn = attendanceDay.events.some(
-      (e) => e.type === AttendanceEventType.CheckOut &&
-             e.timestamp.getTime() > checkInEvent.timestamp.getTime(),
-    );
-    if (hasCheckOutAfterCheckIn) {
+    // Close the open session; each session keeps the work mode it was started with
+    const openSession = getOpenSession(buildSessions(attendanceDay.events));
+    if (!openSession) {
       throw new BadRequestException('Already checked out for this session');
     }
+    const checkInEvent = openSession.checkIn;
 
     // End any open breaks
     const openBreaks = attendanceDay.breaks.filter((b) => !b.endTime);
@@ -183,8 +263,14 @@ export class AttendanceService {
         latitude: checkOutDto.latitude,
         longitude: checkOutDto.longitude,
         notes: checkOutDto.notes,
+        ...(kiosk && {
+          verificationStatus: VerificationStatus.KioskVerified,
+          officeLocationId: kiosk.officeLocationId,
+          kioskDeviceId: kiosk.kioskDeviceId,
+        }),
       },
     });
+    await this.siteVisitsService.endVisit(checkInEvent.id, event);
 
     // Calculate work time and overtime
     await this.calculateDayTotals(attendanceDay.id);
@@ -196,6 +282,7 @@ export class AttendanceService {
         action: 'AttendanceCheckOut',
         entityType: 'AttendanceEvent',
         entityId: event.id,
+        after: kiosk ? { kioskDeviceId: kiosk.kioskDeviceId } : undefined,
       },
     });
 
@@ -211,6 +298,7 @@ export class AttendanceService {
         workedMinutes: updatedDay?.totalWorkMinutes || 0,
         breakMinutes: (updatedDay?.totalBreakMinutes || 0) + (updatedDay?.totalLunchMinutes || 0),
         overtime: updatedDay?.overtimeMinutes || 0,
+        approvedOvertime: updatedDay?.approvedOvertimeMinutes || 0,
       },
     };
   }
@@ -219,8 +307,7 @@ export class AttendanceService {
    * Start a break
    */
   async startBreak(userId: string, startBreakDto: StartBreakDto) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = await this.timezoneService.getUserToday(userId);
 
     const attendanceDay = await this.prisma.attendanceDay.findUnique({
       where: {
@@ -236,15 +323,8 @@ export class AttendanceService {
       throw new BadRequestException('Not checked in today');
     }
 
-    // Check if checked in and not checked out
-    const hasCheckIn = attendanceDay.events.some(
-      (e) => e.type === AttendanceEventType.CheckIn,
-    );
-    const hasCheckOut = attendanceDay.events.some(
-      (e) => e.type === AttendanceEventType.CheckOut,
-    );
-
-    if (!hasCheckIn || hasCheckOut) {
+    // Check there is an open session (checked in and not yet checked out)
+    if (!getOpenSession(buildSessions(attendanceDay.events))) {
       throw new BadRequestException('Cannot start break - not in an active work session');
     }
 
@@ -338,8 +418,7 @@ export class AttendanceService {
    * Get today's attendance for user with full context
    */
   async getToday(userId: string, companyId: string): Promise<AttendanceDayResponseDto> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = await this.timezoneService.getUserToday(userId);
 
     const attendanceDay = await this.prisma.attendanceDay.findUnique({
       where: {
@@ -428,20 +507,22 @@ export class AttendanceService {
 
     const totalWorkMinutes = days.reduce((sum, d) => sum + d.totalWorkMinutes, 0);
     const totalOvertimeMinutes = days.reduce((sum, d) => sum + d.overtimeMinutes, 0);
+    const approvedOvertimeMinutes = days.reduce((sum, d) => sum + d.approvedOvertimeMinutes, 0);
 
-    // Calculate average check-in/out times
-    const checkIns = days
-      .flatMap((d) => d.events)
-      .filter((e) => e.type === AttendanceEventType.CheckIn)
-      .map((e) => e.timestamp);
+    // Calculate average check-in/out times from the first and last session of each day
+    const daySessions = days.map((d) => buildSessions(d.events));
 
-    const checkOuts = days
-      .flatMap((d) => d.events)
-      .filter((e) => e.type === AttendanceEventType.CheckOut)
-      .map((e) => e.timestamp);
+    const checkIns = daySessions
+      .filter((sessions) => sessions.length > 0)
+      .map((sessions) => sessions[0].checkIn.timestamp);
 
-    const avgCheckIn = this.calculateAverageTime(checkIns);
-    const avgCheckOut = this.calculateAverageTime(checkOuts);
+    const checkOuts = daySessions
+      .map((sessions) => sessions[sessions.length - 1]?.checkOut?.timestamp)
+      .filter((t): t is Date => !!t);
+
+    const timeZone = await this.timezoneService.getUserTimezone(userId);
+    const avgCheckIn = this.calculateAverageTime(checkIns, timeZone);
+    const avgCheckOut = this.calculateAverageTime(checkOuts, timeZone);
 
     // Get leave days
     const leaveDays = await this.prisma.leaveRequest.count({
@@ -464,6 +545,7 @@ export class AttendanceService {
       leaveDays,
       totalWorkHours: Math.round(totalWorkMinutes / 60 * 10) / 10,
       totalOvertimeHours: Math.round(totalOvertimeMinutes / 60 * 10) / 10,
+      approvedOvertimeHours: Math.round(approvedOvertimeMinutes / 60 * 10) / 10,
       averageCheckInTime: avgCheckIn,
       averageCheckOutTime: avgCheckOut,
     };
@@ -486,6 +568,8 @@ export class AttendanceService {
       throw new NotFoundException('Attendance event not found');
     }
 
+    await this.periodLocksService.assertOpenForUser(event.attendanceDay.userId, event.attendanceDay.date);
+
     const before = {
       timestamp: event.timestamp,
       workMode: event.workMode,
@@ -505,7 +589,7 @@ export class AttendanceService {
     });
 
     // Recalculate day totals
-    await this.calculateDayTotals(event.attendanceDayId);
+    const totals = await this.calculateDayTotals(event.attendanceDayId);
 
     // Create audit log
     await this.prisma.auditLog.create({
@@ -523,9 +607,252 @@ export class AttendanceService {
       },
     });
 
+    if (totals && Object.keys(totals.changes).length > 0) {
+      await this.prisma.auditLog.create({
+        data: {
+          actorId,
+          action: 'AttendanceRecalculated',
+          entityType: 'AttendanceDay',
+          entityId: event.attendanceDayId,
+          after: { changes: totals.changes },
+          reason: overrideDto.reason,
+        },
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Apply approved regularization times to a past attendance day
+   * Existing check-in/out events are overridden, missing ones are created
+   */
+  async applyRegularization(
+    userId: string,
+    date: Date,
+    times: { checkIn?: Date; checkOut?: Date; workMode?: WorkMode },
+    reason: string,
+    actorId: string,
+  ) {
+    await this.periodLocksService.assertOpenForUser(userId, date);
+
+    const attendanceDay = await this.prisma.attendanceDay.upsert({
+      where: { userId_date: { userId, date } },
+      create: { userId, date },
+      update: {},
+      include: { events: { orderBy: { timestamp: 'asc' } } },
+    });
+
+    const existingCheckIn = attendanceDay.events.find(
+      (e) => e.type === AttendanceEventType.CheckIn,
+    );
+    const existingCheckOut = [...attendanceDay.events]
+      .reverse()
+      .find((e) => e.type === AttendanceEventType.CheckOut);
+    const workMode = times.workMode || existingCheckIn?.workMode || WorkMode.Office;
+
+    const proposed = [
+      { type: AttendanceEventType.CheckIn, timestamp: times.checkIn, existing: existingCheckIn },
+      { type: AttendanceEventType.CheckOut, timestamp: times.checkOut, existing: existingCheckOut },
+    ];
+
+    const events = [];
+    for (const { type, timestamp, existing } of proposed) {
+      if (!timestamp) continue;
+
+      const event = existing
+        ? await this.prisma.attendanceEvent.update({
+            where: { id: existing.id },
+            data: {
+              timestamp,
+              workMode,
+              isOverride: true,
+              overrideReason: reason,
+              overrideBy: actorId,
+              isAutoClosed: false,
+            },
+          })
+        : await this.prisma.attendanceEvent.create({
+            data: {
+              attendanceDayId: attendanceDay.id,
+              type,
+              timestamp,
+              workMode,
+              isOverride: true,
+              overrideReason: reason,
+              overrideBy: actorId,
+            },
+          });
+
+      // Create audit log
+      await this.prisma.auditLog.create({
+        data: {
+          actorId,
+          action: 'AttendanceOverride',
+          entityType: 'AttendanceEvent',
+          entityId: event.id,
+          before: existing
+            ? { timestamp: existing.timestamp, workMode: existing.workMode }
+            : undefined,
+          after: {
+            type: event.type,
+            timestamp: event.timestamp,
+            workMode: event.workMode,
+          },
+          reason,
+        },
+      });
+
+      events.push(event);
+    }
+
+    // Recalculate day totals
+    const totals = await this.calculateDayTotals(attendanceDay.id);
+
+    if (totals && Object.keys(totals.changes).length > 0) {
+      await this.prisma.auditLog.create({
+        data: {
+          actorId,
+          action: 'AttendanceRecalculated',
+          entityType: 'AttendanceDay',
+          entityId: attendanceDay.id,
+          after: { changes: totals.changes },
+          reason,
+        },
+      });
+    }
+
+    return { attendanceDayId: attendanceDay.id, events };
+  }
+
+  /**
+   * Record punches imported from a biometric time clock on an attendance day
+   */
+  async recordImportedEvents(
+    userId: string,
+    date: Date,
+    punches: Array<{ type: AttendanceEventType; timestamp: Date; notes: string }>,
+  ) {
+    const attendanceDay = await this.prisma.attendanceDay.upsert({
+      where: { userId_date: { userId, date } },
+      create: { userId, date },
+      update: {},
+    });
+
+    await this.prisma.attendanceEvent.createMany({
+      data: punches.map((punch) => ({
+        attendanceDayId: attendanceDay.id,
+        type: punch.type,
+        timestamp: punch.timestamp,
+        workMode: WorkMode.Office,
+        verificationStatus: VerificationStatus.BiometricDevice,
+        notes: punch.notes,
+      })),
+    });
+
+    // Recalculate day totals
+    await this.calculateDayTotals(attendanceDay.id);
+
+    return attendanceDay.id;
+  }
+
+  /**
+   * Close a forgotten session and its open breaks at a cutoff (auto-checkout)
+   * The check-out and breaks are flagged as auto-closed so the employee can
+   * regularize the real times later.
+   */
+  async autoCloseDay(attendanceDayId: string, closeAt: Date, reason: string) {
+    const day = await this.prisma.attendanceDay.findUnique({
+      where: { id: attendanceDayId },
+      include: { events: true, breaks: true },
+    });
+
+    if (!day) return null;
+
+    const openSession = getOpenSession(buildSessions(day.events));
+    const openBreaks = day.breaks.filter((b) => !b.endTime);
+    if (!openSession && openBreaks.length === 0) return null;
+
+    for (const openBreak of openBreaks) {
+      await this.closeBreakAt(openBreak, closeAt);
+    }
+
+    let event = null;
+    if (openSession) {
+      event = await this.prisma.attendanceEvent.create({
+        data: {
+          attendanceDayId: day.id,
+          type: AttendanceEventType.CheckOut,
+          timestamp: closeAt > openSession.checkIn.timestamp ? closeAt : openSession.checkIn.timestamp,
+          workMode: openSession.workMode,
+          notes: reason,
+          isAutoClosed: true,
+        },
+      });
+      await this.siteVisitsService.endVisit(openSession.checkIn.id, event);
+    }
+
+    await this.recalculateBreakTotals(day.id);
+    await this.calculateDayTotals(day.id);
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: day.userId,
+        action: 'AttendanceAutoCheckOut',
+        entityType: 'AttendanceDay',
+        entityId: day.id,
+        after: { checkOutTime: event?.timestamp, breaksClosed: openBreaks.length },
+        reason,
+      },
+    });
+
+    return { event, breaksClosed: openBreaks.length };
+  }
+
+  /**
+   * End a break the employee forgot to end, at the given time
+   */
+  async autoEndBreak(breakId: string, endTime: Date, reason: string) {
+    const breakSegment = await this.prisma.breakSegment.findUnique({
+      where: { id: breakId },
+      include: { attendanceDay: true },
+    });
+
+    if (!breakSegment || breakSegment.endTime) return null;
+
+    const updated = await this.closeBreakAt(breakSegment, endTime);
+    await this.recalculateBreakTotals(breakSegment.attendanceDayId);
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: breakSegment.attendanceDay.userId,
+        action: 'BreakAutoEnded',
+        entityType: 'BreakSegment',
+        entityId: breakId,
+        after: { endTime, durationMinutes: updated.durationMinutes },
+        reason,
+      },
+    });
+
     return updated;
   }
 
+  /**
+   * Mark an open break as auto-closed at a given time
+   */
+  private async closeBreakAt(breakSegment: { id: string; startTime: Date }, endTime: Date) {
+    const closedAt = endTime > breakSegment.startTime ? endTime : breakSegment.startTime;
+
+    return this.prisma.breakSegment.update({
+      where: { id: breakSegment.id },
+      data: {
+        endTime: closedAt,
+        durationMinutes: Math.round((closedAt.getTime() - breakSegment.startTime.getTime()) / 60000),
+        isAutoClosed: true,
+      },
+    });
+  }
+
   /**
    * Get attendance day by ID
    */
@@ -547,74 +874,67 @@ export class AttendanceService {
     companyId: string,
     userId: string,
   ): Promise<AttendanceDayResponseDto> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // Fetch attendance day with events and breaks
+    const day = attendanceDayId
+      ? await this.prisma.attendanceDay.findUnique({
+          where: { id: attendanceDayId },
+          include: {
+            events: { orderBy: { timestamp: 'asc' } },
+            breaks: { orderBy: { startTime: 'asc' } },
+          },
+        })
+      : null;
 
-    // Fetch work policy
-    const policy = await this.prisma.workPolicy.findUnique({
-      where: { companyId },
-    });
+    const date = day?.date ?? (await this.timezoneService.getUserToday(userId));
+
+    // Fetch work policy and the schedule for the day
+    const [policy, workSchedule] = await Promise.all([
+      this.prisma.workPolicy.findUnique({ where: { companyId } }),
+      this.workSchedulesService.resolveForUser(userId),
+    ]);
+    const scheduledDay = getScheduledDay(workSchedule, date);
+    const lunchDurationMinutes = policy?.lunchDurationMinutes ?? 60;
 
     const defaultPolicy: WorkPolicyDto = {
       breakDurationMinutes: policy?.breakDurationMinutes ?? 15,
-      lunchDurationMinutes: policy?.lunchDurationMinutes ?? 60,
-      overtimeThresholdMinutes: policy?.overtimeThresholdMinutes ?? 480,
+      lunchDurationMinutes,
+      overtimeThresholdMinutes: getOvertimeThresholdMinutes(scheduledDay, lunchDurationMinutes),
       maxOvertimeMinutes: policy?.maxOvertimeMinutes ?? 240,
       standardWorkHours: policy?.standardWorkHours ?? 8,
     };
 
-    // If no attendance day, return not_checked_in status
-    if (!attendanceDayId) {
-      return {
-        date: today.toISOString(),
-        status: 'not_checked_in',
-        totalWorkMinutes: 0,
-        totalBreakMinutes: 0,
-        totalLunchMinutes: 0,
-        overtimeMinutes: 0,
-        events: [],
-        breaks: [],
-        policy: defaultPolicy,
-      };
-    }
-
-    // Fetch attendance day with events and breaks
-    const day = await this.prisma.attendanceDay.findUnique({
-      where: { id: attendanceDayId },
-      include: {
-        events: { orderBy: { timestamp: 'asc' } },
-        breaks: { orderBy: { startTime: 'asc' } },
-      },
-    });
+    const schedule: ScheduledDayDto = {
+      scheduleName: workSchedule.name,
+      isWorkingDay: scheduledDay.isWorkingDay,
+      startTime: formatTimeOfDay(scheduledDay.startMinutes),
+      endTime: formatTimeOfDay(scheduledDay.endMinutes),
+      graceMinutesLate: scheduledDay.graceMinutesLate,
+    };
 
+    // If no attendance day, return not_checked_in status
     if (!day) {
       return {
-        date: today.toISOString(),
+        date: date.toISOString(),
         status: 'not_checked_in',
         totalWorkMinutes: 0,
         totalBreakMinutes: 0,
         totalLunchMinutes: 0,
         overtimeMinutes: 0,
+        approvedOvertimeMinutes: 0,
         events: [],
         breaks: [],
+        sessions: [],
         policy: defaultPolicy,
+        schedule,
       };
     }
 
-    // Compute status based on most recent check-in/check-out pair
-    // Sort events by timestamp descending to find most recent
-    const sortedCheckIns = day.events
-      .filter((e) => e.type === AttendanceEventType.CheckIn)
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-    const checkInEvent = sortedCheckIns[0];
-
-    // Find check-out events that occurred after the most recent check-in
-    const checkOutEvent = checkInEvent
-      ? day.events.find(
-          (e) => e.type === AttendanceEventType.CheckOut &&
-                 e.timestamp.getTime() > checkInEvent.timestamp.getTime()
-        )
-      : null;
+    // Compute status from the most recent session
+    const now = new Date();
+    const daySessions = buildSessions(day.events, now);
+    const latestSession = daySessions[daySessions.length - 1];
+    const checkInEvent = latestSession?.checkIn;
+    const checkOutEvent = latestSession?.checkOut;
     const openBreak = day.breaks.find((b) => !b.endTime);
 
     let status: 'not_checked_in' | 'working' | 'on_break' | 'checked_out';
@@ -639,6 +959,8 @@ export class AttendanceService {
       verificationStatus: e.verificationStatus,
       notes: e.notes || undefined,
       isOverride: e.isOverride,
+      isAutoClosed: e.isAutoClosed,
+      locationIntegrity: e.locationIntegrity || undefined,
     }));
 
     // Map breaks to DTOs
@@ -648,30 +970,35 @@ export class AttendanceService {
       startTime: b.startTime.toISOString(),
       endTime: b.endTime?.toISOString(),
       durationMinutes: b.durationMinutes || undefined,
+      isAutoClosed: b.isAutoClosed,
     }));
 
-    // Calculate live totals for work minutes if still working
+    // Map sessions to DTOs
+    const sessions: AttendanceSessionDto[] = daySessions.map((s) => ({
+      checkInTime: s.checkIn.timestamp.toISOString(),
+      checkOutTime: s.checkOut?.timestamp.toISOString(),
+      workMode: s.workMode,
+      durationMinutes: s.durationMinutes,
+    }));
+
+    // Calculate live totals for work minutes if still working:
+    // closed sessions plus the running session, less completed breaks
     let totalWorkMinutes = day.totalWorkMinutes;
-    if (status === 'working' && checkInEvent) {
-      const now = new Date();
-      const elapsedMinutes = Math.round(
-        (now.getTime() - checkInEvent.timestamp.getTime()) / 60000,
+    if ((status === 'working' || status === 'on_break') && checkInEvent) {
+      const runningUntil = status === 'on_break' && openBreak ? openBreak.startTime : now;
+      const runningMinutes = Math.round(
+        (runningUntil.getTime() - checkInEvent.timestamp.getTime()) / 60000,
       );
-      const breakMinutes = day.totalBreakMinutes + day.totalLunchMinutes;
-      totalWorkMinutes = Math.max(0, elapsedMinutes - breakMinutes);
-    } else if (status === 'on_break' && checkInEvent && openBreak) {
-      // Calculate work up to break start
-      const breakStartTime = openBreak.startTime.getTime();
-      const checkInTime = checkInEvent.timestamp.getTime();
-      const elapsedMinutes = Math.round((breakStartTime - checkInTime) / 60000);
       const completedBreakMinutes = day.totalBreakMinutes + day.totalLunchMinutes;
-      totalWorkMinutes = Math.max(0, elapsedMinutes - completedBreakMinutes);
+      totalWorkMinutes = Math.max(
+        0,
+        sumClosedSessionMinutes(daySessions) + runningMinutes - completedBreakMinutes,
+      );
     }
 
     // Calculate live break minutes if on break
     let totalBreakMinutes = day.totalBreakMinutes + day.totalLunchMinutes;
     if (openBreak) {
-      const now = new Date();
       const currentBreakMinutes = Math.round(
         (now.getTime() - openBreak.startTime.getTime()) / 60000,
       );
@@ -696,72 +1023,32 @@ export class AttendanceService {
       totalBreakMinutes: day.totalBreakMinutes,
       totalLunchMinutes: day.totalLunchMinutes,
       overtimeMinutes: day.overtimeMinutes,
+      approvedOvertimeMinutes: day.approvedOvertimeMinutes,
       events,
       breaks,
+      sessions,
       policy: defaultPolicy,
+      schedule,
     };
   }
 
   /**
    * Calculate day totals after check-out
+   * Work time is summed across all closed sessions of the day
    */
   private async calculateDayTotals(attendanceDayId: string) {
-    const day = await this.prisma.attendanceDay.findUnique({
-      where: { id: attendanceDayId },
-      include: {
-        events: { orderBy: { timestamp: 'asc' } },
-        breaks: true,
-        user: { include: { company: { include: { workPolicy: true } } } },
-      },
-    });
+    const result = await this.recalculationService.recalculateDay(attendanceDayId);
+    if (!result) return null;
 
-    if (!day) return;
+    const { userId, date, before, after } = result;
 
-    const checkIn = day.events.find(
-      (e) => e.type === AttendanceEventType.CheckIn,
-    );
-    const checkOut = day.events.find(
-      (e) => e.type === AttendanceEventType.CheckOut,
-    );
-
-    if (!checkIn || !checkOut) return;
-
-    // Calculate work time
-    const totalMinutes = Math.round(
-      (checkOut.timestamp.getTime() - checkIn.timestamp.getTime()) / 60000,
-    );
-
-    // Calculate break totals
-    const breakMinutes = day.breaks
-      .filter((b) => b.type === BreakType.Break)
-      .reduce((sum, b) => sum + (b.durationMinutes || 0), 0);
-
-    const lunchMinutes = day.breaks
-      .filter((b) => b.type === BreakType.Lunch)
-      .reduce((sum, b) => sum + (b.durationMinutes || 0), 0);
-
-    const workMinutes = totalMinutes - breakMinutes - lunchMinutes;
-
-    // Calculate overtime
-    const policy = day.user.company.workPolicy;
-    const overtimeThreshold = policy?.overtimeThresholdMinutes || 480;
-    const maxOvertime = policy?.maxOvertimeMinutes || 240;
-
-    let overtimeMinutes = 0;
-    if (workMinutes > overtimeThreshold) {
-      overtimeMinutes = Math.min(workMinutes - overtimeThreshold, maxOvertime);
+    // Alert once, when the day first goes over its approved overtime
+    const unapprovedMinutes = after.overtimeMinutes - after.approvedOvertimeMinutes;
+    if (unapprovedMinutes > 0 && before.overtimeMinutes <= before.approvedOvertimeMinutes) {
+      await this.overtimeService.alertUnapprovedOvertime(userId, date, unapprovedMinutes);
     }
 
-    await this.prisma.attendanceDay.update({
-      where: { id: attendanceDayId },
-      data: {
-        totalWorkMinutes: workMinutes,
-        totalBreakMinutes: breakMinutes,
-        totalLunchMinutes: lunchMinutes,
-        overtimeMinutes,
-        isComplete: true,
-      },
-    });
+    return result;
   }
 
   /**
@@ -793,13 +1080,13 @@ export class AttendanceService {
   }
 
   /**
-   * Calculate average time from timestamps
+   * Calculate average wall-clock time from timestamps in the given timezone
    */
-  private calculateAverageTime(timestamps: Date[]): string | null {
+  private calculateAverageTime(timestamps: Date[], timeZone: string): string | null {
     if (timestamps.length === 0) return null;
 
     const totalMinutes = timestamps.reduce((sum, ts) => {
-      return sum + ts.getHours() * 60 + ts.getMinutes();
+      return sum + getLocalMinutesOfDay(ts, timeZone);
     }, 0);
 
     const avgMinutes = Math.round(totalMinutes / timestamps.length);
@@ -852,6 +1139,7 @@ export class AttendanceService {
       timestamp: event.timestamp.toISOString(),
       workMode: event.workMode,
       verificationStatus: event.verificationStatus,
+      locationIntegrity: event.locationIntegrity || undefined,
     }));
   }
 
@@ -888,9 +1176,8 @@ export class AttendanceService {
 
     if (totalBreakMinutes > maxBreakMinutes) {
       // Check if anomaly already exists for this day
-      const startOfDay = new Date(day.date);
-      startOfDay.setHours(0, 0, 0, 0);
-      const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
+      const timeZone = await this.timezoneService.getUserTimezone(userId);
+      const { start: startOfDay, end: endOfDay } = getLocalDayBounds(day.date, timeZone);
 
       const existingAnomaly = await this.prisma.anomalyEvent.findFirst({
         where: {
@@ -0,0 +1,149 @@
+/**
+ * Auto-Checkout Service
+ *
+ * Closes sessions and breaks employees forgot to end, for companies that
+ * enable it in their work policy. A session still open at the policy
+ * cutoff (local time, on or after the scheduled end) is checked out at the
+ * cutoff; a break open longer than the configured limit is ended at that
+ * limit. Closed records are flagged and the employee is asked to
+ * regularize the real times.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { NotificationType, WorkPolicy } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { WorkSchedulesService } from '../work-schedules/work-schedules.service';
+import { AttendanceService } from './attendance.service';
+import { buildSessions, getOpenSession } from './attendance-sessions';
+import {
+  formatTimeOfDay,
+  getScheduledDay,
+  parseTimeOfDay,
+} from '../work-schedules/work-schedule.utils';
+import { addDays, formatDayLabel, localTimeToUtc, parseDay } from '../common/timezone/timezone.utils';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Only look back this far for forgotten sessions */
+const LOOKBACK_DAYS = 3;
+
+@Injectable()
+export class AutoCheckoutService {
+  private readonly logger = new Logger(AutoCheckoutService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+    private timezoneService: TimezoneService,
+    private workSchedulesService: WorkSchedulesService,
+    private attendanceService: AttendanceService,
+  ) {}
+
+  /**
+   * Auto-close job - runs every 15 minutes
+   */
+  @Cron('*/15 * * * *')
+  async runAutoClose() {
+    const policies = await this.prisma.workPolicy.findMany({
+      where: {
+        OR: [{ autoCheckoutEnabled: true }, { autoEndBreakMinutes: { not: null } }],
+      },
+    });
+
+    for (const policy of policies) {
+      try {
+        await this.autoCloseForCompany(policy);
+      } catch (error) {
+        this.logger.error(`Auto-checkout failed for company ${policy.companyId}`, error);
+      }
+    }
+  }
+
+  /**
+   * Close forgotten sessions and breaks for one company
+   */
+  async autoCloseForCompany(policy: WorkPolicy, now = new Date()) {
+    const days = await this.prisma.attendanceDay.findMany({
+      where: {
+        user: { companyId: policy.companyId },
+        date: { gte: addDays(parseDay(now), -LOOKBACK_DAYS) },
+        OR: [{ isComplete: false }, { breaks: { some: { endTime: null } } }],
+      },
+      include: {
+        events: { orderBy: { timestamp: 'asc' } },
+        breaks: { where: { endTime: null } },
+      },
+    });
+    if (days.length === 0) return;
+
+    const userIds = [...new Set(days.map((d) => d.userId))];
+    const [timezones, schedules] = await Promise.all([
+      this.timezoneService.getUserTimezones(userIds),
+      this.workSchedulesService.resolveForUsers(userIds),
+    ]);
+
+    const cutoffTime = TIME_OF_DAY.test(policy.autoCheckoutTime) ? policy.autoCheckoutTime : '23:00';
+
+    for (const day of days) {
+      const timeZone = timezones.get(day.userId)!;
+      const openSession = getOpenSession(buildSessions(day.events));
+
+      if (policy.autoCheckoutEnabled && (openSession || day.breaks.length > 0)) {
+        // First occurrence of the cutoff after both the scheduled end and the
+        // latest check-in, so night shifts are closed the following morning
+        const scheduled = getScheduledDay(schedules.get(day.userId)!, day.date);
+        const dayStart = localTimeToUtc(day.date, 0, timeZone);
+        const checkInMinutes = openSession
+          ? Math.floor((openSession.checkIn.timestamp.getTime() - dayStart.getTime()) / 60000)
+          : 0;
+        const anchor = Math.max(scheduled.isWorkingDay ? scheduled.endMinutes : 0, checkInMinutes);
+
+        let cutoffMinutes = parseTimeOfDay(cutoffTime);
+        while (cutoffMinutes < anchor) cutoffMinutes += 24 * 60;
+
+        const closeAt = localTimeToUtc(day.date, cutoffMinutes, timeZone);
+        if (now >= closeAt) {
+          const reason = `Automatically checked out at the ${formatTimeOfDay(cutoffMinutes)} cutoff`;
+          const result = await this.attendanceService.autoCloseDay(day.id, closeAt, reason);
+
+          if (result) {
+            await this.notifications.sendToUser(day.userId, {
+              type: NotificationType.System,
+              title: 'Automatic Check-Out',
+              body: `You were checked out automatically at ${formatTimeOfDay(cutoffMinutes)} for ${formatDayLabel(day.date)}. Request a correction if your hours are not right.`,
+              data: { attendanceDayId: day.id },
+              actionUrl: '/attendance',
+            });
+          }
+          continue;
+        }
+      }
+
+      // Breaks left running while the session carries on
+      if (policy.autoEndBreakMinutes && openSession) {
+        for (const openBreak of day.breaks) {
+          const endTime = new Date(openBreak.startTime.getTime() + policy.autoEndBreakMinutes * 60000);
+          if (now < endTime) continue;
+
+          await this.attendanceService.autoEndBreak(
+            openBreak.id,
+            endTime,
+            `Break automatically ended after ${policy.autoEndBreakMinutes} minutes`,
+          );
+
+          await this.notifications.sendToUser(day.userId, {
+            type: NotificationType.System,
+            title: 'Break Ended Automatically',
+            body: `Your break was ended after ${policy.autoEndBreakMinutes} minutes. Request a correction if you returned at a different time.`,
+            data: { attendanceDayId: day.id, breakId: openBreak.id },
+            actionUrl: '/attendance',
+          });
+        }
+      }
+    }
+  }
+}
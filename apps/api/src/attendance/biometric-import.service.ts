@@ -0,0 +1,301 @@
+/**
+ * Biometric Import Service
+ *
+ * Imports punch logs exported from fingerprint time clocks. Device user IDs
+ * are matched to employee codes, device wall-clock times are read in each
+ * employee's timezone, and punches already recorded (or repeated within a
+ * minute) are skipped, as are punches on days in a closed payroll period.
+ * A dry run returns the same report without writing.
+ */
+
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { AttendanceEventType, PeriodLock, WorkMode } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { AttendanceService } from './attendance.service';
+import { PeriodLocksService, findClosedPeriod } from '../period-locks/period-locks.service';
+import { buildSessions, getOpenSession } from './attendance-sessions';
+import {
+  BIOMETRIC_LOG_FORMATS,
+  BiometricLogFormat,
+  parseBiometricLog,
+} from './biometric-log.parser';
+import { addDays, formatDay, localTimeToUtc, parseDay } from '../common/timezone/timezone.utils';
+
+/** Punches this close to an existing event are treated as the same punch */
+const DUPLICATE_WINDOW_MS = 60 * 1000;
+
+/** A check-out after midnight closes the previous day's session if it opened within this window */
+const MAX_SESSION_MS = 20 * 60 * 60 * 1000;
+
+export type BiometricImportResult = 'Import' | 'Duplicate' | 'UnknownEmployee' | 'Skipped' | 'Invalid';
+
+export interface BiometricImportRow {
+  line: number;
+  result: BiometricImportResult;
+  reason?: string;
+  raw?: string;
+  employeeCode?: string;
+  userId?: string;
+  employeeName?: string;
+  /** Attendance day the punch is booked on (YYYY-MM-DD) */
+  date?: string;
+  timestamp?: Date;
+  type?: AttendanceEventType;
+  /** True when the device gave no direction and it was inferred from the day's events */
+  typeInferred?: boolean;
+}
+
+interface TimelineEvent {
+  type: AttendanceEventType;
+  timestamp: Date;
+  workMode: WorkMode;
+  /** Set on punches from this import */
+  notes?: string;
+}
+
+@Injectable()
+export class BiometricImportService {
+  constructor(
+    private prisma: PrismaService,
+    private timezoneService: TimezoneService,
+    private attendanceService: AttendanceService,
+    private periodLocksService: PeriodLocksService,
+  ) {}
+
+  /**
+   * Preview (dry run) or import a time clock export
+   */
+  async importLog(
+    companyId: string,
+    actorId: string,
+    content: string,
+    options: { format?: string; dryRun: boolean; fileName?: string },
+  ) {
+    if (options.format && !BIOMETRIC_LOG_FORMATS.includes(options.format as BiometricLogFormat)) {
+      throw new BadRequestException(`Format must be one of: ${BIOMETRIC_LOG_FORMATS.join(', ')}`);
+    }
+
+    const parsed = parseBiometricLog(content, options.format as BiometricLogFormat | undefined);
+    if (parsed.punches.length === 0 && parsed.rejected.length === 0) {
+      throw new BadRequestException('The file contains no punches');
+    }
+
+    const rows: BiometricImportRow[] = parsed.rejected.map((r) => ({
+      line: r.line,
+      result: 'Invalid',
+      reason: r.reason,
+      raw: r.raw,
+    }));
+
+    // Match device user IDs to employee codes
+    const profiles = await this.prisma.employeeProfile.findMany({
+      where: { user: { companyId } },
+      select: { userId: true, employeeCode: true, firstName: true, lastName: true },
+    });
+    const profilesByCode = new Map(profiles.map((p) => [normalizeCode(p.employeeCode), p]));
+
+    const matched = [];
+    for (const punch of parsed.punches) {
+      const profile = profilesByCode.get(normalizeCode(punch.deviceUserId));
+      if (!profile) {
+        rows.push({
+          line: punch.line,
+          result: 'UnknownEmployee',
+          reason: 'No employee with this code',
+          employeeCode: punch.deviceUserId,
+        });
+        continue;
+      }
+      matched.push({ punch, profile });
+    }
+
+    const userIds = [...new Set(matched.map((m) => m.profile.userId))];
+    const timezones = await this.timezoneService.getUserTimezones(userIds);
+
+    const punches = matched
+      .map(({ punch, profile }) => {
+        const day = parseDay(punch.date);
+        const timeZone = timezones.get(profile.userId)!;
+        const timestamp = new Date(
+          localTimeToUtc(day, Math.floor(punch.secondsOfDay / 60), timeZone).getTime() +
+            (punch.secondsOfDay % 60) * 1000,
+        );
+        return { punch, profile, day, timestamp };
+      })
+      .sort(
+        (a, b) =>
+          a.profile.userId.localeCompare(b.profile.userId) ||
+          a.timestamp.getTime() - b.timestamp.getTime(),
+      );
+
+    // Existing events, including the day before the earliest punch for overnight sessions
+    const timelines = new Map<string, Map<string, TimelineEvent[]>>();
+    let closedPeriods: PeriodLock[] = [];
+    if (punches.length > 0) {
+      const days = punches.map((p) => p.day.getTime());
+      const firstDay = addDays(new Date(Math.min(...days)), -1);
+      const lastDay = new Date(Math.max(...days));
+      const existingDays = await this.prisma.attendanceDay.findMany({
+        where: {
+          userId: { in: userIds },
+          date: { gte: firstDay, lte: lastDay },
+        },
+        include: { events: true },
+      });
+      closedPeriods = await this.periodLocksService.getClosedPeriods(companyId, firstDay, lastDay);
+
+      for (const day of existingDays) {
+        getDayEvents(timelines, day.userId, formatDay(day.date)).push(
+          ...day.events.map((e) => ({ type: e.type, timestamp: e.timestamp, workMode: e.workMode })),
+        );
+      }
+    }
+
+    const now = new Date();
+    const toImport = new Map<string, { userId: string; date: Date; events: TimelineEvent[] }>();
+
+    for (const { punch, profile, day, timestamp } of punches) {
+      const row: BiometricImportRow = {
+        line: punch.line,
+        result: 'Import',
+        employeeCode: punch.deviceUserId,
+        userId: profile.userId,
+        employeeName: `${profile.firstName} ${profile.lastName}`,
+        date: punch.date,
+        timestamp,
+      };
+      rows.push(row);
+
+      if (timestamp > now) {
+        row.result = 'Invalid';
+        row.reason = 'Punch is in the future';
+        continue;
+      }
+
+      const userDays = timelines.get(profile.userId);
+      const allEvents = userDays ? [...userDays.values()].flat() : [];
+      if (allEvents.some((e) => Math.abs(e.timestamp.getTime() - timestamp.getTime()) < DUPLICATE_WINDOW_MS)) {
+        row.result = 'Duplicate';
+        row.reason = 'Already recorded';
+        continue;
+      }
+
+      // Book the punch on its own day, or close an overnight session from the day before
+      let dayKey = punch.date;
+      let open = getOpenSessionBefore(getDayEvents(timelines, profile.userId, dayKey), timestamp);
+      if (!open && punch.type !== AttendanceEventType.CheckIn) {
+        const previousKey = formatDay(addDays(day, -1));
+        const previousOpen = getOpenSessionBefore(getDayEvents(timelines, profile.userId, previousKey), timestamp);
+        if (previousOpen && timestamp.getTime() - previousOpen.checkIn.timestamp.getTime() <= MAX_SESSION_MS) {
+          dayKey = previousKey;
+          open = previousOpen;
+        }
+      }
+
+      const type = punch.type ?? (open ? AttendanceEventType.CheckOut : AttendanceEventType.CheckIn);
+      row.type = type;
+      row.typeInferred = !punch.type;
+      row.date = dayKey;
+
+      if (findClosedPeriod(closedPeriods, parseDay(dayKey))) {
+        row.result = 'Skipped';
+        row.reason = 'Day is in a closed payroll period';
+        continue;
+      }
+
+      if (type === AttendanceEventType.CheckOut && !open) {
+        row.result = 'Skipped';
+        row.reason = 'Check-out without a matching check-in';
+        continue;
+      }
+      if (type === AttendanceEventType.CheckIn && open) {
+        row.result = 'Skipped';
+        row.reason = 'Already checked in';
+        continue;
+      }
+
+      const event: TimelineEvent = {
+        type,
+        timestamp,
+        workMode: WorkMode.Office,
+        notes: punch.deviceId ? `Imported from time clock ${punch.deviceId}` : 'Imported from time clock',
+      };
+      getDayEvents(timelines, profile.userId, dayKey).push(event);
+
+      const key = `${profile.userId}|${dayKey}`;
+      if (!toImport.has(key)) {
+        toImport.set(key, { userId: profile.userId, date: parseDay(dayKey), events: [] });
+      }
+      toImport.get(key)!.events.push(event);
+    }
+
+    rows.sort((a, b) => a.line - b.line);
+
+    const count = (result: BiometricImportResult) => rows.filter((r) => r.result === result).length;
+    const summary = {
+      totalLines: rows.length,
+      toImport: count('Import'),
+      duplicates: count('Duplicate'),
+      unknownEmployees: count('UnknownEmployee'),
+      skipped: count('Skipped'),
+      invalid: count('Invalid'),
+      attendanceDays: toImport.size,
+    };
+
+    if (!options.dryRun && toImport.size > 0) {
+      for (const { userId, date, events } of toImport.values()) {
+        await this.attendanceService.recordImportedEvents(
+          userId,
+          date,
+          events.map((e) => ({ type: e.type, timestamp: e.timestamp, notes: e.notes! })),
+        );
+      }
+
+      // Create audit log
+      await this.prisma.auditLog.create({
+        data: {
+          actorId,
+          action: 'AttendanceImported',
+          entityType: 'AttendanceImport',
+          entityId: companyId,
+          after: { format: parsed.format, fileName: options.fileName, ...summary },
+        },
+      });
+    }
+
+    return {
+      format: parsed.format,
+      dryRun: options.dryRun,
+      summary,
+      unknownEmployeeCodes: [
+        ...new Set(rows.filter((r) => r.result === 'UnknownEmployee').map((r) => r.employeeCode!)),
+      ],
+      rows,
+    };
+  }
+}
+
+/**
+ * Compare codes case-insensitively, ignoring the zero padding devices add to numeric IDs
+ */
+function normalizeCode(code: string): string {
+  const trimmed = code.trim().toUpperCase();
+  return /^\d+$/.test(trimmed) ? trimmed.replace(/^0+(?=\d)/, '') : trimmed;
+}
+
+function getDayEvents(
+  timelines: Map<string, Map<string, TimelineEvent[]>>,
+  userId: string,
+  dayKey: string,
+): TimelineEvent[] {
+  if (!timelines.has(userId)) timelines.set(userId, new Map());
+  const userDays = timelines.get(userId)!;
+  if (!userDays.has(dayKey)) userDays.set(dayKey, []);
+  return userDays.get(dayKey)!;
+}
+
+function getOpenSessionBefore(events: TimelineEvent[], timestamp: Date) {
+  return getOpenSession(buildSessions(events.filter((e) => e.timestamp < timestamp)));
+}
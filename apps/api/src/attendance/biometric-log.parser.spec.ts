@@ -0,0 +1,119 @@
+import { AttendanceEventType } from '@prisma/client';
+
+import { detectBiometricLogFormat, parseBiometricLog } from './biometric-log.parser';
+
+describe('parseBiometricLog', () => {
+  describe('csv', () => {
+    it('reads a timestamp column with direction and device', () => {
+      const result = parseBiometricLog(
+        [
+          'Employee Code,Timestamp,Direction,Device',
+          'E001,2026-10-19 08:59:30,In,GATE-1',
+          'E001,2026-10-19 18:02,Out,GATE-1',
+        ].join('\n'),
+      );
+
+      expect(result.format).toBe('csv');
+      expect(result.rejected).toEqual([]);
+      expect(result.punches).toEqual([
+        {
+          line: 2,
+          deviceUserId: 'E001',
+          date: '2026-10-19',
+          secondsOfDay: 8 * 3600 + 59 * 60 + 30,
+          type: AttendanceEventType.CheckIn,
+          deviceId: 'GATE-1',
+        },
+        {
+          line: 3,
+          deviceUserId: 'E001',
+          date: '2026-10-19',
+          secondsOfDay: 18 * 3600 + 2 * 60,
+          type: AttendanceEventType.CheckOut,
+          deviceId: 'GATE-1',
+        },
+      ]);
+    });
+
+    it('combines separate date and time columns, including day-first dates', () => {
+      const result = parseBiometricLog('\uFEFFEmpCode,Date,Time\r\n"E002",19/10/2026,09:15\r\n');
+
+      expect(result.punches).toEqual([
+        {
+          line: 2,
+          deviceUserId: 'E002',
+          date: '2026-10-19',
+          secondsOfDay: 9 * 3600 + 15 * 60,
+          type: undefined,
+          deviceId: undefined,
+        },
+      ]);
+    });
+
+    it('rejects a header without an employee code column', () => {
+      const result = parseBiometricLog('Name,Timestamp\nAsha,2026-10-19 09:00', 'csv');
+
+      expect(result.punches).toEqual([]);
+      expect(result.rejected).toHaveLength(1);
+      expect(result.rejected[0].line).toBe(1);
+    });
+
+    it('reports rows with a missing code or an invalid date', () => {
+      const result = parseBiometricLog(
+        ['EmpCode,Timestamp', ',2026-10-19 09:00', 'E001,2026-02-30 09:00', 'E001,2026-10-19 25:00'].join('\n'),
+      );
+
+      expect(result.punches).toEqual([]);
+      expect(result.rejected.map((r) => [r.line, r.reason])).toEqual([
+        [2, 'Missing employee code'],
+        [3, 'Unrecognized date or time'],
+        [4, 'Unrecognized date or time'],
+      ]);
+    });
+  });
+
+  describe('zkteco', () => {
+    it('maps punch states to directions and rejects break punches', () => {
+      const result = parseBiometricLog(
+        [
+          '  101\t2026-10-19 08:55:00\t0\t1\t0\t0',
+          '  101\t2026-10-19 13:00:00\t2\t1\t0\t0',
+          '  101\t2026-10-19 17:30:00\t1\t1\t0\t0',
+        ].join('\n'),
+      );
+
+      expect(result.format).toBe('zkteco');
+      expect(result.punches.map((p) => [p.deviceUserId, p.secondsOfDay, p.type])).toEqual([
+        ['101', 8 * 3600 + 55 * 60, AttendanceEventType.CheckIn],
+        ['101', 17 * 3600 + 30 * 60, AttendanceEventType.CheckOut],
+      ]);
+      expect(result.rejected).toEqual([
+        { line: 2, raw: '  101\t2026-10-19 13:00:00\t2\t1\t0\t0', reason: 'Break punches are not imported' },
+      ]);
+    });
+  });
+
+  describe('essl', () => {
+    it('skips a header row and reads space or comma separated punches', () => {
+      const result = parseBiometricLog(
+        ['EmpCode Date Time Direction', '2001 2026/10/19 09:01 IN', '2001,2026/10/19,18:10,OUT,DEV7'].join('\n'),
+      );
+
+      expect(result.format).toBe('essl');
+      expect(result.rejected).toEqual([]);
+      expect(result.punches.map((p) => [p.line, p.date, p.type, p.deviceId])).toEqual([
+        [2, '2026-10-19', AttendanceEventType.CheckIn, undefined],
+        [3, '2026-10-19', AttendanceEventType.CheckOut, 'DEV7'],
+      ]);
+    });
+  });
+});
+
+describe('detectBiometricLogFormat', () => {
+  it('detects each supported format from the first non-empty line', () => {
+    expect(detectBiometricLogFormat(['', '1\t2026-10-19 09:00:00\t0'])).toBe('zkteco');
+    expect(detectBiometricLogFormat(['EmpCode,Timestamp'])).toBe('csv');
+    expect(detectBiometricLogFormat(['1001,2026-10-19,09:00'])).toBe('essl');
+    expect(detectBiometricLogFormat(['1001 19-10-2026 09:00'])).toBe('essl');
+  });
+});
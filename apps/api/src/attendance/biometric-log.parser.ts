@@ -0,0 +1,270 @@
+/**
+ * Biometric Log Parser
+ *
+ * Reads punch exports from fingerprint time clocks into a common shape.
+ * Supported formats:
+ * - csv: a header row naming the employee code, the punch time (or separate
+ *   date and time columns) and optionally the direction and device
+ * - zkteco: attlog.dat lines `PIN<TAB>YYYY-MM-DD HH:mm:ss<TAB>state<TAB>...`
+ * - essl: text exports with `code date time [direction] [device]` per line,
+ *   separated by spaces, tabs or commas
+ *
+ * Times are device wall-clock times; converting them to instants is left to
+ * the caller, which knows each employee's timezone.
+ */
+
+import { AttendanceEventType } from '@prisma/client';
+
+export type BiometricLogFormat = 'csv' | 'zkteco' | 'essl';
+
+export const BIOMETRIC_LOG_FORMATS: BiometricLogFormat[] = ['csv', 'zkteco', 'essl'];
+
+export interface ParsedPunch {
+  /** 1-based line number in the uploaded file */
+  line: number;
+  deviceUserId: string;
+  /** Local date as YYYY-MM-DD */
+  date: string;
+  /** Local seconds since midnight */
+  secondsOfDay: number;
+  /** Direction reported by the device; undefined when it has to be inferred */
+  type?: AttendanceEventType;
+  deviceId?: string;
+}
+
+export interface RejectedLine {
+  line: number;
+  raw: string;
+  reason: string;
+}
+
+export interface ParsedBiometricLog {
+  format: BiometricLogFormat;
+  punches: ParsedPunch[];
+  rejected: RejectedLine[];
+}
+
+const CSV_COLUMNS = {
+  code: ['employeecode', 'empcode', 'employeeid', 'userid', 'pin', 'acno', 'enrollnumber', 'enrollno'],
+  timestamp: ['timestamp', 'datetime', 'punchtime', 'logtime', 'checktime'],
+  date: ['date', 'punchdate', 'logdate'],
+  time: ['time'],
+  direction: ['type', 'direction', 'status', 'state', 'inout', 'punchstate'],
+  device: ['device', 'deviceid', 'terminal', 'terminalid', 'serialno', 'sn'],
+};
+
+/** ZKTeco punch states: 0 check-in, 1 check-out, 2 break out, 3 break in, 4 OT in, 5 OT out */
+const ZKTECO_STATES: Record<string, AttendanceEventType | 'break'> = {
+  '0': AttendanceEventType.CheckIn,
+  '1': AttendanceEventType.CheckOut,
+  '2': 'break',
+  '3': 'break',
+  '4': AttendanceEventType.CheckIn,
+  '5': AttendanceEventType.CheckOut,
+};
+
+const DIRECTION_TOKENS: Record<string, AttendanceEventType | 'break'> = {
+  in: AttendanceEventType.CheckIn,
+  i: AttendanceEventType.CheckIn,
+  checkin: AttendanceEventType.CheckIn,
+  cin: AttendanceEventType.CheckIn,
+  clockin: AttendanceEventType.CheckIn,
+  dutyon: AttendanceEventType.CheckIn,
+  out: AttendanceEventType.CheckOut,
+  o: AttendanceEventType.CheckOut,
+  checkout: AttendanceEventType.CheckOut,
+  cout: AttendanceEventType.CheckOut,
+  clockout: AttendanceEventType.CheckOut,
+  dutyoff: AttendanceEventType.CheckOut,
+  breakin: 'break',
+  breakout: 'break',
+  ...ZKTECO_STATES,
+};
+
+/**
+ * Parse a time clock export, detecting the format when not given
+ */
+export function parseBiometricLog(content: string, format?: BiometricLogFormat): ParsedBiometricLog {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const resolved = format ?? detectBiometricLogFormat(lines);
+
+  const result: ParsedBiometricLog = { format: resolved, punches: [], rejected: [] };
+
+  if (resolved === 'csv') {
+    parseCsv(lines, result);
+  } else {
+    parseDelimited(lines, resolved, result);
+  }
+
+  return result;
+}
+
+/**
+ * Guess the format from the first non-empty line
+ */
+export function detectBiometricLogFormat(lines: string[]): BiometricLogFormat {
+  const first = lines.find((l) => l.trim().length > 0) ?? '';
+  const fields = first.trim().split('\t');
+
+  if (fields.length >= 2 && parseDateTime(fields[1].trim())) {
+    return 'zkteco';
+  }
+  if (first.includes(',') && /[a-z]/i.test(first) && !splitDelimited(first).some((f) => parseDate(f))) {
+    return 'csv';
+  }
+  return 'essl';
+}
+
+function parseCsv(lines: string[], result: ParsedBiometricLog) {
+  const headerIndex = lines.findIndex((l) => l.trim().length > 0);
+  if (headerIndex === -1) return;
+
+  const header = splitCsvLine(lines[headerIndex]).map((h) => h.toLowerCase().replace(/[\s\-_]/g, ''));
+  const find = (names: string[]) => header.findIndex((h) => names.includes(h));
+
+  const columns = {
+    code: find(CSV_COLUMNS.code),
+    timestamp: find(CSV_COLUMNS.timestamp),
+    date: find(CSV_COLUMNS.date),
+    time: find(CSV_COLUMNS.time),
+    direction: find(CSV_COLUMNS.direction),
+    device: find(CSV_COLUMNS.device),
+  };
+
+  if (columns.code === -1 || (columns.timestamp === -1 && (columns.date === -1 || columns.time === -1))) {
+    result.rejected.push({
+      line: headerIndex + 1,
+      raw: lines[headerIndex],
+      reason: 'Header must name an employee code column and a timestamp (or date and time) column',
+    });
+    return;
+  }
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const raw = lines[i];
+    if (!raw.trim()) continue;
+
+    const fields = splitCsvLine(raw);
+    const value = (index: number) => (index === -1 ? undefined : fields[index]?.trim() || undefined);
+
+    const dateTime =
+      columns.timestamp !== -1
+        ? parseDateTime(value(columns.timestamp) ?? '')
+        : parseDateTime(`${value(columns.date) ?? ''} ${value(columns.time) ?? ''}`);
+
+    addPunch(result, i + 1, raw, value(columns.code), dateTime, value(columns.direction), value(columns.device));
+  }
+}
+
+function parseDelimited(lines: string[], format: BiometricLogFormat, result: ParsedBiometricLog) {
+  const firstLine = lines.findIndex((l) => l.trim().length > 0);
+
+  lines.forEach((raw, i) => {
+    if (!raw.trim()) return;
+
+    if (format === 'zkteco') {
+      const fields = raw.trim().split('\t').map((f) => f.trim());
+      addPunch(result, i + 1, raw, fields[0], parseDateTime(fields[1] ?? ''), fields[2], undefined);
+      return;
+    }
+
+    // eSSL: code, date, time, then optional direction and device
+    const fields = splitDelimited(raw);
+    const dateTime = parseDateTime(`${fields[1] ?? ''} ${fields[2] ?? ''}`);
+
+    // Skip a header row instead of reporting it
+    if (!dateTime && i === firstLine) return;
+
+    addPunch(result, i + 1, raw, fields[0], dateTime, fields[3], fields[4]);
+  });
+}
+
+function addPunch(
+  result: ParsedBiometricLog,
+  line: number,
+  raw: string,
+  code: string | undefined,
+  dateTime: { date: string; secondsOfDay: number } | null,
+  direction: string | undefined,
+  deviceId: string | undefined,
+) {
+  if (!code) {
+    result.rejected.push({ line, raw, reason: 'Missing employee code' });
+    return;
+  }
+  if (!dateTime) {
+    result.rejected.push({ line, raw, reason: 'Unrecognized date or time' });
+    return;
+  }
+
+  const type = direction ? DIRECTION_TOKENS[direction.toLowerCase().replace(/[\s\-_/]/g, '')] : undefined;
+  if (type === 'break') {
+    result.rejected.push({ line, raw, reason: 'Break punches are not imported' });
+    return;
+  }
+
+  result.punches.push({ line, deviceUserId: code, ...dateTime, type, deviceId });
+}
+
+/**
+ * Parse `date time` where date is YYYY-MM-DD, YYYY/MM/DD, DD/MM/YYYY or DD-MM-YYYY
+ * and time is HH:mm or HH:mm:ss
+ */
+function parseDateTime(value: string): { date: string; secondsOfDay: number } | null {
+  const match = value.trim().match(/^(\S+)[ T](\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  const date = parseDate(match[1]);
+  const [hours, minutes, seconds] = [Number(match[2]), Number(match[3]), Number(match[4] ?? 0)];
+  if (!date || hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  return { date, secondsOfDay: hours * 3600 + minutes * 60 + seconds };
+}
+
+function parseDate(value: string): string | null {
+  const isoMatch = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  const dayFirstMatch = value.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+
+  let year: string, month: string, day: string;
+  if (isoMatch) {
+    [, year, month, day] = isoMatch;
+  } else if (dayFirstMatch) {
+    [, day, month, year] = dayFirstMatch;
+  } else {
+    return null;
+  }
+
+  const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = new Date(`${iso}T00:00:00.000Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(iso) ? iso : null;
+}
+
+function splitDelimited(line: string): string[] {
+  return line.trim().split(/[\s,]+/).filter(Boolean);
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields.map((f) => f.trim());
+}
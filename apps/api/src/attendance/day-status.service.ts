@@ -0,0 +1,391 @@
+/**
+ * Day Status Service
+ *
+ * Accounts for every employee day as Present, On Leave, Holiday, Weekend
+ * or Absent. An hourly job snapshots each employee's previous local day
+ * once it has ended in their timezone and notifies managers about
+ * unexplained absences; the month calendar combines those snapshots with
+ * live data so later regularizations and leave approvals are reflected.
+ */
+
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AttendanceEventType, DayStatus, NotificationType, UserRole } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { WorkSchedulesService } from '../work-schedules/work-schedules.service';
+import { getScheduledDay } from '../work-schedules/work-schedule.utils';
+import {
+  addDays,
+  formatDay,
+  formatDayLabel,
+  parseDay,
+  toLocalDay,
+  uniqueDays,
+} from '../common/timezone/timezone.utils';
+
+export interface DayStatusEntry {
+  date: Date;
+  /** Null before the employee joined, and for today/future days not yet decided */
+  status: DayStatus | null;
+  workMinutes: number;
+  holidayId?: string;
+  holidayName?: string;
+  leaveRequestId?: string;
+  leaveTypeName?: string;
+}
+
+interface CalendarViewer {
+  id: string;
+  role: UserRole;
+  companyId: string;
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+@Injectable()
+export class DayStatusService {
+  private readonly logger = new Logger(DayStatusService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+    private timezoneService: TimezoneService,
+    private workSchedulesService: WorkSchedulesService,
+  ) {}
+
+  /**
+   * Hourly job - marks each employee's previous local day once it has ended
+   * Running hourly lets every timezone be marked shortly after its midnight.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async markCompletedDays() {
+    const companies = await this.prisma.company.findMany({ select: { id: true } });
+
+    for (const company of companies) {
+      try {
+        const marked = await this.markCompletedDaysForCompany(company.id);
+        if (marked > 0) {
+          this.logger.log(`Marked ${marked} day status(es) for company ${company.id}`);
+        }
+      } catch (error) {
+        this.logger.error(`Failed to mark day statuses for company ${company.id}`, error);
+      }
+    }
+  }
+
+  /**
+   * Mark the previous local day for every active employee of a company
+   * Employees whose day is already marked are skipped, so reruns are safe.
+   */
+  async markCompletedDaysForCompany(companyId: string, now = new Date()): Promise<number> {
+    const users = await this.prisma.user.findMany({
+      where: { companyId, isActive: true },
+      select: { id: true },
+    });
+    if (users.length === 0) return 0;
+
+    const timezones = await this.timezoneService.getUserTimezones(users.map((u) => u.id));
+    const targets = new Map(
+      users.map((u) => [u.id, addDays(toLocalDay(now, timezones.get(u.id)!), -1)]),
+    );
+
+    const existing = await this.prisma.dailyAttendanceStatus.findMany({
+      where: {
+        userId: { in: users.map((u) => u.id) },
+        date: { in: uniqueDays(targets.values()) },
+      },
+      select: { userId: true, date: true },
+    });
+    const marked = new Set(existing.map((s) => `${s.userId}:${formatDay(s.date)}`));
+
+    // Group pending employees by target day (one or two days, depending on timezones)
+    const pendingByDay = new Map<string, string[]>();
+    for (const [userId, day] of targets) {
+      const key = formatDay(day);
+      if (marked.has(`${userId}:${key}`)) continue;
+      pendingByDay.set(key, [...(pendingByDay.get(key) ?? []), userId]);
+    }
+
+    let created = 0;
+    const absences: Array<{ userId: string; date: Date }> = [];
+
+    for (const [key, userIds] of pendingByDay) {
+      const day = parseDay(key);
+      const statuses = await this.evaluateDays(companyId, userIds, day, day);
+
+      const rows = userIds
+        .map((userId) => ({ userId, entry: statuses.get(userId)?.[0] }))
+        .filter(({ entry }) => entry?.status);
+
+      const result = await this.prisma.dailyAttendanceStatus.createMany({
+        data: rows.map(({ userId, entry }) => ({
+          userId,
+          companyId,
+          date: day,
+          status: entry!.status!,
+          leaveRequestId: entry!.leaveRequestId,
+          holidayId: entry!.holidayId,
+        })),
+        skipDuplicates: true,
+      });
+      created += result.count;
+
+      absences.push(
+        ...rows
+          .filter(({ entry }) => entry!.status === DayStatus.Absent)
+          .map(({ userId }) => ({ userId, date: day })),
+      );
+    }
+
+    if (absences.length > 0) {
+      await this.notifyAbsences(companyId, absences);
+    }
+
+    return created;
+  }
+
+  /**
+   * Get an employee's month calendar (`YYYY-MM`, defaults to the current local month)
+   */
+  async getMonthCalendar(viewer: CalendarViewer, userId: string, month?: string) {
+    await this.assertCanView(viewer, userId);
+
+    const timeZone = await this.timezoneService.getUserTimezone(userId);
+    const today = toLocalDay(new Date(), timeZone);
+
+    if (month && !MONTH_PATTERN.test(month)) {
+      throw new BadRequestException('month must be in YYYY-MM format');
+    }
+    const [year, monthIndex] = (month ?? formatDay(today).slice(0, 7)).split('-').map(Number);
+    const start = new Date(Date.UTC(year, monthIndex - 1, 1));
+    const end = new Date(Date.UTC(year, monthIndex, 0));
+
+    const [live, stored] = await Promise.all([
+      this.evaluateDays(viewer.companyId, [userId], start, end),
+      this.prisma.dailyAttendanceStatus.findMany({
+        where: { userId, date: { gte: start, lte: end } },
+      }),
+    ]);
+    const storedByDay = new Map(stored.map((s) => [formatDay(s.date), s.status]));
+
+    const days = (live.get(userId) ?? []).map((entry) => {
+      let status = entry.status;
+      const snapshot = storedByDay.get(formatDay(entry.date));
+
+      // Keep the nightly snapshot, except where attendance, leave or a
+      // regularization has since explained an absence
+      if (snapshot && snapshot !== DayStatus.Absent && status !== DayStatus.Present) {
+        status = snapshot;
+      }
+
+      // A working day is only absent once it is over
+      if (status === DayStatus.Absent && entry.date >= today) {
+        status = null;
+      }
+
+      return {
+        date: formatDay(entry.date),
+        status,
+        workMinutes: entry.workMinutes,
+        holidayName: status === DayStatus.Holiday ? entry.holidayName : undefined,
+        leaveTypeName: status === DayStatus.OnLeave ? entry.leaveTypeName : undefined,
+      };
+    });
+
+    const summary = {
+      present: days.filter((d) => d.status === DayStatus.Present).length,
+      onLeave: days.filter((d) => d.status === DayStatus.OnLeave).length,
+      holiday: days.filter((d) => d.status === DayStatus.Holiday).length,
+      weekend: days.filter((d) => d.status === DayStatus.Weekend).length,
+      absent: days.filter((d) => d.status === DayStatus.Absent).length,
+    };
+
+    return {
+      userId,
+      month: formatDay(start).slice(0, 7),
+      timezone: timeZone,
+      today: formatDay(today),
+      days,
+      summary,
+    };
+  }
+
+  /**
+   * Work out the status of each day in a range for employees of one company
+   * Precedence: Present (any check-in), Holiday, Weekend (non-working day in
+   * the employee's schedule), On Leave (approved leave), otherwise Absent.
+   */
+  async evaluateDays(
+    companyId: string,
+    userIds: string[],
+    start: Date,
+    end: Date,
+  ): Promise<Map<string, DayStatusEntry[]>> {
+    const [profiles, attendanceDays, leaves, holidays, schedules] = await Promise.all([
+      this.prisma.employeeProfile.findMany({
+        where: { userId: { in: userIds } },
+        select: { userId: true, joinDate: true },
+      }),
+      this.prisma.attendanceDay.findMany({
+        where: { userId: { in: userIds }, date: { gte: start, lte: end } },
+        include: {
+          events: { where: { type: AttendanceEventType.CheckIn }, select: { id: true }, take: 1 },
+        },
+      }),
+      this.prisma.leaveRequest.findMany({
+        where: {
+          userId: { in: userIds },
+          status: 'Approved',
+          startDate: { lte: end },
+          endDate: { gte: start },
+        },
+        include: { leaveType: { select: { name: true } } },
+      }),
+      this.prisma.holiday.findMany({
+        where: { companyId, isOptional: false, date: { gte: start, lte: end } },
+      }),
+      this.workSchedulesService.resolveForUsers(userIds),
+    ]);
+
+    const joinDays = new Map(profiles.map((p) => [p.userId, parseDay(p.joinDate)]));
+    const holidaysByDay = new Map(holidays.map((h) => [formatDay(h.date), h]));
+    const attendanceByKey = new Map(
+      attendanceDays.map((d) => [`${d.userId}:${formatDay(d.date)}`, d]),
+    );
+
+    const result = new Map<string, DayStatusEntry[]>();
+
+    for (const userId of userIds) {
+      const entries: DayStatusEntry[] = [];
+      const joinDay = joinDays.get(userId);
+      const schedule = schedules.get(userId)!;
+      const userLeaves = leaves.filter((l) => l.userId === userId);
+
+      for (let day = start; day <= end; day = addDays(day, 1)) {
+        const key = formatDay(day);
+        const attendance = attendanceByKey.get(`${userId}:${key}`);
+        const entry: DayStatusEntry = {
+          date: day,
+          status: null,
+          workMinutes: attendance?.totalWorkMinutes ?? 0,
+        };
+        entries.push(entry);
+
+        if (joinDay && day < joinDay) continue;
+
+        const holiday = holidaysByDay.get(key);
+        const leave = userLeaves.find((l) => l.startDate <= day && l.endDate >= day);
+
+        if (attendance && attendance.events.length > 0) {
+          entry.status = DayStatus.Present;
+        } else if (holiday) {
+          entry.status = DayStatus.Holiday;
+          entry.holidayId = holiday.id;
+          entry.holidayName = holiday.name;
+        } else if (!getScheduledDay(schedule, day).isWorkingDay) {
+          entry.status = DayStatus.Weekend;
+        } else if (leave) {
+          entry.status = DayStatus.OnLeave;
+          entry.leaveRequestId = leave.id;
+          entry.leaveTypeName = leave.leaveType.name;
+        } else {
+          entry.status = DayStatus.Absent;
+        }
+      }
+
+      result.set(userId, entries);
+    }
+
+    return result;
+  }
+
+  /**
+   * Employees see their own calendar, managers their direct reports, HR/Admin anyone
+   */
+  private async assertCanView(viewer: CalendarViewer, userId: string) {
+    const target = await this.prisma.user.findFirst({
+      where: { id: userId, companyId: viewer.companyId },
+      include: { profile: { select: { managerId: true } } },
+    });
+
+    if (!target) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (
+      viewer.id === userId ||
+      viewer.role === UserRole.HR ||
+      viewer.role === UserRole.SuperAdmin
+    ) {
+      return;
+    }
+
+    if (viewer.role === UserRole.Manager && target.profile?.managerId === viewer.id) {
+      return;
+    }
+
+    throw new ForbiddenException('You can only view calendars of your direct reports');
+  }
+
+  /**
+   * Tell each manager (or HR, when no manager is assigned) who was absent
+   */
+  private async notifyAbsences(companyId: string, absences: Array<{ userId: string; date: Date }>) {
+    const profiles = await this.prisma.employeeProfile.findMany({
+      where: { userId: { in: absences.map((a) => a.userId) } },
+      select: { userId: true, firstName: true, lastName: true, managerId: true },
+    });
+    const profileByUser = new Map(profiles.map((p) => [p.userId, p]));
+
+    let hrIds: string[] | null = null;
+    const byReviewer = new Map<string, { reviewerIds: string[]; date: Date; names: string[] }>();
+
+    for (const absence of absences) {
+      const profile = profileByUser.get(absence.userId);
+
+      let reviewerIds: string[];
+      if (profile?.managerId) {
+        reviewerIds = [profile.managerId];
+      } else {
+        hrIds ??= (
+          await this.prisma.user.findMany({
+            where: { companyId, role: UserRole.HR, isActive: true },
+            select: { id: true },
+          })
+        ).map((u) => u.id);
+        reviewerIds = hrIds;
+      }
+
+      const key = `${reviewerIds.join(',')}:${formatDay(absence.date)}`;
+      const group = byReviewer.get(key) ?? { reviewerIds, date: absence.date, names: [] };
+      group.names.push(profile ? `${profile.firstName} ${profile.lastName}` : 'An employee');
+      byReviewer.set(key, group);
+    }
+
+    for (const { reviewerIds, date, names } of byReviewer.values()) {
+      if (reviewerIds.length === 0) continue;
+
+      const body =
+        names.length === 1
+          ? `${names[0]} has no check-in or approved leave for ${formatDayLabel(date)}`
+          : `${names.length} team members have no check-in or approved leave for ${formatDayLabel(date)}: ${names.join(', ')}`;
+
+      await this.notifications.sendToUsers(reviewerIds, {
+        type: NotificationType.System,
+        title: 'Unexplained Absence',
+        body,
+        data: { date: formatDay(date) },
+        actionUrl: '/attendance',
+      });
+    }
+  }
+}
@@ -10,6 +10,7 @@ import {
   BreakType,
   AttendanceEventType,
   VerificationStatus,
+  LocationIntegrityVerdict,
 } from '@prisma/client';
 
 /**
@@ -42,6 +43,12 @@ export class AttendanceEventDto {
 
   @ApiProperty()
   isOverride: boolean;
+
+  @ApiProperty({ description: 'Check-out recorded by auto-checkout at the policy cutoff' })
+  isAutoClosed: boolean;
+
+  @ApiPropertyOptional({ enum: LocationIntegrityVerdict, description: 'GPS integrity verdict for mobile check-ins' })
+  locationIntegrity?: LocationIntegrityVerdict;
 }
 
 /**
@@ -62,6 +69,26 @@ export class BreakSegmentDto {
 
   @ApiPropertyOptional()
   durationMinutes?: number;
+
+  @ApiProperty({ description: 'Break ended automatically rather than by the employee' })
+  isAutoClosed: boolean;
+}
+
+/**
+ * DTO for a check-in/check-out session within the day
+ */
+export class AttendanceSessionDto {
+  @ApiProperty()
+  checkInTime: string;
+
+  @ApiPropertyOptional({ description: 'Absent while the session is still open' })
+  checkOutTime?: string;
+
+  @ApiProperty({ enum: WorkMode })
+  workMode: WorkMode;
+
+  @ApiProperty({ description: 'Session length in minutes (running time if open)' })
+  durationMinutes: number;
 }
 
 /**
@@ -98,6 +125,26 @@ export class WorkPolicyDto {
   standardWorkHours: number;
 }
 
+/**
+ * Work schedule expectations for the day
+ */
+export class ScheduledDayDto {
+  @ApiProperty({ description: 'Work schedule name' })
+  scheduleName: string;
+
+  @ApiProperty({ description: 'Whether the day is a working day in the schedule' })
+  isWorkingDay: boolean;
+
+  @ApiProperty({ description: 'Scheduled start time (HH:mm, local)' })
+  startTime: string;
+
+  @ApiProperty({ description: 'Scheduled end time (HH:mm, local)' })
+  endTime: string;
+
+  @ApiProperty({ description: 'Minutes after start before a check-in counts as late' })
+  graceMinutesLate: number;
+}
+
 /**
  * Complete attendance day response DTO
  */
@@ -114,10 +161,10 @@ export class AttendanceDayResponseDto {
   })
   status: 'not_checked_in' | 'working' | 'on_break' | 'checked_out';
 
-  @ApiPropertyOptional({ description: 'Check-in timestamp' })
+  @ApiPropertyOptional({ description: 'Check-in timestamp of the latest session' })
   checkInTime?: string;
 
-  @ApiPropertyOptional({ description: 'Check-out timestamp' })
+  @ApiPropertyOptional({ description: 'Check-out timestamp of the latest session' })
   checkOutTime?: string;
 
   @ApiPropertyOptional({ enum: WorkMode, description: 'Current work mode' })
@@ -141,14 +188,23 @@ export class AttendanceDayResponseDto {
   @ApiProperty({ description: 'Overtime minutes' })
   overtimeMinutes: number;
 
+  @ApiProperty({ description: 'Overtime minutes covered by approved overtime requests' })
+  approvedOvertimeMinutes: number;
+
   @ApiProperty({ type: [AttendanceEventDto], description: 'All events for the day' })
   events: AttendanceEventDto[];
 
   @ApiProperty({ type: [BreakSegmentDto], description: 'All breaks for the day' })
   breaks: BreakSegmentDto[];
 
+  @ApiProperty({ type: [AttendanceSessionDto], description: 'Check-in/check-out sessions in order' })
+  sessions: AttendanceSessionDto[];
+
   @ApiProperty({ type: WorkPolicyDto, description: 'Work policy limits for UI indicators' })
   policy: WorkPolicyDto;
+
+  @ApiProperty({ type: ScheduledDayDto, description: 'Work schedule for the day' })
+  schedule: ScheduledDayDto;
 }
 
 /**
@@ -2,9 +2,11 @@
  * Check In DTO
  */
 
-import { IsEnum, IsOptional, IsNumber, IsString } from 'class-validator';
+import { IsEnum, IsOptional, IsNumber, IsString, IsUUID, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { WorkMode } from '@prisma/client';
+import { LocationIntegrityDto } from './location-integrity.dto';
 
 export class CheckInDto {
   @ApiProperty({ enum: WorkMode })
@@ -30,4 +32,23 @@ export class CheckInDto {
   @IsOptional()
   @IsString()
   notes?: string;
+
+  @ApiPropertyOptional({ description: 'Token scanned from the office lobby QR code' })
+  @IsOptional()
+  @IsString()
+  qrToken?: string;
+
+  @ApiPropertyOptional({ description: 'Customer site visited, for CustomerSite and FieldVisit check-ins' })
+  @IsOptional()
+  @IsUUID()
+  customerSiteId?: string;
+
+  @ApiPropertyOptional({
+    type: LocationIntegrityDto,
+    description: 'GPS integrity signals from the mobile app, scored to detect spoofed locations',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LocationIntegrityDto)
+  locationIntegrity?: LocationIntegrityDto;
 }
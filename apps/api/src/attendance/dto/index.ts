@@ -7,3 +7,4 @@ export * from './check-out.dto';
 export * from './start-break.dto';
 export * from './override-attendance.dto';
 export * from './attendance-day.dto';
+export * from './recalculate-attendance.dto';
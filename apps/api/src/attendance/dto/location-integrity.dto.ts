@@ -0,0 +1,68 @@
+/**
+ * Location Integrity DTO
+ *
+ * GPS signals the mobile app reports alongside check-in coordinates.
+ */
+
+import { IsBoolean, IsOptional, IsNumber, IsLatitude, IsLongitude, Min, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class PreviousFixDto {
+  @ApiProperty()
+  @IsNumber()
+  @IsLatitude()
+  latitude: number;
+
+  @ApiProperty()
+  @IsNumber()
+  @IsLongitude()
+  longitude: number;
+
+  @ApiProperty({ description: 'Milliseconds between the previous fix and the check-in request' })
+  @IsNumber()
+  @Min(0)
+  ageMs: number;
+}
+
+export class LocationIntegrityDto {
+  @ApiPropertyOptional({ description: 'Fix came from a mock location provider (Android)' })
+  @IsOptional()
+  @IsBoolean()
+  isMocked?: boolean;
+
+  @ApiPropertyOptional({ description: 'Horizontal accuracy radius in meters' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  accuracyMeters?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  altitudeMeters?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  altitudeAccuracyMeters?: number;
+
+  @ApiPropertyOptional({ description: 'Speed reported by the GPS in meters per second' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  speedMps?: number;
+
+  @ApiPropertyOptional({ description: 'Milliseconds between the fix and the check-in request' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  locationAgeMs?: number;
+
+  @ApiPropertyOptional({ type: PreviousFixDto, description: 'The fix the app took before this one' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PreviousFixDto)
+  previousFix?: PreviousFixDto;
+}
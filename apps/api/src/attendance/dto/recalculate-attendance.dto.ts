@@ -0,0 +1,32 @@
+/**
+ * Recalculate Attendance DTO
+ */
+
+import { IsDateString, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RecalculateAttendanceDto {
+  @ApiProperty({ description: 'First day to recalculate (YYYY-MM-DD)', example: '2026-01-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ description: 'Last day to recalculate (YYYY-MM-DD)', example: '2026-01-31' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiPropertyOptional({ description: 'Only this employee' })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: "Only this manager's direct reports" })
+  @IsOptional()
+  @IsUUID()
+  managerId?: string;
+
+  @ApiPropertyOptional({ example: 'Overtime threshold lowered to 7.5 hours' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -2,15 +2,23 @@
  * Geofence Service
  *
  * Handles geofence validation for office check-ins.
- * Calculates distance between coordinates and validates
- * against configured office locations.
+ * Validates coordinates against each office location's zones
+ * (circles or drawn polygons), or its center/radius circle when
+ * the location has no zones.
  */
 
 import { Injectable } from '@nestjs/common';
-import { VerificationStatus, AnomalyType, AnomalyStatus } from '@prisma/client';
-import { Decimal } from '@prisma/client/runtime/library';
+import {
+  VerificationStatus,
+  AnomalyType,
+  AnomalyStatus,
+  GeofenceZone,
+  GeofenceZoneShape,
+  OfficeLocation,
+} from '@prisma/client';
 
 import { PrismaService } from '../prisma/prisma.service';
+import { isWithinArea } from './geofence.utils';
 
 @Injectable()
 export class GeofenceService {
@@ -45,52 +53,37 @@ export class GeofenceService {
     // Get office locations
     const offices = await this.prisma.officeLocation.findMany({
       where: { companyId, isActive: true },
+      include: { zones: true },
     });
 
     if (offices.length === 0) {
       return VerificationStatus.None;
     }
 
-    // Check if within any office radius
-    for (const office of offices) {
-      const distance = this.calculateDistance(
-        latitude,
-        longitude,
-        Number(office.latitude),
-        Number(office.longitude),
-      );
-
-      if (distance <= office.radiusMeters) {
-        return VerificationStatus.GeofencePassed;
-      }
-    }
+    // Check if within any office geofence
+    const insideOffice = offices.some((office) => this.isWithinOffice(office, latitude, longitude));
 
-    return VerificationStatus.GeofenceFailed;
+    return insideOffice ? VerificationStatus.GeofencePassed : VerificationStatus.GeofenceFailed;
   }
 
   /**
-   * Calculate distance between two coordinates using Haversine formula
-   * @returns Distance in meters
+   * Check a point against an office's zones, or its center/radius circle if it has none
    */
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
+  isWithinOffice(
+    office: OfficeLocation & { zones: GeofenceZone[] },
+    latitude: number,
+    longitude: number,
+  ): boolean {
+    if (office.zones.length > 0) {
+      return office.zones.some((zone) => isWithinArea(latitude, longitude, zone));
+    }
+
+    return isWithinArea(latitude, longitude, {
+      shape: GeofenceZoneShape.Circle,
+      latitude: office.latitude,
+      longitude: office.longitude,
+      radiusMeters: office.radiusMeters,
+    });
   }
 
   /**
@@ -99,6 +92,7 @@ export class GeofenceService {
   async getOfficeLocations(companyId: string) {
     return this.prisma.officeLocation.findMany({
       where: { companyId, isActive: true },
+      include: { zones: true },
     });
   }
 
@@ -150,7 +144,7 @@ export class GeofenceService {
             status: AnomalyStatus.Open,
             title: 'Check-in Outside Geofence',
             description:
-              'User attempted Office check-in from location outside configured office radius',
+              'User attempted Office check-in from location outside configured office geofence',
             data: {
               latitude,
               longitude,
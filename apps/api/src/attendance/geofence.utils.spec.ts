@@ -0,0 +1,123 @@
+import { GeofenceZoneShape, Prisma } from '@prisma/client';
+
+import {
+  LatLng,
+  calculateDistance,
+  isPointInPolygon,
+  isWithinArea,
+  parsePolygon,
+  validatePolygon,
+} from './geofence.utils';
+
+/** Roughly 200 m x 200 m around a campus in Bengaluru */
+const CAMPUS: LatLng[] = [
+  [12.9700, 77.5900],
+  [12.9700, 77.5918],
+  [12.9718, 77.5918],
+  [12.9718, 77.5900],
+];
+
+/** L-shaped building: the top-right quadrant is outside */
+const L_SHAPE: LatLng[] = [
+  [0, 0],
+  [0, 2],
+  [1, 2],
+  [1, 1],
+  [2, 1],
+  [2, 0],
+];
+
+describe('geofence utils', () => {
+  describe('calculateDistance', () => {
+    it('is zero for the same point', () => {
+      expect(calculateDistance(12.97, 77.59, 12.97, 77.59)).toBe(0);
+    });
+
+    it('measures one degree of latitude as about 111 km', () => {
+      expect(calculateDistance(0, 0, 1, 0)).toBeCloseTo(111195, -1);
+    });
+  });
+
+  describe('isPointInPolygon', () => {
+    it('finds points inside and outside a rectangle', () => {
+      expect(isPointInPolygon(12.9709, 77.5909, CAMPUS)).toBe(true);
+      expect(isPointInPolygon(12.9725, 77.5909, CAMPUS)).toBe(false);
+    });
+
+    it('handles concave polygons', () => {
+      expect(isPointInPolygon(0.5, 1.5, L_SHAPE)).toBe(true);
+      expect(isPointInPolygon(1.5, 0.5, L_SHAPE)).toBe(true);
+      expect(isPointInPolygon(1.5, 1.5, L_SHAPE)).toBe(false);
+    });
+  });
+
+  describe('isWithinArea', () => {
+    it('checks circles against their radius', () => {
+      const circle = {
+        shape: GeofenceZoneShape.Circle,
+        latitude: new Prisma.Decimal(12.97),
+        longitude: new Prisma.Decimal(77.59),
+        radiusMeters: 100,
+      };
+
+      expect(isWithinArea(12.9705, 77.59, circle)).toBe(true);
+      expect(isWithinArea(12.972, 77.59, circle)).toBe(false);
+    });
+
+    it('treats a circle without a center or radius as outside', () => {
+      expect(isWithinArea(12.97, 77.59, { shape: GeofenceZoneShape.Circle, radiusMeters: 100 })).toBe(false);
+    });
+
+    it('checks polygons from stored JSON', () => {
+      const zone = { shape: GeofenceZoneShape.Polygon, polygon: CAMPUS as Prisma.JsonValue };
+
+      expect(isWithinArea(12.9709, 77.5909, zone)).toBe(true);
+      expect(isWithinArea(12.9690, 77.5909, zone)).toBe(false);
+    });
+
+    it('treats a polygon with too few valid points as outside', () => {
+      const zone = { shape: GeofenceZoneShape.Polygon, polygon: [[0, 0], [0, 1], 'x'] as Prisma.JsonValue };
+
+      expect(isWithinArea(0.1, 0.1, zone)).toBe(false);
+    });
+  });
+
+  describe('parsePolygon', () => {
+    it('drops malformed vertices', () => {
+      expect(parsePolygon([[1, 2], [3], ['4', 5], [6, 7]] as Prisma.JsonValue)).toEqual([
+        [1, 2],
+        [6, 7],
+      ]);
+    });
+
+    it('returns no points for non-array values', () => {
+      expect(parsePolygon(null)).toEqual([]);
+      expect(parsePolygon({ points: [] })).toEqual([]);
+    });
+  });
+
+  describe('validatePolygon', () => {
+    it('accepts simple polygons', () => {
+      expect(validatePolygon(CAMPUS)).toBeNull();
+      expect(validatePolygon(L_SHAPE)).toBeNull();
+    });
+
+    it('rejects too few points', () => {
+      expect(validatePolygon([[0, 0], [0, 1]])).toBe('A polygon needs between 3 and 100 points');
+    });
+
+    it('rejects out-of-range coordinates', () => {
+      expect(validatePolygon([[0, 0], [0, 1], [91, 1]])).toBe(
+        'Polygon points must be [latitude, longitude] pairs',
+      );
+    });
+
+    it('rejects crossing edges', () => {
+      expect(validatePolygon([[0, 0], [1, 1], [0, 1], [1, 0]])).toBe('Polygon edges must not cross each other');
+    });
+
+    it('rejects points on one line', () => {
+      expect(validatePolygon([[0, 0], [1, 1], [2, 2]])).toBe('Polygon points must not all lie on one line');
+    });
+  });
+});
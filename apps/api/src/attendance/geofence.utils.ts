@@ -0,0 +1,171 @@
+/**
+ * Geofence Utilities
+ *
+ * Geometry for office geofences: Haversine distance for circles and a
+ * point-in-polygon test for drawn boundaries. Polygons are small (a campus)
+ * so treating latitude/longitude as planar for the containment test is
+ * accurate enough; they must not cross the antimeridian.
+ */
+
+import { GeofenceZoneShape, Prisma } from '@prisma/client';
+
+/** [latitude, longitude] */
+export type LatLng = [number, number];
+
+export interface GeofenceArea {
+  shape: GeofenceZoneShape;
+  latitude?: number | Prisma.Decimal | null;
+  longitude?: number | Prisma.Decimal | null;
+  radiusMeters?: number | null;
+  polygon?: Prisma.JsonValue | LatLng[] | null;
+}
+
+/** Polygon vertex limits */
+export const MIN_POLYGON_POINTS = 3;
+export const MAX_POLYGON_POINTS = 100;
+
+/**
+ * Calculate distance between two coordinates using Haversine formula
+ * @returns Distance in meters
+ */
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
+  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+/**
+ * Ray-casting test: is the point inside the polygon?
+ * Points exactly on an edge may fall either way.
+ */
+export function isPointInPolygon(latitude: number, longitude: number, polygon: LatLng[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i];
+    const [latJ, lonJ] = polygon[j];
+
+    const crosses =
+      latI > latitude !== latJ > latitude &&
+      longitude < ((lonJ - lonI) * (latitude - latI)) / (latJ - latI) + lonI;
+
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+}
+
+/**
+ * Is the point inside a circle or polygon zone?
+ */
+export function isWithinArea(latitude: number, longitude: number, area: GeofenceArea): boolean {
+  if (area.shape === GeofenceZoneShape.Polygon) {
+    const polygon = parsePolygon(area.polygon);
+    return polygon.length >= MIN_POLYGON_POINTS && isPointInPolygon(latitude, longitude, polygon);
+  }
+
+  if (area.latitude == null || area.longitude == null || area.radiusMeters == null) {
+    return false;
+  }
+
+  return (
+    calculateDistance(latitude, longitude, Number(area.latitude), Number(area.longitude)) <=
+    area.radiusMeters
+  );
+}
+
+/**
+ * Read stored polygon vertices, dropping anything malformed
+ */
+export function parsePolygon(value: Prisma.JsonValue | LatLng[] | null | undefined): LatLng[] {
+  if (!Array.isArray(value)) return [];
+
+  return (value as unknown[]).filter(
+    (point): point is LatLng =>
+      Array.isArray(point) &&
+      point.length === 2 &&
+      typeof point[0] === 'number' &&
+      typeof point[1] === 'number',
+  );
+}
+
+/**
+ * Check a drawn polygon; returns an error message or null when valid
+ */
+export function validatePolygon(polygon: number[][]): string | null {
+  if (polygon.length < MIN_POLYGON_POINTS || polygon.length > MAX_POLYGON_POINTS) {
+    return `A polygon needs between ${MIN_POLYGON_POINTS} and ${MAX_POLYGON_POINTS} points`;
+  }
+
+  for (const point of polygon) {
+    const [latitude, longitude] = point;
+    if (
+      point.length !== 2 ||
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude) ||
+      Math.abs(latitude) > 90 ||
+      Math.abs(longitude) > 180
+    ) {
+      return 'Polygon points must be [latitude, longitude] pairs';
+    }
+  }
+
+  if (isSelfIntersecting(polygon as LatLng[])) {
+    return 'Polygon edges must not cross each other';
+  }
+
+  // Shoelace area; zero means every point is on one line
+  const doubledArea = polygon.reduce((sum, [lat, lon], i) => {
+    const [nextLat, nextLon] = polygon[(i + 1) % polygon.length];
+    return sum + lon * nextLat - nextLon * lat;
+  }, 0);
+  if (Math.abs(doubledArea) < 1e-12) {
+    return 'Polygon points must not all lie on one line';
+  }
+
+  return null;
+}
+
+function isSelfIntersecting(polygon: LatLng[]): boolean {
+  const n = polygon.length;
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      // Skip edges that share a vertex
+      if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+
+      if (segmentsCross(polygon[i], polygon[(i + 1) % n], polygon[j], polygon[(j + 1) % n])) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+function segmentsCross(a: LatLng, b: LatLng, c: LatLng, d: LatLng): boolean {
+  const orientation = (p: LatLng, q: LatLng, r: LatLng) =>
+    Math.sign((q[1] - p[1]) * (r[0] - p[0]) - (q[0] - p[0]) * (r[1] - p[1]));
+
+  return (
+    orientation(a, b, c) !== orientation(a, b, d) &&
+    orientation(c, d, a) !== orientation(c, d, b) &&
+    orientation(a, b, c) !== 0 &&
+    orientation(a, b, d) !== 0
+  );
+}
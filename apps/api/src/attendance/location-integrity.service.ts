@@ -0,0 +1,114 @@
+/**
+ * Location Integrity Service
+ *
+ * Scores every check-in position, using the GPS integrity signals the mobile
+ * app sends when present, and raises a GeofenceFailure anomaly when the
+ * position looks faked, so HR can review it even if the spoofed coordinates
+ * passed the geofence.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { AnomalyType, AnomalyStatus, LocationIntegrityVerdict } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  LocationIntegrityAssessment,
+  LocationIntegritySignals,
+  assessLocationIntegrity,
+} from './location-integrity.utils';
+
+@Injectable()
+export class LocationIntegrityService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Score a check-in position against its signals and the user's last recorded position
+   */
+  async assess(
+    userId: string,
+    latitude: number,
+    longitude: number,
+    signals?: LocationIntegritySignals,
+  ): Promise<LocationIntegrityAssessment> {
+    const lastEvent = await this.prisma.attendanceEvent.findFirst({
+      where: {
+        attendanceDay: { userId },
+        latitude: { not: null },
+        longitude: { not: null },
+        // Older app versions sent 0,0 when no fix was available
+        NOT: { latitude: 0, longitude: 0 },
+      },
+      orderBy: { timestamp: 'desc' },
+      select: { latitude: true, longitude: true, timestamp: true },
+    });
+
+    return assessLocationIntegrity(
+      latitude,
+      longitude,
+      signals,
+      lastEvent
+        ? {
+            latitude: Number(lastEvent.latitude),
+            longitude: Number(lastEvent.longitude),
+            timestamp: lastEvent.timestamp,
+          }
+        : null,
+    );
+  }
+
+  /**
+   * Raise a GeofenceFailure anomaly for a suspicious or spoofed check-in
+   * Unverified positions are only recorded; they lack signals, not trust.
+   */
+  async createAnomalyIfSuspicious(
+    userId: string,
+    companyId: string,
+    attendanceEventId: string,
+    latitude: number,
+    longitude: number,
+    assessment: LocationIntegrityAssessment,
+  ): Promise<void> {
+    if (
+      assessment.verdict !== LocationIntegrityVerdict.Suspicious &&
+      assessment.verdict !== LocationIntegrityVerdict.Spoofed
+    ) {
+      return;
+    }
+
+    const rule = await this.prisma.anomalyRule.findFirst({
+      where: {
+        companyId,
+        type: AnomalyType.GeofenceFailure,
+        isEnabled: true,
+      },
+    });
+
+    if (!rule) {
+      return;
+    }
+
+    await this.prisma.anomalyEvent.create({
+      data: {
+        userId,
+        ruleId: rule.id,
+        type: AnomalyType.GeofenceFailure,
+        severity: rule.severity,
+        status: AnomalyStatus.Open,
+        title:
+          assessment.verdict === LocationIntegrityVerdict.Spoofed
+            ? 'Spoofed Check-in Location'
+            : 'Suspicious Check-in Location',
+        description: `Check-in location failed integrity checks (score ${assessment.score}/100): ${assessment.reasons.join('; ')}`,
+        data: {
+          attendanceEventId,
+          latitude,
+          longitude,
+          verdict: assessment.verdict,
+          score: assessment.score,
+          reasons: assessment.reasons,
+          timestamp: new Date().toISOString(),
+        },
+      },
+    });
+  }
+}
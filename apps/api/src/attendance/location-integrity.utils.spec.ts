@@ -0,0 +1,119 @@
+import { LocationIntegrityVerdict } from '@prisma/client';
+
+import {
+  LocationIntegritySignals,
+  RecordedPosition,
+  SUSPICIOUS_SCORE,
+  assessLocationIntegrity,
+} from './location-integrity.utils';
+
+const OFFICE = { latitude: 12.9716, longitude: 77.5946 };
+
+const GOOD_SIGNALS: LocationIntegritySignals = {
+  isMocked: false,
+  accuracyMeters: 12,
+  altitudeMeters: 920,
+  altitudeAccuracyMeters: 3,
+  speedMps: 0,
+  locationAgeMs: 2000,
+};
+
+const NOW = new Date('2026-10-19T04:00:00Z');
+
+function assess(signals: LocationIntegritySignals | null, lastRecorded?: RecordedPosition) {
+  return assessLocationIntegrity(OFFICE.latitude, OFFICE.longitude, signals, lastRecorded, NOW);
+}
+
+describe('assessLocationIntegrity', () => {
+  it('trusts a plausible fix', () => {
+    expect(assess(GOOD_SIGNALS)).toEqual({ verdict: LocationIntegrityVerdict.Trusted, score: 0, reasons: [] });
+  });
+
+  it('marks a mock provider as spoofed', () => {
+    const result = assess({ ...GOOD_SIGNALS, isMocked: true });
+
+    expect(result.verdict).toBe(LocationIntegrityVerdict.Spoofed);
+    expect(result.score).toBe(100);
+  });
+
+  it('adds up circumstantial red flags', () => {
+    const result = assess({
+      accuracyMeters: 0.5,
+      altitudeMeters: 0,
+      speedMps: 100,
+    });
+
+    // 35 (precise accuracy) + 15 (zero altitude) + 20 (speed)
+    expect(result.score).toBe(70);
+    expect(result.verdict).toBe(LocationIntegrityVerdict.Suspicious);
+    expect(result.reasons).toHaveLength(3);
+  });
+
+  it('stays trusted below the suspicious score', () => {
+    const result = assess({ ...GOOD_SIGNALS, accuracyMeters: 250, locationAgeMs: 5 * 60 * 1000 });
+
+    expect(result.score).toBeLessThan(SUSPICIOUS_SCORE);
+    expect(result.verdict).toBe(LocationIntegrityVerdict.Trusted);
+  });
+
+  it('flags a jump from the previous fix faster than ground travel', () => {
+    const result = assess({
+      ...GOOD_SIGNALS,
+      previousFix: { latitude: 13.0827, longitude: 80.2707, ageMs: 60 * 1000 },
+    });
+
+    expect(result.verdict).toBe(LocationIntegrityVerdict.Suspicious);
+    expect(result.reasons[0]).toMatch(/since the previous fix$/);
+  });
+
+  it('ignores short jumps as GPS noise', () => {
+    const result = assess({
+      ...GOOD_SIGNALS,
+      previousFix: { latitude: 12.9726, longitude: 77.5946, ageMs: 1000 },
+    });
+
+    expect(result.verdict).toBe(LocationIntegrityVerdict.Trusted);
+  });
+
+  it('flags a jump from the last recorded position', () => {
+    const result = assess(GOOD_SIGNALS, {
+      latitude: 28.6139,
+      longitude: 77.209,
+      timestamp: new Date(NOW.getTime() - 30 * 60 * 1000),
+    });
+
+    expect(result.verdict).toBe(LocationIntegrityVerdict.Suspicious);
+    expect(result.reasons[0]).toMatch(/since the last recorded check-in or check-out$/);
+  });
+
+  it('accepts travel at a plausible speed since the last recorded position', () => {
+    const result = assess(GOOD_SIGNALS, {
+      latitude: 13.0827,
+      longitude: 80.2707,
+      timestamp: new Date(NOW.getTime() - 8 * 60 * 60 * 1000),
+    });
+
+    expect(result.verdict).toBe(LocationIntegrityVerdict.Trusted);
+  });
+
+  describe('without device signals', () => {
+    it('is unverified rather than trusted', () => {
+      const result = assess(null);
+
+      expect(result.verdict).toBe(LocationIntegrityVerdict.Unverified);
+      expect(result.score).toBe(0);
+      expect(result.reasons).toEqual(['No GPS signals sent by the device']);
+    });
+
+    it('still runs the server-side movement check', () => {
+      const result = assess(null, {
+        latitude: 28.6139,
+        longitude: 77.209,
+        timestamp: new Date(NOW.getTime() - 10 * 60 * 1000),
+      });
+
+      expect(result.verdict).toBe(LocationIntegrityVerdict.Suspicious);
+      expect(result.score).toBe(SUSPICIOUS_SCORE);
+    });
+  });
+});
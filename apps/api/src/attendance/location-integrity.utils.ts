@@ -0,0 +1,178 @@
+/**
+ * Location Integrity Utilities
+ *
+ * Scores how likely a check-in position is to be faked. The mobile app sends
+ * what the OS reports about the fix (mock provider flag, accuracy, altitude,
+ * age, speed, previous fix); each red flag adds to a 0-100 score. A mock
+ * provider is conclusive on its own, everything else is circumstantial.
+ * Movement since the last recorded position is checked on the server, so it
+ * applies even when a client sends no signals; such positions are unverified.
+ */
+
+import { LocationIntegrityVerdict } from '@prisma/client';
+
+import { calculateDistance } from './geofence.utils';
+
+/** Scores at or above this are treated as suspicious */
+export const SUSPICIOUS_SCORE = 50;
+
+/** Faster than any ground travel (~250 km/h) */
+const MAX_TRAVEL_SPEED_MPS = 70;
+
+/** Jumps shorter than this are GPS noise, however quick */
+const MIN_JUMP_METERS = 1000;
+
+/** Fixes older than this were not taken at check-in */
+const MAX_LOCATION_AGE_MS = 2 * 60 * 1000;
+
+/** Worse accuracy than this is too vague to verify a location */
+const POOR_ACCURACY_METERS = 100;
+
+/** Real GPS fixes are never more precise than this */
+const MIN_PLAUSIBLE_ACCURACY_METERS = 1;
+
+export interface LocationIntegritySignals {
+  /** Android reports fixes from a mock location provider */
+  isMocked?: boolean;
+  accuracyMeters?: number;
+  altitudeMeters?: number;
+  altitudeAccuracyMeters?: number;
+  /** Speed reported by the GPS */
+  speedMps?: number;
+  /** Time between the fix and the check-in request, by the device clock */
+  locationAgeMs?: number;
+  /** The fix the app took before this one */
+  previousFix?: {
+    latitude: number;
+    longitude: number;
+    ageMs: number;
+  };
+}
+
+/** Where and when the employee was last recorded by the server */
+export interface RecordedPosition {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+}
+
+export interface LocationIntegrityAssessment {
+  verdict: LocationIntegrityVerdict;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Score a check-in position from its device signals and the last recorded position
+ */
+export function assessLocationIntegrity(
+  latitude: number,
+  longitude: number,
+  signals: LocationIntegritySignals | null | undefined,
+  lastRecorded?: RecordedPosition | null,
+  now: Date = new Date(),
+): LocationIntegrityAssessment {
+  const reasons: string[] = [];
+  let score = 0;
+  const flag = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  if (!signals) {
+    reasons.push('No GPS signals sent by the device');
+  } else {
+    scoreDeviceSignals(latitude, longitude, signals, flag);
+  }
+
+  if (lastRecorded) {
+    const jump = describeJump(
+      lastRecorded.latitude,
+      lastRecorded.longitude,
+      latitude,
+      longitude,
+      now.getTime() - lastRecorded.timestamp.getTime(),
+    );
+    if (jump) flag(SUSPICIOUS_SCORE, `${jump} since the last recorded check-in or check-out`);
+  }
+
+  score = Math.min(score, 100);
+
+  let verdict: LocationIntegrityVerdict = LocationIntegrityVerdict.Trusted;
+  if (signals?.isMocked) {
+    verdict = LocationIntegrityVerdict.Spoofed;
+  } else if (score >= SUSPICIOUS_SCORE) {
+    verdict = LocationIntegrityVerdict.Suspicious;
+  } else if (!signals) {
+    verdict = LocationIntegrityVerdict.Unverified;
+  }
+
+  return { verdict, score, reasons };
+}
+
+/**
+ * Flag the red flags in what the device reported about the fix
+ */
+function scoreDeviceSignals(
+  latitude: number,
+  longitude: number,
+  signals: LocationIntegritySignals,
+  flag: (points: number, reason: string) => void,
+) {
+  if (signals.isMocked) {
+    flag(100, 'Device reported a mock location provider');
+  }
+
+  if (signals.accuracyMeters == null) {
+    flag(10, 'No accuracy reported');
+  } else if (signals.accuracyMeters < MIN_PLAUSIBLE_ACCURACY_METERS) {
+    flag(35, `Implausibly precise accuracy (${signals.accuracyMeters}m)`);
+  } else if (signals.accuracyMeters > POOR_ACCURACY_METERS) {
+    flag(20, `Poor accuracy (${Math.round(signals.accuracyMeters)}m)`);
+  }
+
+  // Mock providers typically fill altitude with a bare zero
+  if (signals.altitudeMeters === 0 && !signals.altitudeAccuracyMeters) {
+    flag(15, 'Altitude is exactly zero');
+  }
+
+  if (signals.locationAgeMs != null && signals.locationAgeMs > MAX_LOCATION_AGE_MS) {
+    flag(25, `Location fix is ${Math.round(signals.locationAgeMs / 60000)} min old`);
+  }
+
+  if (signals.speedMps != null && signals.speedMps > MAX_TRAVEL_SPEED_MPS) {
+    flag(20, `Reported speed of ${Math.round(signals.speedMps * 3.6)} km/h`);
+  }
+
+  if (signals.previousFix) {
+    const elapsedMs = signals.previousFix.ageMs - (signals.locationAgeMs ?? 0);
+    const jump = describeJump(
+      signals.previousFix.latitude,
+      signals.previousFix.longitude,
+      latitude,
+      longitude,
+      elapsedMs,
+    );
+    if (jump) flag(SUSPICIOUS_SCORE, `${jump} since the previous fix`);
+  }
+}
+
+/**
+ * Describe a move that is faster than ground travel, or null when it is plausible
+ */
+function describeJump(
+  fromLatitude: number,
+  fromLongitude: number,
+  toLatitude: number,
+  toLongitude: number,
+  elapsedMs: number,
+): string | null {
+  const meters = calculateDistance(fromLatitude, fromLongitude, toLatitude, toLongitude);
+  if (meters < MIN_JUMP_METERS) return null;
+
+  const seconds = Math.max(elapsedMs, 0) / 1000;
+  if (seconds > 0 && meters / seconds <= MAX_TRAVEL_SPEED_MPS) return null;
+
+  const minutes = Math.round(seconds / 60);
+  return `Moved ${(meters / 1000).toFixed(1)} km in ${minutes < 1 ? 'under a minute' : `${minutes} min`}`;
+}
@@ -0,0 +1,210 @@
+/**
+ * QR Check-In Service
+ *
+ * Issues and verifies rotating, HMAC-signed QR tokens for office locations.
+ * A lobby screen displays the current token; the mobile app scans it and
+ * sends it with the check-in as a second factor alongside GPS. The position
+ * sent with the scan must be inside the location the token was issued for.
+ */
+
+import { Injectable, BadRequestException, NotFoundException, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { VerificationStatus, AnomalyType, AnomalyStatus } from '@prisma/client';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { GeofenceService } from './geofence.service';
+
+const TOKEN_PREFIX = 'satcom-qr';
+const DEFAULT_ROTATION_SECONDS = 30;
+
+export interface QrVerificationResult {
+  verificationStatus: VerificationStatus;
+  officeLocationId?: string;
+  reason?: string;
+}
+
+@Injectable()
+export class QrCheckInService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private geofenceService: GeofenceService,
+  ) {}
+
+  /**
+   * Issue the current QR token for an office location (lobby display)
+   */
+  async issueToken(companyId: string, locationId: string) {
+    const location = await this.prisma.officeLocation.findFirst({
+      where: { id: locationId, companyId, isActive: true },
+    });
+
+    if (!location) {
+      throw new NotFoundException('Office location not found');
+    }
+
+    if (!location.qrCheckInEnabled) {
+      throw new BadRequestException('QR check-in is not enabled for this location');
+    }
+
+    const rotationSeconds = await this.getRotationSeconds(companyId);
+    const window = this.currentWindow(rotationSeconds);
+
+    return {
+      locationId: location.id,
+      locationName: location.name,
+      token: this.buildToken(location.id, window),
+      rotationSeconds,
+      issuedAt: new Date(window * rotationSeconds * 1000),
+      expiresAt: new Date((window + 1) * rotationSeconds * 1000),
+    };
+  }
+
+  /**
+   * Verify a scanned QR token: signature, time window and location match
+   * The scan only counts when the position is inside that location, so a
+   * photographed token cannot be used from elsewhere.
+   */
+  async verifyToken(
+    companyId: string,
+    token: string,
+    latitude?: number,
+    longitude?: number,
+  ): Promise<QrVerificationResult> {
+    const parts = token.trim().split('.');
+    if (parts.length !== 4 || parts[0] !== TOKEN_PREFIX) {
+      return { verificationStatus: VerificationStatus.QRFailed, reason: 'Malformed QR code' };
+    }
+
+    const [, locationId, windowPart, signature] = parts;
+    const window = parseInt(windowPart, 10);
+    if (isNaN(window)) {
+      return { verificationStatus: VerificationStatus.QRFailed, reason: 'Malformed QR code' };
+    }
+
+    if (!this.isValidSignature(locationId, window, signature)) {
+      return { verificationStatus: VerificationStatus.QRFailed, reason: 'Invalid QR signature' };
+    }
+
+    // Accept the current and the previous window to tolerate a scan right at rotation
+    const rotationSeconds = await this.getRotationSeconds(companyId);
+    const current = this.currentWindow(rotationSeconds);
+    if (window > current || window < current - 1) {
+      return { verificationStatus: VerificationStatus.QRFailed, reason: 'QR code has expired' };
+    }
+
+    const location = await this.prisma.officeLocation.findFirst({
+      where: { id: locationId, companyId, isActive: true, qrCheckInEnabled: true },
+      include: { zones: true },
+    });
+
+    if (!location) {
+      return { verificationStatus: VerificationStatus.QRFailed, reason: 'QR code does not match an office location' };
+    }
+
+    if (latitude === undefined || longitude === undefined) {
+      return { verificationStatus: VerificationStatus.QRFailed, reason: 'Location is required with a QR code' };
+    }
+
+    if (!this.geofenceService.isWithinOffice(location, latitude, longitude)) {
+      return {
+        verificationStatus: VerificationStatus.QRFailed,
+        reason: `Scanned outside ${location.name}`,
+      };
+    }
+
+    return { verificationStatus: VerificationStatus.QRPassed, officeLocationId: location.id };
+  }
+
+  /**
+   * Verify the QR token for an office check-in and create anomaly on failure
+   */
+  async verifyAndCreateAnomaly(
+    userId: string,
+    companyId: string,
+    token?: string,
+    latitude?: number,
+    longitude?: number,
+  ): Promise<QrVerificationResult> {
+    const result = token
+      ? await this.verifyToken(companyId, token, latitude, longitude)
+      : { verificationStatus: VerificationStatus.QRFailed, reason: 'QR code scan is required for office check-in' };
+
+    if (result.verificationStatus === VerificationStatus.QRFailed) {
+      const rule = await this.prisma.anomalyRule.findFirst({
+        where: {
+          companyId,
+          type: AnomalyType.GeofenceFailure,
+          isEnabled: true,
+        },
+      });
+
+      if (rule) {
+        await this.prisma.anomalyEvent.create({
+          data: {
+            userId,
+            ruleId: rule.id,
+            type: AnomalyType.GeofenceFailure,
+            severity: rule.severity,
+            status: AnomalyStatus.Open,
+            title: 'QR Check-in Verification Failed',
+            description: `User attempted Office check-in with a QR code that could not be verified: ${result.reason}`,
+            data: {
+              reason: result.reason,
+              latitude,
+              longitude,
+              timestamp: new Date().toISOString(),
+              verificationStatus: result.verificationStatus,
+            },
+          },
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether the company requires a QR scan for office check-ins
+   */
+  async isQrRequired(companyId: string): Promise<boolean> {
+    const policy = await this.prisma.geofencePolicy.findUnique({
+      where: { companyId },
+    });
+    return !!policy?.requireQrForOffice;
+  }
+
+  private async getRotationSeconds(companyId: string): Promise<number> {
+    const policy = await this.prisma.geofencePolicy.findUnique({
+      where: { companyId },
+    });
+    return policy?.qrRotationSeconds || DEFAULT_ROTATION_SECONDS;
+  }
+
+  private currentWindow(rotationSeconds: number): number {
+    return Math.floor(Date.now() / (rotationSeconds * 1000));
+  }
+
+  private buildToken(locationId: string, window: number): string {
+    return [TOKEN_PREFIX, locationId, window, this.sign(locationId, window)].join('.');
+  }
+
+  private sign(locationId: string, window: number): string {
+    // A dedicated key: QR tokens are shown on lobby screens, auth keys must not be
+    const secret = this.configService.get<string>('QR_CHECKIN_SECRET');
+    if (!secret) {
+      // Never sign with an empty key; anyone could forge tokens
+      throw new ServiceUnavailableException('QR check-in is not configured');
+    }
+    return createHmac('sha256', secret)
+      .update(`${locationId}:${window}`)
+      .digest('base64url');
+  }
+
+  private isValidSignature(locationId: string, window: number, signature: string): boolean {
+    const expected = Buffer.from(this.sign(locationId, window));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+}
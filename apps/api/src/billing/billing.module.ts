@@ -0,0 +1,17 @@
+/**
+ * Billing Module
+ *
+ * Admin module for project rate cards and client invoices.
+ */
+
+import { Module } from '@nestjs/common';
+import { ProjectRatesController } from './project-rates.controller';
+import { InvoicesController } from './invoices.controller';
+import { ProjectRatesService } from './project-rates.service';
+import { InvoicesService } from './invoices.service';
+
+@Module({
+  controllers: [ProjectRatesController, InvoicesController],
+  providers: [ProjectRatesService, InvoicesService],
+})
+export class BillingModule {}
@@ -0,0 +1,23 @@
+/**
+ * Generate Invoices DTO
+ */
+
+import { ArrayMinSize, IsArray, IsDateString, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class GenerateInvoicesDto {
+  @ApiProperty({ description: 'First day of the billing period (YYYY-MM-DD)', example: '2026-01-01' })
+  @IsDateString()
+  periodStart: string;
+
+  @ApiProperty({ description: 'Last day of the billing period (YYYY-MM-DD)', example: '2026-01-31' })
+  @IsDateString()
+  periodEnd: string;
+
+  @ApiPropertyOptional({ description: 'Projects to invoice; all projects with unbilled items when omitted' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID(undefined, { each: true })
+  projectIds?: string[];
+}
@@ -0,0 +1,9 @@
+/**
+ * Billing DTOs barrel export
+ */
+
+export * from './update-project-rates.dto';
+export * from './generate-invoices.dto';
+export * from './update-invoice.dto';
+export * from './issue-invoice.dto';
+export * from './void-invoice.dto';
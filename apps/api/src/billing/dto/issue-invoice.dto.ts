@@ -0,0 +1,13 @@
+/**
+ * Issue Invoice DTO
+ */
+
+import { IsDateString, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class IssueInvoiceDto {
+  @ApiPropertyOptional({ description: 'Payment due date (YYYY-MM-DD)', example: '2026-02-28' })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * Update Invoice DTO
+ */
+
+import { IsDateString, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateInvoiceDto {
+  @ApiPropertyOptional({ description: 'Notes printed on the invoice' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string | null;
+
+  @ApiPropertyOptional({ description: 'Payment due date (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string | null;
+}
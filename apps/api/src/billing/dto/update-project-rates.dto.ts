@@ -0,0 +1,37 @@
+/**
+ * Update Project Rates DTO
+ */
+
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, IsArray, IsEnum, IsNumber, IsOptional, IsUUID, Min, ValidateNested } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+export class ProjectRateDto {
+  @ApiPropertyOptional({ description: 'Employee the rate applies to' })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiPropertyOptional({ enum: UserRole, description: 'Role the rate applies to' })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+
+  @ApiProperty({ description: 'Hourly rate billed to the client', example: 120 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  hourlyRate: number;
+}
+
+export class UpdateProjectRatesDto {
+  @ApiProperty({
+    type: [ProjectRateDto],
+    description: 'The full rate card; a rate with neither employee nor role is the flat rate',
+  })
+  @IsArray()
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => ProjectRateDto)
+  rates: ProjectRateDto[];
+}
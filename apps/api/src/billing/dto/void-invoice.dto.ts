@@ -0,0 +1,13 @@
+/**
+ * Void Invoice DTO
+ */
+
+import { IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VoidInvoiceDto {
+  @ApiProperty({ description: 'Why the issued invoice is being voided' })
+  @IsString()
+  @MinLength(5)
+  reason: string;
+}
@@ -0,0 +1,96 @@
+/**
+ * Invoices Controller
+ *
+ * Admin endpoints for generating, issuing and voiding client invoices.
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { InvoiceStatus, UserRole } from '@prisma/client';
+
+import { InvoicesService } from './invoices.service';
+import { GenerateInvoicesDto, IssueInvoiceDto, UpdateInvoiceDto, VoidInvoiceDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Billing (Admin)')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SuperAdmin)
+@Controller('admin/invoices')
+export class InvoicesController {
+  constructor(private readonly invoicesService: InvoicesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List invoices' })
+  @ApiQuery({ name: 'projectId', required: false })
+  @ApiQuery({ name: 'status', required: false, enum: InvoiceStatus })
+  async list(
+    @CurrentUser() user: any,
+    @Query('projectId') projectId?: string,
+    @Query('status') status?: InvoiceStatus,
+  ) {
+    const result = await this.invoicesService.list(user.companyId, { projectId, status });
+    return { success: true, data: result };
+  }
+
+  /**
+   * Create draft invoices from approved billable time and expenses
+   */
+  @Post('generate')
+  @ApiOperation({ summary: 'Generate draft invoices for a billing period' })
+  async generate(@CurrentUser() user: any, @Body() dto: GenerateInvoicesDto) {
+    const result = await this.invoicesService.generate(user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an invoice with its lines' })
+  async findOne(@Param('id') id: string, @CurrentUser() user: any) {
+    const result = await this.invoicesService.findById(id, user.companyId);
+    return { success: true, data: result };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Edit a draft invoice' })
+  async update(@Param('id') id: string, @CurrentUser() user: any, @Body() dto: UpdateInvoiceDto) {
+    const result = await this.invoicesService.update(id, user.companyId, dto);
+    return { success: true, data: result };
+  }
+
+  @Post(':id/issue')
+  @ApiOperation({ summary: 'Issue a draft invoice' })
+  async issue(@Param('id') id: string, @CurrentUser() user: any, @Body() dto: IssueInvoiceDto) {
+    const result = await this.invoicesService.issue(id, user.companyId, user.id, dto.dueDate);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Void an issued invoice; its time and expenses can be billed again
+   */
+  @Post(':id/void')
+  @ApiOperation({ summary: 'Void an issued invoice' })
+  async void(@Param('id') id: string, @CurrentUser() user: any, @Body() dto: VoidInvoiceDto) {
+    const result = await this.invoicesService.void(id, user.companyId, user.id, dto.reason);
+    return { success: true, data: result };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a draft invoice' })
+  async remove(@Param('id') id: string, @CurrentUser() user: any) {
+    const result = await this.invoicesService.remove(id, user.companyId, user.id);
+    return { success: true, data: result };
+  }
+}
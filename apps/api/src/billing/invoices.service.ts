@@ -0,0 +1,397 @@
+/**
+ * Invoices Service
+ *
+ * Turns approved billable time and approved project expenses into draft
+ * client invoices, one per project. Time is billed at the project's rate
+ * card and grouped into a line per employee, task and rate; each expense
+ * is its own line. Billed entries and expenses are linked to the invoice so
+ * they are not billed twice, and are released again when a draft is
+ * deleted or an issued invoice is voided.
+ */
+
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ExpenseStatus,
+  InvoiceLineType,
+  InvoiceStatus,
+  Prisma,
+  TimesheetStatus,
+} from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { formatDay, parseDay } from '../common/timezone/timezone.utils';
+import { resolveRate } from './project-rates.service';
+import { GenerateInvoicesDto, UpdateInvoiceDto } from './dto';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const nameOf = (user: { email: string; profile: { firstName: string; lastName: string } | null }) =>
+  user.profile ? `${user.profile.firstName} ${user.profile.lastName}` : user.email;
+
+interface DraftLine {
+  type: InvoiceLineType;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+@Injectable()
+export class InvoicesService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * List invoices
+   */
+  async list(companyId: string, filters: { projectId?: string; status?: InvoiceStatus }) {
+    return this.prisma.invoice.findMany({
+      where: {
+        companyId,
+        ...(filters.projectId ? { projectId: filters.projectId } : {}),
+        ...(filters.status ? { status: filters.status } : {}),
+      },
+      include: { project: { select: { id: true, name: true, code: true } } },
+      orderBy: { number: 'desc' },
+    });
+  }
+
+  /**
+   * Get an invoice with its lines
+   */
+  async findById(id: string, companyId: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id, companyId },
+      include: {
+        project: { select: { id: true, name: true, code: true } },
+        lines: { orderBy: { sortOrder: 'asc' } },
+      },
+    });
+
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Generate draft invoices for a billing period
+   * Nothing is created if any billable employee has no rate.
+   */
+  async generate(companyId: string, actorId: string, dto: GenerateInvoicesDto) {
+    const periodStart = parseDay(dto.periodStart);
+    const periodEnd = parseDay(dto.periodEnd);
+
+    if (periodEnd < periodStart) {
+      throw new BadRequestException('The period must end on or after its start');
+    }
+
+    const projects = await this.prisma.project.findMany({
+      where: { companyId, ...(dto.projectIds ? { id: { in: dto.projectIds } } : {}) },
+      include: { rates: true },
+      orderBy: { name: 'asc' },
+    });
+
+    if (dto.projectIds && projects.length !== new Set(dto.projectIds).size) {
+      throw new NotFoundException('One or more projects were not found');
+    }
+
+    const projectIds = projects.map((p) => p.id);
+    const dateRange = { gte: periodStart, lte: periodEnd };
+    const userSelect = { id: true, role: true, email: true, profile: { select: { firstName: true, lastName: true } } };
+
+    const [entries, expenses] = await Promise.all([
+      this.prisma.timesheetEntry.findMany({
+        where: {
+          projectId: { in: projectIds },
+          status: TimesheetStatus.Approved,
+          isBillable: true,
+          invoiceId: null,
+          date: dateRange,
+        },
+        include: { user: { select: userSelect }, task: { select: { name: true } } },
+        orderBy: { date: 'asc' },
+      }),
+      this.prisma.expense.findMany({
+        where: {
+          projectId: { in: projectIds },
+          status: { in: [ExpenseStatus.Approved, ExpenseStatus.Reimbursed] },
+          invoiceId: null,
+          date: dateRange,
+        },
+        include: { user: { select: userSelect } },
+        orderBy: { date: 'asc' },
+      }),
+    ]);
+
+    const drafts = [];
+    const missingRates: string[] = [];
+    let skippedExpenses = 0;
+
+    for (const project of projects) {
+      const projectEntries = entries.filter((e) => e.projectId === project.id);
+      const projectExpenses = expenses.filter((e) => e.projectId === project.id);
+      // Expenses in another currency cannot be added to the invoice total
+      const billableExpenses = projectExpenses.filter((e) => e.currency === project.currency);
+      skippedExpenses += projectExpenses.length - billableExpenses.length;
+
+      if (projectEntries.length === 0 && billableExpenses.length === 0) continue;
+
+      const groups = new Map<string, { description: string; minutes: number; rate: number }>();
+      const unrated = new Set<string>();
+
+      for (const entry of projectEntries) {
+        const rate = resolveRate(project.rates, entry.user);
+        if (!rate) {
+          unrated.add(nameOf(entry.user));
+          continue;
+        }
+
+        const key = `${entry.userId}:${entry.taskId}:${rate.id}`;
+        const group = groups.get(key) ?? {
+          description: `${nameOf(entry.user)} - ${entry.task.name}`,
+          minutes: 0,
+          rate: Number(rate.hourlyRate),
+        };
+        group.minutes += entry.minutes;
+        groups.set(key, group);
+      }
+
+      if (unrated.size > 0) {
+        missingRates.push(`${project.name} (${[...unrated].join(', ')})`);
+        continue;
+      }
+
+      const lines: DraftLine[] = [...groups.values()].map((g) => {
+        const hours = round2(g.minutes / 60);
+        return {
+          type: InvoiceLineType.Time,
+          description: g.description,
+          quantity: hours,
+          unitPrice: g.rate,
+          amount: round2(hours * g.rate),
+        };
+      });
+
+      for (const expense of billableExpenses) {
+        lines.push({
+          type: InvoiceLineType.Expense,
+          description: `${expense.category}: ${expense.description} (${nameOf(expense.user)}, ${formatDay(expense.date)})`,
+          quantity: 1,
+          unitPrice: Number(expense.amount),
+          amount: Number(expense.amount),
+        });
+      }
+
+      drafts.push({
+        project,
+        lines,
+        entryIds: projectEntries.map((e) => e.id),
+        expenseIds: billableExpenses.map((e) => e.id),
+      });
+    }
+
+    if (missingRates.length > 0) {
+      throw new BadRequestException(`No billing rate for: ${missingRates.join('; ')}`);
+    }
+
+    const invoices = [];
+    for (const draft of drafts) {
+      const invoice = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.invoice.create({
+          data: {
+            companyId,
+            projectId: draft.project.id,
+            number: await this.nextNumber(tx, companyId),
+            currency: draft.project.currency,
+            periodStart,
+            periodEnd,
+            clientName: draft.project.clientName,
+            clientEmail: draft.project.clientEmail,
+            clientAddress: draft.project.clientAddress,
+            subtotal: round2(draft.lines.reduce((sum, l) => sum + l.amount, 0)),
+            createdBy: actorId,
+            lines: { create: draft.lines.map((line, index) => ({ ...line, sortOrder: index })) },
+          },
+          include: {
+            project: { select: { id: true, name: true, code: true } },
+            lines: { orderBy: { sortOrder: 'asc' } },
+          },
+        });
+
+        // Claim only items still unbilled, in case another run got there first
+        const [billedEntries, billedExpenses] = await Promise.all([
+          tx.timesheetEntry.updateMany({
+            where: { id: { in: draft.entryIds }, invoiceId: null },
+            data: { invoiceId: created.id },
+          }),
+          tx.expense.updateMany({
+            where: { id: { in: draft.expenseIds }, invoiceId: null },
+            data: { invoiceId: created.id },
+          }),
+        ]);
+
+        if (billedEntries.count !== draft.entryIds.length || billedExpenses.count !== draft.expenseIds.length) {
+          throw new BadRequestException(`Items for ${draft.project.name} were invoiced by another request`);
+        }
+
+        return created;
+      });
+
+      await this.prisma.auditLog.create({
+        data: {
+          actorId,
+          action: 'InvoiceGenerated',
+          entityType: 'Invoice',
+          entityId: invoice.id,
+          after: {
+            number: invoice.number,
+            projectId: invoice.projectId,
+            periodStart: dto.periodStart,
+            periodEnd: dto.periodEnd,
+            subtotal: Number(invoice.subtotal),
+            entries: draft.entryIds.length,
+            expenses: draft.expenseIds.length,
+          },
+        },
+      });
+
+      invoices.push(invoice);
+    }
+
+    return { invoices, skippedExpenses };
+  }
+
+  /**
+   * Edit a draft invoice's notes and due date
+   */
+  async update(id: string, companyId: string, dto: UpdateInvoiceDto) {
+    await this.findDraft(id, companyId);
+
+    await this.prisma.invoice.update({
+      where: { id },
+      data: {
+        notes: dto.notes,
+        dueDate: dto.dueDate ? parseDay(dto.dueDate) : dto.dueDate,
+      },
+    });
+
+    return this.findById(id, companyId);
+  }
+
+  /**
+   * Issue a draft invoice; it can no longer be edited or deleted
+   */
+  async issue(id: string, companyId: string, actorId: string, dueDate?: string) {
+    const invoice = await this.findDraft(id, companyId);
+
+    await this.prisma.invoice.update({
+      where: { id },
+      data: {
+        status: InvoiceStatus.Issued,
+        issuedAt: new Date(),
+        ...(dueDate ? { dueDate: parseDay(dueDate) } : {}),
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'InvoiceIssued',
+        entityType: 'Invoice',
+        entityId: id,
+        before: { status: invoice.status },
+        after: { status: InvoiceStatus.Issued, dueDate: dueDate ?? (invoice.dueDate ? formatDay(invoice.dueDate) : null) },
+      },
+    });
+
+    return this.findById(id, companyId);
+  }
+
+  /**
+   * Void an issued invoice and release its items for billing again
+   */
+  async void(id: string, companyId: string, actorId: string, reason: string) {
+    const invoice = await this.findById(id, companyId);
+
+    if (invoice.status !== InvoiceStatus.Issued) {
+      throw new BadRequestException(
+        invoice.status === InvoiceStatus.Draft ? 'Delete a draft invoice instead of voiding it' : 'Invoice is already void',
+      );
+    }
+
+    await this.prisma.$transaction([
+      ...this.releaseItems(id),
+      this.prisma.invoice.update({ where: { id }, data: { status: InvoiceStatus.Void } }),
+    ]);
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'InvoiceVoided',
+        entityType: 'Invoice',
+        entityId: id,
+        before: { status: invoice.status },
+        after: { status: InvoiceStatus.Void },
+        reason,
+      },
+    });
+
+    return this.findById(id, companyId);
+  }
+
+  /**
+   * Delete a draft invoice and release its items for billing again
+   */
+  async remove(id: string, companyId: string, actorId: string) {
+    const invoice = await this.findDraft(id, companyId);
+
+    await this.prisma.$transaction([
+      ...this.releaseItems(id),
+      this.prisma.invoice.delete({ where: { id } }),
+    ]);
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'InvoiceDeleted',
+        entityType: 'Invoice',
+        entityId: id,
+        before: { number: invoice.number, projectId: invoice.projectId, subtotal: Number(invoice.subtotal) },
+      },
+    });
+
+    return { deleted: true };
+  }
+
+  private async findDraft(id: string, companyId: string) {
+    const invoice = await this.findById(id, companyId);
+
+    if (invoice.status !== InvoiceStatus.Draft) {
+      throw new BadRequestException('Only draft invoices can be changed');
+    }
+
+    return invoice;
+  }
+
+  private releaseItems(invoiceId: string) {
+    return [
+      this.prisma.timesheetEntry.updateMany({ where: { invoiceId }, data: { invoiceId: null } }),
+      this.prisma.expense.updateMany({ where: { invoiceId }, data: { invoiceId: null } }),
+    ];
+  }
+
+  /**
+   * Next sequential invoice number for the company, e.g. INV-000042
+   */
+  private async nextNumber(tx: Prisma.TransactionClient, companyId: string) {
+    const last = await tx.invoice.findFirst({
+      where: { companyId },
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+
+    const sequence = last ? parseInt(last.number.replace(/\D/g, ''), 10) + 1 : 1;
+    return `INV-${String(sequence).padStart(6, '0')}`;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Project Rates Controller
+ *
+ * Admin endpoints for a project's billing rate card.
+ */
+
+import { Controller, Get, Put, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+import { ProjectRatesService } from './project-rates.service';
+import { UpdateProjectRatesDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Billing (Admin)')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SuperAdmin)
+@Controller('admin/projects/:projectId/rates')
+export class ProjectRatesController {
+  constructor(private readonly projectRatesService: ProjectRatesService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get a project's rate card" })
+  async list(@Param('projectId') projectId: string, @CurrentUser() user: any) {
+    const result = await this.projectRatesService.listRates(projectId, user.companyId);
+    return { success: true, data: result };
+  }
+
+  @Put()
+  @ApiOperation({ summary: "Replace a project's rate card" })
+  async replace(
+    @Param('projectId') projectId: string,
+    @CurrentUser() user: any,
+    @Body() dto: UpdateProjectRatesDto,
+  ) {
+    const result = await this.projectRatesService.replaceRates(projectId, user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+}
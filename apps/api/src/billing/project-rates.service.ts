@@ -0,0 +1,106 @@
+/**
+ * Project Rates Service
+ *
+ * A project's rate card sets the hourly rate billed to its client. A rate
+ * can apply to one employee, to everyone with a role, or to everyone (the
+ * flat rate); the most specific rate wins.
+ */
+
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { ProjectRate, UserRole } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { UpdateProjectRatesDto } from './dto';
+
+/**
+ * Rate billed for an employee's time: their own rate, else their role's
+ * rate, else the flat rate
+ */
+export function resolveRate(rates: ProjectRate[], user: { id: string; role: UserRole }) {
+  return (
+    rates.find((r) => r.userId === user.id) ??
+    rates.find((r) => r.userId === null && r.role === user.role) ??
+    rates.find((r) => r.userId === null && r.role === null) ??
+    null
+  );
+}
+
+@Injectable()
+export class ProjectRatesService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Get a project's rate card
+   */
+  async listRates(projectId: string, companyId: string) {
+    await this.findProject(projectId, companyId);
+
+    return this.prisma.projectRate.findMany({
+      where: { projectId },
+      include: { user: { include: { profile: true } } },
+      orderBy: [{ userId: 'asc' }, { role: 'asc' }],
+    });
+  }
+
+  /**
+   * Replace a project's rate card
+   */
+  async replaceRates(projectId: string, companyId: string, actorId: string, dto: UpdateProjectRatesDto) {
+    await this.findProject(projectId, companyId);
+
+    const keys = new Set<string>();
+    for (const rate of dto.rates) {
+      if (rate.userId && rate.role) {
+        throw new BadRequestException('A rate applies to an employee or a role, not both');
+      }
+      const key = rate.userId ?? rate.role ?? 'flat';
+      if (keys.has(key)) {
+        throw new BadRequestException(`The rate card has more than one rate for ${key === 'flat' ? 'the flat rate' : key}`);
+      }
+      keys.add(key);
+    }
+
+    const userIds = dto.rates.map((r) => r.userId).filter((id): id is string => !!id);
+    if (userIds.length > 0) {
+      const count = await this.prisma.user.count({ where: { id: { in: userIds }, companyId } });
+      if (count !== userIds.length) {
+        throw new BadRequestException('One or more employees were not found');
+      }
+    }
+
+    const before = await this.prisma.projectRate.findMany({ where: { projectId } });
+
+    await this.prisma.$transaction([
+      this.prisma.projectRate.deleteMany({ where: { projectId } }),
+      this.prisma.projectRate.createMany({
+        data: dto.rates.map((r) => ({
+          projectId,
+          userId: r.userId ?? null,
+          role: r.role ?? null,
+          hourlyRate: r.hourlyRate,
+        })),
+      }),
+    ]);
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'ProjectRatesUpdated',
+        entityType: 'Project',
+        entityId: projectId,
+        before: before.map((r) => ({ userId: r.userId, role: r.role, hourlyRate: Number(r.hourlyRate) })),
+        after: dto.rates.map((r) => ({ userId: r.userId ?? null, role: r.role ?? null, hourlyRate: r.hourlyRate })),
+      },
+    });
+
+    return this.listRates(projectId, companyId);
+  }
+
+  private async findProject(projectId: string, companyId: string) {
+    const project = await this.prisma.project.findFirst({ where: { id: projectId, companyId } });
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+    return project;
+  }
+}
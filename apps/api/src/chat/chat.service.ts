@@ -9,13 +9,17 @@ import {
 } from '@nestjs/common';
 import { ChatThreadType, ChatMessageType } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { ProjectMembersService } from '../projects/project-members.service';
 import { CreateMessageDto } from './dto';
 
 @Injectable()
 export class ChatService {
   private readonly EDIT_WINDOW_MINUTES = 15;
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private projectMembersService: ProjectMembersService,
+  ) {}
 
   async getThreads(userId: string) {
     const memberships = await this.prisma.chatMember.findMany({
@@ -117,6 +121,10 @@ export class ChatService {
       throw new NotFoundException(`Users not found: ${missingMembers.join(', ')}`);
     }
 
+    if (data.projectId) {
+      await this.projectMembersService.assertChatMembers(data.projectId, user.companyId, [userId, ...data.memberIds]);
+    }
+
     return this.prisma.chatThread.create({
       data: {
         type: data.projectId ? ChatThreadType.Project : ChatThreadType.Group,
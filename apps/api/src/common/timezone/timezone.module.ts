@@ -0,0 +1,16 @@
+/**
+ * Timezone Module
+ *
+ * Provides per-user timezone resolution for attendance day bucketing.
+ * Globally available for use across all modules.
+ */
+
+import { Module, Global } from '@nestjs/common';
+import { TimezoneService } from './timezone.service';
+
+@Global()
+@Module({
+  providers: [TimezoneService],
+  exports: [TimezoneService],
+})
+export class TimezoneModule {}
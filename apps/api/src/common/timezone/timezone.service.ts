@@ -0,0 +1,67 @@
+/**
+ * Timezone Service
+ *
+ * Resolves the timezone an employee's attendance should be bucketed in:
+ * the employee profile timezone, falling back to the company timezone.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { resolveTimezone, toLocalDay } from './timezone.utils';
+
+@Injectable()
+export class TimezoneService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Get the effective timezone for a user
+   */
+  async getUserTimezone(userId: string): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        profile: { select: { timezone: true } },
+        company: { select: { timezone: true } },
+      },
+    });
+
+    return resolveTimezone(user?.profile?.timezone, user?.company?.timezone);
+  }
+
+  /**
+   * Get effective timezones for several users, keyed by user ID
+   */
+  async getUserTimezones(userIds: string[]): Promise<Map<string, string>> {
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: {
+        id: true,
+        profile: { select: { timezone: true } },
+        company: { select: { timezone: true } },
+      },
+    });
+
+    return new Map(
+      users.map((u) => [u.id, resolveTimezone(u.profile?.timezone, u.company?.timezone)]),
+    );
+  }
+
+  /**
+   * Get the timezone configured for a company
+   */
+  async getCompanyTimezone(companyId: string): Promise<string> {
+    const company = await this.prisma.company.findUnique({
+      where: { id: companyId },
+      select: { timezone: true },
+    });
+
+    return resolveTimezone(company?.timezone);
+  }
+
+  /**
+   * Get "today" for a user as a local calendar day
+   */
+  async getUserToday(userId: string, now = new Date()): Promise<Date> {
+    return toLocalDay(now, await this.getUserTimezone(userId));
+  }
+}
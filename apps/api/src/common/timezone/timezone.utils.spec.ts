@@ -0,0 +1,91 @@
+import {
+  addDays,
+  formatDay,
+  getLocalDayBounds,
+  getLocalMinutesOfDay,
+  getWeekStart,
+  localTimeToUtc,
+  parseDay,
+  resolveTimezone,
+  toLocalDay,
+  uniqueDays,
+} from './timezone.utils';
+
+describe('timezone utils', () => {
+  describe('toLocalDay', () => {
+    const instant = new Date('2026-03-10T20:30:00Z');
+
+    it('buckets an instant into the local calendar day of each timezone', () => {
+      expect(formatDay(toLocalDay(instant, 'UTC'))).toBe('2026-03-10');
+      expect(formatDay(toLocalDay(instant, 'America/New_York'))).toBe('2026-03-10');
+      expect(formatDay(toLocalDay(instant, 'Asia/Kolkata'))).toBe('2026-03-11');
+      expect(formatDay(toLocalDay(instant, 'Pacific/Auckland'))).toBe('2026-03-11');
+    });
+
+    it('returns UTC midnight of the local day', () => {
+      expect(toLocalDay(instant, 'Asia/Kolkata').toISOString()).toBe('2026-03-11T00:00:00.000Z');
+    });
+  });
+
+  describe('localTimeToUtc', () => {
+    it('converts a wall-clock time using the offset of that day', () => {
+      const day = parseDay('2026-01-15');
+      expect(localTimeToUtc(day, 9 * 60, 'Asia/Kolkata').toISOString()).toBe('2026-01-15T03:30:00.000Z');
+      expect(localTimeToUtc(day, 9 * 60, 'America/New_York').toISOString()).toBe('2026-01-15T14:00:00.000Z');
+    });
+
+    it('uses the summer offset after a DST transition', () => {
+      const day = parseDay('2026-03-09');
+      expect(localTimeToUtc(day, 9 * 60, 'America/New_York').toISOString()).toBe('2026-03-09T13:00:00.000Z');
+    });
+  });
+
+  describe('getLocalDayBounds', () => {
+    it('spans a full local day', () => {
+      const { start, end } = getLocalDayBounds(parseDay('2026-01-15'), 'Asia/Kolkata');
+      expect(start.toISOString()).toBe('2026-01-14T18:30:00.000Z');
+      expect(end.toISOString()).toBe('2026-01-15T18:30:00.000Z');
+    });
+
+    it('is 23 hours long on a spring-forward day', () => {
+      const { start, end } = getLocalDayBounds(parseDay('2026-03-08'), 'America/New_York');
+      expect(end.getTime() - start.getTime()).toBe(23 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('getLocalMinutesOfDay', () => {
+    it('reads the wall clock in the given timezone', () => {
+      expect(getLocalMinutesOfDay(new Date('2026-01-15T03:45:00Z'), 'Asia/Kolkata')).toBe(9 * 60 + 15);
+    });
+  });
+
+  describe('getWeekStart', () => {
+    it('returns the Monday of the week', () => {
+      expect(formatDay(getWeekStart(parseDay('2026-10-18')))).toBe('2026-10-12');
+      expect(formatDay(getWeekStart(parseDay('2026-10-19')))).toBe('2026-10-19');
+    });
+  });
+
+  describe('parseDay', () => {
+    it('drops the time from ISO timestamps', () => {
+      expect(parseDay('2026-10-19T23:59:00+05:30').toISOString()).toBe('2026-10-19T00:00:00.000Z');
+    });
+  });
+
+  describe('resolveTimezone', () => {
+    it('skips invalid candidates', () => {
+      expect(resolveTimezone('Not/AZone', null, 'Europe/Berlin')).toBe('Europe/Berlin');
+    });
+
+    it('falls back to the default timezone', () => {
+      expect(resolveTimezone(undefined, 'bogus')).toBe('Asia/Kolkata');
+    });
+  });
+
+  describe('uniqueDays', () => {
+    it('removes duplicate days', () => {
+      const day = parseDay('2026-10-19');
+      expect(uniqueDays([day, parseDay('2026-10-19'), addDays(day, 1)])).toHaveLength(2);
+    });
+  });
+});
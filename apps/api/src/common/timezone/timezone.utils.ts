@@ -0,0 +1,188 @@
+/**
+ * Timezone Utilities
+ *
+ * Calendar-day and wall-clock helpers built on Intl so that "which day is
+ * this" and "what time was this" are answered in an employee's own
+ * timezone rather than the server's.
+ *
+ * Attendance days are stored in `@db.Date` columns. A local calendar day is
+ * represented as a Date at UTC midnight of that day, which is exactly what
+ * Prisma reads and writes for date-only columns.
+ */
+
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface ZonedDateParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0 (Sunday) - 6 (Saturday) */
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is an IANA timezone known to the runtime
+ */
+export function isValidTimezone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the first valid timezone (e.g. profile, then company), else the default
+ */
+export function resolveTimezone(...candidates: Array<string | null | undefined>): string {
+  return candidates.find(isValidTimezone) ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get the wall-clock parts of an instant in a timezone
+ */
+export function getZonedParts(instant: Date, timeZone: string): ZonedDateParts {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+/**
+ * Get the local calendar day of an instant, as a UTC-midnight Date
+ */
+export function toLocalDay(instant: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Parse a `YYYY-MM-DD` string (or ISO timestamp) into a UTC-midnight day
+ */
+export function parseDay(value: string | Date): Date {
+  const date = typeof value === 'string' ? new Date(value.slice(0, 10)) : value;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Format a UTC-midnight day as `YYYY-MM-DD`
+ */
+export function formatDay(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Format a UTC-midnight day for display, e.g. "Oct 18, 2026"
+ */
+export function formatDayLabel(day: Date): string {
+  return day.toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Shift a UTC-midnight day by a number of days
+ */
+export function addDays(day: Date, amount: number): Date {
+  return new Date(day.getTime() + amount * DAY_MS);
+}
+
+/**
+ * Monday of the week containing a UTC-midnight day
+ */
+export function getWeekStart(day: Date): Date {
+  return addDays(day, -((day.getUTCDay() + 6) % 7));
+}
+
+/**
+ * Minutes since local midnight for an instant (e.g. 9:15 AM -> 555)
+ */
+export function getLocalMinutesOfDay(instant: Date, timeZone: string): number {
+  const { hour, minute } = getZonedParts(instant, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in minutes
+ */
+export function getTimezoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const p = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((asUtc - truncated) / MINUTE_MS);
+}
+
+/**
+ * Convert a wall-clock time on a local day to the instant it happens
+ * Re-checks the offset once so times next to a DST transition land correctly.
+ */
+export function localTimeToUtc(day: Date, minutesOfDay: number, timeZone: string): Date {
+  const wallClock = parseDay(day).getTime() + minutesOfDay * MINUTE_MS;
+  const offset = getTimezoneOffsetMinutes(new Date(wallClock), timeZone);
+  const candidate = wallClock - offset * MINUTE_MS;
+  const correctedOffset = getTimezoneOffsetMinutes(new Date(candidate), timeZone);
+
+  return new Date(wallClock - correctedOffset * MINUTE_MS);
+}
+
+/**
+ * Get the first and last instant (exclusive) of a local day
+ */
+export function getLocalDayBounds(day: Date, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: localTimeToUtc(day, 0, timeZone),
+    end: localTimeToUtc(addDays(parseDay(day), 1), 0, timeZone),
+  };
+}
+
+/**
+ * De-duplicate a list of days (e.g. the local "today" of several users)
+ */
+export function uniqueDays(days: Iterable<Date>): Date[] {
+  const times = new Set(Array.from(days, (d) => d.getTime()));
+  return Array.from(times, (t) => new Date(t));
+}
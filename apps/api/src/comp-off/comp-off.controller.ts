@@ -0,0 +1,87 @@
+/**
+ * Comp-Off Controller
+ *
+ * Endpoints for the comp-off ledger and manager confirmation of credits.
+ */
+
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { CompOffCreditStatus, UserRole } from '@prisma/client';
+
+import { CompOffService } from './comp-off.service';
+import { ApproveCompOffCreditDto, RejectCompOffCreditDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Comp-Off')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('comp-off')
+export class CompOffController {
+  constructor(private readonly compOffService: CompOffService) {}
+
+  /**
+   * Get own comp-off credits
+   */
+  @Get('credits/my')
+  @ApiOperation({ summary: 'Get my comp-off credits' })
+  @ApiQuery({ name: 'status', required: false, enum: CompOffCreditStatus })
+  async getMine(
+    @CurrentUser() user: any,
+    @Query('status') status?: CompOffCreditStatus,
+  ) {
+    const result = await this.compOffService.getMyCredits(user.id, status);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Credits awaiting confirmation
+   */
+  @Get('credits/pending')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Get comp-off credits awaiting confirmation' })
+  async getPending(@CurrentUser() user: any) {
+    const result = await this.compOffService.getPendingCredits(user);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Confirm a credit and add it to the leave balance
+   */
+  @Patch('credits/:id/approve')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Confirm comp-off credit' })
+  async approve(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: ApproveCompOffCreditDto,
+  ) {
+    const result = await this.compOffService.approveCredit(id, user, dto.notes);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Reject a credit
+   */
+  @Patch('credits/:id/reject')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Reject comp-off credit' })
+  async reject(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: RejectCompOffCreditDto,
+  ) {
+    const result = await this.compOffService.rejectCredit(id, user, dto.reason);
+    return { success: true, data: result };
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Comp-Off Module
+ *
+ * Compensatory-off credits for work on holidays and non-working days,
+ * confirmed by the employee's manager.
+ */
+
+import { Module } from '@nestjs/common';
+import { CompOffService } from './comp-off.service';
+import { CompOffController } from './comp-off.controller';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { WorkSchedulesModule } from '../work-schedules/work-schedules.module';
+
+@Module({
+  imports: [NotificationsModule, WorkSchedulesModule],
+  controllers: [CompOffController],
+  providers: [CompOffService],
+  exports: [CompOffService],
+})
+export class CompOffModule {}
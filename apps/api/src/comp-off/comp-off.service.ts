@@ -0,0 +1,477 @@
+/**
+ * Comp-Off Service
+ *
+ * Credits compensatory off for work on company holidays and non-working
+ * days, for companies that enable it in their work policy. An hourly job
+ * turns each qualifying day into a pending credit (half or full day,
+ * depending on minutes worked); once the employee's manager confirms it,
+ * the credit is added to their CompOff leave balance. Leave taken from the
+ * balance is charged to credits oldest-expiring first, and each credit's
+ * unused remainder is removed from the balance when it expires.
+ */
+
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  CompOffCredit,
+  CompOffCreditStatus,
+  CompOffSource,
+  LeaveTypeCode,
+  NotificationType,
+  Prisma,
+  UserRole,
+  WorkPolicy,
+} from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { WorkSchedulesService } from '../work-schedules/work-schedules.service';
+import { getScheduledDay } from '../work-schedules/work-schedule.utils';
+import {
+  addDays,
+  formatDay,
+  formatDayLabel,
+  parseDay,
+  toLocalDay,
+} from '../common/timezone/timezone.utils';
+
+/** Look back this far for worked days, so late check-outs and corrections are picked up */
+const ACCRUAL_LOOKBACK_DAYS = 7;
+
+export interface CompOffActor {
+  id: string;
+  companyId: string;
+  role: UserRole;
+}
+
+/** Credits are whole or half days; avoid float drift when adding them up */
+function roundDays(days: number): number {
+  return Math.round(days * 10) / 10;
+}
+
+@Injectable()
+export class CompOffService {
+  private readonly logger = new Logger(CompOffService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+    private timezoneService: TimezoneService,
+    private workSchedulesService: WorkSchedulesService,
+  ) {}
+
+  /**
+   * Accrual job - runs hourly so each timezone is credited soon after its day ends
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async accrueCredits() {
+    const policies = await this.prisma.workPolicy.findMany({
+      where: { compOffEnabled: true },
+    });
+
+    for (const policy of policies) {
+      try {
+        const created = await this.accrueCreditsForCompany(policy);
+        if (created > 0) {
+          this.logger.log(`Created ${created} comp-off credit(s) for company ${policy.companyId}`);
+        }
+      } catch (error) {
+        this.logger.error(`Comp-off accrual failed for company ${policy.companyId}`, error);
+      }
+    }
+  }
+
+  /**
+   * Create pending credits for finished holidays and non-working days
+   * worked by employees of one company. Days that already have a credit
+   * are skipped, so reruns are safe.
+   */
+  async accrueCreditsForCompany(policy: WorkPolicy, now = new Date()): Promise<number> {
+    const start = addDays(parseDay(now), -ACCRUAL_LOOKBACK_DAYS);
+
+    const days = await this.prisma.attendanceDay.findMany({
+      where: {
+        user: { companyId: policy.companyId, isActive: true },
+        date: { gte: start },
+        totalWorkMinutes: { gte: policy.compOffHalfDayMinutes },
+        compOffCredit: { is: null },
+      },
+      include: { user: { include: { profile: true } } },
+    });
+    if (days.length === 0) return 0;
+
+    const userIds = [...new Set(days.map((d) => d.userId))];
+    const [timezones, schedules, holidays] = await Promise.all([
+      this.timezoneService.getUserTimezones(userIds),
+      this.workSchedulesService.resolveForUsers(userIds),
+      this.prisma.holiday.findMany({
+        where: { companyId: policy.companyId, isOptional: false, date: { gte: start } },
+      }),
+    ]);
+    const holidaysByDay = new Map(holidays.map((h) => [formatDay(h.date), h]));
+
+    let created = 0;
+
+    for (const day of days) {
+      // Only credit days that are over in the employee's timezone
+      if (day.date >= toLocalDay(now, timezones.get(day.userId)!)) continue;
+
+      const holiday = holidaysByDay.get(formatDay(day.date));
+      let source: CompOffSource;
+      if (holiday) {
+        source = CompOffSource.Holiday;
+      } else if (!getScheduledDay(schedules.get(day.userId)!, day.date).isWorkingDay) {
+        source = CompOffSource.NonWorkingDay;
+      } else {
+        continue;
+      }
+
+      const creditDays = day.totalWorkMinutes >= policy.compOffFullDayMinutes ? 1 : 0.5;
+
+      const credit = await this.prisma.compOffCredit.create({
+        data: {
+          userId: day.userId,
+          companyId: policy.companyId,
+          attendanceDayId: day.id,
+          date: day.date,
+          source,
+          holidayId: holiday?.id,
+          workedMinutes: day.totalWorkMinutes,
+          days: creditDays,
+          expiresAt: addDays(day.date, policy.compOffExpiryDays),
+        },
+      });
+      created++;
+
+      const occasion = holiday ? holiday.name : 'a non-working day';
+      await this.notifications.sendToUsers(
+        await this.getReviewerIds(policy.companyId, day.user.profile?.managerId),
+        {
+          type: NotificationType.System,
+          title: 'Comp-Off Needs Confirmation',
+          body: `${this.toEmployeeName(day.user)} worked ${this.formatMinutes(day.totalWorkMinutes)} on ${occasion} (${formatDayLabel(day.date)}). Confirm ${this.formatDays(creditDays)} of comp-off.`,
+          data: { compOffCreditId: credit.id },
+          actionUrl: '/leaves/comp-off',
+        },
+      );
+    }
+
+    return created;
+  }
+
+  /**
+   * Expiry job - removes unused expired credits from leave balances
+   */
+  @Cron('0 1 * * *')
+  async expireCredits(now = new Date()) {
+    const today = parseDay(now);
+
+    const credits = await this.prisma.compOffCredit.findMany({
+      where: {
+        status: { in: [CompOffCreditStatus.Pending, CompOffCreditStatus.Approved] },
+        expiresAt: { lt: today },
+      },
+      orderBy: { expiresAt: 'asc' },
+    });
+
+    for (const credit of credits) {
+      try {
+        await this.expireCredit(credit);
+      } catch (error) {
+        this.logger.error(`Failed to expire comp-off credit ${credit.id}`, error);
+      }
+    }
+  }
+
+  /**
+   * Get own comp-off ledger
+   */
+  async getMyCredits(userId: string, status?: CompOffCreditStatus) {
+    return this.prisma.compOffCredit.findMany({
+      where: { userId, ...(status && { status }) },
+      include: {
+        holiday: { select: { id: true, name: true } },
+        reviewer: { include: { profile: true } },
+      },
+      orderBy: { date: 'desc' },
+    });
+  }
+
+  /**
+   * Pending credits a reviewer can confirm
+   * Managers see their direct reports; HR and admins see the whole company.
+   */
+  async getPendingCredits(viewer: CompOffActor) {
+    return this.prisma.compOffCredit.findMany({
+      where: {
+        companyId: viewer.companyId,
+        status: CompOffCreditStatus.Pending,
+        userId: { not: viewer.id },
+        ...(viewer.role === UserRole.Manager && {
+          user: { profile: { managerId: viewer.id } },
+        }),
+      },
+      include: {
+        user: { include: { profile: true } },
+        holiday: { select: { id: true, name: true } },
+      },
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  /**
+   * Confirm a credit and add it to the employee's CompOff leave balance
+   */
+  async approveCredit(id: string, reviewer: CompOffActor, notes?: string) {
+    const credit = await this.getReviewableCredit(id, reviewer);
+
+    const today = await this.timezoneService.getUserToday(credit.userId);
+    if (credit.expiresAt < today) {
+      throw new BadRequestException('This comp-off credit has already expired');
+    }
+
+    const leaveType = await this.prisma.leaveTypeConfig.findFirst({
+      where: { companyId: reviewer.companyId, code: LeaveTypeCode.CompOff, isActive: true },
+    });
+    if (!leaveType) {
+      throw new BadRequestException('No active Comp Off leave type is configured');
+    }
+
+    // Credit the balance of the year the day was worked, not the year it is confirmed
+    const year = credit.date.getUTCFullYear();
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const balance = await tx.leaveBalance.upsert({
+        where: {
+          userId_leaveTypeId_year: { userId: credit.userId, leaveTypeId: leaveType.id, year },
+        },
+        create: { userId: credit.userId, leaveTypeId: leaveType.id, year, allocated: credit.days },
+        update: { allocated: { increment: credit.days } },
+      });
+
+      const approved = await tx.compOffCredit.update({
+        where: { id },
+        data: {
+          status: CompOffCreditStatus.Approved,
+          leaveBalanceId: balance.id,
+          reviewedBy: reviewer.id,
+          reviewedAt: new Date(),
+          reviewNotes: notes,
+        },
+      });
+
+      // Leave already taken from the balance may be charged to this credit
+      const usage = await this.chargeUsage(tx, balance.id);
+      return { ...approved, usedDays: new Prisma.Decimal(usage.get(id) ?? 0) };
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: reviewer.id,
+        action: 'CompOffApproved',
+        entityType: 'CompOffCredit',
+        entityId: id,
+        before: { status: credit.status },
+        after: {
+          status: updated.status,
+          days: Number(updated.days),
+          leaveBalanceId: updated.leaveBalanceId,
+        },
+        reason: notes,
+      },
+    });
+
+    await this.notifications.sendToUser(credit.userId, {
+      type: NotificationType.TimeOffApproved,
+      title: 'Comp-Off Credited',
+      body: `${this.formatDays(Number(credit.days))} of comp-off for ${formatDayLabel(credit.date)} was added to your leave balance. Use it by ${formatDayLabel(credit.expiresAt)}.`,
+      data: { compOffCreditId: id },
+      actionUrl: '/leaves',
+    });
+
+    return updated;
+  }
+
+  /**
+   * Reject a credit
+   */
+  async rejectCredit(id: string, reviewer: CompOffActor, reason: string) {
+    const credit = await this.getReviewableCredit(id, reviewer);
+
+    const updated = await this.prisma.compOffCredit.update({
+      where: { id },
+      data: {
+        status: CompOffCreditStatus.Rejected,
+        reviewedBy: reviewer.id,
+        reviewedAt: new Date(),
+        rejectionReason: reason,
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: reviewer.id,
+        action: 'CompOffRejected',
+        entityType: 'CompOffCredit',
+        entityId: id,
+        before: { status: credit.status },
+        after: { status: updated.status },
+        reason,
+      },
+    });
+
+    await this.notifications.sendToUser(credit.userId, {
+      type: NotificationType.TimeOffRejected,
+      title: 'Comp-Off Not Credited',
+      body: `Comp-off for ${formatDayLabel(credit.date)} was not confirmed: ${reason}`,
+      data: { compOffCreditId: id },
+      actionUrl: '/leaves',
+    });
+
+    return updated;
+  }
+
+  /**
+   * Expire one credit, taking back whatever part of it is still unused
+   */
+  private async expireCredit(credit: CompOffCredit) {
+    const expiredDays = await this.prisma.$transaction(async (tx) => {
+      let unusedDays = 0;
+
+      if (credit.status === CompOffCreditStatus.Approved && credit.leaveBalanceId) {
+        const usage = await this.chargeUsage(tx, credit.leaveBalanceId);
+        unusedDays = roundDays(Number(credit.days) - (usage.get(credit.id) ?? 0));
+      }
+
+      if (unusedDays > 0) {
+        await tx.leaveBalance.update({
+          where: { id: credit.leaveBalanceId! },
+          data: { allocated: { decrement: unusedDays } },
+        });
+      }
+
+      await tx.compOffCredit.update({
+        where: { id: credit.id },
+        data: { status: CompOffCreditStatus.Expired, expiredDays: unusedDays },
+      });
+
+      return unusedDays;
+    });
+
+    if (expiredDays > 0) {
+      await this.notifications.sendToUser(credit.userId, {
+        type: NotificationType.System,
+        title: 'Comp-Off Expired',
+        body: `${this.formatDays(expiredDays)} of unused comp-off earned on ${formatDayLabel(credit.date)} has expired`,
+        data: { compOffCreditId: credit.id },
+        actionUrl: '/leaves',
+      });
+    }
+  }
+
+  /**
+   * Charge the balance's used and pending days to its confirmed credits,
+   * oldest-expiring first, and return the days charged to each live credit.
+   * Expired credits keep what was charged to them when they expired.
+   */
+  private async chargeUsage(tx: Prisma.TransactionClient, leaveBalanceId: string) {
+    const balance = await tx.leaveBalance.findUniqueOrThrow({
+      where: { id: leaveBalanceId },
+      include: {
+        compOffCredits: {
+          where: { status: { in: [CompOffCreditStatus.Approved, CompOffCreditStatus.Expired] } },
+          orderBy: [{ expiresAt: 'asc' }, { date: 'asc' }],
+        },
+      },
+    });
+
+    const chargedToExpired = balance.compOffCredits
+      .filter((c) => c.status === CompOffCreditStatus.Expired)
+      .reduce((sum, c) => sum + Number(c.usedDays), 0);
+    let uncharged = Number(balance.used) + Number(balance.pending) - chargedToExpired;
+
+    const usage = new Map<string, number>();
+    for (const credit of balance.compOffCredits) {
+      if (credit.status !== CompOffCreditStatus.Approved) continue;
+
+      const usedDays = roundDays(Math.min(Number(credit.days), Math.max(0, uncharged)));
+      uncharged -= usedDays;
+      usage.set(credit.id, usedDays);
+
+      if (usedDays !== Number(credit.usedDays)) {
+        await tx.compOffCredit.update({ where: { id: credit.id }, data: { usedDays } });
+      }
+    }
+
+    return usage;
+  }
+
+  /**
+   * Load a pending credit and check the reviewer may act on it
+   */
+  private async getReviewableCredit(id: string, reviewer: CompOffActor) {
+    const credit = await this.prisma.compOffCredit.findFirst({
+      where: { id, companyId: reviewer.companyId },
+      include: { user: { include: { profile: true } } },
+    });
+
+    if (!credit) {
+      throw new NotFoundException('Comp-off credit not found');
+    }
+
+    if (credit.status !== CompOffCreditStatus.Pending) {
+      throw new BadRequestException('Credit is not pending');
+    }
+
+    if (credit.userId === reviewer.id) {
+      throw new ForbiddenException('You cannot confirm your own comp-off');
+    }
+
+    if (reviewer.role === UserRole.HR || reviewer.role === UserRole.SuperAdmin) {
+      return credit;
+    }
+
+    if (reviewer.role !== UserRole.Manager || credit.user.profile?.managerId !== reviewer.id) {
+      throw new ForbiddenException('You can only confirm comp-off for your direct reports');
+    }
+
+    return credit;
+  }
+
+  /**
+   * The employee's manager, or HR when no manager is assigned
+   */
+  private async getReviewerIds(companyId: string, managerId?: string | null) {
+    if (managerId) {
+      return [managerId];
+    }
+
+    const hrUsers = await this.prisma.user.findMany({
+      where: { companyId, role: UserRole.HR, isActive: true },
+      select: { id: true },
+    });
+
+    return hrUsers.map((u) => u.id);
+  }
+
+  private toEmployeeName(user: { email: string; profile: { firstName: string; lastName: string } | null }) {
+    return user.profile ? `${user.profile.firstName} ${user.profile.lastName}` : user.email;
+  }
+
+  private formatMinutes(minutes: number) {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+  }
+
+  private formatDays(days: number) {
+    return days === 1 ? '1 day' : `${days} days`;
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Comp-Off DTOs barrel export
+ */
+
+export * from './review-comp-off-credit.dto';
@@ -0,0 +1,19 @@
+/**
+ * Review Comp-Off Credit DTOs
+ */
+
+import { IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApproveCompOffCreditDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class RejectCompOffCreditDto {
+  @ApiProperty()
+  @IsString()
+  reason: string;
+}
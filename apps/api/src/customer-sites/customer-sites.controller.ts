@@ -0,0 +1,191 @@
+/**
+ * Customer Sites Controller
+ *
+ * Customer site registry (HR/Admin manage, everyone can pick a site at
+ * check-in), visit photo proof, and visit history and time-on-site reports
+ * for managers.
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery, ApiConsumes } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+import { CustomerSitesService } from './customer-sites.service';
+import { SiteVisitsService, MAX_PHOTO_SIZE } from './site-visits.service';
+import { CreateCustomerSiteDto } from './dto/create-customer-site.dto';
+import { UpdateCustomerSiteDto } from './dto/update-customer-site.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Customer Sites')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('customer-sites')
+export class CustomerSitesController {
+  constructor(
+    private readonly customerSitesService: CustomerSitesService,
+    private readonly siteVisitsService: SiteVisitsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List customer sites' })
+  @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+  @ApiQuery({ name: 'projectId', required: false })
+  async findAll(
+    @CurrentUser() user: any,
+    @Query('includeInactive') includeInactive?: string,
+    @Query('projectId') projectId?: string,
+  ) {
+    const canSeeInactive = user.role === UserRole.HR || user.role === UserRole.SuperAdmin;
+    const result = await this.customerSitesService.findAll(user.companyId, {
+      includeInactive: canSeeInactive && includeInactive === 'true',
+      projectId,
+    });
+    return { success: true, data: result };
+  }
+
+  @Get('visits/me')
+  @ApiOperation({ summary: 'Get my customer site visits' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'YYYY-MM-DD (default: 30 days ago)' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'YYYY-MM-DD (default: today)' })
+  async getMyVisits(
+    @CurrentUser() user: any,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    const result = await this.siteVisitsService.getMyVisits(user.id, { startDate, endDate });
+    return { success: true, data: result };
+  }
+
+  /**
+   * Attach photo proof to the caller's open site visit
+   */
+  @Post('visits/current/photo')
+  @ApiOperation({ summary: 'Attach a photo to my open site visit' })
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('photo', { limits: { fileSize: MAX_PHOTO_SIZE } }))
+  async attachPhoto(
+    @CurrentUser() user: any,
+    @UploadedFile() photo: Express.Multer.File,
+  ) {
+    if (!photo) {
+      throw new BadRequestException('Upload the photo as "photo"');
+    }
+
+    const result = await this.siteVisitsService.attachPhoto(user.id, photo);
+    return { success: true, data: result };
+  }
+
+  @Get('visits/:visitId/photo')
+  @ApiOperation({ summary: 'Get a download URL for a site visit photo' })
+  async getVisitPhoto(
+    @CurrentUser() user: any,
+    @Param('visitId') visitId: string,
+  ) {
+    const result = await this.siteVisitsService.getPhotoUrl(user, visitId);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Time on site per site and employee, for client billing
+   */
+  @Get('reports/time-on-site')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Time-on-site report per customer site' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'YYYY-MM-DD (default: 30 days ago)' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'YYYY-MM-DD (default: today)' })
+  @ApiQuery({ name: 'projectId', required: false })
+  @ApiQuery({ name: 'customerSiteId', required: false })
+  async getTimeOnSiteReport(
+    @CurrentUser() user: any,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('projectId') projectId?: string,
+    @Query('customerSiteId') customerSiteId?: string,
+  ) {
+    const result = await this.siteVisitsService.getTimeOnSiteReport(user, {
+      startDate,
+      endDate,
+      projectId,
+      customerSiteId,
+    });
+    return { success: true, data: result };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get customer site by ID' })
+  async findOne(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+  ) {
+    const result = await this.customerSitesService.findOne(id, user.companyId);
+    return { success: true, data: result };
+  }
+
+  @Get(':id/visits')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Get visit history of a customer site' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'YYYY-MM-DD (default: 30 days ago)' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'YYYY-MM-DD (default: today)' })
+  @ApiQuery({ name: 'userId', required: false })
+  async getSiteVisits(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('userId') userId?: string,
+  ) {
+    const result = await this.siteVisitsService.getSiteVisits(user, id, { startDate, endDate, userId });
+    return { success: true, data: result };
+  }
+
+  @Post()
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Create customer site (HR/Admin)' })
+  async create(
+    @CurrentUser() user: any,
+    @Body() dto: CreateCustomerSiteDto,
+  ) {
+    const result = await this.customerSitesService.create(user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Update customer site (HR/Admin)' })
+  async update(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Body() dto: UpdateCustomerSiteDto,
+  ) {
+    const result = await this.customerSitesService.update(id, user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Deactivate customer site (HR/Admin)' })
+  async remove(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+  ) {
+    const result = await this.customerSitesService.remove(id, user.companyId, user.id);
+    return { success: true, data: result };
+  }
+}
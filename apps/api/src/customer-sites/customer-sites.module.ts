@@ -0,0 +1,20 @@
+/**
+ * Customer Sites Module
+ *
+ * Customer site registry and site visit records for CustomerSite and
+ * FieldVisit check-ins.
+ */
+
+import { Module } from '@nestjs/common';
+import { CustomerSitesController } from './customer-sites.controller';
+import { CustomerSitesService } from './customer-sites.service';
+import { SiteVisitsService } from './site-visits.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [StorageModule],
+  controllers: [CustomerSitesController],
+  providers: [CustomerSitesService, SiteVisitsService],
+  exports: [CustomerSitesService, SiteVisitsService],
+})
+export class CustomerSitesModule {}
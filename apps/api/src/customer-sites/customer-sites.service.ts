@@ -0,0 +1,158 @@
+/**
+ * Customer Sites Service
+ *
+ * Registry of customer sites employees check in at with the CustomerSite
+ * and FieldVisit work modes. Sites can be linked to a project so visit time
+ * can be billed to the client. All operations are scoped to company.
+ */
+
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { CustomerSite } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateCustomerSiteDto } from './dto/create-customer-site.dto';
+import { UpdateCustomerSiteDto } from './dto/update-customer-site.dto';
+
+const PROJECT_SELECT = { select: { id: true, name: true, code: true } } as const;
+
+@Injectable()
+export class CustomerSitesService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Get customer sites for a company
+   */
+  async findAll(companyId: string, options: { includeInactive?: boolean; projectId?: string } = {}) {
+    return this.prisma.customerSite.findMany({
+      where: {
+        companyId,
+        ...(options.includeInactive ? {} : { isActive: true }),
+        ...(options.projectId && { projectId: options.projectId }),
+      },
+      include: { project: PROJECT_SELECT },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Get a single customer site by ID
+   */
+  async findOne(id: string, companyId: string) {
+    const site = await this.prisma.customerSite.findFirst({
+      where: { id, companyId },
+      include: { project: PROJECT_SELECT },
+    });
+
+    if (!site) {
+      throw new NotFoundException('Customer site not found');
+    }
+
+    return site;
+  }
+
+  /**
+   * Create a new customer site
+   */
+  async create(companyId: string, userId: string, dto: CreateCustomerSiteDto) {
+    if (dto.projectId) {
+      await this.assertProject(companyId, dto.projectId);
+    }
+
+    const site = await this.prisma.customerSite.create({
+      data: { companyId, ...dto },
+      include: { project: PROJECT_SELECT },
+    });
+
+    // Create audit log entry
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: userId,
+        action: 'CREATE',
+        entityType: 'CustomerSite',
+        entityId: site.id,
+        after: this.toSnapshot(site),
+      },
+    });
+
+    return site;
+  }
+
+  /**
+   * Update an existing customer site
+   */
+  async update(id: string, companyId: string, userId: string, dto: UpdateCustomerSiteDto) {
+    const existing = await this.findOne(id, companyId);
+    if (dto.projectId) {
+      await this.assertProject(companyId, dto.projectId);
+    }
+
+    const updated = await this.prisma.customerSite.update({
+      where: { id },
+      data: dto,
+      include: { project: PROJECT_SELECT },
+    });
+
+    // Create audit log entry
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: userId,
+        action: 'UPDATE',
+        entityType: 'CustomerSite',
+        entityId: id,
+        before: this.toSnapshot(existing),
+        after: this.toSnapshot(updated),
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Soft delete a customer site by setting isActive = false
+   */
+  async remove(id: string, companyId: string, userId: string) {
+    const existing = await this.findOne(id, companyId);
+
+    const updated = await this.prisma.customerSite.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    // Create audit log entry
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: userId,
+        action: 'DELETE',
+        entityType: 'CustomerSite',
+        entityId: id,
+        before: { name: existing.name, isActive: true },
+        after: { name: updated.name, isActive: false },
+      },
+    });
+
+    return updated;
+  }
+
+  private async assertProject(companyId: string, projectId: string) {
+    const project = await this.prisma.project.findFirst({
+      where: { id: projectId, companyId },
+    });
+
+    if (!project) {
+      throw new BadRequestException('Project not found');
+    }
+  }
+
+  private toSnapshot(site: CustomerSite) {
+    return {
+      name: site.name,
+      customerName: site.customerName,
+      address: site.address,
+      latitude: Number(site.latitude),
+      longitude: Number(site.longitude),
+      radiusMeters: site.radiusMeters,
+      projectId: site.projectId,
+      isActive: site.isActive,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsUUID,
+  MinLength,
+  MaxLength,
+  Min,
+  Max,
+  IsLatitude,
+  IsLongitude,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateCustomerSiteDto {
+  @ApiProperty({ minLength: 2, maxLength: 100, description: 'Site name' })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ maxLength: 100, description: 'Customer the site belongs to' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  customerName?: string;
+
+  @ApiProperty({ minLength: 5, maxLength: 500, description: 'Site address' })
+  @IsString()
+  @MinLength(5)
+  @MaxLength(500)
+  address: string;
+
+  @ApiProperty({ description: 'Latitude coordinate (-90 to 90)' })
+  @IsNumber()
+  @IsLatitude()
+  latitude: number;
+
+  @ApiProperty({ description: 'Longitude coordinate (-180 to 180)' })
+  @IsNumber()
+  @IsLongitude()
+  longitude: number;
+
+  @ApiPropertyOptional({
+    minimum: 50,
+    maximum: 5000,
+    default: 200,
+    description: 'Check-ins within this distance count as on site',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(50)
+  @Max(5000)
+  radiusMeters?: number;
+
+  @ApiPropertyOptional({ description: 'Project the site visits are billed to' })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+}
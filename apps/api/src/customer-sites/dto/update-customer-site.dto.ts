@@ -0,0 +1,11 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CreateCustomerSiteDto } from './create-customer-site.dto';
+
+export class UpdateCustomerSiteDto extends PartialType(CreateCustomerSiteDto) {
+  @ApiPropertyOptional({ description: 'Whether the site is active' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,366 @@
+/**
+ * Site Visits Service
+ *
+ * Records visits to customer sites. A visit opens when an employee checks in
+ * at a site (CustomerSite or FieldVisit work mode) and closes with the
+ * matching check-out, giving time-on-site for client billing. Employees may
+ * attach a photo as proof of presence.
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { AttendanceEvent, CustomerSite, Prisma, UserRole, WorkMode } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { calculateDistance } from '../attendance/geofence.utils';
+import { addDays, parseDay } from '../common/timezone/timezone.utils';
+
+/** Work modes that can be tied to a customer site */
+export const SITE_VISIT_WORK_MODES: WorkMode[] = [WorkMode.CustomerSite, WorkMode.FieldVisit];
+
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+export const MAX_PHOTO_SIZE = 10 * 1024 * 1024; // 10 MB
+
+/** Default report window when no dates are given */
+const DEFAULT_RANGE_DAYS = 30;
+
+export interface SiteVisitViewer {
+  id: string;
+  companyId: string;
+  role: UserRole;
+}
+
+export interface VisitRangeOptions {
+  startDate?: string;
+  endDate?: string;
+}
+
+const VISIT_INCLUDE = {
+  customerSite: true,
+  checkInEvent: { select: { workMode: true } },
+  user: { select: { email: true, profile: { select: { firstName: true, lastName: true } } } },
+} as const;
+
+type VisitWithRelations = Prisma.SiteVisitGetPayload<{ include: typeof VISIT_INCLUDE }>;
+
+@Injectable()
+export class SiteVisitsService {
+  constructor(
+    private prisma: PrismaService,
+    private storage: StorageService,
+  ) {}
+
+  /**
+   * Resolve the site for a check-in, rejecting sites the work mode can't use
+   */
+  async getSiteForCheckIn(companyId: string, workMode: WorkMode, customerSiteId: string) {
+    if (!SITE_VISIT_WORK_MODES.includes(workMode)) {
+      throw new BadRequestException('A customer site can only be chosen for CustomerSite or FieldVisit check-ins');
+    }
+
+    const site = await this.prisma.customerSite.findFirst({
+      where: { id: customerSiteId, companyId, isActive: true },
+    });
+
+    if (!site) {
+      throw new BadRequestException('Customer site not found');
+    }
+
+    return site;
+  }
+
+  /**
+   * Open a visit for a check-in at a customer site
+   */
+  async startVisit(userId: string, site: CustomerSite, checkInEvent: AttendanceEvent) {
+    const hasCoordinates =
+      checkInEvent.latitude != null &&
+      checkInEvent.longitude != null &&
+      !(Number(checkInEvent.latitude) === 0 && Number(checkInEvent.longitude) === 0);
+
+    return this.prisma.siteVisit.create({
+      data: {
+        customerSiteId: site.id,
+        userId,
+        checkInEventId: checkInEvent.id,
+        arrivedAt: checkInEvent.timestamp,
+        distanceMeters: hasCoordinates
+          ? Math.round(
+              calculateDistance(
+                Number(checkInEvent.latitude),
+                Number(checkInEvent.longitude),
+                Number(site.latitude),
+                Number(site.longitude),
+              ),
+            )
+          : null,
+        notes: checkInEvent.notes,
+      },
+    });
+  }
+
+  /**
+   * Close the visit opened by a check-in, if any
+   */
+  async endVisit(checkInEventId: string, checkOutEvent: AttendanceEvent) {
+    const visit = await this.prisma.siteVisit.findUnique({
+      where: { checkInEventId },
+    });
+
+    if (!visit || visit.departedAt) {
+      return null;
+    }
+
+    return this.prisma.siteVisit.update({
+      where: { id: visit.id },
+      data: {
+        checkOutEventId: checkOutEvent.id,
+        departedAt: checkOutEvent.timestamp,
+        durationMinutes: Math.max(
+          0,
+          Math.round((checkOutEvent.timestamp.getTime() - visit.arrivedAt.getTime()) / 60000),
+        ),
+      },
+    });
+  }
+
+  /**
+   * Attach photo proof to the employee's open visit, replacing any earlier photo
+   */
+  async attachPhoto(
+    userId: string,
+    file: { buffer: Buffer; originalname: string; mimetype: string; size: number },
+  ) {
+    if (!PHOTO_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException('Photo must be a JPEG, PNG, WebP or HEIC image');
+    }
+
+    const visit = await this.prisma.siteVisit.findFirst({
+      where: { userId, departedAt: null },
+      orderBy: { arrivedAt: 'desc' },
+    });
+
+    if (!visit) {
+      throw new BadRequestException('No open site visit - check in at a customer site first');
+    }
+
+    const upload = await this.storage.uploadFile(file, `site-visits/${visit.id}`);
+    if (visit.photoObjectKey) {
+      await this.storage.deleteFile(visit.photoObjectKey);
+    }
+
+    const updated = await this.prisma.siteVisit.update({
+      where: { id: visit.id },
+      data: { photoObjectKey: upload.objectKey, photoFileName: upload.fileName },
+      include: VISIT_INCLUDE,
+    });
+
+    return this.toVisitDto(updated);
+  }
+
+  /**
+   * Presigned URL for a visit's photo
+   */
+  async getPhotoUrl(viewer: SiteVisitViewer, visitId: string) {
+    const visit = await this.prisma.siteVisit.findFirst({
+      where: { id: visitId, customerSite: { companyId: viewer.companyId } },
+      include: { user: { select: { profile: { select: { managerId: true } } } } },
+    });
+
+    if (!visit) {
+      throw new NotFoundException('Site visit not found');
+    }
+
+    const canView =
+      visit.userId === viewer.id ||
+      viewer.role === UserRole.HR ||
+      viewer.role === UserRole.SuperAdmin ||
+      (viewer.role === UserRole.Manager && visit.user.profile?.managerId === viewer.id);
+    if (!canView) {
+      throw new ForbiddenException('You can only view visits of your direct reports');
+    }
+
+    if (!visit.photoObjectKey) {
+      throw new NotFoundException('This visit has no photo');
+    }
+
+    return { downloadUrl: await this.storage.getDownloadUrl(visit.photoObjectKey) };
+  }
+
+  /**
+   * The employee's own visits
+   */
+  async getMyVisits(userId: string, range: VisitRangeOptions) {
+    const visits = await this.prisma.siteVisit.findMany({
+      where: { userId, arrivedAt: this.toArrivalFilter(range) },
+      include: VISIT_INCLUDE,
+      orderBy: { arrivedAt: 'desc' },
+    });
+
+    return visits.map((v) => this.toVisitDto(v));
+  }
+
+  /**
+   * Visit history of a site; managers only see their direct reports
+   */
+  async getSiteVisits(
+    viewer: SiteVisitViewer,
+    customerSiteId: string,
+    options: VisitRangeOptions & { userId?: string },
+  ) {
+    const site = await this.prisma.customerSite.findFirst({
+      where: { id: customerSiteId, companyId: viewer.companyId },
+    });
+
+    if (!site) {
+      throw new NotFoundException('Customer site not found');
+    }
+
+    const visits = await this.prisma.siteVisit.findMany({
+      where: {
+        customerSiteId,
+        arrivedAt: this.toArrivalFilter(options),
+        ...(options.userId && { userId: options.userId }),
+        ...this.toViewerScope(viewer),
+      },
+      include: VISIT_INCLUDE,
+      orderBy: { arrivedAt: 'desc' },
+    });
+
+    return visits.map((v) => this.toVisitDto(v));
+  }
+
+  /**
+   * Time on site per site and employee; managers only see their direct reports
+   */
+  async getTimeOnSiteReport(
+    viewer: SiteVisitViewer,
+    options: VisitRangeOptions & { projectId?: string; customerSiteId?: string },
+  ) {
+    const arrivedAt = this.toArrivalFilter(options);
+
+    const visits = await this.prisma.siteVisit.findMany({
+      where: {
+        arrivedAt,
+        customerSite: {
+          companyId: viewer.companyId,
+          ...(options.projectId && { projectId: options.projectId }),
+        },
+        ...(options.customerSiteId && { customerSiteId: options.customerSiteId }),
+        ...this.toViewerScope(viewer),
+      },
+      include: {
+        ...VISIT_INCLUDE,
+        customerSite: { include: { project: { select: { id: true, name: true, code: true } } } },
+      },
+      orderBy: { arrivedAt: 'asc' },
+    });
+
+    const sites = new Map<
+      string,
+      {
+        site: { id: string; name: string; customerName: string | null; project: { id: string; name: string; code: string } | null };
+        visitCount: number;
+        openVisits: number;
+        totalMinutes: number;
+        employees: Map<string, { userId: string; employeeName: string; visitCount: number; totalMinutes: number }>;
+      }
+    >();
+
+    for (const visit of visits) {
+      const site = visit.customerSite;
+      if (!sites.has(site.id)) {
+        sites.set(site.id, {
+          site: { id: site.id, name: site.name, customerName: site.customerName, project: site.project },
+          visitCount: 0,
+          openVisits: 0,
+          totalMinutes: 0,
+          employees: new Map(),
+        });
+      }
+      const entry = sites.get(site.id)!;
+
+      if (!entry.employees.has(visit.userId)) {
+        entry.employees.set(visit.userId, {
+          userId: visit.userId,
+          employeeName: this.toEmployeeName(visit),
+          visitCount: 0,
+          totalMinutes: 0,
+        });
+      }
+      const employee = entry.employees.get(visit.userId)!;
+
+      entry.visitCount++;
+      employee.visitCount++;
+      if (visit.durationMinutes == null) {
+        entry.openVisits++;
+      } else {
+        entry.totalMinutes += visit.durationMinutes;
+        employee.totalMinutes += visit.durationMinutes;
+      }
+    }
+
+    return {
+      startDate: arrivedAt.gte.toISOString().slice(0, 10),
+      endDate: addDays(arrivedAt.lt, -1).toISOString().slice(0, 10),
+      sites: [...sites.values()]
+        .map(({ employees, ...entry }) => ({
+          ...entry,
+          employees: [...employees.values()].sort((a, b) => b.totalMinutes - a.totalMinutes),
+        }))
+        .sort((a, b) => b.totalMinutes - a.totalMinutes),
+    };
+  }
+
+  /**
+   * Inclusive YYYY-MM-DD range, defaulting to the last 30 days
+   */
+  private toArrivalFilter(range: VisitRangeOptions) {
+    const end = range.endDate ? parseDay(range.endDate) : parseDay(new Date());
+    const start = range.startDate ? parseDay(range.startDate) : addDays(end, -(DEFAULT_RANGE_DAYS - 1));
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new BadRequestException('Dates must be in YYYY-MM-DD format');
+    }
+    if (start > end) {
+      throw new BadRequestException('startDate must not be after endDate');
+    }
+
+    return { gte: start, lt: addDays(end, 1) };
+  }
+
+  private toViewerScope(viewer: SiteVisitViewer): Prisma.SiteVisitWhereInput {
+    return viewer.role === UserRole.Manager ? { user: { profile: { managerId: viewer.id } } } : {};
+  }
+
+  private toEmployeeName(visit: Pick<VisitWithRelations, 'user'>) {
+    return visit.user.profile
+      ? `${visit.user.profile.firstName} ${visit.user.profile.lastName}`
+      : visit.user.email;
+  }
+
+  private toVisitDto(visit: VisitWithRelations) {
+    return {
+      id: visit.id,
+      customerSiteId: visit.customerSiteId,
+      siteName: visit.customerSite.name,
+      customerName: visit.customerSite.customerName,
+      userId: visit.userId,
+      employeeName: this.toEmployeeName(visit),
+      workMode: visit.checkInEvent.workMode,
+      arrivedAt: visit.arrivedAt,
+      departedAt: visit.departedAt,
+      durationMinutes: visit.durationMinutes,
+      distanceMeters: visit.distanceMeters,
+      isOnSite: visit.distanceMeters == null ? null : visit.distanceMeters <= visit.customerSite.radiusMeters,
+      hasPhoto: !!visit.photoObjectKey,
+      photoFileName: visit.photoFileName,
+      notes: visit.notes,
+    };
+  }
+}
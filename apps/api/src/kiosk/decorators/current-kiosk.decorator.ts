@@ -0,0 +1,11 @@
+/**
+ * Current Kiosk Decorator
+ *
+ * Extracts the kiosk device authenticated by KioskAuthGuard.
+ */
+
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+export const CurrentKiosk = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) => ctx.switchToHttp().getRequest().kiosk ?? null,
+);
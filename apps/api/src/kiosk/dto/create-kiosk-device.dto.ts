@@ -0,0 +1,18 @@
+/**
+ * Create Kiosk Device DTO
+ */
+
+import { IsString, IsUUID, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateKioskDeviceDto {
+  @ApiProperty({ minLength: 2, maxLength: 100, description: 'Kiosk name, e.g. "Warehouse entrance"' })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ description: 'Office location the kiosk is locked to' })
+  @IsUUID()
+  officeLocationId: string;
+}
@@ -0,0 +1,7 @@
+/**
+ * Kiosk DTOs barrel export
+ */
+
+export * from './create-kiosk-device.dto';
+export * from './set-kiosk-pin.dto';
+export * from './kiosk-punch.dto';
@@ -0,0 +1,28 @@
+/**
+ * Kiosk Punch DTOs
+ *
+ * Every kiosk action identifies the employee by code and PIN; the kiosk
+ * keeps no employee session between actions.
+ */
+
+import { IsEnum, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BreakType } from '@prisma/client';
+
+export class KioskIdentifyDto {
+  @ApiProperty({ example: 'EMP042' })
+  @IsString()
+  @MaxLength(50)
+  employeeCode: string;
+
+  @ApiProperty({ example: '4821' })
+  @IsString()
+  @MaxLength(6)
+  pin: string;
+}
+
+export class KioskStartBreakDto extends KioskIdentifyDto {
+  @ApiProperty({ enum: BreakType })
+  @IsEnum(BreakType)
+  type: BreakType;
+}
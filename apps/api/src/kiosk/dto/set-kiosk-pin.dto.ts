@@ -0,0 +1,15 @@
+/**
+ * Set Kiosk PIN DTO
+ */
+
+import { IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const KIOSK_PIN_PATTERN = /^\d{4,6}$/;
+
+export class SetKioskPinDto {
+  @ApiProperty({ description: '4-6 digit PIN', example: '4821' })
+  @IsString()
+  @Matches(KIOSK_PIN_PATTERN, { message: 'PIN must be 4-6 digits' })
+  pin: string;
+}
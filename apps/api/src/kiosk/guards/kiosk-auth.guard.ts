@@ -0,0 +1,30 @@
+/**
+ * Kiosk Auth Guard
+ *
+ * Authenticates shared kiosks by their device token (X-Kiosk-Token
+ * header) instead of a user session. Routes using it must also be
+ * marked @Public() to bypass the global JWT guard.
+ */
+
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+
+import { KioskService } from '../kiosk.service';
+
+export const KIOSK_TOKEN_HEADER = 'x-kiosk-token';
+
+@Injectable()
+export class KioskAuthGuard implements CanActivate {
+  constructor(private kioskService: KioskService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const token = request.headers[KIOSK_TOKEN_HEADER];
+
+    if (typeof token !== 'string' || !token) {
+      throw new UnauthorizedException('Kiosk token required');
+    }
+
+    request.kiosk = await this.kioskService.authenticateDevice(token);
+    return true;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Kiosk Terminal Controller
+ *
+ * Endpoints called by the shared kiosk itself. Authenticated by the
+ * kiosk's device token; employees identify with employee code and PIN.
+ */
+
+import { Controller, Get, Post, Body, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiHeader } from '@nestjs/swagger';
+
+import { KioskService, AuthenticatedKiosk } from './kiosk.service';
+import { KioskIdentifyDto, KioskStartBreakDto } from './dto';
+import { KioskAuthGuard } from './guards/kiosk-auth.guard';
+import { CurrentKiosk } from './decorators/current-kiosk.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+
+@ApiTags('Kiosk')
+@ApiHeader({ name: 'X-Kiosk-Token', description: 'Kiosk device token', required: true })
+@Public()
+@UseGuards(KioskAuthGuard)
+@Controller('kiosk/terminal')
+export class KioskTerminalController {
+  constructor(private readonly kioskService: KioskService) {}
+
+  /**
+   * Kiosk name and location
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get this kiosk' })
+  async getKiosk(@CurrentKiosk() kiosk: AuthenticatedKiosk) {
+    return {
+      success: true,
+      data: { id: kiosk.id, name: kiosk.name, officeLocation: kiosk.officeLocation },
+    };
+  }
+
+  /**
+   * Identify an employee and get their current state
+   */
+  @Post('identify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Identify employee by code and PIN' })
+  async identify(@CurrentKiosk() kiosk: AuthenticatedKiosk, @Body() dto: KioskIdentifyDto) {
+    const result = await this.kioskService.identify(kiosk, dto);
+    return { success: true, data: result };
+  }
+
+  @Post('check-in')
+  @ApiOperation({ summary: 'Check in at this kiosk' })
+  async checkIn(@CurrentKiosk() kiosk: AuthenticatedKiosk, @Body() dto: KioskIdentifyDto) {
+    const result = await this.kioskService.checkIn(kiosk, dto);
+    return { success: true, data: result };
+  }
+
+  @Post('check-out')
+  @ApiOperation({ summary: 'Check out at this kiosk' })
+  async checkOut(@CurrentKiosk() kiosk: AuthenticatedKiosk, @Body() dto: KioskIdentifyDto) {
+    const result = await this.kioskService.checkOut(kiosk, dto);
+    return { success: true, data: result };
+  }
+
+  @Post('break/start')
+  @ApiOperation({ summary: 'Start a break at this kiosk' })
+  async startBreak(@CurrentKiosk() kiosk: AuthenticatedKiosk, @Body() dto: KioskStartBreakDto) {
+    const result = await this.kioskService.startBreak(kiosk, dto);
+    return { success: true, data: result };
+  }
+
+  @Post('break/end')
+  @ApiOperation({ summary: 'End the current break at this kiosk' })
+  async endBreak(@CurrentKiosk() kiosk: AuthenticatedKiosk, @Body() dto: KioskIdentifyDto) {
+    const result = await this.kioskService.endBreak(kiosk, dto);
+    return { success: true, data: result };
+  }
+}
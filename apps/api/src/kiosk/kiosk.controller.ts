@@ -0,0 +1,91 @@
+/**
+ * Kiosk Controller
+ *
+ * Kiosk registration for HR and kiosk PIN management.
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+import { KioskService } from './kiosk.service';
+import { CreateKioskDeviceDto, SetKioskPinDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Kiosk')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('kiosk')
+export class KioskController {
+  constructor(private readonly kioskService: KioskService) {}
+
+  /**
+   * List kiosks
+   */
+  @Get('devices')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'List kiosks' })
+  async listDevices(@CurrentUser() user: any) {
+    const result = await this.kioskService.listDevices(user.companyId);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Register a kiosk for an office location
+   */
+  @Post('devices')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Register kiosk (returns the device token once)' })
+  async createDevice(@CurrentUser() user: any, @Body() dto: CreateKioskDeviceDto) {
+    const result = await this.kioskService.createDevice(user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Deactivate a kiosk
+   */
+  @Delete('devices/:id')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Deactivate kiosk' })
+  async deactivateDevice(@Param('id') id: string, @CurrentUser() user: any) {
+    const result = await this.kioskService.deactivateDevice(id, user.companyId, user.id);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Set own kiosk PIN
+   */
+  @Patch('pin')
+  @ApiOperation({ summary: 'Set my kiosk PIN' })
+  async setOwnPin(@CurrentUser() user: any, @Body() dto: SetKioskPinDto) {
+    const result = await this.kioskService.setOwnPin(user.id, dto.pin);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Set an employee's kiosk PIN and clear any lockout
+   */
+  @Patch('users/:userId/pin')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: "Set an employee's kiosk PIN" })
+  async setPinForUser(
+    @Param('userId') userId: string,
+    @CurrentUser() user: any,
+    @Body() dto: SetKioskPinDto,
+  ) {
+    const result = await this.kioskService.setPinForUser(user.companyId, user.id, userId, dto.pin);
+    return { success: true, data: result };
+  }
+}
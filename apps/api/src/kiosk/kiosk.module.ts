@@ -0,0 +1,20 @@
+/**
+ * Kiosk Module
+ *
+ * Shared-device check-in: kiosks locked to an office location where
+ * employees punch in and out with their employee code and PIN.
+ */
+
+import { Module } from '@nestjs/common';
+import { KioskService } from './kiosk.service';
+import { KioskController } from './kiosk.controller';
+import { KioskTerminalController } from './kiosk-terminal.controller';
+import { KioskAuthGuard } from './guards/kiosk-auth.guard';
+import { AttendanceModule } from '../attendance/attendance.module';
+
+@Module({
+  imports: [AttendanceModule],
+  controllers: [KioskController, KioskTerminalController],
+  providers: [KioskService, KioskAuthGuard],
+})
+export class KioskModule {}
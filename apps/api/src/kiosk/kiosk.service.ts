@@ -0,0 +1,367 @@
+/**
+ * Kiosk Service
+ *
+ * Shared-device check-in for staff without company phones. HR registers a
+ * kiosk for one office location and receives a device token once; the
+ * kiosk authenticates with that token instead of a user session.
+ * Employees identify at the kiosk with their employee code and a PIN, and
+ * every event is stamped with the kiosk's location and KioskVerified.
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { WorkMode } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { AttendanceService, KioskStamp } from '../attendance/attendance.service';
+import { buildSessions, getOpenSession } from '../attendance/attendance-sessions';
+import { CreateKioskDeviceDto, KioskIdentifyDto, KioskStartBreakDto } from './dto';
+
+const TOKEN_PREFIX = 'kiosk';
+
+/** Wrong PINs allowed before the employee is locked out of kiosks */
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MINUTES = 15;
+
+/** Only record kiosk activity this often, to avoid a write per request */
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+export interface AuthenticatedKiosk {
+  id: string;
+  companyId: string;
+  officeLocationId: string;
+  name: string;
+  officeLocation: { id: string; name: string };
+}
+
+export type KioskEmployeeState = 'CheckedOut' | 'CheckedIn' | 'OnBreak';
+
+@Injectable()
+export class KioskService {
+  constructor(
+    private prisma: PrismaService,
+    private timezoneService: TimezoneService,
+    private attendanceService: AttendanceService,
+  ) {}
+
+  /**
+   * List kiosks of a company
+   */
+  async listDevices(companyId: string) {
+    return this.prisma.kioskDevice.findMany({
+      where: { companyId },
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        lastSeenAt: true,
+        createdAt: true,
+        officeLocation: { select: { id: true, name: true } },
+      },
+      orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Register a kiosk. The device token is returned only here.
+   */
+  async createDevice(companyId: string, actorId: string, dto: CreateKioskDeviceDto) {
+    const location = await this.prisma.officeLocation.findFirst({
+      where: { id: dto.officeLocationId, companyId, isActive: true },
+    });
+
+    if (!location) {
+      throw new NotFoundException('Office location not found');
+    }
+
+    const secret = randomBytes(24).toString('base64url');
+    const device = await this.prisma.kioskDevice.create({
+      data: {
+        companyId,
+        officeLocationId: location.id,
+        name: dto.name,
+        secretHash: await bcrypt.hash(secret, 10),
+        createdBy: actorId,
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'KioskDeviceCreated',
+        entityType: 'KioskDevice',
+        entityId: device.id,
+        after: { name: device.name, officeLocationId: location.id },
+      },
+    });
+
+    return {
+      id: device.id,
+      name: device.name,
+      officeLocation: { id: location.id, name: location.name },
+      token: `${TOKEN_PREFIX}.${device.id}.${secret}`,
+    };
+  }
+
+  /**
+   * Deactivate a kiosk; its token stops working immediately
+   */
+  async deactivateDevice(id: string, companyId: string, actorId: string) {
+    const device = await this.prisma.kioskDevice.findFirst({ where: { id, companyId } });
+
+    if (!device) {
+      throw new NotFoundException('Kiosk not found');
+    }
+
+    const updated = await this.prisma.kioskDevice.update({
+      where: { id },
+      data: { isActive: false },
+      select: { id: true, name: true, isActive: true },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'KioskDeviceDeactivated',
+        entityType: 'KioskDevice',
+        entityId: id,
+        before: { isActive: device.isActive },
+        after: { isActive: false },
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Resolve a kiosk from its device token
+   */
+  async authenticateDevice(token: string): Promise<AuthenticatedKiosk> {
+    const [prefix, id, secret] = token.split('.');
+    if (prefix !== TOKEN_PREFIX || !id || !secret) {
+      throw new UnauthorizedException('Invalid kiosk token');
+    }
+
+    const device = await this.prisma.kioskDevice.findFirst({
+      where: { id, isActive: true, officeLocation: { isActive: true } },
+      include: { officeLocation: { select: { id: true, name: true } } },
+    });
+
+    if (!device || !(await bcrypt.compare(secret, device.secretHash))) {
+      throw new UnauthorizedException('Invalid kiosk token');
+    }
+
+    if (!device.lastSeenAt || Date.now() - device.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+      await this.prisma.kioskDevice.update({
+        where: { id: device.id },
+        data: { lastSeenAt: new Date() },
+      });
+    }
+
+    return {
+      id: device.id,
+      companyId: device.companyId,
+      officeLocationId: device.officeLocationId,
+      name: device.name,
+      officeLocation: device.officeLocation,
+    };
+  }
+
+  /**
+   * Set your own kiosk PIN
+   */
+  async setOwnPin(userId: string, pin: string) {
+    const profile = await this.prisma.employeeProfile.findUnique({ where: { userId } });
+
+    if (!profile) {
+      throw new NotFoundException('Employee profile not found');
+    }
+
+    await this.storePin(userId, pin);
+    return { pinSet: true };
+  }
+
+  /**
+   * Set an employee's kiosk PIN (HR/admins); also clears a lockout
+   */
+  async setPinForUser(companyId: string, actorId: string, userId: string, pin: string) {
+    const user = await this.prisma.user.findFirst({
+      where: { id: userId, companyId },
+      include: { profile: true },
+    });
+
+    if (!user?.profile) {
+      throw new NotFoundException('Employee not found');
+    }
+
+    await this.storePin(userId, pin);
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'KioskPinReset',
+        entityType: 'EmployeeProfile',
+        entityId: user.profile.id,
+      },
+    });
+
+    return { pinSet: true };
+  }
+
+  /**
+   * Identify an employee and report what they can do next
+   */
+  async identify(kiosk: AuthenticatedKiosk, dto: KioskIdentifyDto) {
+    const employee = await this.verifyEmployee(kiosk, dto);
+    return { employee: this.toEmployeeSummary(employee), ...(await this.getState(employee.userId)) };
+  }
+
+  async checkIn(kiosk: AuthenticatedKiosk, dto: KioskIdentifyDto) {
+    const employee = await this.verifyEmployee(kiosk, dto);
+    const result = await this.attendanceService.checkIn(
+      employee.userId,
+      kiosk.companyId,
+      { workMode: WorkMode.Office },
+      this.toStamp(kiosk),
+    );
+
+    return { employee: this.toEmployeeSummary(employee), timestamp: result.event.timestamp };
+  }
+
+  async checkOut(kiosk: AuthenticatedKiosk, dto: KioskIdentifyDto) {
+    const employee = await this.verifyEmployee(kiosk, dto);
+    const result = await this.attendanceService.checkOut(
+      employee.userId,
+      kiosk.companyId,
+      {},
+      this.toStamp(kiosk),
+    );
+
+    return {
+      employee: this.toEmployeeSummary(employee),
+      timestamp: result.event.timestamp,
+      workedMinutes: result.summary.workedMinutes,
+    };
+  }
+
+  async startBreak(kiosk: AuthenticatedKiosk, dto: KioskStartBreakDto) {
+    const employee = await this.verifyEmployee(kiosk, dto);
+    const breakSegment = await this.attendanceService.startBreak(employee.userId, { type: dto.type });
+
+    return { employee: this.toEmployeeSummary(employee), timestamp: breakSegment.startTime };
+  }
+
+  async endBreak(kiosk: AuthenticatedKiosk, dto: KioskIdentifyDto) {
+    const employee = await this.verifyEmployee(kiosk, dto);
+    const { openBreakId } = await this.getState(employee.userId);
+
+    if (!openBreakId) {
+      throw new BadRequestException('Not on a break');
+    }
+
+    const breakSegment = await this.attendanceService.endBreak(
+      employee.userId,
+      kiosk.companyId,
+      openBreakId,
+    );
+
+    return { employee: this.toEmployeeSummary(employee), timestamp: breakSegment.endTime };
+  }
+
+  /**
+   * Check an employee code and PIN, locking the employee out of kiosks
+   * after repeated wrong PINs
+   */
+  private async verifyEmployee(kiosk: AuthenticatedKiosk, dto: KioskIdentifyDto) {
+    const profile = await this.prisma.employeeProfile.findFirst({
+      where: {
+        employeeCode: dto.employeeCode.trim(),
+        user: { companyId: kiosk.companyId, isActive: true },
+      },
+    });
+
+    if (!profile?.kioskPinHash) {
+      throw new ForbiddenException('Invalid employee code or PIN');
+    }
+
+    if (profile.kioskPinLockedUntil && profile.kioskPinLockedUntil > new Date()) {
+      throw new ForbiddenException('Too many wrong PINs. Try again later or ask HR to reset your PIN.');
+    }
+
+    if (!(await bcrypt.compare(dto.pin, profile.kioskPinHash))) {
+      const attempts = profile.kioskPinFailedAttempts + 1;
+      const locked = attempts >= MAX_PIN_ATTEMPTS;
+
+      await this.prisma.employeeProfile.update({
+        where: { id: profile.id },
+        data: {
+          kioskPinFailedAttempts: locked ? 0 : attempts,
+          kioskPinLockedUntil: locked
+            ? new Date(Date.now() + PIN_LOCKOUT_MINUTES * 60 * 1000)
+            : undefined,
+        },
+      });
+
+      throw new ForbiddenException('Invalid employee code or PIN');
+    }
+
+    if (profile.kioskPinFailedAttempts > 0) {
+      await this.prisma.employeeProfile.update({
+        where: { id: profile.id },
+        data: { kioskPinFailedAttempts: 0 },
+      });
+    }
+
+    return profile;
+  }
+
+  /**
+   * Whether the employee is checked in or on a break today
+   */
+  private async getState(userId: string): Promise<{ state: KioskEmployeeState; openBreakId: string | null }> {
+    const today = await this.timezoneService.getUserToday(userId);
+    const day = await this.prisma.attendanceDay.findUnique({
+      where: { userId_date: { userId, date: today } },
+      include: { events: true, breaks: { where: { endTime: null } } },
+    });
+
+    if (!day || !getOpenSession(buildSessions(day.events))) {
+      return { state: 'CheckedOut', openBreakId: null };
+    }
+
+    const openBreak = day.breaks[0];
+    return openBreak
+      ? { state: 'OnBreak', openBreakId: openBreak.id }
+      : { state: 'CheckedIn', openBreakId: null };
+  }
+
+  private async storePin(userId: string, pin: string) {
+    await this.prisma.employeeProfile.update({
+      where: { userId },
+      data: {
+        kioskPinHash: await bcrypt.hash(pin, 10),
+        kioskPinFailedAttempts: 0,
+        kioskPinLockedUntil: null,
+      },
+    });
+  }
+
+  private toStamp(kiosk: AuthenticatedKiosk): KioskStamp {
+    return { kioskDeviceId: kiosk.id, officeLocationId: kiosk.officeLocationId };
+  }
+
+  private toEmployeeSummary(profile: { employeeCode: string; firstName: string; lastName: string }) {
+    return {
+      employeeCode: profile.employeeCode,
+      name: `${profile.firstName} ${profile.lastName}`,
+    };
+  }
+}
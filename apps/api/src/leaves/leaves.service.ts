@@ -4,10 +4,14 @@
 import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
 import { LeaveRequestStatus } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { PeriodLocksService } from '../period-locks/period-locks.service';
 
 @Injectable()
 export class LeavesService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private periodLocksService: PeriodLocksService,
+  ) {}
 
   async getLeaveTypes(companyId: string) {
     return this.prisma.leaveTypeConfig.findMany({
@@ -28,6 +32,8 @@ export class LeavesService {
     const end = new Date(data.endDate);
     const totalDays = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
 
+    await this.periodLocksService.assertOpenForUser(userId, start, end);
+
     // Check for overlapping requests
     const overlap = await this.prisma.leaveRequest.findFirst({
       where: {
@@ -63,6 +69,8 @@ export class LeavesService {
       throw new BadRequestException('Request is not pending');
     }
 
+    await this.periodLocksService.assertOpenForUser(request.userId, request.startDate, request.endDate);
+
     return this.prisma.leaveRequest.update({
       where: { id: requestId },
       data: {
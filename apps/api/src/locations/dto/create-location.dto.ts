@@ -7,8 +7,14 @@ import {
   Max,
   IsLatitude,
   IsLongitude,
+  IsArray,
+  IsOptional,
+  ArrayMaxSize,
+  ValidateNested,
 } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { GeofenceZoneDto } from './geofence-zone.dto';
 
 export class CreateLocationDto {
   @ApiProperty({ minLength: 2, maxLength: 100, description: 'Office location name' })
@@ -38,4 +44,15 @@ export class CreateLocationDto {
   @Min(50)
   @Max(5000)
   radiusMeters: number;
+
+  @ApiPropertyOptional({
+    type: [GeofenceZoneDto],
+    description: 'Circle or polygon zones; when given they replace the radius circle for check-in validation',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => GeofenceZoneDto)
+  zones?: GeofenceZoneDto[];
 }
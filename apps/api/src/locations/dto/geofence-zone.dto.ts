@@ -0,0 +1,60 @@
+import {
+  IsString,
+  IsEnum,
+  IsNumber,
+  IsArray,
+  MinLength,
+  MaxLength,
+  Min,
+  Max,
+  IsLatitude,
+  IsLongitude,
+  ValidateIf,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { GeofenceZoneShape } from '@prisma/client';
+
+export class GeofenceZoneDto {
+  @ApiProperty({ minLength: 1, maxLength: 100, description: 'Zone name, e.g. Main building, Parking' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: GeofenceZoneShape })
+  @IsEnum(GeofenceZoneShape)
+  shape: GeofenceZoneShape;
+
+  @ApiPropertyOptional({ description: 'Circle center latitude' })
+  @ValidateIf((zone) => zone.shape === GeofenceZoneShape.Circle)
+  @IsNumber()
+  @IsLatitude()
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Circle center longitude' })
+  @ValidateIf((zone) => zone.shape === GeofenceZoneShape.Circle)
+  @IsNumber()
+  @IsLongitude()
+  longitude?: number;
+
+  @ApiPropertyOptional({ minimum: 10, maximum: 5000, description: 'Circle radius in meters' })
+  @ValidateIf((zone) => zone.shape === GeofenceZoneShape.Circle)
+  @IsNumber()
+  @Min(10)
+  @Max(5000)
+  radiusMeters?: number;
+
+  @ApiPropertyOptional({
+    type: 'array',
+    items: { type: 'array', items: { type: 'number' } },
+    description: 'Polygon vertices as [latitude, longitude] pairs',
+  })
+  @ValidateIf((zone) => zone.shape === GeofenceZoneShape.Polygon)
+  @IsArray()
+  @ArrayMinSize(3)
+  @ArrayMaxSize(100)
+  @IsArray({ each: true })
+  polygon?: number[][];
+}
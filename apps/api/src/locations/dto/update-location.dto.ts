@@ -8,4 +8,9 @@ export class UpdateLocationDto extends PartialType(CreateLocationDto) {
   @IsOptional()
   @IsBoolean()
   isActive?: boolean;
+
+  @ApiPropertyOptional({ description: 'Whether check-in by rotating QR code is enabled' })
+  @IsOptional()
+  @IsBoolean()
+  qrCheckInEnabled?: boolean;
 }
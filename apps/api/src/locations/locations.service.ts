@@ -1,14 +1,20 @@
 /**
  * Locations Service
  *
- * Handles office location CRUD operations for geofence management.
+ * Handles office location CRUD operations for geofence management,
+ * including the circle and polygon zones of each location.
  * All operations are scoped to company (tenant isolation).
  */
 
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { GeofenceZone, GeofenceZoneShape } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateLocationDto } from './dto/create-location.dto';
 import { UpdateLocationDto } from './dto/update-location.dto';
+import { GeofenceZoneDto } from './dto/geofence-zone.dto';
+import { validatePolygon } from '../attendance/geofence.utils';
+
+const ZONE_ORDER = { createdAt: 'asc' } as const;
 
 @Injectable()
 export class LocationsService {
@@ -23,6 +29,7 @@ export class LocationsService {
         companyId,
         ...(includeInactive ? {} : { isActive: true }),
       },
+      include: { zones: { orderBy: ZONE_ORDER } },
       orderBy: { name: 'asc' },
     });
   }
@@ -36,6 +43,7 @@ export class LocationsService {
         id,
         companyId,
       },
+      include: { zones: { orderBy: ZONE_ORDER } },
     });
 
     if (!location) {
@@ -49,6 +57,8 @@ export class LocationsService {
    * Create a new office location
    */
   async create(companyId: string, userId: string, dto: CreateLocationDto) {
+    const zones = this.toZoneData(dto.zones ?? []);
+
     const location = await this.prisma.officeLocation.create({
       data: {
         companyId,
@@ -57,7 +67,9 @@ export class LocationsService {
         latitude: dto.latitude,
         longitude: dto.longitude,
         radiusMeters: dto.radiusMeters,
+        zones: { create: zones },
       },
+      include: { zones: { orderBy: ZONE_ORDER } },
     });
 
     // Create audit log entry
@@ -73,6 +85,7 @@ export class LocationsService {
           latitude: Number(location.latitude),
           longitude: Number(location.longitude),
           radiusMeters: location.radiusMeters,
+          zones: this.toZoneSnapshot(location.zones),
         },
       },
     });
@@ -85,10 +98,17 @@ export class LocationsService {
    */
   async update(id: string, companyId: string, userId: string, dto: UpdateLocationDto) {
     const existing = await this.findOne(id, companyId);
+    const { zones, ...fields } = dto;
+    const zoneData = zones ? this.toZoneData(zones) : undefined;
 
+    // Zones are replaced as a whole when given
     const updated = await this.prisma.officeLocation.update({
       where: { id },
-      data: dto,
+      data: {
+        ...fields,
+        ...(zoneData && { zones: { deleteMany: {}, create: zoneData } }),
+      },
+      include: { zones: { orderBy: ZONE_ORDER } },
     });
 
     // Create audit log entry
@@ -104,7 +124,9 @@ export class LocationsService {
           latitude: Number(existing.latitude),
           longitude: Number(existing.longitude),
           radiusMeters: existing.radiusMeters,
+          qrCheckInEnabled: existing.qrCheckInEnabled,
           isActive: existing.isActive,
+          zones: this.toZoneSnapshot(existing.zones),
         },
         after: {
           name: updated.name,
@@ -112,7 +134,9 @@ export class LocationsService {
           latitude: Number(updated.latitude),
           longitude: Number(updated.longitude),
           radiusMeters: updated.radiusMeters,
+          qrCheckInEnabled: updated.qrCheckInEnabled,
           isActive: updated.isActive,
+          zones: this.toZoneSnapshot(updated.zones),
         },
       },
     });
@@ -151,4 +175,44 @@ export class LocationsService {
 
     return updated;
   }
+
+  /**
+   * Validate zones and map them to create data
+   */
+  private toZoneData(zones: GeofenceZoneDto[]) {
+    return zones.map((zone) => {
+      if (zone.shape === GeofenceZoneShape.Polygon) {
+        const error = validatePolygon(zone.polygon ?? []);
+        if (error) {
+          throw new BadRequestException(`Zone "${zone.name}": ${error}`);
+        }
+        return { name: zone.name, shape: zone.shape, polygon: zone.polygon };
+      }
+
+      return {
+        name: zone.name,
+        shape: zone.shape,
+        latitude: zone.latitude,
+        longitude: zone.longitude,
+        radiusMeters: zone.radiusMeters,
+      };
+    });
+  }
+
+  /**
+   * Zone fields recorded in audit logs
+   */
+  private toZoneSnapshot(zones: GeofenceZone[]) {
+    return zones.map((zone) => ({
+      name: zone.name,
+      shape: zone.shape,
+      ...(zone.shape === GeofenceZoneShape.Polygon
+        ? { polygon: zone.polygon }
+        : {
+            latitude: Number(zone.latitude),
+            longitude: Number(zone.longitude),
+            radiusMeters: zone.radiusMeters,
+          }),
+    }));
+  }
 }
@@ -291,7 +291,12 @@ export class NotificationsService {
       [NotificationType.TimesheetDue]: (p) => `
         <h2>${p.title}</h2>
         <p>${p.body}</p>
-        <p>Please submit your timesheet before the deadline.</p>
+        ${p.actionUrl ? `<a href="${p.actionUrl}" style="padding: 10px 20px; background: #007bff; color: white; text-decoration: none; border-radius: 5px;">Open Timesheet</a>` : ''}
+      `,
+      [NotificationType.TimesheetSubmitted]: (p) => `
+        <h2>${p.title}</h2>
+        <p>${p.body}</p>
+        ${p.actionUrl ? `<a href="${p.actionUrl}" style="padding: 10px 20px; background: #007bff; color: white; text-decoration: none; border-radius: 5px;">Review</a>` : ''}
       `,
       [NotificationType.TimesheetApproved]: (p) => `
         <h2>${p.title}</h2>
@@ -302,6 +307,10 @@ export class NotificationsService {
         <p>${p.body}</p>
         <p>Please review and resubmit.</p>
       `,
+      [NotificationType.BudgetThreshold]: (p) => `
+        <h2>${p.title}</h2>
+        <p>${p.body}</p>
+      `,
       [NotificationType.OvertimeAlert]: (p) => `
         <h2>${p.title}</h2>
         <p>${p.body}</p>
@@ -0,0 +1,28 @@
+/**
+ * Create Overtime Request DTO
+ */
+
+import { IsOptional, IsString, IsDateString, IsInt, IsUUID, Min, Max, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateOvertimeRequestDto {
+  @ApiPropertyOptional({ description: 'Employee to request for (managers and HR only, default: yourself)' })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiProperty({ description: 'Day of the overtime (YYYY-MM-DD)' })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({ description: 'Overtime minutes requested', minimum: 15, maximum: 720 })
+  @IsInt()
+  @Min(15)
+  @Max(720)
+  minutes: number;
+
+  @ApiProperty()
+  @IsString()
+  @MinLength(5)
+  reason: string;
+}
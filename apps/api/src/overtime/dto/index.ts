@@ -0,0 +1,6 @@
+/**
+ * Overtime DTOs barrel export
+ */
+
+export * from './create-overtime-request.dto';
+export * from './review-overtime-request.dto';
@@ -0,0 +1,25 @@
+/**
+ * Review Overtime Request DTOs
+ */
+
+import { IsOptional, IsString, IsInt, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApproveOvertimeRequestDto {
+  @ApiPropertyOptional({ description: 'Minutes to approve (default: all requested)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  approvedMinutes?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class RejectOvertimeRequestDto {
+  @ApiProperty()
+  @IsString()
+  reason: string;
+}
@@ -0,0 +1,129 @@
+/**
+ * Overtime Controller
+ *
+ * Endpoints for requesting, justifying and approving overtime.
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { OvertimeRequestStatus, UserRole } from '@prisma/client';
+
+import { OvertimeService } from './overtime.service';
+import {
+  CreateOvertimeRequestDto,
+  ApproveOvertimeRequestDto,
+  RejectOvertimeRequestDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Overtime')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('overtime')
+export class OvertimeController {
+  constructor(private readonly overtimeService: OvertimeService) {}
+
+  /**
+   * Request overtime in advance or justify overtime already worked
+   */
+  @Post('requests')
+  @ApiOperation({ summary: 'Request or justify overtime' })
+  async create(
+    @CurrentUser() user: any,
+    @Body() dto: CreateOvertimeRequestDto,
+  ) {
+    const result = await this.overtimeService.createRequest(user, dto);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Get own overtime requests
+   */
+  @Get('requests/my')
+  @ApiOperation({ summary: 'Get my overtime requests' })
+  @ApiQuery({ name: 'status', required: false, enum: OvertimeRequestStatus })
+  async getMine(
+    @CurrentUser() user: any,
+    @Query('status') status?: OvertimeRequestStatus,
+  ) {
+    const result = await this.overtimeService.getMyRequests(user.id, status);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Pending requests and unapproved overtime awaiting review
+   */
+  @Get('review-queue')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Get overtime awaiting review' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'YYYY-MM-DD (default: 30 days ago)' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'YYYY-MM-DD (default: today)' })
+  async getReviewQueue(
+    @CurrentUser() user: any,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    const result = await this.overtimeService.getReviewQueue(user, { startDate, endDate });
+    return { success: true, data: result };
+  }
+
+  /**
+   * Approve an overtime request
+   */
+  @Patch('requests/:id/approve')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Approve overtime request' })
+  async approve(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: ApproveOvertimeRequestDto,
+  ) {
+    const result = await this.overtimeService.approveRequest(
+      id,
+      user,
+      dto.approvedMinutes,
+      dto.notes,
+    );
+    return { success: true, data: result };
+  }
+
+  /**
+   * Reject an overtime request
+   */
+  @Patch('requests/:id/reject')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Reject overtime request' })
+  async reject(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: RejectOvertimeRequestDto,
+  ) {
+    const result = await this.overtimeService.rejectRequest(id, user, dto.reason);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Cancel own pending request
+   */
+  @Patch('requests/:id/cancel')
+  @ApiOperation({ summary: 'Cancel my pending overtime request' })
+  async cancel(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ) {
+    const result = await this.overtimeService.cancelRequest(id, user.id);
+    return { success: true, data: result };
+  }
+}
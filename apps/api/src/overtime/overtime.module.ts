@@ -0,0 +1,19 @@
+/**
+ * Overtime Module
+ *
+ * Overtime pre-approval and after-the-fact justification with manager
+ * approval. Only approved overtime is paid.
+ */
+
+import { Module } from '@nestjs/common';
+import { OvertimeService } from './overtime.service';
+import { OvertimeController } from './overtime.controller';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [NotificationsModule],
+  controllers: [OvertimeController],
+  providers: [OvertimeService],
+  exports: [OvertimeService],
+})
+export class OvertimeModule {}
@@ -0,0 +1,476 @@
+/**
+ * Overtime Service
+ *
+ * Overtime requests filed in advance or justified after the fact. Managers
+ * review requests from their direct reports; only overtime covered by
+ * approved requests is stored as approved on the attendance day and paid
+ * by payroll. Overtime without approval lands in the review queue.
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { NotificationType, OvertimeRequestStatus, UserRole } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { PeriodLocksService } from '../period-locks/period-locks.service';
+import { addDays, formatDay, formatDayLabel, parseDay } from '../common/timezone/timezone.utils';
+import { CreateOvertimeRequestDto } from './dto';
+
+/** How long after the day overtime can still be justified */
+export const OVERTIME_JUSTIFICATION_DAYS = 30;
+
+/** Default review queue window */
+const DEFAULT_QUEUE_DAYS = 30;
+
+export interface OvertimeActor {
+  id: string;
+  companyId: string;
+  role: UserRole;
+}
+
+@Injectable()
+export class OvertimeService {
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+    private timezoneService: TimezoneService,
+    private periodLocksService: PeriodLocksService,
+  ) {}
+
+  /**
+   * File an overtime request for yourself, or for a direct report
+   * (managers) or any employee (HR/admins). Requests filed for someone
+   * else are approved by the filer straight away.
+   */
+  async createRequest(filer: OvertimeActor, dto: CreateOvertimeRequestDto) {
+    const userId = dto.userId ?? filer.id;
+    const onBehalf = userId !== filer.id;
+    const date = parseDay(dto.date);
+
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException('Date must be in YYYY-MM-DD format');
+    }
+
+    const employee = await this.prisma.user.findFirst({
+      where: { id: userId, companyId: filer.companyId, isActive: true },
+      include: { profile: true },
+    });
+
+    if (!employee) {
+      throw new NotFoundException('Employee not found');
+    }
+
+    if (onBehalf) {
+      this.assertCanReview(filer, employee.profile?.managerId);
+    }
+
+    const today = await this.timezoneService.getUserToday(userId);
+    if (date < addDays(today, -OVERTIME_JUSTIFICATION_DAYS)) {
+      throw new BadRequestException(
+        `Overtime can only be justified within ${OVERTIME_JUSTIFICATION_DAYS} days`,
+      );
+    }
+
+    await this.periodLocksService.assertOpen(filer.companyId, date);
+
+    const existing = await this.prisma.overtimeRequest.findFirst({
+      where: { userId, date, status: OvertimeRequestStatus.Pending },
+    });
+
+    if (existing) {
+      throw new BadRequestException('A pending overtime request already exists for this day');
+    }
+
+    // Requests made before any overtime was recorded are pre-approvals;
+    // later ones justify overtime already worked
+    const day = await this.prisma.attendanceDay.findUnique({
+      where: { userId_date: { userId, date } },
+    });
+    const isPreApproval = !day || day.overtimeMinutes === 0;
+
+    const request = await this.prisma.overtimeRequest.create({
+      data: {
+        userId,
+        companyId: filer.companyId,
+        date,
+        minutes: dto.minutes,
+        reason: dto.reason,
+        isPreApproval,
+        requestedBy: filer.id,
+        ...(onBehalf && {
+          status: OvertimeRequestStatus.Approved,
+          approvedMinutes: dto.minutes,
+          reviewedBy: filer.id,
+          reviewedAt: new Date(),
+        }),
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: filer.id,
+        action: onBehalf ? 'OvertimeApproved' : 'OvertimeRequested',
+        entityType: 'OvertimeRequest',
+        entityId: request.id,
+        after: {
+          userId,
+          date: dto.date,
+          minutes: dto.minutes,
+          isPreApproval,
+          status: request.status,
+        },
+        reason: dto.reason,
+      },
+    });
+
+    const employeeName = this.toEmployeeName(employee);
+
+    if (onBehalf) {
+      await this.syncApprovedOvertime(userId, date);
+      await this.notifications.sendToUser(userId, {
+        type: NotificationType.OvertimeAlert,
+        title: 'Overtime Approved',
+        body: `${this.formatMinutes(dto.minutes)} of overtime on ${formatDayLabel(date)} was approved for you`,
+        data: { overtimeRequestId: request.id },
+        actionUrl: '/attendance/overtime',
+      });
+    } else {
+      await this.notifications.sendToUsers(
+        await this.getReviewerIds(filer.companyId, employee.profile?.managerId),
+        {
+          type: NotificationType.OvertimeAlert,
+          title: isPreApproval ? 'Overtime Pre-Approval Request' : 'Overtime Justification',
+          body: `${employeeName} requested ${this.formatMinutes(dto.minutes)} of overtime on ${formatDayLabel(date)}`,
+          data: { overtimeRequestId: request.id },
+          actionUrl: '/attendance/overtime',
+        },
+      );
+    }
+
+    return request;
+  }
+
+  /**
+   * Get overtime requests for a user
+   */
+  async getMyRequests(userId: string, status?: OvertimeRequestStatus) {
+    return this.prisma.overtimeRequest.findMany({
+      where: { userId, ...(status && { status }) },
+      include: { reviewer: { include: { profile: true } } },
+      orderBy: { date: 'desc' },
+    });
+  }
+
+  /**
+   * Pending requests plus days with overtime nobody has approved.
+   * Managers see their direct reports; HR and admins see the whole company.
+   */
+  async getReviewQueue(viewer: OvertimeActor, range: { startDate?: string; endDate?: string } = {}) {
+    const end = range.endDate ? parseDay(range.endDate) : parseDay(new Date());
+    const start = range.startDate ? parseDay(range.startDate) : addDays(end, -(DEFAULT_QUEUE_DAYS - 1));
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new BadRequestException('Dates must be in YYYY-MM-DD format');
+    }
+
+    const userScope =
+      viewer.role === UserRole.Manager ? { profile: { managerId: viewer.id } } : {};
+
+    const pendingRequests = await this.prisma.overtimeRequest.findMany({
+      where: {
+        companyId: viewer.companyId,
+        status: OvertimeRequestStatus.Pending,
+        userId: { not: viewer.id },
+        user: userScope,
+      },
+      include: { user: { include: { profile: true } } },
+      orderBy: { date: 'asc' },
+    });
+
+    const days = await this.prisma.attendanceDay.findMany({
+      where: {
+        date: { gte: start, lte: end },
+        overtimeMinutes: { gt: 0 },
+        userId: { not: viewer.id },
+        user: { companyId: viewer.companyId, ...userScope },
+      },
+      include: { user: { include: { profile: true } } },
+      orderBy: { date: 'asc' },
+    });
+
+    const pendingByDay = new Map(
+      pendingRequests.map((r) => [`${r.userId}:${formatDay(r.date)}`, r.id]),
+    );
+
+    const unapprovedDays = days
+      .filter((d) => d.overtimeMinutes > d.approvedOvertimeMinutes)
+      .map((d) => ({
+        attendanceDayId: d.id,
+        userId: d.userId,
+        employeeName: this.toEmployeeName(d.user),
+        date: formatDay(d.date),
+        overtimeMinutes: d.overtimeMinutes,
+        approvedOvertimeMinutes: d.approvedOvertimeMinutes,
+        unapprovedMinutes: d.overtimeMinutes - d.approvedOvertimeMinutes,
+        pendingRequestId: pendingByDay.get(`${d.userId}:${formatDay(d.date)}`) ?? null,
+      }));
+
+    return {
+      startDate: formatDay(start),
+      endDate: formatDay(end),
+      pendingRequests,
+      unapprovedDays,
+    };
+  }
+
+  /**
+   * Approve a request, optionally for fewer minutes than requested
+   */
+  async approveRequest(
+    id: string,
+    reviewer: OvertimeActor,
+    approvedMinutes?: number,
+    notes?: string,
+  ) {
+    const request = await this.getReviewableRequest(id, reviewer);
+    await this.periodLocksService.assertOpen(reviewer.companyId, request.date);
+
+    if (approvedMinutes !== undefined && approvedMinutes > request.minutes) {
+      throw new BadRequestException('Cannot approve more minutes than requested');
+    }
+
+    const updated = await this.prisma.overtimeRequest.update({
+      where: { id },
+      data: {
+        status: OvertimeRequestStatus.Approved,
+        approvedMinutes: approvedMinutes ?? request.minutes,
+        reviewedBy: reviewer.id,
+        reviewedAt: new Date(),
+        reviewNotes: notes,
+      },
+    });
+
+    const day = await this.syncApprovedOvertime(request.userId, request.date);
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: reviewer.id,
+        action: 'OvertimeApproved',
+        entityType: 'OvertimeRequest',
+        entityId: id,
+        before: { status: request.status },
+        after: {
+          status: updated.status,
+          approvedMinutes: updated.approvedMinutes,
+          approvedOvertimeMinutes: day?.approvedOvertimeMinutes ?? null,
+        },
+        reason: notes,
+      },
+    });
+
+    await this.notifications.sendToUser(request.userId, {
+      type: NotificationType.OvertimeAlert,
+      title: 'Overtime Approved',
+      body: `${this.formatMinutes(updated.approvedMinutes!)} of overtime on ${formatDayLabel(request.date)} has been approved`,
+      data: { overtimeRequestId: id },
+      actionUrl: '/attendance/overtime',
+    });
+
+    return updated;
+  }
+
+  /**
+   * Reject a request
+   */
+  async rejectRequest(id: string, reviewer: OvertimeActor, reason: string) {
+    const request = await this.getReviewableRequest(id, reviewer);
+
+    const updated = await this.prisma.overtimeRequest.update({
+      where: { id },
+      data: {
+        status: OvertimeRequestStatus.Rejected,
+        reviewedBy: reviewer.id,
+        reviewedAt: new Date(),
+        rejectionReason: reason,
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: reviewer.id,
+        action: 'OvertimeRejected',
+        entityType: 'OvertimeRequest',
+        entityId: id,
+        before: { status: request.status },
+        after: { status: updated.status },
+        reason,
+      },
+    });
+
+    await this.notifications.sendToUser(request.userId, {
+      type: NotificationType.OvertimeAlert,
+      title: 'Overtime Rejected',
+      body: `Your overtime request for ${formatDayLabel(request.date)} was not approved: ${reason}`,
+      data: { overtimeRequestId: id },
+      actionUrl: '/attendance/overtime',
+    });
+
+    return updated;
+  }
+
+  /**
+   * Cancel a pending request (requester only)
+   */
+  async cancelRequest(id: string, userId: string) {
+    const request = await this.prisma.overtimeRequest.findFirst({
+      where: { id, userId },
+    });
+
+    if (!request) {
+      throw new NotFoundException('Overtime request not found');
+    }
+
+    if (request.status !== OvertimeRequestStatus.Pending) {
+      throw new BadRequestException('Request is not pending');
+    }
+
+    return this.prisma.overtimeRequest.update({
+      where: { id },
+      data: { status: OvertimeRequestStatus.Cancelled },
+    });
+  }
+
+  /**
+   * Total minutes approved for a user's day
+   */
+  async getApprovedMinutes(userId: string, date: Date) {
+    const result = await this.prisma.overtimeRequest.aggregate({
+      where: { userId, date, status: OvertimeRequestStatus.Approved },
+      _sum: { approvedMinutes: true },
+    });
+
+    return result._sum.approvedMinutes ?? 0;
+  }
+
+  /**
+   * Tell the employee and their reviewers about overtime worked without
+   * approval, so it can be justified and reviewed
+   */
+  async alertUnapprovedOvertime(userId: string, date: Date, unapprovedMinutes: number) {
+    const employee = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { profile: true },
+    });
+
+    if (!employee) return;
+
+    const duration = this.formatMinutes(unapprovedMinutes);
+    const dayLabel = formatDayLabel(date);
+
+    await this.notifications.sendToUser(userId, {
+      type: NotificationType.OvertimeAlert,
+      title: 'Overtime Needs Approval',
+      body: `You worked ${duration} of overtime on ${dayLabel} without approval. Submit a justification so it can be paid.`,
+      data: { date: formatDay(date) },
+      actionUrl: '/attendance/overtime',
+    });
+
+    await this.notifications.sendToUsers(
+      await this.getReviewerIds(employee.companyId, employee.profile?.managerId),
+      {
+        type: NotificationType.OvertimeAlert,
+        title: 'Unapproved Overtime',
+        body: `${this.toEmployeeName(employee)} worked ${duration} of unapproved overtime on ${dayLabel}`,
+        data: { userId, date: formatDay(date) },
+        actionUrl: '/attendance/overtime',
+      },
+    );
+  }
+
+  /**
+   * Store the approved portion of a day's overtime
+   */
+  private async syncApprovedOvertime(userId: string, date: Date) {
+    const day = await this.prisma.attendanceDay.findUnique({
+      where: { userId_date: { userId, date } },
+    });
+
+    // Pre-approvals for days not yet worked are applied at check-out
+    if (!day) return null;
+
+    const approved = await this.getApprovedMinutes(userId, date);
+
+    return this.prisma.attendanceDay.update({
+      where: { id: day.id },
+      data: { approvedOvertimeMinutes: Math.min(day.overtimeMinutes, approved) },
+    });
+  }
+
+  /**
+   * Load a pending request and check the reviewer may act on it
+   */
+  private async getReviewableRequest(id: string, reviewer: OvertimeActor) {
+    const request = await this.prisma.overtimeRequest.findFirst({
+      where: { id, companyId: reviewer.companyId },
+      include: { user: { include: { profile: true } } },
+    });
+
+    if (!request) {
+      throw new NotFoundException('Overtime request not found');
+    }
+
+    if (request.status !== OvertimeRequestStatus.Pending) {
+      throw new BadRequestException('Request is not pending');
+    }
+
+    if (request.userId === reviewer.id) {
+      throw new ForbiddenException('You cannot review your own request');
+    }
+
+    this.assertCanReview(reviewer, request.user.profile?.managerId);
+
+    return request;
+  }
+
+  private assertCanReview(reviewer: OvertimeActor, managerId?: string | null) {
+    if (reviewer.role === UserRole.HR || reviewer.role === UserRole.SuperAdmin) {
+      return;
+    }
+
+    if (reviewer.role !== UserRole.Manager || managerId !== reviewer.id) {
+      throw new ForbiddenException('You can only approve overtime for your direct reports');
+    }
+  }
+
+  /**
+   * The employee's manager, or HR when no manager is assigned
+   */
+  private async getReviewerIds(companyId: string, managerId?: string | null) {
+    if (managerId) {
+      return [managerId];
+    }
+
+    const hrUsers = await this.prisma.user.findMany({
+      where: { companyId, role: UserRole.HR, isActive: true },
+      select: { id: true },
+    });
+
+    return hrUsers.map((u) => u.id);
+  }
+
+  private toEmployeeName(user: { email: string; profile: { firstName: string; lastName: string } | null }) {
+    return user.profile ? `${user.profile.firstName} ${user.profile.lastName}` : user.email;
+  }
+
+  private formatMinutes(minutes: number) {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+  }
+}
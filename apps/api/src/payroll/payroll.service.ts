@@ -3,8 +3,9 @@
  *
  * Handles payroll calculations including:
  * - Regular hours
- * - Overtime
+ * - Overtime (approved overtime only)
  * - Leave payouts
+ * - Adjustments to closed periods
  * - Deductions
  * - Tax calculations
  * - Payslip generation
@@ -12,8 +13,8 @@
 
 import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { AttendanceEventType, LeaveRequestStatus } from '@prisma/client';
-import { startOfMonth, endOfMonth, format, differenceInMinutes } from 'date-fns';
+import { LeaveRequestStatus, PeriodAdjustmentType } from '@prisma/client';
+import { startOfMonth, endOfMonth, format } from 'date-fns';
 
 export interface PayrollPeriod {
   startDate: Date;
@@ -25,7 +26,11 @@ export interface PayrollCalculation {
   period: PayrollPeriod;
   regularHours: number;
   overtimeHours: number;
+  /** Overtime worked without approval; not paid until approved */
+  unapprovedOvertimeHours: number;
   leaveHours: number;
+  /** Corrections to closed periods carried into this one */
+  adjustmentHours: number;
   grossPay: number;
   deductions: Deduction[];
   netPay: number;
@@ -66,12 +71,16 @@ export class PayrollService {
     // Get leave data
     const leaveData = await this.calculateLeaveHours(userId, period);
 
+    // Get adjustments to closed periods
+    const adjustmentData = await this.calculateAdjustmentHours(userId, period);
+
     // Calculate pay
     const regularPay = attendanceData.regularHours * hourlyRate;
     const overtimePay = attendanceData.overtimeHours * overtimeRate;
     const leavePay = leaveData.hours * hourlyRate;
+    const adjustmentPay = adjustmentData.hours * hourlyRate;
 
-    const grossPay = regularPay + overtimePay + leavePay;
+    const grossPay = regularPay + overtimePay + leavePay + adjustmentPay;
 
     // Calculate deductions
     const deductions = this.calculateDeductions(grossPay, user.companyId);
@@ -84,7 +93,9 @@ export class PayrollService {
       period,
       regularHours: attendanceData.regularHours,
       overtimeHours: attendanceData.overtimeHours,
+      unapprovedOvertimeHours: attendanceData.unapprovedOvertimeHours,
       leaveHours: leaveData.hours,
+      adjustmentHours: adjustmentData.hours,
       grossPay: Math.round(grossPay * 100) / 100,
       deductions,
       netPay: Math.round(netPay * 100) / 100,
@@ -103,41 +114,32 @@ export class PayrollService {
           lte: period.endDate,
         },
       },
-      include: {
-        events: true,
-      },
     });
 
     let regularHours = 0;
     let overtimeHours = 0;
+    let unapprovedOvertimeHours = 0;
 
     for (const day of attendanceDays) {
-      const checkIn = day.events.find(e => e.type === AttendanceEventType.CheckIn);
-      const checkOut = day.events.find(e => e.type === AttendanceEventType.CheckOut);
-
-      if (checkIn && checkOut) {
-        const totalMinutes = differenceInMinutes(
-          new Date(checkOut.timestamp),
-          new Date(checkIn.timestamp)
-        );
-        const hours = totalMinutes / 60;
-
-        // Standard 8-hour day
-        if (hours > 8) {
-          regularHours += 8;
-          overtimeHours += hours - 8;
-        } else {
-          regularHours += hours;
-        }
-      }
+      // Worked minutes as stored on the day: closed sessions minus breaks
+      const workMinutes = day.totalWorkMinutes || 0;
+
+      // Regular time stops at the day's overtime threshold
+      const regularMinutes = Math.min(day.regularMinutes || 0, workMinutes);
+
+      // Only approved overtime is paid; the rest waits in the review queue,
+      // including time past the policy's overtime cap
+      const approvedMinutes = Math.min(day.approvedOvertimeMinutes || 0, workMinutes - regularMinutes);
 
-      // Add overtime from attendance record
-      overtimeHours += (day.overtimeMinutes || 0) / 60;
+      regularHours += regularMinutes / 60;
+      overtimeHours += approvedMinutes / 60;
+      unapprovedOvertimeHours += (workMinutes - regularMinutes - approvedMinutes) / 60;
     }
 
     return {
       regularHours: Math.round(regularHours * 10) / 10,
       overtimeHours: Math.round(overtimeHours * 10) / 10,
+      unapprovedOvertimeHours: Math.round(unapprovedOvertimeHours * 10) / 10,
     };
   }
 
@@ -177,6 +179,31 @@ export class PayrollService {
     return { hours: totalHours };
   }
 
+  /**
+   * Calculate hours from adjustments carried into the period. Attendance
+   * adjustments are paid at the regular rate and leave adjustments as leave
+   * days; timesheet adjustments do not affect pay.
+   */
+  private async calculateAdjustmentHours(userId: string, period: PayrollPeriod) {
+    const adjustments = await this.prisma.periodAdjustment.findMany({
+      where: {
+        userId,
+        appliedDate: { gte: period.startDate, lte: period.endDate },
+        type: { in: [PeriodAdjustmentType.Attendance, PeriodAdjustmentType.Leave] },
+      },
+    });
+
+    let totalHours = 0;
+
+    for (const adjustment of adjustments) {
+      totalHours += adjustment.type === PeriodAdjustmentType.Leave
+        ? Number(adjustment.days ?? 0) * 8 // 8 hours per day
+        : (adjustment.minutes ?? 0) / 60;
+    }
+
+    return { hours: Math.round(totalHours * 10) / 10 };
+  }
+
   /**
    * Calculate deductions
    */
@@ -280,6 +307,11 @@ export class PayrollService {
           rate: Number(user?.profile?.hourlyRate) || 15,
           amount: Math.round(calculation.leaveHours * (Number(user?.profile?.hourlyRate) || 15) * 100) / 100,
         },
+        adjustments: {
+          hours: calculation.adjustmentHours,
+          rate: Number(user?.profile?.hourlyRate) || 15,
+          amount: Math.round(calculation.adjustmentHours * (Number(user?.profile?.hourlyRate) || 15) * 100) / 100,
+        },
       },
       deductions: calculation.deductions,
       summary: {
@@ -306,6 +338,8 @@ export class PayrollService {
       totalEmployees: validPayrolls.length,
       totalRegularHours: validPayrolls.reduce((sum, p) => sum + p.regularHours, 0),
       totalOvertimeHours: validPayrolls.reduce((sum, p) => sum + p.overtimeHours, 0),
+      totalUnapprovedOvertimeHours: validPayrolls.reduce((sum, p) => sum + p.unapprovedOvertimeHours, 0),
+      totalAdjustmentHours: validPayrolls.reduce((sum, p) => sum + p.adjustmentHours, 0),
       totalGrossPay: validPayrolls.reduce((sum, p) => sum + p.grossPay, 0),
       totalNetPay: validPayrolls.reduce((sum, p) => sum + p.netPay, 0),
       averageNetPay: validPayrolls.length > 0
@@ -0,0 +1,22 @@
+/**
+ * Close Period DTO
+ */
+
+import { IsDateString, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ClosePeriodDto {
+  @ApiProperty({ description: 'First day of the period (YYYY-MM-DD)', example: '2026-01-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ description: 'Last day of the period (YYYY-MM-DD)', example: '2026-01-31' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiPropertyOptional({ example: 'January 2026 payroll' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+}
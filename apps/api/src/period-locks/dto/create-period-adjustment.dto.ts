@@ -0,0 +1,54 @@
+/**
+ * Create Period Adjustment DTO
+ */
+
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PeriodAdjustmentType } from '@prisma/client';
+
+export class CreatePeriodAdjustmentDto {
+  @ApiProperty({ description: 'Employee the correction applies to' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ description: 'Closed day being corrected (YYYY-MM-DD)' })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({ enum: PeriodAdjustmentType })
+  @IsEnum(PeriodAdjustmentType)
+  type: PeriodAdjustmentType;
+
+  @ApiPropertyOptional({
+    description: 'Signed minutes to add or remove (Attendance and Timesheet)',
+    example: 90,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(-1440)
+  @Max(1440)
+  minutes?: number;
+
+  @ApiPropertyOptional({ description: 'Signed leave days in half-day steps (Leave)', example: -1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-31)
+  @Max(31)
+  days?: number;
+
+  @ApiProperty()
+  @IsString()
+  @MinLength(5)
+  reason: string;
+}
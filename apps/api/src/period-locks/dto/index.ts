@@ -0,0 +1,7 @@
+/**
+ * Period Lock DTOs barrel export
+ */
+
+export * from './close-period.dto';
+export * from './reopen-period.dto';
+export * from './create-period-adjustment.dto';
@@ -0,0 +1,13 @@
+/**
+ * Reopen Period DTO
+ */
+
+import { IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReopenPeriodDto {
+  @ApiProperty({ description: 'Why the closed period must be edited again' })
+  @IsString()
+  @MinLength(5)
+  reason: string;
+}
@@ -0,0 +1,104 @@
+/**
+ * Period Locks Controller
+ *
+ * HR endpoints for closing payroll periods and recording adjustments to
+ * closed periods.
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+import { PeriodLocksService } from './period-locks.service';
+import { ClosePeriodDto, ReopenPeriodDto, CreatePeriodAdjustmentDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Payroll Periods')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.HR, UserRole.SuperAdmin)
+@Controller('payroll-periods')
+export class PeriodLocksController {
+  constructor(private readonly periodLocksService: PeriodLocksService) {}
+
+  /**
+   * List closed and reopened periods
+   */
+  @Get()
+  @ApiOperation({ summary: 'List payroll periods' })
+  async list(@CurrentUser() user: any) {
+    const result = await this.periodLocksService.listPeriods(user.companyId);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Close a period; its attendance, timesheets and leave become read-only
+   */
+  @Post('close')
+  @ApiOperation({ summary: 'Close a payroll period' })
+  async close(@CurrentUser() user: any, @Body() dto: ClosePeriodDto) {
+    const result = await this.periodLocksService.closePeriod(user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Reopen a closed period
+   */
+  @Patch(':id/reopen')
+  @ApiOperation({ summary: 'Reopen a closed payroll period' })
+  async reopen(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: ReopenPeriodDto,
+  ) {
+    const result = await this.periodLocksService.reopenPeriod(id, user.companyId, user.id, dto.reason);
+    return { success: true, data: result };
+  }
+
+  /**
+   * List adjustments to closed periods
+   */
+  @Get('adjustments')
+  @ApiOperation({ summary: 'List adjustments to closed periods' })
+  @ApiQuery({ name: 'userId', required: false })
+  @ApiQuery({ name: 'periodLockId', required: false })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Applied from (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'Applied until (YYYY-MM-DD)' })
+  async listAdjustments(
+    @CurrentUser() user: any,
+    @Query('userId') userId?: string,
+    @Query('periodLockId') periodLockId?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    const result = await this.periodLocksService.listAdjustments(user.companyId, {
+      userId,
+      periodLockId,
+      startDate,
+      endDate,
+    });
+    return { success: true, data: result };
+  }
+
+  /**
+   * Record a correction to a closed day, paid in the next open period
+   */
+  @Post('adjustments')
+  @ApiOperation({ summary: 'Record an adjustment to a closed period' })
+  async createAdjustment(@CurrentUser() user: any, @Body() dto: CreatePeriodAdjustmentDto) {
+    const result = await this.periodLocksService.createAdjustment(user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+}
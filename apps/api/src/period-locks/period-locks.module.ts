@@ -0,0 +1,18 @@
+/**
+ * Period Locks Module
+ *
+ * Payroll period closing. Global so attendance, timesheet and leave
+ * services can refuse edits to closed periods.
+ */
+
+import { Module, Global } from '@nestjs/common';
+import { PeriodLocksService } from './period-locks.service';
+import { PeriodLocksController } from './period-locks.controller';
+
+@Global()
+@Module({
+  controllers: [PeriodLocksController],
+  providers: [PeriodLocksService],
+  exports: [PeriodLocksService],
+})
+export class PeriodLocksModule {}
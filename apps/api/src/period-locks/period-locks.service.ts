@@ -0,0 +1,314 @@
+/**
+ * Period Locks Service
+ *
+ * HR closes a payroll period once it has been paid. Attendance, timesheets
+ * and leave dated inside a closed period are read-only; corrections are
+ * recorded as adjustments that payroll picks up in the next open period.
+ * Closing, reopening and adjustments are audited.
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  LeaveRequestStatus,
+  OvertimeRequestStatus,
+  PeriodAdjustmentType,
+  PeriodLock,
+  PeriodLockStatus,
+  RegularizationStatus,
+} from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { addDays, formatDay, parseDay, toLocalDay } from '../common/timezone/timezone.utils';
+import { ClosePeriodDto, CreatePeriodAdjustmentDto } from './dto';
+
+/**
+ * Closed period covering a day, if any
+ */
+export function findClosedPeriod(periods: PeriodLock[], day: Date): PeriodLock | undefined {
+  return periods.find((p) => p.startDate <= day && p.endDate >= day);
+}
+
+@Injectable()
+export class PeriodLocksService {
+  constructor(
+    private prisma: PrismaService,
+    private timezoneService: TimezoneService,
+  ) {}
+
+  /**
+   * List periods of a company, newest first
+   */
+  async listPeriods(companyId: string) {
+    return this.prisma.periodLock.findMany({
+      where: { companyId },
+      include: {
+        closer: { select: { id: true, profile: { select: { firstName: true, lastName: true } } } },
+        reopener: { select: { id: true, profile: { select: { firstName: true, lastName: true } } } },
+        _count: { select: { adjustments: true } },
+      },
+      orderBy: { startDate: 'desc' },
+    });
+  }
+
+  /**
+   * Close a period. Requests still pending inside it are reported because
+   * they can no longer be approved once the period is closed.
+   */
+  async closePeriod(companyId: string, actorId: string, dto: ClosePeriodDto) {
+    const startDate = parseDay(dto.startDate);
+    const endDate = parseDay(dto.endDate);
+
+    if (endDate < startDate) {
+      throw new BadRequestException('End date must be on or after start date');
+    }
+
+    const today = toLocalDay(new Date(), await this.timezoneService.getCompanyTimezone(companyId));
+    if (endDate >= today) {
+      throw new BadRequestException('Only periods that have already ended can be closed');
+    }
+
+    const overlapping = await this.getClosedPeriods(companyId, startDate, endDate);
+    if (overlapping.length > 0) {
+      throw new BadRequestException(
+        `Overlaps closed period ${formatDay(overlapping[0].startDate)} to ${formatDay(overlapping[0].endDate)}`,
+      );
+    }
+
+    const period = await this.prisma.periodLock.create({
+      data: {
+        companyId,
+        startDate,
+        endDate,
+        label: dto.label,
+        closedBy: actorId,
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'PeriodClosed',
+        entityType: 'PeriodLock',
+        entityId: period.id,
+        after: { startDate: dto.startDate, endDate: dto.endDate, label: dto.label },
+      },
+    });
+
+    const range = { gte: startDate, lte: endDate };
+    const [regularizations, overtimeRequests, leaveRequests] = await Promise.all([
+      this.prisma.attendanceRegularization.count({
+        where: { companyId, date: range, status: RegularizationStatus.Pending },
+      }),
+      this.prisma.overtimeRequest.count({
+        where: { companyId, date: range, status: OvertimeRequestStatus.Pending },
+      }),
+      this.prisma.leaveRequest.count({
+        where: {
+          user: { companyId },
+          status: LeaveRequestStatus.Pending,
+          startDate: { lte: endDate },
+          endDate: { gte: startDate },
+        },
+      }),
+    ]);
+
+    return { ...period, pendingRequests: { regularizations, overtimeRequests, leaveRequests } };
+  }
+
+  /**
+   * Reopen a closed period so its records can be edited directly again
+   */
+  async reopenPeriod(id: string, companyId: string, actorId: string, reason: string) {
+    const period = await this.prisma.periodLock.findFirst({ where: { id, companyId } });
+
+    if (!period) {
+      throw new NotFoundException('Period not found');
+    }
+
+    if (period.status !== PeriodLockStatus.Closed) {
+      throw new BadRequestException('Period is not closed');
+    }
+
+    const updated = await this.prisma.periodLock.update({
+      where: { id },
+      data: {
+        status: PeriodLockStatus.Reopened,
+        reopenedBy: actorId,
+        reopenedAt: new Date(),
+        reopenReason: reason,
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'PeriodReopened',
+        entityType: 'PeriodLock',
+        entityId: id,
+        before: { status: period.status },
+        after: { status: updated.status },
+        reason,
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Closed periods overlapping a date range
+   */
+  async getClosedPeriods(companyId: string, startDate: Date, endDate: Date) {
+    return this.prisma.periodLock.findMany({
+      where: {
+        companyId,
+        status: PeriodLockStatus.Closed,
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  /**
+   * Reject changes to records dated inside a closed period
+   */
+  async assertOpen(companyId: string, startDate: Date, endDate = startDate) {
+    const [closed] = await this.getClosedPeriods(companyId, startDate, endDate);
+
+    if (closed) {
+      throw new ForbiddenException(
+        `${closed.label ?? 'The period'} (${formatDay(closed.startDate)} to ${formatDay(closed.endDate)}) ` +
+          'is closed for payroll. Ask HR to record an adjustment instead.',
+      );
+    }
+  }
+
+  /**
+   * Same as assertOpen, for callers that only know the employee
+   */
+  async assertOpenForUser(userId: string, startDate: Date, endDate = startDate) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { companyId: true },
+    });
+
+    if (user) {
+      await this.assertOpen(user.companyId, startDate, endDate);
+    }
+  }
+
+  /**
+   * Record a correction to a closed day. It is booked on the first open day
+   * after the closed period so payroll pays it in the next run.
+   */
+  async createAdjustment(companyId: string, actorId: string, dto: CreatePeriodAdjustmentDto) {
+    const date = parseDay(dto.date);
+
+    const employee = await this.prisma.user.findFirst({
+      where: { id: dto.userId, companyId },
+    });
+
+    if (!employee) {
+      throw new NotFoundException('Employee not found');
+    }
+
+    const [period] = await this.getClosedPeriods(companyId, date, date);
+    if (!period) {
+      throw new BadRequestException('Date is not in a closed period; edit the records directly');
+    }
+
+    if (dto.type === PeriodAdjustmentType.Leave) {
+      if (!dto.days || !Number.isInteger(dto.days * 2)) {
+        throw new BadRequestException('Leave adjustments need non-zero days in half-day steps');
+      }
+    } else if (!dto.minutes) {
+      throw new BadRequestException(`${dto.type} adjustments need non-zero minutes`);
+    }
+
+    const appliedDate = await this.getNextOpenDay(companyId, period.endDate);
+
+    const adjustment = await this.prisma.periodAdjustment.create({
+      data: {
+        companyId,
+        periodLockId: period.id,
+        userId: dto.userId,
+        date,
+        type: dto.type,
+        minutes: dto.type === PeriodAdjustmentType.Leave ? null : dto.minutes,
+        days: dto.type === PeriodAdjustmentType.Leave ? dto.days : null,
+        reason: dto.reason,
+        appliedDate,
+        createdBy: actorId,
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'PeriodAdjustmentCreated',
+        entityType: 'PeriodAdjustment',
+        entityId: adjustment.id,
+        after: {
+          userId: dto.userId,
+          date: dto.date,
+          type: dto.type,
+          minutes: adjustment.minutes,
+          days: dto.days ?? null,
+          appliedDate: formatDay(appliedDate),
+        },
+        reason: dto.reason,
+      },
+    });
+
+    return adjustment;
+  }
+
+  /**
+   * List adjustments, by the day they are paid on
+   */
+  async listAdjustments(
+    companyId: string,
+    filters: { userId?: string; periodLockId?: string; startDate?: string; endDate?: string },
+  ) {
+    const where: any = { companyId };
+    if (filters.userId) where.userId = filters.userId;
+    if (filters.periodLockId) where.periodLockId = filters.periodLockId;
+    if (filters.startDate || filters.endDate) {
+      where.appliedDate = {};
+      if (filters.startDate) where.appliedDate.gte = parseDay(filters.startDate);
+      if (filters.endDate) where.appliedDate.lte = parseDay(filters.endDate);
+    }
+
+    return this.prisma.periodAdjustment.findMany({
+      where,
+      include: {
+        user: { select: { id: true, profile: { select: { firstName: true, lastName: true, employeeCode: true } } } },
+        periodLock: { select: { id: true, label: true, startDate: true, endDate: true } },
+      },
+      orderBy: [{ appliedDate: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * First day after a date that is not inside a closed period
+   */
+  private async getNextOpenDay(companyId: string, after: Date) {
+    const periods = await this.prisma.periodLock.findMany({
+      where: { companyId, status: PeriodLockStatus.Closed, endDate: { gt: after } },
+      orderBy: { startDate: 'asc' },
+    });
+
+    let day = addDays(after, 1);
+    for (let closed = findClosedPeriod(periods, day); closed; closed = findClosedPeriod(periods, day)) {
+      day = addDays(closed.endDate, 1);
+    }
+
+    return day;
+  }
+}
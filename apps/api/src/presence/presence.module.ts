@@ -16,10 +16,12 @@ import { PresenceService } from './presence.service';
 import { PresenceGateway } from './presence.gateway';
 import { PresenceController } from './presence.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { ProjectsModule } from '../projects/projects.module';
 
 @Module({
   imports: [
     PrismaModule,
+    ProjectsModule,
     JwtModule.registerAsync({
       inject: [ConfigService],
       useFactory: (config: ConfigService) => ({
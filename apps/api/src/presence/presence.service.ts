@@ -4,13 +4,17 @@
 import { Injectable } from '@nestjs/common';
 import { PresenceStatus, UserRole } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { ProjectMembersService } from '../projects/project-members.service';
 
 @Injectable()
 export class PresenceService {
   private readonly ONLINE_THRESHOLD = 2 * 60 * 1000;  // 2 minutes
   private readonly AWAY_THRESHOLD = 15 * 60 * 1000;   // 15 minutes
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private projectMembersService: ProjectMembersService,
+  ) {}
 
   /**
    * Update user presence with optional GPS coordinates and activity tracking
@@ -33,6 +37,11 @@ export class PresenceService {
       currentSession.currentTaskId !== data.taskId
     );
 
+    // Heartbeats can only switch to projects and tasks the user is open to
+    if (data.projectId && (!currentSession || activityChanged)) {
+      await this.projectMembersService.assertCanLog(userId, data.projectId, data.taskId);
+    }
+
     // If activity changed, close previous activity log and start new one
     if (activityChanged && currentSession?.currentProjectId) {
       await this.prisma.activityLog.updateMany({
@@ -82,6 +91,8 @@ export class PresenceService {
    * Set current activity (project/task) for user - ACTV-01
    */
   async setActivity(userId: string, projectId: string, taskId?: string) {
+    await this.projectMembersService.assertCanLog(userId, projectId, taskId);
+
     const now = new Date();
 
     // Close any existing activity log
@@ -0,0 +1,14 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ProjectMemberRole } from '@prisma/client';
+
+export class AddProjectMemberDto {
+  @ApiProperty({ description: 'Employee to add' })
+  @IsUUID()
+  userId: string;
+
+  @ApiPropertyOptional({ enum: ProjectMemberRole, default: ProjectMemberRole.Member })
+  @IsOptional()
+  @IsEnum(ProjectMemberRole)
+  role?: ProjectMemberRole;
+}
@@ -1,4 +1,20 @@
-import { IsString, IsOptional, IsUUID, MinLength, MaxLength } from 'class-validator';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEmail,
+  IsInt,
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  Length,
+  MinLength,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateProjectDto {
@@ -23,4 +39,72 @@ export class CreateProjectDto {
   @IsOptional()
   @IsUUID()
   managerId?: string;
+
+  @ApiPropertyOptional({ description: 'Hour budget in minutes; null removes it' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  budgetMinutes?: number | null;
+
+  @ApiPropertyOptional({ description: 'Cost budget, priced at employee hourly rates; null removes it' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  budgetCost?: number | null;
+
+  @ApiPropertyOptional({ description: 'First day of the budget (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string | null;
+
+  @ApiPropertyOptional({ description: 'Deadline (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  deadline?: string | null;
+
+  @ApiPropertyOptional({
+    type: [Number],
+    description: 'Percentages of budget at which the project manager is alerted',
+    example: [75, 90, 100],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(500, { each: true })
+  budgetAlertThresholds?: number[];
+
+  @ApiPropertyOptional({ description: 'Client billed for the project' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  clientName?: string | null;
+
+  @ApiPropertyOptional({ description: 'Client billing email' })
+  @IsOptional()
+  @IsEmail()
+  clientEmail?: string | null;
+
+  @ApiPropertyOptional({ description: 'Client billing address' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  clientAddress?: string | null;
+
+  @ApiPropertyOptional({ description: 'ISO 4217 currency code for invoices', example: 'USD' })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiPropertyOptional({ description: 'Whether new timesheet entries on the project are billable' })
+  @IsOptional()
+  @IsBoolean()
+  defaultBillable?: boolean;
+
+  @ApiPropertyOptional({ description: 'Only members and the project manager can log time to the project' })
+  @IsOptional()
+  @IsBoolean()
+  membersOnly?: boolean;
 }
@@ -1,4 +1,14 @@
-import { IsString, IsOptional, IsUUID, MinLength, MaxLength } from 'class-validator';
+import {
+  IsDateString,
+  IsInt,
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsUUID,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateTaskDto {
@@ -22,4 +32,21 @@ export class CreateTaskDto {
   @IsOptional()
   @IsString()
   description?: string;
+
+  @ApiPropertyOptional({ description: 'Estimate in minutes; null removes it' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  budgetMinutes?: number | null;
+
+  @ApiPropertyOptional({ description: 'Cost budget, priced at employee hourly rates; null removes it' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  budgetCost?: number | null;
+
+  @ApiPropertyOptional({ description: 'Deadline (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  deadline?: string | null;
 }
@@ -0,0 +1,10 @@
+import { ArrayMaxSize, IsArray, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetTaskAssigneesDto {
+  @ApiProperty({ description: 'Employees assigned to the task; empty opens it to every project member' })
+  @IsArray()
+  @ArrayMaxSize(200)
+  @IsUUID(undefined, { each: true })
+  userIds: string[];
+}
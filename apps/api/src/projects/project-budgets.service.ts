@@ -0,0 +1,253 @@
+/**
+ * Project Budgets Service
+ *
+ * Projects and tasks can carry an hour budget and a cost budget. Burn is
+ * measured from approved timesheet minutes; cost prices each entry at the
+ * project's rate card, the same rate invoices bill it at. When burn crosses one of the project's
+ * alert thresholds, the project manager (or SuperAdmins when the project has
+ * none) is notified once per threshold. Changing a budget clears its sent
+ * alerts so they are evaluated again against the new figures.
+ */
+
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { BudgetMetric, NotificationType, Prisma, TimesheetStatus, UserRole } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { addDays, formatDay, parseDay } from '../common/timezone/timezone.utils';
+import { resolveRate } from '../billing/project-rates.service';
+
+interface BurnEntry {
+  date: Date;
+  minutes: number;
+  taskId: string | null;
+  hourlyRate: number | null;
+}
+
+interface Budget {
+  budgetMinutes: number | null;
+  budgetCost: Prisma.Decimal | null;
+}
+
+/**
+ * Burn of a set of approved entries against a budget
+ */
+function summarizeBurn(budget: Budget, entries: BurnEntry[]) {
+  const burnedMinutes = entries.reduce((sum, e) => sum + e.minutes, 0);
+  const burnedCost = entries.reduce((sum, e) => sum + (e.minutes / 60) * (e.hourlyRate ?? 0), 0);
+  const budgetCost = budget.budgetCost === null ? null : Number(budget.budgetCost);
+
+  return {
+    budgetMinutes: budget.budgetMinutes,
+    budgetCost,
+    burnedMinutes,
+    burnedCost: Math.round(burnedCost * 100) / 100,
+    // Minutes by employees with no rate on the project's rate card are not in the cost burn
+    unpricedMinutes: entries.filter((e) => e.hourlyRate === null).reduce((sum, e) => sum + e.minutes, 0),
+    percentMinutes: budget.budgetMinutes ? Math.round((burnedMinutes / budget.budgetMinutes) * 100) : null,
+    percentCost: budgetCost ? Math.round((burnedCost / budgetCost) * 100) : null,
+  };
+}
+
+@Injectable()
+export class ProjectBudgetsService {
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+    private timezoneService: TimezoneService,
+  ) {}
+
+  /**
+   * Get a project's budget, burn per task and daily burn-down
+   */
+  async getBudget(projectId: string, companyId: string, userId: string) {
+    const project = await this.prisma.project.findFirst({
+      where: { id: projectId, companyId },
+      include: { tasks: { orderBy: { name: 'asc' } } },
+    });
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    const [entries, pending, today] = await Promise.all([
+      this.getApprovedEntries(projectId),
+      this.prisma.timesheetEntry.aggregate({
+        where: { projectId, status: TimesheetStatus.Submitted },
+        _sum: { minutes: true },
+      }),
+      this.timezoneService.getUserToday(userId),
+    ]);
+
+    return {
+      project: {
+        id: project.id,
+        name: project.name,
+        code: project.code,
+        startDate: project.startDate ? formatDay(project.startDate) : null,
+        deadline: project.deadline ? formatDay(project.deadline) : null,
+        budgetAlertThresholds: project.budgetAlertThresholds,
+      },
+      ...summarizeBurn(project, entries),
+      // Submitted but not yet approved, so not in the burn
+      pendingMinutes: pending._sum.minutes ?? 0,
+      tasks: project.tasks.map((task) => ({
+        id: task.id,
+        name: task.name,
+        code: task.code,
+        isActive: task.isActive,
+        deadline: task.deadline ? formatDay(task.deadline) : null,
+        ...summarizeBurn(task, entries.filter((e) => e.taskId === task.id)),
+      })),
+      burnDown: this.buildBurnDown(project, entries, today),
+    };
+  }
+
+  /**
+   * Alert on thresholds newly crossed by projects and their tasks
+   * Called after timesheet lines are approved and after budgets change.
+   */
+  async checkThresholds(projectIds: string[]) {
+    for (const projectId of new Set(projectIds)) {
+      const project = await this.prisma.project.findUnique({
+        where: { id: projectId },
+        include: { tasks: true, budgetAlerts: true },
+      });
+
+      if (!project || project.budgetAlertThresholds.length === 0) continue;
+
+      const hasBudget = (b: Budget) => b.budgetMinutes !== null || b.budgetCost !== null;
+      if (!hasBudget(project) && !project.tasks.some(hasBudget)) continue;
+
+      const entries = await this.getApprovedEntries(projectId);
+      const targets = [
+        { taskId: null, label: project.name, burn: summarizeBurn(project, entries) },
+        ...project.tasks.filter(hasBudget).map((task) => ({
+          taskId: task.id,
+          label: `${project.name} / ${task.name}`,
+          burn: summarizeBurn(task, entries.filter((e) => e.taskId === task.id)),
+        })),
+      ];
+
+      for (const target of targets) {
+        const metrics = [
+          { metric: BudgetMetric.Hours, used: target.burn.burnedMinutes, budget: target.burn.budgetMinutes },
+          { metric: BudgetMetric.Cost, used: target.burn.burnedCost, budget: target.burn.budgetCost },
+        ];
+
+        for (const { metric, used, budget } of metrics) {
+          if (!budget) continue;
+
+          const sent = project.budgetAlerts
+            .filter((a) => a.taskId === target.taskId && a.metric === metric)
+            .map((a) => a.threshold);
+          const crossed = project.budgetAlertThresholds.filter(
+            (t) => used * 100 >= t * budget && !sent.includes(t),
+          );
+
+          if (crossed.length === 0) continue;
+
+          await this.prisma.projectBudgetAlert.createMany({
+            data: crossed.map((threshold) => ({ projectId, taskId: target.taskId, metric, threshold })),
+          });
+
+          const percent = Math.round((used / budget) * 100);
+          const detail = metric === BudgetMetric.Hours
+            ? `${this.formatHours(used)} of ${this.formatHours(budget)} budgeted`
+            : `${used.toFixed(2)} of ${budget.toFixed(2)} budgeted`;
+          const payload = {
+            type: NotificationType.BudgetThreshold,
+            title: `Budget Alert: ${target.label}`,
+            body: `${target.label} has used ${percent}% of its ${metric === BudgetMetric.Hours ? 'hour' : 'cost'} budget (${detail})`,
+            data: { projectId, taskId: target.taskId, metric, threshold: Math.max(...crossed) },
+          };
+
+          if (project.managerId) {
+            await this.notifications.sendToUser(project.managerId, payload);
+          } else {
+            await this.notifications.sendToRole(project.companyId, [UserRole.SuperAdmin], payload);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Forget sent alerts for a project's or a task's budget
+   */
+  async clearAlerts(projectId: string, taskId: string | null) {
+    await this.prisma.projectBudgetAlert.deleteMany({ where: { projectId, taskId } });
+  }
+
+  private async getApprovedEntries(projectId: string): Promise<BurnEntry[]> {
+    const [entries, rates] = await Promise.all([
+      this.prisma.timesheetEntry.findMany({
+        where: { projectId, status: TimesheetStatus.Approved },
+        select: {
+          date: true,
+          minutes: true,
+          taskId: true,
+          user: { select: { id: true, role: true } },
+        },
+        orderBy: { date: 'asc' },
+      }),
+      this.prisma.projectRate.findMany({ where: { projectId } }),
+    ]);
+
+    return entries.map((e) => {
+      const rate = resolveRate(rates, e.user);
+      return {
+        date: e.date,
+        minutes: e.minutes,
+        taskId: e.taskId,
+        hourlyRate: rate ? Number(rate.hourlyRate) : null,
+      };
+    });
+  }
+
+  /**
+   * Daily cumulative burn from the project start to today or the deadline,
+   * whichever is later, with the ideal straight-line burn-down to the deadline
+   */
+  private buildBurnDown(
+    project: { budgetMinutes: number | null; startDate: Date | null; deadline: Date | null; createdAt: Date },
+    entries: BurnEntry[],
+    today: Date,
+  ) {
+    const start = project.startDate ?? entries[0]?.date ?? parseDay(project.createdAt);
+    const end = project.deadline && project.deadline > today ? project.deadline : today;
+    const idealDays = project.deadline ? Math.max(1, (project.deadline.getTime() - start.getTime()) / 86400000) : null;
+
+    const minutesByDay = new Map<string, number>();
+    for (const entry of entries) {
+      // Time approved before the start counts on the first day
+      const key = formatDay(entry.date < start ? start : entry.date);
+      minutesByDay.set(key, (minutesByDay.get(key) ?? 0) + entry.minutes);
+    }
+
+    const points = [];
+    let burned = 0;
+    for (let day = start, index = 0; day <= end; day = addDays(day, 1), index++) {
+      const date = formatDay(day);
+      burned += minutesByDay.get(date) ?? 0;
+      const isPast = day <= today;
+
+      points.push({
+        date,
+        burnedMinutes: isPast ? burned : null,
+        remainingMinutes: isPast && project.budgetMinutes !== null ? project.budgetMinutes - burned : null,
+        idealRemainingMinutes:
+          project.budgetMinutes !== null && idealDays !== null && project.deadline && day <= project.deadline
+            ? Math.round(project.budgetMinutes * Math.max(0, 1 - index / idealDays))
+            : null,
+      });
+    }
+
+    return points;
+  }
+
+  private formatHours(minutes: number) {
+    return `${Math.round((minutes / 60) * 10) / 10}h`;
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Project Members Service
+ *
+ * Projects marked members-only are open to their members and the project
+ * manager: only they can log time to the project, set it as their current
+ * activity or take part in its chat threads. A task with assignees is open
+ * only to its assignees and the project's leads. Adding and removing members
+ * is audited and kept in step with the project's chat threads.
+ */
+
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { ProjectMemberRole } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+
+interface ProjectAccess {
+  membersOnly: boolean;
+  managerId: string | null;
+  members: { userId: string; role: ProjectMemberRole }[];
+}
+
+interface TaskAccess {
+  assignees: { userId: string }[];
+}
+
+/**
+ * Whether a user can log time to a project
+ */
+export function canAccessProject(project: ProjectAccess, userId: string) {
+  return !project.membersOnly || project.managerId === userId || project.members.some((m) => m.userId === userId);
+}
+
+/**
+ * Whether a user can log time to a task of a project they can access
+ * Leads and the project manager are not limited by task assignees.
+ */
+export function canAccessTask(project: ProjectAccess, task: TaskAccess, userId: string) {
+  if (task.assignees.length === 0 || project.managerId === userId) return true;
+
+  const membership = project.members.find((m) => m.userId === userId);
+  return membership?.role === ProjectMemberRole.Lead || task.assignees.some((a) => a.userId === userId);
+}
+
+const memberInclude = {
+  user: { select: { id: true, email: true, role: true, profile: { select: { firstName: true, lastName: true } } } },
+};
+
+@Injectable()
+export class ProjectMembersService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * List a project's members
+   */
+  async listMembers(projectId: string, companyId: string) {
+    await this.findProject(projectId, companyId);
+
+    return this.prisma.projectMember.findMany({
+      where: { projectId },
+      include: memberInclude,
+      orderBy: [{ role: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Add a member, or change an existing member's role
+   */
+  async addMember(projectId: string, companyId: string, actorId: string, dto: AddProjectMemberDto) {
+    await this.findProject(projectId, companyId);
+
+    const user = await this.prisma.user.findFirst({ where: { id: dto.userId, companyId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const role = dto.role ?? ProjectMemberRole.Member;
+    const existing = await this.prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId: dto.userId } },
+    });
+
+    if (existing?.role === role) {
+      return this.prisma.projectMember.findUnique({ where: { id: existing.id }, include: memberInclude });
+    }
+
+    const member = await this.prisma.projectMember.upsert({
+      where: { projectId_userId: { projectId, userId: dto.userId } },
+      create: { projectId, userId: dto.userId, role },
+      update: { role },
+      include: memberInclude,
+    });
+
+    if (!existing) {
+      // New members join the project's chat threads
+      const threads = await this.prisma.chatThread.findMany({ where: { projectId }, select: { id: true } });
+      if (threads.length > 0) {
+        await this.prisma.chatMember.createMany({
+          data: threads.map((t) => ({ threadId: t.id, userId: dto.userId })),
+          skipDuplicates: true,
+        });
+      }
+    }
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: existing ? 'ProjectMemberUpdated' : 'ProjectMemberAdded',
+        entityType: 'Project',
+        entityId: projectId,
+        before: existing ? { userId: dto.userId, role: existing.role } : undefined,
+        after: { userId: dto.userId, role },
+      },
+    });
+
+    return member;
+  }
+
+  /**
+   * Remove a member, with their task assignments in the project
+   */
+  async removeMember(projectId: string, userId: string, companyId: string, actorId: string) {
+    const project = await this.findProject(projectId, companyId);
+
+    const member = await this.prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId } },
+    });
+    if (!member) {
+      throw new NotFoundException('Project member not found');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.taskAssignee.deleteMany({ where: { userId, task: { projectId } } }),
+      this.prisma.projectMember.delete({ where: { id: member.id } }),
+    ]);
+
+    // Only members-only projects close their chat threads to non-members
+    if (project.membersOnly && project.managerId !== userId) {
+      await this.prisma.chatMember.deleteMany({ where: { userId, thread: { projectId } } });
+    }
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'ProjectMemberRemoved',
+        entityType: 'Project',
+        entityId: projectId,
+        before: { userId, role: member.role },
+      },
+    });
+
+    return { removed: true };
+  }
+
+  /**
+   * Replace a task's assignees; no assignees opens it to every project member
+   */
+  async setTaskAssignees(taskId: string, companyId: string, actorId: string, userIds: string[]) {
+    const task = await this.prisma.task.findFirst({
+      where: { id: taskId, project: { companyId } },
+      include: { project: { include: { members: true } }, assignees: true },
+    });
+    if (!task) {
+      throw new NotFoundException('Task not found');
+    }
+
+    const ids = [...new Set(userIds)];
+    const count = await this.prisma.user.count({ where: { id: { in: ids }, companyId } });
+    if (count !== ids.length) {
+      throw new BadRequestException('One or more employees were not found');
+    }
+
+    const outsiders = ids.filter((id) => !canAccessProject(task.project, id));
+    if (outsiders.length > 0) {
+      throw new BadRequestException('Assignees must be members of the project');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.taskAssignee.deleteMany({ where: { taskId } }),
+      this.prisma.taskAssignee.createMany({ data: ids.map((userId) => ({ taskId, userId })) }),
+    ]);
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'TaskAssigneesUpdated',
+        entityType: 'Task',
+        entityId: taskId,
+        before: { userIds: task.assignees.map((a) => a.userId) },
+        after: { userIds: ids },
+      },
+    });
+
+    return this.prisma.taskAssignee.findMany({ where: { taskId }, include: memberInclude });
+  }
+
+  /**
+   * Remove people who are no longer allowed from a project's chat threads
+   * Called when a project becomes members-only.
+   */
+  async syncChatThreads(projectId: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      include: { members: true },
+    });
+    if (!project?.membersOnly) return;
+
+    const allowed = [...project.members.map((m) => m.userId), ...(project.managerId ? [project.managerId] : [])];
+    await this.prisma.chatMember.deleteMany({
+      where: { thread: { projectId }, userId: { notIn: allowed } },
+    });
+  }
+
+  /**
+   * Reject time or activity on a project or task the user is not open to
+   */
+  async assertCanLog(userId: string, projectId: string, taskId?: string | null) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      include: { members: { where: { userId } } },
+    });
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    if (!canAccessProject(project, userId)) {
+      throw new ForbiddenException('You are not a member of this project');
+    }
+
+    if (taskId) {
+      const assignees = await this.prisma.taskAssignee.findMany({ where: { taskId }, select: { userId: true } });
+      if (!canAccessTask(project, { assignees }, userId)) {
+        throw new ForbiddenException('This task is assigned to other members');
+      }
+    }
+  }
+
+  /**
+   * Reject chat participants who cannot access a members-only project
+   */
+  async assertChatMembers(projectId: string, companyId: string, userIds: string[]) {
+    const project = await this.prisma.project.findFirst({
+      where: { id: projectId, companyId },
+      include: { members: true },
+    });
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    if (userIds.some((id) => !canAccessProject(project, id))) {
+      throw new BadRequestException('Project threads can only include project members');
+    }
+  }
+
+  private async findProject(projectId: string, companyId: string) {
+    const project = await this.prisma.project.findFirst({ where: { id: projectId, companyId } });
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+    return project;
+  }
+}
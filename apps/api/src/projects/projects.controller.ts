@@ -9,6 +9,7 @@ import {
   Get,
   Post,
   Patch,
+  Put,
   Delete,
   Body,
   Param,
@@ -19,10 +20,14 @@ import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger'
 import { UserRole } from '@prisma/client';
 
 import { ProjectsService } from './projects.service';
+import { ProjectBudgetsService } from './project-budgets.service';
+import { ProjectMembersService } from './project-members.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+import { SetTaskAssigneesDto } from './dto/set-task-assignees.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -34,7 +39,11 @@ import { CurrentUser } from '../auth/decorators/current-user.decorator';
 @Roles(UserRole.SuperAdmin)
 @Controller('admin/projects')
 export class ProjectsController {
-  constructor(private readonly projectsService: ProjectsService) {}
+  constructor(
+    private readonly projectsService: ProjectsService,
+    private readonly projectBudgetsService: ProjectBudgetsService,
+    private readonly projectMembersService: ProjectMembersService,
+  ) {}
 
   // ===== Projects =====
 
@@ -66,6 +75,13 @@ export class ProjectsController {
     return { success: true, data: result };
   }
 
+  @Get(':id/budget')
+  @ApiOperation({ summary: 'Get project budget burn and burn-down' })
+  async getBudget(@Param('id') id: string, @CurrentUser() user: any) {
+    const result = await this.projectBudgetsService.getBudget(id, user.companyId, user.id);
+    return { success: true, data: result };
+  }
+
   @Patch(':id')
   @ApiOperation({ summary: 'Update project' })
   async updateProject(@Param('id') id: string, @Body() dto: UpdateProjectDto) {
@@ -80,6 +96,29 @@ export class ProjectsController {
     return { success: true, data: result };
   }
 
+  // ===== Members =====
+
+  @Get(':id/members')
+  @ApiOperation({ summary: 'List project members' })
+  async listMembers(@Param('id') id: string, @CurrentUser() user: any) {
+    const result = await this.projectMembersService.listMembers(id, user.companyId);
+    return { success: true, data: result };
+  }
+
+  @Post(':id/members')
+  @ApiOperation({ summary: "Add a project member or change a member's role" })
+  async addMember(@Param('id') id: string, @CurrentUser() user: any, @Body() dto: AddProjectMemberDto) {
+    const result = await this.projectMembersService.addMember(id, user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+
+  @Delete(':id/members/:userId')
+  @ApiOperation({ summary: 'Remove a project member' })
+  async removeMember(@Param('id') id: string, @Param('userId') userId: string, @CurrentUser() user: any) {
+    const result = await this.projectMembersService.removeMember(id, userId, user.companyId, user.id);
+    return { success: true, data: result };
+  }
+
   // ===== Tasks =====
 
   @Post('tasks')
@@ -110,6 +149,13 @@ export class ProjectsController {
     return { success: true, data: result };
   }
 
+  @Put('tasks/:id/assignees')
+  @ApiOperation({ summary: 'Replace task assignees' })
+  async setTaskAssignees(@Param('id') id: string, @CurrentUser() user: any, @Body() dto: SetTaskAssigneesDto) {
+    const result = await this.projectMembersService.setTaskAssignees(id, user.companyId, user.id, dto.userIds);
+    return { success: true, data: result };
+  }
+
   @Delete('tasks/:id')
   @ApiOperation({ summary: 'Deactivate task (soft delete)' })
   async deactivateTask(@Param('id') id: string) {
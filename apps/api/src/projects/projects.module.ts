@@ -1,16 +1,21 @@
 /**
  * Projects Module
  *
- * Admin module for managing projects and tasks.
+ * Admin module for managing projects, tasks and their members, and tracking
+ * their budgets.
  */
 
 import { Module } from '@nestjs/common';
 import { ProjectsController } from './projects.controller';
 import { ProjectsService } from './projects.service';
+import { ProjectBudgetsService } from './project-budgets.service';
+import { ProjectMembersService } from './project-members.service';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
+  imports: [NotificationsModule],
   controllers: [ProjectsController],
-  providers: [ProjectsService],
-  exports: [ProjectsService],
+  providers: [ProjectsService, ProjectBudgetsService, ProjectMembersService],
+  exports: [ProjectsService, ProjectBudgetsService, ProjectMembersService],
 })
 export class ProjectsModule {}
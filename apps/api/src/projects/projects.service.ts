@@ -6,14 +6,29 @@
 
 import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { ProjectBudgetsService } from './project-budgets.service';
+import { ProjectMembersService } from './project-members.service';
+import { parseDay } from '../common/timezone/timezone.utils';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
 
+/**
+ * Convert an optional `YYYY-MM-DD` field, keeping undefined (unchanged) and
+ * null (cleared) as they are
+ */
+function toDate(value: string | null | undefined) {
+  return value ? parseDay(value) : value;
+}
+
 @Injectable()
 export class ProjectsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private projectBudgetsService: ProjectBudgetsService,
+    private projectMembersService: ProjectMembersService,
+  ) {}
 
   // ===== Projects =====
 
@@ -32,7 +47,9 @@ export class ProjectsService {
     return this.prisma.project.create({
       data: {
         companyId,
-        ...dto
+        ...dto,
+        startDate: toDate(dto.startDate),
+        deadline: toDate(dto.deadline),
       },
       include: {
         tasks: true,
@@ -71,7 +88,7 @@ export class ProjectsService {
     const project = await this.prisma.project.findUnique({
       where: { id },
       include: {
-        tasks: true,
+        tasks: { include: { assignees: true } },
         manager: {
           include: { profile: true }
         }
@@ -102,9 +119,13 @@ export class ProjectsService {
       }
     }
 
-    return this.prisma.project.update({
+    const updated = await this.prisma.project.update({
       where: { id },
-      data: dto,
+      data: {
+        ...dto,
+        startDate: toDate(dto.startDate),
+        deadline: toDate(dto.deadline),
+      },
       include: {
         tasks: true,
         manager: {
@@ -112,6 +133,22 @@ export class ProjectsService {
         }
       },
     });
+
+    // A changed budget is measured afresh against its thresholds
+    if (
+      dto.budgetMinutes !== undefined ||
+      dto.budgetCost !== undefined ||
+      dto.budgetAlertThresholds !== undefined
+    ) {
+      await this.projectBudgetsService.clearAlerts(id, null);
+      await this.projectBudgetsService.checkThresholds([id]);
+    }
+
+    if (dto.membersOnly) {
+      await this.projectMembersService.syncChatThreads(id);
+    }
+
+    return updated;
   }
 
   /**
@@ -144,7 +181,7 @@ export class ProjectsService {
     }
 
     return this.prisma.task.create({
-      data: dto,
+      data: { ...dto, deadline: toDate(dto.deadline) },
       include: { project: true },
     });
   }
@@ -183,11 +220,18 @@ export class ProjectsService {
       }
     }
 
-    return this.prisma.task.update({
+    const updated = await this.prisma.task.update({
       where: { id },
-      data: dto,
+      data: { ...dto, deadline: toDate(dto.deadline) },
       include: { project: true },
     });
+
+    if (dto.budgetMinutes !== undefined || dto.budgetCost !== undefined) {
+      await this.projectBudgetsService.clearAlerts(task.projectId, id);
+      await this.projectBudgetsService.checkThresholds([task.projectId]);
+    }
+
+    return updated;
   }
 
   /**
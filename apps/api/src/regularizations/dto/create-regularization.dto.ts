@@ -0,0 +1,33 @@
+/**
+ * Create Regularization DTO
+ */
+
+import { IsOptional, IsString, IsEnum, IsDateString, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WorkMode } from '@prisma/client';
+
+export class CreateRegularizationDto {
+  @ApiProperty({ description: 'Past day to correct (YYYY-MM-DD)' })
+  @IsDateString()
+  date: string;
+
+  @ApiPropertyOptional({ description: 'Proposed check-in time (ISO timestamp)' })
+  @IsOptional()
+  @IsDateString()
+  proposedCheckIn?: string;
+
+  @ApiPropertyOptional({ description: 'Proposed check-out time (ISO timestamp)' })
+  @IsOptional()
+  @IsDateString()
+  proposedCheckOut?: string;
+
+  @ApiPropertyOptional({ enum: WorkMode })
+  @IsOptional()
+  @IsEnum(WorkMode)
+  workMode?: WorkMode;
+
+  @ApiProperty()
+  @IsString()
+  @MinLength(5)
+  reason: string;
+}
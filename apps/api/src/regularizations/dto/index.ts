@@ -0,0 +1,6 @@
+/**
+ * Regularization DTOs barrel export
+ */
+
+export * from './create-regularization.dto';
+export * from './review-regularization.dto';
@@ -0,0 +1,19 @@
+/**
+ * Review Regularization DTOs
+ */
+
+import { IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApproveRegularizationDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class RejectRegularizationDto {
+  @ApiProperty()
+  @IsString()
+  reason: string;
+}
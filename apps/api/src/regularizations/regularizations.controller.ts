@@ -0,0 +1,138 @@
+/**
+ * Regularizations Controller
+ *
+ * Endpoints for filing and reviewing attendance regularization requests.
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { RegularizationStatus, UserRole } from '@prisma/client';
+
+import { RegularizationsService } from './regularizations.service';
+import {
+  CreateRegularizationDto,
+  ApproveRegularizationDto,
+  RejectRegularizationDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Attendance Regularizations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('regularizations')
+export class RegularizationsController {
+  constructor(private readonly regularizationsService: RegularizationsService) {}
+
+  /**
+   * File a regularization request
+   */
+  @Post()
+  @ApiOperation({ summary: 'Request attendance regularization for a past day' })
+  async create(
+    @CurrentUser() user: any,
+    @Body() dto: CreateRegularizationDto,
+  ) {
+    const result = await this.regularizationsService.createRequest(
+      user.id,
+      user.companyId,
+      dto,
+    );
+    return { success: true, data: result };
+  }
+
+  /**
+   * Get own regularization requests
+   */
+  @Get('my')
+  @ApiOperation({ summary: 'Get my regularization requests' })
+  @ApiQuery({ name: 'status', required: false, enum: RegularizationStatus })
+  async getMine(
+    @CurrentUser() user: any,
+    @Query('status') status?: RegularizationStatus,
+  ) {
+    const result = await this.regularizationsService.getMyRequests(user.id, status);
+    return { success: true, data: result };
+  }
+
+  /**
+   * Get requests awaiting review
+   */
+  @Get('pending')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Get regularization requests pending review' })
+  async getPending(@CurrentUser() user: any) {
+    const result = await this.regularizationsService.getPendingForReviewer(
+      user.id,
+      user.companyId,
+      user.role,
+    );
+    return { success: true, data: result };
+  }
+
+  /**
+   * Approve a regularization request
+   */
+  @Patch(':id/approve')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Approve regularization request' })
+  async approve(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: ApproveRegularizationDto,
+  ) {
+    const result = await this.regularizationsService.approveRequest(
+      id,
+      user.id,
+      user.companyId,
+      user.role,
+      dto.notes,
+    );
+    return { success: true, data: result };
+  }
+
+  /**
+   * Reject a regularization request
+   */
+  @Patch(':id/reject')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Reject regularization request' })
+  async reject(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: RejectRegularizationDto,
+  ) {
+    const result = await this.regularizationsService.rejectRequest(
+      id,
+      user.id,
+      user.companyId,
+      user.role,
+      dto.reason,
+    );
+    return { success: true, data: result };
+  }
+
+  /**
+   * Cancel own pending request
+   */
+  @Patch(':id/cancel')
+  @ApiOperation({ summary: 'Cancel my pending regularization request' })
+  async cancel(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ) {
+    const result = await this.regularizationsService.cancelRequest(id, user.id);
+    return { success: true, data: result };
+  }
+}
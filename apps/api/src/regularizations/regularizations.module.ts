@@ -0,0 +1,19 @@
+/**
+ * Regularizations Module
+ *
+ * Employee attendance correction requests with manager approval.
+ */
+
+import { Module } from '@nestjs/common';
+import { RegularizationsService } from './regularizations.service';
+import { RegularizationsController } from './regularizations.controller';
+import { AttendanceModule } from '../attendance/attendance.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [AttendanceModule, NotificationsModule],
+  controllers: [RegularizationsController],
+  providers: [RegularizationsService],
+  exports: [RegularizationsService],
+})
+export class RegularizationsModule {}
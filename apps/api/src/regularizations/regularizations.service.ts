@@ -0,0 +1,310 @@
+/**
+ * Regularizations Service
+ *
+ * Handles employee attendance regularization requests for past days.
+ * Managers review requests from their direct reports; approval applies
+ * the proposed times as override attendance events.
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { NotificationType, RegularizationStatus, UserRole } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { AttendanceService } from '../attendance/attendance.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { PeriodLocksService } from '../period-locks/period-locks.service';
+import {
+  addDays,
+  formatDayLabel,
+  getLocalDayBounds,
+  localTimeToUtc,
+  parseDay,
+  toLocalDay,
+} from '../common/timezone/timezone.utils';
+import { CreateRegularizationDto } from './dto';
+
+@Injectable()
+export class RegularizationsService {
+  constructor(
+    private prisma: PrismaService,
+    private attendanceService: AttendanceService,
+    private notifications: NotificationsService,
+    private timezoneService: TimezoneService,
+    private periodLocksService: PeriodLocksService,
+  ) {}
+
+  /**
+   * File a regularization request for a past day
+   */
+  async createRequest(userId: string, companyId: string, dto: CreateRegularizationDto) {
+    // Days are judged in the employee's own timezone
+    const timeZone = await this.timezoneService.getUserTimezone(userId);
+    const date = parseDay(dto.date);
+    const proposedCheckIn = dto.proposedCheckIn ? new Date(dto.proposedCheckIn) : undefined;
+    const proposedCheckOut = dto.proposedCheckOut ? new Date(dto.proposedCheckOut) : undefined;
+
+    if (date >= toLocalDay(new Date(), timeZone)) {
+      throw new BadRequestException('Regularization is only allowed for past days');
+    }
+
+    if (!proposedCheckIn && !proposedCheckOut) {
+      throw new BadRequestException('Provide a proposed check-in or check-out time');
+    }
+
+    await this.periodLocksService.assertOpen(companyId, date);
+
+    if (proposedCheckIn && toLocalDay(proposedCheckIn, timeZone).getTime() !== date.getTime()) {
+      throw new BadRequestException('Proposed check-in must be on the requested day');
+    }
+
+    // Check-out may run past midnight but not beyond the following day
+    const { start: dayStart } = getLocalDayBounds(date, timeZone);
+    const latestCheckOut = localTimeToUtc(addDays(date, 2), 0, timeZone);
+    if (proposedCheckOut && (proposedCheckOut < dayStart || proposedCheckOut >= latestCheckOut)) {
+      throw new BadRequestException('Proposed check-out is outside the requested day');
+    }
+
+    if (proposedCheckIn && proposedCheckOut && proposedCheckOut <= proposedCheckIn) {
+      throw new BadRequestException('Proposed check-out must be after check-in');
+    }
+
+    const existing = await this.prisma.attendanceRegularization.findFirst({
+      where: { userId, date, status: RegularizationStatus.Pending },
+    });
+
+    if (existing) {
+      throw new BadRequestException('A pending regularization already exists for this day');
+    }
+
+    const request = await this.prisma.attendanceRegularization.create({
+      data: {
+        userId,
+        companyId,
+        date,
+        proposedCheckIn,
+        proposedCheckOut,
+        workMode: dto.workMode,
+        reason: dto.reason,
+      },
+      include: { user: { include: { profile: true } } },
+    });
+
+    // Notify the employee's manager, or HR when no manager is assigned
+    const reviewerIds = request.user.profile?.managerId
+      ? [request.user.profile.managerId]
+      : (
+          await this.prisma.user.findMany({
+            where: { companyId, role: UserRole.HR, isActive: true },
+            select: { id: true },
+          })
+        ).map((u) => u.id);
+
+    const employeeName = request.user.profile
+      ? `${request.user.profile.firstName} ${request.user.profile.lastName}`
+      : 'An employee';
+
+    await this.notifications.sendToUsers(reviewerIds, {
+      type: NotificationType.System,
+      title: 'Attendance Regularization Request',
+      body: `${employeeName} requested attendance correction for ${formatDayLabel(date)}`,
+      data: { regularizationId: request.id },
+      actionUrl: '/attendance/regularizations',
+    });
+
+    return request;
+  }
+
+  /**
+   * Get regularization requests filed by a user
+   */
+  async getMyRequests(userId: string, status?: RegularizationStatus) {
+    return this.prisma.attendanceRegularization.findMany({
+      where: { userId, ...(status && { status }) },
+      include: { reviewer: { include: { profile: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get requests awaiting review
+   * Managers see their direct reports; HR and admins see the whole company
+   */
+  async getPendingForReviewer(reviewerId: string, companyId: string, role: UserRole) {
+    const where: any = { companyId, status: RegularizationStatus.Pending };
+
+    if (role === UserRole.Manager) {
+      where.user = { profile: { managerId: reviewerId } };
+    }
+
+    return this.prisma.attendanceRegularization.findMany({
+      where,
+      include: { user: { include: { profile: true } } },
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  /**
+   * Approve a request and apply the proposed times as override events
+   */
+  async approveRequest(
+    id: string,
+    reviewerId: string,
+    companyId: string,
+    role: UserRole,
+    notes?: string,
+  ) {
+    const request = await this.getReviewableRequest(id, reviewerId, companyId, role);
+
+    const result = await this.attendanceService.applyRegularization(
+      request.userId,
+      request.date,
+      {
+        checkIn: request.proposedCheckIn ?? undefined,
+        checkOut: request.proposedCheckOut ?? undefined,
+        workMode: request.workMode ?? undefined,
+      },
+      `Regularization: ${request.reason}`,
+      reviewerId,
+    );
+
+    const updated = await this.prisma.attendanceRegularization.update({
+      where: { id },
+      data: {
+        status: RegularizationStatus.Approved,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        reviewNotes: notes,
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: reviewerId,
+        action: 'RegularizationApproved',
+        entityType: 'AttendanceRegularization',
+        entityId: id,
+        before: { status: request.status },
+        after: {
+          status: updated.status,
+          attendanceDayId: result.attendanceDayId,
+          eventIds: result.events.map((e) => e.id),
+        },
+        reason: notes,
+      },
+    });
+
+    await this.notifications.sendToUser(request.userId, {
+      type: NotificationType.System,
+      title: 'Regularization Approved',
+      body: `Your attendance correction for ${formatDayLabel(request.date)} has been approved`,
+      data: { regularizationId: id },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Reject a request
+   */
+  async rejectRequest(
+    id: string,
+    reviewerId: string,
+    companyId: string,
+    role: UserRole,
+    reason: string,
+  ) {
+    const request = await this.getReviewableRequest(id, reviewerId, companyId, role);
+
+    const updated = await this.prisma.attendanceRegularization.update({
+      where: { id },
+      data: {
+        status: RegularizationStatus.Rejected,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        rejectionReason: reason,
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: reviewerId,
+        action: 'RegularizationRejected',
+        entityType: 'AttendanceRegularization',
+        entityId: id,
+        before: { status: request.status },
+        after: { status: updated.status },
+        reason,
+      },
+    });
+
+    await this.notifications.sendToUser(request.userId, {
+      type: NotificationType.System,
+      title: 'Regularization Rejected',
+      body: `Your attendance correction for ${formatDayLabel(request.date)} was not approved: ${reason}`,
+      data: { regularizationId: id },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Cancel a pending request (requester only)
+   */
+  async cancelRequest(id: string, userId: string) {
+    const request = await this.prisma.attendanceRegularization.findFirst({
+      where: { id, userId },
+    });
+
+    if (!request) {
+      throw new NotFoundException('Regularization request not found');
+    }
+
+    if (request.status !== RegularizationStatus.Pending) {
+      throw new BadRequestException('Request is not pending');
+    }
+
+    return this.prisma.attendanceRegularization.update({
+      where: { id },
+      data: { status: RegularizationStatus.Cancelled },
+    });
+  }
+
+  /**
+   * Load a pending request and check the reviewer may act on it
+   */
+  private async getReviewableRequest(
+    id: string,
+    reviewerId: string,
+    companyId: string,
+    role: UserRole,
+  ) {
+    const request = await this.prisma.attendanceRegularization.findFirst({
+      where: { id, companyId },
+      include: { user: { include: { profile: true } } },
+    });
+
+    if (!request) {
+      throw new NotFoundException('Regularization request not found');
+    }
+
+    if (request.status !== RegularizationStatus.Pending) {
+      throw new BadRequestException('Request is not pending');
+    }
+
+    if (request.userId === reviewerId) {
+      throw new ForbiddenException('You cannot review your own request');
+    }
+
+    if (role === UserRole.Manager && request.user.profile?.managerId !== reviewerId) {
+      throw new ForbiddenException('You can only review requests from your direct reports');
+    }
+
+    return request;
+  }
+}
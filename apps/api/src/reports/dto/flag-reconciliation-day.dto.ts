@@ -0,0 +1,18 @@
+import { IsDateString, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class FlagReconciliationDayDto {
+  @ApiProperty({ description: 'Employee to notify' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ description: 'Past day to correct (YYYY-MM-DD)' })
+  @IsDateString()
+  date: string;
+
+  @ApiPropertyOptional({ description: 'Included in the notification' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
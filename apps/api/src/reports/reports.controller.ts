@@ -3,19 +3,29 @@
  *
  * Exposes dashboard endpoints for Manager and HR roles.
  * Single endpoint with role-based response.
+ * Also exposes the timesheet vs attendance reconciliation report.
  */
 
-import { Controller, Get, UseGuards, Req } from '@nestjs/common';
+import { Controller, Get, Post, Body, Query, UseGuards, Req, BadRequestException } from '@nestjs/common';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { ReportsService } from './reports.service';
+import {
+  TimesheetReconciliationService,
+  ReconciliationIssue,
+  RECONCILIATION_ISSUES,
+} from './timesheet-reconciliation.service';
+import { FlagReconciliationDayDto } from './dto/flag-reconciliation-day.dto';
 import { UserRole } from '@prisma/client';
 
 @Controller('reports')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class ReportsController {
-  constructor(private reportsService: ReportsService) {}
+  constructor(
+    private reportsService: ReportsService,
+    private reconciliationService: TimesheetReconciliationService,
+  ) {}
 
   /**
    * GET /reports/dashboard
@@ -61,4 +71,56 @@ export class ReportsController {
     const data = await this.reportsService.getHRDashboard(companyId);
     return { success: true, data };
   }
+
+  /**
+   * GET /reports/timesheet-reconciliation
+   * Days where attendance and timesheet minutes disagree:
+   * - Employee: own days
+   * - Manager: direct reports and own days
+   * - HR/SuperAdmin: anyone, filterable by department or manager
+   */
+  @Get('timesheet-reconciliation')
+  async getTimesheetReconciliation(
+    @Req() req: any,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('userId') userId?: string,
+    @Query('department') department?: string,
+    @Query('managerId') managerId?: string,
+    @Query('issue') issue?: ReconciliationIssue,
+    @Query('toleranceMinutes') toleranceMinutes?: string,
+  ) {
+    if (!startDate || !endDate) {
+      throw new BadRequestException('Provide a start and end date (YYYY-MM-DD)');
+    }
+    if (issue && !RECONCILIATION_ISSUES.includes(issue)) {
+      throw new BadRequestException(`issue must be one of ${RECONCILIATION_ISSUES.join(', ')}`);
+    }
+    const tolerance = toleranceMinutes !== undefined ? parseInt(toleranceMinutes, 10) : undefined;
+    if (tolerance !== undefined && (Number.isNaN(tolerance) || tolerance < 0 || tolerance > 240)) {
+      throw new BadRequestException('toleranceMinutes must be between 0 and 240');
+    }
+
+    const data = await this.reconciliationService.getReconciliation(req.user, {
+      startDate,
+      endDate,
+      userId,
+      department,
+      managerId,
+      issue,
+      toleranceMinutes: tolerance,
+    });
+    return { success: true, data };
+  }
+
+  /**
+   * POST /reports/timesheet-reconciliation/flag
+   * Notify an employee to file an attendance correction for a day
+   */
+  @Post('timesheet-reconciliation/flag')
+  @Roles(UserRole.Manager, UserRole.HR, UserRole.SuperAdmin)
+  async flagReconciliationDay(@Req() req: any, @Body() dto: FlagReconciliationDayDto) {
+    const data = await this.reconciliationService.flagDay(req.user, dto);
+    return { success: true, data };
+  }
 }
@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ReportsController } from './reports.controller';
 import { ReportsService } from './reports.service';
+import { TimesheetReconciliationService } from './timesheet-reconciliation.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { WorkSchedulesModule } from '../work-schedules/work-schedules.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, WorkSchedulesModule, NotificationsModule],
   controllers: [ReportsController],
-  providers: [ReportsService],
+  providers: [ReportsService, TimesheetReconciliationService],
   exports: [ReportsService],
 })
 export class ReportsModule {}
@@ -14,12 +14,38 @@ import {
   TimesheetSummaryDto,
   TeamMemberStatusDto,
 } from './dto/dashboard-response.dto';
+import { buildSessions, getFirstCheckIn } from '../attendance/attendance-sessions';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import {
+  addDays,
+  formatDay,
+  getLocalMinutesOfDay,
+  resolveTimezone,
+  toLocalDay,
+  uniqueDays,
+} from '../common/timezone/timezone.utils';
+import { WorkSchedulesService } from '../work-schedules/work-schedules.service';
+import {
+  ResolvedWorkSchedule,
+  getScheduledDay,
+  isLateForDay,
+} from '../work-schedules/work-schedule.utils';
 import { AttendanceEventType, AnomalyStatus } from '@prisma/client';
-import { subDays, format, eachDayOfInterval, startOfWeek } from 'date-fns';
+import { startOfWeek } from 'date-fns';
+
+/** Per-employee timezone and work schedule used to judge lateness and absence */
+interface EmployeeContext {
+  timezones: Map<string, string>;
+  schedules: Map<string, ResolvedWorkSchedule>;
+}
 
 @Injectable()
 export class ReportsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private timezoneService: TimezoneService,
+    private workSchedulesService: WorkSchedulesService,
+  ) {}
 
   /**
    * Get Manager Dashboard - Direct reports only
@@ -42,26 +68,26 @@ export class ReportsService {
       return this.emptyManagerDashboard();
     }
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    // Define late threshold: 9:15 AM
-    const lateThreshold = new Date(today);
-    lateThreshold.setHours(9, 15, 0, 0);
+    // "Today" is the company's day; each employee's own day, lateness and
+    // working days come from their timezone and work schedule
+    const now = new Date();
+    const today = toLocalDay(now, await this.timezoneService.getCompanyTimezone(companyId));
+    const context = await this.getEmployeeContext(userIds);
+    const localToday = this.getLocalToday(context.timezones, now);
 
     // Parallel queries for performance
-    const [todayAttendance, weeklyData, timesheetData, openAnomalies, leaveCount] =
+    const [attendanceDays, weeklyData, timesheetData, openAnomalies, onLeaveUserIds] =
       await Promise.all([
         // Today's attendance
         this.prisma.attendanceDay.findMany({
-          where: { userId: { in: userIds }, date: today },
+          where: { userId: { in: userIds }, date: { in: uniqueDays(localToday.values()) } },
           include: {
             events: true,
             user: { include: { profile: true, presenceSession: true } },
           },
         }),
         // Weekly attendance (last 7 days)
-        this.getWeeklyAttendance(userIds, today),
+        this.getWeeklyAttendance(userIds, today, context),
         // Weekly timesheet summary
         this.getWeeklyTimesheet(userIds, today),
         // Open anomalies count
@@ -69,44 +95,55 @@ export class ReportsService {
           where: { userId: { in: userIds }, status: AnomalyStatus.Open },
         }),
         // On leave today
-        this.prisma.leaveRequest.count({
-          where: {
-            userId: { in: userIds },
-            status: 'Approved',
-            startDate: { lte: today },
-            endDate: { gte: today },
-          },
-        }),
+        this.getOnLeaveUserIds(userIds, today),
       ]);
 
+    const todayAttendance = attendanceDays.filter(
+      (d) => d.date.getTime() === localToday.get(d.userId)?.getTime(),
+    );
+
     // Calculate today's stats
     const checkedInUsers = todayAttendance.filter((d) =>
       d.events.some((e) => e.type === AttendanceEventType.CheckIn),
     );
-    const lateUsers = todayAttendance.filter((d) => {
-      const checkIn = d.events.find((e) => e.type === AttendanceEventType.CheckIn);
-      return checkIn && new Date(checkIn.timestamp) > lateThreshold;
-    });
+    const lateUsers = todayAttendance.filter((d) =>
+      this.isLate(d.userId, d.date, getFirstCheckIn(d.events)?.timestamp, context),
+    );
+    const absentCount = this.countAbsent(
+      userIds,
+      (userId) => localToday.get(userId) ?? today,
+      new Set(checkedInUsers.map((d) => d.userId)),
+      onLeaveUserIds,
+      context,
+    );
 
     // Build team status list
     const teamStatus: TeamMemberStatusDto[] = directReports.map((profile) => {
       const attendance = todayAttendance.find((a) => a.userId === profile.userId);
-      const checkIn = attendance?.events.find(
-        (e) => e.type === AttendanceEventType.CheckIn,
+      const sessions = buildSessions(attendance?.events || []);
+      const latestSession = sessions[sessions.length - 1];
+      const checkIn = sessions[0]?.checkIn;
+      const checkOut = latestSession?.checkOut;
+      const isLate = this.isLate(
+        profile.userId,
+        localToday.get(profile.userId) ?? today,
+        checkIn?.timestamp,
+        context,
       );
-      const checkOut = attendance?.events.find(
-        (e) => e.type === AttendanceEventType.CheckOut,
+      const isScheduled = this.isScheduledToWork(
+        profile.userId,
+        localToday.get(profile.userId) ?? today,
+        context,
       );
-      const isLate = checkIn ? new Date(checkIn.timestamp) > lateThreshold : false;
 
       return {
         userId: profile.userId,
         userName: `${profile.firstName} ${profile.lastName}`,
         checkInTime: checkIn?.timestamp.toISOString(),
         checkOutTime: checkOut?.timestamp.toISOString(),
-        workMode: checkIn?.workMode,
+        workMode: latestSession?.workMode,
         isLate,
-        isAbsent: !checkIn,
+        isAbsent: !checkIn && isScheduled && !onLeaveUserIds.has(profile.userId),
         currentProject:
           attendance?.user.presenceSession?.currentProjectId || undefined,
       };
@@ -117,8 +154,8 @@ export class ReportsService {
       todayStats: {
         checkedIn: checkedInUsers.length,
         late: lateUsers.length,
-        absent: teamSize - checkedInUsers.length - leaveCount,
-        onLeave: leaveCount,
+        absent: absentCount,
+        onLeave: onLeaveUserIds.size,
       },
       weeklyAttendance: weeklyData,
       weeklyTimesheet: timesheetData,
@@ -131,9 +168,6 @@ export class ReportsService {
    * Get HR Dashboard - Org-wide data
    */
   async getHRDashboard(companyId: string): Promise<HRDashboardDto> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
     // Get all active users in company
     const allUsers = await this.prisma.user.findMany({
       where: { companyId, isActive: true },
@@ -146,36 +180,31 @@ export class ReportsService {
       return this.emptyHRDashboard();
     }
 
-    const lateThreshold = new Date(today);
-    lateThreshold.setHours(9, 15, 0, 0);
+    const now = new Date();
+    const today = toLocalDay(now, await this.timezoneService.getCompanyTimezone(companyId));
+    const context = await this.getEmployeeContext(userIds);
+    const localToday = this.getLocalToday(context.timezones, now);
 
     // Parallel queries
     const [
-      todayAttendance,
+      attendanceDays,
       weeklyData,
       anomalySummary,
-      leaveCount,
+      onLeaveUserIds,
       breakViolations,
       avgCheckInData,
     ] = await Promise.all([
       // Today's attendance
       this.prisma.attendanceDay.findMany({
-        where: { userId: { in: userIds }, date: today },
+        where: { userId: { in: userIds }, date: { in: uniqueDays(localToday.values()) } },
         include: { events: true },
       }),
       // Weekly attendance
-      this.getWeeklyAttendance(userIds, today),
+      this.getWeeklyAttendance(userIds, today, context),
       // Anomaly summary
       this.getAnomalySummary(companyId),
       // On leave today
-      this.prisma.leaveRequest.count({
-        where: {
-          userId: { in: userIds },
-          status: 'Approved',
-          startDate: { lte: today },
-          endDate: { gte: today },
-        },
-      }),
+      this.getOnLeaveUserIds(userIds, today),
       // Break policy violations this week
       this.prisma.anomalyEvent.count({
         where: {
@@ -185,19 +214,29 @@ export class ReportsService {
         },
       }),
       // Average check-in time this week
-      this.getAverageCheckInTime(userIds, today),
+      this.getAverageCheckInTime(userIds, today, context.timezones),
     ]);
 
+    const todayAttendance = attendanceDays.filter(
+      (d) => d.date.getTime() === localToday.get(d.userId)?.getTime(),
+    );
+
     // Calculate today's stats
-    const checkedIn = todayAttendance.filter((d) =>
+    const checkedInDays = todayAttendance.filter((d) =>
       d.events.some((e) => e.type === AttendanceEventType.CheckIn),
+    );
+    const checkedIn = checkedInDays.length;
+    const late = todayAttendance.filter((d) =>
+      this.isLate(d.userId, d.date, getFirstCheckIn(d.events)?.timestamp, context),
     ).length;
-    const late = todayAttendance.filter((d) => {
-      const checkIn = d.events.find((e) => e.type === AttendanceEventType.CheckIn);
-      return checkIn && new Date(checkIn.timestamp) > lateThreshold;
-    }).length;
 
-    const absent = orgSize - checkedIn - leaveCount;
+    const absent = this.countAbsent(
+      userIds,
+      (userId) => localToday.get(userId) ?? today,
+      new Set(checkedInDays.map((d) => d.userId)),
+      onLeaveUserIds,
+      context,
+    );
 
     return {
       orgSize,
@@ -205,7 +244,7 @@ export class ReportsService {
         checkedIn,
         late,
         absent,
-        onLeave: leaveCount,
+        onLeave: onLeaveUserIds.size,
         attendanceRate: Math.round((checkedIn / orgSize) * 100 * 10) / 10,
       },
       weeklyAttendance: weeklyData,
@@ -222,52 +261,122 @@ export class ReportsService {
 
   // Helper methods
 
+  /**
+   * Get each user's current local day, keyed by user ID
+   */
+  private getLocalToday(timezones: Map<string, string>, now: Date): Map<string, Date> {
+    return new Map(
+      Array.from(timezones, ([userId, timeZone]) => [userId, toLocalDay(now, timeZone)]),
+    );
+  }
+
+  /**
+   * Load timezones and work schedules for a set of employees
+   */
+  private async getEmployeeContext(userIds: string[]): Promise<EmployeeContext> {
+    const [timezones, schedules] = await Promise.all([
+      this.timezoneService.getUserTimezones(userIds),
+      this.workSchedulesService.resolveForUsers(userIds),
+    ]);
+    return { timezones, schedules };
+  }
+
+  /**
+   * Whether a first check-in is late against the employee's schedule, in their timezone
+   */
+  private isLate(
+    userId: string,
+    day: Date,
+    checkIn: Date | undefined,
+    context: EmployeeContext,
+  ): boolean {
+    const schedule = context.schedules.get(userId);
+    if (!checkIn || !schedule) return false;
+
+    const timeZone = resolveTimezone(context.timezones.get(userId));
+    return isLateForDay(getScheduledDay(schedule, day), getLocalMinutesOfDay(checkIn, timeZone));
+  }
+
+  /**
+   * Whether the employee's schedule has them working on the day
+   */
+  private isScheduledToWork(userId: string, day: Date, context: EmployeeContext): boolean {
+    const schedule = context.schedules.get(userId);
+    return schedule ? getScheduledDay(schedule, day).isWorkingDay : true;
+  }
+
+  /**
+   * Count employees scheduled to work who neither checked in nor are on leave
+   */
+  private countAbsent(
+    userIds: string[],
+    dayFor: (userId: string) => Date,
+    checkedInUserIds: Set<string>,
+    onLeaveUserIds: Set<string>,
+    context: EmployeeContext,
+  ): number {
+    return userIds.filter(
+      (userId) =>
+        !checkedInUserIds.has(userId) &&
+        !onLeaveUserIds.has(userId) &&
+        this.isScheduledToWork(userId, dayFor(userId), context),
+    ).length;
+  }
+
+  /**
+   * Get IDs of employees with approved leave covering the day
+   */
+  private async getOnLeaveUserIds(userIds: string[], day: Date): Promise<Set<string>> {
+    const leaves = await this.prisma.leaveRequest.findMany({
+      where: {
+        userId: { in: userIds },
+        status: 'Approved',
+        startDate: { lte: day },
+        endDate: { gte: day },
+      },
+      select: { userId: true },
+    });
+    return new Set(leaves.map((l) => l.userId));
+  }
+
   private async getWeeklyAttendance(
     userIds: string[],
     today: Date,
+    context: EmployeeContext,
   ): Promise<AttendanceSummaryDto[]> {
-    const weekStart = subDays(today, 6);
-    const days = eachDayOfInterval({ start: weekStart, end: today });
+    const days = Array.from({ length: 7 }, (_, i) => addDays(today, i - 6));
 
     const results: AttendanceSummaryDto[] = [];
 
-    for (const day of days) {
-      const dayStart = new Date(day);
-      dayStart.setHours(0, 0, 0, 0);
-
-      const dayLateThreshold = new Date(dayStart);
-      dayLateThreshold.setHours(9, 15, 0, 0);
-
-      const [attendance, leaveCount] = await Promise.all([
+    for (const dayStart of days) {
+      const [attendance, onLeaveUserIds] = await Promise.all([
         this.prisma.attendanceDay.findMany({
           where: { userId: { in: userIds }, date: dayStart },
           include: { events: true },
         }),
-        this.prisma.leaveRequest.count({
-          where: {
-            userId: { in: userIds },
-            status: 'Approved',
-            startDate: { lte: dayStart },
-            endDate: { gte: dayStart },
-          },
-        }),
+        this.getOnLeaveUserIds(userIds, dayStart),
       ]);
 
-      const checkedIn = attendance.filter((d) =>
+      const checkedInDays = attendance.filter((d) =>
         d.events.some((e) => e.type === AttendanceEventType.CheckIn),
-      ).length;
+      );
 
-      const late = attendance.filter((d) => {
-        const checkIn = d.events.find((e) => e.type === AttendanceEventType.CheckIn);
-        return checkIn && new Date(checkIn.timestamp) > dayLateThreshold;
-      }).length;
+      const late = attendance.filter((d) =>
+        this.isLate(d.userId, d.date, getFirstCheckIn(d.events)?.timestamp, context),
+      ).length;
 
       results.push({
-        date: format(day, 'yyyy-MM-dd'),
-        checkedIn,
+        date: formatDay(dayStart),
+        checkedIn: checkedInDays.length,
         late,
-        absent: userIds.length - checkedIn - leaveCount,
-        onLeave: leaveCount,
+        absent: this.countAbsent(
+          userIds,
+          () => dayStart,
+          new Set(checkedInDays.map((d) => d.userId)),
+          onLeaveUserIds,
+          context,
+        ),
+        onLeave: onLeaveUserIds.size,
       });
     }
 
@@ -278,7 +387,7 @@ export class ReportsService {
     userIds: string[],
     today: Date,
   ): Promise<TimesheetSummaryDto[]> {
-    const weekStart = subDays(today, 6);
+    const weekStart = addDays(today, -6);
 
     const entries = await this.prisma.timesheetEntry.findMany({
       where: {
@@ -346,8 +455,9 @@ export class ReportsService {
   private async getAverageCheckInTime(
     userIds: string[],
     today: Date,
+    timezones: Map<string, string>,
   ): Promise<string | null> {
-    const weekStart = subDays(today, 6);
+    const weekStart = addDays(today, -6);
 
     const checkIns = await this.prisma.attendanceEvent.findMany({
       where: {
@@ -357,14 +467,15 @@ export class ReportsService {
           date: { gte: weekStart, lte: today },
         },
       },
-      select: { timestamp: true },
+      select: { timestamp: true, attendanceDay: { select: { userId: true } } },
     });
 
     if (checkIns.length === 0) return null;
 
+    // Average wall-clock time, each check-in read in its employee's timezone
     const totalMinutes = checkIns.reduce((sum, c) => {
-      const d = new Date(c.timestamp);
-      return sum + d.getHours() * 60 + d.getMinutes();
+      const timeZone = resolveTimezone(timezones.get(c.attendanceDay.userId));
+      return sum + getLocalMinutesOfDay(c.timestamp, timeZone);
     }, 0);
 
     const avgMinutes = Math.round(totalMinutes / checkIns.length);
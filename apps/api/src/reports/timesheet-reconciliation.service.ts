@@ -0,0 +1,264 @@
+/**
+ * Timesheet Reconciliation Service
+ *
+ * Compares each employee day's attendance worked minutes with the minutes
+ * logged on their timesheet, and lists the days that do not add up: time
+ * worked but not logged, time logged beyond what was worked, and time
+ * logged on approved leave. Employees see their own days, managers their
+ * direct reports, HR and admins anyone. Managers can flag a day so the
+ * employee files an attendance correction.
+ */
+
+import { Injectable, BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { NotificationType, Prisma, RegularizationStatus, UserRole } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { addDays, formatDay, formatDayLabel, parseDay, toLocalDay } from '../common/timezone/timezone.utils';
+import { FlagReconciliationDayDto } from './dto/flag-reconciliation-day.dto';
+
+export type ReconciliationIssue = 'Unlogged' | 'OverLogged' | 'LeaveConflict';
+
+export const RECONCILIATION_ISSUES: ReconciliationIssue[] = ['Unlogged', 'OverLogged', 'LeaveConflict'];
+
+export interface ReconciliationFilters {
+  startDate: string;
+  endDate: string;
+  userId?: string;
+  /** Employees whose profile is in this department */
+  department?: string;
+  /** Direct reports of this manager */
+  managerId?: string;
+  issue?: ReconciliationIssue;
+  /** Gap ignored either way, in minutes */
+  toleranceMinutes?: number;
+}
+
+interface ReconciliationViewer {
+  id: string;
+  role: UserRole;
+  companyId: string;
+}
+
+const MAX_RANGE_DAYS = 62;
+const DEFAULT_TOLERANCE_MINUTES = 15;
+
+@Injectable()
+export class TimesheetReconciliationService {
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+    private timezoneService: TimezoneService,
+  ) {}
+
+  /**
+   * List the days in a range where attendance and timesheet minutes disagree
+   * Days are only reconciled once they have ended in the employee's timezone.
+   */
+  async getReconciliation(viewer: ReconciliationViewer, filters: ReconciliationFilters) {
+    const start = parseDay(filters.startDate);
+    const end = parseDay(filters.endDate);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      throw new BadRequestException('Provide a start and end date (YYYY-MM-DD)');
+    }
+    if (end < start) {
+      throw new BadRequestException('End date must be on or after start date');
+    }
+    if (addDays(start, MAX_RANGE_DAYS - 1) < end) {
+      throw new BadRequestException(`The range can span at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    const tolerance = filters.toleranceMinutes ?? DEFAULT_TOLERANCE_MINUTES;
+    const users = await this.prisma.user.findMany({
+      where: this.scopeUsers(viewer, filters),
+      select: {
+        id: true,
+        email: true,
+        profile: { select: { firstName: true, lastName: true, department: true, managerId: true } },
+      },
+    });
+    const userIds = users.map((u) => u.id);
+
+    const [timeZones, attendanceDays, entries, leaves, regularizations] = await Promise.all([
+      this.timezoneService.getUserTimezones(userIds),
+      this.prisma.attendanceDay.findMany({
+        where: { userId: { in: userIds }, date: { gte: start, lte: end } },
+        select: { userId: true, date: true, totalWorkMinutes: true, isComplete: true },
+      }),
+      this.prisma.timesheetEntry.findMany({
+        where: { userId: { in: userIds }, date: { gte: start, lte: end } },
+        select: {
+          id: true,
+          userId: true,
+          date: true,
+          minutes: true,
+          status: true,
+          project: { select: { id: true, name: true, code: true } },
+          task: { select: { id: true, name: true, code: true } },
+        },
+      }),
+      this.prisma.leaveRequest.findMany({
+        where: { userId: { in: userIds }, status: 'Approved', startDate: { lte: end }, endDate: { gte: start } },
+        select: { id: true, userId: true, startDate: true, endDate: true, leaveType: { select: { name: true } } },
+      }),
+      this.prisma.attendanceRegularization.findMany({
+        where: {
+          userId: { in: userIds },
+          date: { gte: start, lte: end },
+          status: { in: [RegularizationStatus.Pending, RegularizationStatus.Approved] },
+        },
+        select: { id: true, userId: true, date: true, status: true },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    // Index by employee and day so each day is a lookup, not a scan of the range
+    const dayKey = (userId: string, day: Date) => `${userId}:${formatDay(day)}`;
+    const attendanceByDay = new Map(attendanceDays.map((d) => [dayKey(d.userId, d.date), d]));
+    const entriesByDay = new Map<string, typeof entries>();
+    for (const entry of entries) {
+      const key = dayKey(entry.userId, entry.date);
+      const dayEntries = entriesByDay.get(key);
+      if (dayEntries) dayEntries.push(entry);
+      else entriesByDay.set(key, [entry]);
+    }
+    // Newest first, so the first one kept per day is the latest
+    const regularizationByDay = new Map<string, (typeof regularizations)[number]>();
+    for (const regularization of regularizations) {
+      const key = dayKey(regularization.userId, regularization.date);
+      if (!regularizationByDay.has(key)) regularizationByDay.set(key, regularization);
+    }
+    const leavesByUser = new Map<string, typeof leaves>();
+    for (const leave of leaves) {
+      const userLeaves = leavesByUser.get(leave.userId);
+      if (userLeaves) userLeaves.push(leave);
+      else leavesByUser.set(leave.userId, [leave]);
+    }
+
+    const now = new Date();
+    const rows = [];
+
+    for (const user of users) {
+      const today = toLocalDay(now, timeZones.get(user.id) ?? 'UTC');
+      const lastDay = end < today ? end : addDays(today, -1);
+
+      for (let day = start; day <= lastDay; day = addDays(day, 1)) {
+        const key = dayKey(user.id, day);
+        const attendance = attendanceByDay.get(key);
+        const dayEntries = entriesByDay.get(key) ?? [];
+        const leave = leavesByUser.get(user.id)?.find((l) => l.startDate <= day && l.endDate >= day);
+
+        const attendanceMinutes = attendance?.totalWorkMinutes ?? 0;
+        const loggedMinutes = dayEntries.reduce((sum, e) => sum + e.minutes, 0);
+        const differenceMinutes = loggedMinutes - attendanceMinutes;
+
+        const issues: ReconciliationIssue[] = [];
+        if (differenceMinutes < -tolerance) issues.push('Unlogged');
+        if (differenceMinutes > tolerance) issues.push('OverLogged');
+        if (leave && loggedMinutes > 0) issues.push('LeaveConflict');
+
+        if (issues.length === 0 || (filters.issue && !issues.includes(filters.issue))) continue;
+
+        const regularization = regularizationByDay.get(key);
+
+        rows.push({
+          date: formatDay(day),
+          user: { id: user.id, email: user.email, profile: user.profile },
+          attendanceMinutes,
+          // False while the day has an open attendance session
+          attendanceComplete: attendance?.isComplete ?? true,
+          loggedMinutes,
+          differenceMinutes,
+          issues,
+          leave: leave ? { id: leave.id, leaveTypeName: leave.leaveType.name } : null,
+          regularization: regularization ? { id: regularization.id, status: regularization.status } : null,
+          entries: dayEntries.map(({ userId: _, date: __, ...entry }) => entry),
+        });
+      }
+    }
+
+    rows.sort((a, b) => b.date.localeCompare(a.date) || a.user.email.localeCompare(b.user.email));
+
+    return {
+      startDate: formatDay(start),
+      endDate: formatDay(end),
+      toleranceMinutes: tolerance,
+      totals: {
+        days: rows.length,
+        unloggedMinutes: rows.reduce((sum, r) => sum + Math.max(0, -r.differenceMinutes), 0),
+        overLoggedMinutes: rows.reduce((sum, r) => sum + Math.max(0, r.differenceMinutes), 0),
+      },
+      rows,
+    };
+  }
+
+  /**
+   * Ask an employee to file an attendance correction for a day
+   */
+  async flagDay(viewer: ReconciliationViewer, dto: FlagReconciliationDayDto) {
+    const employee = await this.prisma.user.findFirst({
+      where: { id: dto.userId, companyId: viewer.companyId },
+      include: { profile: { select: { managerId: true } } },
+    });
+    if (!employee) {
+      throw new NotFoundException('Employee not found');
+    }
+
+    if (viewer.role === UserRole.Manager && employee.profile?.managerId !== viewer.id) {
+      throw new ForbiddenException('You can only flag days of your direct reports');
+    }
+
+    const date = parseDay(dto.date);
+    const today = await this.timezoneService.getUserToday(employee.id);
+    if (date >= today) {
+      throw new BadRequestException('Only past days can be flagged for correction');
+    }
+
+    await this.notifications.sendToUser(employee.id, {
+      type: NotificationType.System,
+      title: 'Attendance Correction Needed',
+      body: `Please check your attendance for ${formatDayLabel(date)}${dto.note ? `: ${dto.note}` : ''}`,
+      data: { date: formatDay(date), flaggedBy: viewer.id },
+      actionUrl: `/attendance?regularize=${formatDay(date)}`,
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: viewer.id,
+        action: 'AttendanceCorrectionRequested',
+        entityType: 'User',
+        entityId: employee.id,
+        after: { date: formatDay(date), note: dto.note ?? null },
+      },
+    });
+
+    return { flagged: true };
+  }
+
+  /**
+   * Employees see themselves, managers their direct reports and themselves,
+   * HR and admins anyone in the company
+   */
+  private scopeUsers(viewer: ReconciliationViewer, filters: ReconciliationFilters): Prisma.UserWhereInput {
+    if (viewer.role === UserRole.Employee) {
+      return { id: viewer.id };
+    }
+
+    const where: Prisma.UserWhereInput = { companyId: viewer.companyId, isActive: true };
+    if (filters.userId) where.id = filters.userId;
+
+    const profile: Prisma.EmployeeProfileWhereInput = {};
+    if (filters.department) profile.department = filters.department;
+
+    if (viewer.role === UserRole.Manager) {
+      const team: Prisma.UserWhereInput = { profile: { ...profile, managerId: viewer.id } };
+      where.OR = filters.department ? [team] : [{ id: viewer.id }, team];
+    } else {
+      if (filters.managerId) profile.managerId = filters.managerId;
+      if (Object.keys(profile).length > 0) where.profile = profile;
+    }
+
+    return where;
+  }
+}
@@ -0,0 +1,50 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AcceptSuggestionDto {
+  @ApiProperty({ description: 'Day to book (YYYY-MM-DD)' })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty()
+  @IsUUID()
+  projectId: string;
+
+  @ApiProperty()
+  @IsUUID()
+  taskId: string;
+
+  @ApiProperty({ description: 'Minutes to book, as suggested or edited by the employee' })
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  minutes: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class AcceptSuggestionsDto {
+  @ApiProperty({ type: [AcceptSuggestionDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => AcceptSuggestionDto)
+  entries: AcceptSuggestionDto[];
+}
@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsDateString, IsUUID, IsArray } from 'class-validator';
+import { IsString, IsOptional, IsDateString, IsUUID, IsArray, IsBoolean } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateTimesheetDto {
@@ -27,6 +27,11 @@ export class CreateTimesheetDto {
   @IsString()
   notes?: string;
 
+  @ApiPropertyOptional({ description: 'Whether the time is billable to the client; defaults to the project setting' })
+  @IsOptional()
+  @IsBoolean()
+  isBillable?: boolean;
+
   @ApiPropertyOptional({ description: 'Array of MinIO object keys for file attachments' })
   @IsOptional()
   @IsArray()
@@ -0,0 +1,54 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TimesheetStatus } from '@prisma/client';
+
+const REVIEW_DECISIONS = [TimesheetStatus.Approved, TimesheetStatus.Rejected] as const;
+type ReviewDecision = (typeof REVIEW_DECISIONS)[number];
+
+export class ReviewTimesheetLineDto {
+  @ApiProperty({ description: 'Timesheet entry ID' })
+  @IsUUID()
+  id: string;
+
+  @ApiProperty({ enum: REVIEW_DECISIONS })
+  @IsIn(REVIEW_DECISIONS)
+  status: ReviewDecision;
+
+  @ApiPropertyOptional({ description: 'Comment on this line' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  comment?: string;
+}
+
+export class ReviewTimesheetDto {
+  @ApiPropertyOptional({
+    enum: REVIEW_DECISIONS,
+    description: 'Decision for every line you can review that is not listed in entries',
+  })
+  @IsOptional()
+  @IsIn(REVIEW_DECISIONS)
+  status?: ReviewDecision;
+
+  @ApiPropertyOptional({ type: [ReviewTimesheetLineDto], description: 'Per-line decisions' })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReviewTimesheetLineDto)
+  entries?: ReviewTimesheetLineDto[];
+
+  @ApiPropertyOptional({ description: 'Overall comment; required when rejecting lines without their own comment' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
+}
@@ -0,0 +1,26 @@
+import { IsString, IsOptional, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class StartTimerDto {
+  @ApiProperty({ description: 'Project ID' })
+  @IsUUID()
+  projectId: string;
+
+  @ApiProperty({ description: 'Task ID' })
+  @IsUUID()
+  taskId: string;
+
+  @ApiPropertyOptional({ description: 'Notes copied to the timesheet entry when the timer stops' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class StopTimerDto {
+  @ApiPropertyOptional({ description: 'Replaces the notes given when the timer was started' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
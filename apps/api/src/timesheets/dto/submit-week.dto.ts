@@ -0,0 +1,8 @@
+import { IsDateString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SubmitWeekDto {
+  @ApiProperty({ description: 'Any day of the week to submit (YYYY-MM-DD); weeks start on Monday' })
+  @IsDateString()
+  weekStart: string;
+}
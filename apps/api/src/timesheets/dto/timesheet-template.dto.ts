@@ -0,0 +1,99 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+
+export class TimesheetTemplateLineDto {
+  @ApiProperty({ description: 'Weekday the time is booked on (0 = Sunday)' })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  weekday: number;
+
+  @ApiProperty()
+  @IsUUID()
+  projectId: string;
+
+  @ApiProperty()
+  @IsUUID()
+  taskId: string;
+
+  @ApiProperty()
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  minutes: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class CreateTimesheetTemplateDto {
+  @ApiProperty({ example: 'Support rota' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Fill each new week automatically', default: false })
+  @IsOptional()
+  @IsBoolean()
+  isRecurring?: boolean;
+
+  @ApiProperty({ type: [TimesheetTemplateLineDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => TimesheetTemplateLineDto)
+  lines: TimesheetTemplateLineDto[];
+}
+
+export class UpdateTimesheetTemplateDto extends PartialType(CreateTimesheetTemplateDto) {}
+
+export class CreateTemplateFromWeekDto {
+  @ApiProperty({ example: 'Support rota' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ description: 'Any day of the week to save (YYYY-MM-DD)' })
+  @IsDateString()
+  weekStart: string;
+
+  @ApiPropertyOptional({ default: false })
+  @IsOptional()
+  @IsBoolean()
+  isRecurring?: boolean;
+}
+
+export class FillWeekDto {
+  @ApiProperty({ description: 'Any day of the week to fill (YYYY-MM-DD)' })
+  @IsDateString()
+  weekStart: string;
+}
+
+export class CopyWeekDto extends FillWeekDto {
+  @ApiPropertyOptional({ description: 'Any day of the week to copy from (YYYY-MM-DD); the previous week when omitted' })
+  @IsOptional()
+  @IsDateString()
+  sourceWeekStart?: string;
+}
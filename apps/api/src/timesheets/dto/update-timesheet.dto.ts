@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsUUID, IsArray, IsDateString } from 'class-validator';
+import { IsString, IsOptional, IsUUID, IsArray, IsDateString, IsBoolean } from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 
 export class UpdateTimesheetDto {
@@ -27,6 +27,11 @@ export class UpdateTimesheetDto {
   @IsString()
   notes?: string;
 
+  @ApiPropertyOptional({ description: 'Whether the time is billable to the client' })
+  @IsOptional()
+  @IsBoolean()
+  isBillable?: boolean;
+
   @ApiPropertyOptional({ description: 'Array of MinIO object keys for file attachments' })
   @IsOptional()
   @IsArray()
@@ -0,0 +1,429 @@
+/**
+ * Timesheet Approvals Service
+ *
+ * Employees submit a week of timesheet entries (Monday to Sunday) in one
+ * action. The employee's manager, or HR, can review every line; project
+ * managers review the lines booked to their projects. Lines are approved
+ * or rejected individually with a comment. Submitted and approved lines
+ * are locked; rejected lines can be corrected and the week submitted again.
+ * Lines in a closed payroll period can be neither submitted nor reviewed.
+ * Approved lines count toward project budgets, which may raise budget alerts.
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { NotificationType, TimesheetStatus, UserRole } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { ProjectBudgetsService } from '../projects/project-budgets.service';
+import { PeriodLocksService } from '../period-locks/period-locks.service';
+import {
+  addDays,
+  formatDay,
+  formatDayLabel,
+  getWeekStart,
+  parseDay,
+} from '../common/timezone/timezone.utils';
+import { SubmitWeekDto } from './dto/submit-week.dto';
+import { ReviewTimesheetDto } from './dto/review-timesheet.dto';
+
+export interface TimesheetActor {
+  id: string;
+  companyId: string;
+  role: UserRole;
+}
+
+@Injectable()
+export class TimesheetApprovalsService {
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+    private timezoneService: TimezoneService,
+    private projectBudgetsService: ProjectBudgetsService,
+    private periodLocksService: PeriodLocksService,
+  ) {}
+
+  /**
+   * Get a user's week with its entries and submission status
+   */
+  async getWeek(userId: string, day: string) {
+    const weekStart = getWeekStart(parseDay(day));
+    const weekEnd = addDays(weekStart, 6);
+
+    const [submission, entries] = await Promise.all([
+      this.prisma.timesheetSubmission.findUnique({
+        where: { userId_weekStart: { userId, weekStart } },
+        include: {
+          reviewer: { select: { id: true, profile: { select: { firstName: true, lastName: true } } } },
+        },
+      }),
+      this.prisma.timesheetEntry.findMany({
+        where: { userId, date: { gte: weekStart, lte: weekEnd } },
+        include: { project: true, task: true, attachments: true },
+        orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+      }),
+    ]);
+
+    return {
+      weekStart: formatDay(weekStart),
+      weekEnd: formatDay(weekEnd),
+      status: submission?.status ?? TimesheetStatus.Draft,
+      submission,
+      totalMinutes: entries.reduce((sum, e) => sum + e.minutes, 0),
+      entries,
+    };
+  }
+
+  /**
+   * Submit every draft or rejected entry of a week for approval
+   */
+  async submitWeek(actor: TimesheetActor, dto: SubmitWeekDto) {
+    const weekStart = getWeekStart(parseDay(dto.weekStart));
+    const weekEnd = addDays(weekStart, 6);
+
+    const today = await this.timezoneService.getUserToday(actor.id);
+    if (weekStart > today) {
+      throw new BadRequestException('You cannot submit a week that has not started');
+    }
+
+    const existing = await this.prisma.timesheetSubmission.findUnique({
+      where: { userId_weekStart: { userId: actor.id, weekStart } },
+    });
+
+    if (existing?.status === TimesheetStatus.Submitted) {
+      throw new BadRequestException('This week is already awaiting approval');
+    }
+
+    const entries = await this.prisma.timesheetEntry.findMany({
+      where: {
+        userId: actor.id,
+        date: { gte: weekStart, lte: weekEnd },
+        status: { in: [TimesheetStatus.Draft, TimesheetStatus.Rejected] },
+      },
+      include: { project: { select: { managerId: true } } },
+    });
+
+    if (entries.length === 0) {
+      throw new BadRequestException('There are no entries to submit for this week');
+    }
+
+    await this.assertEntriesOpen(actor.companyId, entries);
+
+    const now = new Date();
+    const submission = await this.prisma.timesheetSubmission.upsert({
+      where: { userId_weekStart: { userId: actor.id, weekStart } },
+      create: { userId: actor.id, weekStart, submittedAt: now },
+      update: {
+        status: TimesheetStatus.Submitted,
+        submittedAt: now,
+        reviewedBy: null,
+        reviewedAt: null,
+        comment: null,
+      },
+    });
+
+    await this.prisma.timesheetEntry.updateMany({
+      where: { id: { in: entries.map((e) => e.id) } },
+      data: {
+        status: TimesheetStatus.Submitted,
+        submissionId: submission.id,
+        reviewComment: null,
+        reviewedBy: null,
+        reviewedAt: null,
+      },
+    });
+
+    const totalMinutes = entries.reduce((sum, e) => sum + e.minutes, 0);
+
+    // Create audit log
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: actor.id,
+        action: 'TimesheetSubmitted',
+        entityType: 'TimesheetSubmission',
+        entityId: submission.id,
+        before: existing ? { status: existing.status } : undefined,
+        after: { weekStart: formatDay(weekStart), entries: entries.length, totalMinutes },
+      },
+    });
+
+    const employee = await this.prisma.user.findUnique({
+      where: { id: actor.id },
+      include: { profile: true },
+    });
+
+    const reviewerIds = new Set(await this.getReviewerIds(actor.companyId, employee?.profile?.managerId));
+    for (const entry of entries) {
+      if (entry.project.managerId) reviewerIds.add(entry.project.managerId);
+    }
+    reviewerIds.delete(actor.id);
+
+    await this.notifications.sendToUsers(Array.from(reviewerIds), {
+      type: NotificationType.TimesheetSubmitted,
+      title: 'Timesheet Submitted',
+      body: `${employee ? this.toEmployeeName(employee) : 'An employee'} submitted ${this.formatMinutes(totalMinutes)} for the week of ${formatDayLabel(weekStart)}`,
+      data: { timesheetSubmissionId: submission.id },
+      actionUrl: '/timesheets/approvals',
+    });
+
+    return this.getWeek(actor.id, formatDay(weekStart));
+  }
+
+  /**
+   * Submitted weeks with lines the viewer can review
+   * Managers see their direct reports, project managers see weeks with
+   * lines on their projects, and HR/admins see the whole company.
+   */
+  async getApprovalQueue(viewer: TimesheetActor) {
+    const isHr = viewer.role === UserRole.HR || viewer.role === UserRole.SuperAdmin;
+
+    const submissions = await this.prisma.timesheetSubmission.findMany({
+      where: {
+        status: TimesheetStatus.Submitted,
+        userId: { not: viewer.id },
+        user: { companyId: viewer.companyId },
+        ...(isHr
+          ? {}
+          : {
+              OR: [
+                { user: { profile: { managerId: viewer.id } } },
+                {
+                  entries: {
+                    some: { status: TimesheetStatus.Submitted, project: { managerId: viewer.id } },
+                  },
+                },
+              ],
+            }),
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            profile: { select: { firstName: true, lastName: true, employeeCode: true, managerId: true } },
+          },
+        },
+        entries: {
+          include: {
+            project: { select: { id: true, name: true, code: true, managerId: true } },
+            task: { select: { id: true, name: true, code: true } },
+          },
+          orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+        },
+      },
+      orderBy: { submittedAt: 'asc' },
+    });
+
+    return submissions.map((submission) => ({
+      ...submission,
+      weekStart: formatDay(submission.weekStart),
+      totalMinutes: submission.entries.reduce((sum, e) => sum + e.minutes, 0),
+      entries: submission.entries.map((entry) => ({
+        ...entry,
+        canReview:
+          entry.status === TimesheetStatus.Submitted &&
+          this.canReviewEntry(viewer, submission.user.profile?.managerId, entry.project.managerId),
+      })),
+    }));
+  }
+
+  /**
+   * Approve or reject the submitted lines of a week
+   * `status` applies to every line the reviewer can review that has no
+   * decision of its own in `entries`.
+   */
+  async review(id: string, reviewer: TimesheetActor, dto: ReviewTimesheetDto) {
+    const submission = await this.prisma.timesheetSubmission.findFirst({
+      where: { id, user: { companyId: reviewer.companyId } },
+      include: {
+        user: { include: { profile: true } },
+        entries: { include: { project: { select: { managerId: true } } } },
+      },
+    });
+
+    if (!submission) {
+      throw new NotFoundException('Timesheet not found');
+    }
+
+    if (submission.userId === reviewer.id) {
+      throw new ForbiddenException('You cannot review your own timesheet');
+    }
+
+    if (submission.status !== TimesheetStatus.Submitted) {
+      throw new BadRequestException('Timesheet is not awaiting review');
+    }
+
+    const reviewable = submission.entries.filter(
+      (e) =>
+        e.status === TimesheetStatus.Submitted &&
+        this.canReviewEntry(reviewer, submission.user.profile?.managerId, e.project.managerId),
+    );
+
+    if (reviewable.length === 0) {
+      throw new ForbiddenException('You cannot review any lines of this timesheet');
+    }
+
+    const lines = new Map((dto.entries ?? []).map((line) => [line.id, line]));
+    for (const entryId of lines.keys()) {
+      if (!reviewable.some((e) => e.id === entryId)) {
+        throw new BadRequestException(`Entry ${entryId} is not awaiting your review`);
+      }
+    }
+
+    const decisions = reviewable.flatMap((entry) => {
+      const line = lines.get(entry.id);
+      const status = line?.status ?? dto.status;
+      return status ? [{ entryId: entry.id, status, comment: line?.comment ?? null }] : [];
+    });
+
+    if (decisions.length === 0) {
+      throw new BadRequestException('Approve or reject at least one line');
+    }
+
+    await this.assertEntriesOpen(
+      reviewer.companyId,
+      reviewable.filter((e) => decisions.some((d) => d.entryId === e.id)),
+    );
+
+    const rejected = decisions.filter((d) => d.status === TimesheetStatus.Rejected);
+    if (rejected.some((d) => !d.comment) && !dto.comment) {
+      throw new BadRequestException('Add a comment explaining why the lines were rejected');
+    }
+
+    const now = new Date();
+    await this.prisma.$transaction(
+      decisions.map((d) =>
+        this.prisma.timesheetEntry.update({
+          where: { id: d.entryId },
+          data: {
+            status: d.status,
+            // Rejected lines always carry a reason the employee can act on
+            reviewComment: d.comment ?? (d.status === TimesheetStatus.Rejected ? dto.comment : null),
+            reviewedBy: reviewer.id,
+            reviewedAt: now,
+          },
+        }),
+      ),
+    );
+
+    const statuses = await this.prisma.timesheetEntry.findMany({
+      where: { submissionId: id },
+      select: { status: true },
+    });
+    const status = statuses.some((e) => e.status === TimesheetStatus.Submitted)
+      ? TimesheetStatus.Submitted
+      : statuses.some((e) => e.status === TimesheetStatus.Rejected)
+        ? TimesheetStatus.Rejected
+        : TimesheetStatus.Approved;
+
+    const updated = await this.prisma.timesheetSubmission.update({
+      where: { id },
+      data: {
+        status,
+        reviewedBy: reviewer.id,
+        reviewedAt: now,
+        comment: dto.comment ?? submission.comment,
+      },
+    });
+
+    // Create audit log
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: reviewer.id,
+        action: 'TimesheetReviewed',
+        entityType: 'TimesheetSubmission',
+        entityId: id,
+        before: { status: submission.status },
+        after: { status, decisions },
+        reason: dto.comment,
+      },
+    });
+
+    const approvedIds = new Set(
+      decisions.filter((d) => d.status === TimesheetStatus.Approved).map((d) => d.entryId),
+    );
+    if (approvedIds.size > 0) {
+      await this.projectBudgetsService.checkThresholds(
+        submission.entries.filter((e) => approvedIds.has(e.id)).map((e) => e.projectId),
+      );
+    }
+
+    const weekLabel = formatDayLabel(submission.weekStart);
+    if (rejected.length > 0) {
+      await this.notifications.sendToUser(submission.userId, {
+        type: NotificationType.TimesheetRejected,
+        title: 'Timesheet Rejected',
+        body: `${rejected.length} ${rejected.length === 1 ? 'line' : 'lines'} of your timesheet for the week of ${weekLabel} ${rejected.length === 1 ? 'was' : 'were'} rejected${dto.comment ? `: ${dto.comment}` : ''}`,
+        data: { timesheetSubmissionId: id },
+        actionUrl: '/timesheets',
+      });
+    } else if (status === TimesheetStatus.Approved) {
+      await this.notifications.sendToUser(submission.userId, {
+        type: NotificationType.TimesheetApproved,
+        title: 'Timesheet Approved',
+        body: `Your timesheet for the week of ${weekLabel} has been approved`,
+        data: { timesheetSubmissionId: id },
+        actionUrl: '/timesheets',
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Reject status changes to lines in a closed payroll period
+   */
+  private async assertEntriesOpen(companyId: string, entries: Array<{ date: Date }>) {
+    const times = entries.map((e) => e.date.getTime());
+    await this.periodLocksService.assertOpen(
+      companyId,
+      new Date(Math.min(...times)),
+      new Date(Math.max(...times)),
+    );
+  }
+
+  private canReviewEntry(
+    reviewer: TimesheetActor,
+    employeeManagerId?: string | null,
+    projectManagerId?: string | null,
+  ) {
+    return (
+      reviewer.role === UserRole.HR ||
+      reviewer.role === UserRole.SuperAdmin ||
+      employeeManagerId === reviewer.id ||
+      projectManagerId === reviewer.id
+    );
+  }
+
+  /**
+   * The employee's manager, or HR when no manager is assigned
+   */
+  private async getReviewerIds(companyId: string, managerId?: string | null) {
+    if (managerId) {
+      return [managerId];
+    }
+
+    const hrUsers = await this.prisma.user.findMany({
+      where: { companyId, role: UserRole.HR, isActive: true },
+      select: { id: true },
+    });
+
+    return hrUsers.map((u) => u.id);
+  }
+
+  private toEmployeeName(user: { email: string; profile: { firstName: string; lastName: string } | null }) {
+    return user.profile ? `${user.profile.firstName} ${user.profile.lastName}` : user.email;
+  }
+
+  private formatMinutes(minutes: number) {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return rest ? `${hours}h ${rest}m` : `${hours}h`;
+  }
+}
@@ -0,0 +1,67 @@
+import { parseDay } from '../common/timezone/timezone.utils';
+import { getTimesheetWeekDeadlines } from './timesheet-reminders.service';
+
+const POLICY = {
+  timesheetReminderDay: 5,
+  timesheetReminderTime: '16:00',
+  timesheetDueDay: 1,
+  timesheetDueTime: '12:00',
+  timesheetEscalationHours: 24 as number | null,
+};
+
+/** Monday */
+const WEEK_START = parseDay('2026-10-12');
+
+describe('getTimesheetWeekDeadlines', () => {
+  it('reminds during the week and is due on the following Monday', () => {
+    const result = getTimesheetWeekDeadlines(POLICY, WEEK_START, 'UTC');
+
+    expect(result.reminderAt.toISOString()).toBe('2026-10-16T16:00:00.000Z');
+    expect(result.deadline.toISOString()).toBe('2026-10-19T12:00:00.000Z');
+    expect(result.escalationAt?.toISOString()).toBe('2026-10-20T12:00:00.000Z');
+    expect(result.deadlineLabel).toBe('Oct 19, 2026 12:00');
+  });
+
+  it('uses local times in the recipient timezone', () => {
+    const result = getTimesheetWeekDeadlines(POLICY, WEEK_START, 'Asia/Kolkata');
+
+    expect(result.reminderAt.toISOString()).toBe('2026-10-16T10:30:00.000Z');
+    expect(result.deadline.toISOString()).toBe('2026-10-19T06:30:00.000Z');
+  });
+
+  it('treats Sunday as the last day of the week', () => {
+    const result = getTimesheetWeekDeadlines(
+      { ...POLICY, timesheetReminderDay: 0, timesheetDueDay: 0 },
+      WEEK_START,
+      'UTC',
+    );
+
+    expect(result.reminderAt.toISOString()).toBe('2026-10-18T16:00:00.000Z');
+    expect(result.deadline.toISOString()).toBe('2026-10-25T12:00:00.000Z');
+  });
+
+  it('follows the offset change when the deadline falls after a DST switch', () => {
+    // Europe/Berlin leaves summer time on Oct 25, 2026
+    const result = getTimesheetWeekDeadlines(POLICY, parseDay('2026-10-19'), 'Europe/Berlin');
+
+    expect(result.reminderAt.toISOString()).toBe('2026-10-23T14:00:00.000Z');
+    expect(result.deadline.toISOString()).toBe('2026-10-26T11:00:00.000Z');
+  });
+
+  it('has no escalation when it is turned off', () => {
+    const result = getTimesheetWeekDeadlines({ ...POLICY, timesheetEscalationHours: null }, WEEK_START, 'UTC');
+
+    expect(result.escalationAt).toBeNull();
+  });
+
+  it('falls back to the default times when the policy times are invalid', () => {
+    const result = getTimesheetWeekDeadlines(
+      { ...POLICY, timesheetReminderTime: '25:00', timesheetDueTime: 'noon' },
+      WEEK_START,
+      'UTC',
+    );
+
+    expect(result.reminderAt.toISOString()).toBe('2026-10-16T16:00:00.000Z');
+    expect(result.deadline.toISOString()).toBe('2026-10-19T12:00:00.000Z');
+  });
+});
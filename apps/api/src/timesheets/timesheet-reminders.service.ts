@@ -0,0 +1,431 @@
+/**
+ * Timesheet Reminders Service
+ *
+ * For companies that enable it in their work policy, reminds employees to
+ * complete and submit their week, tells them when it is overdue, escalates
+ * to their manager after a grace period, and sends managers a weekly digest
+ * of their team's compliance. A week is expected to hold the standard work
+ * hours for each working day on the employee's schedule, less holidays and
+ * approved leave. All times are local to the recipient, and each message is
+ * sent once per week.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { NotificationType, TimesheetReminderKind, TimesheetStatus, WorkPolicy } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { WorkSchedulesService } from '../work-schedules/work-schedules.service';
+import { getScheduledDay, parseTimeOfDay } from '../work-schedules/work-schedule.utils';
+import {
+  addDays,
+  formatDay,
+  formatDayLabel,
+  getWeekStart,
+  localTimeToUtc,
+  toLocalDay,
+} from '../common/timezone/timezone.utils';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+const HOUR_MS = 60 * 60 * 1000;
+
+/** A message that was missed, e.g. while reminders were off, is dropped after this long */
+const SEND_WINDOW_MS = 7 * 24 * HOUR_MS;
+
+interface CompanyUser {
+  id: string;
+  email: string;
+  profile: { firstName: string; lastName: string; managerId: string | null } | null;
+}
+
+interface WeekStatus {
+  expectedMinutes: number;
+  loggedMinutes: number;
+  status: TimesheetStatus | null;
+}
+
+interface PendingMessage {
+  kind: TimesheetReminderKind;
+  /** The employee whose week it is, or the manager for digests */
+  userId: string;
+  weekStart: Date;
+  /** Local due day and time, e.g. "Oct 19, 2026 12:00" */
+  deadlineLabel: string;
+}
+
+export interface TimesheetWeekDeadlines {
+  /** When the reminder for the week goes out, during the week itself */
+  reminderAt: Date;
+  /** When the week's timesheet is due, in the week after it */
+  deadline: Date;
+  /** When the manager is told about a missed deadline; null when escalation is off */
+  escalationAt: Date | null;
+  /** Local due day and time, e.g. "Oct 19, 2026 12:00" */
+  deadlineLabel: string;
+}
+
+type DeadlinePolicy = Pick<
+  WorkPolicy,
+  | 'timesheetReminderDay'
+  | 'timesheetReminderTime'
+  | 'timesheetDueDay'
+  | 'timesheetDueTime'
+  | 'timesheetEscalationHours'
+>;
+
+/**
+ * Reminder, deadline and escalation times for a week (Monday start) in a timezone
+ * Days are weekdays (0 = Sunday) and times are local `HH:mm`; invalid times
+ * fall back to the defaults.
+ */
+export function getTimesheetWeekDeadlines(
+  policy: DeadlinePolicy,
+  weekStart: Date,
+  timeZone: string,
+): TimesheetWeekDeadlines {
+  const reminderTime = TIME_OF_DAY.test(policy.timesheetReminderTime) ? policy.timesheetReminderTime : '16:00';
+  const dueTime = TIME_OF_DAY.test(policy.timesheetDueTime) ? policy.timesheetDueTime : '12:00';
+
+  const dueDay = addDays(weekStart, 7 + mondayOffset(policy.timesheetDueDay));
+  const deadline = localTimeToUtc(dueDay, parseTimeOfDay(dueTime), timeZone);
+  const reminderAt = localTimeToUtc(
+    addDays(weekStart, mondayOffset(policy.timesheetReminderDay)),
+    parseTimeOfDay(reminderTime),
+    timeZone,
+  );
+
+  return {
+    reminderAt,
+    deadline,
+    escalationAt:
+      policy.timesheetEscalationHours != null
+        ? new Date(deadline.getTime() + policy.timesheetEscalationHours * HOUR_MS)
+        : null,
+    deadlineLabel: `${formatDayLabel(dueDay)} ${dueTime}`,
+  };
+}
+
+@Injectable()
+export class TimesheetRemindersService {
+  private readonly logger = new Logger(TimesheetRemindersService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+    private timezoneService: TimezoneService,
+    private workSchedulesService: WorkSchedulesService,
+  ) {}
+
+  /**
+   * Reminder job - runs every 15 minutes
+   */
+  @Cron('*/15 * * * *')
+  async runReminders() {
+    const policies = await this.prisma.workPolicy.findMany({ where: { timesheetRemindersEnabled: true } });
+
+    for (const policy of policies) {
+      try {
+        await this.remindForCompany(policy);
+      } catch (error) {
+        this.logger.error(`Timesheet reminders failed for company ${policy.companyId}`, error);
+      }
+    }
+  }
+
+  /**
+   * Send the reminders, escalations and digests that are due for one company
+   */
+  async remindForCompany(policy: WorkPolicy, now = new Date()) {
+    const users: CompanyUser[] = await this.prisma.user.findMany({
+      where: { companyId: policy.companyId, isActive: true },
+      select: { id: true, email: true, profile: { select: { firstName: true, lastName: true, managerId: true } } },
+    });
+    if (users.length === 0) return;
+
+    const userIds = users.map((u) => u.id);
+    const timeZones = await this.timezoneService.getUserTimezones(userIds);
+    const managerIds = new Set(users.map((u) => u.profile?.managerId).filter((id): id is string => !!id));
+
+    const pending = users.flatMap((user) =>
+      this.getDueMessages(policy, user.id, timeZones.get(user.id) ?? 'UTC', managerIds.has(user.id), now),
+    );
+    if (pending.length === 0) return;
+
+    const sent = await this.prisma.timesheetReminder.findMany({
+      where: {
+        userId: { in: [...new Set(pending.map((m) => m.userId))] },
+        weekStart: { in: uniqueWeeks(pending.map((m) => m.weekStart)) },
+      },
+      select: { userId: true, weekStart: true, kind: true },
+    });
+    const sentKeys = new Set(sent.map((r) => `${r.kind}:${weekKey(r.userId, r.weekStart)}`));
+    const unsent = pending.filter((m) => !sentKeys.has(`${m.kind}:${weekKey(m.userId, m.weekStart)}`));
+    if (unsent.length === 0) return;
+
+    // Statuses of the employees' own weeks, and of each digest's direct reports
+    const usersById = new Map(users.map((u) => [u.id, u]));
+    const reportsOf = (managerId: string) => users.filter((u) => u.profile?.managerId === managerId);
+    const weeks = unsent.flatMap((m) =>
+      m.kind === TimesheetReminderKind.Digest
+        ? reportsOf(m.userId).map((u) => ({ userId: u.id, weekStart: m.weekStart }))
+        : [{ userId: m.userId, weekStart: m.weekStart }],
+    );
+    const statuses = await this.getWeekStatuses(policy, weeks);
+
+    for (const message of unsent) {
+      const user = usersById.get(message.userId)!;
+      const delivered =
+        message.kind === TimesheetReminderKind.Digest
+          ? await this.sendDigest(user, reportsOf(user.id), message, statuses)
+          : await this.sendEmployeeMessage(user, message, statuses.get(weekKey(user.id, message.weekStart))!);
+
+      // A week that needs nothing is checked again on the next run, in case it changes
+      if (delivered) {
+        await this.prisma.timesheetReminder.create({
+          data: { userId: message.userId, weekStart: message.weekStart, kind: message.kind },
+        });
+      }
+    }
+  }
+
+  /**
+   * Messages whose time has come for a user, before checking whether they
+   * were sent or are needed
+   * The reminder is for the current week; the deadline, escalation and
+   * digest are for a past week, due on a day of the week after it.
+   */
+  private getDueMessages(
+    policy: WorkPolicy,
+    userId: string,
+    timeZone: string,
+    isManager: boolean,
+    now: Date,
+  ): PendingMessage[] {
+    const currentWeek = getWeekStart(toLocalDay(now, timeZone));
+    const messages: PendingMessage[] = [];
+
+    const isDue = (at: Date, until = new Date(at.getTime() + SEND_WINDOW_MS)) => now >= at && now < until;
+
+    // The week before last too, as a deadline late in the week pushes its escalation into the next one
+    for (const weekStart of [currentWeek, addDays(currentWeek, -7), addDays(currentWeek, -14)]) {
+      const { reminderAt, deadline, escalationAt, deadlineLabel } = getTimesheetWeekDeadlines(
+        policy,
+        weekStart,
+        timeZone,
+      );
+      const base = { userId, weekStart, deadlineLabel };
+
+      if (isDue(reminderAt, deadline)) {
+        messages.push({ ...base, kind: TimesheetReminderKind.Reminder });
+      }
+      if (isDue(deadline)) {
+        messages.push({ ...base, kind: TimesheetReminderKind.Overdue });
+        if (isManager) {
+          messages.push({ ...base, kind: TimesheetReminderKind.Digest });
+        }
+      }
+      if (escalationAt && isDue(escalationAt)) {
+        messages.push({ ...base, kind: TimesheetReminderKind.Escalation });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Expected and logged minutes and the submission status of user weeks,
+   * keyed by user and week start
+   */
+  private async getWeekStatuses(policy: WorkPolicy, weeks: { userId: string; weekStart: Date }[]) {
+    const statuses = new Map<string, WeekStatus>();
+    if (weeks.length === 0) return statuses;
+
+    const userIds = [...new Set(weeks.map((w) => w.userId))];
+    const weekStarts = uniqueWeeks(weeks.map((w) => w.weekStart));
+    const start = weekStarts.reduce((min, w) => (w < min ? w : min));
+    const end = addDays(weekStarts.reduce((max, w) => (w > max ? w : max)), 6);
+
+    const [schedules, entries, submissions, holidays, leaves] = await Promise.all([
+      this.workSchedulesService.resolveForUsers(userIds),
+      this.prisma.timesheetEntry.groupBy({
+        by: ['userId', 'date'],
+        where: { userId: { in: userIds }, date: { gte: start, lte: end } },
+        _sum: { minutes: true },
+      }),
+      this.prisma.timesheetSubmission.findMany({
+        where: { userId: { in: userIds }, weekStart: { in: weekStarts } },
+        select: { userId: true, weekStart: true, status: true },
+      }),
+      this.prisma.holiday.findMany({
+        where: { companyId: policy.companyId, isOptional: false, date: { gte: start, lte: end } },
+        select: { date: true },
+      }),
+      this.prisma.leaveRequest.findMany({
+        where: { userId: { in: userIds }, status: 'Approved', startDate: { lte: end }, endDate: { gte: start } },
+        select: { userId: true, startDate: true, endDate: true },
+      }),
+    ]);
+
+    const holidayDays = new Set(holidays.map((h) => formatDay(h.date)));
+
+    for (const { userId, weekStart } of weeks) {
+      const key = weekKey(userId, weekStart);
+      if (statuses.has(key)) continue;
+
+      const schedule = schedules.get(userId)!;
+      const weekEnd = addDays(weekStart, 6);
+      let expectedMinutes = 0;
+
+      for (let day = weekStart; day <= weekEnd; day = addDays(day, 1)) {
+        const onLeave = leaves.some((l) => l.userId === userId && l.startDate <= day && l.endDate >= day);
+        if (getScheduledDay(schedule, day).isWorkingDay && !holidayDays.has(formatDay(day)) && !onLeave) {
+          expectedMinutes += policy.standardWorkHours * 60;
+        }
+      }
+
+      statuses.set(key, {
+        expectedMinutes,
+        loggedMinutes: entries
+          .filter((e) => e.userId === userId && e.date >= weekStart && e.date <= weekEnd)
+          .reduce((sum, e) => sum + (e._sum.minutes ?? 0), 0),
+        status:
+          submissions.find((s) => s.userId === userId && s.weekStart.getTime() === weekStart.getTime())?.status ??
+          null,
+      });
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Remind an employee, or their manager, about a week that is not submitted
+   * Returns false when the week needs nothing.
+   */
+  private async sendEmployeeMessage(user: CompanyUser, message: PendingMessage, week: WeekStatus) {
+    if (!needsSubmission(week)) return false;
+
+    const weekLabel = formatDayLabel(message.weekStart);
+    const hours = `${formatHours(week.loggedMinutes)} of ${formatHours(week.expectedMinutes)} expected`;
+    const { deadlineLabel } = message;
+    const data = {
+      weekStart: formatDay(message.weekStart),
+      loggedMinutes: week.loggedMinutes,
+      expectedMinutes: week.expectedMinutes,
+    };
+    const actionUrl = `/timesheets?date=${formatDay(message.weekStart)}`;
+
+    switch (message.kind) {
+      case TimesheetReminderKind.Reminder:
+        await this.notifications.sendToUser(user.id, {
+          type: NotificationType.TimesheetDue,
+          title: 'Timesheet Reminder',
+          body:
+            week.loggedMinutes < week.expectedMinutes
+              ? `You have logged ${hours} for the week of ${weekLabel}. Please complete and submit it by ${deadlineLabel}.`
+              : `Your timesheet for the week of ${weekLabel} is ready. Please submit it by ${deadlineLabel}.`,
+          data,
+          actionUrl,
+        });
+        return true;
+
+      case TimesheetReminderKind.Overdue:
+        await this.notifications.sendToUser(user.id, {
+          type: NotificationType.TimesheetDue,
+          title: 'Timesheet Overdue',
+          body: `Your timesheet for the week of ${weekLabel} was due ${deadlineLabel} (${hours}). Please submit it now.`,
+          data,
+          priority: 'high',
+          actionUrl,
+        });
+        return true;
+
+      default: {
+        const managerId = user.profile?.managerId;
+        if (!managerId) return false;
+
+        await this.notifications.sendToUser(managerId, {
+          type: NotificationType.TimesheetDue,
+          title: `Timesheet Overdue: ${userName(user)}`,
+          body: `${userName(user)} has not submitted their timesheet for the week of ${weekLabel}, due ${deadlineLabel} (${hours}).`,
+          data: { ...data, userId: user.id },
+          priority: 'high',
+        });
+        return true;
+      }
+    }
+  }
+
+  /**
+   * Summarise a manager's direct reports for a week
+   * Returns false when the manager has no one to report on.
+   */
+  private async sendDigest(
+    manager: CompanyUser,
+    reports: CompanyUser[],
+    message: PendingMessage,
+    statuses: Map<string, WeekStatus>,
+  ) {
+    const members = reports
+      .map((user) => ({ user, week: statuses.get(weekKey(user.id, message.weekStart))! }))
+      .filter(({ week }) => week.expectedMinutes > 0 || week.loggedMinutes > 0 || week.status);
+    if (members.length === 0) return false;
+
+    const submitted = members.filter(({ week }) => !needsSubmission(week));
+    const missing = members.filter(({ week }) => needsSubmission(week)).map(({ user }) => userName(user));
+    const short = submitted
+      .filter(({ week }) => week.loggedMinutes < week.expectedMinutes)
+      .map(({ user }) => userName(user));
+
+    const body = [`${submitted.length} of ${members.length} submitted for the week of ${formatDayLabel(message.weekStart)}.`];
+    if (missing.length > 0) body.push(`Not submitted: ${missing.join(', ')}.`);
+    if (short.length > 0) body.push(`Under the expected hours: ${short.join(', ')}.`);
+
+    await this.notifications.sendToUser(manager.id, {
+      type: NotificationType.TimesheetDue,
+      title: 'Weekly Timesheet Compliance',
+      body: body.join(' '),
+      data: {
+        weekStart: formatDay(message.weekStart),
+        members: members.map(({ user, week }) => ({ userId: user.id, name: userName(user), ...week })),
+      },
+      actionUrl: '/timesheets/approvals',
+    });
+    return true;
+  }
+}
+
+/**
+ * Days from Monday to a weekday (0 = Sunday), so Sunday ends the week
+ */
+function mondayOffset(weekday: number) {
+  return (weekday + 6) % 7;
+}
+
+/**
+ * Whether a week still has to be submitted: it has time expected or logged
+ * and is neither submitted nor approved
+ */
+function needsSubmission(week: WeekStatus) {
+  const submitted = week.status === TimesheetStatus.Submitted || week.status === TimesheetStatus.Approved;
+  return !submitted && (week.expectedMinutes > 0 || week.loggedMinutes > 0);
+}
+
+function weekKey(userId: string, weekStart: Date) {
+  return `${userId}:${formatDay(weekStart)}`;
+}
+
+function uniqueWeeks(weeks: Date[]) {
+  return [...new Set(weeks.map((w) => w.getTime()))].map((time) => new Date(time));
+}
+
+function userName(user: CompanyUser) {
+  return user.profile ? `${user.profile.firstName} ${user.profile.lastName}` : user.email;
+}
+
+function formatHours(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m > 0 ? `${h}h ${m}m` : `${h}h`;
+}
@@ -0,0 +1,231 @@
+/**
+ * Timesheet Suggestions Service
+ *
+ * Proposes draft timesheet entries for a week from the user's activity
+ * logs. Activity is grouped by the local day it started on and by project
+ * task, minus what is already on the timesheet, rounded by the company's
+ * timer rules. A day's suggestions are trimmed so they never add up to more
+ * than the worked minutes recorded by attendance. Nothing is saved until the
+ * employee accepts a suggestion, possibly after editing its minutes.
+ */
+
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { TimesheetStatus, TimerRoundingMode } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { PresenceService } from '../presence/presence.service';
+import { PeriodLocksService, findClosedPeriod } from '../period-locks/period-locks.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import {
+  addDays,
+  formatDay,
+  getLocalDayBounds,
+  getWeekStart,
+  parseDay,
+  toLocalDay,
+} from '../common/timezone/timezone.utils';
+import { TimesheetsService } from './timesheets.service';
+import { roundTimerMinutes } from './timesheet-timer.service';
+import { AcceptSuggestionsDto } from './dto/accept-suggestions.dto';
+
+interface ActivityTotal {
+  project: { id: string; name: string; code: string };
+  task: { id: string; name: string; code: string };
+  minutes: number;
+}
+
+@Injectable()
+export class TimesheetSuggestionsService {
+  constructor(
+    private prisma: PrismaService,
+    private presenceService: PresenceService,
+    private periodLocksService: PeriodLocksService,
+    private timezoneService: TimezoneService,
+    private timesheetsService: TimesheetsService,
+  ) {}
+
+  /**
+   * Suggest entries for each day of a week, up to the user's today
+   */
+  async suggestWeek(userId: string, companyId: string, day: string) {
+    const weekStart = getWeekStart(parseDay(day));
+    const weekEnd = addDays(weekStart, 6);
+
+    const [timeZone, today] = await Promise.all([
+      this.timezoneService.getUserTimezone(userId),
+      this.timezoneService.getUserToday(userId),
+    ]);
+
+    const lastDay = weekEnd < today ? weekEnd : today;
+    if (weekStart > lastDay) {
+      return { weekStart: formatDay(weekStart), weekEnd: formatDay(weekEnd), totalSuggestedMinutes: 0, days: [] };
+    }
+
+    const rangeStart = getLocalDayBounds(weekStart, timeZone).start;
+    const rangeEnd = getLocalDayBounds(lastDay, timeZone).end;
+
+    const [breakdown, entries, attendanceDays, submission, closedPeriods, policy] = await Promise.all([
+      this.presenceService.getTaskTimeBreakdown(userId, rangeStart, new Date(rangeEnd.getTime() - 1)),
+      this.prisma.timesheetEntry.findMany({
+        where: { userId, date: { gte: weekStart, lte: lastDay } },
+        select: { date: true, projectId: true, taskId: true, minutes: true },
+      }),
+      this.prisma.attendanceDay.findMany({
+        where: { userId, date: { gte: weekStart, lte: lastDay } },
+        select: { date: true, totalWorkMinutes: true, isComplete: true },
+      }),
+      this.prisma.timesheetSubmission.findUnique({
+        where: { userId_weekStart: { userId, weekStart } },
+      }),
+      this.periodLocksService.getClosedPeriods(companyId, weekStart, lastDay),
+      this.prisma.workPolicy.findUnique({ where: { companyId } }),
+    ]);
+
+    const increment = policy?.timerRoundingMinutes ?? 1;
+    const mode = policy?.timerRoundingMode ?? TimerRoundingMode.Nearest;
+    const weekLocked =
+      submission?.status === TimesheetStatus.Submitted || submission?.status === TimesheetStatus.Approved;
+
+    // Activity per local day, then per project task
+    const activityByDay = new Map<string, Map<string, ActivityTotal>>();
+    for (const log of breakdown.detailed) {
+      if (!log.project || !log.task) continue;
+
+      const date = formatDay(toLocalDay(log.startedAt, timeZone));
+      const dayActivity = activityByDay.get(date) ?? new Map<string, ActivityTotal>();
+      const key = `${log.project.id}:${log.task.id}`;
+      const total = dayActivity.get(key) ?? { project: log.project, task: log.task, minutes: 0 };
+
+      total.minutes += log.durationMinutes;
+      dayActivity.set(key, total);
+      activityByDay.set(date, dayActivity);
+    }
+
+    const attendanceByDay = new Map(attendanceDays.map((d) => [formatDay(d.date), d]));
+
+    const days = [];
+    for (let current = weekStart; current <= lastDay; current = addDays(current, 1)) {
+      const date = formatDay(current);
+      const dayEntries = entries.filter((e) => formatDay(e.date) === date);
+      const loggedMinutes = dayEntries.reduce((sum, e) => sum + e.minutes, 0);
+      const attendance = attendanceByDay.get(date);
+      // An open session has not been totalled yet, so it cannot cap the day
+      const attendanceMinutes = attendance?.isComplete ? attendance.totalWorkMinutes : null;
+      const locked = weekLocked || !!findClosedPeriod(closedPeriods, current);
+
+      const activity = Array.from(activityByDay.get(date)?.values() ?? []);
+      const activityMinutes = activity.reduce((sum, a) => sum + a.minutes, 0);
+
+      let suggestions = locked
+        ? []
+        : activity
+            .map((a) => {
+              const alreadyLogged = dayEntries
+                .filter((e) => e.projectId === a.project.id && e.taskId === a.task.id)
+                .reduce((sum, e) => sum + e.minutes, 0);
+
+              return {
+                date,
+                projectId: a.project.id,
+                taskId: a.task.id,
+                project: a.project,
+                task: a.task,
+                activityMinutes: a.minutes,
+                minutes: roundTimerMinutes(Math.max(0, a.minutes - alreadyLogged), increment, mode),
+                trimmed: false,
+              };
+            })
+            .filter((s) => s.minutes > 0);
+
+      const proposedMinutes = suggestions.reduce((sum, s) => sum + s.minutes, 0);
+      const availableMinutes = attendanceMinutes === null ? null : Math.max(0, attendanceMinutes - loggedMinutes);
+
+      if (availableMinutes !== null && proposedMinutes > availableMinutes) {
+        const ratio = availableMinutes / proposedMinutes;
+        suggestions = suggestions
+          .map((s) => ({
+            ...s,
+            minutes: roundTimerMinutes(s.minutes * ratio, increment, TimerRoundingMode.Down),
+            trimmed: true,
+          }))
+          .filter((s) => s.minutes > 0);
+      }
+
+      days.push({
+        date,
+        attendanceMinutes,
+        loggedMinutes,
+        activityMinutes,
+        suggestedMinutes: suggestions.reduce((sum, s) => sum + s.minutes, 0),
+        locked,
+        suggestions,
+      });
+    }
+
+    return {
+      weekStart: formatDay(weekStart),
+      weekEnd: formatDay(weekEnd),
+      totalSuggestedMinutes: days.reduce((sum, d) => sum + d.suggestedMinutes, 0),
+      days,
+    };
+  }
+
+  /**
+   * Save accepted suggestions as draft entries
+   * Every line is checked before anything is booked (tasks, dates, period
+   * locks, week status, project membership and the daily cap, counting all
+   * lines for the same day), so a rejected line books nothing.
+   */
+  async accept(userId: string, companyId: string, dto: AcceptSuggestionsDto) {
+    const today = await this.timezoneService.getUserToday(userId);
+    const taskIds = Array.from(new Set(dto.entries.map((e) => e.taskId)));
+
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: taskIds } },
+      include: { project: { select: { companyId: true } } },
+    });
+    const tasksById = new Map(tasks.map((t) => [t.id, t]));
+
+    for (const line of dto.entries) {
+      const task = tasksById.get(line.taskId);
+
+      if (!task || task.projectId !== line.projectId || task.project.companyId !== companyId) {
+        throw new BadRequestException('Task does not belong to project');
+      }
+      if (parseDay(line.date) > today) {
+        throw new BadRequestException('Cannot book time to a future day');
+      }
+    }
+
+    const dayMinutes = new Map<string, number>();
+    for (const line of dto.entries) {
+      const day = formatDay(parseDay(line.date));
+      dayMinutes.set(day, (dayMinutes.get(day) ?? 0) + line.minutes);
+    }
+
+    // The daily cap is checked against the day's total across all lines
+    for (const line of dto.entries) {
+      await this.timesheetsService.assertCanAddDraftMinutes(userId, {
+        date: parseDay(line.date),
+        projectId: line.projectId,
+        taskId: line.taskId,
+        minutes: dayMinutes.get(formatDay(parseDay(line.date)))!,
+      });
+    }
+
+    const saved = [];
+    for (const line of dto.entries) {
+      saved.push(
+        await this.timesheetsService.addDraftMinutes(userId, {
+          date: parseDay(line.date),
+          projectId: line.projectId,
+          taskId: line.taskId,
+          minutes: line.minutes,
+          notes: line.notes,
+        }),
+      );
+    }
+
+    return saved;
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * Timesheet Templates Service
+ *
+ * Pre-fills a week of draft timesheet entries, either by copying another
+ * week or from a saved template. Holidays, approved leave and closed payroll
+ * periods are skipped, as are lines whose task the user can no longer log
+ * to or already has time on that day, and each day is capped at the
+ * company's maximum timesheet minutes. Recurring templates are applied by
+ * an hourly job once each week has started in the user's timezone.
+ */
+
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { PeriodLocksService, findClosedPeriod } from '../period-locks/period-locks.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { addDays, formatDay, getWeekStart, parseDay, toLocalDay } from '../common/timezone/timezone.utils';
+import { TimesheetsService } from './timesheets.service';
+import {
+  CopyWeekDto,
+  CreateTemplateFromWeekDto,
+  CreateTimesheetTemplateDto,
+  TimesheetTemplateLineDto,
+  UpdateTimesheetTemplateDto,
+} from './dto/timesheet-template.dto';
+
+export type FillSkipReason = 'Holiday' | 'Leave' | 'Locked' | 'NoAccess' | 'AlreadyLogged' | 'DailyLimit';
+
+interface FillLine {
+  weekday: number;
+  projectId: string;
+  taskId: string;
+  minutes: number;
+  notes?: string | null;
+}
+
+const templateInclude = {
+  lines: {
+    orderBy: [{ weekday: 'asc' as const }, { sortOrder: 'asc' as const }],
+    include: {
+      project: { select: { id: true, name: true, code: true } },
+      task: { select: { id: true, name: true, code: true } },
+    },
+  },
+};
+
+@Injectable()
+export class TimesheetTemplatesService {
+  private readonly logger = new Logger(TimesheetTemplatesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private periodLocksService: PeriodLocksService,
+    private timezoneService: TimezoneService,
+    private timesheetsService: TimesheetsService,
+  ) {}
+
+  /**
+   * Hourly job - fills the current week from recurring templates
+   * Running hourly lets each timezone be filled soon after its week starts.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async applyRecurringTemplates() {
+    const templates = await this.prisma.timesheetTemplate.findMany({
+      where: { isRecurring: true, user: { isActive: true } },
+      include: { lines: { orderBy: { sortOrder: 'asc' } }, user: { select: { companyId: true } } },
+    });
+    if (templates.length === 0) return;
+
+    const timeZones = await this.timezoneService.getUserTimezones(templates.map((t) => t.userId));
+    const now = new Date();
+
+    for (const template of templates) {
+      const weekStart = getWeekStart(toLocalDay(now, timeZones.get(template.userId) ?? 'UTC'));
+      if (template.lastAppliedWeek && template.lastAppliedWeek >= weekStart) continue;
+
+      try {
+        const result = await this.fillWeek(template.userId, template.user.companyId, weekStart, template.lines);
+        this.logger.log(
+          `Filled ${result.entries.length} entries for user ${template.userId} from template ${template.id}`,
+        );
+      } catch (error) {
+        // A submitted week is not retried; the next week is filled as usual
+        this.logger.warn(`Could not fill week for template ${template.id}: ${(error as Error).message}`);
+      }
+
+      await this.prisma.timesheetTemplate.update({
+        where: { id: template.id },
+        data: { lastAppliedWeek: weekStart },
+      });
+    }
+  }
+
+  /**
+   * List the user's templates
+   */
+  async list(userId: string) {
+    return this.prisma.timesheetTemplate.findMany({
+      where: { userId },
+      include: templateInclude,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Save a template
+   */
+  async create(userId: string, companyId: string, dto: CreateTimesheetTemplateDto) {
+    await this.assertNameFree(userId, dto.name);
+    await this.assertTasks(companyId, dto.lines);
+
+    return this.prisma.timesheetTemplate.create({
+      data: {
+        userId,
+        name: dto.name,
+        isRecurring: dto.isRecurring ?? false,
+        lines: { create: this.toLineData(dto.lines) },
+      },
+      include: templateInclude,
+    });
+  }
+
+  /**
+   * Save the time logged in a week as a template
+   */
+  async createFromWeek(userId: string, companyId: string, dto: CreateTemplateFromWeekDto) {
+    const lines = await this.getWeekLines(userId, getWeekStart(parseDay(dto.weekStart)));
+    if (lines.length === 0) {
+      throw new BadRequestException('There is no time in that week to save');
+    }
+
+    return this.create(userId, companyId, { name: dto.name, isRecurring: dto.isRecurring, lines });
+  }
+
+  /**
+   * Update a template; lines, when given, replace the existing ones
+   */
+  async update(id: string, userId: string, companyId: string, dto: UpdateTimesheetTemplateDto) {
+    const template = await this.findOwned(id, userId);
+
+    if (dto.name !== undefined && dto.name !== template.name) {
+      await this.assertNameFree(userId, dto.name);
+    }
+    if (dto.lines) {
+      await this.assertTasks(companyId, dto.lines);
+    }
+
+    return this.prisma.timesheetTemplate.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        isRecurring: dto.isRecurring,
+        ...(dto.lines ? { lines: { deleteMany: {}, create: this.toLineData(dto.lines) } } : {}),
+      },
+      include: templateInclude,
+    });
+  }
+
+  /**
+   * Delete a template
+   */
+  async remove(id: string, userId: string) {
+    await this.findOwned(id, userId);
+    await this.prisma.timesheetTemplate.delete({ where: { id } });
+    return { deleted: true };
+  }
+
+  /**
+   * Fill a week from a saved template
+   */
+  async apply(id: string, userId: string, companyId: string, day: string) {
+    const template = await this.findOwned(id, userId);
+    return this.fillWeek(userId, companyId, getWeekStart(parseDay(day)), template.lines);
+  }
+
+  /**
+   * Fill a week with a copy of another week, the previous one by default
+   */
+  async copyWeek(userId: string, companyId: string, dto: CopyWeekDto) {
+    const weekStart = getWeekStart(parseDay(dto.weekStart));
+    const sourceWeekStart = dto.sourceWeekStart
+      ? getWeekStart(parseDay(dto.sourceWeekStart))
+      : addDays(weekStart, -7);
+
+    if (sourceWeekStart.getTime() === weekStart.getTime()) {
+      throw new BadRequestException('Cannot copy a week onto itself');
+    }
+
+    const lines = await this.getWeekLines(userId, sourceWeekStart);
+    if (lines.length === 0) {
+      throw new BadRequestException('There is no time in that week to copy');
+    }
+
+    return this.fillWeek(userId, companyId, weekStart, lines);
+  }
+
+  /**
+   * Book template lines as draft entries on the days of a week
+   */
+  private async fillWeek(userId: string, companyId: string, weekStart: Date, lines: FillLine[]) {
+    const weekEnd = addDays(weekStart, 6);
+    await this.timesheetsService.assertWeekOpen(userId, weekStart);
+
+    const [entries, holidays, leaves, closedPeriods, policy, projects] = await Promise.all([
+      this.prisma.timesheetEntry.findMany({
+        where: { userId, date: { gte: weekStart, lte: weekEnd } },
+        select: { date: true, projectId: true, taskId: true, minutes: true },
+      }),
+      this.prisma.holiday.findMany({
+        where: { companyId, isOptional: false, date: { gte: weekStart, lte: weekEnd } },
+        select: { date: true },
+      }),
+      this.prisma.leaveRequest.findMany({
+        where: { userId, status: 'Approved', startDate: { lte: weekEnd }, endDate: { gte: weekStart } },
+        select: { startDate: true, endDate: true },
+      }),
+      this.periodLocksService.getClosedPeriods(companyId, weekStart, weekEnd),
+      this.prisma.workPolicy.findUnique({ where: { companyId } }),
+      this.timesheetsService.getProjectsWithTasks(companyId, userId),
+    ]);
+
+    const maxMinutes = policy?.maxTimesheetMinutesPerDay ?? 1440;
+    const holidayDays = new Set(holidays.map((h) => formatDay(h.date)));
+    // Only active tasks the user is open to
+    const allowed = new Set(projects.flatMap((p) => p.tasks.map((t) => `${p.id}:${t.id}`)));
+
+    const booked = [];
+    const skipped: { date: string; reason: FillSkipReason; projectId?: string; taskId?: string; minutes: number }[] =
+      [];
+
+    for (let day = weekStart; day <= weekEnd; day = addDays(day, 1)) {
+      const date = formatDay(day);
+      const dayLines = lines.filter((l) => l.weekday === day.getUTCDay());
+      if (dayLines.length === 0) continue;
+
+      const dayReason: FillSkipReason | null = findClosedPeriod(closedPeriods, day)
+        ? 'Locked'
+        : holidayDays.has(date)
+          ? 'Holiday'
+          : leaves.some((l) => l.startDate <= day && l.endDate >= day)
+            ? 'Leave'
+            : null;
+      if (dayReason) {
+        skipped.push({ date, reason: dayReason, minutes: dayLines.reduce((sum, l) => sum + l.minutes, 0) });
+        continue;
+      }
+
+      const dayEntries = entries.filter((e) => formatDay(e.date) === date);
+      let available = maxMinutes - dayEntries.reduce((sum, e) => sum + e.minutes, 0);
+
+      for (const line of dayLines) {
+        const lineInfo = { date, projectId: line.projectId, taskId: line.taskId };
+
+        if (!allowed.has(`${line.projectId}:${line.taskId}`)) {
+          skipped.push({ ...lineInfo, reason: 'NoAccess', minutes: line.minutes });
+          continue;
+        }
+        if (dayEntries.some((e) => e.projectId === line.projectId && e.taskId === line.taskId)) {
+          skipped.push({ ...lineInfo, reason: 'AlreadyLogged', minutes: line.minutes });
+          continue;
+        }
+
+        const minutes = Math.min(line.minutes, Math.max(0, available));
+        if (minutes < line.minutes) {
+          skipped.push({ ...lineInfo, reason: 'DailyLimit', minutes: line.minutes - minutes });
+        }
+        if (minutes === 0) continue;
+
+        booked.push(
+          await this.timesheetsService.addDraftMinutes(userId, {
+            date: day,
+            projectId: line.projectId,
+            taskId: line.taskId,
+            minutes,
+            notes: line.notes,
+          }),
+        );
+        available -= minutes;
+      }
+    }
+
+    return {
+      weekStart: formatDay(weekStart),
+      weekEnd: formatDay(weekEnd),
+      entries: booked,
+      skipped,
+    };
+  }
+
+  /**
+   * Time logged in a week as template lines, one per weekday and task
+   */
+  private async getWeekLines(userId: string, weekStart: Date): Promise<TimesheetTemplateLineDto[]> {
+    const entries = await this.prisma.timesheetEntry.findMany({
+      where: { userId, date: { gte: weekStart, lte: addDays(weekStart, 6) } },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const lines = new Map<string, TimesheetTemplateLineDto>();
+    for (const entry of entries) {
+      const weekday = entry.date.getUTCDay();
+      const key = `${weekday}:${entry.projectId}:${entry.taskId}`;
+      const line = lines.get(key);
+
+      if (line) {
+        line.minutes = Math.min(1440, line.minutes + entry.minutes);
+        if (entry.notes && entry.notes !== line.notes) {
+          line.notes = [line.notes, entry.notes].filter(Boolean).join('\n').slice(0, 500);
+        }
+      } else {
+        lines.set(key, {
+          weekday,
+          projectId: entry.projectId,
+          taskId: entry.taskId,
+          minutes: entry.minutes,
+          notes: entry.notes?.slice(0, 500) ?? undefined,
+        });
+      }
+    }
+
+    return Array.from(lines.values());
+  }
+
+  private toLineData(lines: TimesheetTemplateLineDto[]): Prisma.TimesheetTemplateLineCreateWithoutTemplateInput[] {
+    return lines.map((line, index) => ({
+      weekday: line.weekday,
+      project: { connect: { id: line.projectId } },
+      task: { connect: { id: line.taskId } },
+      minutes: line.minutes,
+      notes: line.notes,
+      sortOrder: index,
+    }));
+  }
+
+  private async assertTasks(companyId: string, lines: TimesheetTemplateLineDto[]) {
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: Array.from(new Set(lines.map((l) => l.taskId))) }, project: { companyId } },
+      select: { id: true, projectId: true },
+    });
+    const tasksById = new Map(tasks.map((t) => [t.id, t]));
+
+    if (lines.some((l) => tasksById.get(l.taskId)?.projectId !== l.projectId)) {
+      throw new BadRequestException('Task does not belong to project');
+    }
+  }
+
+  private async assertNameFree(userId: string, name: string) {
+    const existing = await this.prisma.timesheetTemplate.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+    if (existing) {
+      throw new ConflictException('A template with this name already exists');
+    }
+  }
+
+  private async findOwned(id: string, userId: string) {
+    const template = await this.prisma.timesheetTemplate.findUnique({
+      where: { id },
+      include: { lines: { orderBy: [{ weekday: 'asc' }, { sortOrder: 'asc' }] } },
+    });
+    if (!template || template.userId !== userId) {
+      throw new NotFoundException('Template not found');
+    }
+    return template;
+  }
+}
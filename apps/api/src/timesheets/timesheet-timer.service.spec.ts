@@ -0,0 +1,97 @@
+import { TimerRoundingMode } from '@prisma/client';
+
+import { formatDay } from '../common/timezone/timezone.utils';
+import { roundTimerMinutes, splitTimerMinutes } from './timesheet-timer.service';
+
+describe('roundTimerMinutes', () => {
+  it('rounds to the nearest increment', () => {
+    expect(roundTimerMinutes(52, 15, TimerRoundingMode.Nearest)).toBe(45);
+    expect(roundTimerMinutes(53, 15, TimerRoundingMode.Nearest)).toBe(60);
+  });
+
+  it('always rounds up', () => {
+    expect(roundTimerMinutes(46, 15, TimerRoundingMode.Up)).toBe(60);
+    expect(roundTimerMinutes(45, 15, TimerRoundingMode.Up)).toBe(45);
+  });
+
+  it('always rounds down', () => {
+    expect(roundTimerMinutes(59.9, 15, TimerRoundingMode.Down)).toBe(45);
+    expect(roundTimerMinutes(14, 15, TimerRoundingMode.Down)).toBe(0);
+  });
+
+  it('rounds to whole minutes with an increment of 1', () => {
+    expect(roundTimerMinutes(52.4, 1, TimerRoundingMode.Nearest)).toBe(52);
+    expect(roundTimerMinutes(52.6, 1, TimerRoundingMode.Nearest)).toBe(53);
+  });
+
+  it('treats increments below 1 as 1', () => {
+    expect(roundTimerMinutes(10.2, 0, TimerRoundingMode.Up)).toBe(11);
+  });
+});
+
+describe('splitTimerMinutes', () => {
+  const summarize = (parts: Array<{ date: Date; minutes: number }>) =>
+    parts.map((p) => [formatDay(p.date), p.minutes]);
+
+  it('books a timer within one day to that day', () => {
+    const parts = splitTimerMinutes(
+      new Date('2026-10-19T04:00:00Z'),
+      new Date('2026-10-19T05:10:00Z'),
+      75,
+      'Asia/Kolkata',
+    );
+
+    expect(summarize(parts)).toEqual([['2026-10-19', 75]]);
+  });
+
+  it('splits a timer across local midnight', () => {
+    // 22:00 to 01:30 in Kolkata
+    const parts = splitTimerMinutes(
+      new Date('2026-10-19T16:30:00Z'),
+      new Date('2026-10-19T20:00:00Z'),
+      210,
+      'Asia/Kolkata',
+    );
+
+    expect(summarize(parts)).toEqual([
+      ['2026-10-19', 120],
+      ['2026-10-20', 90],
+    ]);
+  });
+
+  it('puts the rounding difference on the last day', () => {
+    // 23:50 to 00:22 in UTC, rounded up to 45
+    const parts = splitTimerMinutes(new Date('2026-10-19T23:50:00Z'), new Date('2026-10-20T00:22:00Z'), 45, 'UTC');
+
+    expect(summarize(parts)).toEqual([
+      ['2026-10-19', 10],
+      ['2026-10-20', 35],
+    ]);
+  });
+
+  it('books a forgotten timer at most a full day per day', () => {
+    const parts = splitTimerMinutes(
+      new Date('2026-10-16T09:00:00Z'),
+      new Date('2026-10-19T08:00:00Z'),
+      4260,
+      'UTC',
+    );
+
+    expect(summarize(parts)).toEqual([
+      ['2026-10-16', 900],
+      ['2026-10-17', 1440],
+      ['2026-10-18', 1440],
+      ['2026-10-19', 480],
+    ]);
+  });
+
+  it('stops once rounded-down time is used up', () => {
+    const parts = splitTimerMinutes(new Date('2026-10-19T23:42:00Z'), new Date('2026-10-20T00:02:00Z'), 15, 'UTC');
+
+    expect(summarize(parts)).toEqual([['2026-10-19', 15]]);
+  });
+
+  it('books nothing for zero minutes', () => {
+    expect(splitTimerMinutes(new Date('2026-10-19T09:00:00Z'), new Date('2026-10-19T09:04:00Z'), 0, 'UTC')).toEqual([]);
+  });
+});
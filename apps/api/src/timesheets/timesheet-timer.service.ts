@@ -0,0 +1,220 @@
+/**
+ * Timesheet Timer Service
+ *
+ * Each user has at most one running timer on a project task. The timer is
+ * stored server-side, so it survives reloads and follows the user across
+ * web and mobile. Stopping it rounds the elapsed time by the company's
+ * rules and books it to the draft timesheet entries for that task on each
+ * local day it ran, creating entries when needed. Starting a timer also
+ * sets the user's current activity for presence.
+ */
+
+import { Injectable, BadRequestException, HttpException, NotFoundException } from '@nestjs/common';
+import { TimerRoundingMode } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { PresenceService } from '../presence/presence.service';
+import { ProjectMembersService } from '../projects/project-members.service';
+import { TimezoneService } from '../common/timezone/timezone.service';
+import { addDays, formatDayLabel, getLocalDayBounds, toLocalDay } from '../common/timezone/timezone.utils';
+import { TimesheetsService } from './timesheets.service';
+import { StartTimerDto, StopTimerDto } from './dto/start-timer.dto';
+
+const timerInclude = {
+  project: { select: { id: true, name: true, code: true } },
+  task: { select: { id: true, name: true, code: true } },
+};
+
+/** Most minutes one day can hold */
+const MAX_DAY_MINUTES = 1440;
+
+/**
+ * Round a duration to the company's increment
+ * An increment of 1 minute rounds to the nearest whole minute.
+ */
+export function roundTimerMinutes(elapsedMinutes: number, increment: number, mode: TimerRoundingMode): number {
+  const step = Math.max(1, increment);
+  const units = elapsedMinutes / step;
+
+  switch (mode) {
+    case TimerRoundingMode.Up:
+      return Math.ceil(units) * step;
+    case TimerRoundingMode.Down:
+      return Math.floor(units) * step;
+    default:
+      return Math.round(units) * step;
+  }
+}
+
+/**
+ * Split a timer's rounded minutes across the local days it ran on
+ * Each day gets the time tracked on it, capped at a full day; the rounding
+ * difference lands on the last day so the parts add up to the total.
+ */
+export function splitTimerMinutes(
+  startedAt: Date,
+  stoppedAt: Date,
+  minutes: number,
+  timeZone: string,
+): Array<{ date: Date; minutes: number }> {
+  const parts: Array<{ date: Date; minutes: number }> = [];
+  let day = toLocalDay(startedAt, timeZone);
+  let booked = 0;
+
+  while (booked < minutes) {
+    const { start, end } = getLocalDayBounds(day, timeZone);
+
+    if (end >= stoppedAt) {
+      parts.push({ date: day, minutes: minutes - booked });
+      break;
+    }
+
+    const trackedMs = end.getTime() - Math.max(start.getTime(), startedAt.getTime());
+    const tracked = Math.min(Math.round(trackedMs / 60000), MAX_DAY_MINUTES, minutes - booked);
+    if (tracked > 0) {
+      parts.push({ date: day, minutes: tracked });
+      booked += tracked;
+    }
+    day = addDays(day, 1);
+  }
+
+  return parts;
+}
+
+@Injectable()
+export class TimesheetTimerService {
+  constructor(
+    private prisma: PrismaService,
+    private timesheetsService: TimesheetsService,
+    private presenceService: PresenceService,
+    private timezoneService: TimezoneService,
+    private projectMembersService: ProjectMembersService,
+  ) {}
+
+  /**
+   * Get the user's running timer, if any
+   */
+  async getTimer(userId: string) {
+    return this.prisma.timesheetTimer.findUnique({
+      where: { userId },
+      include: timerInclude,
+    });
+  }
+
+  /**
+   * Start a timer; a timer already running must be stopped or discarded first
+   */
+  async start(userId: string, companyId: string, dto: StartTimerDto) {
+    const task = await this.prisma.task.findUnique({
+      where: { id: dto.taskId },
+      include: { project: true },
+    });
+
+    if (!task || task.projectId !== dto.projectId || task.project.companyId !== companyId) {
+      throw new BadRequestException('Task does not belong to project');
+    }
+
+    if (!task.isActive || !task.project.isActive) {
+      throw new BadRequestException('Cannot track time on an inactive project or task');
+    }
+
+    await this.projectMembersService.assertCanLog(userId, dto.projectId, dto.taskId);
+
+    const running = await this.prisma.timesheetTimer.findUnique({ where: { userId } });
+    if (running) {
+      throw new BadRequestException('A timer is already running. Stop or discard it first');
+    }
+
+    const timer = await this.prisma.timesheetTimer.create({
+      data: {
+        userId,
+        projectId: dto.projectId,
+        taskId: dto.taskId,
+        notes: dto.notes,
+        startedAt: new Date(),
+      },
+      include: timerInclude,
+    });
+
+    await this.presenceService.setActivity(userId, dto.projectId, dto.taskId);
+
+    return { timer };
+  }
+
+  /**
+   * Stop the running timer and book its time
+   * The time is split across the local days the timer ran on. When the
+   * rounded duration is zero, nothing is booked.
+   */
+  async stop(userId: string, dto: StopTimerDto) {
+    const timer = await this.prisma.timesheetTimer.findUnique({
+      where: { userId },
+      include: { user: { include: { company: { include: { workPolicy: true } } } } },
+    });
+
+    if (!timer) {
+      throw new NotFoundException('No timer is running');
+    }
+
+    const policy = timer.user.company.workPolicy;
+    const stoppedAt = new Date();
+    const elapsedMinutes = (stoppedAt.getTime() - timer.startedAt.getTime()) / 60000;
+    const minutes = roundTimerMinutes(
+      elapsedMinutes,
+      policy?.timerRoundingMinutes ?? 1,
+      policy?.timerRoundingMode ?? TimerRoundingMode.Nearest,
+    );
+
+    const timeZone = await this.timezoneService.getUserTimezone(userId);
+    const bookings = splitTimerMinutes(timer.startedAt, stoppedAt, minutes, timeZone).map((part) => ({
+      ...part,
+      projectId: timer.projectId,
+      taskId: timer.taskId,
+    }));
+
+    // Check every day before booking any, so a rejected day books nothing
+    // and the timer keeps running until it is discarded
+    for (const booking of bookings) {
+      try {
+        await this.timesheetsService.assertCanAddDraftMinutes(userId, booking);
+      } catch (error) {
+        if (error instanceof HttpException) {
+          throw new BadRequestException(
+            `Cannot book the timer's time on ${formatDayLabel(booking.date)}: ${error.message}. ` +
+              'Discard the timer to stop it without booking.',
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Claim the timer before booking so a concurrent stop (e.g. web and
+    // mobile at once) cannot book the same time twice
+    const { count } = await this.prisma.timesheetTimer.deleteMany({ where: { id: timer.id } });
+    if (count !== 1) {
+      throw new NotFoundException('No timer is running');
+    }
+
+    const entries = [];
+    for (const booking of bookings) {
+      entries.push(
+        await this.timesheetsService.addDraftMinutes(userId, { ...booking, notes: dto.notes ?? timer.notes }),
+      );
+    }
+
+    return { elapsedMinutes: Math.floor(elapsedMinutes), minutes, entries };
+  }
+
+  /**
+   * Discard the running timer without booking any time
+   */
+  async discard(userId: string) {
+    const { count } = await this.prisma.timesheetTimer.deleteMany({ where: { userId } });
+
+    if (count === 0) {
+      throw new NotFoundException('No timer is running');
+    }
+
+    return { discarded: true };
+  }
+}
@@ -16,8 +16,23 @@ import {
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 
 import { TimesheetsService } from './timesheets.service';
+import { TimesheetApprovalsService } from './timesheet-approvals.service';
+import { TimesheetTimerService } from './timesheet-timer.service';
+import { TimesheetSuggestionsService } from './timesheet-suggestions.service';
+import { TimesheetTemplatesService } from './timesheet-templates.service';
 import { CreateTimesheetDto } from './dto/create-timesheet.dto';
 import { UpdateTimesheetDto } from './dto/update-timesheet.dto';
+import { SubmitWeekDto } from './dto/submit-week.dto';
+import { ReviewTimesheetDto } from './dto/review-timesheet.dto';
+import { StartTimerDto, StopTimerDto } from './dto/start-timer.dto';
+import { AcceptSuggestionsDto } from './dto/accept-suggestions.dto';
+import {
+  CopyWeekDto,
+  CreateTemplateFromWeekDto,
+  CreateTimesheetTemplateDto,
+  FillWeekDto,
+  UpdateTimesheetTemplateDto,
+} from './dto/timesheet-template.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 
@@ -26,7 +41,13 @@ import { CurrentUser } from '../auth/decorators/current-user.decorator';
 @UseGuards(JwtAuthGuard)
 @Controller('timesheets')
 export class TimesheetsController {
-  constructor(private readonly timesheetsService: TimesheetsService) {}
+  constructor(
+    private readonly timesheetsService: TimesheetsService,
+    private readonly timesheetApprovalsService: TimesheetApprovalsService,
+    private readonly timesheetTimerService: TimesheetTimerService,
+    private readonly timesheetSuggestionsService: TimesheetSuggestionsService,
+    private readonly timesheetTemplatesService: TimesheetTemplatesService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create timesheet entry' })
@@ -79,7 +100,7 @@ export class TimesheetsController {
   @Get('projects')
   @ApiOperation({ summary: 'Get available projects with tasks' })
   async getProjects(@CurrentUser() user: any) {
-    const result = await this.timesheetsService.getProjectsWithTasks(user.companyId);
+    const result = await this.timesheetsService.getProjectsWithTasks(user.companyId, user.id);
     return { success: true, data: result };
   }
 
@@ -90,6 +111,135 @@ export class TimesheetsController {
     return { success: true, data: { url } };
   }
 
+  @Get('timer')
+  @ApiOperation({ summary: 'Get my running timer' })
+  async getTimer(@CurrentUser() user: any) {
+    const result = await this.timesheetTimerService.getTimer(user.id);
+    return { success: true, data: result };
+  }
+
+  @Post('timer/start')
+  @ApiOperation({ summary: 'Start a timer, stopping any running one' })
+  async startTimer(@CurrentUser() user: any, @Body() dto: StartTimerDto) {
+    const result = await this.timesheetTimerService.start(user.id, user.companyId, dto);
+    return { success: true, data: result };
+  }
+
+  @Post('timer/stop')
+  @ApiOperation({ summary: 'Stop my timer and book the time to a draft entry' })
+  async stopTimer(@CurrentUser() user: any, @Body() dto: StopTimerDto) {
+    const result = await this.timesheetTimerService.stop(user.id, dto);
+    return { success: true, data: result };
+  }
+
+  @Delete('timer')
+  @ApiOperation({ summary: 'Discard my timer without booking time' })
+  async discardTimer(@CurrentUser() user: any) {
+    const result = await this.timesheetTimerService.discard(user.id);
+    return { success: true, data: result };
+  }
+
+  @Get('suggestions')
+  @ApiOperation({ summary: 'Suggest draft entries for a week from activity logs' })
+  @ApiQuery({ name: 'weekStart', required: true, description: 'Any day in the week (YYYY-MM-DD)' })
+  async getSuggestions(@CurrentUser() user: any, @Query('weekStart') weekStart: string) {
+    const result = await this.timesheetSuggestionsService.suggestWeek(user.id, user.companyId, weekStart);
+    return { success: true, data: result };
+  }
+
+  @Post('suggestions/accept')
+  @ApiOperation({ summary: 'Save accepted suggestions as draft entries' })
+  async acceptSuggestions(@CurrentUser() user: any, @Body() dto: AcceptSuggestionsDto) {
+    const result = await this.timesheetSuggestionsService.accept(user.id, user.companyId, dto);
+    return { success: true, data: result };
+  }
+
+  @Get('templates')
+  @ApiOperation({ summary: 'Get my timesheet templates' })
+  async listTemplates(@CurrentUser() user: any) {
+    const result = await this.timesheetTemplatesService.list(user.id);
+    return { success: true, data: result };
+  }
+
+  @Post('templates')
+  @ApiOperation({ summary: 'Save a timesheet template' })
+  async createTemplate(@CurrentUser() user: any, @Body() dto: CreateTimesheetTemplateDto) {
+    const result = await this.timesheetTemplatesService.create(user.id, user.companyId, dto);
+    return { success: true, data: result };
+  }
+
+  @Post('templates/from-week')
+  @ApiOperation({ summary: 'Save the time logged in a week as a template' })
+  async createTemplateFromWeek(@CurrentUser() user: any, @Body() dto: CreateTemplateFromWeekDto) {
+    const result = await this.timesheetTemplatesService.createFromWeek(user.id, user.companyId, dto);
+    return { success: true, data: result };
+  }
+
+  @Patch('templates/:id')
+  @ApiOperation({ summary: 'Update a timesheet template' })
+  async updateTemplate(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: UpdateTimesheetTemplateDto,
+  ) {
+    const result = await this.timesheetTemplatesService.update(id, user.id, user.companyId, dto);
+    return { success: true, data: result };
+  }
+
+  @Delete('templates/:id')
+  @ApiOperation({ summary: 'Delete a timesheet template' })
+  async removeTemplate(@Param('id') id: string, @CurrentUser() user: any) {
+    const result = await this.timesheetTemplatesService.remove(id, user.id);
+    return { success: true, data: result };
+  }
+
+  @Post('templates/:id/apply')
+  @ApiOperation({ summary: 'Fill a week with draft entries from a template' })
+  async applyTemplate(@Param('id') id: string, @CurrentUser() user: any, @Body() dto: FillWeekDto) {
+    const result = await this.timesheetTemplatesService.apply(id, user.id, user.companyId, dto.weekStart);
+    return { success: true, data: result };
+  }
+
+  @Post('week/copy')
+  @ApiOperation({ summary: 'Fill a week with draft entries copied from another week' })
+  async copyWeek(@CurrentUser() user: any, @Body() dto: CopyWeekDto) {
+    const result = await this.timesheetTemplatesService.copyWeek(user.id, user.companyId, dto);
+    return { success: true, data: result };
+  }
+
+  @Get('week')
+  @ApiOperation({ summary: 'Get a week of entries with its submission status' })
+  @ApiQuery({ name: 'weekStart', required: true, description: 'Any day in the week (YYYY-MM-DD)' })
+  async getWeek(@CurrentUser() user: any, @Query('weekStart') weekStart: string) {
+    const result = await this.timesheetApprovalsService.getWeek(user.id, weekStart);
+    return { success: true, data: result };
+  }
+
+  @Post('week/submit')
+  @ApiOperation({ summary: 'Submit a week of entries for approval' })
+  async submitWeek(@CurrentUser() user: any, @Body() dto: SubmitWeekDto) {
+    const result = await this.timesheetApprovalsService.submitWeek(user, dto);
+    return { success: true, data: result };
+  }
+
+  @Get('approvals')
+  @ApiOperation({ summary: 'Get submitted weeks with lines awaiting my review' })
+  async getApprovalQueue(@CurrentUser() user: any) {
+    const result = await this.timesheetApprovalsService.getApprovalQueue(user);
+    return { success: true, data: result };
+  }
+
+  @Post('approvals/:id/review')
+  @ApiOperation({ summary: 'Approve or reject lines of a submitted week' })
+  async review(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: ReviewTimesheetDto,
+  ) {
+    const result = await this.timesheetApprovalsService.review(id, user, dto);
+    return { success: true, data: result };
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get single timesheet entry' })
   async findOne(@Param('id') id: string, @CurrentUser() user: any) {
@@ -1,18 +1,35 @@
 /**
  * Timesheets Module
  *
- * Handles timesheet entry management.
+ * Handles timesheet entry management, timers, activity-based suggestions, copy-week and
+ * recurring templates, weekly submission approvals, and due reminders.
  */
 
 import { Module } from '@nestjs/common';
 import { TimesheetsService } from './timesheets.service';
+import { TimesheetApprovalsService } from './timesheet-approvals.service';
+import { TimesheetTimerService } from './timesheet-timer.service';
+import { TimesheetSuggestionsService } from './timesheet-suggestions.service';
+import { TimesheetTemplatesService } from './timesheet-templates.service';
+import { TimesheetRemindersService } from './timesheet-reminders.service';
 import { TimesheetsController } from './timesheets.controller';
 import { StorageModule } from '../storage/storage.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PresenceModule } from '../presence/presence.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { WorkSchedulesModule } from '../work-schedules/work-schedules.module';
 
 @Module({
-  imports: [StorageModule],
+  imports: [StorageModule, NotificationsModule, PresenceModule, ProjectsModule, WorkSchedulesModule],
   controllers: [TimesheetsController],
-  providers: [TimesheetsService],
+  providers: [
+    TimesheetsService,
+    TimesheetApprovalsService,
+    TimesheetTimerService,
+    TimesheetSuggestionsService,
+    TimesheetTemplatesService,
+    TimesheetRemindersService,
+  ],
   exports: [TimesheetsService],
 })
 export class TimesheetsModule {}
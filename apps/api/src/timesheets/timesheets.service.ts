@@ -10,10 +10,14 @@ import {
   NotFoundException,
   ForbiddenException,
 } from '@nestjs/common';
+import { TimesheetStatus } from '@prisma/client';
 import { differenceInMinutes, startOfDay, isSameDay } from 'date-fns';
 
 import { PrismaService } from '../prisma/prisma.service';
 import { StorageService } from '../storage/storage.service';
+import { PeriodLocksService } from '../period-locks/period-locks.service';
+import { ProjectMembersService, canAccessProject, canAccessTask } from '../projects/project-members.service';
+import { getWeekStart, parseDay } from '../common/timezone/timezone.utils';
 import { CreateTimesheetDto } from './dto/create-timesheet.dto';
 import { UpdateTimesheetDto } from './dto/update-timesheet.dto';
 
@@ -22,6 +26,8 @@ export class TimesheetsService {
   constructor(
     private prisma: PrismaService,
     private storageService: StorageService,
+    private periodLocksService: PeriodLocksService,
+    private projectMembersService: ProjectMembersService,
   ) {}
 
   /**
@@ -42,6 +48,9 @@ export class TimesheetsService {
       throw new BadRequestException('Task ID is required');
     }
 
+    await this.periodLocksService.assertOpenForUser(userId, new Date(createDto.date));
+    await this.assertWeekOpen(userId, parseDay(createDto.date));
+
     // Validate task belongs to project
     const task = await this.prisma.task.findUnique({
       where: { id: createDto.taskId },
@@ -52,6 +61,8 @@ export class TimesheetsService {
       throw new BadRequestException('Task does not belong to project');
     }
 
+    await this.projectMembersService.assertCanLog(userId, createDto.projectId, createDto.taskId);
+
     // Check daily total doesn't exceed 24 hours
     const existingEntries = await this.prisma.timesheetEntry.findMany({
       where: {
@@ -74,6 +85,7 @@ export class TimesheetsService {
         taskId: createDto.taskId,
         minutes,
         notes: createDto.notes,
+        isBillable: createDto.isBillable ?? task.project.defaultBillable,
       },
       include: {
         project: true,
@@ -198,12 +210,28 @@ export class TimesheetsService {
       throw new BadRequestException('Cannot update another user\'s entry');
     }
 
-    // Same-day check: can only edit today's entries
+    this.assertEntryEditable(entry.status);
+
+    // Same-day check: can only edit today's entries (rejected entries can be corrected later)
     const today = startOfDay(new Date());
-    if (!isSameDay(entry.date, today)) {
+    if (entry.status !== TimesheetStatus.Rejected && !isSameDay(entry.date, today)) {
       throw new BadRequestException('Can only edit today\'s entries');
     }
 
+    await this.periodLocksService.assertOpenForUser(userId, entry.date);
+
+    // Moving the entry needs access to the new project and task
+    if (
+      (updateDto.projectId && updateDto.projectId !== entry.projectId) ||
+      (updateDto.taskId && updateDto.taskId !== entry.taskId)
+    ) {
+      await this.projectMembersService.assertCanLog(
+        userId,
+        updateDto.projectId ?? entry.projectId,
+        updateDto.taskId ?? entry.taskId,
+      );
+    }
+
     // Calculate minutes if start/end times changed
     let minutes: number | undefined;
     if (updateDto.startTime && updateDto.endTime) {
@@ -297,12 +325,16 @@ export class TimesheetsService {
       throw new BadRequestException('Cannot delete another user\'s entry');
     }
 
-    // Same-day check: can only delete today's entries
+    this.assertEntryEditable(entry.status);
+
+    // Same-day check: can only delete today's entries (rejected entries can be corrected later)
     const today = startOfDay(new Date());
-    if (!isSameDay(entry.date, today)) {
+    if (entry.status !== TimesheetStatus.Rejected && !isSameDay(entry.date, today)) {
       throw new BadRequestException('Can only delete today\'s entries');
     }
 
+    await this.periodLocksService.assertOpenForUser(userId, entry.date);
+
     // Attachments are cascade deleted via Prisma relation
     await this.prisma.timesheetEntry.delete({ where: { id } });
     return { deleted: true };
@@ -356,19 +388,29 @@ export class TimesheetsService {
   }
 
   /**
-   * Get all projects with their tasks for a company
+   * Get the company's projects and tasks the user can log time to
    */
-  async getProjectsWithTasks(companyId: string) {
-    return this.prisma.project.findMany({
+  async getProjectsWithTasks(companyId: string, userId: string) {
+    const projects = await this.prisma.project.findMany({
       where: { companyId, isActive: true },
       include: {
+        members: { where: { userId } },
         tasks: {
           where: { isActive: true },
-          select: { id: true, name: true, code: true },
+          select: { id: true, name: true, code: true, assignees: { select: { userId: true } } },
         },
       },
       orderBy: { name: 'asc' },
     });
+
+    return projects
+      .filter((project) => canAccessProject(project, userId))
+      .map(({ members, tasks, ...project }) => ({
+        ...project,
+        tasks: tasks
+          .filter((task) => canAccessTask({ ...project, members }, task, userId))
+          .map(({ assignees: _, ...task }) => task),
+      }));
   }
 
   /**
@@ -417,4 +459,104 @@ export class TimesheetsService {
       byDate: Object.values(byDate),
     };
   }
+
+  /**
+   * Check that minutes can be added to a user's day for a project and task
+   * (used by the timer to validate every day before booking any of them)
+   */
+  async assertCanAddDraftMinutes(
+    userId: string,
+    data: { date: Date; projectId: string; taskId: string; minutes: number },
+  ) {
+    await this.periodLocksService.assertOpenForUser(userId, data.date);
+    await this.assertWeekOpen(userId, data.date);
+    await this.projectMembersService.assertCanLog(userId, data.projectId, data.taskId);
+
+    const logged = await this.prisma.timesheetEntry.aggregate({
+      where: { userId, date: data.date },
+      _sum: { minutes: true },
+    });
+
+    if ((logged._sum.minutes ?? 0) + data.minutes > 1440) {
+      throw new BadRequestException('Total time exceeds 24 hours for this day');
+    }
+  }
+
+  /**
+   * Add minutes to the user's draft entry for a day, project and task,
+   * creating the entry when there is none (used by the timer)
+   */
+  async addDraftMinutes(
+    userId: string,
+    data: { date: Date; projectId: string; taskId: string; minutes: number; notes?: string | null },
+  ) {
+    await this.assertCanAddDraftMinutes(userId, data);
+
+    const existingEntries = await this.prisma.timesheetEntry.findMany({
+      where: { userId, date: data.date },
+    });
+
+    const draft = existingEntries.find(
+      (e) =>
+        e.status === TimesheetStatus.Draft &&
+        e.projectId === data.projectId &&
+        e.taskId === data.taskId,
+    );
+
+    if (draft) {
+      return this.prisma.timesheetEntry.update({
+        where: { id: draft.id },
+        data: {
+          minutes: draft.minutes + data.minutes,
+          notes: data.notes && data.notes !== draft.notes
+            ? [draft.notes, data.notes].filter(Boolean).join('\n')
+            : draft.notes,
+        },
+        include: { project: true, task: true, attachments: true },
+      });
+    }
+
+    const project = await this.prisma.project.findUnique({
+      where: { id: data.projectId },
+      select: { defaultBillable: true },
+    });
+
+    return this.prisma.timesheetEntry.create({
+      data: {
+        userId,
+        date: data.date,
+        projectId: data.projectId,
+        taskId: data.taskId,
+        minutes: data.minutes,
+        notes: data.notes,
+        isBillable: project?.defaultBillable ?? true,
+      },
+      include: { project: true, task: true, attachments: true },
+    });
+  }
+
+  /**
+   * Reject new entries in a week that is awaiting approval or approved
+   */
+  async assertWeekOpen(userId: string, date: Date) {
+    const submission = await this.prisma.timesheetSubmission.findUnique({
+      where: { userId_weekStart: { userId, weekStart: getWeekStart(date) } },
+    });
+
+    if (submission?.status === TimesheetStatus.Submitted) {
+      throw new BadRequestException('This week has been submitted and is awaiting approval');
+    }
+    if (submission?.status === TimesheetStatus.Approved) {
+      throw new BadRequestException('This week has been approved and is locked');
+    }
+  }
+
+  /**
+   * Submitted and approved entries are locked until a reviewer rejects them
+   */
+  private assertEntryEditable(status: TimesheetStatus) {
+    if (status === TimesheetStatus.Submitted || status === TimesheetStatus.Approved) {
+      throw new BadRequestException(`${status} entries cannot be changed`);
+    }
+  }
 }
@@ -48,6 +48,11 @@ class CreateProfileDto {
   @IsUUID()
   managerId?: string;
 
+  @ApiPropertyOptional({ description: 'Home office location (used for location work schedules)' })
+  @IsOptional()
+  @IsUUID()
+  officeLocationId?: string;
+
   @ApiProperty()
   @IsDateString()
   joinDate: string;
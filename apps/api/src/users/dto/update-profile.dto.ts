@@ -35,4 +35,9 @@ export class UpdateProfileDto {
   @IsOptional()
   @IsUUID()
   managerId?: string;
+
+  @ApiPropertyOptional({ description: 'Home office location (used for location work schedules)' })
+  @IsOptional()
+  @IsUUID()
+  officeLocationId?: string;
 }
@@ -63,6 +63,7 @@ export class UsersService {
             department: createUserDto.profile.department,
             timezone: createUserDto.profile.timezone || 'Asia/Kolkata',
             managerId: createUserDto.profile.managerId,
+            officeLocationId: createUserDto.profile.officeLocationId,
             joinDate: new Date(createUserDto.profile.joinDate),
           },
         },
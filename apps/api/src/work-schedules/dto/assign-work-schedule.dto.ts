@@ -0,0 +1,28 @@
+/**
+ * Assign Work Schedule DTO
+ */
+
+import { IsEnum, IsUUID, ValidateIf } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WorkScheduleScope } from '@prisma/client';
+
+export class AssignWorkScheduleDto {
+  @ApiProperty({ enum: WorkScheduleScope })
+  @IsEnum(WorkScheduleScope)
+  scope: WorkScheduleScope;
+
+  @ApiPropertyOptional({ description: 'Required when scope is Employee' })
+  @ValidateIf((o) => o.scope === WorkScheduleScope.Employee)
+  @IsUUID()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Required when scope is Department' })
+  @ValidateIf((o) => o.scope === WorkScheduleScope.Department)
+  @IsUUID()
+  departmentId?: string;
+
+  @ApiPropertyOptional({ description: 'Required when scope is OfficeLocation' })
+  @ValidateIf((o) => o.scope === WorkScheduleScope.OfficeLocation)
+  @IsUUID()
+  officeLocationId?: string;
+}
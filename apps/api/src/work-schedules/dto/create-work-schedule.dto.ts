@@ -0,0 +1,82 @@
+/**
+ * Create Work Schedule DTO
+ */
+
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  IsArray,
+  Min,
+  Max,
+  Matches,
+  MinLength,
+  MaxLength,
+  ValidateNested,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class WorkScheduleDayDto {
+  @ApiProperty({ minimum: 0, maximum: 6, description: 'Weekday (0 = Sunday)' })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  weekday: number;
+
+  @ApiProperty()
+  @IsBoolean()
+  isWorkingDay: boolean;
+
+  @ApiProperty({ example: '09:00', description: 'Start time (HH:mm, local)' })
+  @Matches(TIME_OF_DAY, { message: 'startTime must be HH:mm' })
+  startTime: string;
+
+  @ApiProperty({ example: '18:00', description: 'End time (HH:mm, local)' })
+  @Matches(TIME_OF_DAY, { message: 'endTime must be HH:mm' })
+  endTime: string;
+}
+
+export class CreateWorkScheduleDto {
+  @ApiProperty({ minLength: 2, maxLength: 100 })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({ default: 15 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  graceMinutesLate?: number;
+
+  @ApiPropertyOptional({ default: 15 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  graceMinutesEarly?: number;
+
+  @ApiPropertyOptional({ description: 'Use for employees without a more specific schedule' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiProperty({ type: [WorkScheduleDayDto], description: 'Weekdays not listed are non-working' })
+  @IsArray()
+  @ArrayMaxSize(7)
+  @ValidateNested({ each: true })
+  @Type(() => WorkScheduleDayDto)
+  days: WorkScheduleDayDto[];
+}
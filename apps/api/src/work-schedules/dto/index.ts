@@ -0,0 +1,7 @@
+/**
+ * Work Schedule DTOs barrel export
+ */
+
+export * from './create-work-schedule.dto';
+export * from './update-work-schedule.dto';
+export * from './assign-work-schedule.dto';
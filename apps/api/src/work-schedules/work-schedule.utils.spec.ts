@@ -0,0 +1,123 @@
+import { parseDay } from '../common/timezone/timezone.utils';
+import {
+  ResolvedWorkSchedule,
+  buildFallbackSchedule,
+  formatTimeOfDay,
+  getOvertimeThresholdMinutes,
+  getScheduledDay,
+  isLateForDay,
+  parseTimeOfDay,
+} from './work-schedule.utils';
+
+const MONDAY = parseDay('2026-10-19');
+const SATURDAY = parseDay('2026-10-17');
+
+const SCHEDULE: ResolvedWorkSchedule = {
+  id: 'schedule-1',
+  name: 'Early shift',
+  graceMinutesLate: 10,
+  graceMinutesEarly: 5,
+  days: [
+    { weekday: 1, isWorkingDay: true, startTime: '07:00', endTime: '15:30' },
+    { weekday: 2, isWorkingDay: true, startTime: '22:00', endTime: '06:00' },
+    { weekday: 6, isWorkingDay: false, startTime: '09:00', endTime: '13:00' },
+  ],
+  overtimeThresholdMinutes: null,
+};
+
+describe('time of day', () => {
+  it('parses and formats HH:mm', () => {
+    expect(parseTimeOfDay('07:45')).toBe(465);
+    expect(formatTimeOfDay(465)).toBe('07:45');
+  });
+
+  it('wraps times past midnight', () => {
+    expect(formatTimeOfDay(1440 + 90)).toBe('01:30');
+  });
+});
+
+describe('getScheduledDay', () => {
+  it('reads the rule for the weekday', () => {
+    expect(getScheduledDay(SCHEDULE, MONDAY)).toEqual({
+      isWorkingDay: true,
+      startMinutes: 7 * 60,
+      endMinutes: 15 * 60 + 30,
+      graceMinutesLate: 10,
+      graceMinutesEarly: 5,
+      overtimeThresholdMinutes: null,
+    });
+  });
+
+  it('runs an overnight shift into the next day', () => {
+    const tuesday = getScheduledDay(SCHEDULE, parseDay('2026-10-20'));
+
+    expect(tuesday.startMinutes).toBe(22 * 60);
+    expect(tuesday.endMinutes).toBe(30 * 60);
+  });
+
+  it('treats a weekday without a rule as a non-working day', () => {
+    expect(getScheduledDay(SCHEDULE, parseDay('2026-10-18')).isWorkingDay).toBe(false);
+  });
+});
+
+describe('isLateForDay', () => {
+  it('allows the grace period after the start time', () => {
+    const monday = getScheduledDay(SCHEDULE, MONDAY);
+
+    expect(isLateForDay(monday, 7 * 60 + 10)).toBe(false);
+    expect(isLateForDay(monday, 7 * 60 + 11)).toBe(true);
+  });
+
+  it('is never late on a non-working day', () => {
+    expect(isLateForDay(getScheduledDay(SCHEDULE, SATURDAY), 23 * 60)).toBe(false);
+  });
+});
+
+describe('getOvertimeThresholdMinutes', () => {
+  it('is the scheduled span less lunch on a working day', () => {
+    expect(getOvertimeThresholdMinutes(getScheduledDay(SCHEDULE, MONDAY), 30)).toBe(480);
+  });
+
+  it('counts overnight shifts across midnight', () => {
+    expect(getOvertimeThresholdMinutes(getScheduledDay(SCHEDULE, parseDay('2026-10-20')), 60)).toBe(420);
+  });
+
+  it('is zero on a non-working day of a configured schedule', () => {
+    expect(getOvertimeThresholdMinutes(getScheduledDay(SCHEDULE, SATURDAY), 60)).toBe(0);
+  });
+});
+
+describe('buildFallbackSchedule', () => {
+  const policy = {
+    overtimeThresholdMinutes: 540,
+    lunchDurationMinutes: 45,
+    graceMinutesLate: 20,
+    graceMinutesEarly: 10,
+  };
+
+  it('works Monday to Friday from 9 AM, long enough for the threshold and lunch', () => {
+    const schedule = buildFallbackSchedule(policy);
+    const monday = getScheduledDay(schedule, MONDAY);
+
+    expect(schedule.id).toBeNull();
+    expect(schedule.days.filter((d) => d.isWorkingDay).map((d) => d.weekday)).toEqual([1, 2, 3, 4, 5]);
+    expect(formatTimeOfDay(monday.startMinutes)).toBe('09:00');
+    expect(formatTimeOfDay(monday.endMinutes)).toBe('18:45');
+    expect(monday.graceMinutesLate).toBe(20);
+  });
+
+  it('keeps the policy overtime threshold on every day, weekends included', () => {
+    const schedule = buildFallbackSchedule(policy);
+
+    expect(getOvertimeThresholdMinutes(getScheduledDay(schedule, MONDAY), 45)).toBe(540);
+    expect(getOvertimeThresholdMinutes(getScheduledDay(schedule, SATURDAY), 45)).toBe(540);
+  });
+
+  it('uses the default policy values when the company has no work policy', () => {
+    const schedule = buildFallbackSchedule(null);
+
+    expect(schedule.overtimeThresholdMinutes).toBe(480);
+    expect(schedule.graceMinutesLate).toBe(15);
+    expect(getScheduledDay(schedule, MONDAY).endMinutes).toBe(18 * 60);
+  });
+});
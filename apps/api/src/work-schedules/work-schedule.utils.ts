@@ -0,0 +1,140 @@
+/**
+ * Work Schedule Utilities
+ *
+ * Turns a resolved work schedule into the expectations for a single local
+ * day: whether it is a working day, when it starts and ends, and how much
+ * work is expected before overtime begins. Also builds the fallback
+ * schedule used when a company has configured none.
+ */
+
+import { WorkPolicy } from '@prisma/client';
+
+/** Weekday indexes follow Date#getUTCDay: 0 = Sunday ... 6 = Saturday */
+export const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export const DEFAULT_START_TIME = '09:00';
+
+export interface ScheduleDayRule {
+  weekday: number;
+  isWorkingDay: boolean;
+  /** HH:mm in the employee's local time */
+  startTime: string;
+  /** HH:mm in the employee's local time */
+  endTime: string;
+}
+
+export interface ResolvedWorkSchedule {
+  /** Null for the fallback schedule derived from the work policy */
+  id: string | null;
+  name: string;
+  graceMinutesLate: number;
+  graceMinutesEarly: number;
+  days: ScheduleDayRule[];
+  /**
+   * Fixed daily overtime threshold, set only on the fallback schedule so the
+   * work policy threshold keeps applying to every day, weekends included
+   */
+  overtimeThresholdMinutes: number | null;
+}
+
+export interface ScheduledDay {
+  isWorkingDay: boolean;
+  /** Minutes since local midnight */
+  startMinutes: number;
+  /** Minutes since local midnight (may exceed 1440 for overnight schedules) */
+  endMinutes: number;
+  graceMinutesLate: number;
+  graceMinutesEarly: number;
+  /** Overrides the span-based threshold when set (fallback schedule) */
+  overtimeThresholdMinutes: number | null;
+}
+
+/**
+ * Parse an `HH:mm` time into minutes since midnight
+ */
+export function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Format minutes since midnight as `HH:mm`
+ */
+export function formatTimeOfDay(totalMinutes: number): string {
+  const minutesInDay = ((totalMinutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(minutesInDay / 60);
+  const minutes = minutesInDay % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Get the schedule expectations for a local day (UTC-midnight Date)
+ */
+export function getScheduledDay(schedule: ResolvedWorkSchedule, day: Date): ScheduledDay {
+  const rule = schedule.days.find((d) => d.weekday === day.getUTCDay());
+  const startMinutes = parseTimeOfDay(rule?.startTime ?? DEFAULT_START_TIME);
+  let endMinutes = parseTimeOfDay(rule?.endTime ?? DEFAULT_START_TIME);
+
+  // An end time at or before the start runs into the next day
+  if (endMinutes <= startMinutes) {
+    endMinutes += 24 * 60;
+  }
+
+  return {
+    isWorkingDay: rule?.isWorkingDay ?? false,
+    startMinutes,
+    endMinutes,
+    graceMinutesLate: schedule.graceMinutesLate,
+    graceMinutesEarly: schedule.graceMinutesEarly,
+    overtimeThresholdMinutes: schedule.overtimeThresholdMinutes,
+  };
+}
+
+/**
+ * Fallback used when a company has no schedules: Monday-Friday from 9 AM,
+ * long enough to cover the policy's overtime threshold plus lunch.
+ * Overtime keeps the policy threshold on every day, weekends included.
+ */
+export function buildFallbackSchedule(
+  policy: Pick<
+    WorkPolicy,
+    'overtimeThresholdMinutes' | 'lunchDurationMinutes' | 'graceMinutesLate' | 'graceMinutesEarly'
+  > | null,
+): ResolvedWorkSchedule {
+  const overtimeThresholdMinutes = policy?.overtimeThresholdMinutes ?? 480;
+  const startMinutes = parseTimeOfDay(DEFAULT_START_TIME);
+  const endMinutes = startMinutes + overtimeThresholdMinutes + (policy?.lunchDurationMinutes ?? 60);
+
+  return {
+    id: null,
+    name: 'Standard (Mon-Fri)',
+    graceMinutesLate: policy?.graceMinutesLate ?? 15,
+    graceMinutesEarly: policy?.graceMinutesEarly ?? 15,
+    days: WEEKDAYS.map((weekday) => ({
+      weekday,
+      isWorkingDay: weekday >= 1 && weekday <= 5,
+      startTime: DEFAULT_START_TIME,
+      endTime: formatTimeOfDay(endMinutes),
+    })),
+    overtimeThresholdMinutes,
+  };
+}
+
+/**
+ * Whether a first check-in (minutes since local midnight) is late for the day
+ * Non-working days have no start time, so nothing is late.
+ */
+export function isLateForDay(scheduled: ScheduledDay, checkInMinutes: number): boolean {
+  return scheduled.isWorkingDay && checkInMinutes > scheduled.startMinutes + scheduled.graceMinutesLate;
+}
+
+/**
+ * Net work minutes expected before overtime starts
+ * The scheduled span less the lunch allowance; every minute on a non-working day is overtime.
+ * Without a configured schedule the work policy threshold applies to every day.
+ */
+export function getOvertimeThresholdMinutes(scheduled: ScheduledDay, lunchMinutes: number): number {
+  if (scheduled.overtimeThresholdMinutes !== null) return scheduled.overtimeThresholdMinutes;
+  if (!scheduled.isWorkingDay) return 0;
+  return Math.max(0, scheduled.endMinutes - scheduled.startMinutes - lunchMinutes);
+}
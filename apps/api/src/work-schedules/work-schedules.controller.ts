@@ -0,0 +1,121 @@
+/**
+ * Work Schedules Controller
+ *
+ * HR/SuperAdmin endpoints for managing work schedules and their
+ * assignment to employees, departments and office locations.
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+import { WorkSchedulesService } from './work-schedules.service';
+import { CreateWorkScheduleDto, UpdateWorkScheduleDto, AssignWorkScheduleDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Work Schedules')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('work-schedules')
+export class WorkSchedulesController {
+  constructor(private readonly workSchedulesService: WorkSchedulesService) {}
+
+  @Get('me')
+  @ApiOperation({ summary: 'Get the work schedule that applies to the current user' })
+  async getMySchedule(@CurrentUser() user: any) {
+    const result = await this.workSchedulesService.resolveForUser(user.id);
+    return { success: true, data: result };
+  }
+
+  @Get()
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'List work schedules (HR/Admin)' })
+  @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+  async findAll(
+    @CurrentUser() user: any,
+    @Query('includeInactive') includeInactive?: string,
+  ) {
+    const result = await this.workSchedulesService.findAll(
+      user.companyId,
+      includeInactive === 'true',
+    );
+    return { success: true, data: result };
+  }
+
+  @Get('targets')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'List departments and office locations for assignment (HR/Admin)' })
+  async getAssignmentTargets(@CurrentUser() user: any) {
+    const result = await this.workSchedulesService.getAssignmentTargets(user.companyId);
+    return { success: true, data: result };
+  }
+
+  @Get(':id')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Get work schedule by ID (HR/Admin)' })
+  async findOne(@CurrentUser() user: any, @Param('id') id: string) {
+    const result = await this.workSchedulesService.findOne(id, user.companyId);
+    return { success: true, data: result };
+  }
+
+  @Post()
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Create work schedule (HR/Admin)' })
+  async create(@CurrentUser() user: any, @Body() dto: CreateWorkScheduleDto) {
+    const result = await this.workSchedulesService.create(user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Update work schedule (HR/Admin)' })
+  async update(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Body() dto: UpdateWorkScheduleDto,
+  ) {
+    const result = await this.workSchedulesService.update(id, user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Deactivate work schedule (HR/Admin)' })
+  async remove(@CurrentUser() user: any, @Param('id') id: string) {
+    const result = await this.workSchedulesService.remove(id, user.companyId, user.id);
+    return { success: true, data: result };
+  }
+
+  @Post(':id/assignments')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Assign schedule to an employee, department or office location' })
+  async assign(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Body() dto: AssignWorkScheduleDto,
+  ) {
+    const result = await this.workSchedulesService.assign(id, user.companyId, user.id, dto);
+    return { success: true, data: result };
+  }
+
+  @Delete('assignments/:assignmentId')
+  @Roles(UserRole.HR, UserRole.SuperAdmin)
+  @ApiOperation({ summary: 'Remove a schedule assignment' })
+  async unassign(@CurrentUser() user: any, @Param('assignmentId') assignmentId: string) {
+    const result = await this.workSchedulesService.unassign(assignmentId, user.companyId, user.id);
+    return { success: true, data: result };
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Work Schedules Module
+ *
+ * Named work schedules with per-weekday hours, working days and grace
+ * periods, used for lateness, overtime and absence calculations.
+ */
+
+import { Module } from '@nestjs/common';
+import { WorkSchedulesController } from './work-schedules.controller';
+import { WorkSchedulesService } from './work-schedules.service';
+
+@Module({
+  controllers: [WorkSchedulesController],
+  providers: [WorkSchedulesService],
+  exports: [WorkSchedulesService],
+})
+export class WorkSchedulesModule {}
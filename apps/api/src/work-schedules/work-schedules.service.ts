@@ -0,0 +1,439 @@
+/**
+ * Work Schedules Service
+ *
+ * Manages named work schedules and their assignment to employees,
+ * departments and office locations, and resolves the schedule that
+ * applies to an employee. Resolution order: employee, office location,
+ * department, company default, then a Monday-Friday fallback derived
+ * from the work policy.
+ */
+
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { WorkScheduleScope } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateWorkScheduleDto, UpdateWorkScheduleDto, AssignWorkScheduleDto } from './dto';
+import {
+  ResolvedWorkSchedule,
+  ScheduledDay,
+  buildFallbackSchedule,
+  getScheduledDay,
+} from './work-schedule.utils';
+
+const scheduleInclude = {
+  days: { orderBy: { weekday: 'asc' as const } },
+  assignments: {
+    include: {
+      user: { select: { id: true, email: true, profile: { select: { firstName: true, lastName: true } } } },
+      department: { select: { id: true, name: true } },
+      officeLocation: { select: { id: true, name: true } },
+    },
+  },
+};
+
+interface ScheduleRecord {
+  id: string;
+  name: string;
+  graceMinutesLate: number;
+  graceMinutesEarly: number;
+  days: { weekday: number; isWorkingDay: boolean; startTime: string; endTime: string }[];
+}
+
+@Injectable()
+export class WorkSchedulesService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Get all work schedules for a company
+   */
+  async findAll(companyId: string, includeInactive = false) {
+    return this.prisma.workSchedule.findMany({
+      where: {
+        companyId,
+        ...(includeInactive ? {} : { isActive: true }),
+      },
+      include: scheduleInclude,
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Get a single work schedule by ID
+   */
+  async findOne(id: string, companyId: string) {
+    const schedule = await this.prisma.workSchedule.findFirst({
+      where: { id, companyId },
+      include: scheduleInclude,
+    });
+
+    if (!schedule) {
+      throw new NotFoundException('Work schedule not found');
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Create a new work schedule
+   */
+  async create(companyId: string, actorId: string, dto: CreateWorkScheduleDto) {
+    await this.assertNameAvailable(companyId, dto.name);
+    this.assertUniqueWeekdays(dto.days);
+
+    const schedule = await this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await tx.workSchedule.updateMany({
+          where: { companyId, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.workSchedule.create({
+        data: {
+          companyId,
+          name: dto.name,
+          description: dto.description,
+          graceMinutesLate: dto.graceMinutesLate,
+          graceMinutesEarly: dto.graceMinutesEarly,
+          isDefault: dto.isDefault ?? false,
+          days: { create: dto.days },
+        },
+        include: scheduleInclude,
+      });
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'WorkScheduleCreated',
+        entityType: 'WorkSchedule',
+        entityId: schedule.id,
+        after: this.toAuditSnapshot(schedule),
+      },
+    });
+
+    return schedule;
+  }
+
+  /**
+   * Update a work schedule; when days are given they replace the existing week
+   */
+  async update(id: string, companyId: string, actorId: string, dto: UpdateWorkScheduleDto) {
+    const existing = await this.findOne(id, companyId);
+
+    if (dto.name && dto.name !== existing.name) {
+      await this.assertNameAvailable(companyId, dto.name);
+    }
+    if (dto.days) {
+      this.assertUniqueWeekdays(dto.days);
+    }
+
+    const { days, ...fields } = dto;
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await tx.workSchedule.updateMany({
+          where: { companyId, isDefault: true, id: { not: id } },
+          data: { isDefault: false },
+        });
+      }
+
+      if (days) {
+        await tx.workScheduleDay.deleteMany({ where: { scheduleId: id } });
+        await tx.workScheduleDay.createMany({
+          data: days.map((d) => ({ ...d, scheduleId: id })),
+        });
+      }
+
+      return tx.workSchedule.update({
+        where: { id },
+        data: fields,
+        include: scheduleInclude,
+      });
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'WorkScheduleUpdated',
+        entityType: 'WorkSchedule',
+        entityId: id,
+        before: this.toAuditSnapshot(existing),
+        after: this.toAuditSnapshot(updated),
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Deactivate a work schedule and drop its assignments
+   */
+  async remove(id: string, companyId: string, actorId: string) {
+    const existing = await this.findOne(id, companyId);
+
+    const [, updated] = await this.prisma.$transaction([
+      this.prisma.workScheduleAssignment.deleteMany({ where: { scheduleId: id } }),
+      this.prisma.workSchedule.update({
+        where: { id },
+        data: { isActive: false, isDefault: false },
+      }),
+    ]);
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'WorkScheduleDeactivated',
+        entityType: 'WorkSchedule',
+        entityId: id,
+        before: this.toAuditSnapshot(existing),
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Assign a schedule to an employee, department or office location
+   * A target has at most one schedule; assigning again replaces it.
+   */
+  async assign(id: string, companyId: string, actorId: string, dto: AssignWorkScheduleDto) {
+    const schedule = await this.findOne(id, companyId);
+    if (!schedule.isActive) {
+      throw new BadRequestException('Cannot assign an inactive work schedule');
+    }
+
+    const target = await this.resolveAssignmentTarget(companyId, dto);
+
+    const assignment = await this.prisma.workScheduleAssignment.upsert({
+      where: target,
+      create: { scheduleId: id, companyId, scope: dto.scope, ...target },
+      update: { scheduleId: id },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'WorkScheduleAssigned',
+        entityType: 'WorkSchedule',
+        entityId: id,
+        after: { scope: dto.scope, ...target },
+      },
+    });
+
+    return assignment;
+  }
+
+  /**
+   * Remove a schedule assignment
+   */
+  async unassign(assignmentId: string, companyId: string, actorId: string) {
+    const assignment = await this.prisma.workScheduleAssignment.findFirst({
+      where: { id: assignmentId, companyId },
+    });
+
+    if (!assignment) {
+      throw new NotFoundException('Schedule assignment not found');
+    }
+
+    await this.prisma.workScheduleAssignment.delete({ where: { id: assignmentId } });
+
+    await this.prisma.auditLog.create({
+      data: {
+        actorId,
+        action: 'WorkScheduleUnassigned',
+        entityType: 'WorkSchedule',
+        entityId: assignment.scheduleId,
+        before: {
+          scope: assignment.scope,
+          userId: assignment.userId,
+          departmentId: assignment.departmentId,
+          officeLocationId: assignment.officeLocationId,
+        },
+      },
+    });
+
+    return assignment;
+  }
+
+  /**
+   * List the departments and office locations a schedule can be assigned to
+   */
+  async getAssignmentTargets(companyId: string) {
+    const [departments, officeLocations] = await Promise.all([
+      this.prisma.department.findMany({
+        where: { companyId },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.officeLocation.findMany({
+        where: { companyId, isActive: true },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+
+    return { departments, officeLocations };
+  }
+
+  /**
+   * Resolve the schedule that applies to a user
+   */
+  async resolveForUser(userId: string): Promise<ResolvedWorkSchedule> {
+    const schedules = await this.resolveForUsers([userId]);
+    return schedules.get(userId) ?? buildFallbackSchedule(null);
+  }
+
+  /**
+   * Resolve schedules for several users, keyed by user ID
+   */
+  async resolveForUsers(userIds: string[]): Promise<Map<string, ResolvedWorkSchedule>> {
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: {
+        id: true,
+        companyId: true,
+        profile: { select: { department: true, officeLocationId: true } },
+      },
+    });
+
+    const companyIds = Array.from(new Set(users.map((u) => u.companyId)));
+
+    const [schedules, policies] = await Promise.all([
+      this.prisma.workSchedule.findMany({
+        where: { companyId: { in: companyIds }, isActive: true },
+        include: {
+          days: true,
+          assignments: { include: { department: { select: { name: true } } } },
+        },
+      }),
+      this.prisma.workPolicy.findMany({ where: { companyId: { in: companyIds } } }),
+    ]);
+
+    const result = new Map<string, ResolvedWorkSchedule>();
+
+    for (const user of users) {
+      const companySchedules = schedules.filter((s) => s.companyId === user.companyId);
+      const assignedTo = (match: (a: (typeof companySchedules)[number]['assignments'][number]) => boolean) =>
+        companySchedules.find((s) => s.assignments.some(match));
+
+      const schedule =
+        assignedTo((a) => a.scope === WorkScheduleScope.Employee && a.userId === user.id) ??
+        (user.profile?.officeLocationId
+          ? assignedTo(
+              (a) =>
+                a.scope === WorkScheduleScope.OfficeLocation &&
+                a.officeLocationId === user.profile?.officeLocationId,
+            )
+          : undefined) ??
+        (user.profile?.department
+          ? assignedTo(
+              (a) =>
+                a.scope === WorkScheduleScope.Department &&
+                a.department?.name === user.profile?.department,
+            )
+          : undefined) ??
+        companySchedules.find((s) => s.isDefault);
+
+      result.set(
+        user.id,
+        schedule
+          ? this.toResolved(schedule)
+          : buildFallbackSchedule(policies.find((p) => p.companyId === user.companyId) ?? null),
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a user's schedule expectations for a local day (UTC-midnight Date)
+   */
+  async getScheduledDayForUser(userId: string, day: Date): Promise<ScheduledDay> {
+    return getScheduledDay(await this.resolveForUser(userId), day);
+  }
+
+  private toResolved(schedule: ScheduleRecord): ResolvedWorkSchedule {
+    return {
+      id: schedule.id,
+      name: schedule.name,
+      graceMinutesLate: schedule.graceMinutesLate,
+      graceMinutesEarly: schedule.graceMinutesEarly,
+      days: schedule.days.map((d) => ({
+        weekday: d.weekday,
+        isWorkingDay: d.isWorkingDay,
+        startTime: d.startTime,
+        endTime: d.endTime,
+      })),
+      overtimeThresholdMinutes: null,
+    };
+  }
+
+  private toAuditSnapshot(schedule: ScheduleRecord & { isDefault: boolean; isActive: boolean }) {
+    return {
+      name: schedule.name,
+      graceMinutesLate: schedule.graceMinutesLate,
+      graceMinutesEarly: schedule.graceMinutesEarly,
+      isDefault: schedule.isDefault,
+      isActive: schedule.isActive,
+      days: schedule.days.map((d) => ({
+        weekday: d.weekday,
+        isWorkingDay: d.isWorkingDay,
+        startTime: d.startTime,
+        endTime: d.endTime,
+      })),
+      overtimeThresholdMinutes: null,
+    };
+  }
+
+  private async assertNameAvailable(companyId: string, name: string) {
+    const existing = await this.prisma.workSchedule.findUnique({
+      where: { companyId_name: { companyId, name } },
+    });
+
+    if (existing) {
+      throw new ConflictException('A work schedule with this name already exists');
+    }
+  }
+
+  private assertUniqueWeekdays(days: { weekday: number }[]) {
+    if (new Set(days.map((d) => d.weekday)).size !== days.length) {
+      throw new BadRequestException('Each weekday may appear only once');
+    }
+  }
+
+  /**
+   * Validate the assignment target belongs to the company and return its unique key
+   */
+  private async resolveAssignmentTarget(
+    companyId: string,
+    dto: AssignWorkScheduleDto,
+  ): Promise<{ userId: string } | { departmentId: string } | { officeLocationId: string }> {
+    switch (dto.scope) {
+      case WorkScheduleScope.Employee: {
+        const user = await this.prisma.user.findFirst({ where: { id: dto.userId, companyId } });
+        if (!user) throw new NotFoundException('Employee not found');
+        return { userId: user.id };
+      }
+      case WorkScheduleScope.Department: {
+        const department = await this.prisma.department.findFirst({
+          where: { id: dto.departmentId, companyId },
+        });
+        if (!department) throw new NotFoundException('Department not found');
+        return { departmentId: department.id };
+      }
+      case WorkScheduleScope.OfficeLocation: {
+        const location = await this.prisma.officeLocation.findFirst({
+          where: { id: dto.officeLocationId, companyId },
+        });
+        if (!location) throw new NotFoundException('Office location not found');
+        return { officeLocationId: location.id };
+      }
+    }
+  }
+}
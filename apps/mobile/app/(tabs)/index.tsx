@@ -28,10 +28,17 @@ import {
 import { useAuthStore } from '../../src/store/auth';
 import { useTotalUnreadCount } from '../../src/store/chat';
 import { colors, typography, borderRadius, shadows, spacing } from '../../src/theme';
-import { useAttendance, useLocation, useRecentActivity } from '../../src/hooks';
+import {
+  useAttendance,
+  useAttendanceCalendar,
+  useCustomerSites,
+  useLocation,
+  useRecentActivity,
+} from '../../src/hooks';
 import type { WorkMode, BreakType, CheckOutSummary } from '../../src/hooks/useAttendance';
 import type { ActivityItem } from '../../src/hooks/useRecentActivity';
-import { AttendanceCard, CheckInModal } from '../../src/components/attendance';
+import { AttendanceCard, AttendanceCalendar, CheckInModal } from '../../src/components/attendance';
+import type { SiteVisitSelection } from '../../src/components/attendance/CheckInModal';
 import { format, isToday, isYesterday } from 'date-fns';
 
 export default function HomeScreen() {
@@ -56,7 +63,10 @@ export default function HomeScreen() {
   } = useAttendance();
 
   // Location hook for GPS capture
-  const { getCurrentPosition } = useLocation();
+  const { getCurrentPosition, getCheckInPosition } = useLocation();
+
+  // Customer sites for CustomerSite and FieldVisit check-ins
+  const { sites: customerSites, uploadVisitPhoto } = useCustomerSites();
 
   // Recent activity data
   const {
@@ -64,6 +74,12 @@ export default function HomeScreen() {
     isLoading: isLoadingActivity,
     refresh: refreshActivity,
   } = useRecentActivity();
+  const {
+    calendar,
+    isLoading: isLoadingCalendar,
+    setMonth: setCalendarMonth,
+    refresh: refreshCalendar,
+  } = useAttendanceCalendar();
 
   /**
    * Format activity timestamp for display
@@ -124,17 +140,28 @@ export default function HomeScreen() {
    * Handle pull-to-refresh
    */
   const onRefresh = async () => {
-    await Promise.all([refresh(), refreshActivity()]);
+    await Promise.all([refresh(), refreshActivity(), refreshCalendar()]);
   };
 
   /**
    * Handle check-in with location capture
    */
-  const handleCheckIn = async (workMode: WorkMode) => {
-    const coords = await getCurrentPosition();
-    const success = await checkIn(workMode, coords?.latitude, coords?.longitude);
+  const handleCheckIn = async (workMode: WorkMode, qrToken?: string, siteVisit?: SiteVisitSelection) => {
+    const fix = await getCheckInPosition();
+    const success = await checkIn(
+      workMode,
+      fix?.latitude,
+      fix?.longitude,
+      qrToken,
+      fix?.integrity,
+      siteVisit?.customerSiteId
+    );
     if (success) {
       setShowCheckInModal(false);
+      // The check-in stands even if the photo upload fails
+      if (siteVisit?.photoUri && !(await uploadVisitPhoto(siteVisit.photoUri))) {
+        Alert.alert('Photo Not Uploaded', 'You are checked in, but the site photo could not be uploaded.');
+      }
     }
   };
 
@@ -216,6 +243,7 @@ export default function HomeScreen() {
         visible={showCheckInModal}
         onClose={() => setShowCheckInModal(false)}
         onCheckIn={handleCheckIn}
+        customerSites={customerSites}
         isLoading={isActionLoading}
       />
 
@@ -261,6 +289,15 @@ export default function HomeScreen() {
         </TouchableOpacity>
       </Animated.View>
 
+      {/* Month Calendar */}
+      <Animated.View entering={FadeInDown.duration(300).delay(350)}>
+        <AttendanceCalendar
+          calendar={calendar}
+          isLoading={isLoadingCalendar}
+          onChangeMonth={setCalendarMonth}
+        />
+      </Animated.View>
+
       {/* Recent Activity */}
       <Animated.View
         entering={FadeInDown.duration(300).delay(400)}
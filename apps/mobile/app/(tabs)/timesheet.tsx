@@ -2,7 +2,8 @@
  * Timesheet Tab
  *
  * Displays timesheet entries and allows users to log time
- * against projects and tasks.
+ * against projects and tasks, either directly, with a timer, or by accepting
+ * suggestions from activity, and to submit the week for approval.
  */
 
 import { useState, useCallback, useEffect } from 'react';
@@ -12,20 +13,31 @@ import {
   StyleSheet,
   TouchableOpacity,
   SafeAreaView,
+  Alert,
+  ActivityIndicator,
 } from 'react-native';
 import Animated, { FadeIn } from 'react-native-reanimated';
-import { ChevronLeft, ChevronRight, List, PlusCircle, Clock } from 'lucide-react-native';
+import { ChevronLeft, ChevronRight, List, PlusCircle, Sparkles, Clock, Send } from 'lucide-react-native';
 import { format, addDays, subDays, isToday } from 'date-fns';
 import { colors, typography, borderRadius, spacing } from '../../src/theme';
 import { useProjects } from '../../src/hooks/useProjects';
-import { useTimesheets, useCreateTimesheet, CreateTimesheetInput } from '../../src/hooks/useTimesheets';
+import {
+  useTimesheets,
+  useCreateTimesheet,
+  useTimesheetWeek,
+  CreateTimesheetInput,
+} from '../../src/hooks/useTimesheets';
+import { useTimesheetTimer, StartTimerInput } from '../../src/hooks/useTimesheetTimer';
+import { useTimesheetSuggestions, AcceptSuggestionInput } from '../../src/hooks/useTimesheetSuggestions';
 import { TimesheetForm } from '../../src/components/timesheets/TimesheetForm';
 import { TimesheetList } from '../../src/components/timesheets/TimesheetList';
+import { TimerCard } from '../../src/components/timesheets/TimerCard';
+import { SuggestionList } from '../../src/components/timesheets/SuggestionList';
 
 /**
- * Tab mode - either viewing entries or adding new
+ * Tab mode - viewing entries, adding new, or reviewing suggestions
  */
-type TabMode = 'entries' | 'add';
+type TabMode = 'entries' | 'add' | 'suggested';
 
 /**
  * Format time as "Xh Ym"
@@ -59,6 +71,31 @@ export default function TimesheetScreen() {
   const { projects } = useProjects();
   const { entries, dayTotal, isLoading, error, refresh } = useTimesheets(selectedDate);
   const { create, isCreating, error: createError, clearError } = useCreateTimesheet();
+  const {
+    week,
+    pendingCount,
+    isSubmitting,
+    error: weekError,
+    refresh: refreshWeek,
+    submit: submitWeek,
+  } = useTimesheetWeek(selectedDate);
+  const {
+    timer: runningTimer,
+    isBusy: isTimerBusy,
+    error: timerError,
+    refresh: refreshTimer,
+    start: startTimer,
+    stop: stopTimer,
+    discard: discardTimer,
+  } = useTimesheetTimer();
+  const {
+    day: suggestionDay,
+    isLoading: isLoadingSuggestions,
+    isAccepting,
+    error: suggestionError,
+    refresh: refreshSuggestions,
+    accept: acceptSuggestions,
+  } = useTimesheetSuggestions(selectedDate);
 
   // Clear create error when switching tabs
   useEffect(() => {
@@ -67,6 +104,13 @@ export default function TimesheetScreen() {
     }
   }, [activeTab, clearError]);
 
+  // Entries logged since the last load change what is suggested
+  useEffect(() => {
+    if (activeTab === 'suggested') {
+      refreshSuggestions();
+    }
+  }, [activeTab, refreshSuggestions]);
+
   // Date navigation
   const goToPreviousDay = useCallback(() => {
     const current = new Date(selectedDate);
@@ -90,9 +134,66 @@ export default function TimesheetScreen() {
     const success = await create(input);
     if (success) {
       setActiveTab('entries');
-      await refresh();
+      await Promise.all([refresh(), refreshWeek()]);
+    }
+  }, [create, refresh, refreshWeek]);
+
+  // Submit the selected week for approval
+  const handleSubmitWeek = useCallback(() => {
+    Alert.alert(
+      'Submit Week',
+      'Submit this week for approval? Submitted entries cannot be changed unless they are rejected.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Submit',
+          onPress: async () => {
+            if (await submitWeek()) {
+              await refresh();
+            }
+          },
+        },
+      ]
+    );
+  }, [submitWeek, refresh]);
+
+  // Start a timer from the add form
+  const handleStartTimer = useCallback(async (input: StartTimerInput) => {
+    if (await startTimer(input)) {
+      setActiveTab('entries');
     }
-  }, [create, refresh]);
+  }, [startTimer]);
+
+  // Stop the timer and book its time
+  const handleStopTimer = useCallback(async () => {
+    const result = await stopTimer();
+    if (!result) return;
+    if (!result.entry) {
+      Alert.alert('Nothing Booked', 'Less time than the rounding increment was tracked.');
+    }
+    await Promise.all([refresh(), refreshWeek()]);
+  }, [stopTimer, refresh, refreshWeek]);
+
+  const handleDiscardTimer = useCallback(() => {
+    Alert.alert('Discard Timer', 'Discard the running timer without booking the time?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => discardTimer() },
+    ]);
+  }, [discardTimer]);
+
+  // Save accepted suggestions as draft entries
+  const handleAcceptSuggestions = useCallback(async (input: AcceptSuggestionInput[]) => {
+    if (await acceptSuggestions(input)) {
+      await Promise.all([refresh(), refreshWeek()]);
+    }
+  }, [acceptSuggestions, refresh, refreshWeek]);
+
+  // Pull-to-refresh also picks up a timer started on another device
+  const handleRefresh = useCallback(async () => {
+    await Promise.all([refresh(), refreshTimer()]);
+  }, [refresh, refreshTimer]);
+
+  const canSubmitWeek = !!week && week.status !== 'Submitted' && pendingCount > 0;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -133,6 +234,47 @@ export default function TimesheetScreen() {
         </View>
       </Animated.View>
 
+      {/* Running Timer */}
+      {runningTimer && (
+        <TimerCard
+          timer={runningTimer}
+          isBusy={isTimerBusy}
+          onStop={handleStopTimer}
+          onDiscard={handleDiscardTimer}
+        />
+      )}
+
+      {/* Week Status */}
+      {week && (
+        <View style={styles.weekRow}>
+          <View style={styles.weekInfo}>
+            <Text style={styles.weekLabel}>
+              Week of {format(new Date(`${week.weekStart}T00:00:00`), 'MMM d')}
+            </Text>
+            <Text style={styles.weekStatus}>
+              {week.status}
+              {week.status === 'Rejected' && week.submission?.comment ? ` — ${week.submission.comment}` : ''}
+            </Text>
+          </View>
+          {canSubmitWeek && (
+            <TouchableOpacity
+              style={styles.submitWeekButton}
+              onPress={handleSubmitWeek}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Send size={16} color="#FFFFFF" />
+              )}
+              <Text style={styles.submitWeekText}>
+                {week.status === 'Rejected' ? 'Resubmit' : 'Submit week'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {/* Tab Toggle */}
       <Animated.View entering={FadeIn.duration(200).delay(100)} style={styles.tabContainer}>
         <TouchableOpacity
@@ -153,6 +295,15 @@ export default function TimesheetScreen() {
             Add New
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'suggested' && styles.tabActive]}
+          onPress={() => setActiveTab('suggested')}
+        >
+          <Sparkles size={18} color={activeTab === 'suggested' ? colors.blue[600] : colors.silver[500]} />
+          <Text style={[styles.tabText, activeTab === 'suggested' && styles.tabTextActive]}>
+            Suggested
+          </Text>
+        </TouchableOpacity>
       </Animated.View>
 
       {/* Content Area */}
@@ -162,7 +313,17 @@ export default function TimesheetScreen() {
             <TimesheetList
               entries={entries}
               isLoading={isLoading}
-              onRefresh={refresh}
+              onRefresh={handleRefresh}
+            />
+          </Animated.View>
+        ) : activeTab === 'suggested' ? (
+          <Animated.View entering={FadeIn.duration(200)} style={styles.listContainer}>
+            <SuggestionList
+              day={suggestionDay}
+              isLoading={isLoadingSuggestions}
+              isAccepting={isAccepting}
+              onAccept={handleAcceptSuggestions}
+              onRefresh={refreshSuggestions}
             />
           </Animated.View>
         ) : (
@@ -172,21 +333,30 @@ export default function TimesheetScreen() {
               onSubmit={handleSubmit}
               isSubmitting={isCreating}
               initialDate={selectedDate}
-              error={createError}
+              error={createError || timerError}
+              onStartTimer={handleStartTimer}
             />
           </Animated.View>
         )}
       </View>
 
       {/* Error display for loading errors */}
-      {error && activeTab === 'entries' && (
+      {(error || weekError || timerError) && activeTab === 'entries' && (
         <View style={styles.errorBanner}>
-          <Text style={styles.errorText}>{error}</Text>
+          <Text style={styles.errorText}>{error || weekError || timerError}</Text>
           <TouchableOpacity onPress={refresh}>
             <Text style={styles.retryText}>Retry</Text>
           </TouchableOpacity>
         </View>
       )}
+      {suggestionError && activeTab === 'suggested' && (
+        <View style={styles.errorBanner}>
+          <Text style={styles.errorText}>{suggestionError}</Text>
+          <TouchableOpacity onPress={refreshSuggestions}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </SafeAreaView>
   );
 }
@@ -265,6 +435,44 @@ const styles = StyleSheet.create({
     backgroundColor: colors.silver[200],
     marginHorizontal: spacing[4],
   },
+  weekRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#FFFFFF',
+    paddingVertical: spacing[3],
+    paddingHorizontal: spacing[4],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.silver[200],
+  },
+  weekInfo: {
+    flex: 1,
+    marginRight: spacing[3],
+  },
+  weekLabel: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: colors.navy[900],
+  },
+  weekStatus: {
+    fontSize: typography.fontSize.xs,
+    color: colors.silver[500],
+    marginTop: 2,
+  },
+  submitWeekButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+    backgroundColor: colors.blue[600],
+    paddingVertical: spacing[2],
+    paddingHorizontal: spacing[3],
+    borderRadius: borderRadius.lg,
+  },
+  submitWeekText: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   tabContainer: {
     flexDirection: 'row',
     backgroundColor: '#FFFFFF',
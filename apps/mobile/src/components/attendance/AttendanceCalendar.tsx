@@ -0,0 +1,188 @@
+/**
+ * AttendanceCalendar Component
+ *
+ * Month grid of day statuses (present, on leave, holiday, weekend, absent)
+ * with month navigation and a legend of monthly totals.
+ */
+
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { addMonths, format, getDay, parseISO } from 'date-fns';
+import { colors, typography, borderRadius, shadows, spacing } from '../../theme';
+import type { AttendanceCalendar as Calendar, DayStatus } from '../../hooks/useAttendanceCalendar';
+
+interface AttendanceCalendarProps {
+  calendar: Calendar | null;
+  isLoading: boolean;
+  onChangeMonth: (month: string) => void;
+}
+
+const STATUS_STYLES: Record<DayStatus, { label: string; background: string; text: string }> = {
+  Present: { label: 'Present', background: colors.semantic.success.light, text: colors.semantic.success.dark },
+  OnLeave: { label: 'Leave', background: colors.blue[100], text: colors.blue[700] },
+  Holiday: { label: 'Holiday', background: '#F3E8FF', text: '#7E22CE' },
+  Weekend: { label: 'Off', background: colors.silver[100], text: colors.silver[500] },
+  Absent: { label: 'Absent', background: colors.semantic.error.light, text: colors.semantic.error.dark },
+};
+
+const SUMMARY_KEYS: Record<DayStatus, keyof Calendar['summary']> = {
+  Present: 'present',
+  OnLeave: 'onLeave',
+  Holiday: 'holiday',
+  Weekend: 'weekend',
+  Absent: 'absent',
+};
+
+const WEEKDAY_HEADERS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+export function AttendanceCalendar({ calendar, isLoading, onChangeMonth }: AttendanceCalendarProps) {
+  const shiftMonth = (amount: number) => {
+    if (!calendar) return;
+    onChangeMonth(format(addMonths(parseISO(`${calendar.month}-01`), amount), 'yyyy-MM'));
+  };
+
+  // Pad the grid so the first day lines up under its weekday (Monday first)
+  const leadingBlanks = calendar ? (getDay(parseISO(calendar.days[0].date)) + 6) % 7 : 0;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>
+          {calendar ? format(parseISO(`${calendar.month}-01`), 'MMMM yyyy') : 'Calendar'}
+        </Text>
+        <View style={styles.nav}>
+          <TouchableOpacity onPress={() => shiftMonth(-1)} disabled={!calendar || isLoading}>
+            <ChevronLeft size={20} color={colors.navy[900]} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => shiftMonth(1)} disabled={!calendar || isLoading}>
+            <ChevronRight size={20} color={colors.navy[900]} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {!calendar ? (
+        <Text style={styles.muted}>{isLoading ? 'Loading...' : 'Calendar unavailable'}</Text>
+      ) : (
+        <>
+          <View style={styles.grid}>
+            {WEEKDAY_HEADERS.map((label, i) => (
+              <Text key={`header-${i}`} style={[styles.cell, styles.weekday]}>
+                {label}
+              </Text>
+            ))}
+            {Array.from({ length: leadingBlanks }, (_, i) => (
+              <View key={`blank-${i}`} style={styles.cell} />
+            ))}
+            {calendar.days.map((day) => {
+              const style = day.status ? STATUS_STYLES[day.status] : null;
+              return (
+                <View key={day.date} style={styles.cell}>
+                  <View
+                    style={[
+                      styles.day,
+                      style && { backgroundColor: style.background },
+                      day.date === calendar.today && styles.today,
+                    ]}
+                  >
+                    <Text style={[styles.dayText, { color: style ? style.text : colors.silver[400] }]}>
+                      {parseISO(day.date).getDate()}
+                    </Text>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+
+          <View style={styles.legend}>
+            {(Object.keys(STATUS_STYLES) as DayStatus[]).map((status) => (
+              <View key={status} style={styles.legendItem}>
+                <View style={[styles.legendDot, { backgroundColor: STATUS_STYLES[status].text }]} />
+                <Text style={styles.legendText}>
+                  {STATUS_STYLES[status].label} {calendar.summary[SUMMARY_KEYS[status]]}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: borderRadius['2xl'],
+    padding: spacing[5],
+    marginBottom: spacing[4],
+    ...shadows.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing[3],
+  },
+  title: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: '600',
+    color: colors.navy[900],
+  },
+  nav: {
+    flexDirection: 'row',
+    gap: spacing[3],
+  },
+  muted: {
+    fontSize: typography.fontSize.sm,
+    color: colors.silver[500],
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  weekday: {
+    fontSize: typography.fontSize.xs,
+    color: colors.silver[500],
+    textAlign: 'center',
+  },
+  day: {
+    width: 32,
+    height: 32,
+    borderRadius: borderRadius.lg,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  today: {
+    borderWidth: 2,
+    borderColor: colors.blue[500],
+  },
+  dayText: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '500',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[3],
+    marginTop: spacing[3],
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[1],
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: borderRadius.full,
+  },
+  legendText: {
+    fontSize: typography.fontSize.xs,
+    color: colors.silver[600],
+  },
+});
@@ -3,6 +3,9 @@
  *
  * Modal for selecting work mode and initiating check-in.
  * Displays work mode options with icons and handles check-in action.
+ * Office check-ins can attach a scanned lobby QR code for verification.
+ * Customer site and field visit check-ins can pick a site and attach a
+ * photo as proof of presence.
  *
  * @module components/attendance/CheckInModal
  */
@@ -16,6 +19,7 @@ import {
   TouchableOpacity,
   Pressable,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import Animated, { FadeIn, SlideInDown } from 'react-native-reanimated';
 import {
@@ -24,10 +28,16 @@ import {
   Users,
   MapPin,
   Plane,
+  QrCode,
+  CheckCircle2,
+  Camera,
   X,
 } from 'lucide-react-native';
 import { colors, typography, borderRadius, shadows, spacing } from '../../theme';
 import type { WorkMode } from '../../hooks/useAttendance';
+import type { CustomerSite } from '../../hooks/useCustomerSites';
+import { QrCodeScanner } from './QrCodeScanner';
+import { SitePhotoCapture } from './SitePhotoCapture';
 
 /**
  * Work mode option with icon and label
@@ -75,6 +85,19 @@ const WORK_MODE_OPTIONS: WorkModeOption[] = [
   },
 ];
 
+/**
+ * Work modes that can be tied to a customer site
+ */
+const SITE_WORK_MODES: WorkMode[] = ['CustomerSite', 'FieldVisit'];
+
+/**
+ * Customer site chosen at check-in with optional photo proof
+ */
+export interface SiteVisitSelection {
+  customerSiteId: string;
+  photoUri?: string;
+}
+
 /**
  * CheckInModal props
  */
@@ -83,8 +106,10 @@ interface CheckInModalProps {
   visible: boolean;
   /** Close modal callback */
   onClose: () => void;
-  /** Check-in callback with selected work mode */
-  onCheckIn: (workMode: WorkMode) => Promise<void>;
+  /** Check-in callback with selected work mode, scanned QR token and customer site */
+  onCheckIn: (workMode: WorkMode, qrToken?: string, siteVisit?: SiteVisitSelection) => Promise<void>;
+  /** Customer sites available for CustomerSite and FieldVisit check-ins */
+  customerSites?: CustomerSite[];
   /** Loading state for check-in action */
   isLoading: boolean;
 }
@@ -100,6 +125,7 @@ interface CheckInModalProps {
  *   visible={showModal}
  *   onClose={() => setShowModal(false)}
  *   onCheckIn={handleCheckIn}
+ *   customerSites={sites}
  *   isLoading={isLoading}
  * />
  * ```
@@ -108,12 +134,48 @@ export function CheckInModal({
   visible,
   onClose,
   onCheckIn,
+  customerSites = [],
   isLoading,
 }: CheckInModalProps) {
   const [selectedMode, setSelectedMode] = useState<WorkMode>('Office');
+  const [qrToken, setQrToken] = useState<string | undefined>();
+  const [isScanning, setIsScanning] = useState(false);
+  const [siteId, setSiteId] = useState<string | undefined>();
+  const [photoUri, setPhotoUri] = useState<string | undefined>();
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const showSites = SITE_WORK_MODES.includes(selectedMode) && customerSites.length > 0;
+
+  const resetSelection = () => {
+    setQrToken(undefined);
+    setSiteId(undefined);
+    setPhotoUri(undefined);
+  };
 
   const handleCheckIn = async () => {
-    await onCheckIn(selectedMode);
+    await onCheckIn(
+      selectedMode,
+      selectedMode === 'Office' ? qrToken : undefined,
+      showSites && siteId ? { customerSiteId: siteId, photoUri } : undefined
+    );
+    resetSelection();
+  };
+
+  const handleScanned = (value: string) => {
+    setQrToken(value);
+    setIsScanning(false);
+  };
+
+  const handleCaptured = (uri: string) => {
+    setPhotoUri(uri);
+    setIsCapturing(false);
+  };
+
+  const handleClose = () => {
+    setIsScanning(false);
+    setIsCapturing(false);
+    resetSelection();
+    onClose();
   };
 
   return (
@@ -121,9 +183,9 @@ export function CheckInModal({
       visible={visible}
       transparent
       animationType="none"
-      onRequestClose={onClose}
+      onRequestClose={handleClose}
     >
-      <Pressable style={styles.overlay} onPress={onClose}>
+      <Pressable style={styles.overlay} onPress={handleClose}>
         <Animated.View
           entering={FadeIn.duration(200)}
           style={styles.overlayBackground}
@@ -137,7 +199,7 @@ export function CheckInModal({
             <View style={styles.header}>
               <Text style={styles.title}>Check In</Text>
               <TouchableOpacity
-                onPress={onClose}
+                onPress={handleClose}
                 style={styles.closeButton}
                 hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
               >
@@ -150,6 +212,18 @@ export function CheckInModal({
               Select your work mode for today
             </Text>
 
+            {isScanning ? (
+              <QrCodeScanner
+                onScanned={handleScanned}
+                onCancel={() => setIsScanning(false)}
+              />
+            ) : isCapturing ? (
+              <SitePhotoCapture
+                onCaptured={handleCaptured}
+                onCancel={() => setIsCapturing(false)}
+              />
+            ) : (
+            <>
             {/* Work Mode Options */}
             <View style={styles.optionsContainer}>
               {WORK_MODE_OPTIONS.map((option) => (
@@ -197,11 +271,81 @@ export function CheckInModal({
               ))}
             </View>
 
+            {/* Office QR verification */}
+            {selectedMode === 'Office' && (
+              <TouchableOpacity
+                style={[styles.qrButton, qrToken && styles.qrButtonScanned]}
+                onPress={() => setIsScanning(true)}
+                disabled={isLoading}
+              >
+                {qrToken ? (
+                  <CheckCircle2 size={20} color={colors.semantic.success.main} />
+                ) : (
+                  <QrCode size={20} color={colors.blue[600]} />
+                )}
+                <Text style={[styles.qrButtonText, qrToken && styles.qrButtonTextScanned]}>
+                  {qrToken ? 'Office QR code scanned' : 'Scan office QR code'}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {/* Customer site and photo proof */}
+            {showSites && (
+              <>
+                <Text style={styles.sectionLabel}>Customer site</Text>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.siteList}
+                >
+                  {customerSites.map((site) => (
+                    <TouchableOpacity
+                      key={site.id}
+                      style={[styles.siteChip, siteId === site.id && styles.siteChipSelected]}
+                      onPress={() => setSiteId(siteId === site.id ? undefined : site.id)}
+                      disabled={isLoading}
+                    >
+                      <Text
+                        style={[styles.siteChipText, siteId === site.id && styles.siteChipTextSelected]}
+                        numberOfLines={1}
+                      >
+                        {site.name}
+                      </Text>
+                      {site.customerName && (
+                        <Text style={styles.siteChipSubtext} numberOfLines={1}>
+                          {site.customerName}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+
+                {siteId && (
+                  <TouchableOpacity
+                    style={[styles.qrButton, photoUri && styles.qrButtonScanned]}
+                    onPress={() => setIsCapturing(true)}
+                    disabled={isLoading}
+                  >
+                    {photoUri ? (
+                      <CheckCircle2 size={20} color={colors.semantic.success.main} />
+                    ) : (
+                      <Camera size={20} color={colors.blue[600]} />
+                    )}
+                    <Text style={[styles.qrButtonText, photoUri && styles.qrButtonTextScanned]}>
+                      {photoUri ? 'Site photo attached' : 'Take site photo (optional)'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+            </>
+            )}
+
             {/* Check In Button */}
             <TouchableOpacity
               style={[styles.checkInButton, isLoading && styles.checkInButtonDisabled]}
               onPress={handleCheckIn}
-              disabled={isLoading}
+              disabled={isLoading || isScanning || isCapturing}
             >
               {isLoading ? (
                 <ActivityIndicator color="#FFFFFF" />
@@ -318,6 +462,66 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     backgroundColor: colors.blue[600],
   },
+  qrButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing[2],
+    paddingVertical: spacing[3],
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.blue[200],
+    backgroundColor: colors.blue[50],
+    marginBottom: spacing[4],
+  },
+  qrButtonScanned: {
+    borderColor: colors.semantic.success.main,
+    backgroundColor: colors.semantic.success.light,
+  },
+  qrButtonText: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: colors.blue[700],
+  },
+  qrButtonTextScanned: {
+    color: colors.semantic.success.dark,
+  },
+  sectionLabel: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: colors.navy[900],
+    marginBottom: spacing[2],
+  },
+  siteList: {
+    gap: spacing[2],
+    paddingBottom: spacing[4],
+  },
+  siteChip: {
+    maxWidth: 180,
+    paddingVertical: spacing[2],
+    paddingHorizontal: spacing[3],
+    borderRadius: borderRadius.lg,
+    borderWidth: 2,
+    borderColor: colors.silver[200],
+    backgroundColor: '#FFFFFF',
+  },
+  siteChipSelected: {
+    borderColor: colors.blue[600],
+    backgroundColor: colors.blue[50],
+  },
+  siteChipText: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: colors.navy[900],
+  },
+  siteChipTextSelected: {
+    color: colors.blue[700],
+  },
+  siteChipSubtext: {
+    fontSize: typography.fontSize.xs,
+    color: colors.silver[500],
+    marginTop: 2,
+  },
   checkInButton: {
     flexDirection: 'row',
     alignItems: 'center',
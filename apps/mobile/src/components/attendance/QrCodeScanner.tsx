@@ -0,0 +1,145 @@
+/**
+ * QrCodeScanner Component
+ *
+ * Camera view for scanning the rotating office lobby QR code.
+ * Requests camera permission on demand and reports the first
+ * scanned value back to the parent.
+ *
+ * @module components/attendance/QrCodeScanner
+ */
+
+import { useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Camera, X } from 'lucide-react-native';
+import { colors, typography, borderRadius, spacing } from '../../theme';
+
+/**
+ * QrCodeScanner props
+ */
+interface QrCodeScannerProps {
+  /** Called once with the scanned QR value */
+  onScanned: (value: string) => void;
+  /** Cancel scanning callback */
+  onCancel: () => void;
+}
+
+/**
+ * QrCodeScanner component
+ *
+ * @example
+ * ```tsx
+ * <QrCodeScanner
+ *   onScanned={(token) => setQrToken(token)}
+ *   onCancel={() => setIsScanning(false)}
+ * />
+ * ```
+ */
+export function QrCodeScanner({ onScanned, onCancel }: QrCodeScannerProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const hasScanned = useRef(false);
+
+  const handleBarcodeScanned = ({ data }: { data: string }) => {
+    if (hasScanned.current) return;
+    hasScanned.current = true;
+    onScanned(data);
+  };
+
+  if (!permission?.granted) {
+    return (
+      <View style={styles.permissionContainer}>
+        <Camera size={32} color={colors.silver[400]} />
+        <Text style={styles.permissionText}>
+          Camera access is needed to scan the office QR code
+        </Text>
+        <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+          <Text style={styles.permissionButtonText}>Allow Camera</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onCancel}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.cameraContainer}>
+      <CameraView
+        style={StyleSheet.absoluteFillObject}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={handleBarcodeScanned}
+      />
+      <View style={styles.frame} />
+      <TouchableOpacity
+        style={styles.closeButton}
+        onPress={onCancel}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <X size={20} color="#FFFFFF" />
+      </TouchableOpacity>
+      <Text style={styles.hint}>Point at the QR code on the lobby screen</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  permissionContainer: {
+    alignItems: 'center',
+    gap: spacing[3],
+    padding: spacing[6],
+    borderRadius: borderRadius.xl,
+    backgroundColor: colors.silver[50],
+    marginBottom: spacing[5],
+  },
+  permissionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.silver[600],
+    textAlign: 'center',
+  },
+  permissionButton: {
+    paddingVertical: spacing[3],
+    paddingHorizontal: spacing[5],
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.blue[600],
+  },
+  permissionButtonText: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  cancelText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.silver[500],
+  },
+  cameraContainer: {
+    height: 320,
+    borderRadius: borderRadius.xl,
+    overflow: 'hidden',
+    backgroundColor: colors.navy[900],
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing[5],
+  },
+  frame: {
+    width: 200,
+    height: 200,
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+    borderRadius: borderRadius.lg,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: spacing[3],
+    right: spacing[3],
+    padding: spacing[2],
+    borderRadius: borderRadius.full,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  hint: {
+    position: 'absolute',
+    bottom: spacing[4],
+    fontSize: typography.fontSize.sm,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,154 @@
+/**
+ * SitePhotoCapture Component
+ *
+ * Camera view for taking a photo at a customer site as proof of
+ * presence. Requests camera permission on demand and reports the
+ * captured image URI back to the parent.
+ *
+ * @module components/attendance/SitePhotoCapture
+ */
+
+import { useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Camera, X } from 'lucide-react-native';
+import { colors, typography, borderRadius, spacing } from '../../theme';
+
+/**
+ * SitePhotoCapture props
+ */
+interface SitePhotoCaptureProps {
+  /** Called with the local URI of the captured photo */
+  onCaptured: (uri: string) => void;
+  /** Cancel capture callback */
+  onCancel: () => void;
+}
+
+/**
+ * SitePhotoCapture component
+ *
+ * @example
+ * ```tsx
+ * <SitePhotoCapture
+ *   onCaptured={(uri) => setPhotoUri(uri)}
+ *   onCancel={() => setIsCapturing(false)}
+ * />
+ * ```
+ */
+export function SitePhotoCapture({ onCaptured, onCancel }: SitePhotoCaptureProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const cameraRef = useRef<CameraView>(null);
+  const [isTaking, setIsTaking] = useState(false);
+
+  const handleCapture = async () => {
+    if (!cameraRef.current || isTaking) return;
+    setIsTaking(true);
+    try {
+      // Reduced quality keeps uploads well under the 10 MB limit
+      const photo = await cameraRef.current.takePictureAsync({ quality: 0.5 });
+      if (photo?.uri) {
+        onCaptured(photo.uri);
+      }
+    } finally {
+      setIsTaking(false);
+    }
+  };
+
+  if (!permission?.granted) {
+    return (
+      <View style={styles.permissionContainer}>
+        <Camera size={32} color={colors.silver[400]} />
+        <Text style={styles.permissionText}>
+          Camera access is needed to take a photo at the site
+        </Text>
+        <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+          <Text style={styles.permissionButtonText}>Allow Camera</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onCancel}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.cameraContainer}>
+      <CameraView ref={cameraRef} style={StyleSheet.absoluteFillObject} facing="back" />
+      <TouchableOpacity
+        style={styles.closeButton}
+        onPress={onCancel}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <X size={20} color="#FFFFFF" />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.shutterButton}
+        onPress={handleCapture}
+        disabled={isTaking}
+      >
+        {isTaking ? (
+          <ActivityIndicator color={colors.blue[600]} />
+        ) : (
+          <Camera size={28} color={colors.blue[600]} />
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  permissionContainer: {
+    alignItems: 'center',
+    gap: spacing[3],
+    padding: spacing[6],
+    borderRadius: borderRadius.xl,
+    backgroundColor: colors.silver[50],
+    marginBottom: spacing[5],
+  },
+  permissionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.silver[600],
+    textAlign: 'center',
+  },
+  permissionButton: {
+    paddingVertical: spacing[3],
+    paddingHorizontal: spacing[5],
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.blue[600],
+  },
+  permissionButtonText: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  cancelText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.silver[500],
+  },
+  cameraContainer: {
+    height: 320,
+    borderRadius: borderRadius.xl,
+    overflow: 'hidden',
+    backgroundColor: colors.navy[900],
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginBottom: spacing[5],
+  },
+  closeButton: {
+    position: 'absolute',
+    top: spacing[3],
+    right: spacing[3],
+    padding: spacing[2],
+    borderRadius: borderRadius.full,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  shutterButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: '#FFFFFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing[4],
+  },
+});
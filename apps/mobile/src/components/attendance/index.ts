@@ -8,3 +8,6 @@
 
 export { CheckInModal } from './CheckInModal';
 export { AttendanceCard } from './AttendanceCard';
+export { QrCodeScanner } from './QrCodeScanner';
+export { AttendanceCalendar } from './AttendanceCalendar';
+export { SitePhotoCapture } from './SitePhotoCapture';
@@ -0,0 +1,237 @@
+/**
+ * SuggestionList Component
+ *
+ * Lists the entries suggested from a day's activity. Each suggestion can be
+ * accepted, accepted with edited minutes, or discarded.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { Check, X, Sparkles } from 'lucide-react-native';
+import { colors, typography, borderRadius, spacing } from '../../theme';
+import type {
+  TimesheetSuggestion,
+  TimesheetSuggestionDay,
+  AcceptSuggestionInput,
+} from '../../hooks/useTimesheetSuggestions';
+
+/**
+ * Props for SuggestionList
+ */
+interface SuggestionListProps {
+  day: TimesheetSuggestionDay | null;
+  isLoading: boolean;
+  isAccepting: boolean;
+  onAccept: (entries: AcceptSuggestionInput[]) => void;
+  onRefresh: () => void;
+}
+
+/**
+ * Format minutes as "Xh Ym"
+ */
+function formatMinutes(minutes: number): string {
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * SuggestionList Component
+ */
+export function SuggestionList({ day, isLoading, isAccepting, onAccept, onRefresh }: SuggestionListProps) {
+  const [edited, setEdited] = useState<Record<string, string>>({});
+  const [discarded, setDiscarded] = useState<string[]>([]);
+
+  // Start over when another day is shown
+  useEffect(() => {
+    setEdited({});
+    setDiscarded([]);
+  }, [day?.date]);
+
+  const getMinutes = (s: TimesheetSuggestion) => {
+    const value = edited[s.taskId];
+    return value === undefined ? s.minutes : parseInt(value, 10) || 0;
+  };
+
+  const toInput = (s: TimesheetSuggestion): AcceptSuggestionInput => ({
+    date: s.date,
+    projectId: s.projectId,
+    taskId: s.taskId,
+    minutes: getMinutes(s),
+  });
+
+  const suggestions = (day?.suggestions ?? []).filter((s) => !discarded.includes(s.taskId));
+  const acceptable = suggestions.filter((s) => getMinutes(s) > 0);
+
+  return (
+    <ScrollView
+      contentContainerStyle={styles.container}
+      refreshControl={<RefreshControl refreshing={isLoading} onRefresh={onRefresh} />}
+    >
+      {day && (
+        <Text style={styles.reconcile}>
+          {day.attendanceMinutes === null
+            ? 'No completed attendance for this day'
+            : `${formatMinutes(day.attendanceMinutes)} worked`}
+          {` • ${formatMinutes(day.loggedMinutes)} logged`}
+        </Text>
+      )}
+
+      {day?.locked ? (
+        <Text style={styles.empty}>This day is locked for timesheet changes.</Text>
+      ) : suggestions.length === 0 ? (
+        !isLoading && (
+          <View style={styles.emptyState}>
+            <Sparkles size={32} color={colors.silver[400]} />
+            <Text style={styles.empty}>No suggestions for this day</Text>
+          </View>
+        )
+      ) : (
+        <>
+          {suggestions.map((s) => (
+            <View key={s.taskId} style={styles.row}>
+              <View style={styles.info}>
+                <Text style={styles.project} numberOfLines={1}>
+                  {s.project.name}
+                </Text>
+                <Text style={styles.task} numberOfLines={1}>
+                  {s.task.name}
+                </Text>
+                <Text style={styles.meta}>
+                  {formatMinutes(s.activityMinutes)} of activity
+                  {s.trimmed ? ' • reduced to fit attendance' : ''}
+                </Text>
+              </View>
+              <TextInput
+                style={styles.minutesInput}
+                keyboardType="number-pad"
+                value={edited[s.taskId] ?? String(s.minutes)}
+                onChangeText={(text) => setEdited((prev) => ({ ...prev, [s.taskId]: text }))}
+              />
+              <Text style={styles.unit}>min</Text>
+              <TouchableOpacity
+                onPress={() => onAccept([toInput(s)])}
+                disabled={isAccepting || getMinutes(s) <= 0}
+                style={styles.iconButton}
+              >
+                <Check size={20} color={colors.semantic.success.main} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setDiscarded((prev) => [...prev, s.taskId])}
+                disabled={isAccepting}
+                style={styles.iconButton}
+              >
+                <X size={20} color={colors.silver[500]} />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          {acceptable.length > 1 && (
+            <TouchableOpacity
+              style={styles.acceptAllButton}
+              onPress={() => onAccept(acceptable.map(toInput))}
+              disabled={isAccepting}
+            >
+              {isAccepting ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Check size={16} color="#FFFFFF" />
+              )}
+              <Text style={styles.acceptAllText}>Accept all</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: spacing[4],
+    gap: spacing[3],
+  },
+  reconcile: {
+    fontSize: typography.fontSize.xs,
+    color: colors.silver[500],
+  },
+  emptyState: {
+    alignItems: 'center',
+    gap: spacing[2],
+    paddingVertical: spacing[8],
+  },
+  empty: {
+    fontSize: typography.fontSize.sm,
+    color: colors.silver[500],
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+    backgroundColor: '#FFFFFF',
+    padding: spacing[3],
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.silver[200],
+  },
+  info: {
+    flex: 1,
+  },
+  project: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: colors.navy[900],
+  },
+  task: {
+    fontSize: typography.fontSize.xs,
+    color: colors.silver[600],
+    marginTop: 2,
+  },
+  meta: {
+    fontSize: typography.fontSize.xs,
+    color: colors.silver[500],
+    marginTop: 2,
+  },
+  minutesInput: {
+    width: 56,
+    paddingVertical: spacing[1],
+    paddingHorizontal: spacing[2],
+    borderWidth: 1,
+    borderColor: colors.silver[200],
+    borderRadius: borderRadius.md,
+    fontSize: typography.fontSize.sm,
+    color: colors.navy[900],
+    textAlign: 'right',
+  },
+  unit: {
+    fontSize: typography.fontSize.xs,
+    color: colors.silver[500],
+  },
+  iconButton: {
+    padding: spacing[1],
+  },
+  acceptAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing[2],
+    backgroundColor: colors.blue[600],
+    paddingVertical: spacing[3],
+    borderRadius: borderRadius.lg,
+  },
+  acceptAllText: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export default SuggestionList;
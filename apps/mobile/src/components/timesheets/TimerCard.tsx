@@ -0,0 +1,115 @@
+/**
+ * TimerCard Component
+ *
+ * Shows the running timer with its elapsed time, and stops or discards it.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Square, Timer, Trash2 } from 'lucide-react-native';
+import { colors, typography, borderRadius, spacing } from '../../theme';
+import type { TimesheetTimer } from '../../hooks/useTimesheetTimer';
+
+/**
+ * Props for TimerCard
+ */
+interface TimerCardProps {
+  timer: TimesheetTimer;
+  isBusy: boolean;
+  onStop: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Format elapsed time as H:MM:SS
+ */
+function formatElapsed(startedAt: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(rest).padStart(2, '0')}`;
+}
+
+/**
+ * TimerCard Component
+ */
+export function TimerCard({ timer, isBusy, onStop, onDiscard }: TimerCardProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <View style={styles.card}>
+      <Timer size={20} color={colors.blue[600]} />
+      <View style={styles.info}>
+        <Text style={styles.project} numberOfLines={1}>
+          {timer.project.name}
+        </Text>
+        <Text style={styles.task} numberOfLines={1}>
+          {timer.task.name}
+        </Text>
+      </View>
+      <Text style={styles.elapsed}>{formatElapsed(timer.startedAt, now)}</Text>
+      <TouchableOpacity onPress={onDiscard} disabled={isBusy} style={styles.iconButton}>
+        <Trash2 size={18} color={colors.silver[500]} />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onStop} disabled={isBusy} style={styles.stopButton}>
+        {isBusy ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <Square size={16} color="#FFFFFF" />
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[3],
+    backgroundColor: colors.blue[50],
+    paddingVertical: spacing[3],
+    paddingHorizontal: spacing[4],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.silver[200],
+  },
+  info: {
+    flex: 1,
+  },
+  project: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: colors.navy[900],
+  },
+  task: {
+    fontSize: typography.fontSize.xs,
+    color: colors.silver[600],
+    marginTop: 2,
+  },
+  elapsed: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: '600',
+    color: colors.navy[900],
+    fontVariant: ['tabular-nums'],
+  },
+  iconButton: {
+    padding: spacing[1],
+  },
+  stopButton: {
+    width: 36,
+    height: 36,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.semantic.error.main,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
+
+export default TimerCard;
@@ -1,7 +1,8 @@
 /**
  * TimesheetForm Component
  *
- * Form for creating new timesheet entries with project/task selection.
+ * Form for creating new timesheet entries with project/task selection,
+ * or starting a timer on the selected task.
  */
 
 import React, { useState, useCallback, useMemo } from 'react';
@@ -17,12 +18,14 @@ import {
   KeyboardAvoidingView,
   Platform,
   ScrollView,
+  Switch,
 } from 'react-native';
-import { ChevronDown, Calendar, Clock, FileText, Check, X } from 'lucide-react-native';
+import { ChevronDown, Calendar, Clock, FileText, Check, X, Play } from 'lucide-react-native';
 import { format } from 'date-fns';
 import { colors, typography, borderRadius, shadows, spacing } from '../../theme';
 import type { Project, Task } from '../../hooks/useProjects';
 import type { CreateTimesheetInput } from '../../hooks/useTimesheets';
+import type { StartTimerInput } from '../../hooks/useTimesheetTimer';
 
 /**
  * Props for TimesheetForm
@@ -33,6 +36,8 @@ interface TimesheetFormProps {
   isSubmitting: boolean;
   initialDate?: string;
   error?: string | null;
+  /** Start a timer on the selected task instead of entering the time */
+  onStartTimer?: (input: StartTimerInput) => Promise<void>;
 }
 
 /**
@@ -172,6 +177,7 @@ export function TimesheetForm({
   isSubmitting,
   initialDate,
   error,
+  onStartTimer,
 }: TimesheetFormProps) {
   const today = format(new Date(), 'yyyy-MM-dd');
   const [date] = useState(initialDate || today);
@@ -180,6 +186,7 @@ export function TimesheetForm({
   const [hours, setHours] = useState('');
   const [minutes, setMinutes] = useState('0');
   const [notes, setNotes] = useState('');
+  const [isBillable, setIsBillable] = useState(true);
   const [showProjectPicker, setShowProjectPicker] = useState(false);
   const [showTaskPicker, setShowTaskPicker] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
@@ -193,6 +200,7 @@ export function TimesheetForm({
   const handleProjectSelect = useCallback((project: Project) => {
     setSelectedProject(project);
     setSelectedTask(null);
+    setIsBillable(project.defaultBillable ?? true);
     setValidationError(null);
   }, []);
 
@@ -235,10 +243,27 @@ export function TimesheetForm({
       hours: parseInt(hours, 10) || 0,
       minutes: parseInt(minutes, 10) || 0,
       notes: notes.trim() || undefined,
+      isBillable,
     };
 
     await onSubmit(input);
-  }, [date, selectedProject, selectedTask, hours, minutes, notes, onSubmit, validate]);
+  }, [date, selectedProject, selectedTask, hours, minutes, notes, isBillable, onSubmit, validate]);
+
+  // Handle start timer (time is not required)
+  const handleStartTimer = useCallback(async () => {
+    if (!onStartTimer) return;
+    if (!selectedProject || !selectedTask) {
+      setValidationError(selectedProject ? 'Please select a task' : 'Please select a project');
+      return;
+    }
+    setValidationError(null);
+
+    await onStartTimer({
+      projectId: selectedProject.id,
+      taskId: selectedTask.id,
+      notes: notes.trim() || undefined,
+    });
+  }, [selectedProject, selectedTask, notes, onStartTimer]);
 
   return (
     <KeyboardAvoidingView
@@ -377,6 +402,17 @@ export function TimesheetForm({
           />
         </View>
 
+        {/* Billable */}
+        <View style={[styles.field, styles.switchRow]}>
+          <Text style={styles.label}>Billable to the client</Text>
+          <Switch
+            value={isBillable}
+            onValueChange={setIsBillable}
+            trackColor={{ false: colors.silver[300], true: colors.blue[200] }}
+            thumbColor={isBillable ? colors.blue[600] : colors.silver[100]}
+          />
+        </View>
+
         {/* Error Display */}
         {(validationError || error) && (
           <View style={styles.errorContainer}>
@@ -397,6 +433,18 @@ export function TimesheetForm({
           )}
         </TouchableOpacity>
 
+        {/* Start Timer Button */}
+        {onStartTimer && (
+          <TouchableOpacity
+            style={styles.timerButton}
+            onPress={handleStartTimer}
+            disabled={isSubmitting}
+          >
+            <Play size={16} color={colors.blue[600]} />
+            <Text style={styles.timerButtonText}>Start Timer Instead</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Project Picker Modal */}
         <PickerModal
           visible={showProjectPicker}
@@ -533,6 +581,11 @@ const styles = StyleSheet.create({
     minHeight: 100,
     ...shadows.sm,
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   errorContainer: {
     backgroundColor: colors.semantic.error.light,
     borderRadius: borderRadius.md,
@@ -559,6 +612,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  timerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing[2],
+    borderWidth: 1,
+    borderColor: colors.blue[600],
+    borderRadius: borderRadius.lg,
+    padding: spacing[4],
+    marginTop: spacing[3],
+  },
+  timerButtonText: {
+    fontSize: typography.fontSize.base,
+    fontWeight: '600',
+    color: colors.blue[600],
+  },
 });
 
 export default TimesheetForm;
@@ -1,7 +1,8 @@
 /**
  * TimesheetList Component
  *
- * Displays a list of timesheet entries with pull-to-refresh support.
+ * Displays a list of timesheet entries with their approval status and
+ * pull-to-refresh support.
  */
 
 import React, { useCallback } from 'react';
@@ -16,7 +17,7 @@ import {
 import { Clock, FileText, Folder } from 'lucide-react-native';
 import { formatDistanceToNow } from 'date-fns';
 import { colors, typography, borderRadius, shadows, spacing } from '../../theme';
-import type { TimesheetEntry } from '../../hooks/useTimesheets';
+import type { TimesheetEntry, TimesheetStatus } from '../../hooks/useTimesheets';
 
 /**
  * Props for TimesheetList
@@ -57,6 +58,16 @@ function formatRelativeTime(dateString: string): string {
   }
 }
 
+/**
+ * Badge colours per approval status
+ */
+const statusColors: Record<TimesheetStatus, { background: string; text: string }> = {
+  Draft: { background: colors.silver[100], text: colors.silver[600] },
+  Submitted: { background: colors.semantic.warning.light, text: colors.semantic.warning.dark },
+  Approved: { background: colors.semantic.success.light, text: colors.semantic.success.dark },
+  Rejected: { background: colors.semantic.error.light, text: colors.semantic.error.dark },
+};
+
 /**
  * Individual entry card component
  */
@@ -92,10 +103,25 @@ function EntryCard({ entry }: { entry: TimesheetEntry }) {
         </Text>
       )}
 
-      {/* Created time */}
-      <Text style={styles.createdAt}>
-        {formatRelativeTime(entry.createdAt)}
-      </Text>
+      {/* Reviewer comment on rejected entries */}
+      {entry.status === 'Rejected' && entry.reviewComment && (
+        <Text style={styles.reviewComment}>{entry.reviewComment}</Text>
+      )}
+
+      {/* Created time and status */}
+      <View style={styles.footer}>
+        <Text style={styles.createdAt}>
+          {formatRelativeTime(entry.createdAt)}
+        </Text>
+        <Text
+          style={[
+            styles.statusBadge,
+            { backgroundColor: statusColors[entry.status].background, color: statusColors[entry.status].text },
+          ]}
+        >
+          {entry.status}
+        </Text>
+      </View>
     </View>
   );
 }
@@ -229,10 +255,28 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     lineHeight: typography.fontSize.sm * 1.5,
   },
+  reviewComment: {
+    fontSize: typography.fontSize.sm,
+    color: colors.semantic.error.main,
+    marginTop: spacing[2],
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: spacing[2],
+  },
   createdAt: {
     fontSize: typography.fontSize.xs,
     color: colors.silver[400],
-    marginTop: spacing[2],
+  },
+  statusBadge: {
+    fontSize: typography.fontSize.xs,
+    fontWeight: '600',
+    paddingHorizontal: spacing[2],
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+    overflow: 'hidden',
   },
   separator: {
     height: spacing[3],
@@ -6,3 +6,5 @@
 
 export { TimesheetForm } from './TimesheetForm';
 export { TimesheetList } from './TimesheetList';
+export { TimerCard } from './TimerCard';
+export { SuggestionList } from './SuggestionList';
@@ -8,6 +8,10 @@ export * from './useLocation';
 export * from './useAttendance';
 export * from './useProjects';
 export * from './useTimesheets';
+export * from './useTimesheetTimer';
+export * from './useTimesheetSuggestions';
 export * from './usePresence';
 export * from './useChat';
 export * from './useRecentActivity';
+export * from './useAttendanceCalendar';
+export * from './useCustomerSites';
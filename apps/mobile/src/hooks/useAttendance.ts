@@ -10,6 +10,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { api } from '../lib/api';
+import type { LocationIntegritySignals } from '../lib/location';
 
 // Types matching the API response (mirrored from web)
 export type AttendanceStatus = 'not_checked_in' | 'working' | 'on_break' | 'checked_out';
@@ -28,6 +29,8 @@ export interface AttendanceEvent {
   verificationStatus: string;
   notes?: string;
   isOverride: boolean;
+  isAutoClosed: boolean;
+  locationIntegrity?: 'Trusted' | 'Suspicious' | 'Spoofed' | 'Unverified';
 }
 
 export interface BreakSegment {
@@ -36,6 +39,14 @@ export interface BreakSegment {
   startTime: string;
   endTime?: string;
   durationMinutes?: number;
+  isAutoClosed: boolean;
+}
+
+export interface AttendanceSession {
+  checkInTime: string;
+  checkOutTime?: string;
+  workMode: WorkMode;
+  durationMinutes: number;
 }
 
 export interface CurrentBreak {
@@ -52,6 +63,14 @@ export interface WorkPolicy {
   standardWorkHours: number;
 }
 
+export interface ScheduledDay {
+  scheduleName: string;
+  isWorkingDay: boolean;
+  startTime: string;
+  endTime: string;
+  graceMinutesLate: number;
+}
+
 export interface AttendanceDay {
   id?: string;
   date: string;
@@ -66,7 +85,9 @@ export interface AttendanceDay {
   overtimeMinutes: number;
   events: AttendanceEvent[];
   breaks: BreakSegment[];
+  sessions: AttendanceSession[];
   policy: WorkPolicy;
+  schedule: ScheduledDay;
 }
 
 export interface CheckOutSummary {
@@ -84,7 +105,14 @@ interface UseAttendanceReturn {
 
   // Actions
   refresh: () => Promise<void>;
-  checkIn: (workMode: WorkMode, latitude?: number, longitude?: number) => Promise<boolean>;
+  checkIn: (
+    workMode: WorkMode,
+    latitude?: number,
+    longitude?: number,
+    qrToken?: string,
+    locationIntegrity?: LocationIntegritySignals,
+    customerSiteId?: string
+  ) => Promise<boolean>;
   checkOut: (latitude?: number, longitude?: number) => Promise<CheckOutSummary | null>;
   startBreak: (type: BreakType) => Promise<boolean>;
   endBreak: () => Promise<boolean>;
@@ -106,6 +134,15 @@ interface UseAttendanceReturn {
  * // Check in with GPS coordinates
  * const success = await checkIn('Office', 1.234, 103.456);
  *
+ * // Check in with a scanned office QR code
+ * await checkIn('Office', 1.234, 103.456, scannedToken);
+ *
+ * // Check in with GPS integrity signals from getCheckInFix()
+ * await checkIn('Office', fix.latitude, fix.longitude, undefined, fix.integrity);
+ *
+ * // Check in at a customer site
+ * await checkIn('CustomerSite', fix.latitude, fix.longitude, undefined, fix.integrity, siteId);
+ *
  * // Start a break
  * await startBreak('Lunch');
  *
@@ -143,16 +180,31 @@ export function useAttendance(): UseAttendanceReturn {
   }, []);
 
   /**
-   * Check in with work mode and optional GPS coordinates
+   * Check in with work mode, optional GPS coordinates, office QR token,
+   * GPS integrity signals and customer site
    */
   const checkIn = useCallback(
-    async (workMode: WorkMode, latitude?: number, longitude?: number): Promise<boolean> => {
+    async (
+      workMode: WorkMode,
+      latitude?: number,
+      longitude?: number,
+      qrToken?: string,
+      locationIntegrity?: LocationIntegritySignals,
+      customerSiteId?: string
+    ): Promise<boolean> => {
       setIsActionLoading(true);
       setError(null);
       try {
         const response = await api.post<{ event: AttendanceEvent; attendanceDay: AttendanceDay }>(
           '/attendance/check-in',
-          { workMode, latitude: latitude || 0, longitude: longitude || 0 }
+          {
+            workMode,
+            latitude: latitude || 0,
+            longitude: longitude || 0,
+            qrToken,
+            locationIntegrity,
+            customerSiteId,
+          }
         );
 
         if (response.success && response.data) {
@@ -0,0 +1,86 @@
+/**
+ * useAttendanceCalendar Hook
+ *
+ * Fetches the month calendar of day statuses (present, on leave, holiday,
+ * weekend, absent) for the logged-in user.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../lib/api';
+
+export type DayStatus = 'Present' | 'OnLeave' | 'Holiday' | 'Weekend' | 'Absent';
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  status: DayStatus | null;
+  workMinutes: number;
+  holidayName?: string;
+  leaveTypeName?: string;
+}
+
+export interface AttendanceCalendar {
+  month: string; // YYYY-MM
+  timezone: string;
+  today: string;
+  days: CalendarDay[];
+  summary: {
+    present: number;
+    onLeave: number;
+    holiday: number;
+    weekend: number;
+    absent: number;
+  };
+}
+
+interface UseAttendanceCalendarReturn {
+  calendar: AttendanceCalendar | null;
+  isLoading: boolean;
+  error: string | null;
+  setMonth: (month: string) => void;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for the month attendance calendar (defaults to the current month)
+ */
+export function useAttendanceCalendar(): UseAttendanceCalendarReturn {
+  const [calendar, setCalendar] = useState<AttendanceCalendar | null>(null);
+  const [month, setMonth] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCalendar = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await api.get<AttendanceCalendar>(
+        `/attendance/calendar${month ? `?month=${month}` : ''}`
+      );
+
+      if (response.success && response.data) {
+        setCalendar(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load calendar');
+      }
+    } catch (err) {
+      setError('Failed to load calendar');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  return {
+    calendar,
+    isLoading,
+    error,
+    setMonth,
+    refresh: fetchCalendar,
+  };
+}
+
+export default useAttendanceCalendar;
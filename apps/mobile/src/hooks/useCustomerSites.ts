@@ -0,0 +1,100 @@
+/**
+ * useCustomerSites Hook
+ *
+ * Fetches the customer sites an employee can pick when checking in with
+ * the CustomerSite or FieldVisit work mode, and uploads photo proof for
+ * the open site visit.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../lib/api';
+
+/**
+ * Customer site available at check-in
+ */
+export interface CustomerSite {
+  id: string;
+  name: string;
+  customerName?: string | null;
+  address: string;
+  radiusMeters: number;
+}
+
+/**
+ * Return type for useCustomerSites hook
+ */
+export interface UseCustomerSitesReturn {
+  sites: CustomerSite[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  uploadVisitPhoto: (photoUri: string) => Promise<boolean>;
+}
+
+/**
+ * Hook for customer site selection and visit photo proof
+ *
+ * Fetches from GET /customer-sites which returns the active
+ * sites of the user's company.
+ */
+export function useCustomerSites(): UseCustomerSitesReturn {
+  const [sites, setSites] = useState<CustomerSite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSites = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await api.get<CustomerSite[]>('/customer-sites');
+
+      if (response.success && response.data) {
+        setSites(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load customer sites');
+      }
+    } catch (err) {
+      setError('Network error loading customer sites');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Attach a photo to the visit opened by the latest check-in
+   */
+  const uploadVisitPhoto = useCallback(async (photoUri: string): Promise<boolean> => {
+    const formData = new FormData();
+    // React Native accepts a file descriptor object in place of a Blob
+    formData.append('photo', {
+      uri: photoUri,
+      name: 'site-visit.jpg',
+      type: 'image/jpeg',
+    } as unknown as Blob);
+
+    try {
+      const response = await api.postFormData('/customer-sites/visits/current/photo', formData);
+      if (!response.success) {
+        setError(response.error?.message || 'Failed to upload visit photo');
+      }
+      return response.success;
+    } catch (err) {
+      setError('Network error uploading visit photo');
+      return false;
+    }
+  }, []);
+
+  // Initial fetch on mount
+  useEffect(() => {
+    fetchSites();
+  }, [fetchSites]);
+
+  return {
+    sites,
+    isLoading,
+    error,
+    refresh: fetchSites,
+    uploadVisitPhoto,
+  };
+}
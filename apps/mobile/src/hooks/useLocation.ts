@@ -16,7 +16,9 @@ import {
   checkLocationPermission,
   requestLocationPermission,
   getCurrentLocation,
+  getCheckInFix,
   type Coordinates,
+  type CheckInFix,
 } from '../lib/location';
 
 /**
@@ -31,6 +33,8 @@ export interface UseLocationReturn {
   requestPermission: () => Promise<boolean>;
   /** Get current GPS coordinates (requests permission if needed) */
   getCurrentPosition: () => Promise<Coordinates | null>;
+  /** Get check-in coordinates with GPS integrity signals (requests permission if needed) */
+  getCheckInPosition: () => Promise<CheckInFix | null>;
 }
 
 /**
@@ -132,10 +136,28 @@ export function useLocation(): UseLocationReturn {
     return getCurrentLocation();
   }, [hasPermission, requestPermission]);
 
+  /**
+   * Get check-in position with GPS integrity signals
+   *
+   * Requests permission if not already granted.
+   * Returns null if permission denied or location unavailable.
+   */
+  const getCheckInPosition = useCallback(async (): Promise<CheckInFix | null> => {
+    if (!hasPermission) {
+      const granted = await requestPermission();
+      if (!granted) {
+        return null;
+      }
+    }
+
+    return getCheckInFix();
+  }, [hasPermission, requestPermission]);
+
   return {
     hasPermission,
     isRequesting,
     requestPermission,
     getCurrentPosition,
+    getCheckInPosition,
   };
 }
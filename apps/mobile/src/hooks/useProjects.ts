@@ -23,6 +23,8 @@ export interface Project {
   id: string;
   name: string;
   code: string;
+  /** Whether new entries on the project are billable */
+  defaultBillable?: boolean;
   tasks: Task[];
 }
 
@@ -0,0 +1,133 @@
+/**
+ * useTimesheetSuggestions Hook
+ *
+ * Loads draft entries suggested from the user's activity logs for the week
+ * of a date, and saves the ones the user accepts.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { format, startOfWeek } from 'date-fns';
+import { api } from '../lib/api';
+import type { TimesheetProject, TimesheetTask } from './useTimesheets';
+
+/**
+ * Entry suggested from a day's activity on a task
+ */
+export interface TimesheetSuggestion {
+  date: string;
+  projectId: string;
+  taskId: string;
+  project: TimesheetProject;
+  task: TimesheetTask;
+  activityMinutes: number;
+  minutes: number;
+  /** Reduced to fit the day's attendance worked minutes */
+  trimmed: boolean;
+}
+
+/**
+ * Suggestions for one day, with the attendance they were reconciled against
+ */
+export interface TimesheetSuggestionDay {
+  date: string;
+  /** Worked minutes from attendance; null without a completed attendance day */
+  attendanceMinutes: number | null;
+  loggedMinutes: number;
+  activityMinutes: number;
+  suggestedMinutes: number;
+  locked: boolean;
+  suggestions: TimesheetSuggestion[];
+}
+
+/**
+ * Input for accepting a suggestion, possibly with edited minutes
+ */
+export interface AcceptSuggestionInput {
+  date: string;
+  projectId: string;
+  taskId: string;
+  minutes: number;
+}
+
+/**
+ * Return type for useTimesheetSuggestions hook
+ */
+export interface UseTimesheetSuggestionsReturn {
+  /** Suggestions for the requested date */
+  day: TimesheetSuggestionDay | null;
+  isLoading: boolean;
+  isAccepting: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  accept: (entries: AcceptSuggestionInput[]) => Promise<boolean>;
+}
+
+/**
+ * Hook for activity-based suggestions
+ *
+ * @param date - Date in YYYY-MM-DD format
+ */
+export function useTimesheetSuggestions(date: string): UseTimesheetSuggestionsReturn {
+  const weekStart = format(startOfWeek(new Date(`${date}T00:00:00`), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+  const [days, setDays] = useState<TimesheetSuggestionDay[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSuggestions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await api.get<{ days: TimesheetSuggestionDay[] }>(
+        `/timesheets/suggestions?weekStart=${weekStart}`
+      );
+      if (response.success && response.data) {
+        setDays(response.data.days);
+      } else {
+        setError(response.error?.message || 'Failed to load suggestions');
+      }
+    } catch (err) {
+      setError('Network error loading suggestions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [fetchSuggestions]);
+
+  const accept = useCallback(async (entries: AcceptSuggestionInput[]): Promise<boolean> => {
+    setIsAccepting(true);
+    setError(null);
+
+    try {
+      const response = await api.post('/timesheets/suggestions/accept', { entries });
+      if (response.success) {
+        await fetchSuggestions();
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to accept suggestions');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error accepting suggestions');
+      return false;
+    } finally {
+      setIsAccepting(false);
+    }
+  }, [fetchSuggestions]);
+
+  const day = useMemo(() => days.find((d) => d.date === date) ?? null, [days, date]);
+
+  return {
+    day,
+    isLoading,
+    isAccepting,
+    error,
+    refresh: fetchSuggestions,
+    accept,
+  };
+}
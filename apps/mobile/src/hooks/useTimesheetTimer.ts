@@ -0,0 +1,153 @@
+/**
+ * useTimesheetTimer Hook
+ *
+ * Manages the user's running timer. The timer is kept on the server, so a
+ * timer started on the web app or another device is shown here too.
+ * Stopping it books the time to a draft timesheet entry.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../lib/api';
+import type { TimesheetEntry, TimesheetProject, TimesheetTask } from './useTimesheets';
+
+/**
+ * Running timer from API
+ */
+export interface TimesheetTimer {
+  id: string;
+  projectId: string;
+  taskId: string;
+  notes?: string | null;
+  startedAt: string;
+  project: TimesheetProject;
+  task: TimesheetTask;
+}
+
+/**
+ * Input for starting a timer
+ */
+export interface StartTimerInput {
+  projectId: string;
+  taskId: string;
+  notes?: string;
+}
+
+/**
+ * Result of stopping a timer
+ */
+export interface StoppedTimer {
+  elapsedMinutes: number;
+  /** Minutes booked after the company's rounding; 0 books nothing */
+  minutes: number;
+  entry: TimesheetEntry | null;
+}
+
+/**
+ * Return type for useTimesheetTimer hook
+ */
+export interface UseTimesheetTimerReturn {
+  timer: TimesheetTimer | null;
+  isBusy: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  start: (input: StartTimerInput) => Promise<boolean>;
+  stop: () => Promise<StoppedTimer | null>;
+  discard: () => Promise<boolean>;
+}
+
+/**
+ * Hook for the user's running timer
+ */
+export function useTimesheetTimer(): UseTimesheetTimerReturn {
+  const [timer, setTimer] = useState<TimesheetTimer | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTimer = useCallback(async () => {
+    try {
+      const response = await api.get<TimesheetTimer | null>('/timesheets/timer');
+      if (response.success) {
+        setTimer(response.data ?? null);
+      }
+    } catch (err) {
+      setError('Network error loading timer');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTimer();
+  }, [fetchTimer]);
+
+  const start = useCallback(async (input: StartTimerInput): Promise<boolean> => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const response = await api.post<{ timer: TimesheetTimer }>('/timesheets/timer/start', input);
+      if (response.success && response.data) {
+        setTimer(response.data.timer);
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to start timer');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error starting timer');
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const stop = useCallback(async (): Promise<StoppedTimer | null> => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const response = await api.post<StoppedTimer>('/timesheets/timer/stop', {});
+      if (response.success && response.data) {
+        setTimer(null);
+        return response.data;
+      } else {
+        setError(response.error?.message || 'Failed to stop timer');
+        return null;
+      }
+    } catch (err) {
+      setError('Network error stopping timer');
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const discard = useCallback(async (): Promise<boolean> => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const response = await api.delete('/timesheets/timer');
+      if (response.success) {
+        setTimer(null);
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to discard timer');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error discarding timer');
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  return {
+    timer,
+    isBusy,
+    error,
+    refresh: fetchTimer,
+    start,
+    stop,
+    discard,
+  };
+}
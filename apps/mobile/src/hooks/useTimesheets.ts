@@ -1,11 +1,12 @@
 /**
  * useTimesheets Hook
  *
- * Manages timesheet entries: fetching, creating, and calculating totals.
+ * Manages timesheet entries: fetching, creating, calculating totals, and
+ * submitting a week for approval.
  */
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { format } from 'date-fns';
+import { format, startOfWeek } from 'date-fns';
 import { api } from '../lib/api';
 
 /**
@@ -26,6 +27,11 @@ export interface TimesheetTask {
   code: string;
 }
 
+/**
+ * Approval status of a timesheet entry or week
+ */
+export type TimesheetStatus = 'Draft' | 'Submitted' | 'Approved' | 'Rejected';
+
 /**
  * Timesheet entry from API
  */
@@ -36,6 +42,9 @@ export interface TimesheetEntry {
   taskId?: string;
   minutes: number;
   notes?: string;
+  status: TimesheetStatus;
+  /** Reviewer's comment on a rejected entry */
+  reviewComment?: string | null;
   project: TimesheetProject;
   task?: TimesheetTask;
   createdAt: string;
@@ -51,6 +60,8 @@ export interface CreateTimesheetInput {
   hours: number;
   minutes: number;
   notes?: string;
+  /** Defaults to the project's setting */
+  isBillable?: boolean;
 }
 
 /**
@@ -82,6 +93,31 @@ export interface UseCreateTimesheetReturn {
   clearError: () => void;
 }
 
+/**
+ * A week of entries with its approval status
+ */
+export interface TimesheetWeek {
+  weekStart: string;
+  weekEnd: string;
+  status: TimesheetStatus;
+  submission: { id: string; submittedAt: string; comment?: string | null } | null;
+  totalMinutes: number;
+  entries: TimesheetEntry[];
+}
+
+/**
+ * Return type for useTimesheetWeek hook
+ */
+export interface UseTimesheetWeekReturn {
+  week: TimesheetWeek | null;
+  /** Entries that a submission would send for approval */
+  pendingCount: number;
+  isSubmitting: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  submit: () => Promise<boolean>;
+}
+
 /**
  * Convert total minutes to hours and minutes
  */
@@ -188,6 +224,7 @@ export function useCreateTimesheet(): UseCreateTimesheetReturn {
         startTime: startTime.toISOString(),
         endTime: endTime.toISOString(),
         notes: input.notes,
+        isBillable: input.isBillable,
       };
 
       const response = await api.post('/timesheets', payload);
@@ -214,3 +251,67 @@ export function useCreateTimesheet(): UseCreateTimesheetReturn {
   };
 }
 
+/**
+ * Hook for a week's approval status and submitting the week
+ *
+ * @param date - Any day of the week in YYYY-MM-DD format
+ */
+export function useTimesheetWeek(date: string): UseTimesheetWeekReturn {
+  const weekStart = format(startOfWeek(new Date(`${date}T00:00:00`), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+  const [week, setWeek] = useState<TimesheetWeek | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWeek = useCallback(async () => {
+    try {
+      const response = await api.get<TimesheetWeek>(`/timesheets/week?weekStart=${weekStart}`);
+      if (response.success && response.data) {
+        setWeek(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load week');
+      }
+    } catch (err) {
+      setError('Network error loading week');
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    fetchWeek();
+  }, [fetchWeek]);
+
+  const submit = useCallback(async (): Promise<boolean> => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await api.post<TimesheetWeek>('/timesheets/week/submit', { weekStart });
+      if (response.success && response.data) {
+        setWeek(response.data);
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to submit week');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error submitting week');
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [weekStart]);
+
+  const pendingCount = useMemo(
+    () => (week?.entries ?? []).filter((e) => e.status === 'Draft' || e.status === 'Rejected').length,
+    [week],
+  );
+
+  return {
+    week,
+    pendingCount,
+    isSubmitting,
+    error,
+    refresh: fetchWeek,
+    submit,
+  };
+}
@@ -37,6 +37,44 @@ export interface Coordinates {
   longitude: number;
 }
 
+/**
+ * GPS integrity signals sent with a check-in so the API can score spoofing risk
+ */
+export interface LocationIntegritySignals {
+  /** Fix came from a mock location provider (Android only) */
+  isMocked?: boolean;
+  accuracyMeters?: number;
+  altitudeMeters?: number;
+  altitudeAccuracyMeters?: number;
+  speedMps?: number;
+  /** Time between the fix and now */
+  locationAgeMs: number;
+  /** The fix taken before this one, for detecting impossible jumps */
+  previousFix?: {
+    latitude: number;
+    longitude: number;
+    ageMs: number;
+  };
+}
+
+/**
+ * Check-in position with its integrity signals
+ */
+export interface CheckInFix extends Coordinates {
+  integrity: LocationIntegritySignals;
+}
+
+/** Most recent fix from any location call in this app session */
+let lastFix: { latitude: number; longitude: number; timestamp: number } | null = null;
+
+function rememberFix(location: Location.LocationObject) {
+  lastFix = {
+    latitude: location.coords.latitude,
+    longitude: location.coords.longitude,
+    timestamp: location.timestamp,
+  };
+}
+
 /**
  * Request location permissions from the user
  *
@@ -157,6 +195,7 @@ export async function getCurrentLocation(
     const location = await Location.getCurrentPositionAsync({
       accuracy,
     });
+    rememberFix(location);
 
     return {
       latitude: location.coords.latitude,
@@ -168,6 +207,75 @@ export async function getCurrentLocation(
   }
 }
 
+/**
+ * Get the current location for check-in, with GPS integrity signals
+ *
+ * Reports what the OS says about the fix (mock provider flag, accuracy,
+ * altitude, speed, age) and the previous fix, so the API can flag spoofed
+ * locations. Returns null if location cannot be obtained.
+ *
+ * @param accuracy - Location accuracy level (default: High)
+ * @returns Coordinates with integrity signals, or null on error
+ *
+ * @example
+ * ```ts
+ * const fix = await getCheckInFix();
+ * if (fix) {
+ *   await api.post('/attendance/check-in', {
+ *     workMode,
+ *     latitude: fix.latitude,
+ *     longitude: fix.longitude,
+ *     locationIntegrity: fix.integrity,
+ *   });
+ * }
+ * ```
+ */
+export async function getCheckInFix(
+  accuracy: Location.Accuracy = Location.Accuracy.High
+): Promise<CheckInFix | null> {
+  try {
+    const { foreground } = await checkLocationPermission();
+    if (!foreground) {
+      console.warn('Location permission not granted');
+      return null;
+    }
+
+    const previous = lastFix;
+    const location = await Location.getCurrentPositionAsync({
+      accuracy,
+    });
+    rememberFix(location);
+
+    const now = Date.now();
+    const { coords } = location;
+
+    return {
+      latitude: coords.latitude,
+      longitude: coords.longitude,
+      integrity: {
+        isMocked: location.mocked,
+        accuracyMeters: coords.accuracy ?? undefined,
+        altitudeMeters: coords.altitude ?? undefined,
+        altitudeAccuracyMeters: coords.altitudeAccuracy ?? undefined,
+        // Negative speed means unavailable on iOS
+        speedMps: coords.speed != null && coords.speed >= 0 ? coords.speed : undefined,
+        locationAgeMs: Math.max(now - location.timestamp, 0),
+        previousFix:
+          previous && previous.timestamp < location.timestamp
+            ? {
+                latitude: previous.latitude,
+                longitude: previous.longitude,
+                ageMs: Math.max(now - previous.timestamp, 0),
+              }
+            : undefined,
+      },
+    };
+  } catch (error) {
+    console.error('Failed to get check-in location:', error);
+    return null;
+  }
+}
+
 /**
  * Watch location with continuous updates
  *
@@ -201,6 +309,7 @@ export async function watchLocation(
         distanceInterval: 10, // 10 meters
       },
       (location) => {
+        rememberFix(location);
         callback({
           latitude: location.coords.latitude,
           longitude: location.coords.longitude,
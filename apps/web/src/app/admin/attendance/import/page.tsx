@@ -0,0 +1,301 @@
+'use client';
+
+/**
+ * Admin Time Clock Import Page
+ *
+ * HR/SuperAdmin page for importing punches from fingerprint time clocks
+ * (CSV, ZKTeco attlog or eSSL text exports). Every upload is previewed as a
+ * dry run first; the punches are only written after confirming.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { ArrowLeft, Upload, FileText, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuthStore } from '@/store/auth';
+
+type ImportResult = 'Import' | 'Duplicate' | 'UnknownEmployee' | 'Skipped' | 'Invalid';
+
+interface ImportRow {
+  line: number;
+  result: ImportResult;
+  reason?: string;
+  raw?: string;
+  employeeCode?: string;
+  employeeName?: string;
+  date?: string;
+  timestamp?: string;
+  type?: 'CheckIn' | 'CheckOut';
+  typeInferred?: boolean;
+}
+
+interface ImportReport {
+  format: string;
+  dryRun: boolean;
+  summary: {
+    totalLines: number;
+    toImport: number;
+    duplicates: number;
+    unknownEmployees: number;
+    skipped: number;
+    invalid: number;
+    attendanceDays: number;
+  };
+  unknownEmployeeCodes: string[];
+  rows: ImportRow[];
+}
+
+const FORMAT_OPTIONS = [
+  { value: '', label: 'Detect automatically' },
+  { value: 'csv', label: 'CSV with header row' },
+  { value: 'zkteco', label: 'ZKTeco attlog' },
+  { value: 'essl', label: 'eSSL text export' },
+];
+
+const RESULT_STYLES: Record<ImportResult, { label: string; className: string }> = {
+  Import: { label: 'New', className: 'bg-success-light text-success-dark' },
+  Duplicate: { label: 'Duplicate', className: 'bg-silver-100 text-silver-600' },
+  UnknownEmployee: { label: 'Unknown employee', className: 'bg-warning-light text-warning-dark' },
+  Skipped: { label: 'Skipped', className: 'bg-warning-light text-warning-dark' },
+  Invalid: { label: 'Invalid', className: 'bg-error-light text-error-dark' },
+};
+
+export default function AdminAttendanceImportPage() {
+  const router = useRouter();
+  const { user, _hasHydrated } = useAuthStore();
+  const [file, setFile] = useState<File | null>(null);
+  const [logFormat, setLogFormat] = useState('');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const isAdmin = user?.role === 'SuperAdmin' || user?.role === 'HR';
+
+  useEffect(() => {
+    if (_hasHydrated && !user) {
+      router.push('/login');
+    } else if (_hasHydrated && user && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [user, router, _hasHydrated, isAdmin]);
+
+  const upload = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setIsUploading(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const params = new URLSearchParams({ dryRun: String(dryRun) });
+      if (logFormat) params.set('format', logFormat);
+
+      const response = await api.upload<ImportReport>(`/attendance/imports/biometric?${params}`, formData);
+      if (response.success && response.data) {
+        setReport(response.data);
+        if (!dryRun) {
+          setSuccess(
+            `Imported ${response.data.summary.toImport} punches across ${response.data.summary.attendanceDays} attendance days`,
+          );
+        }
+      } else {
+        setError(response.error?.message || 'Failed to read the time clock export');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const selectFile = (selected: File | null) => {
+    setFile(selected);
+    setReport(null);
+    setSuccess(null);
+  };
+
+  if (!_hasHydrated || !user || !isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-silver-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-600 border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <button onClick={() => router.back()} className="p-2 hover:bg-silver-100 rounded-lg">
+              <ArrowLeft size={20} />
+            </button>
+            <h1 className="text-lg font-semibold text-navy-900">Import Time Clock Logs</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-error-light border border-error/20 rounded-lg text-error flex items-center gap-2">
+            <AlertCircle size={18} />
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="p-4 bg-success-light border border-success/20 rounded-lg text-success-dark flex items-center gap-2">
+            <CheckCircle size={18} />
+            {success}
+          </div>
+        )}
+
+        {/* Upload */}
+        <div className="bg-white rounded-xl border border-silver-200 p-6">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+              <FileText size={20} className="text-blue-600" />
+            </div>
+            <div>
+              <h2 className="font-semibold text-navy-900">Time Clock Export</h2>
+              <p className="text-sm text-silver-500">
+                Device user IDs are matched to employee codes; times are read in each employee&apos;s timezone
+              </p>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4 items-end">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-navy-700 mb-1">File</label>
+              <input
+                type="file"
+                accept=".csv,.txt,.dat"
+                onChange={(e) => selectFile(e.target.files?.[0] ?? null)}
+                className="w-full px-3 py-2 border border-silver-200 rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-navy-700 mb-1">Format</label>
+              <select
+                value={logFormat}
+                onChange={(e) => {
+                  setLogFormat(e.target.value);
+                  setReport(null);
+                }}
+                className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {FORMAT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={() => upload(true)}
+              disabled={!file || isUploading}
+              className="btn-secondary flex items-center gap-2"
+            >
+              {isUploading ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />}
+              Preview
+            </button>
+            <button
+              onClick={() => upload(false)}
+              disabled={!report?.dryRun || report.summary.toImport === 0 || isUploading}
+              className="btn-primary flex items-center gap-2"
+            >
+              {isUploading ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+              Import {report?.dryRun ? report.summary.toImport : ''} Punches
+            </button>
+          </div>
+        </div>
+
+        {/* Report */}
+        {report && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {[
+                { label: report.dryRun ? 'To Import' : 'Imported', value: report.summary.toImport, className: 'text-success' },
+                { label: 'Duplicates', value: report.summary.duplicates, className: 'text-silver-600' },
+                { label: 'Unknown Employees', value: report.summary.unknownEmployees, className: 'text-warning' },
+                { label: 'Skipped', value: report.summary.skipped, className: 'text-warning' },
+                { label: 'Invalid Lines', value: report.summary.invalid, className: 'text-error' },
+              ].map((stat) => (
+                <div key={stat.label} className="bg-white rounded-xl border border-silver-200 p-4">
+                  <p className="text-sm text-silver-500">{stat.label}</p>
+                  <p className={`text-2xl font-bold mt-1 ${stat.className}`}>{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {report.unknownEmployeeCodes.length > 0 && (
+              <div className="p-4 bg-warning-light border border-warning/20 rounded-lg text-warning-dark text-sm">
+                No employee has these codes: {report.unknownEmployeeCodes.join(', ')}. Add the device ID as
+                the employee code or fix the export, then preview again.
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-silver-200 flex items-center justify-between">
+                <h2 className="font-semibold text-navy-900">
+                  {report.dryRun ? 'Preview' : 'Import Result'}
+                </h2>
+                <span className="text-sm text-silver-500">
+                  {report.summary.totalLines} lines • {report.format.toUpperCase()}
+                </span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-silver-50 text-left text-silver-500">
+                    <tr>
+                      <th className="px-6 py-3 font-medium">Line</th>
+                      <th className="px-6 py-3 font-medium">Employee</th>
+                      <th className="px-6 py-3 font-medium">Day</th>
+                      <th className="px-6 py-3 font-medium">Punch</th>
+                      <th className="px-6 py-3 font-medium">Type</th>
+                      <th className="px-6 py-3 font-medium">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-silver-100">
+                    {report.rows.map((row) => (
+                      <tr key={row.line}>
+                        <td className="px-6 py-3 text-silver-500">{row.line}</td>
+                        <td className="px-6 py-3 text-navy-900">
+                          {row.employeeName || row.employeeCode || (
+                            <span className="font-mono text-xs text-silver-500">{row.raw}</span>
+                          )}
+                          {row.employeeName && <span className="text-silver-500 ml-1">({row.employeeCode})</span>}
+                        </td>
+                        <td className="px-6 py-3 text-navy-700">{row.date || '-'}</td>
+                        <td className="px-6 py-3 text-navy-700">
+                          {row.timestamp ? format(new Date(row.timestamp), 'MMM d, h:mm:ss a') : '-'}
+                        </td>
+                        <td className="px-6 py-3 text-navy-700">
+                          {row.type ? (row.type === 'CheckIn' ? 'Check in' : 'Check out') : '-'}
+                          {row.typeInferred && <span className="text-silver-400 ml-1">(inferred)</span>}
+                        </td>
+                        <td className="px-6 py-3">
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${RESULT_STYLES[row.result].className}`}>
+                            {RESULT_STYLES[row.result].label}
+                          </span>
+                          {row.reason && row.result !== 'Import' && (
+                            <span className="text-silver-500 ml-2">{row.reason}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
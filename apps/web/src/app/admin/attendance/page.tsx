@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, Search, Filter, Clock, MapPin, Coffee, CheckCircle, XCircle } from 'lucide-react';
+import { ArrowLeft, Search, Filter, Clock, MapPin, Coffee, CheckCircle, XCircle, Upload, RefreshCw } from 'lucide-react';
 import { api } from '@/lib/api';
 import { useAuthStore } from '@/store/auth';
 
@@ -120,6 +120,22 @@ export default function AdminAttendancePage() {
               <ArrowLeft size={20} />
             </button>
             <h1 className="text-lg font-semibold text-navy-900">Attendance Overview</h1>
+            <div className="ml-auto flex items-center gap-2">
+              <button
+                onClick={() => router.push('/admin/attendance/recalculate')}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <RefreshCw size={16} />
+                Recalculate Totals
+              </button>
+              <button
+                onClick={() => router.push('/admin/attendance/import')}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <Upload size={16} />
+                Import Time Clock Logs
+              </button>
+            </div>
           </div>
         </div>
       </header>
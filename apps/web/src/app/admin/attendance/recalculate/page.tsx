@@ -0,0 +1,359 @@
+'use client';
+
+/**
+ * Admin Attendance Recalculation Page
+ *
+ * HR/SuperAdmin page for recomputing stored attendance totals after a work
+ * policy or schedule change. Every run is previewed as a dry run first; the
+ * new totals are only saved after confirming. Days in closed payroll
+ * periods are shown but left unchanged.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, RefreshCw, FileText, Loader2, CheckCircle, AlertCircle, Lock } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuthStore } from '@/store/auth';
+
+type Scope = 'Company' | 'Team' | 'Employee';
+
+type TotalField =
+  | 'totalWorkMinutes'
+  | 'totalBreakMinutes'
+  | 'totalLunchMinutes'
+  | 'overtimeMinutes'
+  | 'approvedOvertimeMinutes'
+  | 'isComplete';
+
+interface EmployeeOption {
+  id: string;
+  email: string;
+  role: string;
+  profile?: { firstName: string; lastName: string };
+}
+
+interface RecalculatedDay {
+  attendanceDayId: string;
+  userId: string;
+  employeeCode?: string;
+  employeeName?: string;
+  date: string;
+  locked: boolean;
+  changes: Partial<Record<TotalField, { before: number | boolean; after: number | boolean }>>;
+}
+
+interface RecalculationReport {
+  dryRun: boolean;
+  startDate: string;
+  endDate: string;
+  summary: {
+    employees: number;
+    daysChecked: number;
+    daysChanged: number;
+    lockedDays: number;
+  };
+  days: RecalculatedDay[];
+}
+
+const FIELD_LABELS: Record<TotalField, string> = {
+  totalWorkMinutes: 'Work',
+  totalBreakMinutes: 'Breaks',
+  totalLunchMinutes: 'Lunch',
+  overtimeMinutes: 'Overtime',
+  approvedOvertimeMinutes: 'Approved OT',
+  isComplete: 'Complete',
+};
+
+const formatValue = (value: number | boolean) =>
+  typeof value === 'boolean' ? (value ? 'Yes' : 'No') : `${Math.floor(value / 60)}h ${value % 60}m`;
+
+const employeeName = (employee: EmployeeOption) =>
+  employee.profile ? `${employee.profile.firstName} ${employee.profile.lastName}` : employee.email;
+
+export default function AdminAttendanceRecalculatePage() {
+  const router = useRouter();
+  const { user, _hasHydrated } = useAuthStore();
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [scope, setScope] = useState<Scope>('Company');
+  const [userId, setUserId] = useState('');
+  const [managerId, setManagerId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [report, setReport] = useState<RecalculationReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const isAdmin = user?.role === 'SuperAdmin' || user?.role === 'HR';
+
+  useEffect(() => {
+    if (_hasHydrated && !user) {
+      router.push('/login');
+    } else if (_hasHydrated && user && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [user, router, _hasHydrated, isAdmin]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    api
+      .get<{ data: EmployeeOption[] }>('/users?page=1&limit=100')
+      .then((response) => {
+        if (response.success && response.data) {
+          setEmployees(response.data.data || []);
+        }
+      })
+      .catch((err) => console.error('Failed to fetch employees:', err));
+  }, [isAdmin]);
+
+  // Any change to the inputs invalidates the preview
+  useEffect(() => {
+    setReport(null);
+    setSuccess(null);
+  }, [scope, userId, managerId, startDate, endDate]);
+
+  const run = async (dryRun: boolean) => {
+    setIsRunning(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await api.post<RecalculationReport>(`/attendance/recalculate?dryRun=${dryRun}`, {
+        startDate,
+        endDate,
+        userId: scope === 'Employee' ? userId : undefined,
+        managerId: scope === 'Team' ? managerId : undefined,
+        reason: reason.trim() || undefined,
+      });
+      if (response.success && response.data) {
+        setReport(response.data);
+        if (!dryRun) {
+          const { daysChanged, lockedDays } = response.data.summary;
+          setSuccess(`Updated totals on ${daysChanged - lockedDays} attendance days`);
+        }
+      } else {
+        setError(response.error?.message || 'Failed to recalculate attendance');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const canRun =
+    !!startDate &&
+    !!endDate &&
+    (scope !== 'Employee' || !!userId) &&
+    (scope !== 'Team' || !!managerId);
+  const toApply = report ? report.summary.daysChanged - report.summary.lockedDays : 0;
+
+  if (!_hasHydrated || !user || !isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-silver-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-600 border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <button onClick={() => router.back()} className="p-2 hover:bg-silver-100 rounded-lg">
+              <ArrowLeft size={20} />
+            </button>
+            <h1 className="text-lg font-semibold text-navy-900">Recalculate Attendance Totals</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-error-light border border-error/20 rounded-lg text-error flex items-center gap-2">
+            <AlertCircle size={18} />
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="p-4 bg-success-light border border-success/20 rounded-lg text-success-dark flex items-center gap-2">
+            <CheckCircle size={18} />
+            {success}
+          </div>
+        )}
+
+        {/* Range and scope */}
+        <div className="bg-white rounded-xl border border-silver-200 p-6">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+              <RefreshCw size={20} className="text-blue-600" />
+            </div>
+            <div>
+              <h2 className="font-semibold text-navy-900">Days to Recalculate</h2>
+              <p className="text-sm text-silver-500">
+                Work, break and overtime totals are recomputed with the current work policy and schedules
+              </p>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-navy-700 mb-1">From</label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="input" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-navy-700 mb-1">To</label>
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="input" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-navy-700 mb-1">Scope</label>
+              <select value={scope} onChange={(e) => setScope(e.target.value as Scope)} className="input">
+                <option value="Company">Whole company</option>
+                <option value="Team">A manager&apos;s team</option>
+                <option value="Employee">One employee</option>
+              </select>
+            </div>
+            {scope === 'Employee' && (
+              <div>
+                <label className="block text-sm font-medium text-navy-700 mb-1">Employee</label>
+                <select value={userId} onChange={(e) => setUserId(e.target.value)} className="input">
+                  <option value="">Select employee</option>
+                  {employees.map((employee) => (
+                    <option key={employee.id} value={employee.id}>
+                      {employeeName(employee)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {scope === 'Team' && (
+              <div>
+                <label className="block text-sm font-medium text-navy-700 mb-1">Manager</label>
+                <select value={managerId} onChange={(e) => setManagerId(e.target.value)} className="input">
+                  <option value="">Select manager</option>
+                  {employees
+                    .filter((employee) => employee.role === 'Manager')
+                    .map((employee) => (
+                      <option key={employee.id} value={employee.id}>
+                        {employeeName(employee)}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            )}
+            <div className="md:col-span-4">
+              <label className="block text-sm font-medium text-navy-700 mb-1">Reason (saved in the audit log)</label>
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Overtime threshold changed"
+                className="input"
+                maxLength={500}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={() => run(true)}
+              disabled={!canRun || isRunning}
+              className="btn-secondary flex items-center gap-2"
+            >
+              {isRunning ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />}
+              Preview
+            </button>
+            <button
+              onClick={() => run(false)}
+              disabled={!report?.dryRun || toApply === 0 || isRunning}
+              className="btn-primary flex items-center gap-2"
+            >
+              {isRunning ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+              Update {report?.dryRun ? toApply : ''} Days
+            </button>
+          </div>
+        </div>
+
+        {/* Report */}
+        {report && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Employees', value: report.summary.employees, className: 'text-navy-900' },
+                { label: 'Days Checked', value: report.summary.daysChecked, className: 'text-silver-600' },
+                { label: report.dryRun ? 'Days to Update' : 'Days Updated', value: toApply, className: 'text-success' },
+                { label: 'In Closed Periods', value: report.summary.lockedDays, className: 'text-warning' },
+              ].map((stat) => (
+                <div key={stat.label} className="bg-white rounded-xl border border-silver-200 p-4">
+                  <p className="text-sm text-silver-500">{stat.label}</p>
+                  <p className={`text-2xl font-bold mt-1 ${stat.className}`}>{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {report.summary.lockedDays > 0 && (
+              <div className="p-4 bg-warning-light border border-warning/20 rounded-lg text-warning-dark text-sm">
+                {report.summary.lockedDays} changed days are in closed payroll periods and will not be updated.
+                Record the differences as payroll adjustments instead.
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-silver-200 flex items-center justify-between">
+                <h2 className="font-semibold text-navy-900">{report.dryRun ? 'Preview' : 'Result'}</h2>
+                <span className="text-sm text-silver-500">
+                  {report.startDate} to {report.endDate}
+                </span>
+              </div>
+              {report.days.length === 0 ? (
+                <p className="px-6 py-8 text-center text-silver-500">All stored totals are up to date</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-silver-50 text-left text-silver-500">
+                      <tr>
+                        <th className="px-6 py-3 font-medium">Employee</th>
+                        <th className="px-6 py-3 font-medium">Day</th>
+                        <th className="px-6 py-3 font-medium">Changes</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-silver-100">
+                      {report.days.map((day) => (
+                        <tr key={day.attendanceDayId} className={day.locked ? 'bg-silver-50' : undefined}>
+                          <td className="px-6 py-3 text-navy-900">
+                            {day.employeeName || day.userId}
+                            {day.employeeCode && <span className="text-silver-500 ml-1">({day.employeeCode})</span>}
+                          </td>
+                          <td className="px-6 py-3 text-navy-700">
+                            <span className="flex items-center gap-1">
+                              {day.date}
+                              {day.locked && <Lock size={12} className="text-silver-400" />}
+                            </span>
+                          </td>
+                          <td className="px-6 py-3 text-navy-700">
+                            <div className="flex flex-wrap gap-x-4 gap-y-1">
+                              {(Object.keys(day.changes) as TotalField[]).map((field) => (
+                                <span key={field}>
+                                  <span className="text-silver-500">{FIELD_LABELS[field]}:</span>{' '}
+                                  <span className="line-through text-silver-400">
+                                    {formatValue(day.changes[field]!.before)}
+                                  </span>{' '}
+                                  {formatValue(day.changes[field]!.after)}
+                                </span>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
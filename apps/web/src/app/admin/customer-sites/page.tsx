@@ -0,0 +1,232 @@
+'use client';
+
+/**
+ * Admin Customer Sites Page
+ *
+ * HR/SuperAdmin page for managing the customer sites employees pick when
+ * checking in with the CustomerSite or FieldVisit work mode.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { AnimatePresence } from 'framer-motion';
+import { ArrowLeft, Plus, Building, AlertCircle, BarChart3 } from 'lucide-react';
+import { useAuthStore } from '@/store/auth';
+import { useCustomerSites, useTimesheets, CustomerSite, CustomerSiteInput } from '@/hooks';
+import { CustomerSiteTable } from '@/components/customer-sites/CustomerSiteTable';
+import { CustomerSiteForm } from '@/components/customer-sites/CustomerSiteForm';
+
+type FormMode = 'create' | 'edit' | null;
+
+export default function AdminCustomerSitesPage() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const {
+    sites,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchSites,
+    createSite,
+    updateSite,
+    deleteSite,
+    clearError,
+  } = useCustomerSites();
+  const { projects, fetchProjects } = useTimesheets();
+
+  const [formMode, setFormMode] = useState<FormMode>(null);
+  const [editSite, setEditSite] = useState<CustomerSite | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+
+  const isAdmin = user?.role === 'SuperAdmin' || user?.role === 'HR';
+
+  // Check admin access
+  useEffect(() => {
+    if (user && !isAdmin) {
+      router.replace('/dashboard');
+    }
+  }, [user, isAdmin, router]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  // Fetch sites on mount and when filter changes
+  useEffect(() => {
+    fetchSites(showInactive);
+  }, [fetchSites, showInactive]);
+
+  // Clear error when opening form
+  useEffect(() => {
+    if (formMode) {
+      clearError();
+    }
+  }, [formMode, clearError]);
+
+  const handleOpenCreate = useCallback(() => {
+    setEditSite(null);
+    setFormMode('create');
+  }, []);
+
+  const handleOpenEdit = useCallback((site: CustomerSite) => {
+    setEditSite(site);
+    setFormMode('edit');
+  }, []);
+
+  const handleCloseForm = useCallback(() => {
+    setFormMode(null);
+    setEditSite(null);
+  }, []);
+
+  const handleSubmit = useCallback(async (data: CustomerSiteInput): Promise<boolean> => {
+    let success = false;
+
+    if (formMode === 'create') {
+      success = await createSite(data);
+    } else if (formMode === 'edit' && editSite) {
+      success = await updateSite(editSite.id, data);
+    }
+
+    if (success) {
+      handleCloseForm();
+      await fetchSites(showInactive);
+    }
+
+    return success;
+  }, [formMode, editSite, createSite, updateSite, fetchSites, showInactive, handleCloseForm]);
+
+  const handleDelete = useCallback(async (site: CustomerSite) => {
+    const success = await deleteSite(site.id);
+    if (success) {
+      await fetchSites(showInactive);
+    }
+  }, [deleteSite, fetchSites, showInactive]);
+
+  const handleReactivate = useCallback(async (site: CustomerSite) => {
+    const success = await updateSite(site.id, { isActive: true });
+    if (success) {
+      await fetchSites(showInactive);
+    }
+  }, [updateSite, fetchSites, showInactive]);
+
+  // Don't render for non-admins
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      {/* Header */}
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.back()}
+                className="p-2 hover:bg-silver-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft size={20} />
+              </button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-blue-50 rounded-lg">
+                  <Building size={20} className="text-blue-600" />
+                </div>
+                <h1 className="text-lg font-semibold text-navy-900">Customer Sites</h1>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Link
+                href="/reports/site-visits"
+                className="px-4 py-2 text-sm font-medium text-navy-900 border border-silver-200 rounded-lg hover:bg-silver-50 transition-colors flex items-center gap-2"
+              >
+                <BarChart3 size={16} />
+                Site Visits
+              </Link>
+              <button
+                onClick={handleOpenCreate}
+                className="btn-primary flex items-center gap-2"
+              >
+                <Plus size={18} />
+                Add Site
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Error banner */}
+        {error && !formMode && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+            <AlertCircle size={20} className="text-red-600 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+            <button
+              onClick={clearError}
+              className="ml-auto text-red-600 hover:text-red-800 text-sm font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Filters and stats */}
+        <div className="mb-6 flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-silver-600">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+              className="rounded border-silver-300 text-blue-600 focus:ring-blue-500"
+            />
+            Show inactive sites
+          </label>
+          <p className="text-sm text-silver-500">
+            {sites.filter((s) => s.isActive).length} active sites
+            {showInactive && sites.some((s) => !s.isActive) && (
+              <span> ({sites.filter((s) => !s.isActive).length} inactive)</span>
+            )}
+          </p>
+        </div>
+
+        {/* Sites table */}
+        <CustomerSiteTable
+          sites={sites}
+          isLoading={isLoading}
+          onEdit={handleOpenEdit}
+          onDelete={handleDelete}
+          onReactivate={handleReactivate}
+        />
+
+        {/* Info card */}
+        <div className="mt-8 p-4 bg-blue-50 border border-blue-200 rounded-xl">
+          <h3 className="font-medium text-blue-900 mb-2">About Customer Sites</h3>
+          <p className="text-sm text-blue-700">
+            Employees checking in with the Customer Site or Field Visit work mode pick one of these
+            sites. Each check-in opens a visit that closes at check-out, and employees can attach a
+            photo from the mobile app as proof of presence.
+          </p>
+          <p className="text-sm text-blue-700 mt-2">
+            Link a site to a project to bill the client for time on site. Check-ins farther than
+            the site radius are still recorded but shown as off site in visit reports.
+          </p>
+        </div>
+      </main>
+
+      {/* Site Form Modal */}
+      <AnimatePresence>
+        {formMode && (
+          <CustomerSiteForm
+            mode={formMode}
+            initialData={editSite || undefined}
+            projects={projects}
+            isLoading={isActionLoading}
+            onSubmit={handleSubmit}
+            onCancel={handleCloseForm}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
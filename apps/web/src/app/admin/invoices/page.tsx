@@ -0,0 +1,483 @@
+'use client';
+
+/**
+ * Admin Invoices Page
+ *
+ * SuperAdmin page for client billing. Generates draft invoices from approved
+ * billable time and project expenses for a period, and issues, voids or
+ * deletes them. Invoices export as PDF or CSV.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, AlertCircle, Download, FileText, Loader2, Receipt, Send, Trash2, X, XCircle } from 'lucide-react';
+import { api } from '@/lib/api';
+import { downloadCsv } from '@/lib/csv';
+import { useAuthStore } from '@/store/auth';
+import { useInvoices, Invoice, InvoiceStatus } from '@/hooks';
+import { PdfExportButton, generateInvoicePdf } from '@/components/reports/pdf';
+
+interface ProjectOption {
+  id: string;
+  name: string;
+  code: string;
+}
+
+const formatDate = (value: string) => format(parseISO(value.slice(0, 10)), 'MMM d, yyyy');
+const formatAmount = (value: string | number) =>
+  Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  Draft: 'bg-silver-100 text-silver-700',
+  Issued: 'bg-success-light text-success',
+  Void: 'bg-error-light text-error',
+};
+
+function exportPdf(invoice: Invoice) {
+  generateInvoicePdf({
+    number: invoice.number,
+    status: invoice.status,
+    projectName: `${invoice.project.name} (${invoice.project.code})`,
+    period: `${formatDate(invoice.periodStart)} – ${formatDate(invoice.periodEnd)}`,
+    issuedAt: invoice.issuedAt ? formatDate(invoice.issuedAt) : undefined,
+    dueDate: invoice.dueDate ? formatDate(invoice.dueDate) : undefined,
+    clientName: invoice.clientName ?? undefined,
+    clientEmail: invoice.clientEmail ?? undefined,
+    clientAddress: invoice.clientAddress ?? undefined,
+    currency: invoice.currency,
+    subtotal: formatAmount(invoice.subtotal),
+    notes: invoice.notes ?? undefined,
+    lines: (invoice.lines ?? []).map((line) => ({
+      description: line.description,
+      quantity: Number(line.quantity).toFixed(2),
+      unitPrice: formatAmount(line.unitPrice),
+      amount: formatAmount(line.amount),
+    })),
+  });
+}
+
+function exportCsv(invoice: Invoice) {
+  downloadCsv(`${invoice.number}.csv`, [
+    ['Invoice', 'Client', 'Project', 'Period Start', 'Period End', 'Type', 'Description', 'Quantity', 'Unit Price', 'Amount', 'Currency'],
+    ...(invoice.lines ?? []).map((line) => [
+      invoice.number,
+      invoice.clientName,
+      invoice.project.name,
+      invoice.periodStart.slice(0, 10),
+      invoice.periodEnd.slice(0, 10),
+      line.type,
+      line.description,
+      Number(line.quantity).toFixed(2),
+      Number(line.unitPrice).toFixed(2),
+      Number(line.amount).toFixed(2),
+      invoice.currency,
+    ]),
+  ]);
+}
+
+export default function AdminInvoicesPage() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const {
+    invoices,
+    invoice,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchInvoices,
+    fetchInvoice,
+    closeInvoice,
+    generateInvoices,
+    updateInvoice,
+    issueInvoice,
+    voidInvoice,
+    deleteInvoice,
+    clearError,
+  } = useInvoices();
+
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | ''>('');
+
+  // Generate form
+  const [periodStart, setPeriodStart] = useState('');
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [projectId, setProjectId] = useState('');
+
+  // Draft being edited
+  const [notes, setNotes] = useState('');
+  const [dueDate, setDueDate] = useState('');
+
+  // Check admin access
+  useEffect(() => {
+    if (user && user.role !== 'SuperAdmin') {
+      router.replace('/dashboard');
+    }
+  }, [user, router]);
+
+  useEffect(() => {
+    if (user?.role !== 'SuperAdmin') return;
+
+    api
+      .get<ProjectOption[]>('/admin/projects?includeInactive=true')
+      .then((response) => {
+        if (response.success && response.data) {
+          setProjects(response.data);
+        }
+      })
+      .catch((err) => console.error('Failed to fetch projects:', err));
+  }, [user]);
+
+  useEffect(() => {
+    if (user?.role === 'SuperAdmin') {
+      fetchInvoices({ status: statusFilter || undefined });
+    }
+  }, [user, statusFilter, fetchInvoices]);
+
+  // Fill the draft form from the open invoice
+  useEffect(() => {
+    setNotes(invoice?.notes ?? '');
+    setDueDate(invoice?.dueDate?.slice(0, 10) ?? '');
+  }, [invoice]);
+
+  const handleGenerate = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await generateInvoices({
+      periodStart,
+      periodEnd,
+      projectIds: projectId ? [projectId] : undefined,
+    });
+    if (result) {
+      setNotice(
+        (result.invoices.length === 0
+          ? 'Nothing to invoice: no approved, billable and unbilled items in this period.'
+          : `${result.invoices.length} draft invoice(s) created.`) +
+          (result.skippedExpenses > 0
+            ? ` ${result.skippedExpenses} expense(s) were left out because they are not in the project's currency.`
+            : '')
+      );
+    }
+  }, [generateInvoices, periodStart, periodEnd, projectId]);
+
+  const handleSaveDraft = useCallback(async () => {
+    if (!invoice) return;
+    await updateInvoice(invoice.id, { notes: notes.trim() || null, dueDate: dueDate || null });
+  }, [invoice, notes, dueDate, updateInvoice]);
+
+  const handleIssue = useCallback(async () => {
+    if (!invoice) return;
+    if (!confirm(`Issue ${invoice.number}? It can no longer be edited or deleted.`)) return;
+    if (await issueInvoice(invoice.id, dueDate || undefined)) {
+      setNotice(`${invoice.number} issued.`);
+    }
+  }, [invoice, dueDate, issueInvoice]);
+
+  const handleVoid = useCallback(async () => {
+    if (!invoice) return;
+    const reason = prompt(`Why is ${invoice.number} being voided? Its time and expenses can then be billed again.`);
+    if (!reason) return;
+    if (await voidInvoice(invoice.id, reason)) {
+      setNotice(`${invoice.number} voided.`);
+    }
+  }, [invoice, voidInvoice]);
+
+  const handleDelete = useCallback(async () => {
+    if (!invoice) return;
+    if (!confirm(`Delete draft ${invoice.number}? Its time and expenses can then be billed again.`)) return;
+    if (await deleteInvoice(invoice.id)) {
+      setNotice(`${invoice.number} deleted.`);
+    }
+  }, [invoice, deleteInvoice]);
+
+  if (user?.role !== 'SuperAdmin') {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      {/* Header */}
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.back()}
+                className="p-2 hover:bg-silver-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft size={20} />
+              </button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-blue-50 rounded-lg">
+                  <Receipt size={20} className="text-blue-600" />
+                </div>
+                <h1 className="text-lg font-semibold text-navy-900">Invoices</h1>
+              </div>
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as InvoiceStatus | '')}
+              className="px-3 py-2 border border-silver-200 rounded-lg text-sm"
+            >
+              <option value="">All statuses</option>
+              <option value="Draft">Draft</option>
+              <option value="Issued">Issued</option>
+              <option value="Void">Void</option>
+            </select>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Error banner */}
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+            <AlertCircle size={20} className="text-red-600 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+            <button
+              onClick={clearError}
+              className="ml-auto text-red-600 hover:text-red-800 text-sm font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-xl flex items-center gap-3">
+            <p className="text-blue-700">{notice}</p>
+            <button
+              onClick={() => setNotice(null)}
+              className="ml-auto text-blue-600 hover:text-blue-800 text-sm font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Generate drafts */}
+        <form
+          onSubmit={handleGenerate}
+          className="bg-white rounded-xl border border-silver-200 p-6 grid md:grid-cols-4 gap-4 items-end"
+        >
+          <div>
+            <label className="block text-sm font-medium text-navy-700 mb-1.5">From</label>
+            <input type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} className="input" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-navy-700 mb-1.5">To</label>
+            <input type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} className="input" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-navy-700 mb-1.5">Project</label>
+            <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className="input">
+              <option value="">All projects</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name} ({project.code})
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={isActionLoading}
+            className="btn-primary flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />}
+            Generate Drafts
+          </button>
+        </form>
+
+        {/* Open invoice */}
+        {invoice && (
+          <div className="bg-white rounded-xl border border-silver-200 p-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h2 className="text-lg font-semibold text-navy-900">{invoice.number}</h2>
+                  <span className={`px-2 py-1 text-xs rounded-full ${STATUS_STYLES[invoice.status]}`}>
+                    {invoice.status}
+                  </span>
+                </div>
+                <p className="text-sm text-silver-500">
+                  {invoice.project.name} • {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}
+                </p>
+                <p className="text-sm text-silver-600 mt-1">
+                  {invoice.clientName ?? 'No client set on the project'}
+                  {invoice.clientEmail && ` • ${invoice.clientEmail}`}
+                </p>
+              </div>
+              <button onClick={closeInvoice} className="p-1.5 hover:bg-silver-100 rounded text-silver-500">
+                <X size={18} />
+              </button>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead className="bg-silver-50 text-silver-500">
+                <tr>
+                  <th className="text-left font-medium px-4 py-2">Description</th>
+                  <th className="text-right font-medium px-4 py-2">Qty</th>
+                  <th className="text-right font-medium px-4 py-2">Unit Price</th>
+                  <th className="text-right font-medium px-4 py-2">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-silver-100">
+                {(invoice.lines ?? []).map((line) => (
+                  <tr key={line.id}>
+                    <td className="px-4 py-2 text-navy-900">{line.description}</td>
+                    <td className="px-4 py-2 text-right text-silver-600">
+                      {Number(line.quantity).toFixed(2)}
+                      {line.type === 'Time' && 'h'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-silver-600">{formatAmount(line.unitPrice)}</td>
+                    <td className="px-4 py-2 text-right text-navy-900">{formatAmount(line.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t border-silver-200">
+                  <td colSpan={3} className="px-4 py-2 text-right font-medium text-navy-900">Total</td>
+                  <td className="px-4 py-2 text-right font-semibold text-navy-900">
+                    {formatAmount(invoice.subtotal)} {invoice.currency}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+
+            {invoice.status === 'Draft' ? (
+              <div className="grid md:grid-cols-4 gap-4 items-end">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-navy-700 mb-1.5">Notes</label>
+                  <input
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Payment terms, PO number..."
+                    className="input"
+                    maxLength={1000}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1.5">Due date</label>
+                  <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className="input" />
+                </div>
+                <button
+                  onClick={handleSaveDraft}
+                  disabled={isActionLoading}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  Save Draft
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-silver-600">
+                {invoice.issuedAt && `Issued ${formatDate(invoice.issuedAt)}`}
+                {invoice.dueDate && ` • Due ${formatDate(invoice.dueDate)}`}
+                {invoice.notes && ` • ${invoice.notes}`}
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <button
+                onClick={() => exportCsv(invoice)}
+                className="flex items-center gap-2 px-4 py-2 border border-silver-200 rounded-lg hover:bg-silver-50"
+              >
+                <Download size={18} />
+                Export CSV
+              </button>
+              <PdfExportButton onExport={() => exportPdf(invoice)} />
+              {invoice.status === 'Draft' && (
+                <>
+                  <button
+                    onClick={handleDelete}
+                    disabled={isActionLoading}
+                    className="flex items-center gap-2 px-4 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <Trash2 size={18} />
+                    Delete
+                  </button>
+                  <button
+                    onClick={handleIssue}
+                    disabled={isActionLoading || (invoice.lines ?? []).length === 0}
+                    className="btn-primary flex items-center gap-2 disabled:opacity-50"
+                  >
+                    <Send size={18} />
+                    Issue
+                  </button>
+                </>
+              )}
+              {invoice.status === 'Issued' && (
+                <button
+                  onClick={handleVoid}
+                  disabled={isActionLoading}
+                  className="flex items-center gap-2 px-4 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                >
+                  <XCircle size={18} />
+                  Void
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Invoices */}
+        <div className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent" />
+            </div>
+          ) : invoices.length === 0 ? (
+            <div className="p-12 text-center">
+              <Receipt size={48} className="mx-auto text-silver-300 mb-4" />
+              <p className="text-silver-500">No invoices yet</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-silver-50 border-b border-silver-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Invoice</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Client</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Period</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-silver-500 uppercase">Amount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-silver-100">
+                {invoices.map((item) => (
+                  <tr
+                    key={item.id}
+                    onClick={() => fetchInvoice(item.id)}
+                    className={`cursor-pointer hover:bg-silver-50 ${invoice?.id === item.id ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-navy-900">{item.number}</p>
+                      <p className="text-sm text-silver-500">{item.project.name}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-silver-600">{item.clientName ?? '—'}</td>
+                    <td className="px-6 py-4 text-sm text-silver-600">
+                      {formatDate(item.periodStart)} – {formatDate(item.periodEnd)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-right text-navy-900">
+                      {formatAmount(item.subtotal)} {item.currency}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 text-xs rounded-full ${STATUS_STYLES[item.status]}`}>
+                        {item.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <p className="text-sm text-silver-500">
+          Drafts bill approved, billable timesheet hours at each project&apos;s rate card, plus approved project
+          expenses in the project&apos;s currency. Billed items are not picked up again unless their draft is
+          deleted or the issued invoice is voided.
+        </p>
+      </main>
+    </div>
+  );
+}
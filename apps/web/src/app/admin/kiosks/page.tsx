@@ -0,0 +1,301 @@
+'use client';
+
+/**
+ * Admin Kiosks Page
+ *
+ * HR/SuperAdmin page for registering shared check-in kiosks. Each kiosk is
+ * locked to one office location; its device token is shown once and pasted
+ * into the kiosk browser at /kiosk.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { ArrowLeft, Plus, Tablet, AlertCircle, Copy, Check, Loader2, Power } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuthStore } from '@/store/auth';
+import { useKioskDevices, RegisteredKioskDevice } from '@/hooks';
+
+interface OfficeLocationOption {
+  id: string;
+  name: string;
+}
+
+export default function AdminKiosksPage() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const {
+    devices,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchDevices,
+    createDevice,
+    deactivateDevice,
+    clearError,
+  } = useKioskDevices();
+
+  const [locations, setLocations] = useState<OfficeLocationOption[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [officeLocationId, setOfficeLocationId] = useState('');
+  const [registered, setRegistered] = useState<RegisteredKioskDevice | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const isAdmin = user?.role === 'SuperAdmin' || user?.role === 'HR';
+
+  // Check admin access
+  useEffect(() => {
+    if (user && !isAdmin) {
+      router.replace('/dashboard');
+    }
+  }, [user, isAdmin, router]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    fetchDevices();
+    api.get<OfficeLocationOption[]>('/admin/office-locations').then((response) => {
+      if (response.success && response.data) {
+        setLocations(response.data);
+      }
+    });
+  }, [isAdmin, fetchDevices]);
+
+  const handleCreate = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await createDevice({ name: name.trim(), officeLocationId });
+    if (result) {
+      setRegistered(result);
+      setCopied(false);
+      setShowForm(false);
+      setName('');
+      setOfficeLocationId('');
+      await fetchDevices();
+    }
+  }, [createDevice, name, officeLocationId, fetchDevices]);
+
+  const handleDeactivate = useCallback(async (id: string, deviceName: string) => {
+    if (!confirm(`Deactivate "${deviceName}"? The kiosk will stop accepting punches immediately.`)) return;
+    await deactivateDevice(id);
+  }, [deactivateDevice]);
+
+  const handleCopy = useCallback(async () => {
+    if (!registered) return;
+    await navigator.clipboard.writeText(registered.token);
+    setCopied(true);
+  }, [registered]);
+
+  // Don't render for non-admins
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      {/* Header */}
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.back()}
+                className="p-2 hover:bg-silver-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft size={20} />
+              </button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-blue-50 rounded-lg">
+                  <Tablet size={20} className="text-blue-600" />
+                </div>
+                <h1 className="text-lg font-semibold text-navy-900">Check-in Kiosks</h1>
+              </div>
+            </div>
+            <button
+              onClick={() => {
+                clearError();
+                setShowForm(true);
+              }}
+              className="btn-primary flex items-center gap-2"
+            >
+              <Plus size={18} />
+              Register Kiosk
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Error banner */}
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+            <AlertCircle size={20} className="text-red-600 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+            <button
+              onClick={clearError}
+              className="ml-auto text-red-600 hover:text-red-800 text-sm font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Token shown once after registration */}
+        {registered && (
+          <div className="p-4 bg-success-light border border-success/20 rounded-xl">
+            <h3 className="font-medium text-navy-900">
+              {registered.name} registered for {registered.officeLocation.name}
+            </h3>
+            <p className="text-sm text-silver-600 mt-1">
+              Open <span className="font-mono">/kiosk</span> on the kiosk and enter this token. It
+              will not be shown again.
+            </p>
+            <div className="mt-3 flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 bg-white border border-silver-200 rounded-lg text-sm break-all">
+                {registered.token}
+              </code>
+              <button
+                onClick={handleCopy}
+                className="p-2 border border-silver-200 bg-white rounded-lg hover:bg-silver-50"
+                title="Copy token"
+              >
+                {copied ? <Check size={18} className="text-success" /> : <Copy size={18} />}
+              </button>
+            </div>
+            <button
+              onClick={() => setRegistered(null)}
+              className="mt-3 text-sm text-silver-600 hover:text-navy-900"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        {/* Registration form */}
+        {showForm && (
+          <form
+            onSubmit={handleCreate}
+            className="bg-white rounded-xl border border-silver-200 p-6 grid md:grid-cols-3 gap-4 items-end"
+          >
+            <div>
+              <label className="block text-sm font-medium text-navy-700 mb-1.5">Kiosk name</label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Reception tablet"
+                className="input"
+                maxLength={100}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-navy-700 mb-1.5">Office location</label>
+              <select
+                value={officeLocationId}
+                onChange={(e) => setOfficeLocationId(e.target.value)}
+                className="input"
+                required
+              >
+                <option value="">Select location</option>
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-silver-200 rounded-lg hover:bg-silver-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isActionLoading}
+                className="btn-primary flex items-center gap-2 disabled:opacity-50"
+              >
+                {isActionLoading && <Loader2 size={16} className="animate-spin" />}
+                Register
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Kiosk list */}
+        <div className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent" />
+            </div>
+          ) : devices.length === 0 ? (
+            <div className="p-12 text-center">
+              <Tablet size={48} className="mx-auto text-silver-300 mb-4" />
+              <p className="text-silver-500">No kiosks registered</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-silver-50 border-b border-silver-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Kiosk</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Location</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Last seen</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Status</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-silver-100">
+                {devices.map((device) => (
+                  <tr key={device.id}>
+                    <td className="px-6 py-4 font-medium text-navy-900">{device.name}</td>
+                    <td className="px-6 py-4 text-silver-600">{device.officeLocation.name}</td>
+                    <td className="px-6 py-4 text-silver-600">
+                      {device.lastSeenAt
+                        ? formatDistanceToNow(parseISO(device.lastSeenAt), { addSuffix: true })
+                        : 'Never'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full ${
+                          device.isActive
+                            ? 'bg-success-light text-success'
+                            : 'bg-silver-100 text-silver-600'
+                        }`}
+                      >
+                        {device.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {device.isActive && (
+                        <button
+                          onClick={() => handleDeactivate(device.id, device.name)}
+                          disabled={isActionLoading}
+                          className="p-2 hover:bg-error-light rounded-lg text-error disabled:opacity-50"
+                          title="Deactivate kiosk"
+                        >
+                          <Power size={16} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Info card */}
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-xl">
+          <h3 className="font-medium text-blue-900 mb-2">About Kiosks</h3>
+          <p className="text-sm text-blue-700">
+            A kiosk lets staff without company phones check in and out, and take breaks, on a shared
+            tablet or PC. Employees enter their employee code and kiosk PIN; every punch is recorded
+            at the kiosk&apos;s office location as kiosk verified. Set or reset an employee&apos;s
+            PIN from User Management.
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * Lobby QR Display Page
+ *
+ * Full-screen display of the rotating check-in QR code for an office
+ * location. Intended to run on a lobby screen; employees scan the code
+ * from the mobile check-in modal.
+ */
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { QRCodeSVG } from 'qrcode.react';
+import { ArrowLeft, AlertCircle, QrCode } from 'lucide-react';
+import { useAuthStore } from '@/store/auth';
+import { useCheckInQrCode } from '@/hooks';
+
+export default function LobbyQrPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const { user } = useAuthStore();
+  const { data: qrCode, error, isLoading } = useCheckInQrCode(params?.id);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  const isAllowed = user?.role === 'SuperAdmin' || user?.role === 'HR';
+
+  // Check admin access
+  useEffect(() => {
+    if (user && !isAllowed) {
+      router.replace('/dashboard');
+    }
+  }, [user, isAllowed, router]);
+
+  // Countdown until the current code rotates
+  useEffect(() => {
+    if (!qrCode) return;
+    const tick = () => {
+      const remaining = Math.ceil((new Date(qrCode.expiresAt).getTime() - Date.now()) / 1000);
+      setSecondsLeft(Math.max(remaining, 0));
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [qrCode]);
+
+  if (!isAllowed) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-navy-900 flex flex-col items-center justify-center p-8 relative">
+      <button
+        onClick={() => router.back()}
+        className="absolute top-6 left-6 p-2 text-silver-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+      >
+        <ArrowLeft size={20} />
+      </button>
+
+      {isLoading && (
+        <div className="w-80 h-80 bg-white/10 rounded-3xl animate-pulse" />
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3 max-w-md">
+          <AlertCircle size={20} className="text-red-600 flex-shrink-0" />
+          <p className="text-red-700">{(error as Error).message}</p>
+        </div>
+      )}
+
+      {qrCode && (
+        <>
+          <div className="flex items-center gap-3 mb-8">
+            <div className="p-2 bg-blue-500/20 rounded-lg">
+              <QrCode size={24} className="text-blue-300" />
+            </div>
+            <h1 className="text-3xl font-semibold text-white">{qrCode.locationName}</h1>
+          </div>
+
+          <div className="bg-white p-8 rounded-3xl shadow-2xl">
+            <QRCodeSVG value={qrCode.token} size={320} level="M" />
+          </div>
+
+          <p className="mt-8 text-xl text-silver-200">
+            Scan with the Satcom app to check in
+          </p>
+          <p className="mt-2 text-sm text-silver-400">
+            Code refreshes in {secondsLeft}s
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
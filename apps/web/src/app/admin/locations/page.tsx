@@ -96,6 +96,15 @@ export default function AdminLocationsPage() {
     }
   }, [deleteLocation, fetchLocations, showInactive]);
 
+  const handleToggleQrCheckIn = useCallback(async (location: OfficeLocation) => {
+    const success = await updateLocation(location.id, {
+      qrCheckInEnabled: !location.qrCheckInEnabled,
+    });
+    if (success) {
+      await fetchLocations(showInactive);
+    }
+  }, [updateLocation, fetchLocations, showInactive]);
+
   // Don't render for non-SuperAdmin
   if (user?.role !== 'SuperAdmin') {
     return null;
@@ -173,6 +182,7 @@ export default function AdminLocationsPage() {
           isLoading={isLoading}
           onEdit={handleOpenEdit}
           onDelete={handleDelete}
+          onToggleQrCheckIn={handleToggleQrCheckIn}
         />
 
         {/* Info card */}
@@ -184,6 +194,11 @@ export default function AdminLocationsPage() {
             radius of active office locations. If they&apos;re outside all valid zones, the system
             flags the check-in for review.
           </p>
+          <p className="text-sm text-blue-700 mt-2">
+            In buildings where GPS is unreliable, enable QR check-in for a location and open its
+            lobby display. The code rotates every few seconds and employees scan it from the
+            mobile app as a second verification factor.
+          </p>
         </div>
       </main>
 
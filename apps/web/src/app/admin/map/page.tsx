@@ -2,7 +2,7 @@
  * Admin Map Page
  *
  * SuperAdmin-only view showing all users' check-in locations on an interactive map.
- * Displays office geofence circles and provides date filtering.
+ * Displays office geofences (circles and drawn zones) and provides date filtering.
  */
 
 'use client';
@@ -253,6 +253,14 @@ export default function AdminMapPage() {
                 latitude: Number(o.latitude),
                 longitude: Number(o.longitude),
                 radiusMeters: o.radiusMeters,
+                zones: o.zones?.map((zone) => ({
+                  name: zone.name,
+                  shape: zone.shape,
+                  latitude: zone.latitude != null ? Number(zone.latitude) : undefined,
+                  longitude: zone.longitude != null ? Number(zone.longitude) : undefined,
+                  radiusMeters: zone.radiusMeters ?? undefined,
+                  polygon: zone.polygon ?? undefined,
+                })),
               }))}
             />
           )}
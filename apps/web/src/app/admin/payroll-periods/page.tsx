@@ -0,0 +1,428 @@
+'use client';
+
+/**
+ * Admin Payroll Periods Page
+ *
+ * HR/SuperAdmin page for closing paid periods and recording adjustments to
+ * closed days. Attendance, timesheets and leave in a closed period are
+ * read-only; adjustments are paid in the next open period.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Lock, Unlock, AlertCircle, Plus, Loader2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuthStore } from '@/store/auth';
+import { usePayrollPeriods, PeriodAdjustment, PeriodAdjustmentType } from '@/hooks';
+
+interface EmployeeOption {
+  id: string;
+  email: string;
+  profile?: { firstName: string; lastName: string };
+}
+
+const formatDate = (value: string) => format(parseISO(value.slice(0, 10)), 'MMM d, yyyy');
+
+function describeAdjustment(adjustment: PeriodAdjustment) {
+  if (adjustment.type === 'Leave') {
+    const days = Number(adjustment.days);
+    return `${days > 0 ? '+' : ''}${days} leave day${Math.abs(days) === 1 ? '' : 's'}`;
+  }
+  const minutes = adjustment.minutes ?? 0;
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? '-' : '+'}${Math.floor(abs / 60)}h ${abs % 60}m`;
+}
+
+export default function AdminPayrollPeriodsPage() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const {
+    periods,
+    adjustments,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchPeriods,
+    fetchAdjustments,
+    closePeriod,
+    reopenPeriod,
+    createAdjustment,
+    clearError,
+  } = usePayrollPeriods();
+
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Close period form
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [label, setLabel] = useState('');
+
+  // Adjustment form
+  const [showAdjustmentForm, setShowAdjustmentForm] = useState(false);
+  const [adjUserId, setAdjUserId] = useState('');
+  const [adjDate, setAdjDate] = useState('');
+  const [adjType, setAdjType] = useState<PeriodAdjustmentType>('Attendance');
+  const [adjAmount, setAdjAmount] = useState('');
+  const [adjReason, setAdjReason] = useState('');
+
+  const isAdmin = user?.role === 'SuperAdmin' || user?.role === 'HR';
+
+  // Check admin access
+  useEffect(() => {
+    if (user && !isAdmin) {
+      router.replace('/dashboard');
+    }
+  }, [user, isAdmin, router]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    fetchPeriods();
+    fetchAdjustments();
+
+    api
+      .get<{ data: EmployeeOption[] }>('/users?page=1&limit=100')
+      .then((response) => {
+        if (response.success && response.data) {
+          setEmployees(response.data.data || []);
+        }
+      })
+      .catch((err) => console.error('Failed to fetch employees:', err));
+  }, [isAdmin, fetchPeriods, fetchAdjustments]);
+
+  const handleClose = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm('Close this period? Attendance, timesheets and leave in it become read-only.')) return;
+
+    const result = await closePeriod({ startDate, endDate, label: label.trim() || undefined });
+    if (result) {
+      const { regularizations, overtimeRequests, leaveRequests } = result.pendingRequests;
+      const pending = regularizations + overtimeRequests + leaveRequests;
+      setNotice(
+        pending > 0
+          ? `Period closed. ${pending} request(s) were still pending in it (${regularizations} regularization, ${overtimeRequests} overtime, ${leaveRequests} leave) and can no longer be approved.`
+          : 'Period closed.'
+      );
+      setStartDate('');
+      setEndDate('');
+      setLabel('');
+      await fetchPeriods();
+    }
+  }, [closePeriod, startDate, endDate, label, fetchPeriods]);
+
+  const handleReopen = useCallback(async (id: string) => {
+    const reason = prompt('Why does this period need to be reopened?');
+    if (!reason) return;
+    if (await reopenPeriod(id, reason)) {
+      setNotice('Period reopened.');
+      await fetchPeriods();
+    }
+  }, [reopenPeriod, fetchPeriods]);
+
+  const handleCreateAdjustment = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(adjAmount);
+    const success = await createAdjustment({
+      userId: adjUserId,
+      date: adjDate,
+      type: adjType,
+      ...(adjType === 'Leave' ? { days: amount } : { minutes: Math.round(amount * 60) }),
+      reason: adjReason,
+    });
+    if (success) {
+      setShowAdjustmentForm(false);
+      setAdjUserId('');
+      setAdjDate('');
+      setAdjAmount('');
+      setAdjReason('');
+      await Promise.all([fetchAdjustments(), fetchPeriods()]);
+    }
+  }, [createAdjustment, adjUserId, adjDate, adjType, adjAmount, adjReason, fetchAdjustments, fetchPeriods]);
+
+  // Don't render for non-admins
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      {/* Header */}
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.back()}
+                className="p-2 hover:bg-silver-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft size={20} />
+              </button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-blue-50 rounded-lg">
+                  <Lock size={20} className="text-blue-600" />
+                </div>
+                <h1 className="text-lg font-semibold text-navy-900">Payroll Periods</h1>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Error banner */}
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+            <AlertCircle size={20} className="text-red-600 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+            <button
+              onClick={clearError}
+              className="ml-auto text-red-600 hover:text-red-800 text-sm font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-xl flex items-center gap-3">
+            <p className="text-blue-700">{notice}</p>
+            <button
+              onClick={() => setNotice(null)}
+              className="ml-auto text-blue-600 hover:text-blue-800 text-sm font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Close a period */}
+        <form
+          onSubmit={handleClose}
+          className="bg-white rounded-xl border border-silver-200 p-6 grid md:grid-cols-4 gap-4 items-end"
+        >
+          <div>
+            <label className="block text-sm font-medium text-navy-700 mb-1.5">From</label>
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="input" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-navy-700 mb-1.5">To</label>
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="input" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-navy-700 mb-1.5">Label</label>
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="January 2026 payroll"
+              className="input"
+              maxLength={100}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isActionLoading}
+            className="btn-primary flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <Lock size={16} />}
+            Close Period
+          </button>
+        </form>
+
+        {/* Periods */}
+        <div className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent" />
+            </div>
+          ) : periods.length === 0 ? (
+            <div className="p-12 text-center">
+              <Lock size={48} className="mx-auto text-silver-300 mb-4" />
+              <p className="text-silver-500">No periods closed yet</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-silver-50 border-b border-silver-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Period</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Closed</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Adjustments</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-silver-500 uppercase">Status</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-silver-100">
+                {periods.map((period) => (
+                  <tr key={period.id}>
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-navy-900">{period.label ?? 'Payroll period'}</p>
+                      <p className="text-sm text-silver-500">
+                        {formatDate(period.startDate)} – {formatDate(period.endDate)}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-silver-600">
+                      {format(parseISO(period.closedAt), 'MMM d, yyyy')}
+                      {period.closer.profile && ` by ${period.closer.profile.firstName} ${period.closer.profile.lastName}`}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-silver-600">{period._count.adjustments}</td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full ${
+                          period.status === 'Closed'
+                            ? 'bg-silver-100 text-silver-700'
+                            : 'bg-warning-light text-warning'
+                        }`}
+                        title={period.reopenReason ?? undefined}
+                      >
+                        {period.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {period.status === 'Closed' && (
+                        <button
+                          onClick={() => handleReopen(period.id)}
+                          disabled={isActionLoading}
+                          className="px-3 py-1.5 text-sm border border-silver-200 rounded-lg hover:bg-silver-50 disabled:opacity-50 inline-flex items-center gap-1"
+                        >
+                          <Unlock size={14} />
+                          Reopen
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Adjustments */}
+        <div className="bg-white rounded-xl border border-silver-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="font-semibold text-navy-900">Adjustments</h2>
+              <p className="text-sm text-silver-500">Corrections to closed days, paid in the next open period</p>
+            </div>
+            <button
+              onClick={() => {
+                clearError();
+                setShowAdjustmentForm((v) => !v);
+              }}
+              className="btn-primary flex items-center gap-2"
+            >
+              <Plus size={18} />
+              Record Adjustment
+            </button>
+          </div>
+
+          {showAdjustmentForm && (
+            <form onSubmit={handleCreateAdjustment} className="mb-6 p-4 bg-silver-50 rounded-lg grid md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-navy-700 mb-1.5">Employee</label>
+                <select value={adjUserId} onChange={(e) => setAdjUserId(e.target.value)} className="input" required>
+                  <option value="">Select employee</option>
+                  {employees.map((employee) => (
+                    <option key={employee.id} value={employee.id}>
+                      {employee.profile ? `${employee.profile.firstName} ${employee.profile.lastName}` : employee.email}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-navy-700 mb-1.5">Closed day</label>
+                <input type="date" value={adjDate} onChange={(e) => setAdjDate(e.target.value)} className="input" required />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-navy-700 mb-1.5">Type</label>
+                <select
+                  value={adjType}
+                  onChange={(e) => setAdjType(e.target.value as PeriodAdjustmentType)}
+                  className="input"
+                >
+                  <option value="Attendance">Attendance (paid hours)</option>
+                  <option value="Timesheet">Timesheet (project hours)</option>
+                  <option value="Leave">Leave (days)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-navy-700 mb-1.5">
+                  {adjType === 'Leave' ? 'Days (negative to remove)' : 'Hours (negative to remove)'}
+                </label>
+                <input
+                  type="number"
+                  step={adjType === 'Leave' ? 0.5 : 0.25}
+                  value={adjAmount}
+                  onChange={(e) => setAdjAmount(e.target.value)}
+                  className="input"
+                  required
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-navy-700 mb-1.5">Reason</label>
+                <input
+                  value={adjReason}
+                  onChange={(e) => setAdjReason(e.target.value)}
+                  className="input"
+                  minLength={5}
+                  required
+                />
+              </div>
+              <div className="md:col-span-3 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setShowAdjustmentForm(false)}
+                  className="px-4 py-2 border border-silver-200 rounded-lg hover:bg-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isActionLoading}
+                  className="btn-primary flex items-center gap-2 disabled:opacity-50"
+                >
+                  {isActionLoading && <Loader2 size={16} className="animate-spin" />}
+                  Save Adjustment
+                </button>
+              </div>
+            </form>
+          )}
+
+          {adjustments.length === 0 ? (
+            <p className="text-sm text-silver-500">No adjustments recorded</p>
+          ) : (
+            <div className="divide-y divide-silver-100">
+              {adjustments.map((adjustment) => (
+                <div key={adjustment.id} className="py-3 flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-navy-900">
+                      {adjustment.user.profile
+                        ? `${adjustment.user.profile.firstName} ${adjustment.user.profile.lastName}`
+                        : 'Employee'}{' '}
+                      • {adjustment.type} {describeAdjustment(adjustment)}
+                    </p>
+                    <p className="text-sm text-silver-500">
+                      For {formatDate(adjustment.date)} • Paid from {formatDate(adjustment.appliedDate)}
+                    </p>
+                    <p className="text-sm text-silver-600 mt-1">{adjustment.reason}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Info card */}
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-xl">
+          <h3 className="font-medium text-blue-900 mb-2">About Payroll Periods</h3>
+          <p className="text-sm text-blue-700">
+            Close a period once it has been paid. Attendance overrides, regularizations, overtime,
+            timesheets and leave dated inside it become read-only, and biometric imports skip its
+            days. Record late corrections as adjustments instead; they are paid on the first open
+            day after the period. Reopening a closed period is audited and needs a reason.
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,861 @@
+'use client';
+
+/**
+ * Admin Project Detail Page
+ *
+ * SuperAdmin page for a project's hour and cost budgets. Shows burn from
+ * approved timesheet hours against the project and task budgets, and a
+ * burn-down chart toward the deadline. Also holds the project's client
+ * billing settings and rate card, and its members and task assignees.
+ */
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Edit2, Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuthStore } from '@/store/auth';
+import {
+  useProjectBudget,
+  useProjectBilling,
+  useProjectMembers,
+  BudgetBurn,
+  TaskBudget,
+  RateRole,
+  ProjectMemberRole,
+} from '@/hooks';
+import { BudgetBurnDownChart } from '@/components/reports/charts';
+
+const formatHours = (minutes: number) => `${Math.round((minutes / 60) * 10) / 10}h`;
+const formatCost = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const formatDate = (value: string) => format(parseISO(value), 'MMM d, yyyy');
+
+/** Hours typed into a budget field, as minutes; empty clears the budget */
+const hoursToMinutes = (value: string) => (value.trim() === '' ? null : Math.round(Number(value) * 60));
+const costOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+function percentColor(percent: number | null) {
+  if (percent === null) return 'bg-silver-300';
+  if (percent >= 100) return 'bg-error';
+  if (percent >= 75) return 'bg-warning';
+  return 'bg-success';
+}
+
+function BurnBar({ percent }: { percent: number | null }) {
+  return (
+    <div className="h-2 bg-silver-100 rounded-full overflow-hidden">
+      <div
+        className={`h-full ${percentColor(percent)}`}
+        style={{ width: `${Math.min(percent ?? 0, 100)}%` }}
+      />
+    </div>
+  );
+}
+
+function BurnSummary({ burn }: { burn: BudgetBurn }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="bg-white rounded-xl border border-silver-200 p-4">
+        <p className="text-sm text-silver-500">Hours</p>
+        <p className="text-2xl font-semibold text-navy-900">
+          {formatHours(burn.burnedMinutes)}
+          <span className="text-base font-normal text-silver-500">
+            {burn.budgetMinutes !== null ? ` of ${formatHours(burn.budgetMinutes)}` : ' (no budget)'}
+          </span>
+        </p>
+        <div className="mt-2">
+          <BurnBar percent={burn.percentMinutes} />
+        </div>
+        {burn.percentMinutes !== null && (
+          <p className="mt-1 text-xs text-silver-500">{burn.percentMinutes}% used</p>
+        )}
+      </div>
+      <div className="bg-white rounded-xl border border-silver-200 p-4">
+        <p className="text-sm text-silver-500">Cost</p>
+        <p className="text-2xl font-semibold text-navy-900">
+          {formatCost(burn.burnedCost)}
+          <span className="text-base font-normal text-silver-500">
+            {burn.budgetCost !== null ? ` of ${formatCost(burn.budgetCost)}` : ' (no budget)'}
+          </span>
+        </p>
+        <div className="mt-2">
+          <BurnBar percent={burn.percentCost} />
+        </div>
+        <p className="mt-1 text-xs text-silver-500">
+          {burn.percentCost !== null && `${burn.percentCost}% used`}
+          {burn.unpricedMinutes > 0 && ` • ${formatHours(burn.unpricedMinutes)} by employees without an hourly rate`}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface EmployeeOption {
+  id: string;
+  email: string;
+  profile?: { firstName: string; lastName: string };
+}
+
+/** Rate card row being edited; scope picks what the rate applies to */
+interface RateRow {
+  scope: 'flat' | 'role' | 'employee';
+  role: RateRole;
+  userId: string;
+  hourlyRate: string;
+}
+
+const RATE_ROLES: RateRole[] = ['Employee', 'Manager', 'HR', 'SuperAdmin'];
+
+function BillingSettings({ projectId }: { projectId: string }) {
+  const {
+    settings,
+    rates,
+    isActionLoading,
+    error,
+    fetchBilling,
+    updateSettings,
+    saveRates,
+    clearError,
+  } = useProjectBilling(projectId);
+
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [clientName, setClientName] = useState('');
+  const [clientEmail, setClientEmail] = useState('');
+  const [clientAddress, setClientAddress] = useState('');
+  const [currency, setCurrency] = useState('USD');
+  const [defaultBillable, setDefaultBillable] = useState(true);
+  const [rateRows, setRateRows] = useState<RateRow[]>([]);
+
+  useEffect(() => {
+    fetchBilling();
+
+    api
+      .get<{ data: EmployeeOption[] }>('/users?page=1&limit=100')
+      .then((response) => {
+        if (response.success && response.data) {
+          setEmployees(response.data.data || []);
+        }
+      })
+      .catch((err) => console.error('Failed to fetch employees:', err));
+  }, [fetchBilling]);
+
+  useEffect(() => {
+    if (!settings) return;
+    setClientName(settings.clientName ?? '');
+    setClientEmail(settings.clientEmail ?? '');
+    setClientAddress(settings.clientAddress ?? '');
+    setCurrency(settings.currency);
+    setDefaultBillable(settings.defaultBillable);
+  }, [settings]);
+
+  useEffect(() => {
+    setRateRows(
+      rates.map((rate) => ({
+        scope: rate.userId ? 'employee' : rate.role ? 'role' : 'flat',
+        role: rate.role ?? 'Employee',
+        userId: rate.userId ?? '',
+        hourlyRate: String(Number(rate.hourlyRate)),
+      }))
+    );
+  }, [rates]);
+
+  const updateRow = (index: number, changes: Partial<RateRow>) =>
+    setRateRows((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const handleSaveSettings = async () => {
+    await updateSettings({
+      clientName: clientName.trim() || null,
+      clientEmail: clientEmail.trim() || null,
+      clientAddress: clientAddress.trim() || null,
+      currency: currency.trim().toUpperCase(),
+      defaultBillable,
+    });
+  };
+
+  const handleSaveRates = async () => {
+    await saveRates(
+      rateRows.map((row) => ({
+        ...(row.scope === 'employee' ? { userId: row.userId } : {}),
+        ...(row.scope === 'role' ? { role: row.role } : {}),
+        hourlyRate: Number(row.hourlyRate),
+      }))
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-silver-200 p-4 space-y-4">
+      <h2 className="font-semibold text-navy-900">Billing</h2>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <span className="text-red-700">{error}</span>
+          <button onClick={clearError} className="text-red-500 hover:text-red-700">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="text-sm text-silver-600">
+          Client
+          <input
+            value={clientName}
+            onChange={(e) => setClientName(e.target.value)}
+            maxLength={100}
+            className="mt-1 w-full px-3 py-2 border border-silver-200 rounded-lg"
+          />
+        </label>
+        <label className="text-sm text-silver-600">
+          Client email
+          <input
+            type="email"
+            value={clientEmail}
+            onChange={(e) => setClientEmail(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-silver-200 rounded-lg"
+          />
+        </label>
+        <label className="text-sm text-silver-600">
+          Currency
+          <input
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            maxLength={3}
+            placeholder="USD"
+            className="mt-1 w-full px-3 py-2 border border-silver-200 rounded-lg uppercase"
+          />
+        </label>
+        <label className="text-sm text-silver-600 flex items-center gap-2 md:mt-6">
+          <input
+            type="checkbox"
+            checked={defaultBillable}
+            onChange={(e) => setDefaultBillable(e.target.checked)}
+            className="w-4 h-4 rounded border-silver-300"
+          />
+          New entries are billable
+        </label>
+        <label className="text-sm text-silver-600 md:col-span-4">
+          Client address
+          <textarea
+            value={clientAddress}
+            onChange={(e) => setClientAddress(e.target.value)}
+            rows={2}
+            maxLength={500}
+            className="mt-1 w-full px-3 py-2 border border-silver-200 rounded-lg"
+          />
+        </label>
+      </div>
+      <div className="flex justify-end">
+        <button
+          onClick={handleSaveSettings}
+          disabled={isActionLoading}
+          className="btn-primary flex items-center gap-2 disabled:opacity-50"
+        >
+          {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+          Save Billing
+        </button>
+      </div>
+
+      {/* Rate card */}
+      <div className="border-t border-silver-100 pt-4">
+        <h3 className="text-sm font-medium text-navy-900">Rate card</h3>
+        <p className="text-xs text-silver-500 mb-3">
+          An employee&apos;s own rate wins over their role&apos;s rate, which wins over the flat rate.
+        </p>
+        <div className="space-y-2">
+          {rateRows.map((row, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <select
+                value={row.scope}
+                onChange={(e) => updateRow(index, { scope: e.target.value as RateRow['scope'] })}
+                className="px-2 py-1.5 border border-silver-200 rounded-lg text-sm"
+              >
+                <option value="flat">Everyone (flat)</option>
+                <option value="role">Role</option>
+                <option value="employee">Employee</option>
+              </select>
+              {row.scope === 'role' && (
+                <select
+                  value={row.role}
+                  onChange={(e) => updateRow(index, { role: e.target.value as RateRole })}
+                  className="px-2 py-1.5 border border-silver-200 rounded-lg text-sm"
+                >
+                  {RATE_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {row.scope === 'employee' && (
+                <select
+                  value={row.userId}
+                  onChange={(e) => updateRow(index, { userId: e.target.value })}
+                  className="px-2 py-1.5 border border-silver-200 rounded-lg text-sm"
+                >
+                  <option value="">Select employee</option>
+                  {employees.map((employee) => (
+                    <option key={employee.id} value={employee.id}>
+                      {employee.profile ? `${employee.profile.firstName} ${employee.profile.lastName}` : employee.email}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={row.hourlyRate}
+                onChange={(e) => updateRow(index, { hourlyRate: e.target.value })}
+                placeholder="Rate / hour"
+                className="w-32 px-2 py-1.5 border border-silver-200 rounded-lg text-sm"
+              />
+              <span className="text-xs text-silver-500">{currency.toUpperCase()} / hour</span>
+              <button
+                onClick={() => setRateRows((rows) => rows.filter((_, i) => i !== index))}
+                className="p-1.5 hover:bg-silver-100 rounded text-silver-500"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+          {rateRows.length === 0 && <p className="text-sm text-silver-400">No rates set</p>}
+        </div>
+        <div className="mt-3 flex justify-between">
+          <button
+            onClick={() =>
+              setRateRows((rows) => [...rows, { scope: 'flat', role: 'Employee', userId: '', hourlyRate: '' }])
+            }
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Plus size={14} />
+            Add rate
+          </button>
+          <button
+            onClick={handleSaveRates}
+            disabled={
+              isActionLoading ||
+              rateRows.some((row) => row.hourlyRate === '' || (row.scope === 'employee' && !row.userId))
+            }
+            className="btn-primary flex items-center gap-2 disabled:opacity-50"
+          >
+            {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+            Save Rates
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function employeeName(employee: { email: string; profile?: { firstName: string; lastName: string } | null }) {
+  return employee.profile ? `${employee.profile.firstName} ${employee.profile.lastName}` : employee.email;
+}
+
+function MembersSettings({ projectId }: { projectId: string }) {
+  const {
+    members,
+    tasks,
+    membersOnly,
+    isActionLoading,
+    error,
+    fetchMembers,
+    updateMembersOnly,
+    addMember,
+    removeMember,
+    setTaskAssignees,
+    clearError,
+  } = useProjectMembers(projectId);
+
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [newMemberId, setNewMemberId] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<ProjectMemberRole>('Member');
+
+  useEffect(() => {
+    fetchMembers();
+
+    api
+      .get<{ data: EmployeeOption[] }>('/users?page=1&limit=100')
+      .then((response) => {
+        if (response.success && response.data) {
+          setEmployees(response.data.data || []);
+        }
+      })
+      .catch((err) => console.error('Failed to fetch employees:', err));
+  }, [fetchMembers]);
+
+  const memberIds = new Set(members.map((m) => m.userId));
+  // Members-only projects can only assign tasks to members
+  const assignable = membersOnly ? employees.filter((e) => memberIds.has(e.id)) : employees;
+  const nameOf = (userId: string) => {
+    const employee = employees.find((e) => e.id === userId);
+    return employee ? employeeName(employee) : userId;
+  };
+
+  const handleAddMember = async () => {
+    if (!newMemberId) return;
+    const added = await addMember(newMemberId, newMemberRole);
+    if (added) {
+      setNewMemberId('');
+      setNewMemberRole('Member');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-silver-200 p-4 space-y-4">
+      <h2 className="font-semibold text-navy-900">Members</h2>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <span className="text-red-700">{error}</span>
+          <button onClick={clearError} className="text-red-500 hover:text-red-700">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <label className="text-sm text-silver-600 flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={membersOnly}
+          disabled={isActionLoading}
+          onChange={(e) => updateMembersOnly(e.target.checked)}
+          className="w-4 h-4 rounded border-silver-300"
+        />
+        Only members and the project manager can log time and join project chats
+      </label>
+
+      <div className="space-y-2">
+        {members.map((member) => (
+          <div key={member.id} className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-navy-900 w-56 truncate">{employeeName(member.user)}</span>
+            <select
+              value={member.role}
+              disabled={isActionLoading}
+              onChange={(e) => addMember(member.userId, e.target.value as ProjectMemberRole)}
+              className="px-2 py-1.5 border border-silver-200 rounded-lg text-sm"
+            >
+              <option value="Member">Member</option>
+              <option value="Lead">Lead</option>
+            </select>
+            <button
+              onClick={() => removeMember(member.userId)}
+              disabled={isActionLoading}
+              className="p-1.5 hover:bg-silver-100 rounded text-silver-500"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+        {members.length === 0 && <p className="text-sm text-silver-400">No members</p>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={newMemberId}
+          onChange={(e) => setNewMemberId(e.target.value)}
+          className="px-2 py-1.5 border border-silver-200 rounded-lg text-sm"
+        >
+          <option value="">Select employee</option>
+          {employees
+            .filter((employee) => !memberIds.has(employee.id))
+            .map((employee) => (
+              <option key={employee.id} value={employee.id}>
+                {employeeName(employee)}
+              </option>
+            ))}
+        </select>
+        <select
+          value={newMemberRole}
+          onChange={(e) => setNewMemberRole(e.target.value as ProjectMemberRole)}
+          className="px-2 py-1.5 border border-silver-200 rounded-lg text-sm"
+        >
+          <option value="Member">Member</option>
+          <option value="Lead">Lead</option>
+        </select>
+        <button
+          onClick={handleAddMember}
+          disabled={isActionLoading || !newMemberId}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+        >
+          <Plus size={14} />
+          Add member
+        </button>
+      </div>
+
+      {/* Task assignees */}
+      <div className="border-t border-silver-100 pt-4">
+        <h3 className="text-sm font-medium text-navy-900">Task assignees</h3>
+        <p className="text-xs text-silver-500 mb-3">
+          A task with assignees is open only to them and the project&apos;s leads.
+        </p>
+        <div className="space-y-2">
+          {tasks.map((task) => {
+            const assigneeIds = task.assignees.map((a) => a.userId);
+            return (
+              <div key={task.id} className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-navy-900 w-56 truncate">
+                  {task.name} <span className="text-xs text-silver-400">{task.code}</span>
+                </span>
+                {assigneeIds.map((userId) => (
+                  <span
+                    key={userId}
+                    className="flex items-center gap-1 px-2 py-0.5 bg-silver-100 rounded-full text-xs text-navy-900"
+                  >
+                    {nameOf(userId)}
+                    <button
+                      onClick={() => setTaskAssignees(task.id, assigneeIds.filter((id) => id !== userId))}
+                      disabled={isActionLoading}
+                      className="text-silver-500 hover:text-silver-700"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+                <select
+                  value=""
+                  disabled={isActionLoading}
+                  onChange={(e) => e.target.value && setTaskAssignees(task.id, [...assigneeIds, e.target.value])}
+                  className="px-2 py-1 border border-silver-200 rounded-lg text-xs"
+                >
+                  <option value="">{assigneeIds.length === 0 ? 'Everyone - assign' : 'Assign'}</option>
+                  {assignable
+                    .filter((employee) => !assigneeIds.includes(employee.id))
+                    .map((employee) => (
+                      <option key={employee.id} value={employee.id}>
+                        {employeeName(employee)}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            );
+          })}
+          {tasks.length === 0 && <p className="text-sm text-silver-400">No tasks defined</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminProjectDetailPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const { user } = useAuthStore();
+  const {
+    budget,
+    isActionLoading,
+    error,
+    fetchBudget,
+    updateProjectBudget,
+    updateTaskBudget,
+    clearError,
+  } = useProjectBudget(params?.id ?? '');
+
+  // Project budget form
+  const [budgetHours, setBudgetHours] = useState('');
+  const [budgetCost, setBudgetCost] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [thresholds, setThresholds] = useState('');
+
+  // Task being edited
+  const [editTaskId, setEditTaskId] = useState<string | null>(null);
+  const [taskHours, setTaskHours] = useState('');
+  const [taskCost, setTaskCost] = useState('');
+  const [taskDeadline, setTaskDeadline] = useState('');
+
+  // Check admin access
+  useEffect(() => {
+    if (user && user.role !== 'SuperAdmin') {
+      router.replace('/dashboard');
+    }
+  }, [user, router]);
+
+  useEffect(() => {
+    if (user?.role === 'SuperAdmin') {
+      fetchBudget();
+    }
+  }, [user, fetchBudget]);
+
+  // Fill the form from the loaded budget
+  useEffect(() => {
+    if (!budget) return;
+    setBudgetHours(budget.budgetMinutes !== null ? String(budget.budgetMinutes / 60) : '');
+    setBudgetCost(budget.budgetCost !== null ? String(budget.budgetCost) : '');
+    setStartDate(budget.project.startDate ?? '');
+    setDeadline(budget.project.deadline ?? '');
+    setThresholds(budget.project.budgetAlertThresholds.join(', '));
+  }, [budget]);
+
+  const handleSaveProject = async () => {
+    await updateProjectBudget({
+      budgetMinutes: hoursToMinutes(budgetHours),
+      budgetCost: costOrNull(budgetCost),
+      startDate: startDate || null,
+      deadline: deadline || null,
+      budgetAlertThresholds: thresholds
+        .split(',')
+        .map((t) => parseInt(t, 10))
+        .filter((t) => !Number.isNaN(t)),
+    });
+  };
+
+  const handleEditTask = (task: TaskBudget) => {
+    setEditTaskId(task.id);
+    setTaskHours(task.budgetMinutes !== null ? String(task.budgetMinutes / 60) : '');
+    setTaskCost(task.budgetCost !== null ? String(task.budgetCost) : '');
+    setTaskDeadline(task.deadline ?? '');
+  };
+
+  const handleSaveTask = async () => {
+    if (!editTaskId) return;
+    const saved = await updateTaskBudget(editTaskId, {
+      budgetMinutes: hoursToMinutes(taskHours),
+      budgetCost: costOrNull(taskCost),
+      deadline: taskDeadline || null,
+    });
+    if (saved) {
+      setEditTaskId(null);
+    }
+  };
+
+  if (user?.role !== 'SuperAdmin') {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      {/* Header */}
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4 h-16">
+            <button onClick={() => router.push('/admin/projects')} className="p-2 hover:bg-silver-100 rounded-lg">
+              <ArrowLeft size={20} />
+            </button>
+            <div>
+              <h1 className="text-lg font-semibold text-navy-900">{budget?.project.name ?? 'Project'}</h1>
+              {budget && <p className="text-xs text-silver-500">{budget.project.code}</p>}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <span className="text-red-700">{error}</span>
+            <button onClick={clearError} className="text-red-500 hover:text-red-700">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {!budget ? (
+          <div className="bg-white rounded-xl border border-silver-200 p-4 h-32 animate-pulse" />
+        ) : (
+          <>
+            {/* Burn */}
+            <BurnSummary burn={budget} />
+            <p className="text-sm text-silver-500">
+              Burn counts approved timesheet hours only.
+              {budget.pendingMinutes > 0 && ` ${formatHours(budget.pendingMinutes)} more are awaiting approval.`}
+              {budget.project.deadline && ` Deadline: ${formatDate(budget.project.deadline)}.`}
+            </p>
+
+            {/* Burn-down */}
+            <div className="bg-white rounded-xl border border-silver-200 p-4">
+              <h2 className="font-semibold text-navy-900 mb-2">Burn-down</h2>
+              <BudgetBurnDownChart data={budget.burnDown} />
+            </div>
+
+            {/* Budget settings */}
+            <div className="bg-white rounded-xl border border-silver-200 p-4">
+              <h2 className="font-semibold text-navy-900 mb-4">Budget</h2>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <label className="text-sm text-silver-600">
+                  Hour budget
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={budgetHours}
+                    onChange={(e) => setBudgetHours(e.target.value)}
+                    placeholder="None"
+                    className="mt-1 w-full px-3 py-2 border border-silver-200 rounded-lg"
+                  />
+                </label>
+                <label className="text-sm text-silver-600">
+                  Cost budget
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={budgetCost}
+                    onChange={(e) => setBudgetCost(e.target.value)}
+                    placeholder="None"
+                    className="mt-1 w-full px-3 py-2 border border-silver-200 rounded-lg"
+                  />
+                </label>
+                <label className="text-sm text-silver-600">
+                  Start date
+                  <input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-silver-200 rounded-lg"
+                  />
+                </label>
+                <label className="text-sm text-silver-600">
+                  Deadline
+                  <input
+                    type="date"
+                    value={deadline}
+                    onChange={(e) => setDeadline(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-silver-200 rounded-lg"
+                  />
+                </label>
+                <label className="text-sm text-silver-600">
+                  Alert at (% used)
+                  <input
+                    type="text"
+                    value={thresholds}
+                    onChange={(e) => setThresholds(e.target.value)}
+                    placeholder="75, 90, 100"
+                    className="mt-1 w-full px-3 py-2 border border-silver-200 rounded-lg"
+                  />
+                </label>
+              </div>
+              <div className="mt-4 flex justify-end">
+                <button
+                  onClick={handleSaveProject}
+                  disabled={isActionLoading}
+                  className="btn-primary flex items-center gap-2 disabled:opacity-50"
+                >
+                  {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                  Save Budget
+                </button>
+              </div>
+            </div>
+
+            {/* Task budgets */}
+            <div className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+              <h2 className="font-semibold text-navy-900 p-4">Tasks</h2>
+              <table className="w-full text-sm">
+                <thead className="bg-silver-50 text-silver-500">
+                  <tr>
+                    <th className="text-left font-medium px-4 py-2">Task</th>
+                    <th className="text-left font-medium px-4 py-2">Hours</th>
+                    <th className="text-left font-medium px-4 py-2">Cost</th>
+                    <th className="text-left font-medium px-4 py-2">Deadline</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-silver-100">
+                  {budget.tasks.map((task) =>
+                    editTaskId === task.id ? (
+                      <tr key={task.id}>
+                        <td className="px-4 py-2 text-navy-900">{task.name}</td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.5"
+                            value={taskHours}
+                            onChange={(e) => setTaskHours(e.target.value)}
+                            placeholder="Hours"
+                            className="w-24 px-2 py-1 border border-silver-200 rounded-lg"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={taskCost}
+                            onChange={(e) => setTaskCost(e.target.value)}
+                            placeholder="Cost"
+                            className="w-28 px-2 py-1 border border-silver-200 rounded-lg"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="date"
+                            value={taskDeadline}
+                            onChange={(e) => setTaskDeadline(e.target.value)}
+                            className="px-2 py-1 border border-silver-200 rounded-lg"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="flex items-center justify-end gap-1">
+                            <button
+                              onClick={handleSaveTask}
+                              disabled={isActionLoading}
+                              className="p-1.5 hover:bg-silver-100 rounded text-blue-600 disabled:opacity-50"
+                            >
+                              <Save size={14} />
+                            </button>
+                            <button
+                              onClick={() => setEditTaskId(null)}
+                              className="p-1.5 hover:bg-silver-100 rounded text-silver-500"
+                            >
+                              <X size={14} />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ) : (
+                      <tr key={task.id} className={!task.isActive ? 'opacity-60' : ''}>
+                        <td className="px-4 py-2">
+                          <span className="text-navy-900">{task.name}</span>
+                          <span className="ml-2 text-xs text-silver-500">{task.code}</span>
+                        </td>
+                        <td className="px-4 py-2 w-48">
+                          <p className="text-navy-900">
+                            {formatHours(task.burnedMinutes)}
+                            {task.budgetMinutes !== null && (
+                              <span className="text-silver-500"> / {formatHours(task.budgetMinutes)}</span>
+                            )}
+                          </p>
+                          {task.budgetMinutes !== null && <BurnBar percent={task.percentMinutes} />}
+                        </td>
+                        <td className="px-4 py-2 w-48">
+                          <p className="text-navy-900">
+                            {formatCost(task.burnedCost)}
+                            {task.budgetCost !== null && (
+                              <span className="text-silver-500"> / {formatCost(task.budgetCost)}</span>
+                            )}
+                          </p>
+                          {task.budgetCost !== null && <BurnBar percent={task.percentCost} />}
+                        </td>
+                        <td className="px-4 py-2 text-silver-600">
+                          {task.deadline ? formatDate(task.deadline) : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <button
+                            onClick={() => handleEditTask(task)}
+                            className="p-1.5 hover:bg-silver-100 rounded text-silver-500"
+                          >
+                            <Edit2 size={14} />
+                          </button>
+                        </td>
+                      </tr>
+                    )
+                  )}
+                </tbody>
+              </table>
+              {budget.tasks.length === 0 && (
+                <p className="text-sm text-silver-400 text-center py-4">No tasks defined</p>
+              )}
+            </div>
+
+            {/* Billing */}
+            <BillingSettings projectId={budget.project.id} />
+
+            {/* Members */}
+            <MembersSettings projectId={budget.project.id} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -3,12 +3,13 @@
 /**
  * Admin Projects Page
  *
- * SuperAdmin-only page for managing projects and tasks.
+ * SuperAdmin-only page for managing projects and tasks. Each project links
+ * to its budget and burn-down page.
  */
 
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, Plus, FolderOpen, Edit2, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { ArrowLeft, Plus, FolderOpen, Edit2, Trash2, ChevronDown, ChevronRight, BarChart3 } from 'lucide-react';
 import { api } from '@/lib/api';
 import { useAuthStore } from '@/store/auth';
 
@@ -171,6 +172,13 @@ export default function AdminProjectsPage() {
                     </div>
                   </button>
                   <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => router.push(`/admin/projects/${project.id}`)}
+                      className="p-2 hover:bg-silver-100 rounded-lg text-silver-500"
+                      title="Budget"
+                    >
+                      <BarChart3 size={16} />
+                    </button>
                     <button className="p-2 hover:bg-silver-100 rounded-lg text-silver-500">
                       <Edit2 size={16} />
                     </button>
@@ -0,0 +1,388 @@
+'use client';
+
+/**
+ * Admin Work Schedules Page
+ *
+ * HR/SuperAdmin page for managing work schedules and assigning them to
+ * employees, departments and office locations. Lateness, overtime and
+ * absence are all measured against the schedule that applies.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { AnimatePresence } from 'framer-motion';
+import { ArrowLeft, Plus, CalendarClock, AlertCircle, Star, Pencil, Trash2, X } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuthStore } from '@/store/auth';
+import {
+  useWorkSchedules,
+  WorkSchedule,
+  WorkScheduleAssignment,
+  WorkScheduleInput,
+  WorkScheduleScope,
+} from '@/hooks';
+import { WorkScheduleForm, WEEKDAY_LABELS } from '@/components/work-schedules/WorkScheduleForm';
+
+type FormMode = 'create' | 'edit' | null;
+
+interface EmployeeOption {
+  id: string;
+  email: string;
+  profile?: { firstName: string; lastName: string };
+}
+
+const SCOPE_LABELS: Record<WorkScheduleScope, string> = {
+  Employee: 'Employee',
+  Department: 'Department',
+  OfficeLocation: 'Office location',
+};
+
+function describeAssignment(assignment: WorkScheduleAssignment): string {
+  if (assignment.user) {
+    const profile = assignment.user.profile;
+    return profile ? `${profile.firstName} ${profile.lastName}` : assignment.user.email;
+  }
+  return assignment.department?.name || assignment.officeLocation?.name || 'Unknown';
+}
+
+function summarizeDays(schedule: WorkSchedule): string {
+  const working = schedule.days.filter((d) => d.isWorkingDay);
+  if (working.length === 0) return 'No working days';
+  return working
+    .map((d) => `${WEEKDAY_LABELS[d.weekday].slice(0, 3)} ${d.startTime}-${d.endTime}`)
+    .join(', ');
+}
+
+export default function AdminSchedulesPage() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const {
+    schedules,
+    targets,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchSchedules,
+    fetchTargets,
+    createSchedule,
+    updateSchedule,
+    deleteSchedule,
+    assignSchedule,
+    unassignSchedule,
+    clearError,
+  } = useWorkSchedules();
+
+  const [formMode, setFormMode] = useState<FormMode>(null);
+  const [editSchedule, setEditSchedule] = useState<WorkSchedule | null>(null);
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [assignScheduleId, setAssignScheduleId] = useState<string | null>(null);
+  const [assignScope, setAssignScope] = useState<WorkScheduleScope>('Employee');
+  const [assignTargetId, setAssignTargetId] = useState('');
+
+  const canManage = user?.role === 'HR' || user?.role === 'SuperAdmin';
+
+  // Check admin access
+  useEffect(() => {
+    if (user && !canManage) {
+      router.replace('/dashboard');
+    }
+  }, [user, canManage, router]);
+
+  useEffect(() => {
+    if (!canManage) return;
+
+    fetchSchedules();
+    fetchTargets();
+
+    api
+      .get<{ data: EmployeeOption[] }>('/users?page=1&limit=100')
+      .then((response) => {
+        if (response.success && response.data) {
+          setEmployees(response.data.data || []);
+        }
+      })
+      .catch((err) => console.error('Failed to fetch employees:', err));
+  }, [canManage, fetchSchedules, fetchTargets]);
+
+  const handleCloseForm = useCallback(() => {
+    setFormMode(null);
+    setEditSchedule(null);
+  }, []);
+
+  const handleSubmit = useCallback(async (data: WorkScheduleInput): Promise<boolean> => {
+    let success = false;
+
+    if (formMode === 'create') {
+      success = await createSchedule(data);
+    } else if (formMode === 'edit' && editSchedule) {
+      success = await updateSchedule(editSchedule.id, data);
+    }
+
+    if (success) {
+      handleCloseForm();
+      await fetchSchedules();
+    }
+
+    return success;
+  }, [formMode, editSchedule, createSchedule, updateSchedule, fetchSchedules, handleCloseForm]);
+
+  const handleMakeDefault = useCallback(async (schedule: WorkSchedule) => {
+    if (await updateSchedule(schedule.id, { isDefault: true })) {
+      await fetchSchedules();
+    }
+  }, [updateSchedule, fetchSchedules]);
+
+  const handleDeactivate = useCallback(async (schedule: WorkSchedule) => {
+    if (!confirm(`Deactivate "${schedule.name}"? Its assignments will be removed.`)) return;
+    if (await deleteSchedule(schedule.id)) {
+      await fetchSchedules();
+    }
+  }, [deleteSchedule, fetchSchedules]);
+
+  const handleOpenAssign = useCallback((schedule: WorkSchedule) => {
+    setAssignScheduleId(schedule.id);
+    setAssignScope('Employee');
+    setAssignTargetId('');
+  }, []);
+
+  const handleAssign = useCallback(async () => {
+    if (!assignScheduleId || !assignTargetId) return;
+
+    const targetField =
+      assignScope === 'Employee' ? 'userId' : assignScope === 'Department' ? 'departmentId' : 'officeLocationId';
+
+    if (await assignSchedule(assignScheduleId, { scope: assignScope, [targetField]: assignTargetId })) {
+      setAssignScheduleId(null);
+      await fetchSchedules();
+    }
+  }, [assignScheduleId, assignScope, assignTargetId, assignSchedule, fetchSchedules]);
+
+  const handleUnassign = useCallback(async (assignment: WorkScheduleAssignment) => {
+    if (await unassignSchedule(assignment.id)) {
+      await fetchSchedules();
+    }
+  }, [unassignSchedule, fetchSchedules]);
+
+  if (!canManage) {
+    return null;
+  }
+
+  const targetOptions =
+    assignScope === 'Employee'
+      ? employees.map((e) => ({
+          id: e.id,
+          name: e.profile ? `${e.profile.firstName} ${e.profile.lastName}` : e.email,
+        }))
+      : assignScope === 'Department'
+        ? targets.departments
+        : targets.officeLocations;
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      {/* Header */}
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.back()}
+                className="p-2 hover:bg-silver-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft size={20} />
+              </button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-blue-50 rounded-lg">
+                  <CalendarClock size={20} className="text-blue-600" />
+                </div>
+                <h1 className="text-lg font-semibold text-navy-900">Work Schedules</h1>
+              </div>
+            </div>
+            <button
+              onClick={() => {
+                setEditSchedule(null);
+                setFormMode('create');
+              }}
+              className="btn-primary flex items-center gap-2"
+            >
+              <Plus size={18} />
+              New Schedule
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Error banner */}
+        {error && !formMode && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+            <AlertCircle size={20} className="text-red-600 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+            <button
+              onClick={clearError}
+              className="ml-auto text-red-600 hover:text-red-800 text-sm font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {isLoading && schedules.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-600 border-t-transparent" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="bg-white rounded-xl border border-silver-200 p-8 text-center text-silver-500">
+            No work schedules yet. Employees follow the Monday-Friday schedule from the work policy.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="bg-white rounded-xl border border-silver-200 p-5">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h2 className="font-semibold text-navy-900">{schedule.name}</h2>
+                      {schedule.isDefault && (
+                        <span className="px-2 py-0.5 text-xs font-medium bg-blue-50 text-blue-700 rounded-full">
+                          Default
+                        </span>
+                      )}
+                    </div>
+                    {schedule.description && (
+                      <p className="text-sm text-silver-500 mt-1">{schedule.description}</p>
+                    )}
+                    <p className="text-sm text-silver-600 mt-2">{summarizeDays(schedule)}</p>
+                    <p className="text-xs text-silver-500 mt-1">
+                      Grace: {schedule.graceMinutesLate} min late, {schedule.graceMinutesEarly} min early leave
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {!schedule.isDefault && (
+                      <button
+                        onClick={() => handleMakeDefault(schedule)}
+                        title="Make company default"
+                        className="p-2 text-silver-500 hover:text-blue-600 hover:bg-silver-50 rounded-lg"
+                      >
+                        <Star size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        setEditSchedule(schedule);
+                        setFormMode('edit');
+                      }}
+                      title="Edit"
+                      className="p-2 text-silver-500 hover:text-blue-600 hover:bg-silver-50 rounded-lg"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDeactivate(schedule)}
+                      title="Deactivate"
+                      className="p-2 text-silver-500 hover:text-red-600 hover:bg-silver-50 rounded-lg"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Assignments */}
+                <div className="mt-4 pt-4 border-t border-silver-100">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {schedule.assignments.map((assignment) => (
+                      <span
+                        key={assignment.id}
+                        className="inline-flex items-center gap-1 px-2.5 py-1 text-xs bg-silver-100 text-navy-900 rounded-full"
+                      >
+                        <span className="text-silver-500">{SCOPE_LABELS[assignment.scope]}:</span>
+                        {describeAssignment(assignment)}
+                        <button
+                          onClick={() => handleUnassign(assignment)}
+                          className="ml-1 text-silver-400 hover:text-red-600"
+                        >
+                          <X size={12} />
+                        </button>
+                      </span>
+                    ))}
+                    {assignScheduleId !== schedule.id && (
+                      <button
+                        onClick={() => handleOpenAssign(schedule)}
+                        className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        + Assign
+                      </button>
+                    )}
+                  </div>
+
+                  {assignScheduleId === schedule.id && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      <select
+                        value={assignScope}
+                        onChange={(e) => {
+                          setAssignScope(e.target.value as WorkScheduleScope);
+                          setAssignTargetId('');
+                        }}
+                        className="px-3 py-1.5 text-sm border border-silver-200 rounded-lg"
+                      >
+                        {(Object.keys(SCOPE_LABELS) as WorkScheduleScope[]).map((scope) => (
+                          <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={assignTargetId}
+                        onChange={(e) => setAssignTargetId(e.target.value)}
+                        className="px-3 py-1.5 text-sm border border-silver-200 rounded-lg min-w-[200px]"
+                      >
+                        <option value="">Select...</option>
+                        {targetOptions.map((option) => (
+                          <option key={option.id} value={option.id}>{option.name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleAssign}
+                        disabled={!assignTargetId || isActionLoading}
+                        className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Assign
+                      </button>
+                      <button
+                        onClick={() => setAssignScheduleId(null)}
+                        className="px-3 py-1.5 text-sm text-silver-600 hover:text-navy-900"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Info card */}
+        <div className="mt-8 p-4 bg-blue-50 border border-blue-200 rounded-xl">
+          <h3 className="font-medium text-blue-900 mb-2">How schedules apply</h3>
+          <p className="text-sm text-blue-700">
+            Each employee follows one schedule, chosen in this order: their own assignment, their
+            office location, their department, then the company default. Check-ins after the start
+            time plus the late grace are flagged as late, work beyond the scheduled hours counts as
+            overtime, and employees are only marked absent on their scheduled working days.
+          </p>
+        </div>
+      </main>
+
+      {/* Schedule Form Modal */}
+      <AnimatePresence>
+        {formMode && (
+          <WorkScheduleForm
+            mode={formMode}
+            initialData={editSchedule || undefined}
+            isLoading={isActionLoading}
+            onSubmit={handleSubmit}
+            onCancel={handleCloseForm}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, Clock, MapPin, Shield, Save, Loader2, FileText } from 'lucide-react';
+import { ArrowLeft, Clock, MapPin, Shield, Save, Loader2, FileText, TimerOff, CalendarPlus, Timer, BellRing } from 'lucide-react';
 import { api } from '@/lib/api';
 import { useAuthStore } from '@/store/auth';
 
@@ -13,6 +13,43 @@ interface WorkPolicy {
   maxBreakMinutes: number;
 }
 
+interface AutoCheckoutPolicy {
+  autoCheckoutEnabled: boolean;
+  autoCheckoutTime: string;
+  autoEndBreakMinutes: number | null;
+}
+
+interface CompOffPolicy {
+  compOffEnabled: boolean;
+  compOffHalfDayMinutes: number;
+  compOffFullDayMinutes: number;
+  compOffExpiryDays: number;
+}
+
+interface TimerPolicy {
+  timerRoundingMinutes: number;
+  timerRoundingMode: 'Nearest' | 'Up' | 'Down';
+}
+
+interface TimesheetReminderPolicy {
+  timesheetRemindersEnabled: boolean;
+  timesheetReminderDay: number;
+  timesheetReminderTime: string;
+  timesheetDueDay: number;
+  timesheetDueTime: string;
+  timesheetEscalationHours: number | null;
+}
+
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 0, label: 'Sunday' },
+];
+
 interface GeofencePolicy {
   enabled: boolean;
   radiusMeters: number;
@@ -34,6 +71,33 @@ export default function SettingsPage() {
     maxBreakMinutes: 60,
   });
 
+  const [autoCheckout, setAutoCheckout] = useState<AutoCheckoutPolicy>({
+    autoCheckoutEnabled: false,
+    autoCheckoutTime: '23:00',
+    autoEndBreakMinutes: null,
+  });
+
+  const [compOff, setCompOff] = useState<CompOffPolicy>({
+    compOffEnabled: false,
+    compOffHalfDayMinutes: 240,
+    compOffFullDayMinutes: 480,
+    compOffExpiryDays: 90,
+  });
+
+  const [timerPolicy, setTimerPolicy] = useState<TimerPolicy>({
+    timerRoundingMinutes: 1,
+    timerRoundingMode: 'Nearest',
+  });
+
+  const [reminderPolicy, setReminderPolicy] = useState<TimesheetReminderPolicy>({
+    timesheetRemindersEnabled: false,
+    timesheetReminderDay: 5,
+    timesheetReminderTime: '16:00',
+    timesheetDueDay: 1,
+    timesheetDueTime: '12:00',
+    timesheetEscalationHours: 24,
+  });
+
   const [geofencePolicy, setGeofencePolicy] = useState<GeofencePolicy>({
     enabled: true,
     radiusMeters: 100,
@@ -55,12 +119,35 @@ export default function SettingsPage() {
       setIsLoading(true);
       try {
         const [workRes, geofenceRes] = await Promise.all([
-          api.get<WorkPolicy>('/admin/policies/work'),
+          api.get<WorkPolicy & AutoCheckoutPolicy & CompOffPolicy & TimerPolicy & TimesheetReminderPolicy>('/admin/policies/work'),
           api.get<GeofencePolicy>('/admin/policies/geofence'),
         ]);
 
         if (workRes.success && workRes.data) {
           setWorkPolicy(workRes.data);
+          setAutoCheckout({
+            autoCheckoutEnabled: workRes.data.autoCheckoutEnabled ?? false,
+            autoCheckoutTime: workRes.data.autoCheckoutTime ?? '23:00',
+            autoEndBreakMinutes: workRes.data.autoEndBreakMinutes ?? null,
+          });
+          setCompOff({
+            compOffEnabled: workRes.data.compOffEnabled ?? false,
+            compOffHalfDayMinutes: workRes.data.compOffHalfDayMinutes ?? 240,
+            compOffFullDayMinutes: workRes.data.compOffFullDayMinutes ?? 480,
+            compOffExpiryDays: workRes.data.compOffExpiryDays ?? 90,
+          });
+          setTimerPolicy({
+            timerRoundingMinutes: workRes.data.timerRoundingMinutes ?? 1,
+            timerRoundingMode: workRes.data.timerRoundingMode ?? 'Nearest',
+          });
+          setReminderPolicy({
+            timesheetRemindersEnabled: workRes.data.timesheetRemindersEnabled ?? false,
+            timesheetReminderDay: workRes.data.timesheetReminderDay ?? 5,
+            timesheetReminderTime: workRes.data.timesheetReminderTime ?? '16:00',
+            timesheetDueDay: workRes.data.timesheetDueDay ?? 1,
+            timesheetDueTime: workRes.data.timesheetDueTime ?? '12:00',
+            timesheetEscalationHours: workRes.data.timesheetEscalationHours ?? null,
+          });
         }
         if (geofenceRes.success && geofenceRes.data) {
           setGeofencePolicy(geofenceRes.data);
@@ -95,6 +182,78 @@ export default function SettingsPage() {
     }
   };
 
+  const handleSaveAutoCheckout = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await api.patch('/admin/policies/work', autoCheckout);
+      if (response.success) {
+        setSuccess('Auto-checkout settings saved successfully');
+      } else {
+        setError(response.error?.message || 'Failed to save auto-checkout settings');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveCompOff = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await api.patch('/admin/policies/work', compOff);
+      if (response.success) {
+        setSuccess('Comp-off settings saved successfully');
+      } else {
+        setError(response.error?.message || 'Failed to save comp-off settings');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveTimerPolicy = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await api.patch('/admin/policies/work', timerPolicy);
+      if (response.success) {
+        setSuccess('Timer settings saved successfully');
+      } else {
+        setError(response.error?.message || 'Failed to save timer settings');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveReminderPolicy = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await api.patch('/admin/policies/work', reminderPolicy);
+      if (response.success) {
+        setSuccess('Timesheet reminder settings saved successfully');
+      } else {
+        setError(response.error?.message || 'Failed to save timesheet reminder settings');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleSaveGeofencePolicy = async () => {
     setIsSaving(true);
     setError(null);
@@ -243,6 +402,339 @@ export default function SettingsPage() {
               </div>
             </div>
 
+            {/* Auto-Checkout */}
+            <div className="bg-white rounded-xl border border-silver-200 p-6">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-amber-100 rounded-lg flex items-center justify-center">
+                    <TimerOff size={20} className="text-amber-600" />
+                  </div>
+                  <div>
+                    <h2 className="font-semibold text-navy-900">Auto-Checkout</h2>
+                    <p className="text-sm text-silver-500">Close forgotten check-outs and breaks</p>
+                  </div>
+                </div>
+                <button
+                  onClick={handleSaveAutoCheckout}
+                  disabled={isSaving}
+                  className="btn-primary flex items-center gap-2"
+                >
+                  {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                  Save
+                </button>
+              </div>
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Auto-Checkout Enabled
+                  </label>
+                  <select
+                    value={autoCheckout.autoCheckoutEnabled ? 'true' : 'false'}
+                    onChange={(e) => setAutoCheckout({ ...autoCheckout, autoCheckoutEnabled: e.target.value === 'true' })}
+                    className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="true">Yes</option>
+                    <option value="false">No (flag as anomaly only)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Cutoff Time
+                  </label>
+                  <input
+                    type="time"
+                    value={autoCheckout.autoCheckoutTime}
+                    onChange={(e) => setAutoCheckout({ ...autoCheckout, autoCheckoutTime: e.target.value })}
+                    className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    End Forgotten Breaks After
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={autoCheckout.autoEndBreakMinutes ?? ''}
+                      placeholder="Never"
+                      onChange={(e) =>
+                        setAutoCheckout({
+                          ...autoCheckout,
+                          autoEndBreakMinutes: e.target.value ? parseInt(e.target.value) : null,
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-silver-500 text-sm">mins</span>
+                  </div>
+                </div>
+              </div>
+              <p className="text-sm text-silver-500 mt-4">
+                Sessions still open at the cutoff (in each employee&apos;s timezone, after their scheduled end)
+                are checked out automatically. Auto-closed records are flagged and employees are asked to
+                request a correction.
+              </p>
+            </div>
+
+            {/* Comp-Off Accrual */}
+            <div className="bg-white rounded-xl border border-silver-200 p-6">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-teal-100 rounded-lg flex items-center justify-center">
+                    <CalendarPlus size={20} className="text-teal-600" />
+                  </div>
+                  <div>
+                    <h2 className="font-semibold text-navy-900">Comp-Off Accrual</h2>
+                    <p className="text-sm text-silver-500">Credit comp-off for work on holidays and non-working days</p>
+                  </div>
+                </div>
+                <button
+                  onClick={handleSaveCompOff}
+                  disabled={isSaving}
+                  className="btn-primary flex items-center gap-2"
+                >
+                  {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                  Save
+                </button>
+              </div>
+              <div className="grid md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Comp-Off Enabled
+                  </label>
+                  <select
+                    value={compOff.compOffEnabled ? 'true' : 'false'}
+                    onChange={(e) => setCompOff({ ...compOff, compOffEnabled: e.target.value === 'true' })}
+                    className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Half Day After
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={compOff.compOffHalfDayMinutes}
+                      onChange={(e) => setCompOff({ ...compOff, compOffHalfDayMinutes: parseInt(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-silver-500 text-sm">mins</span>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Full Day After
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={compOff.compOffFullDayMinutes}
+                      onChange={(e) => setCompOff({ ...compOff, compOffFullDayMinutes: parseInt(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-silver-500 text-sm">mins</span>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Expires After
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={compOff.compOffExpiryDays}
+                      onChange={(e) => setCompOff({ ...compOff, compOffExpiryDays: parseInt(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-silver-500 text-sm">days</span>
+                  </div>
+                </div>
+              </div>
+              <p className="text-sm text-silver-500 mt-4">
+                Each holiday or non-working day worked for at least the half-day threshold earns a pending
+                credit. Once the employee&apos;s manager confirms it, it is added to their Comp Off balance.
+                Unused comp-off expires the set number of days after the day worked.
+              </p>
+            </div>
+
+            {/* Timer Rounding */}
+            <div className="bg-white rounded-xl border border-silver-200 p-6">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+                    <Timer size={20} className="text-indigo-600" />
+                  </div>
+                  <div>
+                    <h2 className="font-semibold text-navy-900">Timer Rounding</h2>
+                    <p className="text-sm text-silver-500">How timed work is rounded when booked to timesheets</p>
+                  </div>
+                </div>
+                <button
+                  onClick={handleSaveTimerPolicy}
+                  disabled={isSaving}
+                  className="btn-primary flex items-center gap-2"
+                >
+                  {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                  Save
+                </button>
+              </div>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Round To
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      max={60}
+                      value={timerPolicy.timerRoundingMinutes}
+                      onChange={(e) => setTimerPolicy({ ...timerPolicy, timerRoundingMinutes: parseInt(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-silver-500 text-sm">mins</span>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Rounding
+                  </label>
+                  <select
+                    value={timerPolicy.timerRoundingMode}
+                    onChange={(e) => setTimerPolicy({ ...timerPolicy, timerRoundingMode: e.target.value as TimerPolicy['timerRoundingMode'] })}
+                    className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="Nearest">Nearest</option>
+                    <option value="Up">Always up</option>
+                    <option value="Down">Always down</option>
+                  </select>
+                </div>
+              </div>
+              <p className="text-sm text-silver-500 mt-4">
+                Each stopped timer is rounded to this increment before it is added to the employee&apos;s draft
+                timesheet entry. Timers that round to zero book nothing. Use 1 minute to book the time as tracked.
+              </p>
+            </div>
+
+            {/* Timesheet Reminders */}
+            <div className="bg-white rounded-xl border border-silver-200 p-6">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-rose-100 rounded-lg flex items-center justify-center">
+                    <BellRing size={20} className="text-rose-600" />
+                  </div>
+                  <div>
+                    <h2 className="font-semibold text-navy-900">Timesheet Reminders</h2>
+                    <p className="text-sm text-silver-500">Remind employees to submit their week and escalate late ones</p>
+                  </div>
+                </div>
+                <button
+                  onClick={handleSaveReminderPolicy}
+                  disabled={isSaving}
+                  className="btn-primary flex items-center gap-2"
+                >
+                  {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                  Save
+                </button>
+              </div>
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Reminders Enabled
+                  </label>
+                  <select
+                    value={reminderPolicy.timesheetRemindersEnabled ? 'true' : 'false'}
+                    onChange={(e) => setReminderPolicy({ ...reminderPolicy, timesheetRemindersEnabled: e.target.value === 'true' })}
+                    className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Remind On
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={reminderPolicy.timesheetReminderDay}
+                      onChange={(e) => setReminderPolicy({ ...reminderPolicy, timesheetReminderDay: parseInt(e.target.value) })}
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {WEEKDAY_OPTIONS.map((day) => (
+                        <option key={day.value} value={day.value}>{day.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="time"
+                      value={reminderPolicy.timesheetReminderTime}
+                      onChange={(e) => setReminderPolicy({ ...reminderPolicy, timesheetReminderTime: e.target.value })}
+                      className="px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Due the Following
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={reminderPolicy.timesheetDueDay}
+                      onChange={(e) => setReminderPolicy({ ...reminderPolicy, timesheetDueDay: parseInt(e.target.value) })}
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {WEEKDAY_OPTIONS.map((day) => (
+                        <option key={day.value} value={day.value}>{day.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="time"
+                      value={reminderPolicy.timesheetDueTime}
+                      onChange={(e) => setReminderPolicy({ ...reminderPolicy, timesheetDueTime: e.target.value })}
+                      className="px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-navy-700 mb-1">
+                    Escalate to Manager After
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={168}
+                      value={reminderPolicy.timesheetEscalationHours ?? ''}
+                      placeholder="Never"
+                      onChange={(e) =>
+                        setReminderPolicy({
+                          ...reminderPolicy,
+                          timesheetEscalationHours: e.target.value ? parseInt(e.target.value) : null,
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-silver-500 text-sm">hours</span>
+                  </div>
+                </div>
+              </div>
+              <p className="text-sm text-silver-500 mt-4">
+                Employees whose week is short of the standard hours for its working days, or not yet submitted, are
+                reminded on the set day. A week is due on the set day of the following week; employees are told
+                when it is overdue and their manager is notified after the escalation delay. Managers get a
+                compliance digest for their team at the deadline. Times are in each person&apos;s timezone and
+                messages follow their notification preferences.
+              </p>
+            </div>
+
             {/* Geofence Policy */}
             <div className="bg-white rounded-xl border border-silver-200 p-6">
               <div className="flex items-center justify-between mb-6">
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, UserPlus, Search, MoreVertical, Users, Filter } from 'lucide-react';
+import { ArrowLeft, UserPlus, Search, MoreVertical, Users, Filter, KeyRound } from 'lucide-react';
 import { api } from '@/lib/api';
 import { useAuthStore } from '@/store/auth';
 
@@ -72,6 +72,18 @@ export default function UsersPage() {
     }
   }, [user, isAdmin, page, search, roleFilter]);
 
+  const handleSetKioskPin = async (target: User) => {
+    const pin = prompt(`New kiosk PIN for ${target.profile?.firstName ?? target.email} (4-6 digits):`);
+    if (!pin) return;
+    if (!/^\d{4,6}$/.test(pin)) {
+      alert('PIN must be 4 to 6 digits');
+      return;
+    }
+
+    const response = await api.patch(`/kiosk/users/${target.id}/pin`, { pin });
+    alert(response.success ? 'Kiosk PIN updated' : response.error?.message || 'Failed to set kiosk PIN');
+  };
+
   const getRoleColor = (role: string) => {
     switch (role) {
       case 'SuperAdmin':
@@ -230,9 +242,18 @@ export default function UsersPage() {
                         </span>
                       </td>
                       <td className="px-6 py-4">
-                        <button className="p-2 hover:bg-silver-100 rounded-lg">
-                          <MoreVertical size={16} className="text-silver-400" />
-                        </button>
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => handleSetKioskPin(u)}
+                            className="p-2 hover:bg-silver-100 rounded-lg"
+                            title="Set kiosk PIN"
+                          >
+                            <KeyRound size={16} className="text-silver-400" />
+                          </button>
+                          <button className="p-2 hover:bg-silver-100 rounded-lg">
+                            <MoreVertical size={16} className="text-silver-400" />
+                          </button>
+                        </div>
                       </td>
                     </tr>
                   ))}
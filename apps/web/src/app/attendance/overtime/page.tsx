@@ -0,0 +1,254 @@
+'use client';
+
+/**
+ * Overtime Review Page
+ *
+ * Managers review overtime requests and unapproved overtime of their
+ * direct reports; HR and admins see the whole company. Only approved
+ * overtime is paid.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, CheckCircle, XCircle, Timer, Loader2, AlertTriangle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useAuthStore } from '@/store/auth';
+import { useOvertime } from '@/hooks/useOvertime';
+import { OvertimeRequestModal } from '@/components/attendance/OvertimeRequestModal';
+import type { OvertimeRequestPreset } from '@/components/attendance/OvertimeRequestModal';
+
+export default function OvertimeReviewPage() {
+  const router = useRouter();
+  const { user, _hasHydrated } = useAuthStore();
+  const {
+    queue,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchReviewQueue,
+    createRequest,
+    approveRequest,
+    rejectRequest,
+    clearError,
+  } = useOvertime();
+  const [preset, setPreset] = useState<OvertimeRequestPreset | null>(null);
+
+  const canReview = user?.role === 'Manager' || user?.role === 'HR' || user?.role === 'SuperAdmin';
+
+  useEffect(() => {
+    if (_hasHydrated && !user) {
+      router.push('/login');
+    } else if (_hasHydrated && user && !canReview) {
+      router.push('/dashboard');
+    }
+  }, [user, router, _hasHydrated, canReview]);
+
+  useEffect(() => {
+    if (user && canReview) {
+      fetchReviewQueue();
+    }
+  }, [user, canReview, fetchReviewQueue]);
+
+  const handleApprove = async (id: string) => {
+    if (await approveRequest(id)) {
+      fetchReviewQueue();
+    }
+  };
+
+  const handleReject = async (id: string) => {
+    const reason = prompt('Enter rejection reason:');
+    if (!reason) return;
+    if (await rejectRequest(id, reason)) {
+      fetchReviewQueue();
+    }
+  };
+
+  const handleApproveDay = async (data: Parameters<typeof createRequest>[0]) => {
+    const success = await createRequest(data);
+    if (success) {
+      fetchReviewQueue();
+    }
+    return success;
+  };
+
+  const formatMinutes = (minutes: number) => {
+    const h = Math.floor(minutes / 60);
+    const m = minutes % 60;
+    return h > 0 ? (m > 0 ? `${h}h ${m}m` : `${h}h`) : `${m}m`;
+  };
+
+  const formatDay = (value: string) => format(parseISO(value.slice(0, 10)), 'EEEE, MMM d, yyyy');
+
+  if (!_hasHydrated || !user || !canReview) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-silver-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-600 border-t-transparent" />
+      </div>
+    );
+  }
+
+  const pendingRequests = queue?.pendingRequests ?? [];
+  const unapprovedDays = queue?.unapprovedDays ?? [];
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <button onClick={() => router.back()} className="p-2 hover:bg-silver-100 rounded-lg">
+                <ArrowLeft size={20} />
+              </button>
+              <h1 className="text-lg font-semibold text-navy-900">Overtime Review</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Error Message */}
+        {error && !preset && (
+          <div className="bg-error-light border border-error/20 text-error rounded-lg px-4 py-3">
+            {error}
+          </div>
+        )}
+
+        {isLoading && !queue ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent" />
+          </div>
+        ) : (
+          <>
+            {/* Pending Requests */}
+            <section>
+              <h2 className="text-lg font-semibold text-navy-900 mb-4">Pending Requests</h2>
+              {pendingRequests.length === 0 ? (
+                <div className="bg-white rounded-xl border border-silver-200 p-12 text-center">
+                  <Timer size={48} className="mx-auto text-silver-300 mb-4" />
+                  <p className="text-silver-500">No pending overtime requests</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {pendingRequests.map((request) => {
+                    const profile = request.user?.profile;
+                    return (
+                      <div
+                        key={request.id}
+                        className="bg-white rounded-xl border border-silver-200 p-6 hover:shadow-md transition-shadow"
+                      >
+                        <div className="flex items-start gap-4">
+                          <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
+                            <span className="text-blue-600 font-medium">
+                              {profile ? `${profile.firstName[0]}${profile.lastName[0]}` : '?'}
+                            </span>
+                          </div>
+                          <div>
+                            <h3 className="font-semibold text-navy-900">
+                              {profile ? `${profile.firstName} ${profile.lastName}` : 'Employee'}
+                            </h3>
+                            <p className="text-silver-500 text-sm mt-1">
+                              {formatDay(request.date)} • {formatMinutes(request.minutes)} •{' '}
+                              {request.isPreApproval ? 'Pre-approval' : 'Justification'}
+                            </p>
+                            <p className="text-silver-600 text-sm mt-2">
+                              <span className="font-medium">Reason:</span> {request.reason}
+                            </p>
+                            <p className="text-silver-400 text-xs mt-2">
+                              Requested on {format(new Date(request.createdAt), 'MMM d, yyyy')}
+                            </p>
+                          </div>
+                        </div>
+
+                        <div className="mt-4 pt-4 border-t border-silver-100 flex justify-end gap-3">
+                          <button
+                            onClick={() => handleReject(request.id)}
+                            disabled={isActionLoading}
+                            className="px-4 py-2 border border-error text-error rounded-lg hover:bg-error-light transition-colors disabled:opacity-50 flex items-center gap-2"
+                          >
+                            {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <XCircle size={16} />}
+                            Reject
+                          </button>
+                          <button
+                            onClick={() => handleApprove(request.id)}
+                            disabled={isActionLoading}
+                            className="px-4 py-2 bg-success text-white rounded-lg hover:bg-success/90 transition-colors disabled:opacity-50 flex items-center gap-2"
+                          >
+                            {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle size={16} />}
+                            Approve
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            {/* Unapproved Overtime */}
+            <section>
+              <h2 className="text-lg font-semibold text-navy-900 mb-1">Unapproved Overtime</h2>
+              <p className="text-sm text-silver-500 mb-4">
+                Overtime worked without approval since{' '}
+                {queue ? format(parseISO(queue.startDate), 'MMM d') : '—'}. It is excluded from payroll
+                until approved.
+              </p>
+              {unapprovedDays.length === 0 ? (
+                <div className="bg-white rounded-xl border border-silver-200 p-8 text-center">
+                  <p className="text-silver-500">All overtime in this period is approved</p>
+                </div>
+              ) : (
+                <div className="bg-white rounded-xl border border-silver-200 divide-y divide-silver-100">
+                  {unapprovedDays.map((day) => (
+                    <div key={day.attendanceDayId} className="p-4 flex items-center justify-between gap-4">
+                      <div className="flex items-start gap-3">
+                        <AlertTriangle size={18} className="text-warning mt-0.5 flex-shrink-0" />
+                        <div>
+                          <p className="font-medium text-navy-900">{day.employeeName}</p>
+                          <p className="text-sm text-silver-500">
+                            {formatDay(day.date)} • {formatMinutes(day.unapprovedMinutes)} unapproved
+                            {day.approvedOvertimeMinutes > 0 &&
+                              ` (${formatMinutes(day.approvedOvertimeMinutes)} approved)`}
+                          </p>
+                        </div>
+                      </div>
+                      {day.pendingRequestId ? (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-warning-light text-warning">
+                          Justification pending
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            clearError();
+                            setPreset({
+                              userId: day.userId,
+                              employeeName: day.employeeName,
+                              date: day.date.slice(0, 10),
+                              minutes: day.unapprovedMinutes,
+                            });
+                          }}
+                          className="px-3 py-2 text-sm font-medium text-success border border-success rounded-lg hover:bg-success-light flex items-center gap-2"
+                        >
+                          <CheckCircle size={16} />
+                          Approve
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+
+      <OvertimeRequestModal
+        isOpen={!!preset}
+        isLoading={isActionLoading}
+        error={error}
+        preset={preset}
+        onClose={() => setPreset(null)}
+        onSubmit={handleApproveDay}
+      />
+    </div>
+  );
+}
@@ -8,17 +8,27 @@
  * - Visual timeline bar
  * - Event list
  * - Policy information
+ * - Month calendar of present, leave, holiday, weekend and absent days
+ * - Regularization requests for past days, opened on a given day by
+ *   ?regularize=YYYY-MM-DD links from reconciliation notifications
+ * - Overtime requests and justifications
  */
 
-import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { ArrowLeft, RefreshCw, AlertCircle, X } from 'lucide-react';
+import { ArrowLeft, RefreshCw, AlertCircle, X, FileClock, ClipboardCheck, Timer } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { useAuthStore } from '@/store/auth';
 import { useAttendance } from '@/hooks/useAttendance';
+import { useRegularizations } from '@/hooks/useRegularizations';
+import { useOvertime } from '@/hooks/useOvertime';
 import { AttendanceStatusCard } from '@/components/attendance/AttendanceStatusCard';
 import { TimelineBar } from '@/components/attendance/TimelineBar';
 import { TimelineEventList } from '@/components/attendance/TimelineEventList';
+import { RegularizationModal } from '@/components/attendance/RegularizationModal';
+import { OvertimeRequestModal } from '@/components/attendance/OvertimeRequestModal';
+import { AttendanceCalendar } from '@/components/attendance/AttendanceCalendar';
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -35,6 +45,9 @@ const itemVariants = {
 
 export default function AttendancePage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const regularizeParam = searchParams.get('regularize');
+  const regularizeDate = regularizeParam && /^\d{4}-\d{2}-\d{2}$/.test(regularizeParam) ? regularizeParam : null;
   const { user, _hasHydrated } = useAuthStore();
   const {
     attendance,
@@ -48,6 +61,14 @@ export default function AttendancePage() {
     endBreak,
     clearError,
   } = useAttendance();
+  const regularizations = useRegularizations();
+  const { fetchMyRequests } = regularizations;
+  const [showRegularization, setShowRegularization] = useState(false);
+  const overtime = useOvertime();
+  const { fetchMyRequests: fetchMyOvertime } = overtime;
+  const [showOvertime, setShowOvertime] = useState(false);
+
+  const canReview = user?.role === 'Manager' || user?.role === 'HR' || user?.role === 'SuperAdmin';
 
   useEffect(() => {
     if (_hasHydrated && !user) {
@@ -55,6 +76,34 @@ export default function AttendancePage() {
     }
   }, [user, router, _hasHydrated]);
 
+  useEffect(() => {
+    if (user) {
+      fetchMyRequests();
+      fetchMyOvertime();
+    }
+  }, [user, fetchMyRequests, fetchMyOvertime]);
+
+  useEffect(() => {
+    if (regularizeDate) {
+      setShowRegularization(true);
+    }
+  }, [regularizeDate]);
+
+  const formatTime = (value: string | null) => (value ? format(new Date(value), 'h:mm a') : '—');
+
+  const formatMinutes = (minutes: number) => {
+    const h = Math.floor(minutes / 60);
+    const m = minutes % 60;
+    return h > 0 ? (m > 0 ? `${h}h ${m}m` : `${h}h`) : `${m}m`;
+  };
+
+  const statusStyles: Record<string, string> = {
+    Pending: 'bg-warning-light text-warning',
+    Approved: 'bg-success-light text-success',
+    Rejected: 'bg-error-light text-error',
+    Cancelled: 'bg-silver-100 text-silver-500',
+  };
+
   if (!_hasHydrated || !user) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-silver-50">
@@ -188,8 +237,179 @@ export default function AttendancePage() {
               </div>
             </motion.div>
           )}
+
+          {/* Month Calendar */}
+          <motion.div
+            variants={itemVariants}
+            className="bg-white rounded-2xl shadow-sm border border-silver-200 p-6"
+          >
+            <AttendanceCalendar />
+          </motion.div>
+
+          {/* Regularization Requests */}
+          <motion.div
+            variants={itemVariants}
+            className="bg-white rounded-2xl shadow-sm border border-silver-200 p-6"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-navy-900">Corrections</h2>
+              <div className="flex items-center gap-2">
+                {canReview && (
+                  <button
+                    onClick={() => router.push('/attendance/regularizations')}
+                    className="px-3 py-2 text-sm font-medium text-silver-600 border border-silver-200 rounded-lg hover:bg-silver-50 flex items-center gap-2"
+                  >
+                    <ClipboardCheck size={16} />
+                    Review
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    regularizations.clearError();
+                    setShowRegularization(true);
+                  }}
+                  className="btn-primary text-sm flex items-center gap-2"
+                >
+                  <FileClock size={16} />
+                  Request Correction
+                </button>
+              </div>
+            </div>
+
+            {regularizations.requests.length === 0 ? (
+              <p className="text-sm text-silver-500">
+                Missed a check-out or checked in late by mistake? Request a correction for a past day
+                and your manager will review it.
+              </p>
+            ) : (
+              <div className="divide-y divide-silver-100">
+                {regularizations.requests.map((request) => (
+                  <div key={request.id} className="py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-navy-900">
+                        {format(parseISO(request.date.slice(0, 10)), 'EEE, MMM d')}
+                      </p>
+                      <p className="text-sm text-silver-500">
+                        In {formatTime(request.proposedCheckIn)} • Out {formatTime(request.proposedCheckOut)}
+                      </p>
+                      {request.rejectionReason && (
+                        <p className="text-xs text-error mt-1">{request.rejectionReason}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusStyles[request.status]}`}>
+                        {request.status}
+                      </span>
+                      {request.status === 'Pending' && (
+                        <button
+                          onClick={() => regularizations.cancelRequest(request.id)}
+                          disabled={regularizations.isActionLoading}
+                          className="text-sm text-silver-500 hover:text-navy-900 disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+
+          {/* Overtime Requests */}
+          <motion.div
+            variants={itemVariants}
+            className="bg-white rounded-2xl shadow-sm border border-silver-200 p-6"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-navy-900">Overtime</h2>
+              <div className="flex items-center gap-2">
+                {canReview && (
+                  <button
+                    onClick={() => router.push('/attendance/overtime')}
+                    className="px-3 py-2 text-sm font-medium text-silver-600 border border-silver-200 rounded-lg hover:bg-silver-50 flex items-center gap-2"
+                  >
+                    <ClipboardCheck size={16} />
+                    Review
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    overtime.clearError();
+                    setShowOvertime(true);
+                  }}
+                  className="btn-primary text-sm flex items-center gap-2"
+                >
+                  <Timer size={16} />
+                  Request Overtime
+                </button>
+              </div>
+            </div>
+
+            {overtime.requests.length === 0 ? (
+              <p className="text-sm text-silver-500">
+                Only approved overtime is paid. Request overtime before working it, or justify
+                overtime you already worked within 30 days.
+              </p>
+            ) : (
+              <div className="divide-y divide-silver-100">
+                {overtime.requests.map((request) => (
+                  <div key={request.id} className="py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-navy-900">
+                        {format(parseISO(request.date.slice(0, 10)), 'EEE, MMM d')}
+                        <span className="ml-2 text-xs font-normal text-silver-500">
+                          {request.isPreApproval ? 'Pre-approval' : 'Justification'}
+                        </span>
+                      </p>
+                      <p className="text-sm text-silver-500">
+                        {formatMinutes(request.minutes)}
+                        {request.approvedMinutes !== null && request.approvedMinutes !== request.minutes && (
+                          <> • {formatMinutes(request.approvedMinutes)} approved</>
+                        )}
+                      </p>
+                      {request.rejectionReason && (
+                        <p className="text-xs text-error mt-1">{request.rejectionReason}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusStyles[request.status]}`}>
+                        {request.status}
+                      </span>
+                      {request.status === 'Pending' && (
+                        <button
+                          onClick={() => overtime.cancelRequest(request.id)}
+                          disabled={overtime.isActionLoading}
+                          className="text-sm text-silver-500 hover:text-navy-900 disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
         </motion.div>
       </main>
+
+      <RegularizationModal
+        isOpen={showRegularization}
+        isLoading={regularizations.isActionLoading}
+        error={regularizations.error}
+        onClose={() => setShowRegularization(false)}
+        onSubmit={regularizations.createRequest}
+        initialDate={regularizeDate ?? undefined}
+      />
+
+      <OvertimeRequestModal
+        isOpen={showOvertime}
+        isLoading={overtime.isActionLoading}
+        error={overtime.error}
+        onClose={() => setShowOvertime(false)}
+        onSubmit={overtime.createRequest}
+      />
     </div>
   );
 }
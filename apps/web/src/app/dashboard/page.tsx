@@ -34,6 +34,12 @@ import {
   ClipboardList,
   UserCheck,
   Briefcase,
+  CalendarClock,
+  Building,
+  Tablet,
+  Lock,
+  Receipt,
+  Scale,
 } from 'lucide-react';
 import { useAuthStore } from '@/store/auth';
 import { useTotalUnreadCount } from '@/store/chat';
@@ -503,6 +509,13 @@ export default function DashboardPage() {
                     <p className="font-medium text-navy-900">Attendance</p>
                     <p className="text-sm text-silver-500">Today's overview</p>
                   </button>
+                  <button onClick={() => router.push('/admin/schedules')} className="bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all text-left group">
+                    <div className="w-10 h-10 bg-sky-100 rounded-lg flex items-center justify-center mb-3 group-hover:bg-sky-200 transition-colors">
+                      <CalendarClock size={20} className="text-sky-600" />
+                    </div>
+                    <p className="font-medium text-navy-900">Schedules</p>
+                    <p className="text-sm text-silver-500">Shifts & hours</p>
+                  </button>
                   <button onClick={() => router.push('/admin/anomalies')} className="bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all text-left group">
                     <div className="w-10 h-10 bg-orange-100 rounded-lg flex items-center justify-center mb-3 group-hover:bg-orange-200 transition-colors">
                       <Shield size={20} className="text-orange-600" />
@@ -517,6 +530,27 @@ export default function DashboardPage() {
                     <p className="font-medium text-navy-900">Team Activity</p>
                     <p className="text-sm text-silver-500">View activities</p>
                   </button>
+                  <button onClick={() => router.push('/admin/customer-sites')} className="bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all text-left group">
+                    <div className="w-10 h-10 bg-cyan-100 rounded-lg flex items-center justify-center mb-3 group-hover:bg-cyan-200 transition-colors">
+                      <Building size={20} className="text-cyan-600" />
+                    </div>
+                    <p className="font-medium text-navy-900">Customer Sites</p>
+                    <p className="text-sm text-silver-500">Sites & visits</p>
+                  </button>
+                  <button onClick={() => router.push('/admin/kiosks')} className="bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all text-left group">
+                    <div className="w-10 h-10 bg-sky-100 rounded-lg flex items-center justify-center mb-3 group-hover:bg-sky-200 transition-colors">
+                      <Tablet size={20} className="text-sky-600" />
+                    </div>
+                    <p className="font-medium text-navy-900">Kiosks</p>
+                    <p className="text-sm text-silver-500">Shared check-in</p>
+                  </button>
+                  <button onClick={() => router.push('/admin/payroll-periods')} className="bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all text-left group">
+                    <div className="w-10 h-10 bg-stone-100 rounded-lg flex items-center justify-center mb-3 group-hover:bg-stone-200 transition-colors">
+                      <Lock size={20} className="text-stone-600" />
+                    </div>
+                    <p className="font-medium text-navy-900">Payroll Periods</p>
+                    <p className="text-sm text-silver-500">Close & adjust</p>
+                  </button>
                   <button onClick={() => router.push('/reports')} className="bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all text-left group">
                     <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center mb-3 group-hover:bg-indigo-200 transition-colors">
                       <BarChart3 size={20} className="text-indigo-600" />
@@ -524,6 +558,13 @@ export default function DashboardPage() {
                     <p className="font-medium text-navy-900">Reports</p>
                     <p className="text-sm text-silver-500">View dashboards</p>
                   </button>
+                  <button onClick={() => router.push('/reports/timesheet-reconciliation')} className="bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all text-left group">
+                    <div className="w-10 h-10 bg-amber-100 rounded-lg flex items-center justify-center mb-3 group-hover:bg-amber-200 transition-colors">
+                      <Scale size={20} className="text-amber-600" />
+                    </div>
+                    <p className="font-medium text-navy-900">Reconciliation</p>
+                    <p className="text-sm text-silver-500">Worked vs logged</p>
+                  </button>
                   <button onClick={() => router.push('/chat')} className="bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all text-left group relative">
                     <div className="w-10 h-10 bg-orange-100 rounded-lg flex items-center justify-center mb-3 group-hover:bg-orange-200 transition-colors">
                       <MessageSquare size={20} className="text-orange-600" />
@@ -545,6 +586,15 @@ export default function DashboardPage() {
                       <p className="text-sm text-silver-500">Policies & config</p>
                     </button>
                   )}
+                  {user.role === 'SuperAdmin' && (
+                    <button onClick={() => router.push('/admin/invoices')} className="bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all text-left group">
+                      <div className="w-10 h-10 bg-emerald-100 rounded-lg flex items-center justify-center mb-3 group-hover:bg-emerald-200 transition-colors">
+                        <Receipt size={20} className="text-emerald-600" />
+                      </div>
+                      <p className="font-medium text-navy-900">Invoices</p>
+                      <p className="text-sm text-silver-500">Client billing</p>
+                    </button>
+                  )}
                 </div>
               </motion.div>
 
@@ -891,6 +941,29 @@ export default function DashboardPage() {
                 <TaskBreakdownCard period="today" />
               </motion.div>
 
+              {/* Timesheet Reconciliation Link */}
+              <motion.div variants={itemVariants}>
+                <button
+                  onClick={() => router.push('/reports/timesheet-reconciliation')}
+                  className="w-full bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all flex items-center justify-between"
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-amber-100 rounded-lg flex items-center justify-center">
+                      <Scale size={20} className="text-amber-600" />
+                    </div>
+                    <div className="text-left">
+                      <p className="font-medium text-navy-900">Timesheet Reconciliation</p>
+                      <p className="text-sm text-silver-500">
+                        {user.role === 'Manager'
+                          ? 'Days where your team\'s logged time and attendance differ'
+                          : 'Days where your logged time and attendance differ'}
+                      </p>
+                    </div>
+                  </div>
+                  <ChevronRight size={20} className="text-silver-400" />
+                </button>
+              </motion.div>
+
               {/* Manager Team Activity Link */}
               {user.role === 'Manager' && (
                 <motion.div variants={itemVariants}>
@@ -909,6 +982,21 @@ export default function DashboardPage() {
                     </div>
                     <ChevronRight size={20} className="text-silver-400" />
                   </button>
+                  <button
+                    onClick={() => router.push('/reports/site-visits')}
+                    className="mt-3 w-full bg-white rounded-xl p-4 border border-silver-200 hover:border-blue-300 hover:shadow-md transition-all flex items-center justify-between"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 bg-cyan-100 rounded-lg flex items-center justify-center">
+                        <Building size={20} className="text-cyan-600" />
+                      </div>
+                      <div className="text-left">
+                        <p className="font-medium text-navy-900">Customer Site Visits</p>
+                        <p className="text-sm text-silver-500">Time your team spent at customer sites</p>
+                      </div>
+                    </div>
+                    <ChevronRight size={20} className="text-silver-400" />
+                  </button>
                 </motion.div>
               )}
             </>
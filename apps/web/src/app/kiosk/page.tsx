@@ -0,0 +1,376 @@
+'use client';
+
+/**
+ * Kiosk Page
+ *
+ * Full-screen check-in terminal for a shared tablet or PC at an office.
+ * The browser is set up once with a kiosk device token from HR; employees
+ * then identify with their employee code and PIN to check in/out or take a
+ * break. Nothing about the employee is kept once the screen resets.
+ */
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { format } from 'date-fns';
+import { LogIn, LogOut, Coffee, UtensilsCrossed, Play, Loader2, MapPin, CheckCircle, XCircle } from 'lucide-react';
+import { kioskApi, KIOSK_TOKEN_KEY } from '@/lib/api';
+
+type EmployeeState = 'CheckedOut' | 'CheckedIn' | 'OnBreak';
+type BreakType = 'Break' | 'Lunch';
+
+interface KioskInfo {
+  id: string;
+  name: string;
+  officeLocation: { id: string; name: string };
+}
+
+interface IdentifiedEmployee {
+  employee: { employeeCode: string; name: string };
+  state: EmployeeState;
+}
+
+interface PunchResult {
+  employee: { employeeCode: string; name: string };
+  timestamp: string;
+  workedMinutes?: number;
+}
+
+/** How long the actions and result screens stay up before resetting */
+const ACTIONS_TIMEOUT_MS = 30 * 1000;
+const RESULT_TIMEOUT_MS = 5 * 1000;
+
+export default function KioskPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [kiosk, setKiosk] = useState<KioskInfo | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [now, setNow] = useState(new Date());
+
+  const [employeeCode, setEmployeeCode] = useState('');
+  const [pin, setPin] = useState('');
+  const [identified, setIdentified] = useState<IdentifiedEmployee | null>(null);
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const reset = useCallback(() => {
+    setEmployeeCode('');
+    setPin('');
+    setIdentified(null);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  const scheduleReset = useCallback((ms: number) => {
+    clearTimeout(resetTimer.current);
+    resetTimer.current = setTimeout(reset, ms);
+  }, [reset]);
+
+  // Device token problems mean the kiosk was deactivated or mis-set up
+  const handleUnauthorized = useCallback(() => {
+    localStorage.removeItem(KIOSK_TOKEN_KEY);
+    setToken(null);
+    setKiosk(null);
+    reset();
+    setError('This kiosk is not registered or has been deactivated.');
+  }, [reset]);
+
+  const connect = useCallback(async (deviceToken: string) => {
+    setIsLoading(true);
+    try {
+      const response = await kioskApi<KioskInfo>(deviceToken, '');
+      if (response.success && response.data) {
+        localStorage.setItem(KIOSK_TOKEN_KEY, deviceToken);
+        setToken(deviceToken);
+        setKiosk(response.data);
+        setError(null);
+      } else {
+        handleUnauthorized();
+      }
+    } catch (err) {
+      setError('Cannot reach the server. Check the network connection.');
+    } finally {
+      setIsLoading(false);
+      setIsReady(true);
+    }
+  }, [handleUnauthorized]);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(KIOSK_TOKEN_KEY);
+    if (stored) {
+      connect(stored);
+    } else {
+      setIsReady(true);
+    }
+  }, [connect]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => () => clearTimeout(resetTimer.current), []);
+
+  const handleIdentify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await kioskApi<IdentifiedEmployee>(token, '/identify', { employeeCode, pin });
+      if (response.status === 401) {
+        handleUnauthorized();
+      } else if (response.success && response.data) {
+        setIdentified(response.data);
+        scheduleReset(ACTIONS_TIMEOUT_MS);
+      } else {
+        setPin('');
+        setError(response.error?.message || 'Invalid employee code or PIN');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAction = async (
+    endpoint: '/check-in' | '/check-out' | '/break/start' | '/break/end',
+    successMessage: (data: PunchResult) => string,
+    breakType?: BreakType
+  ) => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      const response = await kioskApi<PunchResult>(token, endpoint, {
+        employeeCode,
+        pin,
+        ...(breakType ? { type: breakType } : {}),
+      });
+      if (response.status === 401) {
+        handleUnauthorized();
+        return;
+      }
+      setResult(
+        response.success && response.data
+          ? { ok: true, message: successMessage(response.data) }
+          : { ok: false, message: response.error?.message || 'Something went wrong' }
+      );
+    } catch (err) {
+      setResult({ ok: false, message: 'Network error. Please try again.' });
+    } finally {
+      setIsLoading(false);
+      scheduleReset(RESULT_TIMEOUT_MS);
+    }
+  };
+
+  const timeOf = (data: PunchResult) => format(new Date(data.timestamp), 'h:mm a');
+
+  if (!isReady) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-navy-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-white border-t-transparent" />
+      </div>
+    );
+  }
+
+  // One-time setup with the device token from HR
+  if (!token || !kiosk) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-navy-900 to-navy-950 p-4">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            connect(tokenInput.trim());
+          }}
+          className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 space-y-5"
+        >
+          <div>
+            <h1 className="text-2xl font-bold text-navy-900">Kiosk Setup</h1>
+            <p className="text-silver-500 mt-2">
+              Enter the device token shown to HR when this kiosk was registered.
+            </p>
+          </div>
+          {error && (
+            <div className="bg-error-light border border-error/20 text-error rounded-lg px-4 py-3 text-sm">
+              {error}
+            </div>
+          )}
+          <input
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="kiosk.…"
+            className="input font-mono"
+            autoComplete="off"
+            required
+          />
+          <button type="submit" disabled={isLoading} className="btn-primary w-full flex items-center justify-center gap-2">
+            {isLoading && <Loader2 size={18} className="animate-spin" />}
+            Activate Kiosk
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-navy-900 to-navy-950 text-white">
+      <header className="flex items-center justify-between px-8 py-6">
+        <div>
+          <p className="text-lg font-semibold">{kiosk.name}</p>
+          <p className="text-silver-300 flex items-center gap-1 text-sm">
+            <MapPin size={14} />
+            {kiosk.officeLocation.name}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-4xl font-bold tabular-nums">{format(now, 'h:mm:ss a')}</p>
+          <p className="text-silver-300">{format(now, 'EEEE, MMMM d')}</p>
+        </div>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        <div className="w-full max-w-md bg-white text-navy-900 rounded-2xl shadow-xl p-8">
+          {result ? (
+            <div className="text-center py-6">
+              {result.ok ? (
+                <CheckCircle size={64} className="mx-auto text-success mb-4" />
+              ) : (
+                <XCircle size={64} className="mx-auto text-error mb-4" />
+              )}
+              <p className="text-xl font-semibold">{result.message}</p>
+              <button onClick={reset} className="mt-6 text-silver-500 hover:text-navy-900">
+                Done
+              </button>
+            </div>
+          ) : identified ? (
+            <div className="space-y-4">
+              <div className="text-center">
+                <p className="text-2xl font-bold">Hi, {identified.employee.name}</p>
+                <p className="text-silver-500 mt-1">
+                  {identified.state === 'CheckedOut'
+                    ? 'You are not checked in'
+                    : identified.state === 'OnBreak'
+                      ? 'You are on a break'
+                      : 'You are checked in'}
+                </p>
+              </div>
+
+              {identified.state === 'CheckedOut' && (
+                <button
+                  onClick={() => handleAction('/check-in', (d) => `Checked in at ${timeOf(d)}`)}
+                  disabled={isLoading}
+                  className="w-full py-4 bg-success text-white rounded-xl text-lg font-semibold flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <LogIn size={22} />
+                  Check In
+                </button>
+              )}
+
+              {identified.state === 'CheckedIn' && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      onClick={() => handleAction('/break/start', (d) => `Break started at ${timeOf(d)}`, 'Break')}
+                      disabled={isLoading}
+                      className="py-4 bg-warning-light text-warning rounded-xl font-semibold flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                      <Coffee size={20} />
+                      Break
+                    </button>
+                    <button
+                      onClick={() => handleAction('/break/start', (d) => `Lunch started at ${timeOf(d)}`, 'Lunch')}
+                      disabled={isLoading}
+                      className="py-4 bg-warning-light text-warning rounded-xl font-semibold flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                      <UtensilsCrossed size={20} />
+                      Lunch
+                    </button>
+                  </div>
+                  <button
+                    onClick={() =>
+                      handleAction('/check-out', (d) =>
+                        d.workedMinutes !== undefined
+                          ? `Checked out at ${timeOf(d)} • ${Math.floor(d.workedMinutes / 60)}h ${d.workedMinutes % 60}m today`
+                          : `Checked out at ${timeOf(d)}`
+                      )
+                    }
+                    disabled={isLoading}
+                    className="w-full py-4 bg-error text-white rounded-xl text-lg font-semibold flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    <LogOut size={22} />
+                    Check Out
+                  </button>
+                </>
+              )}
+
+              {identified.state === 'OnBreak' && (
+                <button
+                  onClick={() => handleAction('/break/end', (d) => `Back from break at ${timeOf(d)}`)}
+                  disabled={isLoading}
+                  className="w-full py-4 bg-blue-600 text-white rounded-xl text-lg font-semibold flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <Play size={22} />
+                  End Break
+                </button>
+              )}
+
+              <button onClick={reset} className="w-full py-2 text-silver-500 hover:text-navy-900">
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleIdentify} className="space-y-5">
+              <h1 className="text-2xl font-bold text-center">Check In / Out</h1>
+              {error && (
+                <div className="bg-error-light border border-error/20 text-error rounded-lg px-4 py-3 text-sm">
+                  {error}
+                </div>
+              )}
+              <div>
+                <label htmlFor="employeeCode" className="block text-sm font-medium text-navy-700 mb-1.5">
+                  Employee code
+                </label>
+                <input
+                  id="employeeCode"
+                  value={employeeCode}
+                  onChange={(e) => setEmployeeCode(e.target.value)}
+                  className="input text-lg"
+                  autoComplete="off"
+                  autoFocus
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="pin" className="block text-sm font-medium text-navy-700 mb-1.5">
+                  PIN
+                </label>
+                <input
+                  id="pin"
+                  type="password"
+                  inputMode="numeric"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  className="input text-lg tracking-widest"
+                  autoComplete="off"
+                  required
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="btn-primary w-full py-3 text-lg flex items-center justify-center gap-2"
+              >
+                {isLoading && <Loader2 size={20} className="animate-spin" />}
+                Continue
+              </button>
+            </form>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
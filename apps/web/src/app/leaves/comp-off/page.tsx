@@ -0,0 +1,150 @@
+'use client';
+
+/**
+ * Comp-Off Confirmation Page
+ *
+ * Managers confirm comp-off earned by their direct reports on holidays and
+ * non-working days; HR and admins see every pending credit in the company.
+ */
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, CheckCircle, XCircle, CalendarPlus, Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useAuthStore } from '@/store/auth';
+import { useCompOff } from '@/hooks/useCompOff';
+
+export default function CompOffReviewPage() {
+  const router = useRouter();
+  const { user, _hasHydrated } = useAuthStore();
+  const {
+    credits,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchPending,
+    approveCredit,
+    rejectCredit,
+  } = useCompOff();
+
+  const canReview = user?.role === 'Manager' || user?.role === 'HR' || user?.role === 'SuperAdmin';
+
+  useEffect(() => {
+    if (_hasHydrated && !user) {
+      router.push('/login');
+    } else if (_hasHydrated && user && !canReview) {
+      router.push('/dashboard');
+    }
+  }, [user, router, _hasHydrated, canReview]);
+
+  useEffect(() => {
+    if (user && canReview) {
+      fetchPending();
+    }
+  }, [user, canReview, fetchPending]);
+
+  const handleReject = async (id: string) => {
+    const reason = prompt('Enter rejection reason:');
+    if (!reason) return;
+    await rejectCredit(id, reason);
+  };
+
+  if (!_hasHydrated || !user || !canReview) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-silver-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-600 border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <button onClick={() => router.back()} className="p-2 hover:bg-silver-100 rounded-lg">
+                <ArrowLeft size={20} />
+              </button>
+              <h1 className="text-lg font-semibold text-navy-900">Comp-Off Confirmation</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 bg-error-light border border-error/20 text-error rounded-lg px-4 py-3">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent" />
+          </div>
+        ) : credits.length === 0 ? (
+          <div className="bg-white rounded-xl border border-silver-200 p-12 text-center">
+            <CalendarPlus size={48} className="mx-auto text-silver-300 mb-4" />
+            <p className="text-silver-500">No comp-off awaiting confirmation</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {credits.map((credit) => {
+              const profile = credit.user?.profile;
+              return (
+                <div
+                  key={credit.id}
+                  className="bg-white rounded-xl border border-silver-200 p-6 hover:shadow-md transition-shadow"
+                >
+                  <div className="flex items-start gap-4">
+                    <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
+                      <span className="text-blue-600 font-medium">
+                        {profile ? `${profile.firstName[0]}${profile.lastName[0]}` : '?'}
+                      </span>
+                    </div>
+                    <div>
+                      <h3 className="font-semibold text-navy-900">
+                        {profile ? `${profile.firstName} ${profile.lastName}` : 'Employee'}
+                      </h3>
+                      <p className="text-silver-500 text-sm mt-1">
+                        {format(parseISO(credit.date.slice(0, 10)), 'EEEE, MMM d, yyyy')} •{' '}
+                        {credit.holiday?.name ?? 'Non-working day'} • Worked{' '}
+                        {Math.floor(credit.workedMinutes / 60)}h {credit.workedMinutes % 60}m
+                      </p>
+                      <p className="text-silver-600 text-sm mt-2">
+                        <span className="font-medium">Credit:</span>{' '}
+                        {Number(credit.days) === 1 ? 'Full day' : 'Half day'} • Expires{' '}
+                        {format(parseISO(credit.expiresAt.slice(0, 10)), 'MMM d, yyyy')}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="mt-4 pt-4 border-t border-silver-100 flex justify-end gap-3">
+                    <button
+                      onClick={() => handleReject(credit.id)}
+                      disabled={isActionLoading}
+                      className="px-4 py-2 border border-error text-error rounded-lg hover:bg-error-light transition-colors disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <XCircle size={16} />}
+                      Reject
+                    </button>
+                    <button
+                      onClick={() => approveCredit(credit.id)}
+                      disabled={isActionLoading}
+                      className="px-4 py-2 bg-success text-white rounded-lg hover:bg-success/90 transition-colors disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle size={16} />}
+                      Confirm
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,10 +1,33 @@
 'use client';
 
+import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, Plus, Calendar, CheckCircle, Clock, XCircle } from 'lucide-react';
+import { ArrowLeft, Plus, Calendar, CheckCircle, Clock, XCircle, CalendarPlus, ClipboardCheck } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useAuthStore } from '@/store/auth';
+import { useCompOff } from '@/hooks/useCompOff';
 
 export default function LeavesPage() {
   const router = useRouter();
+  const { user } = useAuthStore();
+  const { credits, fetchMyCredits } = useCompOff();
+
+  const canReview = user?.role === 'Manager' || user?.role === 'HR' || user?.role === 'SuperAdmin';
+
+  useEffect(() => {
+    if (user) {
+      fetchMyCredits();
+    }
+  }, [user, fetchMyCredits]);
+
+  const creditStatusStyles: Record<string, string> = {
+    Pending: 'bg-warning-light text-warning',
+    Approved: 'bg-success-light text-success',
+    Rejected: 'bg-error-light text-error',
+    Expired: 'bg-silver-100 text-silver-500',
+  };
+
+  const formatDay = (value: string) => format(parseISO(value.slice(0, 10)), 'MMM d, yyyy');
 
   const leaves = [
     { id: 1, type: 'Annual Leave', from: 'Jan 25', to: 'Jan 27', days: 3, status: 'Pending' },
@@ -95,6 +118,57 @@ export default function LeavesPage() {
             })}
           </div>
         </div>
+
+        {/* Comp-Off Credits */}
+        <div className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+          <div className="p-4 border-b border-silver-100 flex items-center justify-between">
+            <h2 className="font-semibold text-navy-900">Comp-Off Credits</h2>
+            {canReview && (
+              <button
+                onClick={() => router.push('/leaves/comp-off')}
+                className="px-3 py-2 text-sm font-medium text-silver-600 border border-silver-200 rounded-lg hover:bg-silver-50 flex items-center gap-2"
+              >
+                <ClipboardCheck size={16} />
+                Confirm Comp-Off
+              </button>
+            )}
+          </div>
+          {credits.length === 0 ? (
+            <p className="p-4 text-sm text-silver-500">
+              Working on a holiday or a non-working day earns comp-off once your manager confirms it.
+            </p>
+          ) : (
+            <div className="divide-y divide-silver-100">
+              {credits.map((credit) => (
+                <div key={credit.id} className="p-4 hover:bg-silver-50 flex items-center justify-between">
+                  <div className="flex items-center gap-4">
+                    <div className="p-2 bg-teal-100 rounded-lg">
+                      <CalendarPlus size={20} className="text-teal-600" />
+                    </div>
+                    <div>
+                      <h3 className="font-medium text-navy-900">
+                        {Number(credit.days) === 1 ? 'Full day' : 'Half day'} •{' '}
+                        {credit.holiday?.name ?? 'Non-working day'}
+                      </h3>
+                      <p className="text-sm text-silver-500">
+                        Worked {formatDay(credit.date)} • {Math.floor(credit.workedMinutes / 60)}h{' '}
+                        {credit.workedMinutes % 60}m
+                        {(credit.status === 'Pending' || credit.status === 'Approved') &&
+                          ` • Expires ${formatDay(credit.expiresAt)}`}
+                      </p>
+                      {credit.rejectionReason && (
+                        <p className="text-xs text-error mt-1">{credit.rejectionReason}</p>
+                      )}
+                    </div>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-sm ${creditStatusStyles[credit.status]}`}>
+                    {credit.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </main>
     </div>
   );
@@ -0,0 +1,304 @@
+'use client';
+
+/**
+ * Site Visits Report Page
+ *
+ * Time on site per customer site and employee for client billing, with the
+ * visit history of each site. Managers see their direct reports; HR and
+ * SuperAdmin see the whole company.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, subDays } from 'date-fns';
+import {
+  ArrowLeft,
+  Building,
+  ChevronDown,
+  ChevronRight,
+  Camera,
+  AlertCircle,
+  MapPin,
+} from 'lucide-react';
+import { useAuthStore } from '@/store/auth';
+import { useCustomerSites, useTimesheets, SiteVisit, TimeOnSiteReport } from '@/hooks';
+
+const formatMinutes = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+};
+
+export default function SiteVisitsReportPage() {
+  const router = useRouter();
+  const { user, _hasHydrated } = useAuthStore();
+  const { isLoading, error, fetchTimeOnSite, fetchSiteVisits, getVisitPhotoUrl, clearError } =
+    useCustomerSites();
+  const { projects, fetchProjects } = useTimesheets();
+
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [projectId, setProjectId] = useState('');
+  const [report, setReport] = useState<TimeOnSiteReport | null>(null);
+  const [expandedSite, setExpandedSite] = useState<string | null>(null);
+  const [visits, setVisits] = useState<SiteVisit[] | null>(null);
+
+  const canView = user?.role === 'Manager' || user?.role === 'HR' || user?.role === 'SuperAdmin';
+
+  useEffect(() => {
+    if (_hasHydrated && !user) {
+      router.push('/login');
+    } else if (_hasHydrated && !canView) {
+      router.replace('/dashboard');
+    }
+  }, [user, _hasHydrated, canView, router]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  const loadReport = useCallback(async () => {
+    setExpandedSite(null);
+    setVisits(null);
+    const data = await fetchTimeOnSite({ startDate, endDate, projectId: projectId || undefined });
+    setReport(data);
+  }, [fetchTimeOnSite, startDate, endDate, projectId]);
+
+  useEffect(() => {
+    if (canView) {
+      loadReport();
+    }
+  }, [canView, loadReport]);
+
+  const handleToggleSite = async (siteId: string) => {
+    if (expandedSite === siteId) {
+      setExpandedSite(null);
+      return;
+    }
+    setExpandedSite(siteId);
+    setVisits(null);
+    setVisits(await fetchSiteVisits(siteId, { startDate, endDate }));
+  };
+
+  const handleViewPhoto = async (visitId: string) => {
+    const url = await getVisitPhotoUrl(visitId);
+    if (url) {
+      window.open(url, '_blank', 'noopener');
+    }
+  };
+
+  if (!_hasHydrated || !canView) {
+    return null;
+  }
+
+  const totalMinutes = report?.sites.reduce((sum, s) => sum + s.totalMinutes, 0) ?? 0;
+  const totalVisits = report?.sites.reduce((sum, s) => sum + s.visitCount, 0) ?? 0;
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      {/* Header */}
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <button
+              onClick={() => router.back()}
+              className="p-2 hover:bg-silver-100 rounded-lg transition-colors"
+            >
+              <ArrowLeft size={20} />
+            </button>
+            <div>
+              <h1 className="font-semibold text-navy-900 text-lg">Site Visits</h1>
+              <p className="text-sm text-silver-500">
+                {user?.role === 'Manager' ? 'Your direct reports' : 'All employees'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Filters */}
+        <div className="bg-white rounded-xl border border-silver-200 p-4 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-1">From</label>
+            <input
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="px-3 py-2 border border-silver-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-1">To</label>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="px-3 py-2 border border-silver-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-1">Project</label>
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="px-3 py-2 border border-silver-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All projects</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.code} - {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="ml-auto text-sm text-silver-500">
+            {totalVisits} visits &middot; {formatMinutes(totalMinutes)} on site
+          </div>
+        </div>
+
+        {/* Error banner */}
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+            <AlertCircle size={20} className="text-red-600 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+            <button
+              onClick={clearError}
+              className="ml-auto text-red-600 hover:text-red-800 text-sm font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Time on site per site */}
+        {isLoading && !report ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-600 border-t-transparent" />
+          </div>
+        ) : !report || report.sites.length === 0 ? (
+          <div className="bg-white rounded-xl border border-silver-200 p-12 text-center">
+            <div className="inline-flex items-center justify-center p-4 bg-silver-50 rounded-full mb-4">
+              <Building size={32} className="text-silver-300" />
+            </div>
+            <h3 className="text-lg font-medium text-navy-900 mb-2">No Site Visits</h3>
+            <p className="text-silver-500">No one checked in at a customer site in this period.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-silver-200 overflow-hidden divide-y divide-silver-100">
+            {report.sites.map((entry) => (
+              <div key={entry.site.id}>
+                <button
+                  onClick={() => handleToggleSite(entry.site.id)}
+                  className="w-full grid grid-cols-12 gap-4 px-4 py-4 items-center text-left hover:bg-silver-50 transition-colors"
+                >
+                  <div className="col-span-5 flex items-center gap-2 min-w-0">
+                    {expandedSite === entry.site.id ? (
+                      <ChevronDown size={16} className="text-silver-500 flex-shrink-0" />
+                    ) : (
+                      <ChevronRight size={16} className="text-silver-500 flex-shrink-0" />
+                    )}
+                    <Building size={16} className="text-blue-500 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-navy-900 truncate">{entry.site.name}</p>
+                      {entry.site.customerName && (
+                        <p className="text-xs text-silver-500 truncate">{entry.site.customerName}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="col-span-3 text-sm text-silver-600 truncate">
+                    {entry.site.project ? `${entry.site.project.code} - ${entry.site.project.name}` : '-'}
+                  </div>
+                  <div className="col-span-2 text-sm text-silver-600">
+                    {entry.visitCount} visit{entry.visitCount !== 1 ? 's' : ''}
+                    {entry.openVisits > 0 && (
+                      <span className="ml-1 text-xs text-blue-600">({entry.openVisits} on site)</span>
+                    )}
+                  </div>
+                  <div className="col-span-2 text-right font-medium text-navy-900">
+                    {formatMinutes(entry.totalMinutes)}
+                  </div>
+                </button>
+
+                {expandedSite === entry.site.id && (
+                  <div className="px-4 pb-4 pl-12 space-y-4 bg-silver-50">
+                    {/* Per employee */}
+                    <div className="pt-3">
+                      <h4 className="text-xs font-semibold text-silver-500 uppercase mb-2">By employee</h4>
+                      <div className="space-y-1">
+                        {entry.employees.map((employee) => (
+                          <div key={employee.userId} className="flex justify-between text-sm">
+                            <span className="text-navy-900">{employee.employeeName}</span>
+                            <span className="text-silver-600">
+                              {employee.visitCount} visit{employee.visitCount !== 1 ? 's' : ''} &middot;{' '}
+                              {formatMinutes(employee.totalMinutes)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Visit history */}
+                    <div>
+                      <h4 className="text-xs font-semibold text-silver-500 uppercase mb-2">Visit history</h4>
+                      {!visits ? (
+                        <p className="text-sm text-silver-500">Loading visits...</p>
+                      ) : (
+                        <div className="bg-white rounded-lg border border-silver-200 divide-y divide-silver-100">
+                          {visits.map((visit) => (
+                            <div key={visit.id} className="grid grid-cols-12 gap-3 px-3 py-2 text-sm items-center">
+                              <div className="col-span-3 text-navy-900 truncate">{visit.employeeName}</div>
+                              <div className="col-span-3 text-silver-600">
+                                {format(new Date(visit.arrivedAt), 'MMM d, HH:mm')}
+                                {' - '}
+                                {visit.departedAt ? format(new Date(visit.departedAt), 'HH:mm') : 'now'}
+                              </div>
+                              <div className="col-span-2 text-silver-600">
+                                {visit.durationMinutes != null ? formatMinutes(visit.durationMinutes) : 'On site'}
+                              </div>
+                              <div className="col-span-2">
+                                {visit.isOnSite === false ? (
+                                  <span
+                                    className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-orange-50 text-orange-700"
+                                    title={`${visit.distanceMeters}m from the site at check-in`}
+                                  >
+                                    <MapPin size={12} />
+                                    Off site
+                                  </span>
+                                ) : visit.isOnSite ? (
+                                  <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-green-50 text-green-700">
+                                    <MapPin size={12} />
+                                    On site
+                                  </span>
+                                ) : (
+                                  <span className="text-xs text-silver-400">No GPS</span>
+                                )}
+                              </div>
+                              <div className="col-span-2 text-right">
+                                {visit.hasPhoto && (
+                                  <button
+                                    onClick={() => handleViewPhoto(visit.id)}
+                                    className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+                                  >
+                                    <Camera size={14} />
+                                    Photo
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
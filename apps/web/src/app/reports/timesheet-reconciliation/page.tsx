@@ -0,0 +1,363 @@
+'use client';
+
+/**
+ * Timesheet Reconciliation Report Page
+ *
+ * Days where attendance worked minutes and logged timesheet minutes do not
+ * add up: unlogged time, over-logged time and time logged on leave.
+ * Employees see their own days and can fix entries or request an attendance
+ * correction; managers and HR can flag a day for the employee to correct.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, subDays } from 'date-fns';
+import { ArrowLeft, AlertCircle, CheckCircle, Flag, FileClock, Pencil } from 'lucide-react';
+import { useAuthStore } from '@/store/auth';
+import { api } from '@/lib/api';
+import { useTimesheetReconciliation, ReconciliationIssue, ReconciliationRow } from '@/hooks';
+
+interface EmployeeOption {
+  id: string;
+  email: string;
+  profile?: { firstName: string; lastName: string; department: string | null; managerId: string | null };
+}
+
+const formatMinutes = (minutes: number) => {
+  const h = Math.floor(Math.abs(minutes) / 60);
+  const m = Math.abs(minutes) % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+};
+
+const employeeName = (employee: { email: string; profile?: { firstName: string; lastName: string } | null }) =>
+  employee.profile ? `${employee.profile.firstName} ${employee.profile.lastName}` : employee.email;
+
+const issueLabels: Record<ReconciliationIssue, string> = {
+  Unlogged: 'Unlogged',
+  OverLogged: 'Over-logged',
+  LeaveConflict: 'Logged on leave',
+};
+
+const issueStyles: Record<ReconciliationIssue, string> = {
+  Unlogged: 'bg-orange-50 text-orange-700',
+  OverLogged: 'bg-red-50 text-red-700',
+  LeaveConflict: 'bg-purple-50 text-purple-700',
+};
+
+export default function TimesheetReconciliationPage() {
+  const router = useRouter();
+  const { user, _hasHydrated } = useAuthStore();
+  const { report, isLoading, isActionLoading, error, fetchReport, flagDay, clearError } =
+    useTimesheetReconciliation();
+
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 14), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(subDays(new Date(), 1), 'yyyy-MM-dd'));
+  const [issue, setIssue] = useState<ReconciliationIssue | ''>('');
+  const [department, setDepartment] = useState('');
+  const [managerId, setManagerId] = useState('');
+  const [userId, setUserId] = useState('');
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [flagged, setFlagged] = useState<Set<string>>(new Set());
+
+  const isOrgWide = user?.role === 'HR' || user?.role === 'SuperAdmin';
+  const canFlag = isOrgWide || user?.role === 'Manager';
+
+  useEffect(() => {
+    if (_hasHydrated && !user) {
+      router.push('/login');
+    }
+  }, [user, _hasHydrated, router]);
+
+  useEffect(() => {
+    if (!isOrgWide) return;
+
+    api
+      .get<{ data: EmployeeOption[] }>('/users?page=1&limit=100')
+      .then((response) => {
+        if (response.success && response.data) {
+          setEmployees(response.data.data || []);
+        }
+      })
+      .catch((err) => console.error('Failed to fetch employees:', err));
+  }, [isOrgWide]);
+
+  const departments = useMemo(
+    () =>
+      Array.from(new Set(employees.map((e) => e.profile?.department).filter((d): d is string => !!d))).sort(),
+    [employees]
+  );
+  const managers = useMemo(() => {
+    const managerIds = new Set(employees.map((e) => e.profile?.managerId).filter(Boolean));
+    return employees.filter((e) => managerIds.has(e.id));
+  }, [employees]);
+
+  const loadReport = useCallback(() => {
+    setFlagged(new Set());
+    fetchReport({
+      startDate,
+      endDate,
+      issue: issue || undefined,
+      department: department || undefined,
+      managerId: managerId || undefined,
+      userId: userId || undefined,
+    });
+  }, [fetchReport, startDate, endDate, issue, department, managerId, userId]);
+
+  useEffect(() => {
+    if (user) {
+      loadReport();
+    }
+  }, [user, loadReport]);
+
+  const handleFlag = async (row: ReconciliationRow) => {
+    const note = prompt(`Note for ${employeeName(row.user)} (optional)`);
+    if (note === null) return;
+    if (await flagDay(row.user.id, row.date, note.trim() || undefined)) {
+      setFlagged((prev) => new Set(prev).add(`${row.user.id}:${row.date}`));
+    }
+  };
+
+  if (!_hasHydrated || !user) {
+    return null;
+  }
+
+  const selectClass =
+    'px-3 py-2 border border-silver-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      {/* Header */}
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <button
+              onClick={() => router.back()}
+              className="p-2 hover:bg-silver-100 rounded-lg transition-colors"
+            >
+              <ArrowLeft size={20} />
+            </button>
+            <div>
+              <h1 className="font-semibold text-navy-900 text-lg">Timesheet Reconciliation</h1>
+              <p className="text-sm text-silver-500">
+                {isOrgWide ? 'All employees' : user.role === 'Manager' ? 'You and your direct reports' : 'Your days'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Filters */}
+        <div className="bg-white rounded-xl border border-silver-200 p-4 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-1">From</label>
+            <input
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={selectClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-1">To</label>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={selectClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-1">Issue</label>
+            <select
+              value={issue}
+              onChange={(e) => setIssue(e.target.value as ReconciliationIssue | '')}
+              className={selectClass}
+            >
+              <option value="">All issues</option>
+              {(Object.keys(issueLabels) as ReconciliationIssue[]).map((key) => (
+                <option key={key} value={key}>
+                  {issueLabels[key]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {isOrgWide && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-navy-900 mb-1">Department</label>
+                <select value={department} onChange={(e) => setDepartment(e.target.value)} className={selectClass}>
+                  <option value="">All departments</option>
+                  {departments.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-navy-900 mb-1">Team</label>
+                <select value={managerId} onChange={(e) => setManagerId(e.target.value)} className={selectClass}>
+                  <option value="">All managers</option>
+                  {managers.map((manager) => (
+                    <option key={manager.id} value={manager.id}>
+                      {employeeName(manager)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-navy-900 mb-1">Employee</label>
+                <select value={userId} onChange={(e) => setUserId(e.target.value)} className={selectClass}>
+                  <option value="">All employees</option>
+                  {employees.map((employee) => (
+                    <option key={employee.id} value={employee.id}>
+                      {employeeName(employee)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+          {report && (
+            <div className="ml-auto text-sm text-silver-500">
+              {report.totals.days} day{report.totals.days !== 1 ? 's' : ''} &middot;{' '}
+              {formatMinutes(report.totals.unloggedMinutes)} unlogged &middot;{' '}
+              {formatMinutes(report.totals.overLoggedMinutes)} over-logged
+            </div>
+          )}
+        </div>
+
+        {/* Error banner */}
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+            <AlertCircle size={20} className="text-red-600 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+            <button
+              onClick={clearError}
+              className="ml-auto text-red-600 hover:text-red-800 text-sm font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Mismatched days */}
+        {isLoading && !report ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-600 border-t-transparent" />
+          </div>
+        ) : !report || report.rows.length === 0 ? (
+          <div className="bg-white rounded-xl border border-silver-200 p-12 text-center">
+            <div className="inline-flex items-center justify-center p-4 bg-silver-50 rounded-full mb-4">
+              <CheckCircle size={32} className="text-green-500" />
+            </div>
+            <h3 className="text-lg font-medium text-navy-900 mb-2">All Reconciled</h3>
+            <p className="text-silver-500">
+              Logged time matches attendance within {report?.toleranceMinutes ?? 15} minutes on every day.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+            <div className="grid grid-cols-12 gap-4 px-4 py-3 bg-silver-50 text-xs font-semibold text-silver-500 uppercase">
+              <div className="col-span-2">Date</div>
+              <div className="col-span-2">Employee</div>
+              <div className="col-span-1 text-right">Worked</div>
+              <div className="col-span-1 text-right">Logged</div>
+              <div className="col-span-1 text-right">Gap</div>
+              <div className="col-span-3">Issues</div>
+              <div className="col-span-2 text-right">Actions</div>
+            </div>
+            <div className="divide-y divide-silver-100">
+              {report.rows.map((row) => {
+                const isOwn = row.user.id === user.id;
+                const isFlagged = flagged.has(`${row.user.id}:${row.date}`);
+                return (
+                  <div key={`${row.user.id}:${row.date}`} className="grid grid-cols-12 gap-4 px-4 py-3 items-center text-sm">
+                    <div className="col-span-2 text-navy-900">
+                      {format(new Date(`${row.date}T00:00:00`), 'EEE, MMM d')}
+                    </div>
+                    <div className="col-span-2 min-w-0">
+                      <p className="text-navy-900 truncate">{employeeName(row.user)}</p>
+                      {row.user.profile?.department && (
+                        <p className="text-xs text-silver-500 truncate">{row.user.profile.department}</p>
+                      )}
+                    </div>
+                    <div className="col-span-1 text-right text-silver-600">
+                      {formatMinutes(row.attendanceMinutes)}
+                      {!row.attendanceComplete && <span className="block text-xs text-blue-600">Open</span>}
+                    </div>
+                    <div
+                      className="col-span-1 text-right text-silver-600"
+                      title={row.entries.map((e) => `${e.project.code}/${e.task.code}: ${formatMinutes(e.minutes)}`).join('\n')}
+                    >
+                      {formatMinutes(row.loggedMinutes)}
+                    </div>
+                    <div
+                      className={`col-span-1 text-right font-medium ${
+                        row.differenceMinutes < 0 ? 'text-orange-700' : 'text-red-700'
+                      }`}
+                    >
+                      {row.differenceMinutes < 0 ? '-' : '+'}
+                      {formatMinutes(row.differenceMinutes)}
+                    </div>
+                    <div className="col-span-3 flex flex-wrap gap-1">
+                      {row.issues.map((key) => (
+                        <span
+                          key={key}
+                          className={`px-2 py-0.5 text-xs font-medium rounded-full ${issueStyles[key]}`}
+                          title={key === 'LeaveConflict' && row.leave ? row.leave.leaveTypeName : undefined}
+                        >
+                          {issueLabels[key]}
+                        </span>
+                      ))}
+                      {row.regularization && (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-50 text-blue-700">
+                          Correction {row.regularization.status.toLowerCase()}
+                        </span>
+                      )}
+                    </div>
+                    <div className="col-span-2 flex justify-end gap-3">
+                      {isOwn && (
+                        <>
+                          <button
+                            onClick={() => router.push(`/timesheets?date=${row.date}`)}
+                            className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            <Pencil size={14} />
+                            Fix entry
+                          </button>
+                          {!row.regularization && (
+                            <button
+                              onClick={() => router.push(`/attendance?regularize=${row.date}`)}
+                              className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+                            >
+                              <FileClock size={14} />
+                              Correct
+                            </button>
+                          )}
+                        </>
+                      )}
+                      {!isOwn && canFlag && !row.regularization && (
+                        <button
+                          onClick={() => handleFlag(row)}
+                          disabled={isActionLoading || isFlagged}
+                          className="inline-flex items-center gap-1 text-xs font-medium text-orange-600 hover:text-orange-800 disabled:opacity-50"
+                        >
+                          <Flag size={14} />
+                          {isFlagged ? 'Flagged' : 'Flag'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+'use client';
+
+/**
+ * Timesheet Approvals Page
+ *
+ * Reviewers approve or reject the lines of submitted timesheet weeks.
+ * Managers review their direct reports, project managers the lines booked
+ * to their projects, and HR and admins the whole company.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, CheckCircle, XCircle, ClipboardCheck, Loader2 } from 'lucide-react';
+import { format, parseISO, addDays } from 'date-fns';
+import { useAuthStore } from '@/store/auth';
+import { useTimesheetApprovals } from '@/hooks/useTimesheetApprovals';
+import { TimesheetStatusBadge } from '@/components/timesheets/TimesheetStatusBadge';
+import type { TimesheetApproval, TimesheetDecision } from '@/hooks/useTimesheetApprovals';
+
+type LineDecision = { status: TimesheetDecision; comment?: string };
+
+export default function TimesheetApprovalsPage() {
+  const router = useRouter();
+  const { user, _hasHydrated } = useAuthStore();
+  const {
+    approvals,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchApprovals,
+    reviewTimesheet,
+    clearError,
+  } = useTimesheetApprovals();
+  const [decisions, setDecisions] = useState<Record<string, LineDecision>>({});
+
+  useEffect(() => {
+    if (_hasHydrated && !user) {
+      router.push('/login');
+    }
+  }, [user, router, _hasHydrated]);
+
+  useEffect(() => {
+    if (user) {
+      fetchApprovals();
+    }
+  }, [user, fetchApprovals]);
+
+  const setDecision = (entryId: string, decision: LineDecision | null) => {
+    setDecisions((prev) => {
+      const next = { ...prev };
+      if (decision) {
+        next[entryId] = decision;
+      } else {
+        delete next[entryId];
+      }
+      return next;
+    });
+  };
+
+  const handleRejectLine = (entryId: string) => {
+    const comment = prompt('Why is this line rejected?');
+    if (!comment) return;
+    setDecision(entryId, { status: 'Rejected', comment });
+  };
+
+  const getLineDecisions = (approval: TimesheetApproval) =>
+    approval.entries
+      .filter((e) => decisions[e.id])
+      .map((e) => ({ id: e.id, ...decisions[e.id] }));
+
+  const handleSubmit = async (approval: TimesheetApproval, approveRest: boolean) => {
+    const entries = getLineDecisions(approval);
+    const success = await reviewTimesheet(approval.id, {
+      status: approveRest ? 'Approved' : undefined,
+      entries,
+    });
+    if (success) {
+      setDecisions((prev) => {
+        const next = { ...prev };
+        approval.entries.forEach((e) => delete next[e.id]);
+        return next;
+      });
+      fetchApprovals();
+    }
+  };
+
+  const handleRejectWeek = async (approval: TimesheetApproval) => {
+    const comment = prompt('Enter rejection reason:');
+    if (!comment) return;
+    if (await reviewTimesheet(approval.id, { status: 'Rejected', entries: getLineDecisions(approval), comment })) {
+      fetchApprovals();
+    }
+  };
+
+  const formatMinutes = (minutes: number) => {
+    const h = Math.floor(minutes / 60);
+    const m = minutes % 60;
+    return h > 0 ? (m > 0 ? `${h}h ${m}m` : `${h}h`) : `${m}m`;
+  };
+
+  if (!_hasHydrated || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-silver-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-600 border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-silver-50">
+      <header className="bg-white border-b border-silver-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <button onClick={() => router.back()} className="p-2 hover:bg-silver-100 rounded-lg">
+                <ArrowLeft size={20} />
+              </button>
+              <h1 className="text-lg font-semibold text-navy-900">Timesheet Approvals</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Error Message */}
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <span className="text-red-700">{error}</span>
+            <button onClick={clearError} className="text-red-500 hover:text-red-700">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {isLoading && approvals.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent" />
+          </div>
+        ) : approvals.length === 0 ? (
+          <div className="bg-white rounded-xl border border-silver-200 p-12 text-center">
+            <ClipboardCheck size={48} className="mx-auto text-silver-300 mb-4" />
+            <p className="text-silver-500">No timesheets awaiting your review</p>
+          </div>
+        ) : (
+          approvals.map((approval) => {
+            const profile = approval.user.profile;
+            const weekStart = parseISO(approval.weekStart);
+            const reviewable = approval.entries.filter((e) => e.canReview);
+            const decided = getLineDecisions(approval).length;
+
+            return (
+              <div key={approval.id} className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+                <div className="p-6 flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="font-semibold text-navy-900">
+                      {profile ? `${profile.firstName} ${profile.lastName}` : approval.user.email}
+                      {profile?.employeeCode && (
+                        <span className="ml-2 text-xs font-normal text-silver-500">{profile.employeeCode}</span>
+                      )}
+                    </h3>
+                    <p className="text-silver-500 text-sm mt-1">
+                      Week of {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')} •{' '}
+                      {formatMinutes(approval.totalMinutes)} • Submitted{' '}
+                      {format(new Date(approval.submittedAt), 'MMM d')}
+                    </p>
+                  </div>
+                  <span className="text-sm text-silver-500">
+                    {reviewable.length} of {approval.entries.length} lines to review
+                  </span>
+                </div>
+
+                <table className="w-full">
+                  <thead className="bg-silver-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-silver-500 uppercase">Date</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-silver-500 uppercase">Project</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-silver-500 uppercase">Task</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-silver-500 uppercase">Hours</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-silver-500 uppercase">Notes</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-silver-500 uppercase">Decision</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-silver-100">
+                    {approval.entries.map((entry) => {
+                      const decision = decisions[entry.id];
+                      return (
+                        <tr key={entry.id} className={entry.canReview ? '' : 'opacity-60'}>
+                          <td className="px-4 py-3 text-sm text-navy-900">
+                            {format(parseISO(entry.date.slice(0, 10)), 'EEE, MMM d')}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className="text-sm font-medium text-navy-900">{entry.project.name}</span>
+                            <span className="ml-2 text-xs text-silver-500">{entry.project.code}</span>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-silver-600">{entry.task?.name || '—'}</td>
+                          <td className="px-4 py-3 text-sm font-medium text-navy-900">{formatMinutes(entry.minutes)}</td>
+                          <td className="px-4 py-3 text-sm text-silver-600 max-w-xs">
+                            {entry.notes || '—'}
+                            {decision?.comment && (
+                              <p className="mt-1 text-xs text-error">{decision.comment}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            {entry.canReview ? (
+                              <div className="flex items-center justify-end gap-2">
+                                <button
+                                  onClick={() =>
+                                    setDecision(entry.id, decision?.status === 'Approved' ? null : { status: 'Approved' })
+                                  }
+                                  className={`p-1.5 rounded-lg ${
+                                    decision?.status === 'Approved'
+                                      ? 'bg-success text-white'
+                                      : 'text-success hover:bg-success-light'
+                                  }`}
+                                  title="Approve line"
+                                >
+                                  <CheckCircle size={18} />
+                                </button>
+                                <button
+                                  onClick={() =>
+                                    decision?.status === 'Rejected'
+                                      ? setDecision(entry.id, null)
+                                      : handleRejectLine(entry.id)
+                                  }
+                                  className={`p-1.5 rounded-lg ${
+                                    decision?.status === 'Rejected'
+                                      ? 'bg-error text-white'
+                                      : 'text-error hover:bg-error-light'
+                                  }`}
+                                  title="Reject line"
+                                >
+                                  <XCircle size={18} />
+                                </button>
+                              </div>
+                            ) : (
+                              <div className="flex justify-end">
+                                <TimesheetStatusBadge status={entry.status} />
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+
+                <div className="p-4 border-t border-silver-100 flex items-center justify-end gap-3">
+                  <button
+                    onClick={() => handleRejectWeek(approval)}
+                    disabled={isActionLoading}
+                    className="px-4 py-2 border border-error text-error rounded-lg hover:bg-error-light transition-colors disabled:opacity-50 flex items-center gap-2"
+                  >
+                    <XCircle size={16} />
+                    Reject Remaining
+                  </button>
+                  {decided > 0 && decided < reviewable.length && (
+                    <button
+                      onClick={() => handleSubmit(approval, false)}
+                      disabled={isActionLoading}
+                      className="px-4 py-2 border border-silver-200 text-navy-900 rounded-lg hover:bg-silver-50 transition-colors disabled:opacity-50"
+                    >
+                      Save {decided} {decided === 1 ? 'Decision' : 'Decisions'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleSubmit(approval, true)}
+                    disabled={isActionLoading}
+                    className="px-4 py-2 bg-success text-white rounded-lg hover:bg-success/90 transition-colors disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle size={16} />}
+                    {decided > 0 ? 'Approve Remaining' : 'Approve All'}
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </main>
+    </div>
+  );
+}
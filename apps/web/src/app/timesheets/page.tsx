@@ -3,30 +3,46 @@
 /**
  * Timesheets Page
  *
- * Full timesheet management page with weekly summary, history table, and entry modal.
+ * Full timesheet management page with timer, weekly summary with copy-week
+ * and templates, week submission, activity-based suggestions, history table,
+ * and entry modal. A ?date=YYYY-MM-DD link opens the week and history on
+ * that day.
  */
 
 import { useEffect, useState, useCallback } from 'react';
-import { useRouter } from 'next/navigation';
-import { ArrowLeft, Plus, Calendar, RefreshCw } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeft, Plus, Calendar, RefreshCw, ClipboardCheck } from 'lucide-react';
+import { format, startOfWeek, addWeeks } from 'date-fns';
+import { useAuthStore } from '@/store/auth';
 import { useTimesheets } from '@/hooks/useTimesheets';
 import { TimesheetEntryModal } from '@/components/timesheets/TimesheetEntryModal';
 import { TimesheetHistoryTable } from '@/components/timesheets/TimesheetHistoryTable';
 import { WeeklySummary } from '@/components/timesheets/WeeklySummary';
+import { WeekSubmissionCard } from '@/components/timesheets/WeekSubmissionCard';
+import { TimerWidget } from '@/components/timesheets/TimerWidget';
+import { SuggestionsPanel } from '@/components/timesheets/SuggestionsPanel';
 import type { TimesheetEntry, CreateTimesheetDto } from '@/hooks/useTimesheets';
 
 export default function TimesheetsPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const dateParam = searchParams.get('date');
+  const focusDate = dateParam && /^\d{4}-\d{2}-\d{2}$/.test(dateParam) ? dateParam : null;
+  const { user } = useAuthStore();
   const {
     entries,
     projects,
     summary,
+    week,
     isLoading,
     isActionLoading,
     error,
     fetchEntries,
     fetchSummary,
+    fetchWeek,
+    submitWeek,
     createEntry,
+    updateEntry,
     deleteEntry,
     getUploadUrl,
     clearError,
@@ -35,6 +51,9 @@ export default function TimesheetsPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editEntry, setEditEntry] = useState<TimesheetEntry | null>(null);
   const [dateRange, setDateRange] = useState(() => {
+    if (focusDate) {
+      return { start: focusDate, end: focusDate };
+    }
     const end = new Date();
     const start = new Date();
     start.setDate(start.getDate() - 7);
@@ -44,21 +63,55 @@ export default function TimesheetsPage() {
     };
   });
 
+  const currentWeekStart = format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  const [weekStart, setWeekStart] = useState(() =>
+    focusDate
+      ? format(startOfWeek(new Date(`${focusDate}T00:00:00`), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+      : currentWeekStart
+  );
+
+  const canReview = user?.role === 'Manager' || user?.role === 'HR' || user?.role === 'SuperAdmin';
+
   // Load entries and summary on mount and date change
   useEffect(() => {
     fetchEntries(dateRange.start, dateRange.end);
     fetchSummary(dateRange.start, dateRange.end);
   }, [dateRange, fetchEntries, fetchSummary]);
 
-  const handleCreateEntry = useCallback(async (data: CreateTimesheetDto) => {
-    const success = await createEntry(data);
+  useEffect(() => {
+    fetchWeek(weekStart);
+  }, [weekStart, fetchWeek]);
+
+  const handleSaveEntry = useCallback(async (data: CreateTimesheetDto) => {
+    let success: boolean;
+    if (editEntry) {
+      // The entry keeps its date; existing attachments are kept unless new ones are uploaded
+      const { date, attachmentKeys, ...changes } = data;
+      success = await updateEntry(editEntry.id, attachmentKeys?.length ? { ...changes, attachmentKeys } : changes);
+    } else {
+      success = await createEntry(data);
+    }
     if (success) {
       // Refresh data
       fetchEntries(dateRange.start, dateRange.end);
       fetchSummary(dateRange.start, dateRange.end);
+      fetchWeek(weekStart);
     }
     return success;
-  }, [createEntry, fetchEntries, fetchSummary, dateRange]);
+  }, [editEntry, createEntry, updateEntry, fetchEntries, fetchSummary, fetchWeek, dateRange, weekStart]);
+
+  const handleSubmitWeek = useCallback(async () => {
+    if (!confirm('Submit this week for approval? Submitted entries cannot be changed unless they are rejected.')) {
+      return;
+    }
+    if (await submitWeek(weekStart)) {
+      fetchEntries(dateRange.start, dateRange.end);
+    }
+  }, [submitWeek, fetchEntries, weekStart, dateRange]);
+
+  const shiftWeek = useCallback((amount: number) => {
+    setWeekStart((prev) => format(addWeeks(new Date(`${prev}T00:00:00`), amount), 'yyyy-MM-dd'));
+  }, []);
 
   const handleEdit = useCallback((entry: TimesheetEntry) => {
     setEditEntry(entry);
@@ -71,9 +124,10 @@ export default function TimesheetsPage() {
       if (success) {
         fetchEntries(dateRange.start, dateRange.end);
         fetchSummary(dateRange.start, dateRange.end);
+        fetchWeek(weekStart);
       }
     }
-  }, [deleteEntry, fetchEntries, fetchSummary, dateRange]);
+  }, [deleteEntry, fetchEntries, fetchSummary, fetchWeek, dateRange, weekStart]);
 
   const handleModalClose = useCallback(() => {
     setIsModalOpen(false);
@@ -83,7 +137,8 @@ export default function TimesheetsPage() {
   const handleRefresh = useCallback(() => {
     fetchEntries(dateRange.start, dateRange.end);
     fetchSummary(dateRange.start, dateRange.end);
-  }, [fetchEntries, fetchSummary, dateRange]);
+    fetchWeek(weekStart);
+  }, [fetchEntries, fetchSummary, fetchWeek, dateRange, weekStart]);
 
   return (
     <div className="min-h-screen bg-silver-50">
@@ -98,6 +153,15 @@ export default function TimesheetsPage() {
               <h1 className="text-lg font-semibold text-navy-900">Timesheets</h1>
             </div>
             <div className="flex items-center gap-3">
+              {canReview && (
+                <button
+                  onClick={() => router.push('/timesheets/approvals')}
+                  className="px-3 py-2 text-sm font-medium text-silver-600 border border-silver-200 rounded-lg hover:bg-silver-50 flex items-center gap-2"
+                >
+                  <ClipboardCheck size={16} />
+                  Approvals
+                </button>
+              )}
               <button
                 onClick={handleRefresh}
                 className="p-2 hover:bg-silver-100 rounded-lg text-silver-600"
@@ -129,8 +193,24 @@ export default function TimesheetsPage() {
         )}
 
         <div className="space-y-6">
+          {/* Timer */}
+          <TimerWidget projects={projects} onBooked={handleRefresh} />
+
           {/* Weekly summary */}
-          <WeeklySummary summary={summary} isLoading={isLoading} />
+          <WeeklySummary summary={summary} isLoading={isLoading} weekStart={weekStart} onFilled={handleRefresh} />
+
+          {/* Week submission */}
+          <WeekSubmissionCard
+            week={week}
+            isLoading={isActionLoading}
+            isCurrentWeek={weekStart >= currentWeekStart}
+            onPrevious={() => shiftWeek(-1)}
+            onNext={() => shiftWeek(1)}
+            onSubmit={handleSubmitWeek}
+          />
+
+          {/* Suggestions from activity */}
+          <SuggestionsPanel weekStart={weekStart} onAccepted={handleRefresh} />
 
           {/* Date filter */}
           <div className="flex items-center gap-4 bg-white p-4 rounded-xl border border-silver-200">
@@ -172,7 +252,7 @@ export default function TimesheetsPage() {
         projects={projects}
         editEntry={editEntry || undefined}
         onClose={handleModalClose}
-        onSubmit={handleCreateEntry}
+        onSubmit={handleSaveEntry}
         getUploadUrl={getUploadUrl}
       />
     </div>
@@ -0,0 +1,128 @@
+'use client';
+
+/**
+ * AttendanceCalendar Component
+ *
+ * Month grid of day statuses with navigation, a legend and monthly totals.
+ */
+
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { addMonths, format, getDay, parseISO } from 'date-fns';
+import { useAttendanceCalendar, DayStatus } from '@/hooks/useAttendanceCalendar';
+
+interface AttendanceCalendarProps {
+  /** View a direct report's calendar instead of your own */
+  userId?: string;
+}
+
+const STATUS_STYLES: Record<DayStatus, { label: string; cell: string; dot: string }> = {
+  Present: { label: 'Present', cell: 'bg-success-light text-success-dark', dot: 'bg-success' },
+  OnLeave: { label: 'On Leave', cell: 'bg-blue-50 text-blue-700', dot: 'bg-blue-500' },
+  Holiday: { label: 'Holiday', cell: 'bg-purple-50 text-purple-700', dot: 'bg-purple-500' },
+  Weekend: { label: 'Weekend', cell: 'bg-silver-100 text-silver-500', dot: 'bg-silver-400' },
+  Absent: { label: 'Absent', cell: 'bg-error-light text-error-dark', dot: 'bg-error' },
+};
+
+const WEEKDAY_HEADERS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export function AttendanceCalendar({ userId }: AttendanceCalendarProps) {
+  const { calendar, isLoading, error, fetchCalendar } = useAttendanceCalendar();
+  const [month, setMonth] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    fetchCalendar(month, userId);
+  }, [fetchCalendar, month, userId]);
+
+  const shiftMonth = (amount: number) => {
+    if (!calendar) return;
+    setMonth(format(addMonths(parseISO(`${calendar.month}-01`), amount), 'yyyy-MM'));
+  };
+
+  // Pad the grid so the first day lines up under its weekday (Monday first)
+  const leadingBlanks = calendar ? (getDay(parseISO(calendar.days[0].date)) + 6) % 7 : 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-navy-900">
+          {calendar ? format(parseISO(`${calendar.month}-01`), 'MMMM yyyy') : 'Calendar'}
+        </h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => shiftMonth(-1)}
+            disabled={!calendar || isLoading}
+            className="p-2 hover:bg-silver-100 rounded-lg disabled:opacity-50"
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <button
+            onClick={() => shiftMonth(1)}
+            disabled={!calendar || isLoading}
+            className="p-2 hover:bg-silver-100 rounded-lg disabled:opacity-50"
+          >
+            <ChevronRight size={18} />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-error mb-4">{error}</p>}
+
+      {!calendar ? (
+        <div className="h-48 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-7 gap-1 text-center">
+            {WEEKDAY_HEADERS.map((label) => (
+              <div key={label} className="text-xs font-medium text-silver-500 py-1">
+                {label}
+              </div>
+            ))}
+            {Array.from({ length: leadingBlanks }, (_, i) => (
+              <div key={`blank-${i}`} />
+            ))}
+            {calendar.days.map((day) => {
+              const style = day.status ? STATUS_STYLES[day.status] : null;
+              const title = [
+                style?.label,
+                day.holidayName,
+                day.leaveTypeName,
+                day.workMinutes > 0 ? `${Math.floor(day.workMinutes / 60)}h ${day.workMinutes % 60}m worked` : null,
+              ]
+                .filter(Boolean)
+                .join(' • ');
+
+              return (
+                <div
+                  key={day.date}
+                  title={title || undefined}
+                  className={`aspect-square rounded-lg flex items-center justify-center text-sm font-medium ${
+                    style ? style.cell : 'text-silver-400'
+                  } ${day.date === calendar.today ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                  {parseISO(day.date).getDate()}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Legend with monthly totals */}
+          <div className="flex flex-wrap gap-4 mt-4 text-sm text-silver-600">
+            {(Object.keys(STATUS_STYLES) as DayStatus[]).map((status) => {
+              const countKey = (status.charAt(0).toLowerCase() + status.slice(1)) as keyof typeof calendar.summary;
+              return (
+                <div key={status} className="flex items-center gap-2">
+                  <span className={`w-2.5 h-2.5 rounded-full ${STATUS_STYLES[status].dot}`} />
+                  {STATUS_STYLES[status].label}
+                  <span className="font-medium text-navy-900">{calendar.summary[countKey]}</span>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -193,9 +193,23 @@ export function AttendanceStatusCard({
           {/* Action Buttons */}
           <div className="flex flex-wrap gap-3">
             {isCheckedOut ? (
-              <div className="text-sm text-silver-500 flex items-center gap-2">
-                <CheckCircle size={18} className="text-success" /> Day complete
-              </div>
+              <>
+                <div className="text-sm text-silver-500 flex items-center gap-2">
+                  <CheckCircle size={18} className="text-success" /> Checked out
+                </div>
+                <button
+                  onClick={() => setShowCheckInModal(true)}
+                  disabled={isActionLoading}
+                  className="btn-secondary flex items-center gap-2"
+                >
+                  {isActionLoading ? (
+                    <Loader2 size={18} className="animate-spin" />
+                  ) : (
+                    <MapPin size={18} />
+                  )}{' '}
+                  Check In Again
+                </button>
+              </>
             ) : isCheckedIn ? (
               <>
                 {isOnBreak ? (
@@ -0,0 +1,216 @@
+'use client';
+
+/**
+ * OvertimeRequestModal Component
+ *
+ * Form modal for requesting overtime ahead of time or justifying
+ * overtime already worked. When opened for another employee
+ * (manager or HR), the request is approved on submit.
+ */
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2, Timer } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import type { CreateOvertimeInput } from '@/hooks/useOvertime';
+
+/** Oldest day overtime can still be justified for (matches the API) */
+const JUSTIFICATION_DAYS = 30;
+
+export interface OvertimeRequestPreset {
+  userId: string;
+  employeeName: string;
+  date: string;
+  minutes: number;
+}
+
+interface OvertimeRequestModalProps {
+  isOpen: boolean;
+  isLoading: boolean;
+  error?: string | null;
+  /** Pre-fill the form to approve overtime on behalf of an employee */
+  preset?: OvertimeRequestPreset | null;
+  onClose: () => void;
+  onSubmit: (data: CreateOvertimeInput) => Promise<boolean>;
+}
+
+export function OvertimeRequestModal({
+  isOpen,
+  isLoading,
+  error,
+  preset,
+  onClose,
+  onSubmit,
+}: OvertimeRequestModalProps) {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const earliest = format(subDays(new Date(), JUSTIFICATION_DAYS), 'yyyy-MM-dd');
+  const [date, setDate] = useState(today);
+  const [hours, setHours] = useState('1');
+  const [minutes, setMinutes] = useState('0');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDate(preset?.date ?? today);
+    setHours(String(preset ? Math.floor(preset.minutes / 60) : 1));
+    setMinutes(String(preset ? preset.minutes % 60 : 0));
+    setReason('');
+  }, [isOpen, preset, today]);
+
+  const totalMinutes = (parseInt(hours, 10) || 0) * 60 + (parseInt(minutes, 10) || 0);
+  const isPast = date < today;
+
+  const canSubmit =
+    !!date && totalMinutes >= 15 && totalMinutes <= 720 && reason.trim().length >= 5;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const success = await onSubmit({
+      userId: preset?.userId,
+      date,
+      minutes: totalMinutes,
+      reason: reason.trim(),
+    });
+
+    if (success) {
+      setReason('');
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 z-50"
+            onClick={onClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+          >
+            <form
+              onSubmit={handleSubmit}
+              className="bg-white rounded-2xl shadow-xl max-w-md w-full overflow-hidden pointer-events-auto"
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-4 border-b border-silver-100">
+                <div className="flex items-center gap-2">
+                  <Timer size={20} className="text-blue-600" />
+                  <h2 className="text-lg font-semibold text-navy-900">
+                    {preset ? `Approve Overtime — ${preset.employeeName}` : 'Request Overtime'}
+                  </h2>
+                </div>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="p-2 text-silver-500 hover:text-navy-900 transition-colors rounded-lg hover:bg-silver-50"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              {/* Content */}
+              <div className="p-4 space-y-4">
+                {error && (
+                  <div className="bg-error-light border border-error/20 text-error rounded-lg px-3 py-2 text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-navy-900 mb-1">Day</label>
+                  <input
+                    type="date"
+                    value={date}
+                    min={earliest}
+                    disabled={!!preset}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-silver-50"
+                  />
+                  {!preset && (
+                    <p className="text-xs text-silver-500 mt-1">
+                      {isPast
+                        ? 'Justifying overtime already worked.'
+                        : 'Requesting approval before the overtime is worked.'}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-navy-900 mb-1">Hours</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={12}
+                      value={hours}
+                      onChange={(e) => setHours(e.target.value)}
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-navy-900 mb-1">Minutes</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={59}
+                      step={15}
+                      value={minutes}
+                      onChange={(e) => setMinutes(e.target.value)}
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-silver-500">
+                  Between 15 minutes and 12 hours.
+                </p>
+
+                <div>
+                  <label className="block text-sm font-medium text-navy-900 mb-1">Reason</label>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    rows={3}
+                    placeholder="e.g. Release deployment scheduled after hours"
+                    className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                  />
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="flex gap-3 p-4 border-t border-silver-100">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 px-4 py-2.5 text-silver-600 bg-white border border-silver-200 rounded-lg hover:bg-silver-50 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!canSubmit || isLoading}
+                  className="flex-1 btn-primary flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  {isLoading && <Loader2 size={16} className="animate-spin" />}
+                  {preset ? 'Approve' : 'Submit'}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
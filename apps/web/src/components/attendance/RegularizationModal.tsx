@@ -0,0 +1,187 @@
+'use client';
+
+/**
+ * RegularizationModal Component
+ *
+ * Form modal for requesting a correction of check-in/out times
+ * on a past day. The request is reviewed by the employee's manager.
+ */
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2, FileClock } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import type { CreateRegularizationInput } from '@/hooks/useRegularizations';
+
+interface RegularizationModalProps {
+  isOpen: boolean;
+  isLoading: boolean;
+  error?: string | null;
+  onClose: () => void;
+  onSubmit: (data: CreateRegularizationInput) => Promise<boolean>;
+  /** Day to preselect when the modal opens, defaults to yesterday */
+  initialDate?: string;
+}
+
+export function RegularizationModal({
+  isOpen,
+  isLoading,
+  error,
+  onClose,
+  onSubmit,
+  initialDate,
+}: RegularizationModalProps) {
+  const yesterday = format(subDays(new Date(), 1), 'yyyy-MM-dd');
+  const [date, setDate] = useState(initialDate ?? yesterday);
+  const [checkInTime, setCheckInTime] = useState('');
+  const [checkOutTime, setCheckOutTime] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (isOpen && initialDate) {
+      setDate(initialDate);
+    }
+  }, [isOpen, initialDate]);
+
+  const canSubmit = !!date && (!!checkInTime || !!checkOutTime) && reason.trim().length >= 5;
+
+  const toIso = (time: string) => (time ? new Date(`${date}T${time}`).toISOString() : undefined);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const success = await onSubmit({
+      date,
+      proposedCheckIn: toIso(checkInTime),
+      proposedCheckOut: toIso(checkOutTime),
+      reason: reason.trim(),
+    });
+
+    if (success) {
+      setCheckInTime('');
+      setCheckOutTime('');
+      setReason('');
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 z-50"
+            onClick={onClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+          >
+            <form
+              onSubmit={handleSubmit}
+              className="bg-white rounded-2xl shadow-xl max-w-md w-full overflow-hidden pointer-events-auto"
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-4 border-b border-silver-100">
+                <div className="flex items-center gap-2">
+                  <FileClock size={20} className="text-blue-600" />
+                  <h2 className="text-lg font-semibold text-navy-900">Request Correction</h2>
+                </div>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="p-2 text-silver-500 hover:text-navy-900 transition-colors rounded-lg hover:bg-silver-50"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              {/* Content */}
+              <div className="p-4 space-y-4">
+                {error && (
+                  <div className="bg-error-light border border-error/20 text-error rounded-lg px-3 py-2 text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-navy-900 mb-1">Day</label>
+                  <input
+                    type="date"
+                    value={date}
+                    max={yesterday}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-navy-900 mb-1">Check-in</label>
+                    <input
+                      type="time"
+                      value={checkInTime}
+                      onChange={(e) => setCheckInTime(e.target.value)}
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-navy-900 mb-1">Check-out</label>
+                    <input
+                      type="time"
+                      value={checkOutTime}
+                      onChange={(e) => setCheckOutTime(e.target.value)}
+                      className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-silver-500">
+                  Leave a time empty to keep the recorded value.
+                </p>
+
+                <div>
+                  <label className="block text-sm font-medium text-navy-900 mb-1">Reason</label>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    rows={3}
+                    placeholder="e.g. Forgot to check out after the client meeting"
+                    className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                  />
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="flex gap-3 p-4 border-t border-silver-100">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 px-4 py-2.5 text-silver-600 bg-white border border-silver-200 rounded-lg hover:bg-silver-50 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!canSubmit || isLoading}
+                  className="flex-1 btn-primary flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  {isLoading && <Loader2 size={16} className="animate-spin" />}
+                  Submit
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
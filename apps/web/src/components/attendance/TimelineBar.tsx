@@ -4,12 +4,13 @@
  * TimelineBar Component
  *
  * Visual timeline bar showing work periods, breaks, and events.
- * Displays from 6 AM to 10 PM with hour markers.
+ * Each check-in/check-out session is drawn separately and coloured
+ * by its work mode. Displays from 6 AM to 10 PM with hour markers.
  */
 
 import { useMemo } from 'react';
 import { motion } from 'framer-motion';
-import type { AttendanceEvent, BreakSegment, AttendanceDay } from '@/hooks/useAttendance';
+import type { AttendanceDay, WorkMode } from '@/hooks/useAttendance';
 
 interface TimelineBarProps {
   attendance: AttendanceDay;
@@ -19,6 +20,14 @@ const START_HOUR = 6; // 6 AM
 const END_HOUR = 22; // 10 PM
 const TOTAL_HOURS = END_HOUR - START_HOUR;
 
+const WORK_MODE_STYLES: Record<WorkMode, { color: string; label: string }> = {
+  Office: { color: 'bg-blue-400', label: 'Office' },
+  Remote: { color: 'bg-indigo-400', label: 'Remote' },
+  CustomerSite: { color: 'bg-teal-400', label: 'Customer Site' },
+  FieldVisit: { color: 'bg-emerald-400', label: 'Field Visit' },
+  Travel: { color: 'bg-purple-400', label: 'Travel' },
+};
+
 function getPositionPercent(isoString: string): number {
   const date = new Date(isoString);
   const hour = date.getHours();
@@ -29,30 +38,28 @@ function getPositionPercent(isoString: string): number {
 }
 
 export function TimelineBar({ attendance }: TimelineBarProps) {
-  const checkInEvent = attendance.events.find((e) => e.type === 'CheckIn');
-  const checkOutEvent = attendance.events.find((e) => e.type === 'CheckOut');
-
-  // Calculate work period
-  const workPeriod = useMemo(() => {
-    if (!checkInEvent) return null;
-
-    const startPercent = getPositionPercent(checkInEvent.timestamp);
-    let endPercent: number;
-
-    if (checkOutEvent) {
-      endPercent = getPositionPercent(checkOutEvent.timestamp);
-    } else {
-      // Use current time as end
-      const now = new Date();
-      const nowStr = now.toISOString();
-      endPercent = getPositionPercent(nowStr);
-    }
+  const sessions = attendance.sessions ?? [];
 
-    return {
-      start: startPercent,
-      width: Math.max(0, endPercent - startPercent),
-    };
-  }, [checkInEvent, checkOutEvent]);
+  // Calculate work periods, one per session
+  const workPeriods = useMemo(() => {
+    return sessions.map((session) => {
+      const startPercent = getPositionPercent(session.checkInTime);
+      // Open session runs until the current time
+      const endPercent = getPositionPercent(session.checkOutTime ?? new Date().toISOString());
+
+      return {
+        key: session.checkInTime,
+        workMode: session.workMode,
+        start: startPercent,
+        width: Math.max(0, endPercent - startPercent),
+      };
+    });
+  }, [sessions]);
+
+  const workModesUsed = useMemo(
+    () => Array.from(new Set(sessions.map((s) => s.workMode))),
+    [sessions]
+  );
 
   // Calculate break periods
   const breakPeriods = useMemo(() => {
@@ -113,16 +120,18 @@ export function TimelineBar({ attendance }: TimelineBarProps) {
 
       {/* Timeline bar */}
       <div className="relative h-8 bg-silver-100 rounded-full overflow-hidden">
-        {/* Work period */}
-        {workPeriod && (
+        {/* Work periods */}
+        {workPeriods.map((period) => (
           <motion.div
+            key={period.key}
             initial={{ width: 0 }}
-            animate={{ width: `${workPeriod.width}%` }}
+            animate={{ width: `${period.width}%` }}
             transition={{ duration: 0.5, ease: 'easeOut' }}
-            className="absolute top-0 h-full bg-blue-400"
-            style={{ left: `${workPeriod.start}%` }}
+            className={`absolute top-0 h-full ${WORK_MODE_STYLES[period.workMode]?.color ?? 'bg-blue-400'}`}
+            style={{ left: `${period.start}%` }}
+            title={WORK_MODE_STYLES[period.workMode]?.label}
           />
-        )}
+        ))}
 
         {/* Break periods */}
         {breakPeriods.map((breakPeriod) => (
@@ -157,29 +166,33 @@ export function TimelineBar({ attendance }: TimelineBarProps) {
           />
         )}
 
-        {/* Check-in marker */}
-        {checkInEvent && (
-          <div
-            className="absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-success rounded-full border-2 border-white shadow"
-            style={{ left: `${getPositionPercent(checkInEvent.timestamp)}%` }}
-          />
-        )}
-
-        {/* Check-out marker */}
-        {checkOutEvent && (
-          <div
-            className="absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-error rounded-full border-2 border-white shadow"
-            style={{ left: `${getPositionPercent(checkOutEvent.timestamp)}%` }}
-          />
-        )}
+        {/* Check-in / check-out markers */}
+        {sessions.map((session) => (
+          <div key={`markers-${session.checkInTime}`}>
+            <div
+              className="absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-success rounded-full border-2 border-white shadow"
+              style={{ left: `${getPositionPercent(session.checkInTime)}%` }}
+            />
+            {session.checkOutTime && (
+              <div
+                className="absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-error rounded-full border-2 border-white shadow"
+                style={{ left: `${getPositionPercent(session.checkOutTime)}%` }}
+              />
+            )}
+          </div>
+        ))}
       </div>
 
       {/* Legend */}
-      <div className="flex items-center justify-center gap-4 mt-3 text-xs">
-        <div className="flex items-center gap-1.5">
-          <div className="w-3 h-3 bg-blue-400 rounded" />
-          <span className="text-silver-500">Working</span>
-        </div>
+      <div className="flex flex-wrap items-center justify-center gap-4 mt-3 text-xs">
+        {(workModesUsed.length > 0 ? workModesUsed : (['Office'] as WorkMode[])).map((mode) => (
+          <div key={mode} className="flex items-center gap-1.5">
+            <div className={`w-3 h-3 rounded ${WORK_MODE_STYLES[mode]?.color ?? 'bg-blue-400'}`} />
+            <span className="text-silver-500">
+              {workModesUsed.length > 1 ? WORK_MODE_STYLES[mode]?.label : 'Working'}
+            </span>
+          </div>
+        ))}
         <div className="flex items-center gap-1.5">
           <div className="w-3 h-3 bg-orange-400 rounded" />
           <span className="text-silver-500">Break</span>
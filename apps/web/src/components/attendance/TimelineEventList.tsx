@@ -4,6 +4,9 @@
  * TimelineEventList Component
  *
  * Displays a chronological list of attendance events and breaks.
+ * When a day has several check-in/check-out sessions, each check-in
+ * is numbered so the sessions can be told apart. Check-outs and break
+ * ends recorded by auto-checkout are labelled so they can be corrected.
  */
 
 import { motion } from 'framer-motion';
@@ -27,6 +30,7 @@ interface TimelineItem {
   type: 'CheckIn' | 'CheckOut' | 'BreakStart' | 'BreakEnd' | 'LunchStart' | 'LunchEnd';
   timestamp: Date;
   data: AttendanceEvent | BreakSegment;
+  sessionNumber?: number;
 }
 
 function formatTime(date: Date): string {
@@ -117,6 +121,15 @@ export function TimelineEventList({ attendance }: TimelineEventListProps) {
   // Sort by timestamp
   timelineItems.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
 
+  // Number sessions in check-in order
+  let sessionCount = 0;
+  timelineItems.forEach((item) => {
+    if (item.type === 'CheckIn') {
+      sessionCount += 1;
+      item.sessionNumber = sessionCount;
+    }
+  });
+
   if (timelineItems.length === 0) {
     return (
       <div className="text-center py-8 text-silver-400">
@@ -154,11 +167,22 @@ export function TimelineEventList({ attendance }: TimelineEventListProps) {
               <div className="flex items-center justify-between">
                 <p className="font-medium text-navy-900">
                   {item.type === 'CheckIn' && 'Checked In'}
+                  {item.type === 'CheckIn' && sessionCount > 1 && (
+                    <span className="ml-2 text-xs font-normal text-silver-500">
+                      Session {item.sessionNumber}
+                    </span>
+                  )}
                   {item.type === 'CheckOut' && 'Checked Out'}
                   {item.type === 'BreakStart' && 'Break Started'}
                   {item.type === 'BreakEnd' && 'Break Ended'}
                   {item.type === 'LunchStart' && 'Lunch Started'}
                   {item.type === 'LunchEnd' && 'Lunch Ended'}
+                  {(item.type === 'CheckOut' || item.type === 'BreakEnd' || item.type === 'LunchEnd') &&
+                    item.data.isAutoClosed && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs font-medium rounded bg-warning-light text-warning-dark">
+                        Auto
+                      </span>
+                    )}
                 </p>
                 <p className="text-sm text-silver-500">{formatTime(item.timestamp)}</p>
               </div>
@@ -176,7 +200,8 @@ export function TimelineEventList({ attendance }: TimelineEventListProps) {
                     {(item.data as AttendanceEvent).verificationStatus !== 'None' && (
                       <span
                         className={`flex items-center gap-1 ${
-                          (item.data as AttendanceEvent).verificationStatus.includes('Passed')
+                          (item.data as AttendanceEvent).verificationStatus.includes('Passed') ||
+                          (item.data as AttendanceEvent).verificationStatus === 'KioskVerified'
                             ? 'text-success'
                             : 'text-warning'
                         }`}
@@ -187,6 +212,19 @@ export function TimelineEventList({ attendance }: TimelineEventListProps) {
                         {(item.data as AttendanceEvent).verificationStatus.replace('Geofence', '')}
                       </span>
                     )}
+                    {(item.data as AttendanceEvent).locationIntegrity &&
+                      (item.data as AttendanceEvent).locationIntegrity !== 'Trusted' && (
+                        <span
+                          className={`flex items-center gap-1 ${
+                            (item.data as AttendanceEvent).locationIntegrity === 'Unverified'
+                              ? 'text-silver-500'
+                              : 'text-error'
+                          }`}
+                        >
+                          <AlertTriangle size={14} />
+                          {(item.data as AttendanceEvent).locationIntegrity} location
+                        </span>
+                      )}
                   </div>
                 )}
 
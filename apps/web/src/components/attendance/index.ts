@@ -8,3 +8,6 @@ export { CheckOutModal } from './CheckOutModal';
 export { BreakModal } from './BreakModal';
 export { TimelineBar } from './TimelineBar';
 export { TimelineEventList } from './TimelineEventList';
+export { RegularizationModal } from './RegularizationModal';
+export { OvertimeRequestModal } from './OvertimeRequestModal';
+export { AttendanceCalendar } from './AttendanceCalendar';
@@ -0,0 +1,262 @@
+'use client';
+
+/**
+ * CustomerSiteForm Component
+ *
+ * Form for creating and editing customer sites. A site can be linked to a
+ * project so time spent there can be billed to the client.
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Building, Loader2 } from 'lucide-react';
+import type { CustomerSite, CustomerSiteInput } from '@/hooks/useCustomerSites';
+
+interface CustomerSiteFormProps {
+  mode: 'create' | 'edit';
+  initialData?: CustomerSite;
+  projects: Array<{ id: string; name: string; code: string }>;
+  isLoading: boolean;
+  onSubmit: (data: CustomerSiteInput) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+interface FormErrors {
+  name?: string;
+  address?: string;
+  latitude?: string;
+  longitude?: string;
+  radiusMeters?: string;
+}
+
+const inputClass = (hasError: boolean) =>
+  `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+    hasError ? 'border-red-500' : 'border-silver-200'
+  }`;
+
+export function CustomerSiteForm({
+  mode,
+  initialData,
+  projects,
+  isLoading,
+  onSubmit,
+  onCancel,
+}: CustomerSiteFormProps) {
+  const [name, setName] = useState(initialData?.name || '');
+  const [customerName, setCustomerName] = useState(initialData?.customerName || '');
+  const [address, setAddress] = useState(initialData?.address || '');
+  const [latitude, setLatitude] = useState(initialData ? String(Number(initialData.latitude)) : '');
+  const [longitude, setLongitude] = useState(initialData ? String(Number(initialData.longitude)) : '');
+  const [radiusMeters, setRadiusMeters] = useState(initialData?.radiusMeters?.toString() || '200');
+  const [projectId, setProjectId] = useState(initialData?.projectId || '');
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const validate = (): FormErrors => {
+    const newErrors: FormErrors = {};
+
+    if (name.trim().length < 2 || name.trim().length > 100) {
+      newErrors.name = 'Name must be 2-100 characters';
+    }
+    if (address.trim().length < 5 || address.trim().length > 500) {
+      newErrors.address = 'Address must be 5-500 characters';
+    }
+
+    const lat = parseFloat(latitude);
+    if (isNaN(lat) || lat < -90 || lat > 90) {
+      newErrors.latitude = 'Latitude must be between -90 and 90';
+    }
+
+    const lon = parseFloat(longitude);
+    if (isNaN(lon) || lon < -180 || lon > 180) {
+      newErrors.longitude = 'Longitude must be between -180 and 180';
+    }
+
+    const radius = parseInt(radiusMeters, 10);
+    if (isNaN(radius) || radius < 50 || radius > 5000) {
+      newErrors.radiusMeters = 'Radius must be between 50 and 5000 meters';
+    }
+
+    return newErrors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validate();
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    await onSubmit({
+      name: name.trim(),
+      customerName: customerName.trim() || undefined,
+      address: address.trim(),
+      latitude: parseFloat(latitude),
+      longitude: parseFloat(longitude),
+      radiusMeters: parseInt(radiusMeters, 10),
+      // null unlinks the project when editing
+      projectId: projectId || (mode === 'edit' ? null : undefined),
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-silver-100">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-50 rounded-lg">
+              <Building size={20} className="text-blue-600" />
+            </div>
+            <h2 className="text-lg font-semibold text-navy-900">
+              {mode === 'create' ? 'Add Customer Site' : 'Edit Customer Site'}
+            </h2>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 text-silver-500 hover:text-navy-900 transition-colors rounded-lg hover:bg-silver-50"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-navy-900 mb-1">Site Name *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Acme Plant 2"
+                className={inputClass(!!errors.name)}
+              />
+              {errors.name && <p className="text-sm text-red-500 mt-1">{errors.name}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-navy-900 mb-1">Customer</label>
+              <input
+                type="text"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                placeholder="e.g., Acme Corp"
+                className={inputClass(false)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-1">Address *</label>
+            <textarea
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder="Full street address"
+              rows={2}
+              className={`${inputClass(!!errors.address)} resize-none`}
+            />
+            {errors.address && <p className="text-sm text-red-500 mt-1">{errors.address}</p>}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-navy-900 mb-1">Latitude *</label>
+              <input
+                type="number"
+                step="any"
+                value={latitude}
+                onChange={(e) => setLatitude(e.target.value)}
+                placeholder="-6.2088"
+                className={inputClass(!!errors.latitude)}
+              />
+              {errors.latitude && <p className="text-sm text-red-500 mt-1">{errors.latitude}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-navy-900 mb-1">Longitude *</label>
+              <input
+                type="number"
+                step="any"
+                value={longitude}
+                onChange={(e) => setLongitude(e.target.value)}
+                placeholder="106.8456"
+                className={inputClass(!!errors.longitude)}
+              />
+              {errors.longitude && <p className="text-sm text-red-500 mt-1">{errors.longitude}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-navy-900 mb-1">Radius (m) *</label>
+              <input
+                type="number"
+                value={radiusMeters}
+                onChange={(e) => setRadiusMeters(e.target.value)}
+                min={50}
+                max={5000}
+                className={inputClass(!!errors.radiusMeters)}
+              />
+              {errors.radiusMeters && <p className="text-sm text-red-500 mt-1">{errors.radiusMeters}</p>}
+            </div>
+          </div>
+          <p className="text-xs text-silver-500 -mt-2">
+            Check-ins within the radius are marked on site in visit reports
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-1">Billing Project</label>
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className={inputClass(false)}
+            >
+              <option value="">No project</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.code} - {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4 border-t border-silver-100">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-4 py-2.5 text-silver-600 bg-white border border-silver-200 rounded-lg hover:bg-silver-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="flex-1 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 size={18} className="animate-spin" />
+                  {mode === 'create' ? 'Creating...' : 'Saving...'}
+                </>
+              ) : mode === 'create' ? (
+                'Add Site'
+              ) : (
+                'Save Changes'
+              )}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
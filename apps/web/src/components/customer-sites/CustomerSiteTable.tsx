@@ -0,0 +1,270 @@
+'use client';
+
+/**
+ * CustomerSiteTable Component
+ *
+ * Data table for displaying and managing customer sites.
+ */
+
+import { useState, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Edit2, Trash2, Building, MoreVertical, AlertTriangle, RotateCcw } from 'lucide-react';
+import type { CustomerSite } from '@/hooks/useCustomerSites';
+
+interface CustomerSiteTableProps {
+  sites: CustomerSite[];
+  isLoading: boolean;
+  onEdit: (site: CustomerSite) => void;
+  onDelete: (site: CustomerSite) => void;
+  onReactivate: (site: CustomerSite) => void;
+}
+
+interface DeleteConfirmModalProps {
+  site: CustomerSite;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function DeleteConfirmModal({ site, onConfirm, onCancel }: DeleteConfirmModalProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 mb-4">
+          <div className="p-2 bg-red-50 rounded-lg">
+            <AlertTriangle size={24} className="text-red-600" />
+          </div>
+          <h3 className="text-lg font-semibold text-navy-900">Deactivate Site</h3>
+        </div>
+
+        <p className="text-silver-600 mb-6">
+          Are you sure you want to deactivate <span className="font-medium text-navy-900">{site.name}</span>?
+          Employees will no longer be able to pick it at check-in. Past visits are kept.
+        </p>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2.5 text-silver-600 bg-white border border-silver-200 rounded-lg hover:bg-silver-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="flex-1 px-4 py-2.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
+          >
+            Deactivate
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+export function CustomerSiteTable({
+  sites,
+  isLoading,
+  onEdit,
+  onDelete,
+  onReactivate,
+}: CustomerSiteTableProps) {
+  const [deleteTarget, setDeleteTarget] = useState<CustomerSite | null>(null);
+  const [openMenu, setOpenMenu] = useState<string | null>(null);
+
+  const handleDeleteClick = useCallback((site: CustomerSite) => {
+    setDeleteTarget(site);
+    setOpenMenu(null);
+  }, []);
+
+  const handleDeleteConfirm = useCallback(() => {
+    if (deleteTarget) {
+      onDelete(deleteTarget);
+      setDeleteTarget(null);
+    }
+  }, [deleteTarget, onDelete]);
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+        <div className="animate-pulse">
+          <div className="border-b border-silver-100 p-4">
+            <div className="h-4 bg-silver-200 rounded w-full" />
+          </div>
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="p-4 border-b border-silver-100 last:border-b-0">
+              <div className="flex items-center gap-4">
+                <div className="h-4 bg-silver-100 rounded w-1/4" />
+                <div className="h-4 bg-silver-100 rounded w-1/3" />
+                <div className="h-4 bg-silver-100 rounded w-1/6" />
+                <div className="h-4 bg-silver-100 rounded w-16" />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (sites.length === 0) {
+    return (
+      <div className="bg-white rounded-xl border border-silver-200 p-12 text-center">
+        <div className="inline-flex items-center justify-center p-4 bg-silver-50 rounded-full mb-4">
+          <Building size={32} className="text-silver-300" />
+        </div>
+        <h3 className="text-lg font-medium text-navy-900 mb-2">No Customer Sites</h3>
+        <p className="text-silver-500">
+          Add the sites your field staff visit so they can pick them at check-in.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="bg-white rounded-xl border border-silver-200 overflow-hidden">
+        {/* Table Header */}
+        <div className="grid grid-cols-12 gap-4 px-4 py-3 bg-silver-50 border-b border-silver-200 text-sm font-medium text-silver-600">
+          <div className="col-span-3">Site</div>
+          <div className="col-span-3">Address</div>
+          <div className="col-span-2">Project</div>
+          <div className="col-span-2">Coordinates</div>
+          <div className="col-span-1">Status</div>
+          <div className="col-span-1 text-right">Actions</div>
+        </div>
+
+        {/* Table Body */}
+        <div className="divide-y divide-silver-100">
+          {sites.map((site) => (
+            <div
+              key={site.id}
+              className={`grid grid-cols-12 gap-4 px-4 py-4 items-center hover:bg-silver-50 transition-colors ${
+                !site.isActive ? 'opacity-60' : ''
+              }`}
+            >
+              {/* Name and customer */}
+              <div className="col-span-3 min-w-0">
+                <div className="flex items-center gap-2">
+                  <Building size={16} className="text-blue-500 flex-shrink-0" />
+                  <span className="font-medium text-navy-900 truncate">{site.name}</span>
+                </div>
+                {site.customerName && (
+                  <p className="text-xs text-silver-500 truncate ml-6">{site.customerName}</p>
+                )}
+              </div>
+
+              {/* Address */}
+              <div className="col-span-3">
+                <span className="text-silver-600 text-sm truncate block" title={site.address}>
+                  {site.address}
+                </span>
+              </div>
+
+              {/* Project */}
+              <div className="col-span-2">
+                <span className="text-sm text-silver-600 truncate block">
+                  {site.project ? `${site.project.code} - ${site.project.name}` : '-'}
+                </span>
+              </div>
+
+              {/* Coordinates and radius */}
+              <div className="col-span-2">
+                <span className="text-sm text-silver-600 font-mono block">
+                  {Number(site.latitude).toFixed(5)}, {Number(site.longitude).toFixed(5)}
+                </span>
+                <span className="text-xs text-silver-500">{site.radiusMeters}m radius</span>
+              </div>
+
+              {/* Status */}
+              <div className="col-span-1">
+                {site.isActive ? (
+                  <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-green-50 text-green-700">
+                    Active
+                  </span>
+                ) : (
+                  <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-red-50 text-red-700">
+                    Inactive
+                  </span>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="col-span-1 flex justify-end relative">
+                <button
+                  onClick={() => setOpenMenu(openMenu === site.id ? null : site.id)}
+                  className="p-2 hover:bg-silver-100 rounded-lg text-silver-500"
+                >
+                  <MoreVertical size={16} />
+                </button>
+
+                {/* Dropdown menu */}
+                <AnimatePresence>
+                  {openMenu === site.id && (
+                    <motion.div
+                      initial={{ opacity: 0, y: -8 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -8 }}
+                      className="absolute right-0 top-full mt-1 bg-white rounded-lg shadow-lg border border-silver-200 py-1 z-10 min-w-[160px]"
+                    >
+                      <button
+                        onClick={() => {
+                          onEdit(site);
+                          setOpenMenu(null);
+                        }}
+                        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-navy-900 hover:bg-silver-50"
+                      >
+                        <Edit2 size={14} />
+                        Edit
+                      </button>
+                      {site.isActive ? (
+                        <button
+                          onClick={() => handleDeleteClick(site)}
+                          className="w-full flex items-center gap-2 px-3 py-2 text-sm text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 size={14} />
+                          Deactivate
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            onReactivate(site);
+                            setOpenMenu(null);
+                          }}
+                          className="w-full flex items-center gap-2 px-3 py-2 text-sm text-navy-900 hover:bg-silver-50"
+                        >
+                          <RotateCcw size={14} />
+                          Reactivate
+                        </button>
+                      )}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Delete Confirmation Modal */}
+      <AnimatePresence>
+        {deleteTarget && (
+          <DeleteConfirmModal
+            site={deleteTarget}
+            onConfirm={handleDeleteConfirm}
+            onCancel={() => setDeleteTarget(null)}
+          />
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
@@ -4,12 +4,31 @@
  * LocationForm Component
  *
  * Form for creating and editing office locations with validation.
+ * Geofence zones (polygons or circles) are drawn on a map; when a location
+ * has zones they replace its radius circle for check-in validation.
  */
 
 import { useState, useCallback, useEffect } from 'react';
+import dynamic from 'next/dynamic';
 import { motion } from 'framer-motion';
-import { X, MapPin, Loader2 } from 'lucide-react';
-import type { OfficeLocation, CreateLocationInput } from '@/hooks/useLocations';
+import { X, MapPin, Loader2, Hexagon, Circle as CircleIcon, Undo2, Trash2 } from 'lucide-react';
+import type {
+  OfficeLocation,
+  CreateLocationInput,
+  GeofenceZone,
+  GeofenceZoneInput,
+  GeofenceZoneShape,
+  LatLngTuple,
+} from '@/hooks/useLocations';
+
+// Leaflet needs window, so the map is only rendered on the client
+const ZoneEditorMap = dynamic(
+  () => import('@/components/map/ZoneEditorMap').then((mod) => mod.ZoneEditorMap),
+  {
+    ssr: false,
+    loading: () => <div className="h-[280px] w-full bg-silver-100 rounded-lg animate-pulse" />,
+  }
+);
 
 interface LocationFormProps {
   mode: 'create' | 'edit';
@@ -25,6 +44,19 @@ interface FormErrors {
   latitude?: string;
   longitude?: string;
   radiusMeters?: string;
+  zones?: string;
+}
+
+function toZoneInput(zone: GeofenceZone): GeofenceZoneInput {
+  return zone.shape === 'Polygon'
+    ? { name: zone.name, shape: zone.shape, polygon: zone.polygon ?? [] }
+    : {
+        name: zone.name,
+        shape: zone.shape,
+        latitude: Number(zone.latitude),
+        longitude: Number(zone.longitude),
+        radiusMeters: zone.radiusMeters ?? 100,
+      };
 }
 
 export function LocationForm({
@@ -39,6 +71,8 @@ export function LocationForm({
   const [latitude, setLatitude] = useState(initialData?.latitude?.toString() || '');
   const [longitude, setLongitude] = useState(initialData?.longitude?.toString() || '');
   const [radiusMeters, setRadiusMeters] = useState(initialData?.radiusMeters?.toString() || '200');
+  const [zones, setZones] = useState<GeofenceZoneInput[]>(initialData?.zones?.map(toZoneInput) || []);
+  const [activeZone, setActiveZone] = useState<number | null>(null);
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<Set<string>>(new Set());
 
@@ -50,6 +84,8 @@ export function LocationForm({
       setLatitude(initialData.latitude.toString());
       setLongitude(initialData.longitude.toString());
       setRadiusMeters(initialData.radiusMeters.toString());
+      setZones(initialData.zones?.map(toZoneInput) || []);
+      setActiveZone(null);
       setErrors({});
       setTouched(new Set());
     }
@@ -108,8 +144,23 @@ export function LocationForm({
       newErrors.radiusMeters = 'Radius must be at most 5000 meters';
     }
 
+    // Zone validation: named, polygons need 3+ points, circles need a center and radius
+    for (const zone of zones) {
+      if (!zone.name.trim()) {
+        newErrors.zones = 'Every zone needs a name';
+      } else if (zone.shape === 'Polygon' && (zone.polygon?.length ?? 0) < 3) {
+        newErrors.zones = `Zone "${zone.name}" needs at least 3 points`;
+      } else if (
+        zone.shape === 'Circle' &&
+        (zone.latitude === undefined || !zone.radiusMeters || zone.radiusMeters < 10 || zone.radiusMeters > 5000)
+      ) {
+        newErrors.zones = `Zone "${zone.name}" needs a center and a radius between 10 and 5000 meters`;
+      }
+      if (newErrors.zones) break;
+    }
+
     return newErrors;
-  }, [name, address, latitude, longitude, radiusMeters]);
+  }, [name, address, latitude, longitude, radiusMeters, zones]);
 
   const handleBlur = useCallback((field: string) => {
     setTouched((prev) => new Set(prev).add(field));
@@ -120,7 +171,7 @@ export function LocationForm({
     e.preventDefault();
 
     // Mark all fields as touched
-    setTouched(new Set(['name', 'address', 'latitude', 'longitude', 'radiusMeters']));
+    setTouched(new Set(['name', 'address', 'latitude', 'longitude', 'radiusMeters', 'zones']));
 
     const validationErrors = validate();
     setErrors(validationErrors);
@@ -135,6 +186,7 @@ export function LocationForm({
       latitude: parseFloat(latitude),
       longitude: parseFloat(longitude),
       radiusMeters: parseInt(radiusMeters, 10),
+      zones: zones.map((zone) => ({ ...zone, name: zone.name.trim() })),
     };
 
     const success = await onSubmit(data);
@@ -146,14 +198,49 @@ export function LocationForm({
         setLatitude('');
         setLongitude('');
         setRadiusMeters('200');
+        setZones([]);
+        setActiveZone(null);
         setErrors({});
         setTouched(new Set());
       }
     }
-  }, [name, address, latitude, longitude, radiusMeters, validate, onSubmit, mode]);
+  }, [name, address, latitude, longitude, radiusMeters, zones, validate, onSubmit, mode]);
 
   const showError = (field: keyof FormErrors) => touched.has(field) && errors[field];
 
+  const lat = parseFloat(latitude);
+  const lon = parseFloat(longitude);
+  const hasCenter = !isNaN(lat) && !isNaN(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+  const updateZone = (index: number, changes: Partial<GeofenceZoneInput>) => {
+    setZones((prev) => prev.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)));
+  };
+
+  const addZone = (shape: GeofenceZoneShape) => {
+    const zone: GeofenceZoneInput =
+      shape === 'Polygon'
+        ? { name: `Zone ${zones.length + 1}`, shape, polygon: [] }
+        : { name: `Zone ${zones.length + 1}`, shape, latitude: lat, longitude: lon, radiusMeters: 100 };
+    setZones((prev) => [...prev, zone]);
+    setActiveZone(zones.length);
+  };
+
+  const removeZone = (index: number) => {
+    setZones((prev) => prev.filter((_, i) => i !== index));
+    setActiveZone(null);
+  };
+
+  // Clicking the map adds a polygon vertex or moves a circle's center
+  const handleMapClick = (point: LatLngTuple) => {
+    if (activeZone === null) return;
+    const zone = zones[activeZone];
+    if (zone.shape === 'Polygon') {
+      updateZone(activeZone, { polygon: [...(zone.polygon ?? []), point] });
+    } else {
+      updateZone(activeZone, { latitude: point[0], longitude: point[1] });
+    }
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -166,7 +253,7 @@ export function LocationForm({
         initial={{ opacity: 0, scale: 0.95 }}
         animate={{ opacity: 1, scale: 1 }}
         exit={{ opacity: 0, scale: 0.95 }}
-        className="bg-white rounded-2xl shadow-xl max-w-lg w-full overflow-hidden"
+        className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
@@ -300,8 +387,125 @@ export function LocationForm({
               <p className="text-sm text-red-500 mt-1">{errors.radiusMeters}</p>
             )}
             <p className="text-xs text-silver-500 mt-1">
-              Minimum 50m, maximum 5000m. Typical office: 100-300m.
+              Minimum 50m, maximum 5000m. Typical office: 100-300m. Used while the location has no zones.
+            </p>
+          </div>
+
+          {/* Zones */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-navy-900">Geofence Zones</label>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => addZone('Polygon')}
+                  disabled={!hasCenter}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+                >
+                  <Hexagon size={14} />
+                  Add polygon
+                </button>
+                <button
+                  type="button"
+                  onClick={() => addZone('Circle')}
+                  disabled={!hasCenter}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+                >
+                  <CircleIcon size={14} />
+                  Add circle
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-silver-500 mb-2">
+              Draw the buildings and parking that count as the office. Select a zone, then click the map to
+              {' '}add polygon points or place a circle&apos;s center.
             </p>
+
+            {zones.length > 0 && (
+              <div className="space-y-2 mb-3">
+                {zones.map((zone, index) => (
+                  <div
+                    key={index}
+                    onClick={() => setActiveZone(index)}
+                    className={`flex items-center gap-2 p-2 border rounded-lg cursor-pointer ${
+                      index === activeZone ? 'border-amber-400 bg-amber-50' : 'border-silver-200'
+                    }`}
+                  >
+                    {zone.shape === 'Polygon' ? (
+                      <Hexagon size={16} className="text-silver-500 shrink-0" />
+                    ) : (
+                      <CircleIcon size={16} className="text-silver-500 shrink-0" />
+                    )}
+                    <input
+                      type="text"
+                      value={zone.name}
+                      onChange={(e) => updateZone(index, { name: e.target.value })}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm border border-silver-200 rounded"
+                    />
+                    {zone.shape === 'Polygon' ? (
+                      <>
+                        <span className="text-xs text-silver-500 whitespace-nowrap">
+                          {zone.polygon?.length ?? 0} points
+                        </span>
+                        <button
+                          type="button"
+                          title="Remove last point"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            updateZone(index, { polygon: (zone.polygon ?? []).slice(0, -1) });
+                          }}
+                          className="p-1 text-silver-500 hover:text-navy-900"
+                        >
+                          <Undo2 size={14} />
+                        </button>
+                      </>
+                    ) : (
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          value={zone.radiusMeters ?? ''}
+                          min={10}
+                          max={5000}
+                          onChange={(e) =>
+                            updateZone(index, { radiusMeters: e.target.value ? parseInt(e.target.value, 10) : undefined })
+                          }
+                          className="w-20 px-2 py-1 text-sm border border-silver-200 rounded"
+                        />
+                        <span className="text-xs text-silver-500">m</span>
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      title="Remove zone"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeZone(index);
+                      }}
+                      className="p-1 text-silver-500 hover:text-red-600"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {hasCenter ? (
+              <div className="h-[280px]">
+                <ZoneEditorMap
+                  center={[lat, lon]}
+                  radiusMeters={parseInt(radiusMeters, 10) || undefined}
+                  zones={zones}
+                  activeIndex={activeZone}
+                  onMapClick={handleMapClick}
+                />
+              </div>
+            ) : (
+              <p className="text-xs text-silver-500">Enter coordinates to draw zones on the map.</p>
+            )}
+            {showError('zones') && (
+              <p className="text-sm text-red-500 mt-1">{errors.zones}</p>
+            )}
           </div>
 
           {/* Actions */}
@@ -7,8 +7,9 @@
  */
 
 import { useState, useCallback } from 'react';
+import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Edit2, Trash2, MapPin, MoreVertical, AlertTriangle } from 'lucide-react';
+import { Edit2, Trash2, MapPin, MoreVertical, AlertTriangle, QrCode, Monitor } from 'lucide-react';
 import type { OfficeLocation } from '@/hooks/useLocations';
 
 interface LocationTableProps {
@@ -16,6 +17,7 @@ interface LocationTableProps {
   isLoading: boolean;
   onEdit: (location: OfficeLocation) => void;
   onDelete: (location: OfficeLocation) => void;
+  onToggleQrCheckIn: (location: OfficeLocation) => void;
 }
 
 interface DeleteConfirmModalProps {
@@ -76,6 +78,7 @@ export function LocationTable({
   isLoading,
   onEdit,
   onDelete,
+  onToggleQrCheckIn,
 }: LocationTableProps) {
   const [deleteTarget, setDeleteTarget] = useState<OfficeLocation | null>(null);
   const [openMenu, setOpenMenu] = useState<string | null>(null);
@@ -145,7 +148,7 @@ export function LocationTable({
           <div className="col-span-3">Name</div>
           <div className="col-span-3">Address</div>
           <div className="col-span-3">Coordinates</div>
-          <div className="col-span-1">Radius</div>
+          <div className="col-span-1">Geofence</div>
           <div className="col-span-1">Status</div>
           <div className="col-span-1 text-right">Actions</div>
         </div>
@@ -164,6 +167,11 @@ export function LocationTable({
                 <div className="flex items-center gap-2">
                   <MapPin size={16} className="text-blue-500 flex-shrink-0" />
                   <span className="font-medium text-navy-900 truncate">{location.name}</span>
+                  {location.qrCheckInEnabled && (
+                    <span title="QR check-in enabled">
+                      <QrCode size={14} className="text-silver-500 flex-shrink-0" />
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -184,9 +192,13 @@ export function LocationTable({
                 </span>
               </div>
 
-              {/* Radius */}
+              {/* Geofence: radius or zone count */}
               <div className="col-span-1">
-                <span className="text-sm text-silver-600">{location.radiusMeters}m</span>
+                <span className="text-sm text-silver-600">
+                  {location.zones?.length
+                    ? `${location.zones.length} zone${location.zones.length !== 1 ? 's' : ''}`
+                    : `${location.radiusMeters}m`}
+                </span>
               </div>
 
               {/* Status */}
@@ -218,7 +230,7 @@ export function LocationTable({
                       initial={{ opacity: 0, y: -8 }}
                       animate={{ opacity: 1, y: 0 }}
                       exit={{ opacity: 0, y: -8 }}
-                      className="absolute right-0 top-full mt-1 bg-white rounded-lg shadow-lg border border-silver-200 py-1 z-10 min-w-[140px]"
+                      className="absolute right-0 top-full mt-1 bg-white rounded-lg shadow-lg border border-silver-200 py-1 z-10 min-w-[180px]"
                     >
                       <button
                         onClick={() => {
@@ -230,6 +242,28 @@ export function LocationTable({
                         <Edit2 size={14} />
                         Edit
                       </button>
+                      {location.isActive && (
+                        <button
+                          onClick={() => {
+                            onToggleQrCheckIn(location);
+                            setOpenMenu(null);
+                          }}
+                          className="w-full flex items-center gap-2 px-3 py-2 text-sm text-navy-900 hover:bg-silver-50"
+                        >
+                          <QrCode size={14} />
+                          {location.qrCheckInEnabled ? 'Disable QR check-in' : 'Enable QR check-in'}
+                        </button>
+                      )}
+                      {location.isActive && location.qrCheckInEnabled && (
+                        <Link
+                          href={`/admin/locations/${location.id}/lobby`}
+                          onClick={() => setOpenMenu(null)}
+                          className="w-full flex items-center gap-2 px-3 py-2 text-sm text-navy-900 hover:bg-silver-50"
+                        >
+                          <Monitor size={14} />
+                          Lobby QR display
+                        </Link>
+                      )}
                       {location.isActive && (
                         <button
                           onClick={() => handleDeleteClick(location)}
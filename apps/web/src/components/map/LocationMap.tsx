@@ -1,13 +1,15 @@
 /**
  * LocationMap Component
  *
- * Interactive map displaying check-in locations and office geofence circles.
+ * Interactive map displaying check-in locations and office geofences
+ * (radius circles, or the drawn polygon and circle zones that replace them).
  * Uses React-Leaflet with OpenStreetMap tiles.
  */
 
 'use client';
 
-import { MapContainer, TileLayer, Marker, Popup, Circle } from 'react-leaflet';
+import { Fragment } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Circle, Polygon } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
@@ -55,6 +57,16 @@ export interface CheckInLocation {
   timestamp: string;
   workMode: string;
   verificationStatus: string;
+  locationIntegrity?: 'Trusted' | 'Suspicious' | 'Spoofed' | 'Unverified';
+}
+
+export interface OfficeZoneShape {
+  name: string;
+  shape: 'Circle' | 'Polygon';
+  latitude?: number;
+  longitude?: number;
+  radiusMeters?: number;
+  polygon?: [number, number][];
 }
 
 export interface OfficeLocationMarker {
@@ -63,8 +75,16 @@ export interface OfficeLocationMarker {
   latitude: number;
   longitude: number;
   radiusMeters: number;
+  zones?: OfficeZoneShape[];
 }
 
+const geofenceStyle = {
+  color: '#3b82f6',
+  fillColor: '#3b82f6',
+  fillOpacity: 0.1,
+  weight: 2,
+};
+
 export interface LocationMapProps {
   checkIns: CheckInLocation[];
   offices: OfficeLocationMarker[];
@@ -133,30 +153,59 @@ export function LocationMap({
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
       />
 
-      {/* Office geofence circles */}
-      {offices.map((office) => (
-        <Circle
-          key={office.id}
-          center={[office.latitude, office.longitude]}
-          radius={office.radiusMeters}
-          pathOptions={{
-            color: '#3b82f6',
-            fillColor: '#3b82f6',
-            fillOpacity: 0.1,
-            weight: 2,
-          }}
-        >
-          <Popup>
-            <div className="text-sm">
-              <strong className="text-navy-900">{office.name}</strong>
-              <br />
-              <span className="text-silver-600">
-                Radius: {office.radiusMeters}m
-              </span>
-            </div>
-          </Popup>
-        </Circle>
-      ))}
+      {/* Office geofences: drawn zones, or the radius circle when there are none */}
+      {offices.map((office) =>
+        office.zones && office.zones.length > 0 ? (
+          <Fragment key={office.id}>
+            {office.zones.map((zone, index) => {
+              const popup = (
+                <Popup>
+                  <div className="text-sm">
+                    <strong className="text-navy-900">{office.name}</strong>
+                    <br />
+                    <span className="text-silver-600">
+                      {zone.name}
+                      {zone.shape === 'Circle' ? ` (${zone.radiusMeters}m)` : ''}
+                    </span>
+                  </div>
+                </Popup>
+              );
+
+              return zone.shape === 'Polygon' ? (
+                <Polygon key={index} positions={zone.polygon ?? []} pathOptions={geofenceStyle}>
+                  {popup}
+                </Polygon>
+              ) : (
+                <Circle
+                  key={index}
+                  center={[zone.latitude ?? office.latitude, zone.longitude ?? office.longitude]}
+                  radius={zone.radiusMeters ?? 0}
+                  pathOptions={geofenceStyle}
+                >
+                  {popup}
+                </Circle>
+              );
+            })}
+          </Fragment>
+        ) : (
+          <Circle
+            key={office.id}
+            center={[office.latitude, office.longitude]}
+            radius={office.radiusMeters}
+            pathOptions={geofenceStyle}
+          >
+            <Popup>
+              <div className="text-sm">
+                <strong className="text-navy-900">{office.name}</strong>
+                <br />
+                <span className="text-silver-600">
+                  Radius: {office.radiusMeters}m
+                </span>
+              </div>
+            </Popup>
+          </Circle>
+        )
+      )}
 
       {/* Check-in markers */}
       {checkIns.map((checkIn) => (
@@ -189,6 +238,20 @@ export function LocationMap({
                       : checkIn.verificationStatus}
                 </span>
               </div>
+              {checkIn.locationIntegrity && checkIn.locationIntegrity !== 'Trusted' && (
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="text-xs text-silver-500">GPS:</span>
+                  <span
+                    className={`text-xs px-1.5 py-0.5 rounded ${
+                      checkIn.locationIntegrity === 'Unverified'
+                        ? 'bg-silver-100 text-silver-600'
+                        : 'bg-red-100 text-red-700'
+                    }`}
+                  >
+                    {checkIn.locationIntegrity}
+                  </span>
+                </div>
+              )}
             </div>
           </Popup>
         </Marker>
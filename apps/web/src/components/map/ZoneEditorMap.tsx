@@ -0,0 +1,115 @@
+/**
+ * ZoneEditorMap Component
+ *
+ * Map for drawing an office location's geofence zones. Clicking the map adds
+ * a vertex to the selected polygon zone or moves the selected circle zone's
+ * center. Other zones and the location's radius circle are shown for context.
+ */
+
+'use client';
+
+import { Fragment, useEffect } from 'react';
+import { MapContainer, TileLayer, Circle, Polygon, Polyline, CircleMarker, useMap, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { GeofenceZoneInput, LatLngTuple } from '@/hooks/useLocations';
+
+const ZONE_COLOR = '#3b82f6'; // blue-500
+const ACTIVE_COLOR = '#f59e0b'; // amber-500
+
+export interface ZoneEditorMapProps {
+  center: LatLngTuple;
+  /** Location radius circle, shown while the location has no zones */
+  radiusMeters?: number;
+  zones: GeofenceZoneInput[];
+  activeIndex: number | null;
+  onMapClick: (point: LatLngTuple) => void;
+}
+
+function ClickHandler({ onMapClick }: { onMapClick: (point: LatLngTuple) => void }) {
+  useMapEvents({
+    click: (e) => onMapClick([e.latlng.lat, e.latlng.lng]),
+  });
+  return null;
+}
+
+// MapContainer ignores later center props, so follow coordinate edits manually
+function FollowCenter({ center }: { center: LatLngTuple }) {
+  const map = useMap();
+  const [latitude, longitude] = center;
+  useEffect(() => {
+    map.panTo([latitude, longitude]);
+  }, [map, latitude, longitude]);
+  return null;
+}
+
+export function ZoneEditorMap({ center, radiusMeters, zones, activeIndex, onMapClick }: ZoneEditorMapProps) {
+  return (
+    <MapContainer
+      center={center}
+      zoom={17}
+      className="h-full w-full rounded-lg"
+      style={{ minHeight: '280px', cursor: activeIndex !== null ? 'crosshair' : undefined }}
+      scrollWheelZoom={true}
+    >
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+      />
+      <ClickHandler onMapClick={onMapClick} />
+      <FollowCenter center={center} />
+
+      {/* Location center */}
+      <CircleMarker
+        center={center}
+        radius={6}
+        pathOptions={{ color: '#1e3a8a', fillColor: '#1e3a8a', fillOpacity: 1, weight: 2 }}
+      />
+
+      {zones.length === 0 && radiusMeters ? (
+        <Circle
+          center={center}
+          radius={radiusMeters}
+          pathOptions={{ color: ZONE_COLOR, fillOpacity: 0.1, weight: 2, dashArray: '6 6' }}
+        />
+      ) : null}
+
+      {zones.map((zone, index) => {
+        const color = index === activeIndex ? ACTIVE_COLOR : ZONE_COLOR;
+        const pathOptions = { color, fillColor: color, fillOpacity: 0.15, weight: 2 };
+
+        if (zone.shape === 'Circle') {
+          return zone.latitude !== undefined && zone.longitude !== undefined && zone.radiusMeters ? (
+            <Circle
+              key={index}
+              center={[zone.latitude, zone.longitude]}
+              radius={zone.radiusMeters}
+              pathOptions={pathOptions}
+            />
+          ) : null;
+        }
+
+        const points = zone.polygon ?? [];
+        return (
+          <Fragment key={index}>
+            {points.length >= 3 ? (
+              <Polygon positions={points} pathOptions={pathOptions} />
+            ) : (
+              <Polyline positions={points} pathOptions={pathOptions} />
+            )}
+            {index === activeIndex &&
+              points.map((point, i) => (
+                <CircleMarker
+                  key={i}
+                  center={point}
+                  radius={4}
+                  pathOptions={{ color: ACTIVE_COLOR, fillColor: '#ffffff', fillOpacity: 1, weight: 2 }}
+                />
+              ))}
+          </Fragment>
+        );
+      })}
+    </MapContainer>
+  );
+}
+
+export default ZoneEditorMap;
@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, Briefcase, CheckSquare, MessageSquare } from 'lucide-react';
+import { X, Briefcase, CheckSquare, MessageSquare, Timer } from 'lucide-react';
 import { usePresence } from '@/hooks/usePresence';
+import { useTimesheetTimer } from '@/hooks/useTimesheetTimer';
 import { api } from '@/lib/api';
 
 interface Project {
@@ -19,10 +20,12 @@ interface SetActivityModalProps {
 
 export function SetActivityModal({ isOpen, onClose }: SetActivityModalProps) {
   const { setActivity, postStatus, clearStatus } = usePresence();
+  const { timer, startTimer, error: timerError } = useTimesheetTimer();
   const [projects, setProjects] = useState<Project[]>([]);
   const [selectedProject, setSelectedProject] = useState<string>('');
   const [selectedTask, setSelectedTask] = useState<string>('');
   const [statusMessage, setStatusMessage] = useState('');
+  const [withTimer, setWithTimer] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'activity' | 'status'>('activity');
 
@@ -35,9 +38,10 @@ export function SetActivityModal({ isOpen, onClose }: SetActivityModalProps) {
 
   const fetchProjects = async () => {
     try {
-      const response = await api.get<{ projects: Project[] }>('/projects');
+      // Only the projects and tasks the user can log time to
+      const response = await api.get<Project[]>('/timesheets/projects');
       if (response.success && response.data) {
-        setProjects(response.data.projects);
+        setProjects(response.data);
       }
     } catch (error) {
       console.error('Failed to fetch projects:', error);
@@ -49,6 +53,13 @@ export function SetActivityModal({ isOpen, onClose }: SetActivityModalProps) {
 
     setIsLoading(true);
     try {
+      // Starting a timer also sets the current activity
+      if (withTimer && selectedTask) {
+        if (await startTimer({ projectId: selectedProject, taskId: selectedTask })) {
+          onClose();
+        }
+        return;
+      }
       setActivity(selectedProject, selectedTask || undefined);
       onClose();
     } finally {
@@ -174,8 +185,23 @@ export function SetActivityModal({ isOpen, onClose }: SetActivityModalProps) {
                 </div>
               )}
 
+              {/* Timer */}
+              <label className={`flex items-center gap-2 text-sm ${selectedTask ? 'text-navy-900' : 'text-silver-400'}`}>
+                <input
+                  type="checkbox"
+                  checked={withTimer && !!selectedTask}
+                  disabled={!selectedTask}
+                  onChange={(e) => setWithTimer(e.target.checked)}
+                  className="rounded border-silver-300"
+                />
+                <Timer size={14} />
+                {timer ? 'Stop the running timer and start one for this task' : 'Start a timer for this task'}
+              </label>
+              {timerError && <p className="text-xs text-error">{timerError}</p>}
+
               <p className="text-xs text-silver-500">
-                Your team will see what project you are currently working on.
+                Your team will see what project you are currently working on. Timed work is
+                added to your draft timesheet when you stop the timer.
               </p>
             </div>
           ) : (
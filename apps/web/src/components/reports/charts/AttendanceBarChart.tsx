@@ -54,7 +54,8 @@ export function AttendanceBarChart({ data, height = 300 }: AttendanceBarChartPro
   // Format date for display (e.g., "Mon", "Tue")
   const formattedData = data.map(d => ({
     ...d,
-    displayDate: new Date(d.date).toLocaleDateString('en-US', { weekday: 'short' }),
+    // d.date is a calendar day (YYYY-MM-DD); read it as UTC so the weekday doesn't shift
+    displayDate: new Date(d.date).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' }),
   }));
 
   return (
@@ -0,0 +1,90 @@
+'use client';
+
+/**
+ * BudgetBurnDownChart
+ *
+ * Line chart of a project's remaining hour budget:
+ * - Remaining (blue), from approved timesheet hours
+ * - Ideal (dashed grey), a straight line to zero at the deadline
+ */
+
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+} from 'recharts';
+
+interface BurnDownData {
+  date: string;
+  burnedMinutes: number | null;
+  remainingMinutes: number | null;
+  idealRemainingMinutes: number | null;
+}
+
+interface BudgetBurnDownChartProps {
+  data: BurnDownData[];
+  height?: number;
+}
+
+const toHours = (minutes: number | null) => (minutes === null ? null : Math.round((minutes / 60) * 10) / 10);
+
+const CustomTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-white p-3 rounded-lg shadow-lg border border-silver-200">
+        <p className="font-semibold text-navy-900 mb-1">{label}</p>
+        {payload.map((entry: any, index: number) => (
+          <p key={index} className="text-sm" style={{ color: entry.color }}>
+            {entry.name}: {entry.value}h
+          </p>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+export function BudgetBurnDownChart({ data, height = 300 }: BudgetBurnDownChartProps) {
+  if (data.length === 0 || data.every((d) => d.remainingMinutes === null)) {
+    return (
+      <div className="flex items-center justify-center h-[300px] text-silver-500">
+        Set an hour budget to see the burn-down
+      </div>
+    );
+  }
+
+  const formattedData = data.map((d) => ({
+    // d.date is a calendar day (YYYY-MM-DD); read it as UTC so the day doesn't shift
+    displayDate: new Date(d.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+    remaining: toHours(d.remainingMinutes),
+    ideal: toHours(d.idealRemainingMinutes),
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={formattedData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+        <XAxis dataKey="displayDate" stroke="#64748b" fontSize={12} minTickGap={24} />
+        <YAxis stroke="#64748b" fontSize={12} />
+        <Tooltip content={<CustomTooltip />} />
+        <Legend />
+        <ReferenceLine y={0} stroke="#ef4444" />
+        <Line type="monotone" dataKey="remaining" stroke="#3b82f6" strokeWidth={2} dot={false} name="Remaining" />
+        <Line
+          type="linear"
+          dataKey="ideal"
+          stroke="#94a3b8"
+          strokeDasharray="5 5"
+          dot={false}
+          name="Ideal"
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -1,2 +1,3 @@
 export { AttendanceBarChart } from './AttendanceBarChart';
 export { TimesheetPieChart } from './TimesheetPieChart';
+export { BudgetBurnDownChart } from './BudgetBurnDownChart';
@@ -0,0 +1,102 @@
+/**
+ * Invoice PDF Generator
+ *
+ * Generates an A4 portrait client invoice with its line items.
+ */
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { PDF_CONFIG } from '../pdfConfig';
+
+interface InvoiceLineRow {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+}
+
+interface InvoiceData {
+  number: string;
+  status: string;
+  projectName: string;
+  period: string;
+  issuedAt?: string;
+  dueDate?: string;
+  clientName?: string;
+  clientEmail?: string;
+  clientAddress?: string;
+  currency: string;
+  subtotal: string;
+  notes?: string;
+  lines: InvoiceLineRow[];
+}
+
+export function generateInvoicePdf(data: InvoiceData): void {
+  const doc = new jsPDF(PDF_CONFIG.orientation, PDF_CONFIG.unit, PDF_CONFIG.format);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const right = pageWidth - PDF_CONFIG.margins.right;
+
+  // Header
+  doc.setFontSize(18);
+  doc.setTextColor(...PDF_CONFIG.colors.text);
+  doc.text(data.status === 'Draft' ? 'DRAFT INVOICE' : 'INVOICE', PDF_CONFIG.margins.left, 20);
+
+  doc.setFontSize(10);
+  doc.setTextColor(...PDF_CONFIG.colors.textMuted);
+  const details = [
+    `Invoice: ${data.number}`,
+    data.issuedAt ? `Issued: ${data.issuedAt}` : null,
+    data.dueDate ? `Due: ${data.dueDate}` : null,
+    `Period: ${data.period}`,
+  ].filter((line): line is string => line !== null);
+  details.forEach((line, index) => doc.text(line, right, 20 + index * 6, { align: 'right' }));
+
+  // Client
+  doc.setFontSize(11);
+  doc.setTextColor(...PDF_CONFIG.colors.text);
+  doc.text('Bill to', PDF_CONFIG.margins.left, 34);
+  doc.setFontSize(10);
+  const client = [data.clientName, data.clientEmail, ...(data.clientAddress?.split('\n') ?? [])].filter(
+    (line): line is string => !!line
+  );
+  client.forEach((line, index) => doc.text(line, PDF_CONFIG.margins.left, 40 + index * 5));
+
+  const tableStart = Math.max(40 + client.length * 5, 20 + details.length * 6) + 6;
+  doc.setTextColor(...PDF_CONFIG.colors.textMuted);
+  doc.text(`Project: ${data.projectName}`, PDF_CONFIG.margins.left, tableStart);
+
+  // Lines
+  autoTable(doc, {
+    startY: tableStart + 4,
+    head: [['Description', 'Qty', `Unit Price (${data.currency})`, `Amount (${data.currency})`]],
+    body: data.lines.map(line => [line.description, line.quantity, line.unitPrice, line.amount]),
+    foot: [['', '', 'Total', `${data.subtotal} ${data.currency}`]],
+    styles: { fontSize: 9, cellPadding: 3, textColor: PDF_CONFIG.colors.text },
+    headStyles: { fillColor: PDF_CONFIG.colors.primary, textColor: [255, 255, 255], fontStyle: 'bold' },
+    footStyles: { fillColor: [255, 255, 255], textColor: PDF_CONFIG.colors.text, fontStyle: 'bold' },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' } },
+    alternateRowStyles: { fillColor: PDF_CONFIG.colors.alternateRow },
+    margin: { left: PDF_CONFIG.margins.left, right: PDF_CONFIG.margins.right },
+    didDrawPage: (data) => {
+      const pageCount = doc.getNumberOfPages();
+      doc.setFontSize(8);
+      doc.setTextColor(...PDF_CONFIG.colors.textMuted);
+      doc.text(
+        `Page ${data.pageNumber} of ${pageCount}`,
+        pageWidth / 2,
+        doc.internal.pageSize.getHeight() - 10,
+        { align: 'center' }
+      );
+    },
+  });
+
+  // Notes
+  if (data.notes) {
+    const finalY = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+    doc.setFontSize(10);
+    doc.setTextColor(...PDF_CONFIG.colors.textMuted);
+    doc.text(doc.splitTextToSize(data.notes, right - PDF_CONFIG.margins.left), PDF_CONFIG.margins.left, finalY + 10);
+  }
+
+  doc.save(`${data.number}.pdf`);
+}
@@ -2,3 +2,4 @@ export { PdfExportButton } from './PdfExportButton';
 export { PDF_CONFIG } from './pdfConfig';
 export { generateAttendanceReport } from './generators/attendanceReport';
 export { generateTimesheetReport } from './generators/timesheetReport';
+export { generateInvoicePdf } from './generators/invoice';
@@ -0,0 +1,191 @@
+'use client';
+
+/**
+ * SuggestionsPanel Component
+ *
+ * Suggests draft entries for a week from the user's activity logs. Each
+ * suggestion can be accepted as is, accepted after editing its minutes, or
+ * discarded; nothing is saved until it is accepted.
+ */
+
+import { useEffect, useState } from 'react';
+import { Sparkles, Check, X, Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useTimesheetSuggestions } from '@/hooks/useTimesheetSuggestions';
+import type { TimesheetSuggestion } from '@/hooks/useTimesheetSuggestions';
+
+interface SuggestionsPanelProps {
+  /** Monday of the week to suggest entries for (YYYY-MM-DD) */
+  weekStart: string;
+  /** Called after suggestions have been saved as entries */
+  onAccepted: () => void;
+}
+
+function suggestionKey(s: TimesheetSuggestion): string {
+  return `${s.date}:${s.taskId}`;
+}
+
+function formatMinutes(minutes: number): string {
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function SuggestionsPanel({ weekStart, onAccepted }: SuggestionsPanelProps) {
+  const { suggestions, isLoading, isActionLoading, error, fetchSuggestions, acceptSuggestions, clearError } =
+    useTimesheetSuggestions();
+  const [isOpen, setIsOpen] = useState(false);
+  const [edited, setEdited] = useState<Record<string, number>>({});
+  const [discarded, setDiscarded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEdited({});
+    setDiscarded(new Set());
+    fetchSuggestions(weekStart);
+  }, [isOpen, weekStart, fetchSuggestions]);
+
+  const visibleDays = (suggestions?.days ?? [])
+    .map((day) => ({
+      ...day,
+      suggestions: day.suggestions.filter((s) => !discarded.has(suggestionKey(s))),
+    }))
+    .filter((day) => day.suggestions.length > 0 || day.locked);
+  const pending = visibleDays.flatMap((day) => day.suggestions);
+
+  const getMinutes = (s: TimesheetSuggestion) => edited[suggestionKey(s)] ?? s.minutes;
+
+  const accept = async (items: TimesheetSuggestion[]) => {
+    const entries = items
+      .filter((s) => getMinutes(s) > 0)
+      .map((s) => ({ date: s.date, projectId: s.projectId, taskId: s.taskId, minutes: getMinutes(s) }));
+    if (entries.length === 0) return;
+
+    if (await acceptSuggestions(entries)) {
+      onAccepted();
+      fetchSuggestions(weekStart);
+    }
+  };
+
+  const discard = (s: TimesheetSuggestion) => {
+    setDiscarded((prev) => new Set(prev).add(suggestionKey(s)));
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full bg-white rounded-xl border border-dashed border-silver-300 p-4 text-sm font-medium text-silver-600 hover:bg-silver-50 flex items-center justify-center gap-2"
+      >
+        <Sparkles size={16} />
+        Suggest entries from my activity
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-silver-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Sparkles size={18} className="text-blue-600" />
+          <h3 className="font-medium text-navy-900">Suggested Entries</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          {pending.length > 1 && (
+            <button
+              onClick={() => accept(pending)}
+              disabled={isActionLoading}
+              className="btn-primary text-sm flex items-center gap-2 disabled:opacity-50"
+            >
+              {isActionLoading ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+              Accept All
+            </button>
+          )}
+          <button onClick={() => setIsOpen(false)} className="p-1.5 hover:bg-silver-100 rounded-lg text-silver-500">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 flex items-center justify-between text-sm text-red-700">
+          <span>{error}</span>
+          <button onClick={clearError} className="text-red-500 hover:text-red-700">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="h-16 animate-pulse bg-silver-50 rounded-lg" />
+      ) : visibleDays.length === 0 ? (
+        <p className="text-sm text-silver-500">
+          No suggestions for this week. Activity already on your timesheet is not suggested again.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {visibleDays.map((day) => (
+            <div key={day.date}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium text-navy-900">{format(parseISO(day.date), 'EEE, MMM d')}</span>
+                <span className="text-silver-500">
+                  {day.attendanceMinutes === null
+                    ? 'No completed attendance'
+                    : `${formatMinutes(day.attendanceMinutes)} worked`}
+                  {' • '}
+                  {formatMinutes(day.loggedMinutes)} logged
+                </span>
+              </div>
+
+              {day.locked ? (
+                <p className="text-sm text-silver-500">This day is locked for timesheet changes.</p>
+              ) : (
+                <div className="divide-y divide-silver-100 border border-silver-100 rounded-lg">
+                  {day.suggestions.map((s) => (
+                    <div key={suggestionKey(s)} className="flex items-center gap-3 px-3 py-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-navy-900 truncate">
+                          {s.project.name} <span className="text-silver-400">/</span> {s.task.name}
+                        </p>
+                        <p className="text-xs text-silver-500">
+                          {formatMinutes(s.activityMinutes)} of activity
+                          {s.trimmed && ' • reduced to fit attendance'}
+                        </p>
+                      </div>
+                      <input
+                        type="number"
+                        min={1}
+                        max={1440}
+                        value={getMinutes(s)}
+                        onChange={(e) =>
+                          setEdited((prev) => ({ ...prev, [suggestionKey(s)]: Number(e.target.value) || 0 }))
+                        }
+                        className="w-20 px-2 py-1 border border-silver-200 rounded-lg text-sm text-right"
+                        title="Minutes"
+                      />
+                      <span className="text-xs text-silver-500">min</span>
+                      <button
+                        onClick={() => accept([s])}
+                        disabled={isActionLoading || getMinutes(s) <= 0}
+                        className="p-1.5 text-success hover:bg-success-light rounded-lg disabled:opacity-50"
+                        title="Accept"
+                      >
+                        <Check size={16} />
+                      </button>
+                      <button
+                        onClick={() => discard(s)}
+                        disabled={isActionLoading}
+                        className="p-1.5 text-silver-500 hover:bg-silver-100 rounded-lg disabled:opacity-50"
+                        title="Discard"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
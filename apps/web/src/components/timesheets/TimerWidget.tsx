@@ -0,0 +1,158 @@
+'use client';
+
+/**
+ * TimerWidget Component
+ *
+ * Starts and stops the user's timer. While running it shows the elapsed
+ * time; stopping books the rounded time to a draft timesheet entry.
+ */
+
+import { useEffect, useState } from 'react';
+import { Play, Square, Trash2, Loader2, Timer } from 'lucide-react';
+import { useTimesheetTimer } from '@/hooks/useTimesheetTimer';
+import type { Project } from '@/hooks/useTimesheets';
+
+interface TimerWidgetProps {
+  projects: Project[];
+  /** Called after stopped time has been booked */
+  onBooked: () => void;
+}
+
+function formatElapsed(startedAt: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+export function TimerWidget({ projects, onBooked }: TimerWidgetProps) {
+  const { timer, isActionLoading, error, startTimer, stopTimer, discardTimer, clearError } = useTimesheetTimer();
+  const [projectId, setProjectId] = useState('');
+  const [taskId, setTaskId] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Tick once a second while a timer runs
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const selectedProject = projects.find((p) => p.id === projectId);
+
+  const handleStart = async () => {
+    if (!projectId || !taskId) return;
+    setNotice(null);
+    if (await startTimer({ projectId, taskId })) {
+      setNow(Date.now());
+    }
+  };
+
+  const handleStop = async () => {
+    const result = await stopTimer();
+    if (!result) return;
+    setNotice(
+      result.entries.length > 0
+        ? `Booked ${Math.floor(result.minutes / 60)}h ${result.minutes % 60}m to ${result.entries[0].project.name}`
+        : 'Less time than the rounding increment was tracked, so nothing was booked'
+    );
+    onBooked();
+  };
+
+  const handleDiscard = async () => {
+    if (confirm('Discard the running timer without booking the time?')) {
+      await discardTimer();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-silver-200 p-4">
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+          <Timer size={20} className="text-blue-600" />
+        </div>
+
+        {timer ? (
+          <>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-navy-900 truncate">
+                {timer.project.name} <span className="text-silver-400">/</span> {timer.task.name}
+              </p>
+              <p className="text-sm text-silver-500">Timer running</p>
+            </div>
+            <span className="text-2xl font-semibold tabular-nums text-navy-900">
+              {formatElapsed(timer.startedAt, now)}
+            </span>
+            <button
+              onClick={handleDiscard}
+              disabled={isActionLoading}
+              className="p-2 hover:bg-silver-100 rounded-lg text-silver-500 disabled:opacity-50"
+              title="Discard timer"
+            >
+              <Trash2 size={18} />
+            </button>
+            <button
+              onClick={handleStop}
+              disabled={isActionLoading}
+              className="px-4 py-2 bg-error text-white rounded-lg hover:bg-error/90 disabled:opacity-50 flex items-center gap-2"
+            >
+              {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <Square size={16} />}
+              Stop
+            </button>
+          </>
+        ) : (
+          <>
+            <select
+              value={projectId}
+              onChange={(e) => {
+                setProjectId(e.target.value);
+                setTaskId('');
+              }}
+              className="flex-1 min-w-[10rem] px-3 py-2 border border-silver-200 rounded-lg text-sm"
+            >
+              <option value="">Select a project...</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.code} - {project.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={taskId}
+              onChange={(e) => setTaskId(e.target.value)}
+              disabled={!selectedProject}
+              className="flex-1 min-w-[10rem] px-3 py-2 border border-silver-200 rounded-lg text-sm disabled:bg-silver-50"
+            >
+              <option value="">Select a task...</option>
+              {selectedProject?.tasks.map((task) => (
+                <option key={task.id} value={task.id}>
+                  {task.code} - {task.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleStart}
+              disabled={isActionLoading || !projectId || !taskId}
+              className="btn-primary flex items-center gap-2 disabled:opacity-50"
+            >
+              {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}
+              Start Timer
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-3 flex items-center justify-between text-sm text-red-700">
+          <span>{error}</span>
+          <button onClick={clearError} className="text-red-500 hover:text-red-700">
+            Dismiss
+          </button>
+        </div>
+      )}
+      {notice && !error && <p className="mt-3 text-sm text-silver-600">{notice}</p>}
+    </div>
+  );
+}
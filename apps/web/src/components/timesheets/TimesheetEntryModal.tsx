@@ -42,6 +42,7 @@ export function TimesheetEntryModal({
   const [startTime, setStartTime] = useState('09:00');
   const [endTime, setEndTime] = useState('17:00');
   const [notes, setNotes] = useState('');
+  const [isBillable, setIsBillable] = useState(true);
   const [files, setFiles] = useState<UploadedFile[]>([]);
 
   // Initialize form when editing
@@ -51,6 +52,7 @@ export function TimesheetEntryModal({
       setSelectedProject(project || null);
       setSelectedTask(editEntry.task || null);
       setNotes(editEntry.notes || '');
+      setIsBillable(editEntry.isBillable ?? true);
       setStep('form');
     } else if (isOpen) {
       setStep('project');
@@ -67,6 +69,7 @@ export function TimesheetEntryModal({
   const handleProjectSelect = useCallback((project: Project) => {
     setSelectedProject(project);
     setSelectedTask(null);
+    setIsBillable(project.defaultBillable ?? true);
     setStep('form');
   }, []);
 
@@ -89,6 +92,7 @@ export function TimesheetEntryModal({
       startTime: `${today}T${startTime}:00`,
       endTime: `${today}T${endTime}:00`,
       notes: notes || undefined,
+      isBillable,
       attachmentKeys: files.filter(f => f.objectKey).map(f => f.objectKey!),
     };
 
@@ -104,7 +108,7 @@ export function TimesheetEntryModal({
       setFiles([]);
       onClose();
     }
-  }, [selectedProject, selectedTask, startTime, endTime, notes, files, duration, onSubmit, onClose]);
+  }, [selectedProject, selectedTask, startTime, endTime, notes, isBillable, files, duration, onSubmit, onClose]);
 
   const handleClose = useCallback(() => {
     setStep('project');
@@ -237,6 +241,17 @@ export function TimesheetEntryModal({
                       />
                     </div>
 
+                    {/* Billable */}
+                    <label className="flex items-center gap-2 text-sm text-navy-900">
+                      <input
+                        type="checkbox"
+                        checked={isBillable}
+                        onChange={(e) => setIsBillable(e.target.checked)}
+                        className="w-4 h-4 rounded border-silver-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Billable to the client
+                    </label>
+
                     {/* File upload */}
                     <div>
                       <label className="block text-sm font-medium text-navy-900 mb-2">Attachments (optional)</label>
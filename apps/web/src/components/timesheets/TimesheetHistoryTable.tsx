@@ -3,11 +3,13 @@
 /**
  * TimesheetHistoryTable Component
  *
- * Displays timesheet history in table format with edit/delete for today's entries.
+ * Displays timesheet history in table format with approval status, and
+ * edit/delete for today's draft entries and for rejected entries.
  */
 
 import { useState } from 'react';
 import { Clock, Paperclip, MoreVertical, Edit2, Trash2 } from 'lucide-react';
+import { TimesheetStatusBadge } from './TimesheetStatusBadge';
 import type { TimesheetEntry } from '@/hooks/useTimesheets';
 
 interface TimesheetHistoryTableProps {
@@ -54,13 +56,16 @@ export function TimesheetHistoryTable({ entries, isLoading, onEdit, onDelete }:
             <th className="px-4 py-3 text-left text-xs font-medium text-silver-500 uppercase">Task</th>
             <th className="px-4 py-3 text-left text-xs font-medium text-silver-500 uppercase">Hours</th>
             <th className="px-4 py-3 text-left text-xs font-medium text-silver-500 uppercase">Notes</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-silver-500 uppercase">Status</th>
             <th className="px-4 py-3 text-right text-xs font-medium text-silver-500 uppercase"></th>
           </tr>
         </thead>
         <tbody className="divide-y divide-silver-100">
           {entries.map((entry) => {
             const entryDate = entry.date.split('T')[0];
-            const isEditable = entryDate === today;
+            // Submitted and approved entries are locked; rejected ones can be corrected
+            const isEditable =
+              entry.status === 'Rejected' || (entry.status === 'Draft' && entryDate === today);
 
             return (
               <tr key={entry.id} className="hover:bg-silver-50">
@@ -76,6 +81,9 @@ export function TimesheetHistoryTable({ entries, isLoading, onEdit, onDelete }:
                 </td>
                 <td className="px-4 py-3 text-sm font-medium text-navy-900">
                   {Math.floor(entry.minutes / 60)}h {entry.minutes % 60}m
+                  {entry.isBillable === false && (
+                    <span className="block text-xs font-normal text-silver-500">Non-billable</span>
+                  )}
                 </td>
                 <td className="px-4 py-3 text-sm text-silver-600 max-w-xs truncate">
                   <div className="flex items-center gap-2">
@@ -85,6 +93,12 @@ export function TimesheetHistoryTable({ entries, isLoading, onEdit, onDelete }:
                     )}
                   </div>
                 </td>
+                <td className="px-4 py-3 text-sm">
+                  <TimesheetStatusBadge status={entry.status} />
+                  {entry.status === 'Rejected' && entry.reviewComment && (
+                    <p className="mt-1 text-xs text-error max-w-xs">{entry.reviewComment}</p>
+                  )}
+                </td>
                 <td className="px-4 py-3 text-right">
                   {isEditable && (
                     <div className="relative">
@@ -0,0 +1,24 @@
+'use client';
+
+/**
+ * TimesheetStatusBadge Component
+ *
+ * Coloured pill showing the approval status of a timesheet entry or week.
+ */
+
+import type { TimesheetStatus } from '@/hooks/useTimesheets';
+
+const statusStyles: Record<TimesheetStatus, string> = {
+  Draft: 'bg-silver-100 text-silver-600',
+  Submitted: 'bg-warning-light text-warning',
+  Approved: 'bg-success-light text-success',
+  Rejected: 'bg-error-light text-error',
+};
+
+export function TimesheetStatusBadge({ status }: { status: TimesheetStatus }) {
+  return (
+    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusStyles[status]}`}>
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+/**
+ * WeekSubmissionCard Component
+ *
+ * Shows the approval status of one week of timesheet entries and submits
+ * the week for approval.
+ */
+
+import { ChevronLeft, ChevronRight, Send, Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { TimesheetStatusBadge } from './TimesheetStatusBadge';
+import type { TimesheetWeek } from '@/hooks/useTimesheets';
+
+interface WeekSubmissionCardProps {
+  week: TimesheetWeek | null;
+  isLoading: boolean;
+  /** The week shown is the current week; later weeks cannot be opened */
+  isCurrentWeek: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  onSubmit: () => void;
+}
+
+export function WeekSubmissionCard({
+  week,
+  isLoading,
+  isCurrentWeek,
+  onPrevious,
+  onNext,
+  onSubmit,
+}: WeekSubmissionCardProps) {
+  if (!week) {
+    return <div className="bg-white rounded-xl border border-silver-200 p-4 h-20 animate-pulse" />;
+  }
+
+  const pendingCount = week.entries.filter((e) => e.status === 'Draft' || e.status === 'Rejected').length;
+  const rejectedCount = week.entries.filter((e) => e.status === 'Rejected').length;
+  const canSubmit = week.status !== 'Submitted' && pendingCount > 0;
+
+  return (
+    <div className="bg-white rounded-xl border border-silver-200 p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <button onClick={onPrevious} className="p-1.5 hover:bg-silver-100 rounded-lg text-silver-600">
+            <ChevronLeft size={18} />
+          </button>
+          <div>
+            <p className="font-medium text-navy-900">
+              {format(parseISO(week.weekStart), 'MMM d')} – {format(parseISO(week.weekEnd), 'MMM d, yyyy')}
+            </p>
+            <p className="text-sm text-silver-500">
+              {Math.floor(week.totalMinutes / 60)}h {week.totalMinutes % 60}m logged
+              {week.submission?.submittedAt &&
+                ` • Submitted ${format(new Date(week.submission.submittedAt), 'MMM d')}`}
+            </p>
+          </div>
+          <button
+            onClick={onNext}
+            disabled={isCurrentWeek}
+            className="p-1.5 hover:bg-silver-100 rounded-lg text-silver-600 disabled:opacity-30"
+          >
+            <ChevronRight size={18} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <TimesheetStatusBadge status={week.status} />
+          {canSubmit && (
+            <button
+              onClick={onSubmit}
+              disabled={isLoading}
+              className="btn-primary flex items-center gap-2 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+              {week.status === 'Rejected' ? 'Resubmit Week' : 'Submit Week'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {week.status === 'Rejected' && (
+        <p className="mt-3 text-sm text-error">
+          {rejectedCount} {rejectedCount === 1 ? 'line was' : 'lines were'} rejected
+          {week.submission?.comment ? `: ${week.submission.comment}` : ''}. Correct them and resubmit the week.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,16 +4,180 @@
  * WeeklySummary Component
  *
  * Displays weekly timesheet summary with daily breakdown and project totals.
+ * Given a week, it can also fill that week with draft entries copied from
+ * the previous week or from a saved template, and save the week as one.
  */
 
+import { useEffect, useState } from 'react';
+import { Copy, Loader2, Repeat, Save, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useTimesheetTemplates } from '@/hooks/useTimesheetTemplates';
+import type { FillSkipReason, FillWeekResult } from '@/hooks/useTimesheetTemplates';
 import type { TimesheetSummary } from '@/hooks/useTimesheets';
 
 interface WeeklySummaryProps {
   summary: TimesheetSummary | null;
   isLoading: boolean;
+  /** Monday of the week to fill (YYYY-MM-DD); fill controls are hidden without it */
+  weekStart?: string;
+  /** Called after draft entries have been added to the week */
+  onFilled?: () => void;
 }
 
-export function WeeklySummary({ summary, isLoading }: WeeklySummaryProps) {
+const SKIP_LABELS: Record<FillSkipReason, string> = {
+  Holiday: 'holiday',
+  Leave: 'leave',
+  Locked: 'closed period',
+  NoAccess: 'task not available',
+  AlreadyLogged: 'already logged',
+  DailyLimit: 'over the daily limit',
+};
+
+/**
+ * One-line outcome of a fill, e.g. "Added 8 entries. Skipped: 2 holiday, 1 already logged."
+ */
+function describeFill(result: FillWeekResult): string {
+  const counts = result.skipped.reduce((acc, s) => {
+    acc[s.reason] = (acc[s.reason] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<FillSkipReason, number>>);
+  const skipped = (Object.keys(counts) as FillSkipReason[]).map((r) => `${counts[r]} ${SKIP_LABELS[r]}`);
+
+  return `Added ${result.entries.length} ${result.entries.length === 1 ? 'entry' : 'entries'}.${
+    skipped.length > 0 ? ` Skipped: ${skipped.join(', ')}.` : ''
+  }`;
+}
+
+function WeekFillBar({ weekStart, onFilled }: { weekStart: string; onFilled: () => void }) {
+  const {
+    templates,
+    isActionLoading,
+    error,
+    fetchTemplates,
+    copyWeek,
+    applyTemplate,
+    saveWeekAsTemplate,
+    setRecurring,
+    deleteTemplate,
+    clearError,
+  } = useTimesheetTemplates();
+  const [templateId, setTemplateId] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => {
+    setMessage(null);
+  }, [weekStart]);
+
+  const selected = templates.find((t) => t.id === templateId);
+
+  const handleFilled = (result: FillWeekResult | null) => {
+    if (!result) return;
+    setMessage(describeFill(result));
+    if (result.entries.length > 0) onFilled();
+  };
+
+  const handleSave = async () => {
+    const name = prompt('Template name');
+    if (!name?.trim()) return;
+    if (await saveWeekAsTemplate(name.trim(), weekStart)) {
+      setMessage(`Saved as "${name.trim()}".`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete the template "${selected.name}"?`)) return;
+    if (await deleteTemplate(selected.id)) {
+      setTemplateId('');
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-silver-100">
+      <h4 className="text-sm font-medium text-silver-600 mb-2">
+        Fill week of {format(parseISO(weekStart), 'MMM d')}
+      </h4>
+
+      {error && (
+        <div className="mb-2 flex items-center justify-between text-sm text-red-700">
+          <span>{error}</span>
+          <button onClick={clearError} className="text-red-500 hover:text-red-700">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={async () => handleFilled(await copyWeek(weekStart))}
+          disabled={isActionLoading}
+          className="px-3 py-1.5 text-sm border border-silver-200 rounded-lg hover:bg-silver-50 flex items-center gap-2 disabled:opacity-50"
+        >
+          {isActionLoading ? <Loader2 size={14} className="animate-spin" /> : <Copy size={14} />}
+          Copy last week
+        </button>
+
+        <select
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value)}
+          className="px-2 py-1.5 border border-silver-200 rounded-lg text-sm"
+        >
+          <option value="">Select template</option>
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+              {t.isRecurring ? ' (recurring)' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={async () => selected && handleFilled(await applyTemplate(selected.id, weekStart))}
+          disabled={isActionLoading || !selected}
+          className="px-3 py-1.5 text-sm border border-silver-200 rounded-lg hover:bg-silver-50 disabled:opacity-50"
+        >
+          Apply
+        </button>
+        {selected && (
+          <>
+            <button
+              onClick={() => setRecurring(selected.id, !selected.isRecurring)}
+              disabled={isActionLoading}
+              title={selected.isRecurring ? 'Stop filling each new week' : 'Fill each new week automatically'}
+              className={`p-1.5 rounded-lg hover:bg-silver-100 ${
+                selected.isRecurring ? 'text-blue-600' : 'text-silver-500'
+              }`}
+            >
+              <Repeat size={14} />
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={isActionLoading}
+              className="p-1.5 rounded-lg hover:bg-silver-100 text-silver-500"
+            >
+              <Trash2 size={14} />
+            </button>
+          </>
+        )}
+
+        <button
+          onClick={handleSave}
+          disabled={isActionLoading}
+          className="ml-auto flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+        >
+          <Save size={14} />
+          Save week as template
+        </button>
+      </div>
+
+      {message && <p className="mt-2 text-xs text-silver-500">{message}</p>}
+    </div>
+  );
+}
+
+export function WeeklySummary({ summary, isLoading, weekStart, onFilled }: WeeklySummaryProps) {
   if (isLoading || !summary) {
     return (
       <div className="bg-white rounded-xl border border-silver-200 p-4 animate-pulse">
@@ -91,6 +255,9 @@ export function WeeklySummary({ summary, isLoading }: WeeklySummaryProps) {
           </div>
         </div>
       )}
+
+      {/* Copy week and templates */}
+      {weekStart && onFilled && <WeekFillBar weekStart={weekStart} onFilled={onFilled} />}
     </div>
   );
 }
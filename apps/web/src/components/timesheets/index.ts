@@ -1,6 +1,10 @@
 export { TimesheetEntryModal } from './TimesheetEntryModal';
 export { TimesheetHistoryTable } from './TimesheetHistoryTable';
 export { WeeklySummary } from './WeeklySummary';
+export { WeekSubmissionCard } from './WeekSubmissionCard';
+export { TimerWidget } from './TimerWidget';
+export { SuggestionsPanel } from './SuggestionsPanel';
+export { TimesheetStatusBadge } from './TimesheetStatusBadge';
 export { TimePresetButtons } from './TimePresetButtons';
 export { FileUpload } from './FileUpload';
 export type { UploadedFile } from './FileUpload';
@@ -0,0 +1,265 @@
+'use client';
+
+/**
+ * WorkScheduleForm Component
+ *
+ * Form for creating and editing work schedules: a weekly grid of working
+ * days with start/end times, plus late and early grace periods.
+ */
+
+import { useState, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { X, CalendarClock, Loader2 } from 'lucide-react';
+import type { WorkSchedule, WorkScheduleDay, WorkScheduleInput } from '@/hooks/useWorkSchedules';
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Show Monday first, as most schedules read that way
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface WorkScheduleFormProps {
+  mode: 'create' | 'edit';
+  initialData?: WorkSchedule;
+  isLoading: boolean;
+  onSubmit: (data: WorkScheduleInput) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+function buildInitialDays(schedule?: WorkSchedule): WorkScheduleDay[] {
+  return WEEKDAY_ORDER.map((weekday) => {
+    const existing = schedule?.days.find((d) => d.weekday === weekday);
+    return existing
+      ? { weekday, isWorkingDay: existing.isWorkingDay, startTime: existing.startTime, endTime: existing.endTime }
+      : { weekday, isWorkingDay: !schedule && weekday >= 1 && weekday <= 5, startTime: '09:00', endTime: '18:00' };
+  });
+}
+
+export function WorkScheduleForm({
+  mode,
+  initialData,
+  isLoading,
+  onSubmit,
+  onCancel,
+}: WorkScheduleFormProps) {
+  const [name, setName] = useState(initialData?.name || '');
+  const [description, setDescription] = useState(initialData?.description || '');
+  const [graceMinutesLate, setGraceMinutesLate] = useState(initialData?.graceMinutesLate?.toString() ?? '15');
+  const [graceMinutesEarly, setGraceMinutesEarly] = useState(initialData?.graceMinutesEarly?.toString() ?? '15');
+  const [isDefault, setIsDefault] = useState(initialData?.isDefault ?? false);
+  const [days, setDays] = useState<WorkScheduleDay[]>(() => buildInitialDays(initialData));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const updateDay = useCallback((weekday: number, changes: Partial<WorkScheduleDay>) => {
+    setDays((prev) => prev.map((d) => (d.weekday === weekday ? { ...d, ...changes } : d)));
+  }, []);
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const late = parseInt(graceMinutesLate, 10);
+    const early = parseInt(graceMinutesEarly, 10);
+
+    if (name.trim().length < 2) {
+      setFormError('Name must be at least 2 characters');
+      return;
+    }
+    if (isNaN(late) || late < 0 || late > 240 || isNaN(early) || early < 0 || early > 240) {
+      setFormError('Grace periods must be between 0 and 240 minutes');
+      return;
+    }
+    if (!days.some((d) => d.isWorkingDay)) {
+      setFormError('Select at least one working day');
+      return;
+    }
+    setFormError(null);
+
+    await onSubmit({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      graceMinutesLate: late,
+      graceMinutesEarly: early,
+      isDefault,
+      days,
+    });
+  }, [name, description, graceMinutesLate, graceMinutesEarly, isDefault, days, onSubmit]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-silver-100">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-50 rounded-lg">
+              <CalendarClock size={20} className="text-blue-600" />
+            </div>
+            <h2 className="text-lg font-semibold text-navy-900">
+              {mode === 'create' ? 'New Work Schedule' : 'Edit Work Schedule'}
+            </h2>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 text-silver-500 hover:text-navy-900 transition-colors rounded-lg hover:bg-silver-50"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          {formError && (
+            <p className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{formError}</p>
+          )}
+
+          {/* Name */}
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-1">
+              Schedule Name *
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., General Shift, Night Shift"
+              className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          {/* Description */}
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-1">
+              Description
+            </label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          {/* Weekly grid */}
+          <div>
+            <label className="block text-sm font-medium text-navy-900 mb-2">
+              Weekly Hours
+            </label>
+            <div className="border border-silver-200 rounded-lg divide-y divide-silver-100">
+              {days.map((day) => (
+                <div key={day.weekday} className="flex items-center gap-3 px-3 py-2">
+                  <label className="flex items-center gap-2 w-36 text-sm text-navy-900">
+                    <input
+                      type="checkbox"
+                      checked={day.isWorkingDay}
+                      onChange={(e) => updateDay(day.weekday, { isWorkingDay: e.target.checked })}
+                      className="rounded border-silver-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {WEEKDAY_LABELS[day.weekday]}
+                  </label>
+                  {day.isWorkingDay ? (
+                    <div className="flex items-center gap-2 text-sm">
+                      <input
+                        type="time"
+                        value={day.startTime}
+                        onChange={(e) => updateDay(day.weekday, { startTime: e.target.value })}
+                        className="px-2 py-1 border border-silver-200 rounded-lg"
+                      />
+                      <span className="text-silver-500">to</span>
+                      <input
+                        type="time"
+                        value={day.endTime}
+                        onChange={(e) => updateDay(day.weekday, { endTime: e.target.value })}
+                        className="px-2 py-1 border border-silver-200 rounded-lg"
+                      />
+                    </div>
+                  ) : (
+                    <span className="text-sm text-silver-400">Day off</span>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-silver-500 mt-1">
+              An end time earlier than the start time runs past midnight (night shift).
+            </p>
+          </div>
+
+          {/* Grace periods */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-navy-900 mb-1">
+                Late Grace (minutes)
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={240}
+                value={graceMinutesLate}
+                onChange={(e) => setGraceMinutesLate(e.target.value)}
+                className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-navy-900 mb-1">
+                Early Leave Grace (minutes)
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={240}
+                value={graceMinutesEarly}
+                onChange={(e) => setGraceMinutesEarly(e.target.value)}
+                className="w-full px-3 py-2 border border-silver-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          {/* Default */}
+          <label className="flex items-center gap-2 text-sm text-navy-900">
+            <input
+              type="checkbox"
+              checked={isDefault}
+              onChange={(e) => setIsDefault(e.target.checked)}
+              className="rounded border-silver-300 text-blue-600 focus:ring-blue-500"
+            />
+            Company default (used when no employee, location or department schedule applies)
+          </label>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4 border-t border-silver-100">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-4 py-2.5 text-silver-600 bg-white border border-silver-200 rounded-lg hover:bg-silver-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="flex-1 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 size={18} className="animate-spin" />
+                  {mode === 'create' ? 'Creating...' : 'Saving...'}
+                </>
+              ) : (
+                mode === 'create' ? 'Create Schedule' : 'Save Changes'
+              )}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
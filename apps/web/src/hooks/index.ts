@@ -9,32 +9,171 @@ export type {
   BreakType,
   AttendanceEvent,
   BreakSegment,
+  AttendanceSession,
   CurrentBreak,
   WorkPolicy,
+  ScheduledDay,
   AttendanceDay,
   CheckOutSummary,
 } from './useAttendance';
 
+export { useAttendanceCalendar } from './useAttendanceCalendar';
+export type { DayStatus, CalendarDay, AttendanceCalendar } from './useAttendanceCalendar';
+
 export { useTimesheets } from './useTimesheets';
 export type {
   Project,
   Task,
   Attachment,
   TimesheetEntry,
+  TimesheetStatus,
+  TimesheetWeek,
   CreateTimesheetDto,
   TimesheetSummary,
 } from './useTimesheets';
 
+export { useTimesheetTimer } from './useTimesheetTimer';
+export type { TimesheetTimer, StartTimerInput, StoppedTimer } from './useTimesheetTimer';
+
+export { useTimesheetSuggestions } from './useTimesheetSuggestions';
+export type {
+  TimesheetSuggestion,
+  TimesheetSuggestionDay,
+  TimesheetSuggestionWeek,
+  AcceptSuggestionInput,
+} from './useTimesheetSuggestions';
+
+export { useTimesheetTemplates } from './useTimesheetTemplates';
+export type {
+  TimesheetTemplate,
+  TimesheetTemplateLine,
+  FillWeekResult,
+  FillSkipReason,
+} from './useTimesheetTemplates';
+
+export { useTimesheetApprovals } from './useTimesheetApprovals';
+export type {
+  TimesheetApproval,
+  TimesheetApprovalLine,
+  TimesheetDecision,
+  ReviewTimesheetInput,
+} from './useTimesheetApprovals';
+
 export { useLocations } from './useLocations';
 export type {
   OfficeLocation,
   CreateLocationInput,
   UpdateLocationInput,
+  GeofenceZone,
+  GeofenceZoneInput,
+  GeofenceZoneShape,
+  LatLngTuple,
 } from './useLocations';
 
+export { useCustomerSites } from './useCustomerSites';
+export type {
+  CustomerSite,
+  CustomerSiteInput,
+  SiteVisit,
+  SiteVisitRange,
+  TimeOnSiteEntry,
+  TimeOnSiteReport,
+} from './useCustomerSites';
+
 export { useCheckInLocations } from './useCheckInLocations';
 export type { CheckInLocation } from './useCheckInLocations';
 
+export { useTimesheetReconciliation } from './useTimesheetReconciliation';
+export type {
+  ReconciliationIssue,
+  ReconciliationRow,
+  ReconciliationReport,
+  ReconciliationFilters,
+} from './useTimesheetReconciliation';
+
+export { useRegularizations } from './useRegularizations';
+export type {
+  Regularization,
+  RegularizationStatus,
+  CreateRegularizationInput,
+} from './useRegularizations';
+
+export { useOvertime } from './useOvertime';
+export type {
+  OvertimeRequest,
+  OvertimeRequestStatus,
+  OvertimeReviewQueue,
+  UnapprovedOvertimeDay,
+  CreateOvertimeInput,
+} from './useOvertime';
+
+export { useCompOff } from './useCompOff';
+export type { CompOffCredit, CompOffCreditStatus } from './useCompOff';
+
+export { useKioskDevices } from './useKioskDevices';
+export type { KioskDevice, CreateKioskDeviceInput, RegisteredKioskDevice } from './useKioskDevices';
+
+export { usePayrollPeriods } from './usePayrollPeriods';
+
+export { useProjectBilling } from './useProjectBilling';
+export type {
+  ProjectBillingSettings,
+  ProjectRate,
+  ProjectRateInput,
+  RateRole,
+} from './useProjectBilling';
+
+export { useProjectMembers } from './useProjectMembers';
+export type {
+  ProjectMember,
+  ProjectMemberRole,
+  ProjectTaskAssignees,
+} from './useProjectMembers';
+
+export { useInvoices } from './useInvoices';
+export type {
+  Invoice,
+  InvoiceLine,
+  InvoiceStatus,
+  InvoiceLineType,
+  InvoiceFilters,
+  GenerateInvoicesInput,
+  GenerateInvoicesResult,
+} from './useInvoices';
+
+export { useProjectBudget } from './useProjectBudget';
+export type {
+  ProjectBudget,
+  TaskBudget,
+  BudgetBurn,
+  BurnDownPoint,
+  ProjectBudgetInput,
+  TaskBudgetInput,
+} from './useProjectBudget';
+export type {
+  PayrollPeriod,
+  PeriodLockStatus,
+  PeriodAdjustment,
+  PeriodAdjustmentType,
+  ClosePeriodInput,
+  ClosedPeriodResult,
+  CreateAdjustmentInput,
+} from './usePayrollPeriods';
+
+export { useWorkSchedules } from './useWorkSchedules';
+export type {
+  WorkSchedule,
+  WorkScheduleDay,
+  WorkScheduleAssignment,
+  WorkScheduleScope,
+  WorkScheduleInput,
+  AssignWorkScheduleInput,
+  AssignmentTargets,
+} from './useWorkSchedules';
+
+export { useCheckInQrCode } from './useCheckInQrCode';
+export type { CheckInQrCode } from './useCheckInQrCode';
+
 export { usePresence } from './usePresence';
 
 export { useDebounce } from './useDebounce';
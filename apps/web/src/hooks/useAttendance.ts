@@ -27,6 +27,8 @@ export interface AttendanceEvent {
   verificationStatus: string;
   notes?: string;
   isOverride: boolean;
+  isAutoClosed: boolean;
+  locationIntegrity?: 'Trusted' | 'Suspicious' | 'Spoofed' | 'Unverified';
 }
 
 export interface BreakSegment {
@@ -35,6 +37,14 @@ export interface BreakSegment {
   startTime: string;
   endTime?: string;
   durationMinutes?: number;
+  isAutoClosed: boolean;
+}
+
+export interface AttendanceSession {
+  checkInTime: string;
+  checkOutTime?: string;
+  workMode: WorkMode;
+  durationMinutes: number;
 }
 
 export interface CurrentBreak {
@@ -51,6 +61,14 @@ export interface WorkPolicy {
   standardWorkHours: number;
 }
 
+export interface ScheduledDay {
+  scheduleName: string;
+  isWorkingDay: boolean;
+  startTime: string;
+  endTime: string;
+  graceMinutesLate: number;
+}
+
 export interface AttendanceDay {
   id?: string;
   date: string;
@@ -65,7 +83,9 @@ export interface AttendanceDay {
   overtimeMinutes: number;
   events: AttendanceEvent[];
   breaks: BreakSegment[];
+  sessions: AttendanceSession[];
   policy: WorkPolicy;
+  schedule: ScheduledDay;
 }
 
 export interface CheckOutSummary {
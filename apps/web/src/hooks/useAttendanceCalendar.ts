@@ -0,0 +1,84 @@
+'use client';
+
+/**
+ * useAttendanceCalendar Hook
+ *
+ * Loads the month calendar of day statuses (present, on leave, holiday,
+ * weekend, absent) for the current user or one of their reports.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export type DayStatus = 'Present' | 'OnLeave' | 'Holiday' | 'Weekend' | 'Absent';
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  status: DayStatus | null;
+  workMinutes: number;
+  holidayName?: string;
+  leaveTypeName?: string;
+}
+
+export interface AttendanceCalendar {
+  userId: string;
+  month: string; // YYYY-MM
+  timezone: string;
+  today: string;
+  days: CalendarDay[];
+  summary: {
+    present: number;
+    onLeave: number;
+    holiday: number;
+    weekend: number;
+    absent: number;
+  };
+}
+
+interface UseAttendanceCalendarReturn {
+  // State
+  calendar: AttendanceCalendar | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchCalendar: (month?: string, userId?: string) => Promise<void>;
+}
+
+export function useAttendanceCalendar(): UseAttendanceCalendarReturn {
+  const [calendar, setCalendar] = useState<AttendanceCalendar | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCalendar = useCallback(async (month?: string, userId?: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (month) params.set('month', month);
+      if (userId) params.set('userId', userId);
+      const query = params.toString();
+
+      const response = await api.get<AttendanceCalendar>(
+        `/attendance/calendar${query ? `?${query}` : ''}`
+      );
+      if (response.success && response.data) {
+        setCalendar(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load attendance calendar');
+      }
+    } catch (err) {
+      setError('Network error while loading attendance calendar');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    calendar,
+    isLoading,
+    error,
+    fetchCalendar,
+  };
+}
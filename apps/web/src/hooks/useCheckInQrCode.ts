@@ -0,0 +1,45 @@
+/**
+ * useCheckInQrCode Hook
+ *
+ * React Query hook for the rotating check-in QR code of an office location.
+ * Refetches whenever the current token expires so a lobby screen always
+ * shows a valid code.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+
+export interface CheckInQrCode {
+  locationId: string;
+  locationName: string;
+  token: string;
+  rotationSeconds: number;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export function useCheckInQrCode(locationId: string | undefined) {
+  return useQuery({
+    queryKey: ['check-in-qr-code', locationId],
+    queryFn: async () => {
+      const response = await api.get<CheckInQrCode>(
+        `/attendance/qr-code/${locationId}`,
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to fetch QR code');
+      }
+
+      return response.data;
+    },
+    enabled: !!locationId,
+    // Refresh just after the current token rotates out
+    refetchInterval: (query) => {
+      const expiresAt = query.state.data?.expiresAt;
+      if (!expiresAt) return 30000;
+      return Math.max(new Date(expiresAt).getTime() - Date.now() + 500, 1000);
+    },
+    refetchIntervalInBackground: true,
+    staleTime: 0,
+  });
+}
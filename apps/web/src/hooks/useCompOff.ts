@@ -0,0 +1,120 @@
+'use client';
+
+/**
+ * useCompOff Hook
+ *
+ * Manages comp-off credits earned by working on holidays and non-working
+ * days: the employee's own ledger and confirming credits of direct reports.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export type CompOffCreditStatus = 'Pending' | 'Approved' | 'Rejected' | 'Expired';
+
+export interface CompOffCredit {
+  id: string;
+  userId: string;
+  date: string;
+  source: 'Holiday' | 'NonWorkingDay';
+  workedMinutes: number;
+  days: string | number;
+  status: CompOffCreditStatus;
+  expiresAt: string;
+  usedDays: string | number;
+  expiredDays: string | number | null;
+  reviewedAt: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+  holiday?: { id: string; name: string } | null;
+  user?: { id: string; profile: { firstName: string; lastName: string } | null };
+}
+
+interface UseCompOffReturn {
+  // State
+  credits: CompOffCredit[];
+  isLoading: boolean;
+  isActionLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchMyCredits: () => Promise<void>;
+  fetchPending: () => Promise<void>;
+  approveCredit: (id: string, notes?: string) => Promise<boolean>;
+  rejectCredit: (id: string, reason: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+export function useCompOff(): UseCompOffReturn {
+  const [credits, setCredits] = useState<CompOffCredit[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchList = useCallback(async (path: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<CompOffCredit[]>(path);
+      if (response.success && response.data) {
+        setCredits(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load comp-off credits');
+      }
+    } catch (err) {
+      setError('Network error while loading comp-off credits');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchMyCredits = useCallback(() => fetchList('/comp-off/credits/my'), [fetchList]);
+  const fetchPending = useCallback(() => fetchList('/comp-off/credits/pending'), [fetchList]);
+
+  const reviewCredit = useCallback(
+    async (id: string, action: 'approve' | 'reject', body: object): Promise<boolean> => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await api.patch<CompOffCredit>(`/comp-off/credits/${id}/${action}`, body);
+        if (response.success) {
+          setCredits((prev) => prev.filter((c) => c.id !== id));
+          return true;
+        }
+        setError(response.error?.message || `Failed to ${action} comp-off`);
+        return false;
+      } catch (err) {
+        setError('Network error. Please try again.');
+        return false;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    []
+  );
+
+  const approveCredit = useCallback(
+    (id: string, notes?: string) => reviewCredit(id, 'approve', { notes }),
+    [reviewCredit]
+  );
+
+  const rejectCredit = useCallback(
+    (id: string, reason: string) => reviewCredit(id, 'reject', { reason }),
+    [reviewCredit]
+  );
+
+  return {
+    credits,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchMyCredits,
+    fetchPending,
+    approveCredit,
+    rejectCredit,
+    clearError,
+  };
+}
@@ -0,0 +1,268 @@
+'use client';
+
+/**
+ * useCustomerSites Hook
+ *
+ * Manages the customer site registry and site visit reports (visit history
+ * and time on site) for CustomerSite and FieldVisit check-ins.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export interface CustomerSite {
+  id: string;
+  name: string;
+  customerName?: string | null;
+  address: string;
+  latitude: number;
+  longitude: number;
+  /** Check-ins within this distance count as on site */
+  radiusMeters: number;
+  projectId?: string | null;
+  project?: { id: string; name: string; code: string } | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerSiteInput {
+  name: string;
+  customerName?: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters?: number;
+  projectId?: string | null;
+}
+
+export interface SiteVisit {
+  id: string;
+  customerSiteId: string;
+  siteName: string;
+  customerName?: string | null;
+  userId: string;
+  employeeName: string;
+  workMode: string;
+  arrivedAt: string;
+  departedAt?: string | null;
+  durationMinutes?: number | null;
+  distanceMeters?: number | null;
+  isOnSite?: boolean | null;
+  hasPhoto: boolean;
+  photoFileName?: string | null;
+  notes?: string | null;
+}
+
+export interface TimeOnSiteEntry {
+  site: {
+    id: string;
+    name: string;
+    customerName?: string | null;
+    project?: { id: string; name: string; code: string } | null;
+  };
+  visitCount: number;
+  /** Visits still in progress, not counted in totalMinutes */
+  openVisits: number;
+  totalMinutes: number;
+  employees: Array<{
+    userId: string;
+    employeeName: string;
+    visitCount: number;
+    totalMinutes: number;
+  }>;
+}
+
+export interface TimeOnSiteReport {
+  startDate: string;
+  endDate: string;
+  sites: TimeOnSiteEntry[];
+}
+
+export interface SiteVisitRange {
+  startDate?: string;
+  endDate?: string;
+  projectId?: string;
+}
+
+interface UseCustomerSitesReturn {
+  // State
+  sites: CustomerSite[];
+  isLoading: boolean;
+  isActionLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchSites: (includeInactive?: boolean) => Promise<void>;
+  createSite: (data: CustomerSiteInput) => Promise<boolean>;
+  updateSite: (id: string, data: Partial<CustomerSiteInput> & { isActive?: boolean }) => Promise<boolean>;
+  deleteSite: (id: string) => Promise<boolean>;
+  fetchSiteVisits: (siteId: string, range: SiteVisitRange) => Promise<SiteVisit[] | null>;
+  fetchTimeOnSite: (range: SiteVisitRange) => Promise<TimeOnSiteReport | null>;
+  getVisitPhotoUrl: (visitId: string) => Promise<string | null>;
+  clearError: () => void;
+}
+
+function toQuery(range: SiteVisitRange) {
+  const params = new URLSearchParams();
+  if (range.startDate) params.set('startDate', range.startDate);
+  if (range.endDate) params.set('endDate', range.endDate);
+  if (range.projectId) params.set('projectId', range.projectId);
+  return params.toString();
+}
+
+export function useCustomerSites(): UseCustomerSitesReturn {
+  const [sites, setSites] = useState<CustomerSite[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchSites = useCallback(async (includeInactive = false) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<CustomerSite[]>(
+        `/customer-sites?includeInactive=${includeInactive}`
+      );
+      if (response.success && response.data) {
+        setSites(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load customer sites');
+      }
+    } catch (err) {
+      setError('Network error while loading customer sites');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createSite = useCallback(async (data: CustomerSiteInput): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post('/customer-sites', data);
+      if (response.success) {
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to create customer site');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error while creating customer site');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  const updateSite = useCallback(
+    async (id: string, data: Partial<CustomerSiteInput> & { isActive?: boolean }): Promise<boolean> => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await api.patch(`/customer-sites/${id}`, data);
+        if (response.success) {
+          return true;
+        } else {
+          setError(response.error?.message || 'Failed to update customer site');
+          return false;
+        }
+      } catch (err) {
+        setError('Network error while updating customer site');
+        return false;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    []
+  );
+
+  const deleteSite = useCallback(async (id: string): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.delete(`/customer-sites/${id}`);
+      if (response.success) {
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to deactivate customer site');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error while deactivating customer site');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  const fetchSiteVisits = useCallback(
+    async (siteId: string, range: SiteVisitRange): Promise<SiteVisit[] | null> => {
+      setError(null);
+      try {
+        const response = await api.get<SiteVisit[]>(`/customer-sites/${siteId}/visits?${toQuery(range)}`);
+        if (response.success && response.data) {
+          return response.data;
+        }
+        setError(response.error?.message || 'Failed to load site visits');
+        return null;
+      } catch (err) {
+        setError('Network error while loading site visits');
+        return null;
+      }
+    },
+    []
+  );
+
+  const fetchTimeOnSite = useCallback(async (range: SiteVisitRange): Promise<TimeOnSiteReport | null> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<TimeOnSiteReport>(
+        `/customer-sites/reports/time-on-site?${toQuery(range)}`
+      );
+      if (response.success && response.data) {
+        return response.data;
+      }
+      setError(response.error?.message || 'Failed to load time on site');
+      return null;
+    } catch (err) {
+      setError('Network error while loading time on site');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const getVisitPhotoUrl = useCallback(async (visitId: string): Promise<string | null> => {
+    try {
+      const response = await api.get<{ downloadUrl: string }>(`/customer-sites/visits/${visitId}/photo`);
+      if (response.success && response.data) {
+        return response.data.downloadUrl;
+      }
+      setError(response.error?.message || 'Failed to load visit photo');
+      return null;
+    } catch (err) {
+      setError('Network error while loading visit photo');
+      return null;
+    }
+  }, []);
+
+  return {
+    sites,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchSites,
+    createSite,
+    updateSite,
+    deleteSite,
+    fetchSiteVisits,
+    fetchTimeOnSite,
+    getVisitPhotoUrl,
+    clearError,
+  };
+}
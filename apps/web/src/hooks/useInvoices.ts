@@ -0,0 +1,217 @@
+'use client';
+
+/**
+ * useInvoices Hook
+ *
+ * Lists client invoices, generates drafts for a billing period, and
+ * issues, voids or deletes them.
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export type InvoiceStatus = 'Draft' | 'Issued' | 'Void';
+export type InvoiceLineType = 'Time' | 'Expense';
+
+export interface InvoiceLine {
+  id: string;
+  type: InvoiceLineType;
+  description: string;
+  /** Hours for time lines, 1 for expenses */
+  quantity: string | number;
+  unitPrice: string | number;
+  amount: string | number;
+  sortOrder: number;
+}
+
+export interface Invoice {
+  id: string;
+  projectId: string;
+  number: string;
+  status: InvoiceStatus;
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  clientName: string | null;
+  clientEmail: string | null;
+  clientAddress: string | null;
+  subtotal: string | number;
+  notes: string | null;
+  issuedAt: string | null;
+  dueDate: string | null;
+  createdAt: string;
+  project: { id: string; name: string; code: string };
+  lines?: InvoiceLine[];
+}
+
+export interface GenerateInvoicesInput {
+  periodStart: string;
+  periodEnd: string;
+  projectIds?: string[];
+}
+
+export interface GenerateInvoicesResult {
+  invoices: Invoice[];
+  /** Expenses left out because they are not in the project's currency */
+  skippedExpenses: number;
+}
+
+export interface InvoiceFilters {
+  projectId?: string;
+  status?: InvoiceStatus;
+}
+
+export function useInvoices() {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Reused when the list refreshes after an action
+  const filtersRef = useRef<InvoiceFilters>({});
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchInvoices = useCallback(async (filters: InvoiceFilters = filtersRef.current) => {
+    filtersRef.current = filters;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (filters.projectId) params.append('projectId', filters.projectId);
+      if (filters.status) params.append('status', filters.status);
+      const query = params.toString();
+
+      const response = await api.get<Invoice[]>(`/admin/invoices${query ? `?${query}` : ''}`);
+      if (response.success && response.data) {
+        setInvoices(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load invoices');
+      }
+    } catch (err) {
+      setError('Network error while loading invoices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchInvoice = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      const response = await api.get<Invoice>(`/admin/invoices/${id}`);
+      if (response.success && response.data) {
+        setInvoice(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load invoice');
+      }
+    } catch (err) {
+      setError('Network error while loading invoice');
+    }
+  }, []);
+
+  const closeInvoice = useCallback(() => setInvoice(null), []);
+
+  /**
+   * Run an action that returns the updated invoice, then refresh the list
+   */
+  const runAction = useCallback(
+    async (request: () => Promise<{ success: boolean; data?: Invoice; error?: { message: string } }>, failure: string) => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await request();
+        if (response.success) {
+          setInvoice(response.data ?? null);
+          await fetchInvoices();
+          return true;
+        }
+        setError(response.error?.message || failure);
+        return false;
+      } catch (err) {
+        setError('Network error');
+        return false;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    [fetchInvoices]
+  );
+
+  const generateInvoices = useCallback(
+    async (data: GenerateInvoicesInput): Promise<GenerateInvoicesResult | null> => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await api.post<GenerateInvoicesResult>('/admin/invoices/generate', data);
+        if (response.success && response.data) {
+          await fetchInvoices();
+          return response.data;
+        }
+        setError(response.error?.message || 'Failed to generate invoices');
+        return null;
+      } catch (err) {
+        setError('Network error');
+        return null;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    [fetchInvoices]
+  );
+
+  const updateInvoice = useCallback(
+    (id: string, data: { notes?: string | null; dueDate?: string | null }) =>
+      runAction(() => api.patch<Invoice>(`/admin/invoices/${id}`, data), 'Failed to update invoice'),
+    [runAction]
+  );
+
+  const issueInvoice = useCallback(
+    (id: string, dueDate?: string) =>
+      runAction(() => api.post<Invoice>(`/admin/invoices/${id}/issue`, { dueDate }), 'Failed to issue invoice'),
+    [runAction]
+  );
+
+  const voidInvoice = useCallback(
+    (id: string, reason: string) =>
+      runAction(() => api.post<Invoice>(`/admin/invoices/${id}/void`, { reason }), 'Failed to void invoice'),
+    [runAction]
+  );
+
+  const deleteInvoice = useCallback(async (id: string): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.delete(`/admin/invoices/${id}`);
+      if (response.success) {
+        setInvoice(null);
+        await fetchInvoices();
+        return true;
+      }
+      setError(response.error?.message || 'Failed to delete invoice');
+      return false;
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, [fetchInvoices]);
+
+  return {
+    invoices,
+    invoice,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchInvoices,
+    fetchInvoice,
+    closeInvoice,
+    generateInvoices,
+    updateInvoice,
+    issueInvoice,
+    voidInvoice,
+    deleteInvoice,
+    clearError,
+  };
+}
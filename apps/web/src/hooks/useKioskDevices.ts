@@ -0,0 +1,124 @@
+'use client';
+
+/**
+ * useKioskDevices Hook
+ *
+ * Manages the shared check-in kiosks registered for office locations.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export interface KioskDevice {
+  id: string;
+  name: string;
+  isActive: boolean;
+  lastSeenAt: string | null;
+  createdAt: string;
+  officeLocation: { id: string; name: string };
+}
+
+export interface CreateKioskDeviceInput {
+  name: string;
+  officeLocationId: string;
+}
+
+/** Returned once on registration; the token is never shown again */
+export interface RegisteredKioskDevice {
+  id: string;
+  name: string;
+  officeLocation: { id: string; name: string };
+  token: string;
+}
+
+interface UseKioskDevicesReturn {
+  // State
+  devices: KioskDevice[];
+  isLoading: boolean;
+  isActionLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchDevices: () => Promise<void>;
+  createDevice: (data: CreateKioskDeviceInput) => Promise<RegisteredKioskDevice | null>;
+  deactivateDevice: (id: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+export function useKioskDevices(): UseKioskDevicesReturn {
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchDevices = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<KioskDevice[]>('/kiosk/devices');
+      if (response.success && response.data) {
+        setDevices(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load kiosks');
+      }
+    } catch (err) {
+      setError('Network error while loading kiosks');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createDevice = useCallback(
+    async (data: CreateKioskDeviceInput): Promise<RegisteredKioskDevice | null> => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await api.post<RegisteredKioskDevice>('/kiosk/devices', data);
+        if (response.success && response.data) {
+          return response.data;
+        }
+        setError(response.error?.message || 'Failed to register kiosk');
+        return null;
+      } catch (err) {
+        setError('Network error. Please try again.');
+        return null;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    []
+  );
+
+  const deactivateDevice = useCallback(async (id: string): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.delete(`/kiosk/devices/${id}`);
+      if (response.success) {
+        setDevices((prev) => prev.map((d) => (d.id === id ? { ...d, isActive: false } : d)));
+        return true;
+      }
+      setError(response.error?.message || 'Failed to deactivate kiosk');
+      return false;
+    } catch (err) {
+      setError('Network error. Please try again.');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  return {
+    devices,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchDevices,
+    createDevice,
+    deactivateDevice,
+    clearError,
+  };
+}
@@ -10,6 +10,30 @@ import { useState, useCallback } from 'react';
 import { api } from '@/lib/api';
 
 // Types
+export type GeofenceZoneShape = 'Circle' | 'Polygon';
+
+/** [latitude, longitude] */
+export type LatLngTuple = [number, number];
+
+export interface GeofenceZone {
+  id: string;
+  name: string;
+  shape: GeofenceZoneShape;
+  latitude?: number | null;
+  longitude?: number | null;
+  radiusMeters?: number | null;
+  polygon?: LatLngTuple[] | null;
+}
+
+export interface GeofenceZoneInput {
+  name: string;
+  shape: GeofenceZoneShape;
+  latitude?: number;
+  longitude?: number;
+  radiusMeters?: number;
+  polygon?: LatLngTuple[];
+}
+
 export interface OfficeLocation {
   id: string;
   name: string;
@@ -17,7 +41,10 @@ export interface OfficeLocation {
   latitude: number;
   longitude: number;
   radiusMeters: number;
+  qrCheckInEnabled: boolean;
   isActive: boolean;
+  /** When present, these replace the radius circle for check-in validation */
+  zones: GeofenceZone[];
   createdAt: string;
   updatedAt: string;
 }
@@ -28,10 +55,12 @@ export interface CreateLocationInput {
   latitude: number;
   longitude: number;
   radiusMeters: number;
+  zones?: GeofenceZoneInput[];
 }
 
 export interface UpdateLocationInput extends Partial<CreateLocationInput> {
   isActive?: boolean;
+  qrCheckInEnabled?: boolean;
 }
 
 interface UseLocationsReturn {
@@ -0,0 +1,197 @@
+'use client';
+
+/**
+ * useOvertime Hook
+ *
+ * Manages overtime requests: asking for overtime in advance or justifying
+ * overtime already worked, and reviewing requests and unapproved overtime
+ * of direct reports.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export type OvertimeRequestStatus = 'Pending' | 'Approved' | 'Rejected' | 'Cancelled';
+
+export interface OvertimeRequest {
+  id: string;
+  userId: string;
+  date: string;
+  minutes: number;
+  approvedMinutes: number | null;
+  reason: string;
+  isPreApproval: boolean;
+  status: OvertimeRequestStatus;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+  user?: { id: string; profile: { firstName: string; lastName: string } | null };
+  reviewer?: { id: string; profile: { firstName: string; lastName: string } | null } | null;
+}
+
+export interface UnapprovedOvertimeDay {
+  attendanceDayId: string;
+  userId: string;
+  employeeName: string;
+  date: string;
+  overtimeMinutes: number;
+  approvedOvertimeMinutes: number;
+  unapprovedMinutes: number;
+  /** Set when the employee already filed a justification */
+  pendingRequestId: string | null;
+}
+
+export interface OvertimeReviewQueue {
+  startDate: string;
+  endDate: string;
+  pendingRequests: OvertimeRequest[];
+  unapprovedDays: UnapprovedOvertimeDay[];
+}
+
+export interface CreateOvertimeInput {
+  /** Employee to request for; managers and HR only, approved immediately */
+  userId?: string;
+  date: string;
+  minutes: number;
+  reason: string;
+}
+
+interface UseOvertimeReturn {
+  // State
+  requests: OvertimeRequest[];
+  queue: OvertimeReviewQueue | null;
+  isLoading: boolean;
+  isActionLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchMyRequests: () => Promise<void>;
+  fetchReviewQueue: () => Promise<void>;
+  createRequest: (data: CreateOvertimeInput) => Promise<boolean>;
+  approveRequest: (id: string, approvedMinutes?: number, notes?: string) => Promise<boolean>;
+  rejectRequest: (id: string, reason: string) => Promise<boolean>;
+  cancelRequest: (id: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+export function useOvertime(): UseOvertimeReturn {
+  const [requests, setRequests] = useState<OvertimeRequest[]>([]);
+  const [queue, setQueue] = useState<OvertimeReviewQueue | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchMyRequests = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<OvertimeRequest[]>('/overtime/requests/my');
+      if (response.success && response.data) {
+        setRequests(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load overtime requests');
+      }
+    } catch (err) {
+      setError('Network error while loading overtime requests');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchReviewQueue = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<OvertimeReviewQueue>('/overtime/review-queue');
+      if (response.success && response.data) {
+        setQueue(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load overtime review queue');
+      }
+    } catch (err) {
+      setError('Network error while loading overtime review queue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createRequest = useCallback(async (data: CreateOvertimeInput): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post<OvertimeRequest>('/overtime/requests', data);
+      if (response.success && response.data) {
+        if (!data.userId) {
+          setRequests((prev) => [response.data!, ...prev]);
+        }
+        return true;
+      }
+      setError(response.error?.message || 'Failed to submit overtime request');
+      return false;
+    } catch (err) {
+      setError('Network error while submitting request');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  const reviewRequest = useCallback(
+    async (id: string, action: 'approve' | 'reject' | 'cancel', body: object): Promise<boolean> => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await api.patch<OvertimeRequest>(`/overtime/requests/${id}/${action}`, body);
+        if (response.success) {
+          if (action === 'cancel') {
+            setRequests((prev) => prev.map((r) => (r.id === id ? { ...r, status: 'Cancelled' } : r)));
+          }
+          return true;
+        }
+        setError(response.error?.message || `Failed to ${action} request`);
+        return false;
+      } catch (err) {
+        setError('Network error. Please try again.');
+        return false;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    []
+  );
+
+  const approveRequest = useCallback(
+    (id: string, approvedMinutes?: number, notes?: string) =>
+      reviewRequest(id, 'approve', { approvedMinutes, notes }),
+    [reviewRequest]
+  );
+
+  const rejectRequest = useCallback(
+    (id: string, reason: string) => reviewRequest(id, 'reject', { reason }),
+    [reviewRequest]
+  );
+
+  const cancelRequest = useCallback(
+    (id: string) => reviewRequest(id, 'cancel', {}),
+    [reviewRequest]
+  );
+
+  return {
+    requests,
+    queue,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchMyRequests,
+    fetchReviewQueue,
+    createRequest,
+    approveRequest,
+    rejectRequest,
+    cancelRequest,
+    clearError,
+  };
+}
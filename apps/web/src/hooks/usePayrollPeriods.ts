@@ -0,0 +1,194 @@
+'use client';
+
+/**
+ * usePayrollPeriods Hook
+ *
+ * Manages closed payroll periods and the adjustments that carry
+ * corrections to closed days into the next open period.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export type PeriodLockStatus = 'Closed' | 'Reopened';
+export type PeriodAdjustmentType = 'Attendance' | 'Timesheet' | 'Leave';
+
+interface PersonRef {
+  id: string;
+  profile: { firstName: string; lastName: string } | null;
+}
+
+export interface PayrollPeriod {
+  id: string;
+  startDate: string;
+  endDate: string;
+  label: string | null;
+  status: PeriodLockStatus;
+  closedAt: string;
+  reopenedAt: string | null;
+  reopenReason: string | null;
+  closer: PersonRef;
+  reopener: PersonRef | null;
+  _count: { adjustments: number };
+}
+
+export interface ClosePeriodInput {
+  startDate: string;
+  endDate: string;
+  label?: string;
+}
+
+/** Requests still pending inside a period when it was closed */
+export interface ClosedPeriodResult {
+  id: string;
+  pendingRequests: { regularizations: number; overtimeRequests: number; leaveRequests: number };
+}
+
+export interface PeriodAdjustment {
+  id: string;
+  userId: string;
+  date: string;
+  type: PeriodAdjustmentType;
+  minutes: number | null;
+  days: string | number | null;
+  reason: string;
+  appliedDate: string;
+  createdAt: string;
+  user: { id: string; profile: { firstName: string; lastName: string; employeeCode: string } | null };
+  periodLock: { id: string; label: string | null; startDate: string; endDate: string };
+}
+
+export interface CreateAdjustmentInput {
+  userId: string;
+  date: string;
+  type: PeriodAdjustmentType;
+  minutes?: number;
+  days?: number;
+  reason: string;
+}
+
+interface UsePayrollPeriodsReturn {
+  // State
+  periods: PayrollPeriod[];
+  adjustments: PeriodAdjustment[];
+  isLoading: boolean;
+  isActionLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchPeriods: () => Promise<void>;
+  fetchAdjustments: () => Promise<void>;
+  closePeriod: (data: ClosePeriodInput) => Promise<ClosedPeriodResult | null>;
+  reopenPeriod: (id: string, reason: string) => Promise<boolean>;
+  createAdjustment: (data: CreateAdjustmentInput) => Promise<boolean>;
+  clearError: () => void;
+}
+
+export function usePayrollPeriods(): UsePayrollPeriodsReturn {
+  const [periods, setPeriods] = useState<PayrollPeriod[]>([]);
+  const [adjustments, setAdjustments] = useState<PeriodAdjustment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchPeriods = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<PayrollPeriod[]>('/payroll-periods');
+      if (response.success && response.data) {
+        setPeriods(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load payroll periods');
+      }
+    } catch (err) {
+      setError('Network error while loading payroll periods');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchAdjustments = useCallback(async () => {
+    try {
+      const response = await api.get<PeriodAdjustment[]>('/payroll-periods/adjustments');
+      if (response.success && response.data) {
+        setAdjustments(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load adjustments');
+      }
+    } catch (err) {
+      setError('Network error while loading adjustments');
+    }
+  }, []);
+
+  const closePeriod = useCallback(async (data: ClosePeriodInput): Promise<ClosedPeriodResult | null> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post<ClosedPeriodResult>('/payroll-periods/close', data);
+      if (response.success && response.data) {
+        return response.data;
+      }
+      setError(response.error?.message || 'Failed to close period');
+      return null;
+    } catch (err) {
+      setError('Network error. Please try again.');
+      return null;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  const reopenPeriod = useCallback(async (id: string, reason: string): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.patch(`/payroll-periods/${id}/reopen`, { reason });
+      if (response.success) {
+        return true;
+      }
+      setError(response.error?.message || 'Failed to reopen period');
+      return false;
+    } catch (err) {
+      setError('Network error. Please try again.');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  const createAdjustment = useCallback(async (data: CreateAdjustmentInput): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post('/payroll-periods/adjustments', data);
+      if (response.success) {
+        return true;
+      }
+      setError(response.error?.message || 'Failed to record adjustment');
+      return false;
+    } catch (err) {
+      setError('Network error. Please try again.');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  return {
+    periods,
+    adjustments,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchPeriods,
+    fetchAdjustments,
+    closePeriod,
+    reopenPeriod,
+    createAdjustment,
+    clearError,
+  };
+}
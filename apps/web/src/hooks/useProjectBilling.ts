@@ -0,0 +1,123 @@
+'use client';
+
+/**
+ * useProjectBilling Hook
+ *
+ * Loads and updates a project's client details, currency, default billable
+ * setting and rate card.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export type RateRole = 'Employee' | 'Manager' | 'HR' | 'SuperAdmin';
+
+export interface ProjectBillingSettings {
+  clientName: string | null;
+  clientEmail: string | null;
+  clientAddress: string | null;
+  currency: string;
+  defaultBillable: boolean;
+}
+
+export interface ProjectRate {
+  id: string;
+  userId: string | null;
+  role: RateRole | null;
+  hourlyRate: string | number;
+  user: { id: string; email: string; profile: { firstName: string; lastName: string } | null } | null;
+}
+
+/** A rate with neither employee nor role is the flat rate */
+export interface ProjectRateInput {
+  userId?: string;
+  role?: RateRole;
+  hourlyRate: number;
+}
+
+export function useProjectBilling(projectId: string) {
+  const [settings, setSettings] = useState<ProjectBillingSettings | null>(null);
+  const [rates, setRates] = useState<ProjectRate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchBilling = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [projectResponse, ratesResponse] = await Promise.all([
+        api.get<ProjectBillingSettings>(`/admin/projects/${projectId}`),
+        api.get<ProjectRate[]>(`/admin/projects/${projectId}/rates`),
+      ]);
+      if (projectResponse.success && projectResponse.data && ratesResponse.success && ratesResponse.data) {
+        const { clientName, clientEmail, clientAddress, currency, defaultBillable } = projectResponse.data;
+        setSettings({ clientName, clientEmail, clientAddress, currency, defaultBillable });
+        setRates(ratesResponse.data);
+      } else {
+        setError(
+          projectResponse.error?.message || ratesResponse.error?.message || 'Failed to load billing settings'
+        );
+      }
+    } catch (err) {
+      setError('Network error while loading billing settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  const updateSettings = useCallback(async (data: Partial<ProjectBillingSettings>): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.patch(`/admin/projects/${projectId}`, data);
+      if (response.success) {
+        await fetchBilling();
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to update billing settings');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, [projectId, fetchBilling]);
+
+  const saveRates = useCallback(async (data: ProjectRateInput[]): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.put<ProjectRate[]>(`/admin/projects/${projectId}/rates`, { rates: data });
+      if (response.success && response.data) {
+        setRates(response.data);
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to save rate card');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, [projectId]);
+
+  return {
+    settings,
+    rates,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchBilling,
+    updateSettings,
+    saveRates,
+    clearError,
+  };
+}
@@ -0,0 +1,143 @@
+'use client';
+
+/**
+ * useProjectBudget Hook
+ *
+ * Loads a project's budget burn and burn-down, and updates the budgets of
+ * the project and its tasks.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export interface BudgetBurn {
+  budgetMinutes: number | null;
+  budgetCost: number | null;
+  burnedMinutes: number;
+  burnedCost: number;
+  /** Approved minutes by employees without an hourly rate */
+  unpricedMinutes: number;
+  percentMinutes: number | null;
+  percentCost: number | null;
+}
+
+export interface BurnDownPoint {
+  date: string;
+  burnedMinutes: number | null;
+  remainingMinutes: number | null;
+  idealRemainingMinutes: number | null;
+}
+
+export interface TaskBudget extends BudgetBurn {
+  id: string;
+  name: string;
+  code: string;
+  isActive: boolean;
+  deadline: string | null;
+}
+
+export interface ProjectBudget extends BudgetBurn {
+  project: {
+    id: string;
+    name: string;
+    code: string;
+    startDate: string | null;
+    deadline: string | null;
+    budgetAlertThresholds: number[];
+  };
+  pendingMinutes: number;
+  tasks: TaskBudget[];
+  burnDown: BurnDownPoint[];
+}
+
+export interface ProjectBudgetInput {
+  budgetMinutes?: number | null;
+  budgetCost?: number | null;
+  startDate?: string | null;
+  deadline?: string | null;
+  budgetAlertThresholds?: number[];
+}
+
+export interface TaskBudgetInput {
+  budgetMinutes?: number | null;
+  budgetCost?: number | null;
+  deadline?: string | null;
+}
+
+export function useProjectBudget(projectId: string) {
+  const [budget, setBudget] = useState<ProjectBudget | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchBudget = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<ProjectBudget>(`/admin/projects/${projectId}/budget`);
+      if (response.success && response.data) {
+        setBudget(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load project budget');
+      }
+    } catch (err) {
+      setError('Network error while loading project budget');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  const updateProjectBudget = useCallback(async (data: ProjectBudgetInput): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.patch(`/admin/projects/${projectId}`, data);
+      if (response.success) {
+        await fetchBudget();
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to update budget');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, [projectId, fetchBudget]);
+
+  const updateTaskBudget = useCallback(async (taskId: string, data: TaskBudgetInput): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.patch(`/admin/projects/tasks/${taskId}`, data);
+      if (response.success) {
+        await fetchBudget();
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to update task budget');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, [fetchBudget]);
+
+  return {
+    budget,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchBudget,
+    updateProjectBudget,
+    updateTaskBudget,
+    clearError,
+  };
+}
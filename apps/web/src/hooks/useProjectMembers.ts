@@ -0,0 +1,143 @@
+'use client';
+
+/**
+ * useProjectMembers Hook
+ *
+ * Loads and manages a project's members, its members-only setting and the
+ * assignees of its tasks.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export type ProjectMemberRole = 'Member' | 'Lead';
+
+export interface ProjectMember {
+  id: string;
+  userId: string;
+  role: ProjectMemberRole;
+  createdAt: string;
+  user: { id: string; email: string; profile: { firstName: string; lastName: string } | null };
+}
+
+export interface ProjectTaskAssignees {
+  id: string;
+  name: string;
+  code: string;
+  isActive: boolean;
+  assignees: { userId: string }[];
+}
+
+interface ProjectAccessResponse {
+  membersOnly: boolean;
+  tasks: ProjectTaskAssignees[];
+}
+
+export function useProjectMembers(projectId: string) {
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [tasks, setTasks] = useState<ProjectTaskAssignees[]>([]);
+  const [membersOnly, setMembersOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchMembers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [projectResponse, membersResponse] = await Promise.all([
+        api.get<ProjectAccessResponse>(`/admin/projects/${projectId}`),
+        api.get<ProjectMember[]>(`/admin/projects/${projectId}/members`),
+      ]);
+      if (projectResponse.success && projectResponse.data && membersResponse.success && membersResponse.data) {
+        setMembersOnly(projectResponse.data.membersOnly);
+        setTasks(projectResponse.data.tasks);
+        setMembers(membersResponse.data);
+      } else {
+        setError(projectResponse.error?.message || membersResponse.error?.message || 'Failed to load members');
+      }
+    } catch (err) {
+      setError('Network error while loading members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  /**
+   * Run a change, then reload members and task assignees
+   */
+  const runAction = useCallback(
+    async (request: () => Promise<{ success: boolean; error?: { message: string } }>, failure: string) => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await request();
+        if (response.success) {
+          await fetchMembers();
+          return true;
+        }
+        setError(response.error?.message || failure);
+        return false;
+      } catch (err) {
+        setError('Network error');
+        return false;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    [fetchMembers]
+  );
+
+  const updateMembersOnly = useCallback(
+    (value: boolean) =>
+      runAction(
+        () => api.patch(`/admin/projects/${projectId}`, { membersOnly: value }),
+        'Failed to update project access'
+      ),
+    [projectId, runAction]
+  );
+
+  /** Adds a member, or changes the role of an existing one */
+  const addMember = useCallback(
+    (userId: string, role: ProjectMemberRole = 'Member') =>
+      runAction(
+        () => api.post(`/admin/projects/${projectId}/members`, { userId, role }),
+        'Failed to add member'
+      ),
+    [projectId, runAction]
+  );
+
+  const removeMember = useCallback(
+    (userId: string) =>
+      runAction(() => api.delete(`/admin/projects/${projectId}/members/${userId}`), 'Failed to remove member'),
+    [projectId, runAction]
+  );
+
+  /** An empty list opens the task to every project member */
+  const setTaskAssignees = useCallback(
+    (taskId: string, userIds: string[]) =>
+      runAction(
+        () => api.put(`/admin/projects/tasks/${taskId}/assignees`, { userIds }),
+        'Failed to update task assignees'
+      ),
+    [runAction]
+  );
+
+  return {
+    members,
+    tasks,
+    membersOnly,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchMembers,
+    updateMembersOnly,
+    addMember,
+    removeMember,
+    setTaskAssignees,
+    clearError,
+  };
+}
@@ -0,0 +1,160 @@
+'use client';
+
+/**
+ * useRegularizations Hook
+ *
+ * Manages attendance regularization requests: filing corrections for
+ * past days and reviewing requests from direct reports.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export type RegularizationStatus = 'Pending' | 'Approved' | 'Rejected' | 'Cancelled';
+
+export interface Regularization {
+  id: string;
+  userId: string;
+  date: string;
+  proposedCheckIn: string | null;
+  proposedCheckOut: string | null;
+  workMode: string | null;
+  reason: string;
+  status: RegularizationStatus;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+  user?: { id: string; profile: { firstName: string; lastName: string } | null };
+  reviewer?: { id: string; profile: { firstName: string; lastName: string } | null } | null;
+}
+
+export interface CreateRegularizationInput {
+  date: string;
+  proposedCheckIn?: string;
+  proposedCheckOut?: string;
+  workMode?: string;
+  reason: string;
+}
+
+interface UseRegularizationsReturn {
+  // State
+  requests: Regularization[];
+  isLoading: boolean;
+  isActionLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchMyRequests: () => Promise<void>;
+  fetchPending: () => Promise<void>;
+  createRequest: (data: CreateRegularizationInput) => Promise<boolean>;
+  approveRequest: (id: string, notes?: string) => Promise<boolean>;
+  rejectRequest: (id: string, reason: string) => Promise<boolean>;
+  cancelRequest: (id: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+export function useRegularizations(): UseRegularizationsReturn {
+  const [requests, setRequests] = useState<Regularization[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchList = useCallback(async (path: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<Regularization[]>(path);
+      if (response.success && response.data) {
+        setRequests(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load regularization requests');
+      }
+    } catch (err) {
+      setError('Network error while loading regularization requests');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchMyRequests = useCallback(() => fetchList('/regularizations/my'), [fetchList]);
+
+  const fetchPending = useCallback(() => fetchList('/regularizations/pending'), [fetchList]);
+
+  const createRequest = useCallback(async (data: CreateRegularizationInput): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post<Regularization>('/regularizations', data);
+      if (response.success && response.data) {
+        setRequests((prev) => [response.data!, ...prev]);
+        return true;
+      }
+      setError(response.error?.message || 'Failed to submit regularization request');
+      return false;
+    } catch (err) {
+      setError('Network error while submitting request');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  const reviewRequest = useCallback(
+    async (id: string, action: 'approve' | 'reject' | 'cancel', body: object): Promise<boolean> => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await api.patch<Regularization>(`/regularizations/${id}/${action}`, body);
+        if (response.success) {
+          setRequests((prev) =>
+            action === 'cancel'
+              ? prev.map((r) => (r.id === id ? { ...r, status: 'Cancelled' } : r))
+              : prev.filter((r) => r.id !== id)
+          );
+          return true;
+        }
+        setError(response.error?.message || `Failed to ${action} request`);
+        return false;
+      } catch (err) {
+        setError('Network error. Please try again.');
+        return false;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    []
+  );
+
+  const approveRequest = useCallback(
+    (id: string, notes?: string) => reviewRequest(id, 'approve', { notes }),
+    [reviewRequest]
+  );
+
+  const rejectRequest = useCallback(
+    (id: string, reason: string) => reviewRequest(id, 'reject', { reason }),
+    [reviewRequest]
+  );
+
+  const cancelRequest = useCallback(
+    (id: string) => reviewRequest(id, 'cancel', {}),
+    [reviewRequest]
+  );
+
+  return {
+    requests,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchMyRequests,
+    fetchPending,
+    createRequest,
+    approveRequest,
+    rejectRequest,
+    cancelRequest,
+    clearError,
+  };
+}
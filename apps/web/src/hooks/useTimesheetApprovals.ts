@@ -0,0 +1,104 @@
+'use client';
+
+/**
+ * useTimesheetApprovals Hook
+ *
+ * Loads submitted timesheet weeks awaiting the current user's review and
+ * approves or rejects their lines.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+import type { TimesheetStatus } from './useTimesheets';
+
+// Types
+export type TimesheetDecision = 'Approved' | 'Rejected';
+
+export interface TimesheetApprovalLine {
+  id: string;
+  date: string;
+  minutes: number;
+  notes?: string | null;
+  status: TimesheetStatus;
+  reviewComment?: string | null;
+  project: { id: string; name: string; code: string };
+  task?: { id: string; name: string; code: string } | null;
+  /** The current user may approve or reject this line */
+  canReview: boolean;
+}
+
+export interface TimesheetApproval {
+  id: string;
+  userId: string;
+  weekStart: string;
+  status: TimesheetStatus;
+  submittedAt: string;
+  totalMinutes: number;
+  user: {
+    id: string;
+    email: string;
+    profile?: { firstName: string; lastName: string; employeeCode: string } | null;
+  };
+  entries: TimesheetApprovalLine[];
+}
+
+export interface ReviewTimesheetInput {
+  status?: TimesheetDecision;
+  entries?: { id: string; status: TimesheetDecision; comment?: string }[];
+  comment?: string;
+}
+
+export function useTimesheetApprovals() {
+  const [approvals, setApprovals] = useState<TimesheetApproval[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchApprovals = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<TimesheetApproval[]>('/timesheets/approvals');
+      if (response.success && response.data) {
+        setApprovals(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load timesheet approvals');
+      }
+    } catch (err) {
+      setError('Network error while loading timesheet approvals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const reviewTimesheet = useCallback(async (id: string, data: ReviewTimesheetInput): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post(`/timesheets/approvals/${id}/review`, data);
+      if (response.success) {
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to review timesheet');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  return {
+    approvals,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchApprovals,
+    reviewTimesheet,
+    clearError,
+  };
+}
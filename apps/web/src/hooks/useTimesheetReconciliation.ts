@@ -0,0 +1,122 @@
+'use client';
+
+/**
+ * useTimesheetReconciliation Hook
+ *
+ * Loads the days where attendance and timesheet minutes disagree, and lets
+ * managers and HR flag a day for attendance correction.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export type ReconciliationIssue = 'Unlogged' | 'OverLogged' | 'LeaveConflict';
+
+export interface ReconciliationRow {
+  date: string;
+  user: {
+    id: string;
+    email: string;
+    profile: { firstName: string; lastName: string; department: string | null; managerId: string | null } | null;
+  };
+  attendanceMinutes: number;
+  /** False while the day has an open attendance session */
+  attendanceComplete: boolean;
+  loggedMinutes: number;
+  /** Logged minus attendance minutes */
+  differenceMinutes: number;
+  issues: ReconciliationIssue[];
+  leave: { id: string; leaveTypeName: string } | null;
+  regularization: { id: string; status: 'Pending' | 'Approved' } | null;
+  entries: {
+    id: string;
+    minutes: number;
+    status: string;
+    project: { id: string; name: string; code: string };
+    task: { id: string; name: string; code: string };
+  }[];
+}
+
+export interface ReconciliationReport {
+  startDate: string;
+  endDate: string;
+  toleranceMinutes: number;
+  totals: { days: number; unloggedMinutes: number; overLoggedMinutes: number };
+  rows: ReconciliationRow[];
+}
+
+export interface ReconciliationFilters {
+  startDate: string;
+  endDate: string;
+  userId?: string;
+  department?: string;
+  managerId?: string;
+  issue?: ReconciliationIssue;
+  toleranceMinutes?: number;
+}
+
+function toQuery(filters: ReconciliationFilters) {
+  const params = new URLSearchParams({ startDate: filters.startDate, endDate: filters.endDate });
+  if (filters.userId) params.set('userId', filters.userId);
+  if (filters.department) params.set('department', filters.department);
+  if (filters.managerId) params.set('managerId', filters.managerId);
+  if (filters.issue) params.set('issue', filters.issue);
+  if (filters.toleranceMinutes !== undefined) params.set('toleranceMinutes', String(filters.toleranceMinutes));
+  return params.toString();
+}
+
+export function useTimesheetReconciliation() {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchReport = useCallback(async (filters: ReconciliationFilters) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<ReconciliationReport>(`/reports/timesheet-reconciliation?${toQuery(filters)}`);
+      if (response.success && response.data) {
+        setReport(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load reconciliation');
+      }
+    } catch (err) {
+      setError('Network error while loading reconciliation');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /** Notifies the employee to file an attendance correction for the day */
+  const flagDay = useCallback(async (userId: string, date: string, note?: string) => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post('/reports/timesheet-reconciliation/flag', { userId, date, note });
+      if (response.success) {
+        return true;
+      }
+      setError(response.error?.message || 'Failed to flag day');
+      return false;
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  return {
+    report,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchReport,
+    flagDay,
+    clearError,
+  };
+}
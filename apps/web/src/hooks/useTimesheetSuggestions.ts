@@ -0,0 +1,106 @@
+'use client';
+
+/**
+ * useTimesheetSuggestions Hook
+ *
+ * Loads draft entries suggested from the user's activity logs for a week
+ * and saves the ones the user accepts.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export interface TimesheetSuggestion {
+  date: string;
+  projectId: string;
+  taskId: string;
+  project: { id: string; name: string; code: string };
+  task: { id: string; name: string; code: string };
+  activityMinutes: number;
+  minutes: number;
+  /** Reduced to fit the day's attendance worked minutes */
+  trimmed: boolean;
+}
+
+export interface TimesheetSuggestionDay {
+  date: string;
+  attendanceMinutes: number | null;
+  loggedMinutes: number;
+  activityMinutes: number;
+  suggestedMinutes: number;
+  locked: boolean;
+  suggestions: TimesheetSuggestion[];
+}
+
+export interface TimesheetSuggestionWeek {
+  weekStart: string;
+  weekEnd: string;
+  totalSuggestedMinutes: number;
+  days: TimesheetSuggestionDay[];
+}
+
+export interface AcceptSuggestionInput {
+  date: string;
+  projectId: string;
+  taskId: string;
+  minutes: number;
+  notes?: string;
+}
+
+export function useTimesheetSuggestions() {
+  const [suggestions, setSuggestions] = useState<TimesheetSuggestionWeek | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchSuggestions = useCallback(async (weekStart: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<TimesheetSuggestionWeek>(
+        `/timesheets/suggestions?weekStart=${weekStart}`
+      );
+      if (response.success && response.data) {
+        setSuggestions(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load suggestions');
+      }
+    } catch (err) {
+      setError('Network error while loading suggestions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const acceptSuggestions = useCallback(async (entries: AcceptSuggestionInput[]): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post('/timesheets/suggestions/accept', { entries });
+      if (response.success) {
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to accept suggestions');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  return {
+    suggestions,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchSuggestions,
+    acceptSuggestions,
+    clearError,
+  };
+}
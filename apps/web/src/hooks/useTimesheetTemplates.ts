@@ -0,0 +1,174 @@
+'use client';
+
+/**
+ * useTimesheetTemplates Hook
+ *
+ * Lists the user's timesheet templates, saves a week as a template, and
+ * fills a week with draft entries from a template or another week.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export interface TimesheetTemplateLine {
+  id: string;
+  /** 0 = Sunday */
+  weekday: number;
+  projectId: string;
+  taskId: string;
+  minutes: number;
+  notes: string | null;
+  project: { id: string; name: string; code: string };
+  task: { id: string; name: string; code: string };
+}
+
+export interface TimesheetTemplate {
+  id: string;
+  name: string;
+  /** Applied automatically at the start of each week */
+  isRecurring: boolean;
+  lastAppliedWeek: string | null;
+  lines: TimesheetTemplateLine[];
+}
+
+export type FillSkipReason = 'Holiday' | 'Leave' | 'Locked' | 'NoAccess' | 'AlreadyLogged' | 'DailyLimit';
+
+export interface FillWeekResult {
+  weekStart: string;
+  weekEnd: string;
+  entries: { id: string }[];
+  /** For DailyLimit, the minutes cut from the line */
+  skipped: { date: string; reason: FillSkipReason; projectId?: string; taskId?: string; minutes: number }[];
+}
+
+export function useTimesheetTemplates() {
+  const [templates, setTemplates] = useState<TimesheetTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchTemplates = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<TimesheetTemplate[]>('/timesheets/templates');
+      if (response.success && response.data) {
+        setTemplates(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load templates');
+      }
+    } catch (err) {
+      setError('Network error while loading templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Fill a week, returning what was booked and skipped
+   */
+  const fill = useCallback(
+    async (
+      request: () => Promise<{ success: boolean; data?: FillWeekResult; error?: { message: string } }>,
+      failure: string
+    ) => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await request();
+        if (response.success && response.data) {
+          return response.data;
+        }
+        setError(response.error?.message || failure);
+        return null;
+      } catch (err) {
+        setError('Network error');
+        return null;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    []
+  );
+
+  /** Copies the week before `weekStart` unless another week is given */
+  const copyWeek = useCallback(
+    (weekStart: string, sourceWeekStart?: string) =>
+      fill(
+        () => api.post<FillWeekResult>('/timesheets/week/copy', { weekStart, sourceWeekStart }),
+        'Failed to copy week'
+      ),
+    [fill]
+  );
+
+  const applyTemplate = useCallback(
+    (id: string, weekStart: string) =>
+      fill(
+        () => api.post<FillWeekResult>(`/timesheets/templates/${id}/apply`, { weekStart }),
+        'Failed to apply template'
+      ),
+    [fill]
+  );
+
+  /**
+   * Run a template change, then reload the list
+   */
+  const runAction = useCallback(
+    async (request: () => Promise<{ success: boolean; error?: { message: string } }>, failure: string) => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await request();
+        if (response.success) {
+          await fetchTemplates();
+          return true;
+        }
+        setError(response.error?.message || failure);
+        return false;
+      } catch (err) {
+        setError('Network error');
+        return false;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    [fetchTemplates]
+  );
+
+  const saveWeekAsTemplate = useCallback(
+    (name: string, weekStart: string, isRecurring = false) =>
+      runAction(
+        () => api.post('/timesheets/templates/from-week', { name, weekStart, isRecurring }),
+        'Failed to save template'
+      ),
+    [runAction]
+  );
+
+  const setRecurring = useCallback(
+    (id: string, isRecurring: boolean) =>
+      runAction(() => api.patch(`/timesheets/templates/${id}`, { isRecurring }), 'Failed to update template'),
+    [runAction]
+  );
+
+  const deleteTemplate = useCallback(
+    (id: string) => runAction(() => api.delete(`/timesheets/templates/${id}`), 'Failed to delete template'),
+    [runAction]
+  );
+
+  return {
+    templates,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchTemplates,
+    copyWeek,
+    applyTemplate,
+    saveWeekAsTemplate,
+    setRecurring,
+    deleteTemplate,
+    clearError,
+  };
+}
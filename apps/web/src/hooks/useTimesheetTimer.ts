@@ -0,0 +1,138 @@
+'use client';
+
+/**
+ * useTimesheetTimer Hook
+ *
+ * Loads, starts and stops the user's running timer. The timer lives on the
+ * server, so it is picked up again after a reload or on another device.
+ * Stopping it books the time to a draft timesheet entry.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '@/lib/api';
+import type { TimesheetEntry } from './useTimesheets';
+
+// Types
+export interface TimesheetTimer {
+  id: string;
+  projectId: string;
+  taskId: string;
+  notes?: string | null;
+  startedAt: string;
+  project: { id: string; name: string; code: string };
+  task: { id: string; name: string; code: string };
+}
+
+export interface StartTimerInput {
+  projectId: string;
+  taskId: string;
+  notes?: string;
+}
+
+export interface StoppedTimer {
+  elapsedMinutes: number;
+  /** Minutes booked after the company's rounding; 0 books nothing */
+  minutes: number;
+  /** One draft entry per local day the timer ran on */
+  entries: TimesheetEntry[];
+}
+
+export function useTimesheetTimer() {
+  const [timer, setTimer] = useState<TimesheetTimer | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchTimer = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.get<TimesheetTimer | null>('/timesheets/timer');
+      if (response.success) {
+        setTimer(response.data ?? null);
+      }
+    } catch (err) {
+      setError('Failed to load timer');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const startTimer = useCallback(async (data: StartTimerInput): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post<{ timer: TimesheetTimer }>('/timesheets/timer/start', data);
+      if (response.success && response.data) {
+        setTimer(response.data.timer);
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to start timer');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  const stopTimer = useCallback(async (notes?: string): Promise<StoppedTimer | null> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post<StoppedTimer>('/timesheets/timer/stop', { notes });
+      if (response.success && response.data) {
+        setTimer(null);
+        return response.data;
+      } else {
+        setError(response.error?.message || 'Failed to stop timer');
+        return null;
+      }
+    } catch (err) {
+      setError('Network error');
+      return null;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  const discardTimer = useCallback(async (): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.delete('/timesheets/timer');
+      if (response.success) {
+        setTimer(null);
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to discard timer');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
+  // Pick up a timer started on another device or before a reload
+  useEffect(() => {
+    fetchTimer();
+  }, [fetchTimer]);
+
+  return {
+    timer,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchTimer,
+    startTimer,
+    stopTimer,
+    discardTimer,
+    clearError,
+  };
+}
@@ -14,6 +14,8 @@ export interface Project {
   id: string;
   name: string;
   code: string;
+  /** Whether new entries on the project are billable */
+  defaultBillable?: boolean;
   tasks: Task[];
 }
 
@@ -30,6 +32,8 @@ export interface Attachment {
   fileType: string;
 }
 
+export type TimesheetStatus = 'Draft' | 'Submitted' | 'Approved' | 'Rejected';
+
 export interface TimesheetEntry {
   id: string;
   date: string;
@@ -37,6 +41,9 @@ export interface TimesheetEntry {
   taskId?: string;
   minutes: number;
   notes?: string;
+  status: TimesheetStatus;
+  isBillable?: boolean;
+  reviewComment?: string | null;
   project: Project;
   task?: Task;
   attachments: Attachment[];
@@ -50,6 +57,7 @@ export interface CreateTimesheetDto {
   startTime: string;
   endTime: string;
   notes?: string;
+  isBillable?: boolean;
   attachmentKeys?: string[];
 }
 
@@ -59,11 +67,27 @@ export interface TimesheetSummary {
   byDate: { date: string; minutes: number }[];
 }
 
+export interface TimesheetWeek {
+  weekStart: string;
+  weekEnd: string;
+  status: TimesheetStatus;
+  submission: {
+    id: string;
+    status: TimesheetStatus;
+    submittedAt: string;
+    reviewedAt?: string | null;
+    comment?: string | null;
+  } | null;
+  totalMinutes: number;
+  entries: TimesheetEntry[];
+}
+
 interface UseTimesheetsReturn {
   // State
   entries: TimesheetEntry[];
   projects: Project[];
   summary: TimesheetSummary | null;
+  week: TimesheetWeek | null;
   isLoading: boolean;
   isActionLoading: boolean;
   error: string | null;
@@ -72,6 +96,8 @@ interface UseTimesheetsReturn {
   fetchEntries: (startDate: string, endDate: string) => Promise<void>;
   fetchProjects: () => Promise<void>;
   fetchSummary: (startDate: string, endDate: string) => Promise<void>;
+  fetchWeek: (weekStart: string) => Promise<void>;
+  submitWeek: (weekStart: string) => Promise<boolean>;
   createEntry: (data: CreateTimesheetDto) => Promise<boolean>;
   updateEntry: (id: string, data: Partial<CreateTimesheetDto>) => Promise<boolean>;
   deleteEntry: (id: string) => Promise<boolean>;
@@ -83,6 +109,7 @@ export function useTimesheets(): UseTimesheetsReturn {
   const [entries, setEntries] = useState<TimesheetEntry[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [summary, setSummary] = useState<TimesheetSummary | null>(null);
+  const [week, setWeek] = useState<TimesheetWeek | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isActionLoading, setIsActionLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -129,6 +156,37 @@ export function useTimesheets(): UseTimesheetsReturn {
     }
   }, []);
 
+  const fetchWeek = useCallback(async (weekStart: string) => {
+    try {
+      const response = await api.get<TimesheetWeek>(`/timesheets/week?weekStart=${weekStart}`);
+      if (response.success && response.data) {
+        setWeek(response.data);
+      }
+    } catch (err) {
+      setError('Failed to load week');
+    }
+  }, []);
+
+  const submitWeek = useCallback(async (weekStart: string): Promise<boolean> => {
+    setIsActionLoading(true);
+    setError(null);
+    try {
+      const response = await api.post<TimesheetWeek>('/timesheets/week/submit', { weekStart });
+      if (response.success && response.data) {
+        setWeek(response.data);
+        return true;
+      } else {
+        setError(response.error?.message || 'Failed to submit week');
+        return false;
+      }
+    } catch (err) {
+      setError('Network error');
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  }, []);
+
   const createEntry = useCallback(async (data: CreateTimesheetDto): Promise<boolean> => {
     setIsActionLoading(true);
     setError(null);
@@ -210,12 +268,15 @@ export function useTimesheets(): UseTimesheetsReturn {
     entries,
     projects,
     summary,
+    week,
     isLoading,
     isActionLoading,
     error,
     fetchEntries,
     fetchProjects,
     fetchSummary,
+    fetchWeek,
+    submitWeek,
     createEntry,
     updateEntry,
     deleteEntry,
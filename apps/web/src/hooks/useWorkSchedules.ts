@@ -0,0 +1,197 @@
+'use client';
+
+/**
+ * useWorkSchedules Hook
+ *
+ * Manages work schedule state and API calls for HR schedule management:
+ * weekly start/end times, grace periods and assignments.
+ */
+
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+
+// Types
+export type WorkScheduleScope = 'Employee' | 'Department' | 'OfficeLocation';
+
+export interface WorkScheduleDay {
+  weekday: number; // 0 = Sunday
+  isWorkingDay: boolean;
+  startTime: string;
+  endTime: string;
+}
+
+export interface WorkScheduleAssignment {
+  id: string;
+  scheduleId: string;
+  scope: WorkScheduleScope;
+  userId?: string;
+  departmentId?: string;
+  officeLocationId?: string;
+  user?: {
+    id: string;
+    email: string;
+    profile?: { firstName: string; lastName: string };
+  };
+  department?: { id: string; name: string };
+  officeLocation?: { id: string; name: string };
+}
+
+export interface WorkSchedule {
+  id: string;
+  name: string;
+  description?: string;
+  graceMinutesLate: number;
+  graceMinutesEarly: number;
+  isDefault: boolean;
+  isActive: boolean;
+  days: WorkScheduleDay[];
+  assignments: WorkScheduleAssignment[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkScheduleInput {
+  name: string;
+  description?: string;
+  graceMinutesLate: number;
+  graceMinutesEarly: number;
+  isDefault: boolean;
+  days: WorkScheduleDay[];
+}
+
+export interface AssignWorkScheduleInput {
+  scope: WorkScheduleScope;
+  userId?: string;
+  departmentId?: string;
+  officeLocationId?: string;
+}
+
+export interface AssignmentTargets {
+  departments: { id: string; name: string }[];
+  officeLocations: { id: string; name: string }[];
+}
+
+interface UseWorkSchedulesReturn {
+  // State
+  schedules: WorkSchedule[];
+  targets: AssignmentTargets;
+  isLoading: boolean;
+  isActionLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchSchedules: (includeInactive?: boolean) => Promise<void>;
+  fetchTargets: () => Promise<void>;
+  createSchedule: (data: WorkScheduleInput) => Promise<boolean>;
+  updateSchedule: (id: string, data: Partial<WorkScheduleInput>) => Promise<boolean>;
+  deleteSchedule: (id: string) => Promise<boolean>;
+  assignSchedule: (id: string, data: AssignWorkScheduleInput) => Promise<boolean>;
+  unassignSchedule: (assignmentId: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+export function useWorkSchedules(): UseWorkSchedulesReturn {
+  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const [targets, setTargets] = useState<AssignmentTargets>({ departments: [], officeLocations: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const fetchSchedules = useCallback(async (includeInactive = false) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<WorkSchedule[]>(
+        `/work-schedules?includeInactive=${includeInactive}`
+      );
+      if (response.success && response.data) {
+        setSchedules(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load work schedules');
+      }
+    } catch (err) {
+      setError('Network error while loading work schedules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchTargets = useCallback(async () => {
+    try {
+      const response = await api.get<AssignmentTargets>('/work-schedules/targets');
+      if (response.success && response.data) {
+        setTargets(response.data);
+      }
+    } catch (err) {
+      console.error('Failed to load assignment targets:', err);
+    }
+  }, []);
+
+  // Shared wrapper for mutations that only report success
+  const runAction = useCallback(
+    async (action: () => Promise<{ success: boolean; error?: { message?: string } }>, failure: string) => {
+      setIsActionLoading(true);
+      setError(null);
+      try {
+        const response = await action();
+        if (response.success) {
+          return true;
+        }
+        setError(response.error?.message || `Failed to ${failure}`);
+        return false;
+      } catch (err) {
+        setError(`Network error while trying to ${failure}`);
+        return false;
+      } finally {
+        setIsActionLoading(false);
+      }
+    },
+    []
+  );
+
+  const createSchedule = useCallback(
+    (data: WorkScheduleInput) => runAction(() => api.post('/work-schedules', data), 'create schedule'),
+    [runAction]
+  );
+
+  const updateSchedule = useCallback(
+    (id: string, data: Partial<WorkScheduleInput>) =>
+      runAction(() => api.patch(`/work-schedules/${id}`, data), 'update schedule'),
+    [runAction]
+  );
+
+  const deleteSchedule = useCallback(
+    (id: string) => runAction(() => api.delete(`/work-schedules/${id}`), 'deactivate schedule'),
+    [runAction]
+  );
+
+  const assignSchedule = useCallback(
+    (id: string, data: AssignWorkScheduleInput) =>
+      runAction(() => api.post(`/work-schedules/${id}/assignments`, data), 'assign schedule'),
+    [runAction]
+  );
+
+  const unassignSchedule = useCallback(
+    (assignmentId: string) =>
+      runAction(() => api.delete(`/work-schedules/assignments/${assignmentId}`), 'remove assignment'),
+    [runAction]
+  );
+
+  return {
+    schedules,
+    targets,
+    isLoading,
+    isActionLoading,
+    error,
+    fetchSchedules,
+    fetchTargets,
+    createSchedule,
+    updateSchedule,
+    deleteSchedule,
+    assignSchedule,
+    unassignSchedule,
+    clearError,
+  };
+}
@@ -146,6 +146,30 @@ class ApiClient {
     return res.json();
   }
 
+  async put<T>(endpoint: string, data: unknown): Promise<ApiResponse<T>> {
+    const res = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'PUT',
+      headers: this.getHeaders(),
+      body: JSON.stringify(data),
+    });
+
+    return res.json();
+  }
+
+  async upload<T>(endpoint: string, formData: FormData): Promise<ApiResponse<T>> {
+    // Let the browser set the multipart boundary
+    const headers = this.getHeaders() as Record<string, string>;
+    delete headers['Content-Type'];
+
+    const res = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers,
+      body: formData,
+    });
+
+    return res.json();
+  }
+
   async delete<T>(endpoint: string): Promise<ApiResponse<T>> {
     const res = await fetch(`${this.baseUrl}${endpoint}`, {
       method: 'DELETE',
@@ -157,3 +181,23 @@ class ApiClient {
 }
 
 export const api = new ApiClient(API_URL);
+
+// Kiosk API: authenticated by the kiosk's device token, never a user session
+export const KIOSK_TOKEN_KEY = 'kiosk-device-token';
+
+export async function kioskApi<T>(
+  token: string,
+  endpoint: string,
+  data?: unknown
+): Promise<ApiResponse<T> & { status: number }> {
+  const res = await fetch(`${API_URL}/kiosk/terminal${endpoint}`, {
+    method: data ? 'POST' : 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Kiosk-Token': token,
+    },
+    body: data ? JSON.stringify(data) : undefined,
+  });
+
+  return { ...(await res.json()), status: res.status };
+}
@@ -0,0 +1,21 @@
+/**
+ * CSV Download
+ *
+ * Builds a CSV file in the browser and saves it.
+ */
+
+function escapeCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function downloadCsv(filename: string, rows: (string | number | null | undefined)[][]): void {
+  const csv = rows.map((row) => row.map(escapeCell).join(',')).join('\n');
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -41,6 +41,11 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Shared kiosks authenticate with their own device token, not a user session
+  if (pathname.startsWith('/kiosk')) {
+    return NextResponse.next();
+  }
+
   // Get access token from cookie
   const accessToken = request.cookies.get('access_token')?.value;
 
@@ -12,6 +12,10 @@ import {
   LeaveRequestStatus,
   AnomalyStatus,
   ChatMessageType,
+  GeofenceZoneShape,
+  TimesheetStatus,
+  ProjectMemberRole,
+  RegularizationStatus,
 } from './enums';
 import {
   User,
@@ -22,6 +26,7 @@ import {
   AttendanceEvent,
   BreakSegment,
   TimesheetEntry,
+  TimesheetSubmission,
   LeaveRequest,
   LeaveBalance,
   UserPresence,
@@ -31,6 +36,9 @@ import {
   AuditLog,
   OfficeLocation,
   Holiday,
+  SiteVisit,
+  OvertimeRequest,
+  Invoice,
 } from './models';
 
 // ============================================================================
@@ -159,13 +167,43 @@ export interface CheckInRequest {
   longitude?: number;
   deviceFingerprint?: string;
   notes?: string;
+  qrToken?: string;
+  /** Customer site visited, for CustomerSite and FieldVisit check-ins */
+  customerSiteId?: string;
+  locationIntegrity?: LocationIntegritySignals;
+}
+
+/** GPS signals the mobile app reports with check-in coordinates */
+export interface LocationIntegritySignals {
+  isMocked?: boolean;
+  accuracyMeters?: number;
+  altitudeMeters?: number;
+  altitudeAccuracyMeters?: number;
+  speedMps?: number;
+  locationAgeMs?: number;
+  previousFix?: {
+    latitude: number;
+    longitude: number;
+    ageMs: number;
+  };
 }
 
 export interface CheckInResponse {
   event: AttendanceEvent;
+  /** Opened when checking in at a customer site */
+  siteVisit?: Pick<SiteVisit, 'id' | 'customerSiteId' | 'arrivedAt' | 'distanceMeters'>;
   attendanceDay: AttendanceDay;
 }
 
+export interface CheckInQrCode {
+  locationId: string;
+  locationName: string;
+  token: string;
+  rotationSeconds: number;
+  issuedAt: string;
+  expiresAt: string;
+}
+
 export interface CheckOutRequest {
   latitude?: number;
   longitude?: number;
@@ -200,10 +238,37 @@ export interface AttendanceSummary {
   leaveDays: number;
   totalWorkHours: number;
   totalOvertimeHours: number;
+  approvedOvertimeHours: number;
   averageCheckInTime?: string;
   averageCheckOutTime?: string;
 }
 
+export interface CreateOvertimeRequestPayload {
+  /** Employee to request for (managers and HR only) */
+  userId?: string;
+  date: string;
+  minutes: number;
+  reason: string;
+}
+
+export interface UnapprovedOvertimeDay {
+  attendanceDayId: string;
+  userId: string;
+  employeeName: string;
+  date: string;
+  overtimeMinutes: number;
+  approvedOvertimeMinutes: number;
+  unapprovedMinutes: number;
+  pendingRequestId: string | null;
+}
+
+export interface OvertimeReviewQueue {
+  startDate: string;
+  endDate: string;
+  pendingRequests: OvertimeRequest[];
+  unapprovedDays: UnapprovedOvertimeDay[];
+}
+
 // ============================================================================
 // Timesheets
 // ============================================================================
@@ -214,6 +279,8 @@ export interface CreateTimesheetEntryRequest {
   taskId: string;
   minutes: number;
   notes?: string;
+  /** Defaults to the project's setting */
+  isBillable?: boolean;
 }
 
 export interface UpdateTimesheetEntryRequest {
@@ -221,6 +288,7 @@ export interface UpdateTimesheetEntryRequest {
   taskId?: string;
   minutes?: number;
   notes?: string;
+  isBillable?: boolean;
 }
 
 export interface GetTimesheetRequest extends PaginatedRequest {
@@ -237,6 +305,123 @@ export interface TimesheetSummary {
   byDate: { date: string; minutes: number }[];
 }
 
+export interface TimesheetWeek {
+  weekStart: string;
+  weekEnd: string;
+  status: TimesheetStatus;
+  submission: TimesheetSubmission | null;
+  totalMinutes: number;
+  entries: TimesheetEntry[];
+}
+
+export interface SubmitTimesheetWeekRequest {
+  /** Any day in the week (YYYY-MM-DD) */
+  weekStart: string;
+}
+
+export interface ReviewTimesheetRequest {
+  /** Decision for every reviewable line without its own decision */
+  status?: TimesheetStatus.Approved | TimesheetStatus.Rejected;
+  entries?: {
+    id: string;
+    status: TimesheetStatus.Approved | TimesheetStatus.Rejected;
+    comment?: string;
+  }[];
+  comment?: string;
+}
+
+export interface TimesheetSuggestion {
+  date: string;
+  projectId: string;
+  taskId: string;
+  project: Pick<Project, 'id' | 'name' | 'code'>;
+  task: Pick<Task, 'id' | 'name' | 'code'>;
+  /** Activity logged on the task that day */
+  activityMinutes: number;
+  /** Proposed minutes, net of existing entries and rounded */
+  minutes: number;
+  /** Reduced so the day fits within attendance worked minutes */
+  trimmed: boolean;
+}
+
+export interface TimesheetSuggestionDay {
+  date: string;
+  /** Worked minutes from attendance; null without a completed attendance day */
+  attendanceMinutes: number | null;
+  loggedMinutes: number;
+  activityMinutes: number;
+  suggestedMinutes: number;
+  /** Week submitted or approved, or payroll period closed */
+  locked: boolean;
+  suggestions: TimesheetSuggestion[];
+}
+
+export interface TimesheetSuggestionWeek {
+  weekStart: string;
+  weekEnd: string;
+  totalSuggestedMinutes: number;
+  days: TimesheetSuggestionDay[];
+}
+
+export interface AcceptTimesheetSuggestionsRequest {
+  entries: {
+    date: string;
+    projectId: string;
+    taskId: string;
+    minutes: number;
+    notes?: string;
+  }[];
+}
+
+export interface TimesheetTemplateLineInput {
+  /** 0 = Sunday */
+  weekday: number;
+  projectId: string;
+  taskId: string;
+  minutes: number;
+  notes?: string;
+}
+
+export interface CreateTimesheetTemplateRequest {
+  name: string;
+  isRecurring?: boolean;
+  lines: TimesheetTemplateLineInput[];
+}
+
+export interface CreateTimesheetTemplateFromWeekRequest {
+  name: string;
+  /** Any day of the week to save */
+  weekStart: string;
+  isRecurring?: boolean;
+}
+
+export interface CopyTimesheetWeekRequest {
+  /** Any day of the week to fill */
+  weekStart: string;
+  /** Any day of the week to copy; the previous week when omitted */
+  sourceWeekStart?: string;
+}
+
+export type TimesheetFillSkipReason = 'Holiday' | 'Leave' | 'Locked' | 'NoAccess' | 'AlreadyLogged' | 'DailyLimit';
+
+/**
+ * Outcome of copying a week or applying a template
+ */
+export interface TimesheetFillResult {
+  weekStart: string;
+  weekEnd: string;
+  /** Draft entries created */
+  entries: TimesheetEntry[];
+  /** Days and lines left out; for DailyLimit, the minutes cut from the line */
+  skipped: {
+    date: string;
+    reason: TimesheetFillSkipReason;
+    projectId?: string;
+    taskId?: string;
+    minutes: number;
+  }[];
+}
+
 export interface UploadAttachmentRequest {
   timesheetEntryId: string;
   fileName: string;
@@ -380,6 +565,77 @@ export interface AnomalySummary {
   byType: { type: string; count: number }[];
 }
 
+// ============================================================================
+// Project Budgets
+// ============================================================================
+
+export interface BudgetBurn {
+  budgetMinutes: number | null;
+  budgetCost: number | null;
+  /** Approved timesheet minutes */
+  burnedMinutes: number;
+  /** Approved minutes priced at each employee's hourly rate */
+  burnedCost: number;
+  /** Approved minutes by employees without an hourly rate */
+  unpricedMinutes: number;
+  percentMinutes: number | null;
+  percentCost: number | null;
+}
+
+export interface BurnDownPoint {
+  date: string;
+  /** Cumulative; null after today */
+  burnedMinutes: number | null;
+  remainingMinutes: number | null;
+  /** Straight line from the budget at the start to zero at the deadline */
+  idealRemainingMinutes: number | null;
+}
+
+export interface ProjectBudget extends BudgetBurn {
+  project: Pick<Project, 'id' | 'name' | 'code' | 'startDate' | 'deadline' | 'budgetAlertThresholds'>;
+  /** Submitted but not yet approved */
+  pendingMinutes: number;
+  tasks: (BudgetBurn & Pick<Task, 'id' | 'name' | 'code' | 'isActive' | 'deadline'>)[];
+  burnDown: BurnDownPoint[];
+}
+
+// ============================================================================
+// Project Membership
+// ============================================================================
+
+export interface AddProjectMemberRequest {
+  userId: string;
+  /** Member when omitted */
+  role?: ProjectMemberRole;
+}
+
+export interface SetTaskAssigneesRequest {
+  /** Empty opens the task to every project member */
+  userIds: string[];
+}
+
+// ============================================================================
+// Billing
+// ============================================================================
+
+export interface UpdateProjectRatesRequest {
+  /** The full rate card; a rate with neither employee nor role is the flat rate */
+  rates: Array<{ userId?: string; role?: UserRole; hourlyRate: number }>;
+}
+
+export interface GenerateInvoicesRequest {
+  periodStart: string;
+  periodEnd: string;
+  /** All projects with unbilled items when omitted */
+  projectIds?: string[];
+}
+
+export interface GenerateInvoicesResponse {
+  invoices: Invoice[];
+  /** Expenses left out because they are not in the project's currency */
+  skippedExpenses: number;
+}
+
 // ============================================================================
 // Admin & Policies
 // ============================================================================
@@ -400,12 +656,53 @@ export interface UpdateGeofencePolicyRequest {
   allowBypassWithReason?: boolean;
 }
 
+export interface CreateCustomerSiteRequest {
+  name: string;
+  customerName?: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters?: number;
+  projectId?: string;
+}
+
+export interface TimeOnSiteReport {
+  startDate: string;
+  endDate: string;
+  sites: Array<{
+    site: {
+      id: string;
+      name: string;
+      customerName?: string;
+      project?: { id: string; name: string; code: string };
+    };
+    visitCount: number;
+    /** Visits still in progress, not counted in totalMinutes */
+    openVisits: number;
+    totalMinutes: number;
+    employees: Array<{
+      userId: string;
+      employeeName: string;
+      visitCount: number;
+      totalMinutes: number;
+    }>;
+  }>;
+}
+
 export interface CreateOfficeLocationRequest {
   name: string;
   address: string;
   latitude: number;
   longitude: number;
   radiusMeters: number;
+  zones?: Array<{
+    name: string;
+    shape: GeofenceZoneShape;
+    latitude?: number;
+    longitude?: number;
+    radiusMeters?: number;
+    polygon?: [number, number][];
+  }>;
 }
 
 export interface UpdateRetentionPolicyRequest {
@@ -449,6 +746,49 @@ export interface ProjectTimeSummary {
   userBreakdown: { userId: string; userName: string; minutes: number }[];
 }
 
+export type TimesheetReconciliationIssue = 'Unlogged' | 'OverLogged' | 'LeaveConflict';
+
+/**
+ * An employee day where attendance and timesheet minutes disagree
+ */
+export interface TimesheetReconciliationRow {
+  date: string;
+  user: Pick<User, 'id' | 'email'> & {
+    profile: { firstName: string; lastName: string; department?: string | null; managerId?: string | null } | null;
+  };
+  attendanceMinutes: number;
+  /** False while the day has an open attendance session */
+  attendanceComplete: boolean;
+  loggedMinutes: number;
+  /** Logged minus attendance minutes */
+  differenceMinutes: number;
+  issues: TimesheetReconciliationIssue[];
+  leave: { id: string; leaveTypeName: string } | null;
+  /** Pending or approved attendance correction for the day */
+  regularization: { id: string; status: RegularizationStatus } | null;
+  entries: {
+    id: string;
+    minutes: number;
+    status: TimesheetStatus;
+    project: Pick<Project, 'id' | 'name' | 'code'>;
+    task: Pick<Task, 'id' | 'name' | 'code'>;
+  }[];
+}
+
+export interface TimesheetReconciliationReport {
+  startDate: string;
+  endDate: string;
+  toleranceMinutes: number;
+  totals: { days: number; unloggedMinutes: number; overLoggedMinutes: number };
+  rows: TimesheetReconciliationRow[];
+}
+
+export interface FlagReconciliationDayRequest {
+  userId: string;
+  date: string;
+  note?: string;
+}
+
 // ============================================================================
 // WebSocket Events
 // ============================================================================
@@ -55,7 +55,7 @@ export enum BreakType {
 
 /**
  * Verification status for attendance events
- * Tracks how check-in was verified (geofence, QR, device)
+ * Tracks how check-in was verified (geofence, QR, device, imported time clock punch, shared kiosk)
  */
 export enum VerificationStatus {
   None = 'None',
@@ -64,6 +64,102 @@ export enum VerificationStatus {
   QRPassed = 'QRPassed',
   QRFailed = 'QRFailed',
   DeviceVerified = 'DeviceVerified',
+  BiometricDevice = 'BiometricDevice',
+  KioskVerified = 'KioskVerified',
+}
+
+/**
+ * How an employee's day was accounted for
+ */
+export enum DayStatus {
+  Present = 'Present',
+  OnLeave = 'OnLeave',
+  Holiday = 'Holiday',
+  Weekend = 'Weekend',
+  Absent = 'Absent',
+}
+
+/**
+ * How trustworthy a mobile check-in location is, from the device's GPS signals
+ */
+export enum LocationIntegrityVerdict {
+  Trusted = 'Trusted',
+  Suspicious = 'Suspicious',
+  Spoofed = 'Spoofed',
+  /** The device sent no GPS signals; only server-side checks ran */
+  Unverified = 'Unverified',
+}
+
+/**
+ * Shape of an office location geofence zone
+ */
+export enum GeofenceZoneShape {
+  Circle = 'Circle',
+  Polygon = 'Polygon',
+}
+
+/**
+ * Target a work schedule is assigned to
+ */
+export enum WorkScheduleScope {
+  Employee = 'Employee',
+  Department = 'Department',
+  OfficeLocation = 'OfficeLocation',
+}
+
+/**
+ * Attendance regularization request status workflow
+ */
+export enum RegularizationStatus {
+  Pending = 'Pending',
+  Approved = 'Approved',
+  Rejected = 'Rejected',
+  Cancelled = 'Cancelled',
+}
+
+/**
+ * Overtime request status workflow
+ */
+export enum OvertimeRequestStatus {
+  Pending = 'Pending',
+  Approved = 'Approved',
+  Rejected = 'Rejected',
+  Cancelled = 'Cancelled',
+}
+
+/**
+ * Payroll period lock state
+ */
+export enum PeriodLockStatus {
+  Closed = 'Closed',
+  Reopened = 'Reopened',
+}
+
+/**
+ * What a closed-period adjustment corrects
+ */
+export enum PeriodAdjustmentType {
+  Attendance = 'Attendance',
+  Timesheet = 'Timesheet',
+  Leave = 'Leave',
+}
+
+/**
+ * Why a comp-off credit was earned
+ */
+export enum CompOffSource {
+  Holiday = 'Holiday',
+  NonWorkingDay = 'NonWorkingDay',
+}
+
+/**
+ * Comp-off credit workflow
+ */
+export enum CompOffCreditStatus {
+  Pending = 'Pending',
+  Approved = 'Approved',
+  Rejected = 'Rejected',
+  Expired = 'Expired',
 }
 
 /**
@@ -177,6 +273,13 @@ export enum AuditAction {
   AttendanceOverride = 'AttendanceOverride',
   BreakStarted = 'BreakStarted',
   BreakEnded = 'BreakEnded',
+  BreakAutoEnded = 'BreakAutoEnded',
+  AttendanceAutoCheckOut = 'AttendanceAutoCheckOut',
+  AttendanceImported = 'AttendanceImported',
+  AttendanceRecalculated = 'AttendanceRecalculated',
+  RegularizationApproved = 'RegularizationApproved',
+  RegularizationRejected = 'RegularizationRejected',
+  AttendanceCorrectionRequested = 'AttendanceCorrectionRequested',
 
   // Leave actions
   LeaveRequested = 'LeaveRequested',
@@ -188,12 +291,37 @@ export enum AuditAction {
   TimesheetCreated = 'TimesheetCreated',
   TimesheetUpdated = 'TimesheetUpdated',
   TimesheetDeleted = 'TimesheetDeleted',
+  TimesheetSubmitted = 'TimesheetSubmitted',
+  TimesheetReviewed = 'TimesheetReviewed',
+
+  // Payroll period actions
+  PeriodClosed = 'PeriodClosed',
+  PeriodReopened = 'PeriodReopened',
+  PeriodAdjustmentCreated = 'PeriodAdjustmentCreated',
+
+  // Billing actions
+  ProjectRatesUpdated = 'ProjectRatesUpdated',
+  InvoiceGenerated = 'InvoiceGenerated',
+  InvoiceIssued = 'InvoiceIssued',
+  InvoiceVoided = 'InvoiceVoided',
+  InvoiceDeleted = 'InvoiceDeleted',
+
+  // Project membership actions
+  ProjectMemberAdded = 'ProjectMemberAdded',
+  ProjectMemberUpdated = 'ProjectMemberUpdated',
+  ProjectMemberRemoved = 'ProjectMemberRemoved',
+  TaskAssigneesUpdated = 'TaskAssigneesUpdated',
 
   // Policy actions
   PolicyUpdated = 'PolicyUpdated',
   HolidayCalendarUpdated = 'HolidayCalendarUpdated',
   GeofenceUpdated = 'GeofenceUpdated',
   AnomalyRuleUpdated = 'AnomalyRuleUpdated',
+  WorkScheduleCreated = 'WorkScheduleCreated',
+  WorkScheduleUpdated = 'WorkScheduleUpdated',
+  WorkScheduleDeactivated = 'WorkScheduleDeactivated',
+  WorkScheduleAssigned = 'WorkScheduleAssigned',
+  WorkScheduleUnassigned = 'WorkScheduleUnassigned',
 
   // Anomaly actions
   AnomalyAcknowledged = 'AnomalyAcknowledged',
@@ -212,9 +340,17 @@ export enum EntityType {
   AttendanceDay = 'AttendanceDay',
   AttendanceEvent = 'AttendanceEvent',
   BreakSegment = 'BreakSegment',
+  AttendanceRegularization = 'AttendanceRegularization',
+  OvertimeRequest = 'OvertimeRequest',
   TimesheetEntry = 'TimesheetEntry',
+  TimesheetSubmission = 'TimesheetSubmission',
   LeaveRequest = 'LeaveRequest',
   LeavePolicy = 'LeavePolicy',
+  CompOffCredit = 'CompOffCredit',
+  KioskDevice = 'KioskDevice',
+  PeriodLock = 'PeriodLock',
+  PeriodAdjustment = 'PeriodAdjustment',
+  Invoice = 'Invoice',
   ChatThread = 'ChatThread',
   ChatMessage = 'ChatMessage',
   AnomalyEvent = 'AnomalyEvent',
@@ -222,6 +358,7 @@ export enum EntityType {
   OfficeLocation = 'OfficeLocation',
   GeofencePolicy = 'GeofencePolicy',
   HolidayCalendar = 'HolidayCalendar',
+  WorkSchedule = 'WorkSchedule',
 }
 
 /**
@@ -233,3 +370,49 @@ export enum TimesheetStatus {
   Approved = 'Approved',
   Rejected = 'Rejected',
 }
+
+/**
+ * How timer durations are rounded to the company's increment
+ */
+export enum TimerRoundingMode {
+  Nearest = 'Nearest',
+  Up = 'Up',
+  Down = 'Down',
+}
+
+export enum TimesheetReminderKind {
+  Reminder = 'Reminder',
+  Overdue = 'Overdue',
+  Escalation = 'Escalation',
+  Digest = 'Digest',
+}
+
+export enum BudgetMetric {
+  Hours = 'Hours',
+  Cost = 'Cost',
+}
+
+/**
+ * Role of a project member; leads can log time to any task of the project
+ */
+export enum ProjectMemberRole {
+  Member = 'Member',
+  Lead = 'Lead',
+}
+
+/**
+ * Client invoice status
+ */
+export enum InvoiceStatus {
+  Draft = 'Draft',
+  Issued = 'Issued',
+  Void = 'Void',
+}
+
+/**
+ * What an invoice line bills: grouped time or one expense
+ */
+export enum InvoiceLineType {
+  Time = 'Time',
+  Expense = 'Expense',
+}
@@ -12,8 +12,15 @@ import {
   AttendanceEventType,
   BreakType,
   VerificationStatus,
+  LocationIntegrityVerdict,
+  RegularizationStatus,
+  OvertimeRequestStatus,
   LeaveRequestStatus,
   LeaveType,
+  CompOffSource,
+  CompOffCreditStatus,
+  PeriodLockStatus,
+  PeriodAdjustmentType,
   PresenceStatus,
   ChatThreadType,
   ChatMessageType,
@@ -23,6 +30,14 @@ import {
   AuditAction,
   EntityType,
   TimesheetStatus,
+  TimerRoundingMode,
+  TimesheetReminderKind,
+  InvoiceStatus,
+  InvoiceLineType,
+  ProjectMemberRole,
+  WorkScheduleScope,
+  DayStatus,
+  GeofenceZoneShape,
 } from './enums';
 
 // ============================================================================
@@ -59,6 +74,7 @@ export interface EmployeeProfile extends BaseEntity {
   timezone: string;
   status: EmployeeStatus;
   managerId?: string;
+  officeLocationId?: string;
   avatarUrl?: string;
   joinDate: string;
 }
@@ -82,6 +98,42 @@ export interface Project extends BaseEntity {
   description?: string;
   isActive: boolean;
   managerId?: string;
+  /** Hour budget in minutes */
+  budgetMinutes?: number | null;
+  budgetCost?: number | null;
+  startDate?: string | null; // YYYY-MM-DD
+  deadline?: string | null; // YYYY-MM-DD
+  /** Percentages of budget at which the project manager is alerted */
+  budgetAlertThresholds: number[];
+  clientName?: string | null;
+  clientEmail?: string | null;
+  clientAddress?: string | null;
+  /** ISO 4217 code invoices are raised in */
+  currency: string;
+  /** Whether new timesheet entries on the project are billable */
+  defaultBillable: boolean;
+  /** Only members and the project manager can log time and join project chats */
+  membersOnly: boolean;
+}
+
+export interface ProjectMember {
+  id: string;
+  projectId: string;
+  userId: string;
+  role: ProjectMemberRole;
+  createdAt: string;
+  user?: User;
+}
+
+/**
+ * Hourly rate billed to a project's client. A rate with neither employee
+ * nor role is the project's flat rate; the most specific rate wins.
+ */
+export interface ProjectRate extends BaseEntity {
+  projectId: string;
+  userId?: string | null;
+  role?: UserRole | null;
+  hourlyRate: number;
 }
 
 export interface Task extends BaseEntity {
@@ -90,6 +142,19 @@ export interface Task extends BaseEntity {
   code: string;
   description?: string;
   isActive: boolean;
+  /** Estimate in minutes */
+  budgetMinutes?: number | null;
+  budgetCost?: number | null;
+  deadline?: string | null; // YYYY-MM-DD
+  /** When set, only these employees and the project's leads can log time to the task */
+  assignees?: TaskAssignee[];
+}
+
+export interface TaskAssignee {
+  id: string;
+  taskId: string;
+  userId: string;
+  createdAt: string;
 }
 
 // ============================================================================
@@ -103,6 +168,8 @@ export interface AttendanceDay extends BaseEntity {
   totalBreakMinutes: number;
   totalLunchMinutes: number;
   overtimeMinutes: number;
+  /** Portion of overtimeMinutes covered by approved overtime requests */
+  approvedOvertimeMinutes: number;
   isComplete: boolean;
   events: AttendanceEvent[];
   breaks: BreakSegment[];
@@ -121,6 +188,42 @@ export interface AttendanceEvent extends BaseEntity {
   isOverride: boolean;
   overrideReason?: string;
   overrideBy?: string;
+  officeLocationId?: string;
+  isAutoClosed: boolean;
+  locationIntegrity?: LocationIntegrityVerdict;
+  locationIntegrityScore?: number;
+  /** Set when the event was punched at a shared kiosk */
+  kioskDeviceId?: string;
+}
+
+export interface AttendanceRegularization extends BaseEntity {
+  userId: string;
+  date: string;
+  proposedCheckIn?: string;
+  proposedCheckOut?: string;
+  workMode?: WorkMode;
+  reason: string;
+  status: RegularizationStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNotes?: string;
+  rejectionReason?: string;
+}
+
+export interface OvertimeRequest extends BaseEntity {
+  userId: string;
+  date: string;
+  minutes: number;
+  approvedMinutes?: number;
+  reason: string;
+  /** Filed before any overtime was recorded for the day */
+  isPreApproval: boolean;
+  requestedBy: string;
+  status: OvertimeRequestStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNotes?: string;
+  rejectionReason?: string;
 }
 
 export interface BreakSegment extends BaseEntity {
@@ -129,6 +232,7 @@ export interface BreakSegment extends BaseEntity {
   startTime: string;
   endTime?: string;
   durationMinutes?: number;
+  isAutoClosed: boolean;
 }
 
 // ============================================================================
@@ -143,9 +247,77 @@ export interface TimesheetEntry extends BaseEntity {
   minutes: number;
   notes?: string;
   status: TimesheetStatus;
+  submissionId?: string;
+  /** Reviewer's comment, required when the line is rejected */
+  reviewComment?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  isBillable: boolean;
+  /** Set once the time has been billed to the client */
+  invoiceId?: string | null;
   attachments: TimesheetAttachment[];
 }
 
+/**
+ * A week (Monday to Sunday) of timesheet entries submitted for approval
+ */
+export interface TimesheetSubmission extends BaseEntity {
+  userId: string;
+  weekStart: string;
+  status: TimesheetStatus;
+  submittedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  comment?: string;
+}
+
+/**
+ * A user's running timer; stopping it books the time to draft entries
+ */
+export interface TimesheetTimer {
+  id: string;
+  userId: string;
+  projectId: string;
+  taskId: string;
+  notes?: string;
+  startedAt: string;
+}
+
+/**
+ * A user's saved week of time, used to pre-fill draft entries
+ */
+export interface TimesheetTemplate extends BaseEntity {
+  userId: string;
+  name: string;
+  /** Applied automatically at the start of each week */
+  isRecurring: boolean;
+  lastAppliedWeek?: string | null; // YYYY-MM-DD
+  lines: TimesheetTemplateLine[];
+}
+
+export interface TimesheetTemplateLine {
+  id: string;
+  templateId: string;
+  /** 0 = Sunday */
+  weekday: number;
+  projectId: string;
+  taskId: string;
+  minutes: number;
+  notes?: string | null;
+  sortOrder: number;
+  project?: Pick<Project, 'id' | 'name' | 'code'>;
+  task?: Pick<Task, 'id' | 'name' | 'code'>;
+}
+
+/** A reminder, escalation or digest already sent for a week */
+export interface TimesheetReminder {
+  id: string;
+  userId: string;
+  weekStart: string;
+  kind: TimesheetReminderKind;
+  sentAt: string;
+}
+
 export interface TimesheetAttachment extends BaseEntity {
   timesheetEntryId: string;
   fileName: string;
@@ -200,6 +372,31 @@ export interface Holiday extends BaseEntity {
   year: number;
 }
 
+/** Comp-off ledger entry for a holiday or non-working day worked */
+export interface CompOffCredit extends BaseEntity {
+  userId: string;
+  companyId: string;
+  attendanceDayId: string;
+  date: string;
+  source: CompOffSource;
+  holidayId?: string;
+  workedMinutes: number;
+  /** 0.5 or 1 */
+  days: number;
+  status: CompOffCreditStatus;
+  expiresAt: string;
+  /** Balance the credit was added to once confirmed */
+  leaveBalanceId?: string;
+  /** Days taken as leave, charged to the oldest-expiring credit first */
+  usedDays: number;
+  /** Unused days taken back from the balance on expiry */
+  expiredDays?: number;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNotes?: string;
+  rejectionReason?: string;
+}
+
 // ============================================================================
 // Presence & Availability
 // ============================================================================
@@ -256,13 +453,72 @@ export interface OfficeLocation extends BaseEntity {
   latitude: number;
   longitude: number;
   radiusMeters: number;
+  qrCheckInEnabled: boolean;
   isActive: boolean;
+  /** When present, these replace the radius circle for check-in validation */
+  zones: GeofenceZone[];
+}
+
+export interface GeofenceZone extends BaseEntity {
+  officeLocationId: string;
+  name: string;
+  shape: GeofenceZoneShape;
+  latitude?: number;
+  longitude?: number;
+  radiusMeters?: number;
+  /** [latitude, longitude] vertices for Polygon zones */
+  polygon?: [number, number][];
+}
+
+/** Shared check-in device locked to one office location */
+export interface KioskDevice extends BaseEntity {
+  companyId: string;
+  officeLocationId: string;
+  name: string;
+  isActive: boolean;
+  lastSeenAt?: string;
+  createdBy: string;
+}
+
+export interface CustomerSite extends BaseEntity {
+  companyId: string;
+  projectId?: string;
+  name: string;
+  customerName?: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  /** Check-ins within this distance count as on site */
+  radiusMeters: number;
+  isActive: boolean;
+}
+
+export interface SiteVisit {
+  id: string;
+  customerSiteId: string;
+  siteName: string;
+  customerName?: string;
+  userId: string;
+  employeeName: string;
+  workMode: WorkMode;
+  arrivedAt: string;
+  /** Absent while the employee is still on site */
+  departedAt?: string;
+  durationMinutes?: number;
+  /** Distance from the site at check-in, when coordinates were sent */
+  distanceMeters?: number;
+  isOnSite?: boolean;
+  hasPhoto: boolean;
+  photoFileName?: string;
+  notes?: string;
 }
 
 export interface GeofencePolicy extends BaseEntity {
   isEnabled: boolean;
   requireGeofenceForOffice: boolean;
   allowBypassWithReason: boolean;
+  requireQrForOffice: boolean;
+  qrRotationSeconds: number;
   officeLocations: string[]; // OfficeLocation IDs
 }
 
@@ -298,6 +554,80 @@ export interface AnomalyEvent extends BaseEntity {
   resolutionNotes?: string;
 }
 
+// ============================================================================
+// Payroll Periods
+// ============================================================================
+
+/** Closed payroll period; its attendance, timesheets and leave are read-only */
+export interface PeriodLock extends BaseEntity {
+  companyId: string;
+  startDate: string;
+  endDate: string;
+  label?: string;
+  status: PeriodLockStatus;
+  closedBy: string;
+  closedAt: string;
+  reopenedBy?: string;
+  reopenedAt?: string;
+  reopenReason?: string;
+}
+
+/** Correction to a closed day, paid in the next open period */
+export interface PeriodAdjustment {
+  id: string;
+  companyId: string;
+  periodLockId: string;
+  userId: string;
+  date: string;
+  type: PeriodAdjustmentType;
+  /** Signed minutes (Attendance and Timesheet) */
+  minutes?: number;
+  /** Signed leave days (Leave) */
+  days?: number;
+  reason: string;
+  /** First open day after the closed period */
+  appliedDate: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+// ============================================================================
+// Billing
+// ============================================================================
+
+export interface InvoiceLine {
+  id: string;
+  invoiceId: string;
+  type: InvoiceLineType;
+  description: string;
+  /** Hours for time lines, 1 for expenses */
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  sortOrder: number;
+}
+
+/** Client invoice for one project and billing period */
+export interface Invoice extends BaseEntity {
+  companyId: string;
+  projectId: string;
+  /** Sequential per company, e.g. INV-000042 */
+  number: string;
+  status: InvoiceStatus;
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  clientName?: string | null;
+  clientEmail?: string | null;
+  clientAddress?: string | null;
+  subtotal: number;
+  notes?: string | null;
+  issuedAt?: string | null;
+  dueDate?: string | null;
+  createdBy: string;
+  lines?: InvoiceLine[];
+}
+
 // ============================================================================
 // Audit Logging
 // ============================================================================
@@ -329,6 +659,62 @@ export interface WorkPolicy extends BaseEntity {
   graceMinutesEarly: number;
   requireTimesheetNotes: boolean;
   maxTimesheetMinutesPerDay: number;
+  autoCheckoutEnabled: boolean;
+  autoCheckoutTime: string; // HH:mm, local
+  autoEndBreakMinutes?: number;
+  compOffEnabled: boolean;
+  compOffHalfDayMinutes: number;
+  compOffFullDayMinutes: number;
+  compOffExpiryDays: number;
+  timerRoundingMinutes: number;
+  timerRoundingMode: TimerRoundingMode;
+  timesheetRemindersEnabled: boolean;
+  timesheetReminderDay: number; // 0 = Sunday
+  timesheetReminderTime: string; // HH:mm, local
+  timesheetDueDay: number; // 0 = Sunday, in the week after
+  timesheetDueTime: string; // HH:mm, local
+  timesheetEscalationHours?: number | null;
+}
+
+/** Nightly snapshot of how an employee's day was accounted for */
+export interface DailyAttendanceStatus extends BaseEntity {
+  userId: string;
+  companyId: string;
+  date: string;
+  status: DayStatus;
+  leaveRequestId?: string;
+  holidayId?: string;
+}
+
+export interface WorkScheduleDay {
+  id: string;
+  scheduleId: string;
+  weekday: number; // 0 = Sunday
+  isWorkingDay: boolean;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+}
+
+export interface WorkScheduleAssignment {
+  id: string;
+  scheduleId: string;
+  scope: WorkScheduleScope;
+  userId?: string;
+  departmentId?: string;
+  officeLocationId?: string;
+  createdAt: string;
+}
+
+export interface WorkSchedule extends BaseEntity {
+  companyId: string;
+  name: string;
+  description?: string;
+  graceMinutesLate: number;
+  graceMinutesEarly: number;
+  isDefault: boolean;
+  isActive: boolean;
+  days: WorkScheduleDay[];
+  assignments?: WorkScheduleAssignment[];
 }
 
 export interface RetentionPolicy extends BaseEntity {